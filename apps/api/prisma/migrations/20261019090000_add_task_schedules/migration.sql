@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskSchedule" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "rrule" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "customerId" TEXT,
+    "geoLocationId" TEXT,
+    "assigneeIds" TEXT[],
+    "expectedRevenue" DECIMAL(15,4),
+    "leadTimeDays" INTEGER NOT NULL DEFAULT 14,
+    "lastOccurrenceAt" TIMESTAMP(3),
+    "pausedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TaskSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskSchedule_deletedAt_pausedAt_idx" ON "TaskSchedule"("deletedAt", "pausedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskSchedule_customerId_idx" ON "TaskSchedule"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Task_scheduleId_idx" ON "Task"("scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "TaskSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskSchedule" ADD CONSTRAINT "TaskSchedule_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskSchedule" ADD CONSTRAINT "TaskSchedule_geoLocationId_fkey" FOREIGN KEY ("geoLocationId") REFERENCES "GeoLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
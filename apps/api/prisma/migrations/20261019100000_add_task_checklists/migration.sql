@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "TaskWorkType" AS ENUM ('INSTALLATION', 'REPAIR', 'MAINTENANCE');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "workType" "TaskWorkType";
+
+-- CreateTable
+CREATE TABLE "ChecklistTemplateItem" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "workType" "TaskWorkType" NOT NULL,
+    "label" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ChecklistTemplateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskChecklistItem" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "templateItemId" TEXT,
+    "label" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "checkedAt" TIMESTAMP(3),
+    "checkedBy" TEXT,
+
+    CONSTRAINT "TaskChecklistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChecklistTemplateItem_workType_deletedAt_idx" ON "ChecklistTemplateItem"("workType", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskChecklistItem_taskId_idx" ON "TaskChecklistItem"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "TaskChecklistItem" ADD CONSTRAINT "TaskChecklistItem_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed default checklist templates (editable by admins afterwards)
+INSERT INTO "ChecklistTemplateItem" ("id", "updatedAt", "workType", "label", "required", "sortOrder") VALUES
+    ('chktpl_default_installation_1', CURRENT_TIMESTAMP, 'INSTALLATION', 'Kiểm tra vị trí lắp đặt dàn nóng, dàn lạnh', true, 1),
+    ('chktpl_default_installation_2', CURRENT_TIMESTAMP, 'INSTALLATION', 'Hút chân không đường ống', true, 2),
+    ('chktpl_default_installation_3', CURRENT_TIMESTAMP, 'INSTALLATION', 'Kiểm tra áp suất gas sau khi lắp', true, 3),
+    ('chktpl_default_installation_4', CURRENT_TIMESTAMP, 'INSTALLATION', 'Hướng dẫn khách hàng sử dụng', false, 4),
+    ('chktpl_default_repair_1', CURRENT_TIMESTAMP, 'REPAIR', 'Xác định nguyên nhân hư hỏng', true, 1),
+    ('chktpl_default_repair_2', CURRENT_TIMESTAMP, 'REPAIR', 'Chạy thử sau khi sửa', true, 2),
+    ('chktpl_default_maintenance_1', CURRENT_TIMESTAMP, 'MAINTENANCE', 'Vệ sinh lưới lọc', true, 1),
+    ('chktpl_default_maintenance_2', CURRENT_TIMESTAMP, 'MAINTENANCE', 'Vệ sinh đường thoát nước', true, 2),
+    ('chktpl_default_maintenance_3', CURRENT_TIMESTAMP, 'MAINTENANCE', 'Kiểm tra áp suất gas', true, 3);
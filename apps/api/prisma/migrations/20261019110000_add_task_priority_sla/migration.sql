@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "priority" "TaskPriority" NOT NULL DEFAULT 'NORMAL',
+ADD COLUMN     "slaBreachedAt" TIMESTAMP(3),
+ADD COLUMN     "slaDueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Task_slaDueAt_slaBreachedAt_idx" ON "Task"("slaDueAt", "slaBreachedAt");
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "TaskStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
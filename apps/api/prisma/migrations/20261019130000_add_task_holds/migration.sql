@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "TaskHoldReason" AS ENUM ('WAITING_FOR_PARTS', 'CUSTOMER_ABSENT', 'NEEDS_SECOND_VISIT');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "holdReason" "TaskHoldReason";
+
+-- CreateTable
+CREATE TABLE "TaskHold" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" "TaskHoldReason" NOT NULL,
+    "notes" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TaskHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskHold_taskId_endedAt_idx" ON "TaskHold"("taskId", "endedAt");
+
+-- CreateIndex
+CREATE INDEX "TaskHold_userId_startedAt_idx" ON "TaskHold"("userId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskHold" ADD CONSTRAINT "TaskHold_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
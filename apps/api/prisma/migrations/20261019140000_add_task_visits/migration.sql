@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "TaskVisit" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "checkedInAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedOutAt" TIMESTAMP(3),
+    "completedTask" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "TaskVisit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskVisit_taskId_userId_checkedOutAt_idx" ON "TaskVisit"("taskId", "userId", "checkedOutAt");
+
+-- CreateIndex
+CREATE INDEX "TaskVisit_userId_checkedInAt_idx" ON "TaskVisit"("userId", "checkedInAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskVisit" ADD CONSTRAINT "TaskVisit_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill one visit per existing check-in, closed by the next check-out of
+-- the same user on the same task (Activity topic is "TASK_<id>")
+INSERT INTO "TaskVisit" ("id", "updatedAt", "taskId", "userId", "checkedInAt", "checkedOutAt", "completedTask")
+SELECT
+    'visit_' || checkin."id",
+    CURRENT_TIMESTAMP,
+    CAST(SUBSTRING(checkin."topic" FROM 6) AS INTEGER),
+    checkin."userId",
+    checkin."createdAt",
+    checkout."createdAt",
+    checkout."createdAt" IS NOT NULL
+FROM "Activity" checkin
+LEFT JOIN LATERAL (
+    SELECT o."createdAt"
+    FROM "Activity" o
+    WHERE o."action" = 'TASK_CHECKED_OUT'
+      AND o."topic" = checkin."topic"
+      AND o."userId" = checkin."userId"
+      AND o."createdAt" >= checkin."createdAt"
+    ORDER BY o."createdAt" ASC
+    LIMIT 1
+) checkout ON TRUE
+WHERE checkin."action" = 'TASK_CHECKED_IN'
+  AND checkin."userId" IS NOT NULL
+  AND checkin."topic" ~ '^TASK_[0-9]+$'
+  AND EXISTS (
+    SELECT 1 FROM "Task" t
+    WHERE t."id" = CAST(SUBSTRING(checkin."topic" FROM 6) AS INTEGER)
+  );
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "TaskVisit" ADD COLUMN     "checkInGeoLocationId" TEXT,
+ADD COLUMN     "checkOutGeoLocationId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "TaskVisit" ADD CONSTRAINT "TaskVisit_checkInGeoLocationId_fkey" FOREIGN KEY ("checkInGeoLocationId") REFERENCES "GeoLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskVisit" ADD CONSTRAINT "TaskVisit_checkOutGeoLocationId_fkey" FOREIGN KEY ("checkOutGeoLocationId") REFERENCES "GeoLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill from the check-in / check-out activities (payload.geoLocation.id)
+UPDATE "TaskVisit" v
+SET "checkInGeoLocationId" = a."payload" -> 'geoLocation' ->> 'id'
+FROM "Activity" a
+WHERE v."id" = 'visit_' || a."id"
+  AND a."payload" -> 'geoLocation' ->> 'id' IN (SELECT "id" FROM "GeoLocation");
+
+UPDATE "TaskVisit" v
+SET "checkOutGeoLocationId" = checkout."geoLocationId"
+FROM (
+    SELECT DISTINCT ON (a."topic", a."userId", a."createdAt")
+        a."topic",
+        a."userId",
+        a."createdAt",
+        a."payload" -> 'geoLocation' ->> 'id' AS "geoLocationId"
+    FROM "Activity" a
+    WHERE a."action" = 'TASK_CHECKED_OUT'
+) checkout
+WHERE v."checkedOutAt" = checkout."createdAt"
+  AND v."userId" = checkout."userId"
+  AND checkout."topic" = 'TASK_' || v."taskId"
+  AND checkout."geoLocationId" IN (SELECT "id" FROM "GeoLocation");
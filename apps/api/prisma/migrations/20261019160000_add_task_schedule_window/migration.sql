@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "estimatedDurationMinutes" INTEGER,
+ADD COLUMN     "scheduledEndAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Task_scheduledAt_idx" ON "Task"("scheduledAt");
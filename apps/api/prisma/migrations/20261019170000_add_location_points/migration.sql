@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "LocationPoint" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LocationPoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LocationPoint_taskId_recordedAt_idx" ON "LocationPoint"("taskId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "LocationPoint_recordedAt_idx" ON "LocationPoint"("recordedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LocationPoint_userId_recordedAt_key" ON "LocationPoint"("userId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "LocationPoint" ADD CONSTRAINT "LocationPoint_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "GeofenceMode" AS ENUM ('WARN', 'REQUIRE_NOTE', 'BLOCK');
+
+-- CreateEnum
+CREATE TYPE "TaskEventFlagReason" AS ENUM ('OUT_OF_RANGE');
+
+-- AlterTable
+ALTER TABLE "GeoLocation" ADD COLUMN     "geofenceRadiusMeters" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TaskEventFlag" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "visitId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "reason" "TaskEventFlagReason" NOT NULL,
+    "details" JSONB,
+    "notes" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewNote" TEXT,
+
+    CONSTRAINT "TaskEventFlag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AppSettings" (
+    "id" TEXT NOT NULL DEFAULT 'global',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "updatedBy" TEXT,
+    "geofenceRadiusMeters" INTEGER NOT NULL DEFAULT 100,
+    "geofenceMode" "GeofenceMode" NOT NULL DEFAULT 'WARN',
+
+    CONSTRAINT "AppSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEventFlag_reviewedAt_createdAt_idx" ON "TaskEventFlag"("reviewedAt", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TaskEventFlag_taskId_idx" ON "TaskEventFlag"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "TaskEventFlag" ADD CONSTRAINT "TaskEventFlag_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskEventFlag" ADD CONSTRAINT "TaskEventFlag_visitId_fkey" FOREIGN KEY ("visitId") REFERENCES "TaskVisit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TaskEventFlagReason" ADD VALUE 'LOW_ACCURACY';
+ALTER TYPE "TaskEventFlagReason" ADD VALUE 'MOCK_LOCATION';
+ALTER TYPE "TaskEventFlagReason" ADD VALUE 'IMPOSSIBLE_SPEED';
+ALTER TYPE "TaskEventFlagReason" ADD VALUE 'DEVICE_TIME_SKEW';
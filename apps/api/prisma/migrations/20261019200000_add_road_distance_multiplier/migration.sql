@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AppSettings" ADD COLUMN     "roadDistanceMultiplier" DOUBLE PRECISION NOT NULL DEFAULT 1;
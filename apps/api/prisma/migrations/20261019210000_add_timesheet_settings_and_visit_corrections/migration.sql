@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "TaskVisit" ADD COLUMN     "correctedAt" TIMESTAMP(3),
+ADD COLUMN     "correctedBy" TEXT,
+ADD COLUMN     "correctionReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "AppSettings" ADD COLUMN     "dailyOvertimeHours" DOUBLE PRECISION NOT NULL DEFAULT 8,
+ADD COLUMN     "weeklyOvertimeHours" DOUBLE PRECISION NOT NULL DEFAULT 48;
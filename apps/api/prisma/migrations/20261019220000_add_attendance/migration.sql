@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "AppSettings" ADD COLUMN     "attendanceGraceMinutes" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "workdayStartTime" TEXT NOT NULL DEFAULT '08:00',
+ADD COLUMN     "workingWeekdays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5, 6]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "Attendance" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "clockInAt" TIMESTAMP(3) NOT NULL,
+    "clockInGeoLocationId" TEXT NOT NULL,
+    "clockInPhotoId" TEXT NOT NULL,
+    "clockOutAt" TIMESTAMP(3),
+    "clockOutGeoLocationId" TEXT,
+    "clockOutPhotoId" TEXT,
+
+    CONSTRAINT "Attendance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_clockInPhotoId_key" ON "Attendance"("clockInPhotoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_clockOutPhotoId_key" ON "Attendance"("clockOutPhotoId");
+
+-- CreateIndex
+CREATE INDEX "Attendance_date_idx" ON "Attendance"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_userId_date_key" ON "Attendance"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_clockInGeoLocationId_fkey" FOREIGN KEY ("clockInGeoLocationId") REFERENCES "GeoLocation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_clockInPhotoId_fkey" FOREIGN KEY ("clockInPhotoId") REFERENCES "Attachment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_clockOutGeoLocationId_fkey" FOREIGN KEY ("clockOutGeoLocationId") REFERENCES "GeoLocation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_clockOutPhotoId_fkey" FOREIGN KEY ("clockOutPhotoId") REFERENCES "Attachment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
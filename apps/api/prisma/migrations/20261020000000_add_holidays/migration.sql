@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "TaskSchedule" ADD COLUMN     "skipNonWorkingDays" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "date" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Holiday_date_key" ON "Holiday"("date");
+
+-- Seed Vietnamese public holidays 2026-2030 (editable by admins afterwards).
+-- Tết Nguyên đán follows the lunar calendar: the eve and the first 4 days.
+-- Giỗ Tổ Hùng Vương is the 10th day of the 3rd lunar month.
+INSERT INTO "Holiday" ("id", "updatedAt", "date", "name") VALUES
+    ('holiday_default_20260101', CURRENT_TIMESTAMP, '2026-01-01', 'Tết Dương lịch'),
+    ('holiday_default_20260216', CURRENT_TIMESTAMP, '2026-02-16', 'Tết Nguyên đán (giao thừa)'),
+    ('holiday_default_20260217', CURRENT_TIMESTAMP, '2026-02-17', 'Tết Nguyên đán (mùng 1)'),
+    ('holiday_default_20260218', CURRENT_TIMESTAMP, '2026-02-18', 'Tết Nguyên đán (mùng 2)'),
+    ('holiday_default_20260219', CURRENT_TIMESTAMP, '2026-02-19', 'Tết Nguyên đán (mùng 3)'),
+    ('holiday_default_20260220', CURRENT_TIMESTAMP, '2026-02-20', 'Tết Nguyên đán (mùng 4)'),
+    ('holiday_default_20260426', CURRENT_TIMESTAMP, '2026-04-26', 'Giỗ Tổ Hùng Vương'),
+    ('holiday_default_20260430', CURRENT_TIMESTAMP, '2026-04-30', 'Ngày Giải phóng miền Nam'),
+    ('holiday_default_20260501', CURRENT_TIMESTAMP, '2026-05-01', 'Ngày Quốc tế Lao động'),
+    ('holiday_default_20260901', CURRENT_TIMESTAMP, '2026-09-01', 'Quốc khánh'),
+    ('holiday_default_20260902', CURRENT_TIMESTAMP, '2026-09-02', 'Quốc khánh'),
+    ('holiday_default_20270101', CURRENT_TIMESTAMP, '2027-01-01', 'Tết Dương lịch'),
+    ('holiday_default_20270205', CURRENT_TIMESTAMP, '2027-02-05', 'Tết Nguyên đán (giao thừa)'),
+    ('holiday_default_20270206', CURRENT_TIMESTAMP, '2027-02-06', 'Tết Nguyên đán (mùng 1)'),
+    ('holiday_default_20270207', CURRENT_TIMESTAMP, '2027-02-07', 'Tết Nguyên đán (mùng 2)'),
+    ('holiday_default_20270208', CURRENT_TIMESTAMP, '2027-02-08', 'Tết Nguyên đán (mùng 3)'),
+    ('holiday_default_20270209', CURRENT_TIMESTAMP, '2027-02-09', 'Tết Nguyên đán (mùng 4)'),
+    ('holiday_default_20270416', CURRENT_TIMESTAMP, '2027-04-16', 'Giỗ Tổ Hùng Vương'),
+    ('holiday_default_20270430', CURRENT_TIMESTAMP, '2027-04-30', 'Ngày Giải phóng miền Nam'),
+    ('holiday_default_20270501', CURRENT_TIMESTAMP, '2027-05-01', 'Ngày Quốc tế Lao động'),
+    ('holiday_default_20270901', CURRENT_TIMESTAMP, '2027-09-01', 'Quốc khánh'),
+    ('holiday_default_20270902', CURRENT_TIMESTAMP, '2027-09-02', 'Quốc khánh'),
+    ('holiday_default_20280101', CURRENT_TIMESTAMP, '2028-01-01', 'Tết Dương lịch'),
+    ('holiday_default_20280125', CURRENT_TIMESTAMP, '2028-01-25', 'Tết Nguyên đán (giao thừa)'),
+    ('holiday_default_20280126', CURRENT_TIMESTAMP, '2028-01-26', 'Tết Nguyên đán (mùng 1)'),
+    ('holiday_default_20280127', CURRENT_TIMESTAMP, '2028-01-27', 'Tết Nguyên đán (mùng 2)'),
+    ('holiday_default_20280128', CURRENT_TIMESTAMP, '2028-01-28', 'Tết Nguyên đán (mùng 3)'),
+    ('holiday_default_20280129', CURRENT_TIMESTAMP, '2028-01-29', 'Tết Nguyên đán (mùng 4)'),
+    ('holiday_default_20280404', CURRENT_TIMESTAMP, '2028-04-04', 'Giỗ Tổ Hùng Vương'),
+    ('holiday_default_20280430', CURRENT_TIMESTAMP, '2028-04-30', 'Ngày Giải phóng miền Nam'),
+    ('holiday_default_20280501', CURRENT_TIMESTAMP, '2028-05-01', 'Ngày Quốc tế Lao động'),
+    ('holiday_default_20280901', CURRENT_TIMESTAMP, '2028-09-01', 'Quốc khánh'),
+    ('holiday_default_20280902', CURRENT_TIMESTAMP, '2028-09-02', 'Quốc khánh'),
+    ('holiday_default_20290101', CURRENT_TIMESTAMP, '2029-01-01', 'Tết Dương lịch'),
+    ('holiday_default_20290212', CURRENT_TIMESTAMP, '2029-02-12', 'Tết Nguyên đán (giao thừa)'),
+    ('holiday_default_20290213', CURRENT_TIMESTAMP, '2029-02-13', 'Tết Nguyên đán (mùng 1)'),
+    ('holiday_default_20290214', CURRENT_TIMESTAMP, '2029-02-14', 'Tết Nguyên đán (mùng 2)'),
+    ('holiday_default_20290215', CURRENT_TIMESTAMP, '2029-02-15', 'Tết Nguyên đán (mùng 3)'),
+    ('holiday_default_20290216', CURRENT_TIMESTAMP, '2029-02-16', 'Tết Nguyên đán (mùng 4)'),
+    ('holiday_default_20290423', CURRENT_TIMESTAMP, '2029-04-23', 'Giỗ Tổ Hùng Vương'),
+    ('holiday_default_20290430', CURRENT_TIMESTAMP, '2029-04-30', 'Ngày Giải phóng miền Nam'),
+    ('holiday_default_20290501', CURRENT_TIMESTAMP, '2029-05-01', 'Ngày Quốc tế Lao động'),
+    ('holiday_default_20290901', CURRENT_TIMESTAMP, '2029-09-01', 'Quốc khánh'),
+    ('holiday_default_20290902', CURRENT_TIMESTAMP, '2029-09-02', 'Quốc khánh'),
+    ('holiday_default_20300101', CURRENT_TIMESTAMP, '2030-01-01', 'Tết Dương lịch'),
+    ('holiday_default_20300201', CURRENT_TIMESTAMP, '2030-02-01', 'Tết Nguyên đán (giao thừa)'),
+    ('holiday_default_20300202', CURRENT_TIMESTAMP, '2030-02-02', 'Tết Nguyên đán (mùng 1)'),
+    ('holiday_default_20300203', CURRENT_TIMESTAMP, '2030-02-03', 'Tết Nguyên đán (mùng 2)'),
+    ('holiday_default_20300204', CURRENT_TIMESTAMP, '2030-02-04', 'Tết Nguyên đán (mùng 3)'),
+    ('holiday_default_20300205', CURRENT_TIMESTAMP, '2030-02-05', 'Tết Nguyên đán (mùng 4)'),
+    ('holiday_default_20300412', CURRENT_TIMESTAMP, '2030-04-12', 'Giỗ Tổ Hùng Vương'),
+    ('holiday_default_20300430', CURRENT_TIMESTAMP, '2030-04-30', 'Ngày Giải phóng miền Nam'),
+    ('holiday_default_20300501', CURRENT_TIMESTAMP, '2030-05-01', 'Ngày Quốc tế Lao động'),
+    ('holiday_default_20300901', CURRENT_TIMESTAMP, '2030-09-01', 'Quốc khánh'),
+    ('holiday_default_20300902', CURRENT_TIMESTAMP, '2030-09-02', 'Quốc khánh');
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "teamId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Team" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "leaderId" TEXT,
+    "memberIds" TEXT[],
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Team_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_teamId_idx" ON "Task"("teamId");
+
+-- CreateIndex
+CREATE INDEX "Team_deletedAt_idx" ON "Team"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
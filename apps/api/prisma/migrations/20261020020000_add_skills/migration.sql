@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "requiredSkillIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "Skill" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "workTypes" "TaskWorkType"[] DEFAULT ARRAY[]::"TaskWorkType"[],
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Skill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkerCertificate" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "certificateNumber" TEXT,
+    "expiryDate" TEXT,
+    "attachmentId" TEXT,
+    "updatedBy" TEXT,
+
+    CONSTRAINT "WorkerCertificate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Skill_deletedAt_idx" ON "Skill"("deletedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkerCertificate_attachmentId_key" ON "WorkerCertificate"("attachmentId");
+
+-- CreateIndex
+CREATE INDEX "WorkerCertificate_expiryDate_idx" ON "WorkerCertificate"("expiryDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkerCertificate_userId_skillId_key" ON "WorkerCertificate"("userId", "skillId");
+
+-- AddForeignKey
+ALTER TABLE "WorkerCertificate" ADD CONSTRAINT "WorkerCertificate_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkerCertificate" ADD CONSTRAINT "WorkerCertificate_attachmentId_fkey" FOREIGN KEY ("attachmentId") REFERENCES "Attachment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaskVisit" ADD COLUMN     "completionRequested" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,141 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  buildAttendanceGrid,
+  getAttendanceStatus,
+  getLateAfter,
+} from '../attendance'
+
+// Monday to Saturday from 08:00 (ICT = UTC+7), 15 minutes of grace
+const policy = {
+  workingWeekdays: [1, 2, 3, 4, 5, 6],
+  workdayStartTime: '08:00',
+  attendanceGraceMinutes: 15,
+}
+
+describe('getLateAfter', () => {
+  it('should add the grace to the start of the workday in the timezone', () => {
+    expect(getLateAfter('2026-10-20', policy)).toEqual(
+      new Date('2026-10-20T01:15:00Z'),
+    )
+  })
+})
+
+describe('getAttendanceStatus', () => {
+  // 2026-10-20 is a Tuesday, 2026-10-25 a Sunday
+  const now = new Date('2026-10-21T03:00:00Z')
+
+  it('should tell on time from late clock-ins', () => {
+    expect(
+      getAttendanceStatus({
+        date: '2026-10-20',
+        clockInAt: new Date('2026-10-20T01:15:00Z'),
+        policy,
+        now,
+      }),
+    ).toBe('PRESENT')
+    expect(
+      getAttendanceStatus({
+        date: '2026-10-20',
+        clockInAt: new Date('2026-10-20T01:16:00Z'),
+        policy,
+        now,
+      }),
+    ).toBe('LATE')
+  })
+
+  it('should count days without a clock-in by working week and grace', () => {
+    expect(getAttendanceStatus({ date: '2026-10-20', policy, now })).toBe(
+      'ABSENT',
+    )
+    expect(getAttendanceStatus({ date: '2026-10-25', policy, now })).toBe(
+      'DAY_OFF',
+    )
+    expect(
+      getAttendanceStatus({
+        date: '2026-10-21',
+        policy,
+        now: new Date('2026-10-21T01:00:00Z'),
+      }),
+    ).toBe('PENDING')
+  })
+
+  it('should count approved leave on working days only', () => {
+    expect(
+      getAttendanceStatus({ date: '2026-10-20', onLeave: true, policy, now }),
+    ).toBe('ON_LEAVE')
+    expect(
+      getAttendanceStatus({ date: '2026-10-25', onLeave: true, policy, now }),
+    ).toBe('DAY_OFF')
+  })
+
+  it('should count public holidays as days off unless clocked in', () => {
+    expect(
+      getAttendanceStatus({ date: '2026-10-20', holiday: true, policy, now }),
+    ).toBe('DAY_OFF')
+    expect(
+      getAttendanceStatus({
+        date: '2026-10-20',
+        clockInAt: new Date('2026-10-20T01:00:00Z'),
+        holiday: true,
+        policy,
+        now,
+      }),
+    ).toBe('PRESENT')
+  })
+})
+
+describe('buildAttendanceGrid', () => {
+  it('should build a cell per worker and day with the totals', () => {
+    const grid = buildAttendanceGrid({
+      days: ['2026-10-19', '2026-10-20', '2026-10-21'],
+      userIds: ['worker_1', 'worker_2'],
+      records: [
+        {
+          userId: 'worker_1',
+          date: '2026-10-19',
+          clockInAt: new Date('2026-10-19T00:55:00Z'),
+          clockOutAt: new Date('2026-10-19T10:00:00Z'),
+          clockInPhotoId: 'att_1',
+          clockOutPhotoId: 'att_2',
+        },
+        {
+          userId: 'worker_1',
+          date: '2026-10-20',
+          clockInAt: new Date('2026-10-20T02:00:00Z'),
+          clockOutAt: null,
+          clockInPhotoId: 'att_3',
+          clockOutPhotoId: null,
+        },
+      ],
+      leaves: [
+        { userId: 'worker_2', startDate: '2026-10-20', endDate: '2026-10-22' },
+      ],
+      policy,
+      now: new Date('2026-10-21T00:30:00Z'),
+    })
+
+    expect(grid[0].days.map((cell) => cell.status)).toEqual([
+      'PRESENT',
+      'LATE',
+      'PENDING',
+    ])
+    expect(grid[0].totals).toEqual({
+      present: 1,
+      late: 1,
+      absent: 0,
+      onLeave: 0,
+    })
+    expect(grid[1].days.map((cell) => cell.status)).toEqual([
+      'ABSENT',
+      'ON_LEAVE',
+      'ON_LEAVE',
+    ])
+    expect(grid[1].totals).toEqual({
+      present: 0,
+      late: 0,
+      absent: 1,
+      onLeave: 2,
+    })
+    expect(grid[0].days[0].clockOutAt).toEqual(new Date('2026-10-19T10:00:00Z'))
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, expect, it } from '@jest/globals'
-import { calculateDistance, verifyLocation } from '../geo'
+import {
+  calculateDistance,
+  estimateTravelMinutes,
+  getBoundingBox,
+  verifyLocation,
+} from '../geo'
 
 describe('geo utilities', () => {
   describe('calculateDistance', () => {
@@ -121,4 +126,47 @@ describe('geo utilities', () => {
       expect(match?.[1]).toMatch(/^\d+$/) // Integer only
     })
   })
+
+  describe('estimateTravelMinutes', () => {
+    it('should estimate minutes at the average city speed', () => {
+      // 5km at 25km/h = 12 minutes
+      expect(estimateTravelMinutes(5000)).toBe(12)
+    })
+
+    it('should round up to whole minutes', () => {
+      expect(estimateTravelMinutes(100)).toBe(1)
+    })
+
+    it('should return 0 for the same location', () => {
+      expect(estimateTravelMinutes(0)).toBe(0)
+    })
+
+    it('should use a custom speed', () => {
+      expect(estimateTravelMinutes(10000, 50)).toBe(12)
+    })
+  })
+
+  describe('getBoundingBox', () => {
+    const center = { lat: 21.0285, lng: 105.8542 }
+
+    it('should contain points at the radius in every direction', () => {
+      const box = getBoundingBox(center, 1000)
+
+      for (const [lat, lng] of [
+        [box.minLat, center.lng],
+        [box.maxLat, center.lng],
+        [center.lat, box.minLng],
+        [center.lat, box.maxLng],
+      ]) {
+        expect(
+          calculateDistance(center.lat, center.lng, lat, lng),
+        ).toBeGreaterThanOrEqual(999.99)
+      }
+    })
+
+    it('should widen longitudes away from the equator', () => {
+      const box = getBoundingBox(center, 1000)
+      expect(box.maxLng - box.minLng).toBeGreaterThan(box.maxLat - box.minLat)
+    })
+  })
 })
@@ -0,0 +1,87 @@
+import { describe, expect, it } from '@jest/globals'
+import { detectLocationAnomalies } from '../location-integrity'
+
+const now = new Date('2026-10-19T03:00:00Z')
+const minutesAgo = (minutes: number) =>
+  new Date(now.getTime() - minutes * 60_000)
+
+// Hoan Kiem, Hanoi
+const hanoi = { lat: 21.0285, lng: 105.8542 }
+
+describe('detectLocationAnomalies', () => {
+  it('should accept a precise position reachable since the previous event', () => {
+    const anomalies = detectLocationAnomalies({
+      // ~5.5km north, 30 minutes later (~11km/h)
+      position: { lat: 21.078, lng: 105.8542, accuracy: 12 },
+      previous: { ...hanoi, at: minutesAgo(30), taskId: 1 },
+      now,
+    })
+
+    expect(anomalies).toEqual([])
+  })
+
+  it('should flag a coarse or mocked position', () => {
+    const anomalies = detectLocationAnomalies({
+      position: { ...hanoi, accuracy: 2000, isMocked: true, provider: 'gps' },
+      now,
+    })
+
+    expect(anomalies).toEqual([
+      {
+        reason: 'LOW_ACCURACY',
+        details: { accuracyMeters: 2000, maxAccuracyMeters: 100 },
+      },
+      { reason: 'MOCK_LOCATION', details: { provider: 'gps' } },
+    ])
+  })
+
+  it('should flag a jump no vehicle could make', () => {
+    const anomalies = detectLocationAnomalies({
+      // Ho Chi Minh City, ~1140km from Hanoi
+      position: { lat: 10.7769, lng: 106.7009 },
+      previous: { ...hanoi, at: minutesAgo(20), taskId: 7 },
+      now,
+    })
+
+    expect(anomalies).toHaveLength(1)
+    expect(anomalies[0]).toMatchObject({
+      reason: 'IMPOSSIBLE_SPEED',
+      details: { elapsedMinutes: 20, previousTaskId: 7 },
+    })
+    expect(anomalies[0].details.speedKmh).toBeGreaterThan(3000)
+  })
+
+  it('should ignore short GPS jumps between close events', () => {
+    const anomalies = detectLocationAnomalies({
+      // ~1.1km away, a few seconds after the previous event
+      position: { lat: 21.0385, lng: 105.8542 },
+      previous: { ...hanoi, at: new Date(now.getTime() - 5000), taskId: 1 },
+      now,
+    })
+
+    expect(anomalies).toEqual([])
+  })
+
+  it('should flag a device clock far from the server', () => {
+    const anomalies = detectLocationAnomalies({
+      position: { ...hanoi, deviceTime: minutesAgo(95) },
+      now,
+    })
+
+    expect(anomalies).toEqual([
+      {
+        reason: 'DEVICE_TIME_SKEW',
+        details: {
+          skewMinutes: -95,
+          deviceTime: minutesAgo(95).toISOString(),
+        },
+      },
+    ])
+    expect(
+      detectLocationAnomalies({
+        position: { ...hanoi, deviceTime: minutesAgo(3) },
+        now,
+      }),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals'
+import { clusterMapPoints } from '../map-clustering'
+
+// Hanoi, ~22km x 21km
+const cityBounds = {
+  minLat: 20.9,
+  maxLat: 21.1,
+  minLng: 105.7,
+  maxLng: 105.9,
+}
+
+describe('clusterMapPoints', () => {
+  it('should merge points sharing a grid cell', () => {
+    const result = clusterMapPoints(
+      [
+        { id: 1, lat: 21.01, lng: 105.81 },
+        { id: 2, lat: 21.02, lng: 105.82 },
+        { id: 3, lat: 20.92, lng: 105.72 },
+      ],
+      cityBounds,
+    )
+
+    expect(result.points.map((point) => point.id)).toEqual([3])
+    expect(result.clusters).toHaveLength(1)
+    expect(result.clusters[0]).toMatchObject({
+      count: 2,
+      bounds: { minLat: 21.01, maxLat: 21.02, minLng: 105.81, maxLng: 105.82 },
+    })
+    expect(result.clusters[0].lat).toBeCloseTo(21.015)
+    expect(result.clusters[0].lng).toBeCloseTo(105.815)
+    expect(result.clusters[0].points.map((point) => point.id)).toEqual([1, 2])
+  })
+
+  it('should keep points on the edge of the bounds in the last cell', () => {
+    const result = clusterMapPoints(
+      [
+        { id: 1, lat: 21.1, lng: 105.9 },
+        { id: 2, lat: 21.09, lng: 105.89 },
+      ],
+      cityBounds,
+    )
+
+    expect(result.clusters).toHaveLength(1)
+  })
+
+  it('should show every point when zoomed in', () => {
+    const result = clusterMapPoints(
+      [
+        { id: 1, lat: 21.0285, lng: 105.8542 },
+        { id: 2, lat: 21.0285, lng: 105.8542 },
+      ],
+      { minLat: 21.025, maxLat: 21.032, minLng: 105.85, maxLng: 105.857 },
+    )
+
+    expect(result.points).toHaveLength(2)
+    expect(result.clusters).toEqual([])
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals'
+import { simplifyPolyline } from '../polyline'
+
+// 0.0001° of latitude is ~11m
+const point = (id: number, lat: number, lng = 106.6297) => ({ id, lat, lng })
+
+describe('simplifyPolyline', () => {
+  it('should drop points along a straight line', () => {
+    const trail = [
+      point(1, 10.7),
+      point(2, 10.701),
+      point(3, 10.702),
+      point(4, 10.703),
+    ]
+
+    expect(simplifyPolyline(trail, 10).map(({ id }) => id)).toEqual([1, 4])
+  })
+
+  it('should keep turns larger than the tolerance', () => {
+    const trail = [
+      point(1, 10.7, 106.6297),
+      point(2, 10.7005, 106.62972),
+      point(3, 10.701, 106.6297),
+      point(4, 10.701, 106.631),
+    ]
+
+    expect(simplifyPolyline(trail, 10).map(({ id }) => id)).toEqual([1, 3, 4])
+  })
+
+  it('should keep small jitter out of the trail', () => {
+    const trail = [
+      point(1, 10.7),
+      point(2, 10.70003, 106.62973),
+      point(3, 10.70001, 106.62968),
+      point(4, 10.7),
+    ]
+
+    expect(simplifyPolyline(trail, 10).map(({ id }) => id)).toEqual([1, 4])
+  })
+
+  it('should keep trails of one or two points', () => {
+    expect(simplifyPolyline([point(1, 10.7)], 10)).toHaveLength(1)
+    expect(simplifyPolyline([], 10)).toEqual([])
+  })
+})
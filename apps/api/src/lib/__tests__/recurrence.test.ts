@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  getOccurrences,
+  isValidRRule,
+  parseRRule,
+  renderScheduleTemplate,
+} from '../recurrence'
+
+describe('recurrence utilities', () => {
+  describe('parseRRule', () => {
+    it('should parse frequency and interval', () => {
+      expect(parseRRule('FREQ=MONTHLY;INTERVAL=3')).toEqual({
+        freq: 'MONTHLY',
+        interval: 3,
+      })
+    })
+
+    it('should default interval to 1 and accept the RRULE: prefix', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+      })
+    })
+
+    it('should parse COUNT and UNTIL', () => {
+      const rule = parseRRule('FREQ=YEARLY;COUNT=2;UNTIL=20301231')
+      expect(rule.count).toBe(2)
+      expect(rule.until?.toISOString()).toBe('2030-12-31T23:59:59.999Z')
+    })
+
+    it('should reject unsupported or malformed rules', () => {
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow()
+      expect(() => parseRRule('INTERVAL=2')).toThrow()
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow()
+      expect(() => parseRRule('FREQ=DAILY;BYDAY=MO')).toThrow()
+      expect(isValidRRule('FREQ=DAILY;UNTIL=2030')).toBe(false)
+      expect(isValidRRule('FREQ=DAILY')).toBe(true)
+    })
+  })
+
+  describe('getOccurrences', () => {
+    // 09:00 in Asia/Ho_Chi_Minh
+    const startsAt = new Date('2025-01-15T02:00:00.000Z')
+
+    it('should compute occurrences every 3 months keeping local time', () => {
+      const occurrences = getOccurrences({
+        rrule: 'FREQ=MONTHLY;INTERVAL=3',
+        startsAt,
+        limit: 3,
+      })
+
+      expect(occurrences.map((d) => d.toISOString())).toEqual([
+        '2025-01-15T02:00:00.000Z',
+        '2025-04-15T02:00:00.000Z',
+        '2025-07-15T02:00:00.000Z',
+      ])
+    })
+
+    it('should not drift when starting at the end of a month', () => {
+      const occurrences = getOccurrences({
+        rrule: 'FREQ=MONTHLY',
+        startsAt: new Date('2025-01-31T02:00:00.000Z'),
+        limit: 3,
+      })
+
+      expect(occurrences.map((d) => d.toISOString())).toEqual([
+        '2025-01-31T02:00:00.000Z',
+        '2025-02-28T02:00:00.000Z',
+        '2025-03-31T02:00:00.000Z',
+      ])
+    })
+
+    it('should only return occurrences after the given date', () => {
+      const occurrences = getOccurrences({
+        rrule: 'FREQ=MONTHLY;INTERVAL=3',
+        startsAt,
+        after: new Date('2025-04-15T02:00:00.000Z'),
+        limit: 1,
+      })
+
+      expect(occurrences[0].toISOString()).toBe('2025-07-15T02:00:00.000Z')
+    })
+
+    it('should respect COUNT, UNTIL and the until bound', () => {
+      expect(
+        getOccurrences({ rrule: 'FREQ=WEEKLY;COUNT=2', startsAt }),
+      ).toHaveLength(2)
+
+      expect(
+        getOccurrences({ rrule: 'FREQ=DAILY;UNTIL=20250117', startsAt }),
+      ).toHaveLength(3)
+
+      expect(
+        getOccurrences({
+          rrule: 'FREQ=DAILY',
+          startsAt,
+          until: new Date('2025-01-20T02:00:00.000Z'),
+        }),
+      ).toHaveLength(6)
+    })
+  })
+
+  describe('renderScheduleTemplate', () => {
+    it('should replace date placeholders in Vietnam time', () => {
+      // 2025-03-31T18:00Z is already April 1st in Vietnam
+      const occurrence = new Date('2025-03-31T18:00:00.000Z')
+
+      expect(
+        renderScheduleTemplate(
+          'Vệ sinh máy lạnh {{month}} - {{date}} ({{ year }})',
+          occurrence,
+        ),
+      ).toBe('Vệ sinh máy lạnh 04/2025 - 01/04/2025 (2025)')
+    })
+  })
+})
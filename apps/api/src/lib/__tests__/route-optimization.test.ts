@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals'
+import { optimizeRoute } from '../route-optimization'
+import type { TimeWindow } from '../scheduling'
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`)
+
+// Points on the same meridian, 0.01° of latitude is ~1.1km
+const stop = (id: number, lat: number, window: TimeWindow | null = null) => ({
+  id,
+  lat,
+  lng: 106.6297,
+  window,
+})
+
+describe('optimizeRoute', () => {
+  it('should visit stops on the way instead of zig-zagging', () => {
+    const route = optimizeRoute(
+      [stop(1, 10.74), stop(2, 10.71), stop(3, 10.73), stop(4, 10.72)],
+      { origin: { lat: 10.7, lng: 106.6297 }, startAt: at('01:00') },
+    )
+
+    expect(route.stops.map(({ id }) => id)).toEqual([2, 4, 3, 1])
+    expect(Math.round(route.totalDistanceMeters)).toBe(4448)
+    expect(route.totalLateMinutes).toBe(0)
+    expect(route.legs.map((leg) => leg.stopId)).toEqual([2, 4, 3, 1])
+  })
+
+  it('should improve the nearest-neighbour tour with 2-opt', () => {
+    // Starting at the first stop, nearest-neighbour goes 1 → 4 → 2 → 3
+    const route = optimizeRoute(
+      [stop(1, 10.72), stop(2, 10.7), stop(3, 10.74), stop(4, 10.71)],
+      { origin: null, startAt: at('01:00') },
+    )
+
+    expect(route.stops.map(({ id }) => id)).toEqual([2, 4, 1, 3])
+    expect(route.legs[0].distanceMeters).toBe(0)
+    expect(Math.round(route.totalDistanceMeters)).toBe(4448)
+  })
+
+  it('should keep appointments before saving distance', () => {
+    const route = optimizeRoute(
+      [
+        stop(1, 10.71, { start: at('05:00'), end: at('06:00') }),
+        stop(2, 10.75, { start: at('02:00'), end: at('03:00') }),
+      ],
+      { origin: { lat: 10.7, lng: 106.6297 }, startAt: at('01:00') },
+    )
+
+    expect(route.stops.map(({ id }) => id)).toEqual([2, 1])
+    expect(route.totalLateMinutes).toBe(0)
+  })
+
+  it('should report how late an appointment is reached', () => {
+    const route = optimizeRoute(
+      [stop(1, 10.71, { start: at('02:00'), end: at('03:00') })],
+      { origin: { lat: 10.7, lng: 106.6297 }, startAt: at('03:00') },
+    )
+
+    expect(route.legs[0]).toMatchObject({
+      stopId: 1,
+      travelMinutes: 3,
+      arrivalAt: at('03:03'),
+      lateMinutes: 63,
+    })
+  })
+
+  it('should return an empty route without stops', () => {
+    expect(
+      optimizeRoute([], { origin: null, startAt: at('01:00') }),
+    ).toMatchObject({ stops: [], legs: [], totalDistanceMeters: 0 })
+  })
+})
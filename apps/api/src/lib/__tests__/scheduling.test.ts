@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  DEFAULT_TASK_DURATION_MINUTES,
+  doTimeWindowsOverlap,
+  getCalendarRange,
+  getTaskTimeWindow,
+  toCalendarDay,
+} from '../scheduling'
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`)
+
+describe('scheduling utilities', () => {
+  describe('getTaskTimeWindow', () => {
+    it('should return null for unscheduled tasks', () => {
+      expect(getTaskTimeWindow({ scheduledAt: null })).toBeNull()
+    })
+
+    it('should use scheduledEndAt when set', () => {
+      expect(
+        getTaskTimeWindow({
+          scheduledAt: at('02:00'),
+          scheduledEndAt: at('05:00'),
+          estimatedDurationMinutes: 30,
+        }),
+      ).toEqual({ start: at('02:00'), end: at('05:00') })
+    })
+
+    it('should use the estimated duration when there is no end', () => {
+      expect(
+        getTaskTimeWindow({
+          scheduledAt: at('02:00'),
+          estimatedDurationMinutes: 90,
+        }),
+      ).toEqual({ start: at('02:00'), end: at('03:30') })
+    })
+
+    it('should fall back to the default duration', () => {
+      const window = getTaskTimeWindow({ scheduledAt: at('02:00') })
+      expect(window?.end.getTime()).toBe(
+        at('02:00').getTime() + DEFAULT_TASK_DURATION_MINUTES * 60 * 1000,
+      )
+    })
+
+    it('should ignore an end before the start', () => {
+      expect(
+        getTaskTimeWindow({
+          scheduledAt: at('02:00'),
+          scheduledEndAt: at('01:00'),
+          estimatedDurationMinutes: 30,
+        }),
+      ).toEqual({ start: at('02:00'), end: at('02:30') })
+    })
+  })
+
+  describe('doTimeWindowsOverlap', () => {
+    it('should detect overlapping windows', () => {
+      expect(
+        doTimeWindowsOverlap(
+          { start: at('02:00'), end: at('04:00') },
+          { start: at('03:00'), end: at('05:00') },
+        ),
+      ).toBe(true)
+    })
+
+    it('should detect a window inside another', () => {
+      expect(
+        doTimeWindowsOverlap(
+          { start: at('02:00'), end: at('06:00') },
+          { start: at('03:00'), end: at('04:00') },
+        ),
+      ).toBe(true)
+    })
+
+    it('should allow back-to-back windows', () => {
+      expect(
+        doTimeWindowsOverlap(
+          { start: at('02:00'), end: at('03:00') },
+          { start: at('03:00'), end: at('04:00') },
+        ),
+      ).toBe(false)
+    })
+  })
+})
+
+describe('calendar utilities', () => {
+  describe('toCalendarDay', () => {
+    it('should use the Vietnam calendar day', () => {
+      expect(toCalendarDay(new Date('2026-10-19T16:59:00.000Z'))).toBe(
+        '2026-10-19',
+      )
+      expect(toCalendarDay(new Date('2026-10-19T17:00:00.000Z'))).toBe(
+        '2026-10-20',
+      )
+    })
+  })
+
+  describe('getCalendarRange', () => {
+    it('should list every day and bound them in Vietnam time', () => {
+      const range = getCalendarRange('2026-10-30', '2026-11-02')
+
+      expect(range.days).toEqual([
+        '2026-10-30',
+        '2026-10-31',
+        '2026-11-01',
+        '2026-11-02',
+      ])
+      expect(range.start.toISOString()).toBe('2026-10-29T17:00:00.000Z')
+      expect(range.end.toISOString()).toBe('2026-11-02T17:00:00.000Z')
+    })
+
+    it('should handle a single day', () => {
+      expect(getCalendarRange('2026-10-20', '2026-10-20').days).toEqual([
+        '2026-10-20',
+      ])
+    })
+  })
+})
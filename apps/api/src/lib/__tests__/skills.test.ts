@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals'
+import { findSkillIssues } from '../skills'
+
+describe('findSkillIssues', () => {
+  const certificates = [
+    { userId: 'worker_1', skillId: 'skill_r32', expiryDate: '2026-10-20' },
+    { userId: 'worker_1', skillId: 'skill_vrv', expiryDate: null },
+    { userId: 'worker_2', skillId: 'skill_r32', expiryDate: '2026-10-19' },
+  ]
+
+  it('should accept certificates until their expiry date', () => {
+    expect(
+      findSkillIssues({
+        assigneeIds: ['worker_1'],
+        requiredSkillIds: ['skill_r32', 'skill_vrv'],
+        certificates,
+        date: '2026-10-20',
+      }),
+    ).toEqual([])
+  })
+
+  it('should flag missing skills and expired certificates', () => {
+    expect(
+      findSkillIssues({
+        assigneeIds: ['worker_1', 'worker_2'],
+        requiredSkillIds: ['skill_r32', 'skill_vrv'],
+        certificates,
+        date: '2026-10-21',
+      }),
+    ).toEqual([
+      {
+        userId: 'worker_1',
+        skillId: 'skill_r32',
+        reason: 'EXPIRED',
+        expiryDate: '2026-10-20',
+      },
+      {
+        userId: 'worker_2',
+        skillId: 'skill_r32',
+        reason: 'EXPIRED',
+        expiryDate: '2026-10-19',
+      },
+      {
+        userId: 'worker_2',
+        skillId: 'skill_vrv',
+        reason: 'MISSING',
+        expiryDate: null,
+      },
+    ])
+  })
+})
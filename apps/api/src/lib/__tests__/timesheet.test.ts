@@ -0,0 +1,145 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildTimesheet, mergeVisitIntervals } from '../timesheet'
+
+const visit = (
+  id: string,
+  checkedInAt: string,
+  checkedOutAt: string | null,
+  overrides = {},
+) => ({
+  id,
+  taskId: Number(id.replace('visit_', '')),
+  checkedInAt: new Date(checkedInAt),
+  checkedOutAt: checkedOutAt ? new Date(checkedOutAt) : null,
+  correctedAt: null,
+  ...overrides,
+})
+
+// 2026-10-19 is a Monday (ICT = UTC+7)
+const options = {
+  startDate: '2026-10-19',
+  endDate: '2026-10-25',
+  dailyOvertimeHours: 8,
+  weeklyOvertimeHours: 48,
+  now: new Date('2026-10-26T03:00:00Z'),
+}
+
+describe('mergeVisitIntervals', () => {
+  it('should merge overlapping visits and keep their tasks', () => {
+    const intervals = mergeVisitIntervals([
+      visit('visit_3', '2026-10-19T07:00:00Z', '2026-10-19T08:00:00Z'),
+      visit('visit_1', '2026-10-19T01:00:00Z', '2026-10-19T05:00:00Z'),
+      visit('visit_2', '2026-10-19T04:00:00Z', '2026-10-19T06:00:00Z', {
+        correctedAt: new Date('2026-10-20T01:00:00Z'),
+      }),
+      visit('visit_4', '2026-10-19T09:00:00Z', null),
+    ])
+
+    expect(intervals).toEqual([
+      {
+        start: new Date('2026-10-19T01:00:00Z'),
+        end: new Date('2026-10-19T06:00:00Z'),
+        visitIds: ['visit_1', 'visit_2'],
+        taskIds: [1, 2],
+        corrected: true,
+      },
+      {
+        start: new Date('2026-10-19T07:00:00Z'),
+        end: new Date('2026-10-19T08:00:00Z'),
+        visitIds: ['visit_3'],
+        taskIds: [3],
+        corrected: false,
+      },
+    ])
+  })
+})
+
+describe('buildTimesheet', () => {
+  it('should split a visit past midnight and count daily overtime', () => {
+    // 14:00 Monday to 02:00 Tuesday
+    const timesheet = buildTimesheet(
+      [visit('visit_1', '2026-10-19T07:00:00Z', '2026-10-19T19:00:00Z')],
+      options,
+    )
+
+    expect(timesheet.days).toEqual([
+      {
+        date: '2026-10-19',
+        minutes: 600,
+        regularMinutes: 480,
+        overtimeMinutes: 120,
+      },
+      {
+        date: '2026-10-20',
+        minutes: 120,
+        regularMinutes: 120,
+        overtimeMinutes: 0,
+      },
+    ])
+    expect(timesheet.totals).toEqual({
+      minutes: 720,
+      regularMinutes: 600,
+      overtimeMinutes: 120,
+    })
+  })
+
+  it('should count regular time beyond the weekly threshold as overtime', () => {
+    // 8 hours every day of the week, 08:00 to 16:00
+    const visits = Array.from({ length: 7 }, (_, index) =>
+      visit(
+        `visit_${index + 1}`,
+        `2026-10-${19 + index}T01:00:00Z`,
+        `2026-10-${19 + index}T09:00:00Z`,
+      ),
+    )
+
+    const timesheet = buildTimesheet(visits, options)
+
+    expect(timesheet.days).toHaveLength(7)
+    expect(timesheet.days.every((day) => day.overtimeMinutes === 0)).toBe(true)
+    expect(timesheet.weeks).toEqual([
+      {
+        weekStart: '2026-10-19',
+        minutes: 3360,
+        regularMinutes: 2880,
+        overtimeMinutes: 480,
+      },
+    ])
+    expect(timesheet.totals.overtimeMinutes).toBe(480)
+  })
+
+  it('should clip to the period and list visits without a check-out', () => {
+    const timesheet = buildTimesheet(
+      [
+        // 22:00 Sunday before the period to 02:00 Monday
+        visit('visit_1', '2026-10-18T15:00:00Z', '2026-10-18T19:00:00Z'),
+        // Never checked out on Wednesday
+        visit('visit_2', '2026-10-21T02:00:00Z', null),
+        // Still on site
+        visit('visit_3', '2026-10-25T02:00:00Z', null),
+      ],
+      { ...options, now: new Date('2026-10-25T05:00:00Z') },
+    )
+
+    expect(timesheet.intervals).toHaveLength(1)
+    expect(timesheet.intervals[0]).toMatchObject({
+      start: new Date('2026-10-18T17:00:00Z'),
+      minutes: 120,
+    })
+    expect(timesheet.totals.minutes).toBe(120)
+    expect(timesheet.unpaired).toEqual([
+      {
+        visitId: 'visit_2',
+        taskId: 2,
+        checkedInAt: new Date('2026-10-21T02:00:00Z'),
+        ongoing: false,
+      },
+      {
+        visitId: 'visit_3',
+        taskId: 3,
+        checkedInAt: new Date('2026-10-25T02:00:00Z'),
+        ongoing: true,
+      },
+    ])
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from '@jest/globals'
+import { buildTravelLegs, summarizeTravelLegs } from '../travel'
+
+// ~1.11km apart along the meridian
+const siteA = { lat: 21.02, lng: 105.85 }
+const siteB = { lat: 21.03, lng: 105.85 }
+const siteC = { lat: 21.05, lng: 105.85 }
+
+const visit = (
+  taskId: number,
+  checkedInAt: string,
+  checkedOutAt: string | null,
+  position: { lat: number; lng: number },
+) => ({
+  taskId,
+  checkedInAt: new Date(checkedInAt),
+  checkedOutAt: checkedOutAt ? new Date(checkedOutAt) : null,
+  checkInGeoLocation: position,
+  checkOutGeoLocation: checkedOutAt ? position : null,
+})
+
+describe('buildTravelLegs', () => {
+  it('should build a leg from each check-out to the next check-in', () => {
+    const legs = buildTravelLegs(
+      [
+        // Out of order on purpose (ICT = UTC+7)
+        visit(2, '2026-10-19T03:30:00Z', '2026-10-19T05:00:00Z', siteB),
+        visit(1, '2026-10-19T01:00:00Z', '2026-10-19T03:00:00Z', siteA),
+      ],
+      { roadDistanceMultiplier: 1.5 },
+    )
+
+    expect(legs).toHaveLength(1)
+    expect(legs[0]).toMatchObject({
+      date: '2026-10-19',
+      fromTaskId: 1,
+      toTaskId: 2,
+      departedAt: new Date('2026-10-19T03:00:00Z'),
+      arrivedAt: new Date('2026-10-19T03:30:00Z'),
+      straightLineMeters: 1112,
+      distanceMeters: 1668,
+      travelMinutes: 30,
+    })
+  })
+
+  it('should start from the check-in when the worker never checked out', () => {
+    const legs = buildTravelLegs([
+      visit(1, '2026-10-19T01:00:00Z', null, siteA),
+      visit(2, '2026-10-19T02:00:00Z', null, siteC),
+    ])
+
+    expect(legs).toMatchObject([
+      { fromTaskId: 1, toTaskId: 2, travelMinutes: 60, distanceMeters: 3336 },
+    ])
+  })
+
+  it('should not link events of different days or without location', () => {
+    const legs = buildTravelLegs([
+      // 19/10 16:00 and 20/10 08:00 in Asia/Ho_Chi_Minh
+      visit(1, '2026-10-19T08:00:00Z', '2026-10-19T09:00:00Z', siteA),
+      visit(2, '2026-10-20T01:00:00Z', '2026-10-20T02:00:00Z', siteB),
+      {
+        ...visit(3, '2026-10-20T03:00:00Z', null, siteC),
+        checkInGeoLocation: null,
+      },
+    ])
+
+    expect(legs).toEqual([])
+  })
+})
+
+describe('summarizeTravelLegs', () => {
+  it('should total distance in km and travel minutes', () => {
+    const legs = buildTravelLegs([
+      visit(1, '2026-10-19T01:00:00Z', '2026-10-19T02:00:00Z', siteA),
+      visit(2, '2026-10-19T02:20:00Z', '2026-10-19T03:00:00Z', siteB),
+      visit(3, '2026-10-19T03:25:00Z', null, siteC),
+    ])
+
+    expect(summarizeTravelLegs(legs)).toEqual({
+      legCount: 2,
+      distanceKm: 3.3,
+      travelMinutes: 45,
+    })
+    expect(summarizeTravelLegs([])).toEqual({
+      legCount: 0,
+      distanceKm: 0,
+      travelMinutes: 0,
+    })
+  })
+})
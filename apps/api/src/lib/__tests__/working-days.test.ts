@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals'
+import {
+  addWorkingDays,
+  getEndOfDay,
+  getNextWorkingDay,
+  getWorkingDays,
+  isWorkingDay,
+  moveToWorkingDay,
+} from '../working-days'
+
+// Monday to Saturday, Tết 2026 from Monday 02-16 to Friday 02-20
+const calendar = {
+  workingWeekdays: [1, 2, 3, 4, 5, 6],
+  holidays: new Set([
+    '2026-01-01',
+    '2026-02-16',
+    '2026-02-17',
+    '2026-02-18',
+    '2026-02-19',
+    '2026-02-20',
+  ]),
+}
+
+describe('isWorkingDay', () => {
+  it('should skip days off and holidays', () => {
+    expect(isWorkingDay('2026-02-14', calendar)).toBe(true) // Saturday
+    expect(isWorkingDay('2026-02-15', calendar)).toBe(false) // Sunday
+    expect(isWorkingDay('2026-02-17', calendar)).toBe(false) // Tết
+  })
+})
+
+describe('getWorkingDays', () => {
+  it('should list the working days of a range', () => {
+    expect(getWorkingDays('2026-01-01', '2026-01-04', calendar)).toEqual([
+      '2026-01-02',
+      '2026-01-03',
+    ])
+  })
+})
+
+describe('getNextWorkingDay', () => {
+  it('should keep a working day and skip to the end of Tết', () => {
+    expect(getNextWorkingDay('2026-02-14', calendar)).toBe('2026-02-14')
+    expect(getNextWorkingDay('2026-02-15', calendar)).toBe('2026-02-21')
+  })
+
+  it('should give up when no weekday is worked', () => {
+    expect(
+      getNextWorkingDay('2026-02-15', { ...calendar, workingWeekdays: [] }),
+    ).toBe('2026-02-15')
+  })
+})
+
+describe('addWorkingDays', () => {
+  it('should not count the start day, days off and holidays', () => {
+    expect(addWorkingDays('2026-02-12', 1, calendar)).toBe('2026-02-13')
+    expect(addWorkingDays('2026-02-13', 2, calendar)).toBe('2026-02-21')
+  })
+})
+
+describe('moveToWorkingDay', () => {
+  it('should keep the local time on the next working day', () => {
+    // 09:00 ICT on mùng 1 Tết
+    expect(
+      moveToWorkingDay(new Date('2026-02-17T02:00:00Z'), calendar),
+    ).toEqual(new Date('2026-02-21T02:00:00Z'))
+    const workingDay = new Date('2026-02-13T02:00:00Z')
+    expect(moveToWorkingDay(workingDay, calendar)).toBe(workingDay)
+  })
+})
+
+describe('getEndOfDay', () => {
+  it('should end the day in the timezone', () => {
+    expect(getEndOfDay('2026-02-21')).toEqual(
+      new Date('2026-02-21T16:59:59.999Z'),
+    )
+  })
+})
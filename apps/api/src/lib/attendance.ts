@@ -0,0 +1,174 @@
+/**
+ * Workday attendance utilities (present / late / absent per day)
+ */
+
+import { TZDate } from '@date-fns/tz'
+import { addMinutes, getISODay } from 'date-fns'
+import { SCHEDULE_TIMEZONE } from './scheduling'
+
+export type AttendanceStatus =
+  | 'PRESENT' // Clocked in on time
+  | 'LATE' // Clocked in after the start of the workday + grace
+  | 'ABSENT' // No clock-in on a working day once the grace has passed
+  | 'DAY_OFF' // No clock-in on a day outside the working week or a holiday
+  | 'ON_LEAVE' // No clock-in on a working day of approved leave
+  | 'PENDING' // No clock-in yet, the grace has not passed
+
+export type AttendancePolicy = {
+  // ISO weekdays worked (1 = Monday ... 7 = Sunday)
+  workingWeekdays: number[]
+  // Start of the workday (HH:mm)
+  workdayStartTime: string
+  // Minutes after the start before a clock-in is late
+  attendanceGraceMinutes: number
+}
+
+type AttendanceRecord = {
+  userId: string
+  date: string
+  clockInAt: Date
+  clockOutAt: Date | null
+  clockInPhotoId: string
+  clockOutPhotoId: string | null
+}
+
+/**
+ * Get the instant after which a clock-in on a day is late
+ *
+ * @example
+ * getLateAfter('2026-10-20', { workdayStartTime: '08:00', attendanceGraceMinutes: 15 })
+ * // 2026-10-20T01:15:00Z (08:15 in Asia/Ho_Chi_Minh)
+ */
+export function getLateAfter(
+  date: string,
+  {
+    workdayStartTime,
+    attendanceGraceMinutes,
+  }: Pick<AttendancePolicy, 'workdayStartTime' | 'attendanceGraceMinutes'>,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes] = workdayStartTime.split(':').map(Number)
+  const start = new TZDate(year, month - 1, day, hours, minutes, timezone)
+
+  return new Date(addMinutes(start, attendanceGraceMinutes).getTime())
+}
+
+/**
+ * Get the attendance status of a worker on a day
+ *
+ * A clock-in always counts, even on a day off (overtime, inventory). Without
+ * one, the day is a day off outside the working week and on public holidays,
+ * on leave during an approved leave, pending until the grace has passed and
+ * absent after.
+ */
+export function getAttendanceStatus({
+  date,
+  clockInAt,
+  onLeave = false,
+  holiday = false,
+  policy,
+  timezone = SCHEDULE_TIMEZONE,
+  now = new Date(),
+}: {
+  date: string
+  clockInAt?: Date | null
+  onLeave?: boolean
+  holiday?: boolean
+  policy: AttendancePolicy
+  timezone?: string
+  now?: Date
+}): AttendanceStatus {
+  const lateAfter = getLateAfter(date, policy, timezone)
+
+  if (clockInAt) {
+    return clockInAt > lateAfter ? 'LATE' : 'PRESENT'
+  }
+
+  const [year, month, day] = date.split('-').map(Number)
+  const weekday = getISODay(new TZDate(year, month - 1, day, timezone))
+  if (!policy.workingWeekdays.includes(weekday) || holiday) {
+    return 'DAY_OFF'
+  }
+  if (onLeave) {
+    return 'ON_LEAVE'
+  }
+
+  return now > lateAfter ? 'ABSENT' : 'PENDING'
+}
+
+/**
+ * Build the attendance grid of workers over days
+ *
+ * @param days - Calendar days (YYYY-MM-DD) of the columns
+ * @param userIds - Workers of the rows
+ * @param records - Attendance of these workers on these days
+ * @param leaves - Approved leaves of these workers
+ * @param holidays - Public holidays (YYYY-MM-DD) among the days
+ * @returns One row per worker with a cell per day and the counts of
+ *   present, late, absent and leave days
+ */
+export function buildAttendanceGrid({
+  days,
+  userIds,
+  records,
+  leaves = [],
+  holidays = [],
+  policy,
+  timezone = SCHEDULE_TIMEZONE,
+  now = new Date(),
+}: {
+  days: string[]
+  userIds: string[]
+  records: AttendanceRecord[]
+  leaves?: { userId: string; startDate: string; endDate: string }[]
+  holidays?: string[]
+  policy: AttendancePolicy
+  timezone?: string
+  now?: Date
+}) {
+  const recordsByKey = new Map(
+    records.map((record) => [`${record.userId}:${record.date}`, record]),
+  )
+
+  return userIds.map((userId) => {
+    const cells = days.map((date) => {
+      const record = recordsByKey.get(`${userId}:${date}`)
+      return {
+        date,
+        status: getAttendanceStatus({
+          date,
+          clockInAt: record?.clockInAt,
+          onLeave: leaves.some(
+            (leave) =>
+              leave.userId === userId &&
+              leave.startDate <= date &&
+              leave.endDate >= date,
+          ),
+          holiday: holidays.includes(date),
+          policy,
+          timezone,
+          now,
+        }),
+        clockInAt: record?.clockInAt ?? null,
+        clockOutAt: record?.clockOutAt ?? null,
+        clockInPhotoId: record?.clockInPhotoId ?? null,
+        clockOutPhotoId: record?.clockOutPhotoId ?? null,
+      }
+    })
+
+    const count = (status: AttendanceStatus) =>
+      cells.filter((cell) => cell.status === status).length
+
+    return {
+      userId,
+      days: cells,
+      totals: {
+        present: count('PRESENT'),
+        late: count('LATE'),
+        absent: count('ABSENT'),
+        onLeave: count('ON_LEAVE'),
+      },
+    }
+  })
+}
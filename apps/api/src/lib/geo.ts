@@ -94,3 +94,68 @@ export function verifyLocation(
 
   return { distance, withinRange, warnings }
 }
+
+/** Average city travel speed (motorbike in traffic) used for travel estimates */
+export const AVERAGE_TRAVEL_SPEED_KMH = 25
+
+/**
+ * Estimate the travel time for a distance
+ *
+ * Uses the straight-line distance at AVERAGE_TRAVEL_SPEED_KMH, rounded up to
+ * whole minutes. Good enough to spot back-to-back jobs a worker cannot reach
+ * in time, not for routing.
+ *
+ * @param distanceMeters - Distance in meters (see calculateDistance)
+ * @param speedKmh - Average speed in km/h
+ * @returns Travel time in minutes
+ *
+ * @example
+ * estimateTravelMinutes(5000) // 12
+ */
+export function estimateTravelMinutes(
+  distanceMeters: number,
+  speedKmh = AVERAGE_TRAVEL_SPEED_KMH,
+): number {
+  return Math.ceil((distanceMeters / 1000 / speedKmh) * 60)
+}
+
+// Same as the radius in calculateDistance
+export const EARTH_RADIUS_METERS = 6371e3
+
+/**
+ * Get the latitude/longitude box containing a circle
+ *
+ * Cheap pre-filter for radius searches that can use the [lat, lng] index;
+ * the exact distance still has to be checked. The longitude span is the
+ * circle's real extent, which is wider than the radius along the parallel.
+ *
+ * @param center - Center of the circle
+ * @param radiusMeters - Radius in meters
+ *
+ * @example
+ * getBoundingBox({ lat: 21.0285, lng: 105.8542 }, 1000)
+ * // { minLat: 21.0195, maxLat: 21.0375, minLng: 105.8446, maxLng: 105.8638 }
+ */
+export function getBoundingBox(
+  center: { lat: number; lng: number },
+  radiusMeters: number,
+) {
+  const angularRadius = radiusMeters / EARTH_RADIUS_METERS
+  const latDelta = (angularRadius * 180) / Math.PI
+  const lngDelta =
+    (Math.asin(
+      Math.min(
+        1,
+        Math.sin(angularRadius) / Math.cos((center.lat * Math.PI) / 180),
+      ),
+    ) *
+      180) /
+    Math.PI
+
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Location integrity checks for check-in / check-out
+ *
+ * Spots positions that should not be trusted as-is: a coarse network fix, a
+ * mocked location, a jump no vehicle could make since the worker's previous
+ * event, or a device clock far from the server's. Events are not refused,
+ * they are flagged for an admin to review.
+ */
+import { calculateDistance } from './geo'
+
+/** Positions less precise than this are likely network / cell tower guesses */
+export const MAX_EVENT_ACCURACY_METERS = 100
+
+/** Faster than any vehicle in city traffic, even on the highway */
+export const MAX_TRAVEL_SPEED_KMH = 150
+
+/**
+ * Jumps shorter than this are never checked for speed, two fixes a few
+ * seconds apart can be hundreds of meters off
+ */
+export const MIN_SPEED_CHECK_DISTANCE_METERS = 2000
+
+/** Device clocks drift a little, more than this is a changed clock */
+export const MAX_DEVICE_TIME_SKEW_MINUTES = 10
+
+export type LocationAnomalyReason =
+  | 'LOW_ACCURACY'
+  | 'MOCK_LOCATION'
+  | 'IMPOSSIBLE_SPEED'
+  | 'DEVICE_TIME_SKEW'
+
+export type LocationAnomaly = {
+  reason: LocationAnomalyReason
+  details: Record<string, number | string>
+}
+
+export type EventPosition = {
+  lat: number
+  lng: number
+  /** Radius of uncertainty in meters, when the device reports it */
+  accuracy?: number
+  isMocked?: boolean
+  provider?: string
+  /** Device clock when the event was sent */
+  deviceTime?: Date
+}
+
+export type PreviousEventPosition = {
+  lat: number
+  lng: number
+  at: Date
+  taskId: number
+}
+
+/**
+ * Detect anomalies of a check-in / check-out position
+ *
+ * @param position - Position sent by the device
+ * @param previous - Position of the worker's previous event, if any
+ * @param now - Server time of the event
+ * @returns Anomalies found, empty when the position looks genuine
+ *
+ * @example
+ * detectLocationAnomalies({
+ *   position: { lat: 10.7769, lng: 106.7009, accuracy: 2000 },
+ *   previous: { lat: 21.0285, lng: 105.8542, at: tenMinutesAgo, taskId: 1 },
+ *   now: new Date(),
+ * })
+ * // [{ reason: 'LOW_ACCURACY', ... }, { reason: 'IMPOSSIBLE_SPEED', ... }]
+ */
+export function detectLocationAnomalies({
+  position,
+  previous,
+  now,
+}: {
+  position: EventPosition
+  previous?: PreviousEventPosition | null
+  now: Date
+}): LocationAnomaly[] {
+  const anomalies: LocationAnomaly[] = []
+
+  if (
+    position.accuracy !== undefined &&
+    position.accuracy > MAX_EVENT_ACCURACY_METERS
+  ) {
+    anomalies.push({
+      reason: 'LOW_ACCURACY',
+      details: {
+        accuracyMeters: Math.round(position.accuracy),
+        maxAccuracyMeters: MAX_EVENT_ACCURACY_METERS,
+      },
+    })
+  }
+
+  if (position.isMocked) {
+    anomalies.push({
+      reason: 'MOCK_LOCATION',
+      details: position.provider ? { provider: position.provider } : {},
+    })
+  }
+
+  if (previous) {
+    const distanceMeters = calculateDistance(
+      previous.lat,
+      previous.lng,
+      position.lat,
+      position.lng,
+    )
+    // A second at least, events recorded together would divide by zero
+    const elapsedSeconds = Math.max(
+      1,
+      (now.getTime() - previous.at.getTime()) / 1000,
+    )
+    const speedKmh = (distanceMeters / elapsedSeconds) * 3.6
+
+    if (
+      distanceMeters >= MIN_SPEED_CHECK_DISTANCE_METERS &&
+      speedKmh > MAX_TRAVEL_SPEED_KMH
+    ) {
+      anomalies.push({
+        reason: 'IMPOSSIBLE_SPEED',
+        details: {
+          speedKmh: Math.round(speedKmh),
+          distanceMeters: Math.round(distanceMeters),
+          elapsedMinutes: Math.round(elapsedSeconds / 60),
+          previousTaskId: previous.taskId,
+        },
+      })
+    }
+  }
+
+  if (position.deviceTime) {
+    const skewMinutes = (position.deviceTime.getTime() - now.getTime()) / 60_000
+
+    if (Math.abs(skewMinutes) > MAX_DEVICE_TIME_SKEW_MINUTES) {
+      anomalies.push({
+        reason: 'DEVICE_TIME_SKEW',
+        details: {
+          skewMinutes: Math.round(skewMinutes),
+          deviceTime: position.deviceTime.toISOString(),
+        },
+      })
+    }
+  }
+
+  return anomalies
+}
@@ -0,0 +1,95 @@
+/**
+ * Grid clustering of map pins
+ *
+ * The visible area is cut into a grid and the pins sharing a cell are merged
+ * into one cluster, so a zoomed-out map stays readable.
+ */
+
+/** Cells along each side of the visible area */
+export const MAP_CLUSTER_GRID_SIZE = 8
+
+/**
+ * Below this span (in degrees, ~1km) every pin is shown, so tasks at the same
+ * address can still be told apart when zoomed in
+ */
+export const MAP_CLUSTER_MIN_SPAN_DEGREES = 0.01
+
+export type MapBounds = {
+  minLat: number
+  maxLat: number
+  minLng: number
+  maxLng: number
+}
+
+export type MapCluster<T> = {
+  /** Average position of the clustered points */
+  lat: number
+  lng: number
+  count: number
+  /** Smallest box containing the points, to zoom in on the cluster */
+  bounds: MapBounds
+  points: T[]
+}
+
+/**
+ * Merge points sharing a grid cell of the visible area
+ *
+ * @param points - Points inside the bounds
+ * @param bounds - Visible area
+ * @returns Points left alone and clusters of two points or more
+ *
+ * @example
+ * clusterMapPoints(tasks, { minLat: 20.9, maxLat: 21.1, minLng: 105.7, maxLng: 105.9 })
+ * // { points: [task3], clusters: [{ lat: 21.02, lng: 105.85, count: 2, ... }] }
+ */
+export function clusterMapPoints<T extends { lat: number; lng: number }>(
+  points: T[],
+  bounds: MapBounds,
+  gridSize = MAP_CLUSTER_GRID_SIZE,
+): { points: T[]; clusters: MapCluster<T>[] } {
+  const latSpan = bounds.maxLat - bounds.minLat
+  const lngSpan = bounds.maxLng - bounds.minLng
+
+  if (Math.max(latSpan, lngSpan) < MAP_CLUSTER_MIN_SPAN_DEGREES) {
+    return { points, clusters: [] }
+  }
+
+  const cellOf = (value: number, min: number, span: number) =>
+    Math.min(
+      gridSize - 1,
+      Math.max(0, Math.floor(((value - min) / span) * gridSize)),
+    )
+
+  const cells = new Map<string, T[]>()
+  for (const point of points) {
+    const key = `${cellOf(point.lat, bounds.minLat, latSpan)}:${cellOf(point.lng, bounds.minLng, lngSpan)}`
+    cells.set(key, [...(cells.get(key) ?? []), point])
+  }
+
+  const singles: T[] = []
+  const clusters: MapCluster<T>[] = []
+
+  for (const cellPoints of cells.values()) {
+    if (cellPoints.length === 1) {
+      singles.push(cellPoints[0])
+      continue
+    }
+
+    const lats = cellPoints.map((point) => point.lat)
+    const lngs = cellPoints.map((point) => point.lng)
+    clusters.push({
+      lat: lats.reduce((sum, lat) => sum + lat, 0) / cellPoints.length,
+      lng: lngs.reduce((sum, lng) => sum + lng, 0) / cellPoints.length,
+      count: cellPoints.length,
+      bounds: {
+        minLat: Math.min(...lats),
+        maxLat: Math.max(...lats),
+        minLng: Math.min(...lngs),
+        maxLng: Math.max(...lngs),
+      },
+      points: cellPoints,
+    })
+  }
+
+  return { points: singles, clusters }
+}
@@ -0,0 +1,95 @@
+/**
+ * Simplification of GPS trails for display
+ */
+
+import { EARTH_RADIUS_METERS } from './geo'
+
+export type TrackPoint = {
+  lat: number
+  lng: number
+}
+
+/** Project a point to meters on a plane tangent at `origin` (short distances) */
+function toPlane(point: TrackPoint, origin: TrackPoint) {
+  const rad = Math.PI / 180
+  return {
+    x:
+      (point.lng - origin.lng) *
+      rad *
+      EARTH_RADIUS_METERS *
+      Math.cos(origin.lat * rad),
+    y: (point.lat - origin.lat) * rad * EARTH_RADIUS_METERS,
+  }
+}
+
+/** Distance in meters from `point` to the segment `start` - `end` */
+function distanceToSegment(
+  point: TrackPoint,
+  start: TrackPoint,
+  end: TrackPoint,
+) {
+  const p = toPlane(point, start)
+  const e = toPlane(end, start)
+  const lengthSquared = e.x * e.x + e.y * e.y
+
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared))
+
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y)
+}
+
+/**
+ * Simplify a trail with the Douglas-Peucker algorithm
+ *
+ * Keeps the first and last points and every point that strays more than
+ * `toleranceMeters` from the simplified line, so a worker standing still or
+ * walking straight becomes a handful of points.
+ *
+ * @param points - Points in recording order
+ * @param toleranceMeters - Largest allowed deviation from the original trail
+ * @returns The kept points, in order
+ *
+ * @example
+ * simplifyPolyline([a, pointOnTheWayFromAToB, b], 10) // [a, b]
+ */
+export function simplifyPolyline<T extends TrackPoint>(
+  points: T[],
+  toleranceMeters: number,
+): T[] {
+  if (points.length <= 2) {
+    return points
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  // Iterative to avoid deep recursion on long trails
+  const stack: [number, number][] = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop() as [number, number]
+
+    let farthest = -1
+    let farthestDistance = toleranceMeters
+    for (let index = first + 1; index < last; index++) {
+      const distance = distanceToSegment(
+        points[index],
+        points[first],
+        points[last],
+      )
+      if (distance > farthestDistance) {
+        farthest = index
+        farthestDistance = distance
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true
+      stack.push([first, farthest], [farthest, last])
+    }
+  }
+
+  return points.filter((_, index) => keep[index])
+}
@@ -26,6 +26,19 @@ const prefixes: Partial<Record<ModelName, string>> = {
   Activity: 'act',
   Attachment: 'att',
   Payment: 'payment',
+  TaskSchedule: 'sched',
+  ChecklistTemplateItem: 'chktpl',
+  TaskChecklistItem: 'chk',
+  TaskHold: 'hold',
+  TaskVisit: 'visit',
+  LocationPoint: 'loc',
+  TaskEventFlag: 'flag',
+  Attendance: 'attend',
+  LeaveRequest: 'leave',
+  Holiday: 'holiday',
+  Team: 'team',
+  Skill: 'skill',
+  WorkerCertificate: 'cert',
   /** biome-ignore-end lint/style/useNamingConvention: <extend model name> */
 }
 
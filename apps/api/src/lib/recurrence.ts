@@ -0,0 +1,247 @@
+/**
+ * Recurrence utilities for recurring maintenance schedules
+ *
+ * Supports a subset of the RFC 5545 RRULE format that covers periodic
+ * maintenance work (e.g. AC cleaning every 3 or 6 months):
+ * - FREQ: DAILY | WEEKLY | MONTHLY | YEARLY (required)
+ * - INTERVAL: positive integer (default: 1)
+ * - COUNT: maximum number of occurrences, counted from DTSTART
+ * - UNTIL: last allowed occurrence date (YYYYMMDD or YYYYMMDDTHHMMSSZ)
+ */
+
+import { TZDate } from '@date-fns/tz'
+import { addDays, addMonths, addWeeks, addYears } from 'date-fns'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  count?: number
+  until?: Date
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+]
+
+// Hard cap on iterations so a malformed rule can never loop forever
+const MAX_ITERATIONS = 10_000
+
+function parseUntil(value: string): Date | null {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/,
+  )
+  if (!match) {
+    return null
+  }
+  const [, year, month, day, hour, minute, second] = match
+  // Date-only UNTIL includes the whole day
+  const date = hour
+    ? new Date(
+        Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0)),
+      )
+    : new Date(Date.UTC(+year, +month - 1, +day, 23, 59, 59, 999))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parse an RRULE string into a recurrence rule
+ *
+ * @param rrule - RRULE string, with or without the "RRULE:" prefix
+ * @returns Parsed recurrence rule
+ * @throws Error if the rule is malformed or uses unsupported parts
+ *
+ * @example
+ * parseRRule('FREQ=MONTHLY;INTERVAL=3')
+ * // { freq: 'MONTHLY', interval: 3 }
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const parts = rrule
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean)
+
+  const values = new Map<string, string>()
+  for (const part of parts) {
+    const [key, value] = part.split('=')
+    if (!key || !value || values.has(key.toUpperCase())) {
+      throw new Error(`Invalid RRULE part: ${part}`)
+    }
+    values.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = values.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported RRULE frequency: ${freq ?? '(missing)'}`)
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 }
+
+  for (const [key, value] of values) {
+    if (key === 'FREQ') {
+      continue
+    }
+    if (key === 'INTERVAL' || key === 'COUNT') {
+      const num = Number(value)
+      if (!Number.isInteger(num) || num < 1) {
+        throw new Error(`Invalid RRULE ${key}: ${value}`)
+      }
+      if (key === 'INTERVAL') {
+        rule.interval = num
+      } else {
+        rule.count = num
+      }
+      continue
+    }
+    if (key === 'UNTIL') {
+      const until = parseUntil(value)
+      if (!until) {
+        throw new Error(`Invalid RRULE UNTIL: ${value}`)
+      }
+      rule.until = until
+      continue
+    }
+    throw new Error(`Unsupported RRULE part: ${key}`)
+  }
+
+  return rule
+}
+
+/**
+ * Check whether an RRULE string is supported
+ */
+export function isValidRRule(rrule: string): boolean {
+  try {
+    parseRRule(rrule)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function addInterval(
+  date: TZDate,
+  freq: RecurrenceFrequency,
+  amount: number,
+): TZDate {
+  switch (freq) {
+    case 'DAILY':
+      return addDays(date, amount)
+    case 'WEEKLY':
+      return addWeeks(date, amount)
+    case 'MONTHLY':
+      return addMonths(date, amount)
+    case 'YEARLY':
+      return addYears(date, amount)
+  }
+}
+
+/**
+ * Compute occurrences of a recurrence rule
+ *
+ * Each occurrence is computed from DTSTART (not from the previous occurrence)
+ * so month-end dates don't drift: Jan 31 + 1 month = Feb 28, + 2 months = Mar 31.
+ * Calendar arithmetic is done in the given timezone so occurrences keep the
+ * same local wall-clock time.
+ *
+ * @param rrule - RRULE string or parsed rule
+ * @param startsAt - First occurrence (DTSTART)
+ * @param after - Only return occurrences strictly after this date
+ * @param until - Only return occurrences on or before this date
+ * @param limit - Maximum number of occurrences to return (default: 100)
+ * @param timezone - IANA timezone for calendar arithmetic (default: Asia/Ho_Chi_Minh)
+ * @returns Occurrence dates in ascending order
+ *
+ * @example
+ * getOccurrences({
+ *   rrule: 'FREQ=MONTHLY;INTERVAL=3',
+ *   startsAt: new Date('2025-01-15T02:00:00Z'),
+ *   limit: 3,
+ * })
+ * // [2025-01-15, 2025-04-15, 2025-07-15] at 09:00 ICT
+ */
+export function getOccurrences({
+  rrule,
+  startsAt,
+  after,
+  until,
+  limit = 100,
+  timezone = 'Asia/Ho_Chi_Minh',
+}: {
+  rrule: string | RecurrenceRule
+  startsAt: Date
+  after?: Date | null
+  until?: Date | null
+  limit?: number
+  timezone?: string
+}): Date[] {
+  const rule = typeof rrule === 'string' ? parseRRule(rrule) : rrule
+  const start = new TZDate(startsAt, timezone)
+
+  // Effective upper bound is the earliest of the rule's UNTIL and the caller's bound
+  const upperBound = [rule.until, until]
+    .filter((d): d is Date => !!d)
+    .reduce<Date | null>(
+      (min, d) => (!min || d.getTime() < min.getTime() ? d : min),
+      null,
+    )
+
+  const occurrences: Date[] = []
+
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    if (rule.count !== undefined && n >= rule.count) {
+      break
+    }
+    if (occurrences.length >= limit) {
+      break
+    }
+
+    const occurrence = new Date(
+      addInterval(start, rule.freq, n * rule.interval).getTime(),
+    )
+
+    if (upperBound && occurrence.getTime() > upperBound.getTime()) {
+      break
+    }
+    if (after && occurrence.getTime() <= after.getTime()) {
+      continue
+    }
+
+    occurrences.push(occurrence)
+  }
+
+  return occurrences
+}
+
+/**
+ * Render a schedule title/description template for one occurrence
+ *
+ * Supported placeholders (formatted in the given timezone):
+ * - {{date}}: dd/MM/yyyy
+ * - {{month}}: MM/yyyy
+ * - {{year}}: yyyy
+ *
+ * @example
+ * renderScheduleTemplate('Vệ sinh máy lạnh {{month}}', new Date('2025-04-15'))
+ * // 'Vệ sinh máy lạnh 04/2025'
+ */
+export function renderScheduleTemplate(
+  template: string,
+  occurrence: Date,
+  timezone = 'Asia/Ho_Chi_Minh',
+): string {
+  const zoned = new TZDate(occurrence, timezone)
+  const day = String(zoned.getDate()).padStart(2, '0')
+  const month = String(zoned.getMonth() + 1).padStart(2, '0')
+  const year = String(zoned.getFullYear())
+
+  return template
+    .replace(/\{\{\s*date\s*\}\}/g, `${day}/${month}/${year}`)
+    .replace(/\{\{\s*month\s*\}\}/g, `${month}/${year}`)
+    .replace(/\{\{\s*year\s*\}\}/g, year)
+}
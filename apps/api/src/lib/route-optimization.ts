@@ -0,0 +1,259 @@
+/**
+ * Visiting order for a worker's day of tasks
+ *
+ * A nearest-neighbour tour improved with 2-opt, using straight-line
+ * distances. Scheduled tasks are appointments: a route that gets to one after
+ * its start is worse than any route that does not, whatever the distance.
+ */
+
+import { calculateDistance, estimateTravelMinutes } from './geo'
+import { DEFAULT_TASK_DURATION_MINUTES, type TimeWindow } from './scheduling'
+
+/** Stop the search when a pass over all segments keeps finding improvements */
+const MAX_TWO_OPT_PASSES = 50
+
+const MINUTE_MS = 60 * 1000
+
+export type RoutePoint = {
+  lat: number
+  lng: number
+}
+
+export type RouteStop = RoutePoint & {
+  id: number
+  window: TimeWindow | null
+}
+
+export type RouteLeg = {
+  stopId: number
+  /** From the previous stop, or from the origin for the first one */
+  distanceMeters: number
+  travelMinutes: number
+  arrivalAt: Date
+  /** Minutes after the start of the stop's window, 0 when on time */
+  lateMinutes: number
+}
+
+export type OptimizedRoute<T extends RouteStop> = {
+  stops: T[]
+  /** One leg per stop, in the same order */
+  legs: RouteLeg[]
+  totalDistanceMeters: number
+  totalTravelMinutes: number
+  totalLateMinutes: number
+}
+
+type Visit = {
+  distanceMeters: number
+  travelMinutes: number
+  arrivalAt: Date
+  lateMinutes: number
+  departAt: Date
+}
+
+/**
+ * Travel from a point to a stop and work there
+ *
+ * Arriving before a window waits for it. A stop takes its window's length,
+ * or DEFAULT_TASK_DURATION_MINUTES when unscheduled.
+ */
+function visitStop(
+  from: RoutePoint | null,
+  time: Date,
+  stop: RouteStop,
+): Visit {
+  const distanceMeters = from
+    ? calculateDistance(from.lat, from.lng, stop.lat, stop.lng)
+    : 0
+  const travelMinutes = estimateTravelMinutes(distanceMeters)
+  const arrivalAt = new Date(time.getTime() + travelMinutes * MINUTE_MS)
+
+  if (!stop.window) {
+    return {
+      distanceMeters,
+      travelMinutes,
+      arrivalAt,
+      lateMinutes: 0,
+      departAt: new Date(
+        arrivalAt.getTime() + DEFAULT_TASK_DURATION_MINUTES * MINUTE_MS,
+      ),
+    }
+  }
+
+  const { start, end } = stop.window
+  const startedAt = Math.max(arrivalAt.getTime(), start.getTime())
+
+  return {
+    distanceMeters,
+    travelMinutes,
+    arrivalAt,
+    lateMinutes: Math.max(
+      0,
+      Math.ceil((arrivalAt.getTime() - start.getTime()) / MINUTE_MS),
+    ),
+    departAt: new Date(startedAt + (end.getTime() - start.getTime())),
+  }
+}
+
+function evaluateRoute<T extends RouteStop>(
+  stops: T[],
+  origin: RoutePoint | null,
+  startAt: Date,
+): OptimizedRoute<T> {
+  const legs: RouteLeg[] = []
+  let position = origin
+  let time = startAt
+
+  for (const stop of stops) {
+    const visit = visitStop(position, time, stop)
+    legs.push({
+      stopId: stop.id,
+      distanceMeters: visit.distanceMeters,
+      travelMinutes: visit.travelMinutes,
+      arrivalAt: visit.arrivalAt,
+      lateMinutes: visit.lateMinutes,
+    })
+    position = stop
+    time = visit.departAt
+  }
+
+  return {
+    stops,
+    legs,
+    totalDistanceMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+    totalTravelMinutes: legs.reduce((sum, leg) => sum + leg.travelMinutes, 0),
+    totalLateMinutes: legs.reduce((sum, leg) => sum + leg.lateMinutes, 0),
+  }
+}
+
+/** Being on time wins over distance */
+function isBetterRoute(
+  candidate: OptimizedRoute<RouteStop>,
+  current: OptimizedRoute<RouteStop>,
+) {
+  if (candidate.totalLateMinutes !== current.totalLateMinutes) {
+    return candidate.totalLateMinutes < current.totalLateMinutes
+  }
+  // Ignore rounding noise so equal tours do not swap forever
+  return candidate.totalDistanceMeters < current.totalDistanceMeters - 1
+}
+
+/**
+ * Build a first tour by always going to the nearest remaining stop
+ *
+ * A stop is skipped while going there first would make the next appointment
+ * (the remaining scheduled stop that starts first) later than going straight
+ * to it.
+ */
+function buildNearestNeighbourTour<T extends RouteStop>(
+  stops: T[],
+  origin: RoutePoint | null,
+  startAt: Date,
+): T[] {
+  const remaining = [...stops]
+  const tour: T[] = []
+  let position = origin
+  let time = startAt
+
+  while (remaining.length > 0) {
+    const nextAppointment = remaining
+      .filter((stop) => stop.window)
+      .sort(
+        (a, b) =>
+          (a.window?.start.getTime() ?? 0) - (b.window?.start.getTime() ?? 0),
+      )[0]
+    const directLateMinutes = nextAppointment
+      ? visitStop(position, time, nextAppointment).lateMinutes
+      : 0
+
+    let bestIndex = 0
+    let bestKey: [number, number, number] | null = null
+
+    for (const [index, stop] of remaining.entries()) {
+      const visit = visitStop(position, time, stop)
+      const delaysAppointment =
+        nextAppointment &&
+        nextAppointment !== stop &&
+        visitStop(stop, visit.departAt, nextAppointment).lateMinutes >
+          directLateMinutes
+      // Compare: keeps the next appointment, own lateness, distance
+      const key: [number, number, number] = [
+        delaysAppointment ? 1 : 0,
+        visit.lateMinutes,
+        visit.distanceMeters,
+      ]
+
+      if (
+        !bestKey ||
+        key[0] < bestKey[0] ||
+        (key[0] === bestKey[0] && key[1] < bestKey[1]) ||
+        (key[0] === bestKey[0] && key[1] === bestKey[1] && key[2] < bestKey[2])
+      ) {
+        bestIndex = index
+        bestKey = key
+      }
+    }
+
+    const [next] = remaining.splice(bestIndex, 1)
+    time = visitStop(position, time, next).departAt
+    position = next
+    tour.push(next)
+  }
+
+  return tour
+}
+
+/**
+ * Order a worker's stops to reduce travel while keeping appointments
+ *
+ * Starts from a nearest-neighbour tour, then reverses segments (2-opt) while
+ * that makes the route less late or, equally late, shorter. The route is a
+ * path: it does not come back to the origin.
+ *
+ * @param stops - Stops with a location, in a stable order (ties keep it)
+ * @param origin - Where the worker starts, or null to start at the first stop
+ * @param startAt - When the worker leaves the origin
+ *
+ * @example
+ * optimizeRoute(stops, { origin: { lat: 21.0285, lng: 105.8542 }, startAt })
+ * // { stops: [...], legs: [...], totalDistanceMeters: 12840, ... }
+ */
+export function optimizeRoute<T extends RouteStop>(
+  stops: T[],
+  { origin, startAt }: { origin: RoutePoint | null; startAt: Date },
+): OptimizedRoute<T> {
+  let best = evaluateRoute(
+    buildNearestNeighbourTour(stops, origin, startAt),
+    origin,
+    startAt,
+  )
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false
+
+    for (let i = 0; i < best.stops.length - 1; i++) {
+      for (let k = i + 1; k < best.stops.length; k++) {
+        const candidate = evaluateRoute(
+          [
+            ...best.stops.slice(0, i),
+            ...best.stops.slice(i, k + 1).reverse(),
+            ...best.stops.slice(k + 1),
+          ],
+          origin,
+          startAt,
+        )
+
+        if (isBetterRoute(candidate, best)) {
+          best = candidate
+          improved = true
+        }
+      }
+    }
+
+    if (!improved) {
+      break
+    }
+  }
+
+  return best
+}
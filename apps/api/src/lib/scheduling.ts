@@ -0,0 +1,114 @@
+/**
+ * Task time window utilities for scheduling conflict detection and calendars
+ */
+
+import { TZDate } from '@date-fns/tz'
+import { addDays, format } from 'date-fns'
+
+/** Timezone used to bucket scheduled tasks into calendar days */
+export const SCHEDULE_TIMEZONE = 'Asia/Ho_Chi_Minh'
+
+/** Duration assumed for a scheduled task without an end or estimated duration */
+export const DEFAULT_TASK_DURATION_MINUTES = 60
+
+export type TimeWindow = {
+  start: Date
+  end: Date
+}
+
+/**
+ * Get the scheduled time window of a task
+ *
+ * The window starts at `scheduledAt` and ends at `scheduledEndAt`, or
+ * `scheduledAt + estimatedDurationMinutes` when no end is set. Tasks with
+ * neither get DEFAULT_TASK_DURATION_MINUTES.
+ *
+ * @returns The window, or null if the task is not scheduled
+ *
+ * @example
+ * getTaskTimeWindow({
+ *   scheduledAt: new Date('2026-10-20T02:00:00Z'),
+ *   estimatedDurationMinutes: 90,
+ * })
+ * // { start: 2026-10-20T02:00:00Z, end: 2026-10-20T03:30:00Z }
+ */
+export function getTaskTimeWindow({
+  scheduledAt,
+  scheduledEndAt,
+  estimatedDurationMinutes,
+}: {
+  scheduledAt?: Date | null
+  scheduledEndAt?: Date | null
+  estimatedDurationMinutes?: number | null
+}): TimeWindow | null {
+  if (!scheduledAt) {
+    return null
+  }
+
+  if (scheduledEndAt && scheduledEndAt.getTime() > scheduledAt.getTime()) {
+    return { start: scheduledAt, end: scheduledEndAt }
+  }
+
+  const durationMinutes =
+    estimatedDurationMinutes && estimatedDurationMinutes > 0
+      ? estimatedDurationMinutes
+      : DEFAULT_TASK_DURATION_MINUTES
+
+  return {
+    start: scheduledAt,
+    end: new Date(scheduledAt.getTime() + durationMinutes * 60 * 1000),
+  }
+}
+
+/**
+ * Check whether two time windows overlap
+ *
+ * Windows that only touch (one ends when the other starts) do not overlap, so
+ * back-to-back tasks are allowed.
+ */
+export function doTimeWindowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+  return (
+    a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime()
+  )
+}
+
+/**
+ * Get the calendar day (YYYY-MM-DD) of an instant in a timezone
+ *
+ * @example
+ * toCalendarDay(new Date('2026-10-19T18:00:00Z')) // '2026-10-20' (UTC+7)
+ */
+export function toCalendarDay(date: Date, timezone = SCHEDULE_TIMEZONE) {
+  return format(new TZDate(date, timezone), 'yyyy-MM-dd')
+}
+
+/**
+ * Get the calendar days between two days (inclusive) and the instants
+ * bounding them in a timezone
+ *
+ * @param from - First day (YYYY-MM-DD)
+ * @param to - Last day (YYYY-MM-DD), inclusive
+ * @returns The days, the start of the first day and the start of the day
+ *   after the last one
+ */
+export function getCalendarRange(
+  from: string,
+  to: string,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number)
+  const [toYear, toMonth, toDay] = to.split('-').map(Number)
+  const start = new TZDate(fromYear, fromMonth - 1, fromDay, timezone)
+  const end = addDays(new TZDate(toYear, toMonth - 1, toDay, timezone), 1)
+
+  const days: string[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(format(day, 'yyyy-MM-dd'))
+  }
+
+  return {
+    days,
+    start: new Date(start.getTime()),
+    end: new Date(end.getTime()),
+  }
+}
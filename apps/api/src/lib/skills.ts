@@ -0,0 +1,74 @@
+/**
+ * Worker qualification utilities (skills required by a task vs certificates)
+ */
+
+export type SkillIssueReason =
+  | 'MISSING' // No certificate for the skill
+  | 'EXPIRED' // The certificate expired before the day of the task
+
+/** An assignee is not qualified for one of the skills a task requires */
+export type SkillIssue = {
+  userId: string
+  skillId: string
+  reason: SkillIssueReason
+  expiryDate: string | null // Of the expired certificate
+}
+
+type Certificate = {
+  userId: string
+  skillId: string
+  expiryDate: string | null
+}
+
+/**
+ * Get the assignees lacking a skill of a task, or holding an expired
+ * certificate for it
+ *
+ * A certificate is valid until its expiry date, inclusive.
+ *
+ * @example
+ * findSkillIssues({
+ *   assigneeIds: ['worker_1'],
+ *   requiredSkillIds: ['skill_r32'],
+ *   certificates: [{ userId: 'worker_1', skillId: 'skill_r32', expiryDate: '2026-10-19' }],
+ *   date: '2026-10-20',
+ * })
+ * // [{ userId: 'worker_1', skillId: 'skill_r32', reason: 'EXPIRED', expiryDate: '2026-10-19' }]
+ */
+export function findSkillIssues({
+  assigneeIds,
+  requiredSkillIds,
+  certificates,
+  date,
+}: {
+  assigneeIds: string[]
+  requiredSkillIds: string[]
+  certificates: Certificate[]
+  date: string
+}): SkillIssue[] {
+  const certificateByKey = new Map(
+    certificates.map((certificate) => [
+      `${certificate.userId}:${certificate.skillId}`,
+      certificate,
+    ]),
+  )
+
+  const issues: SkillIssue[] = []
+  for (const userId of assigneeIds) {
+    for (const skillId of requiredSkillIds) {
+      const certificate = certificateByKey.get(`${userId}:${skillId}`)
+      if (!certificate) {
+        issues.push({ userId, skillId, reason: 'MISSING', expiryDate: null })
+      } else if (certificate.expiryDate && certificate.expiryDate < date) {
+        issues.push({
+          userId,
+          skillId,
+          reason: 'EXPIRED',
+          expiryDate: certificate.expiryDate,
+        })
+      }
+    }
+  }
+
+  return issues
+}
@@ -0,0 +1,236 @@
+/**
+ * Timesheets from check-in / check-out pairs, for payroll
+ *
+ * Each visit (a check-in and the check-out closing it) is an on-site
+ * interval. Overlapping intervals are merged so time on two tasks at once (a
+ * forgotten check-out, team jobs) is only paid once, then cut into days and
+ * weeks with the overtime beyond the thresholds.
+ */
+import { TZDate } from '@date-fns/tz'
+import { addDays, format, startOfDay, startOfWeek } from 'date-fns'
+import {
+  getCalendarRange,
+  SCHEDULE_TIMEZONE,
+  toCalendarDay,
+} from './scheduling'
+
+const MINUTE_MS = 60 * 1000
+
+export type TimesheetVisit = {
+  id: string
+  taskId: number
+  checkedInAt: Date
+  checkedOutAt: Date | null
+  correctedAt: Date | null
+}
+
+export type TimesheetInterval = {
+  start: Date
+  end: Date
+  minutes: number
+  visitIds: string[]
+  taskIds: number[]
+  /** One of the visits had its check-out corrected by an admin */
+  corrected: boolean
+}
+
+export type TimesheetTotals = {
+  minutes: number
+  regularMinutes: number
+  overtimeMinutes: number
+}
+
+/** Visit without a check-out, left out of the totals */
+export type UnpairedVisit = {
+  visitId: string
+  taskId: number
+  checkedInAt: Date
+  /** Checked in today, the worker may still be on site */
+  ongoing: boolean
+}
+
+export type Timesheet = {
+  intervals: TimesheetInterval[]
+  /** Worked days only (YYYY-MM-DD in the timezone) */
+  days: (TimesheetTotals & { date: string })[]
+  /** Weeks start on Monday and are cut at the period bounds */
+  weeks: (TimesheetTotals & { weekStart: string })[]
+  totals: TimesheetTotals
+  unpaired: UnpairedVisit[]
+}
+
+/**
+ * Merge closed visits into non-overlapping on-site intervals
+ *
+ * @returns Intervals in chronological order (touching visits are merged too)
+ */
+export function mergeVisitIntervals(
+  visits: TimesheetVisit[],
+): Omit<TimesheetInterval, 'minutes'>[] {
+  const closed = visits
+    .flatMap((visit) =>
+      visit.checkedOutAt && visit.checkedOutAt > visit.checkedInAt
+        ? [{ ...visit, checkedOutAt: visit.checkedOutAt }]
+        : [],
+    )
+    .sort((a, b) => a.checkedInAt.getTime() - b.checkedInAt.getTime())
+
+  const intervals: Omit<TimesheetInterval, 'minutes'>[] = []
+  for (const visit of closed) {
+    const last = intervals.at(-1)
+    if (last && visit.checkedInAt <= last.end) {
+      if (visit.checkedOutAt > last.end) {
+        last.end = visit.checkedOutAt
+      }
+      last.visitIds.push(visit.id)
+      if (!last.taskIds.includes(visit.taskId)) {
+        last.taskIds.push(visit.taskId)
+      }
+      last.corrected ||= visit.correctedAt !== null
+      continue
+    }
+
+    intervals.push({
+      start: visit.checkedInAt,
+      end: visit.checkedOutAt,
+      visitIds: [visit.id],
+      taskIds: [visit.taskId],
+      corrected: visit.correctedAt !== null,
+    })
+  }
+
+  return intervals
+}
+
+/**
+ * Timesheet of one worker over a period
+ *
+ * Each day pays up to `dailyOvertimeHours` as regular time, the rest is
+ * overtime. Regular time of a week beyond `weeklyOvertimeHours` becomes
+ * overtime too, so no minute is counted as overtime twice. Visits still open
+ * are listed as unpaired instead of being guessed.
+ *
+ * @param visits - One worker's visits overlapping the period
+ * @param options.startDate - First day (YYYY-MM-DD), inclusive
+ * @param options.endDate - Last day (YYYY-MM-DD), inclusive
+ * @param options.now - Tells an ongoing visit from a missing check-out
+ *
+ * @example
+ * buildTimesheet(visits, { startDate: '2026-10-19', endDate: '2026-10-25', dailyOvertimeHours: 8, weeklyOvertimeHours: 48 })
+ * // { days: [{ date: '2026-10-19', minutes: 570, regularMinutes: 480, overtimeMinutes: 90 }], ... }
+ */
+export function buildTimesheet(
+  visits: TimesheetVisit[],
+  {
+    startDate,
+    endDate,
+    dailyOvertimeHours,
+    weeklyOvertimeHours,
+    timezone = SCHEDULE_TIMEZONE,
+    now = new Date(),
+  }: {
+    startDate: string
+    endDate: string
+    dailyOvertimeHours: number
+    weeklyOvertimeHours: number
+    timezone?: string
+    now?: Date
+  },
+): Timesheet {
+  const { start: periodStart, end: periodEnd } = getCalendarRange(
+    startDate,
+    endDate,
+    timezone,
+  )
+  const dayOf = (date: Date) => toCalendarDay(date, timezone)
+
+  const intervals = mergeVisitIntervals(visits).flatMap((interval) => {
+    const start = interval.start < periodStart ? periodStart : interval.start
+    const end = interval.end > periodEnd ? periodEnd : interval.end
+    return start < end
+      ? [
+          {
+            ...interval,
+            start,
+            end,
+            minutes: Math.round((end.getTime() - start.getTime()) / MINUTE_MS),
+          },
+        ]
+      : []
+  })
+
+  // Time per day, intervals past midnight count on both days
+  const dayMs = new Map<string, number>()
+  for (const interval of intervals) {
+    let cursor = new TZDate(interval.start, timezone)
+    while (cursor < interval.end) {
+      const nextDay = addDays(startOfDay(cursor), 1)
+      const segmentEnd = nextDay < interval.end ? nextDay : interval.end
+      const date = dayOf(cursor)
+      dayMs.set(
+        date,
+        (dayMs.get(date) ?? 0) + segmentEnd.getTime() - cursor.getTime(),
+      )
+      cursor = new TZDate(segmentEnd, timezone)
+    }
+  }
+
+  const dailyThreshold = Math.round(dailyOvertimeHours * 60)
+  const days = [...dayMs.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, ms]) => {
+      const minutes = Math.round(ms / MINUTE_MS)
+      const regularMinutes = Math.min(minutes, dailyThreshold)
+      return {
+        date,
+        minutes,
+        regularMinutes,
+        overtimeMinutes: minutes - regularMinutes,
+      }
+    })
+
+  const weeklyThreshold = Math.round(weeklyOvertimeHours * 60)
+  const weekDays = new Map<string, typeof days>()
+  for (const day of days) {
+    const { start: dayStart } = getCalendarRange(day.date, day.date, timezone)
+    const weekStart = format(
+      startOfWeek(new TZDate(dayStart, timezone), { weekStartsOn: 1 }),
+      'yyyy-MM-dd',
+    )
+    weekDays.set(weekStart, [...(weekDays.get(weekStart) ?? []), day])
+  }
+
+  const weeks = [...weekDays.entries()].map(([weekStart, daysOfWeek]) => {
+    const totals = sumTotals(daysOfWeek)
+    const weeklyOvertime = Math.max(0, totals.regularMinutes - weeklyThreshold)
+    return {
+      weekStart,
+      minutes: totals.minutes,
+      regularMinutes: totals.regularMinutes - weeklyOvertime,
+      overtimeMinutes: totals.overtimeMinutes + weeklyOvertime,
+    }
+  })
+
+  const unpaired = visits
+    .filter((visit) => !visit.checkedOutAt && visit.checkedInAt < periodEnd)
+    .sort((a, b) => a.checkedInAt.getTime() - b.checkedInAt.getTime())
+    .map((visit) => ({
+      visitId: visit.id,
+      taskId: visit.taskId,
+      checkedInAt: visit.checkedInAt,
+      ongoing: dayOf(visit.checkedInAt) === dayOf(now),
+    }))
+
+  return { intervals, days, weeks, totals: sumTotals(weeks), unpaired }
+}
+
+function sumTotals(rows: TimesheetTotals[]): TimesheetTotals {
+  return rows.reduce(
+    (sum, row) => ({
+      minutes: sum.minutes + row.minutes,
+      regularMinutes: sum.regularMinutes + row.regularMinutes,
+      overtimeMinutes: sum.overtimeMinutes + row.overtimeMinutes,
+    }),
+    { minutes: 0, regularMinutes: 0, overtimeMinutes: 0 },
+  )
+}
@@ -0,0 +1,146 @@
+/**
+ * Travel legs between jobs, for mileage reimbursement
+ *
+ * A worker's check-ins and check-outs of a day, in order, tell where they
+ * left and where they arrived next. Distances are straight lines, scaled by a
+ * road multiplier since roads are never straight.
+ */
+import { TZDate } from '@date-fns/tz'
+import { format } from 'date-fns'
+import { calculateDistance } from './geo'
+import { SCHEDULE_TIMEZONE } from './scheduling'
+
+type Position = { lat: number; lng: number }
+
+export type TravelVisit = {
+  taskId: number
+  checkedInAt: Date
+  checkedOutAt: Date | null
+  checkInGeoLocation: Position | null
+  checkOutGeoLocation: Position | null
+}
+
+export type TravelLeg = {
+  /** Day of the leg (YYYY-MM-DD in the timezone) */
+  date: string
+  fromTaskId: number
+  toTaskId: number
+  departedAt: Date
+  arrivedAt: Date
+  from: Position
+  to: Position
+  straightLineMeters: number
+  /** Straight line scaled by the road multiplier */
+  distanceMeters: number
+  /** Time between leaving and arriving, stops on the way included */
+  travelMinutes: number
+}
+
+type TravelEvent = {
+  type: 'CHECK_IN' | 'CHECK_OUT'
+  taskId: number
+  at: Date
+  position: Position
+}
+
+/**
+ * Travel legs of one worker from their visits
+ *
+ * A leg ends at each check-in and starts at the worker's previous event of the
+ * same day: the check-out of the previous job, or its check-in when they left
+ * without checking out. The first check-in of a day has no leg (the trip from
+ * home is not tracked), nor do events without a location.
+ *
+ * @param visits - One worker's visits, in any order
+ * @param options.roadDistanceMultiplier - Road distance / straight line (>= 1)
+ * @param options.timezone - Timezone of the days
+ * @returns Legs in chronological order
+ *
+ * @example
+ * buildTravelLegs(visits, { roadDistanceMultiplier: 1.3 })
+ * // [{ date: '2026-10-19', fromTaskId: 1, toTaskId: 2, distanceMeters: 5200, travelMinutes: 25, ... }]
+ */
+export function buildTravelLegs(
+  visits: TravelVisit[],
+  {
+    roadDistanceMultiplier = 1,
+    timezone = SCHEDULE_TIMEZONE,
+  }: { roadDistanceMultiplier?: number; timezone?: string } = {},
+): TravelLeg[] {
+  const events: TravelEvent[] = visits
+    .flatMap((visit): TravelEvent[] => [
+      ...(visit.checkInGeoLocation
+        ? [
+            {
+              type: 'CHECK_IN' as const,
+              taskId: visit.taskId,
+              at: visit.checkedInAt,
+              position: visit.checkInGeoLocation,
+            },
+          ]
+        : []),
+      ...(visit.checkedOutAt && visit.checkOutGeoLocation
+        ? [
+            {
+              type: 'CHECK_OUT' as const,
+              taskId: visit.taskId,
+              at: visit.checkedOutAt,
+              position: visit.checkOutGeoLocation,
+            },
+          ]
+        : []),
+    ])
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+
+  const dayOf = (date: Date) => format(new TZDate(date, timezone), 'yyyy-MM-dd')
+
+  return events.flatMap((event, index): TravelLeg[] => {
+    const previous = events[index - 1]
+    if (
+      event.type !== 'CHECK_IN' ||
+      !previous ||
+      dayOf(previous.at) !== dayOf(event.at)
+    ) {
+      return []
+    }
+
+    const straightLineMeters = calculateDistance(
+      previous.position.lat,
+      previous.position.lng,
+      event.position.lat,
+      event.position.lng,
+    )
+
+    return [
+      {
+        date: dayOf(event.at),
+        fromTaskId: previous.taskId,
+        toTaskId: event.taskId,
+        departedAt: previous.at,
+        arrivedAt: event.at,
+        from: previous.position,
+        to: event.position,
+        straightLineMeters: Math.round(straightLineMeters),
+        distanceMeters: Math.round(straightLineMeters * roadDistanceMultiplier),
+        travelMinutes: Math.round(
+          (event.at.getTime() - previous.at.getTime()) / 60_000,
+        ),
+      },
+    ]
+  })
+}
+
+/**
+ * Totals of travel legs
+ *
+ * @returns Distance in km (one decimal) and travel time in minutes
+ */
+export function summarizeTravelLegs(legs: TravelLeg[]) {
+  const meters = legs.reduce((sum, leg) => sum + leg.distanceMeters, 0)
+
+  return {
+    legCount: legs.length,
+    distanceKm: Math.round(meters / 100) / 10,
+    travelMinutes: legs.reduce((sum, leg) => sum + leg.travelMinutes, 0),
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Working day utilities (working weekdays minus public holidays) for SLA
+ * deadlines, recurring schedules and the expected working days of reports
+ */
+
+import { TZDate } from '@date-fns/tz'
+import { addDays, differenceInCalendarDays, format, getISODay } from 'date-fns'
+import {
+  getCalendarRange,
+  SCHEDULE_TIMEZONE,
+  toCalendarDay,
+} from './scheduling'
+
+export type WorkingCalendar = {
+  // ISO weekdays worked (1 = Monday ... 7 = Sunday)
+  workingWeekdays: number[]
+  // Public holidays (YYYY-MM-DD)
+  holidays: Set<string>
+}
+
+// Stops the search when no weekday is worked (misconfigured settings)
+const MAX_SEARCH_DAYS = 366
+
+function toZonedDay(date: string, timezone: string) {
+  const [year, month, day] = date.split('-').map(Number)
+  return new TZDate(year, month - 1, day, timezone)
+}
+
+function shiftDay(date: string, amount: number, timezone = SCHEDULE_TIMEZONE) {
+  return format(addDays(toZonedDay(date, timezone), amount), 'yyyy-MM-dd')
+}
+
+/**
+ * Check whether a calendar day is worked: a working weekday that is not a
+ * public holiday
+ */
+export function isWorkingDay(
+  date: string,
+  calendar: WorkingCalendar,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  const weekday = getISODay(toZonedDay(date, timezone))
+  return (
+    calendar.workingWeekdays.includes(weekday) && !calendar.holidays.has(date)
+  )
+}
+
+/**
+ * Get the working days between two days (inclusive)
+ *
+ * @example
+ * // Monday to Saturday worked, Thursday 2026-01-01 is a holiday
+ * getWorkingDays('2026-01-01', '2026-01-04', calendar)
+ * // ['2026-01-02', '2026-01-03']
+ */
+export function getWorkingDays(
+  from: string,
+  to: string,
+  calendar: WorkingCalendar,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  return getCalendarRange(from, to, timezone).days.filter((day) =>
+    isWorkingDay(day, calendar, timezone),
+  )
+}
+
+/**
+ * Get the first working day on or after a day
+ *
+ * @returns The day itself when no working day is found (nothing is worked)
+ */
+export function getNextWorkingDay(
+  date: string,
+  calendar: WorkingCalendar,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = shiftDay(date, offset, timezone)
+    if (isWorkingDay(day, calendar, timezone)) {
+      return day
+    }
+  }
+  return date
+}
+
+/**
+ * Get the day that comes a number of working days after a day (the day
+ * itself is not counted)
+ *
+ * @example
+ * // Monday to Saturday worked, Tết from 2026-02-16 to 2026-02-20
+ * addWorkingDays('2026-02-13', 2, calendar) // '2026-02-21'
+ */
+export function addWorkingDays(
+  date: string,
+  amount: number,
+  calendar: WorkingCalendar,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  let day = date
+  for (let counted = 0; counted < amount; counted++) {
+    day = getNextWorkingDay(shiftDay(day, 1, timezone), calendar, timezone)
+  }
+  return day
+}
+
+/**
+ * Move an instant to the next working day, keeping the local wall-clock
+ * time (a recurring visit at 09:00 on Tết moves to 09:00 after Tết)
+ */
+export function moveToWorkingDay(
+  instant: Date,
+  calendar: WorkingCalendar,
+  timezone = SCHEDULE_TIMEZONE,
+) {
+  const day = toCalendarDay(instant, timezone)
+  const workingDay = getNextWorkingDay(day, calendar, timezone)
+  if (workingDay === day) {
+    return instant
+  }
+
+  const offset = differenceInCalendarDays(
+    toZonedDay(workingDay, timezone),
+    toZonedDay(day, timezone),
+  )
+  return new Date(addDays(new TZDate(instant, timezone), offset).getTime())
+}
+
+/**
+ * Get the last instant of a calendar day (the end of an SLA deadline day)
+ */
+export function getEndOfDay(date: string, timezone = SCHEDULE_TIMEZONE) {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(
+    new TZDate(year, month - 1, day, 23, 59, 59, 999, timezone).getTime(),
+  )
+}
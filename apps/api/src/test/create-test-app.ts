@@ -0,0 +1,86 @@
+import type { User } from '@clerk/backend'
+import { Hono } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import accountApp from '../v1/account/account.route'
+import activityApp from '../v1/activity/activity.route'
+import attachmentApp from '../v1/attachment/attachment.route'
+import attendanceApp from '../v1/attendance/attendance.route'
+import checklistApp from '../v1/checklist/checklist.route'
+import cronApp from '../v1/cron/cron.route'
+import dispatchApp from '../v1/dispatch/dispatch.route'
+import holidayApp from '../v1/holiday/holiday.route'
+import leaveApp from '../v1/leave/leave.route'
+import locationApp from '../v1/location/location.route'
+import paymentApp from '../v1/payment/payment.route'
+import reportApp from '../v1/reports/report.route'
+import settingsApp from '../v1/settings/settings.route'
+import skillApp from '../v1/skill/skill.route'
+import taskApp from '../v1/task/task.route'
+import taskEventsApp from '../v1/task-events/task-event.route'
+import taskEventFlagApp from '../v1/task-events/task-event-flag.route'
+import taskScheduleApp from '../v1/task-schedule/task-schedule.route'
+import teamApp from '../v1/team/team.route'
+import userApp from '../v1/user/user.route'
+import type { MockUser } from './mock-auth'
+
+/**
+ * Stand-in for the Clerk auth middleware: signs every request in as `user`,
+ * or answers 401 like the real one when there is no user. The attachment
+ * view endpoint stays public, it authenticates with its own token.
+ */
+function mockAuth(user: MockUser | null) {
+  return createMiddleware(async (c, next) => {
+    if (c.req.path.startsWith('/v1/attachments/view/')) {
+      return next()
+    }
+
+    if (!user) {
+      c.set('userId', null)
+      c.set('user', null)
+      return c.json({ message: 'unauthorized' }, 401)
+    }
+
+    c.set('userId', user.id)
+    c.set('user', user as unknown as User)
+    await next()
+  })
+}
+
+/**
+ * The /v1 API as mounted in src/v1/index.ts, with the signed in user mocked
+ *
+ * @example
+ * const app = createTestAppWithAuth(createMockAdminUser())
+ * const res = await app.request('/v1/task')
+ */
+export function createTestAppWithAuth(user: MockUser | null) {
+  const v1 = new Hono()
+    .route('/cron', cronApp)
+    .use('*', mockAuth(user))
+    .route('/account', accountApp)
+    .route('/activity', activityApp)
+    .route('/task', taskApp)
+    .route('/task', taskEventsApp)
+    .route('/task-events', taskEventFlagApp)
+    .route('/task-schedule', taskScheduleApp)
+    .route('/dispatch', dispatchApp)
+    .route('/location', locationApp)
+    .route('/attendance', attendanceApp)
+    .route('/leave', leaveApp)
+    .route('/holiday', holidayApp)
+    .route('/team', teamApp)
+    .route('/skill', skillApp)
+    .route('/checklist-template', checklistApp)
+    .route('/payment', paymentApp)
+    .route('/user', userApp)
+    .route('/attachments', attachmentApp)
+    .route('/reports', reportApp)
+    .route('/settings', settingsApp)
+
+  return new Hono().route('/v1', v1)
+}
+
+/** Same as createTestAppWithAuth, for a signed in user */
+export function createTestApp(user: MockUser) {
+  return createTestAppWithAuth(user)
+}
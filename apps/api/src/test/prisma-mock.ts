@@ -20,11 +20,32 @@ export interface MockPrismaClient {
   $connect: jest.MockedFunction<any>
   $disconnect: jest.MockedFunction<any>
   $executeRaw: jest.MockedFunction<any>
+  $queryRaw: jest.MockedFunction<any>
   customer: MockedModel
   geoLocation: MockedModel
   task: MockedModel & { findUnique: jest.MockedFunction<any> }
   activity: MockedModel
   attachment: MockedModel
+  taskSchedule: MockedModel & { findUnique: jest.MockedFunction<any> }
+  checklistTemplateItem: MockedModel
+  taskChecklistItem: MockedModel
+  taskHold: MockedModel
+  taskVisit: MockedModel & { findUnique: jest.MockedFunction<any> }
+  locationPoint: MockedModel
+  taskEventFlag: MockedModel & { findUnique: jest.MockedFunction<any> }
+  attendance: MockedModel & { findUnique: jest.MockedFunction<any> }
+  leaveRequest: MockedModel & { findUnique: jest.MockedFunction<any> }
+  holiday: MockedModel & { findUnique: jest.MockedFunction<any> }
+  team: MockedModel
+  skill: MockedModel
+  workerCertificate: MockedModel & {
+    findUnique: jest.MockedFunction<any>
+    upsert: jest.MockedFunction<any>
+  }
+  appSettings: MockedModel & {
+    findUnique: jest.MockedFunction<any>
+    upsert: jest.MockedFunction<any>
+  }
 }
 
 function createModelMock(
@@ -56,11 +77,30 @@ export function createMockPrismaClient(): MockPrismaClient {
     $connect: jest.fn(),
     $disconnect: jest.fn(),
     $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
     customer: createModelMock(),
     geoLocation: createModelMock(),
     task: { ...createModelMock(true, true), findUnique: jest.fn() },
     activity: createModelMock(),
     attachment: createModelMock(),
+    taskSchedule: { ...createModelMock(true, true), findUnique: jest.fn() },
+    checklistTemplateItem: createModelMock(),
+    taskChecklistItem: createModelMock(),
+    taskHold: createModelMock(false, true),
+    taskVisit: { ...createModelMock(false, true), findUnique: jest.fn() },
+    locationPoint: createModelMock(),
+    taskEventFlag: { ...createModelMock(true), findUnique: jest.fn() },
+    attendance: { ...createModelMock(true), findUnique: jest.fn() },
+    leaveRequest: { ...createModelMock(true), findUnique: jest.fn() },
+    holiday: { ...createModelMock(true), findUnique: jest.fn() },
+    team: createModelMock(),
+    skill: createModelMock(),
+    workerCertificate: {
+      ...createModelMock(true),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    appSettings: { ...createModelMock(true), upsert: jest.fn() },
   } as MockPrismaClient
 
   // Setup default transaction behavior
@@ -515,4 +515,42 @@ describe('softDeleteAttachment', () => {
       }),
     ).rejects.toMatchObject({ message: 'FORBIDDEN', status: 403 })
   })
+
+  it('rejects when the uploader deletes their attendance selfie', async () => {
+    const worker = createMockWorkerUser({ id: 'user_uploader' })
+    const now = new Date()
+
+    mockPrisma.attachment.findFirst!.mockResolvedValue({
+      id: 'att_1',
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      taskId: null,
+      provider: 'local-disk',
+      url: null,
+      pathname: 'path/to/selfie.jpg',
+      size: 1024,
+      mimeType: 'image/jpeg',
+      originalFilename: 'selfie.jpg',
+      fileHash: null,
+      uploadedBy: 'user_uploader',
+      thumbnailPathname: null,
+      blurhash: null,
+      width: null,
+      height: null,
+      task: null,
+      attendanceClockIn: { id: 'attendance_1' },
+      attendanceClockOut: null,
+      workerCertificate: null,
+    })
+
+    const softDeleteAttachment = getService()
+    await expect(
+      softDeleteAttachment({
+        attachmentId: 'att_1',
+        user: worker as unknown as import('@clerk/backend').User,
+      }),
+    ).rejects.toMatchObject({ message: 'FORBIDDEN', status: 403 })
+    expect(mockPrisma.attachment.update).not.toHaveBeenCalled()
+  })
 })
@@ -1,9 +1,16 @@
 import { describe, expect, it, jest } from '@jest/globals'
+import { createTestAppWithAuth } from '../../../test/create-test-app'
 import {
   createMockAdminUser,
   createMockWorkerUser,
 } from '../../../test/mock-auth'
-import { createTestAppWithAuth } from '../../../test/test-app'
+import { createMockPrismaClient } from '../../../test/prisma-mock'
+
+// No database in unit tests, tasks and attachments are never found
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
 
 function makeFile(name: string, type: string, size: number) {
   const blob = new Blob([new Uint8Array(size)], { type })
@@ -22,28 +22,27 @@ export interface UploadAttachmentInput {
   storage: StorageProvider
 }
 
-export async function uploadTaskAttachments({
-  taskId,
+/**
+ * Validate files against the upload limits and put them in storage
+ *
+ * Shared by the task attachments and the attendance selfies. Images get a
+ * blurhash placeholder.
+ *
+ * @param keyPrefix - Storage folder of the files, e.g. `tasks/12`
+ * @returns Attachment rows to create, without their owner
+ */
+async function storeFiles({
   files,
   user,
   storage,
-}: UploadAttachmentInput) {
-  const logger = getLogger('attachment.service:uploadTaskAttachments')
-  const prisma = getPrisma()
-
-  // Validate task exists and permission
-  const task = await prisma.task.findUnique({ where: { id: taskId } })
-  if (!task) {
-    throw new Error('TASK_NOT_FOUND')
-  }
-
-  const isAdmin = await isUserAdmin({ user })
-  const assigned = await isUserAssignedToTask({ user, task })
-  if (!isAdmin && !assigned) {
-    const err = new Error('FORBIDDEN') as Error & { status?: number }
-    err.status = 403
-    throw err
-  }
+  keyPrefix,
+}: {
+  files: File[]
+  user: User
+  storage: StorageProvider
+  keyPrefix: string
+}) {
+  const logger = getLogger('attachment.service:storeFiles')
 
   // Validate files
   if (files.length === 0) {
@@ -93,7 +92,7 @@ export async function uploadTaskAttachments({
   for (const file of files) {
     const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
     const date = new Date()
-    const key = `tasks/${taskId}/${date.getUTCFullYear()}/${
+    const key = `${keyPrefix}/${date.getUTCFullYear()}/${
       date.getUTCMonth() + 1
     }/${date.getUTCDate()}/${crypto.randomUUID()}-${safeName}`
 
@@ -127,17 +126,9 @@ export async function uploadTaskAttachments({
 
   // Create attachment records with blurhash for images only
   const toCreate: Array<Prisma.AttachmentCreateManyInput> = []
-  const uploaded: Array<{
-    provider: string
-    pathname: string
-    mimeType: string
-    size: number
-    originalFilename: string
-  }> = []
 
   for (const info of fileInfos) {
     const baseData = {
-      taskId,
       provider: storage.name,
       pathname: info.key,
       mimeType: info.file.type,
@@ -167,14 +158,6 @@ export async function uploadTaskAttachments({
       }
     }
 
-    uploaded.push({
-      provider: storage.name,
-      pathname: info.key,
-      mimeType: info.file.type,
-      size: info.file.size,
-      originalFilename: info.file.name,
-    })
-
     toCreate.push({
       ...baseData,
       blurhash: blurhashData?.blurhash,
@@ -183,6 +166,36 @@ export async function uploadTaskAttachments({
     })
   }
 
+  return toCreate
+}
+
+export async function uploadTaskAttachments({
+  taskId,
+  files,
+  user,
+  storage,
+}: UploadAttachmentInput) {
+  const logger = getLogger('attachment.service:uploadTaskAttachments')
+  const prisma = getPrisma()
+
+  // Validate task exists and permission
+  const task = await prisma.task.findUnique({ where: { id: taskId } })
+  if (!task) {
+    throw new Error('TASK_NOT_FOUND')
+  }
+
+  const isAdmin = await isUserAdmin({ user })
+  const assigned = await isUserAssignedToTask({ user, task })
+  if (!isAdmin && !assigned) {
+    const err = new Error('FORBIDDEN') as Error & { status?: number }
+    err.status = 403
+    throw err
+  }
+
+  const toCreate = (
+    await storeFiles({ files, user, storage, keyPrefix: `tasks/${taskId}` })
+  ).map((data) => ({ ...data, taskId }))
+
   const result = await prisma.$transaction(async (tx) => {
     await tx.attachment.createMany({ data: toCreate })
 
@@ -190,7 +203,7 @@ export async function uploadTaskAttachments({
     const attachments = await tx.attachment.findMany({
       where: { taskId },
       orderBy: { createdAt: 'desc' },
-      take: uploaded.length,
+      take: toCreate.length,
     })
 
     // Create activity with attachment IDs for frontend display
@@ -220,6 +233,60 @@ export async function uploadTaskAttachments({
   return result
 }
 
+/**
+ * Upload a worker's attendance selfie (not linked to a task)
+ *
+ * @returns The attachment, to link to the attendance
+ */
+export async function uploadAttendancePhoto({
+  file,
+  user,
+  storage,
+}: {
+  file: File
+  user: User
+  storage: StorageProvider
+}) {
+  const prisma = getPrisma()
+
+  const [data] = await storeFiles({
+    files: [file],
+    user,
+    storage,
+    keyPrefix: `attendance/${user.id}`,
+  })
+
+  return prisma.attachment.create({ data })
+}
+
+/**
+ * Upload a worker's scanned certificate (not linked to a task)
+ *
+ * @returns The attachment, to link to the certificate
+ */
+export async function uploadCertificateScan({
+  file,
+  userId,
+  user,
+  storage,
+}: {
+  file: File
+  userId: string
+  user: User
+  storage: StorageProvider
+}) {
+  const prisma = getPrisma()
+
+  const [data] = await storeFiles({
+    files: [file],
+    user,
+    storage,
+    keyPrefix: `certificates/${userId}`,
+  })
+
+  return prisma.attachment.create({ data })
+}
+
 /**
  * Get attachments by IDs and resolve signed URLs
  */
@@ -488,7 +555,8 @@ export async function streamLocalFile({
 
 /**
  * Soft delete an attachment by ID
- * Only the uploader or an admin can delete an attachment
+ * Only the uploader or an admin can delete an attachment; attendance selfies
+ * and certificate scans are records, only an admin can delete them
  */
 export async function softDeleteAttachment({
   attachmentId,
@@ -503,18 +571,27 @@ export async function softDeleteAttachment({
   // Find the attachment
   const attachment = await prisma.attachment.findFirst({
     where: { id: attachmentId, deletedAt: null },
-    include: { task: true },
+    include: {
+      task: true,
+      attendanceClockIn: { select: { id: true } },
+      attendanceClockOut: { select: { id: true } },
+      workerCertificate: { select: { id: true } },
+    },
   })
 
   if (!attachment) {
     throw new Error('ATTACHMENT_NOT_FOUND')
   }
 
-  // Check permissions: user must be admin or the uploader
+  // Check permissions: user must be admin or the uploader of a plain attachment
   const isAdmin = await isUserAdmin({ user })
   const isUploader = attachment.uploadedBy === user.id
+  const isRecord =
+    !!attachment.attendanceClockIn ||
+    !!attachment.attendanceClockOut ||
+    !!attachment.workerCertificate
 
-  if (!isAdmin && !isUploader) {
+  if (!isAdmin && (!isUploader || isRecord)) {
     const err = new Error('FORBIDDEN') as Error & { status?: number }
     err.status = 403
     throw err
@@ -0,0 +1,194 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+// Mock selfie upload
+const mockUploadAttendancePhoto = jest.fn()
+jest.mock('../../attachment/attachment.service', () => ({
+  uploadAttendancePhoto: mockUploadAttendancePhoto,
+}))
+
+import {
+  clockIn,
+  clockOut,
+  getAttendanceGrid,
+  getTodayAttendance,
+} from '../attendance.service'
+
+function createClerkClient(users) {
+  return {
+    users: {
+      getCount: jest.fn().mockResolvedValue(users.length),
+      getUserList: jest.fn().mockResolvedValue({ data: users }),
+    },
+  }
+}
+
+describe('attendance.service', () => {
+  const worker = createMockWorkerUser({ id: 'worker_1' })
+  const storage = { name: 'mock-storage', put: jest.fn() }
+  const selfie = new File([new Uint8Array(10)], 'selfie.jpg', {
+    type: 'image/jpeg',
+  })
+  const data = { latitude: 10.7762, longitude: 106.6297, selfie }
+  // 2026-10-20 07:55 in Asia/Ho_Chi_Minh (a Tuesday)
+  const now = new Date('2026-10-20T00:55:00Z')
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockUploadAttendancePhoto.mockReset()
+    mockUploadAttendancePhoto.mockResolvedValue({ id: 'att_1' })
+    mockPrisma.geoLocation.create.mockResolvedValue({ id: 'geo_1' })
+    mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+    mockPrisma.holiday.findMany.mockResolvedValue([])
+  })
+
+  describe('clockIn', () => {
+    it('should record the day with the location and the selfie', async () => {
+      mockPrisma.attendance.findUnique.mockResolvedValue(null)
+      mockPrisma.attendance.create.mockResolvedValue({ id: 'attend_1' })
+
+      await clockIn({ user: worker, data, storage, now })
+
+      expect(mockUploadAttendancePhoto).toHaveBeenCalledWith({
+        file: selfie,
+        user: worker,
+        storage,
+      })
+      expect(mockPrisma.geoLocation.create).toHaveBeenCalledWith({
+        data: { lat: 10.7762, lng: 106.6297 },
+      })
+      expect(mockPrisma.attendance.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            userId: 'worker_1',
+            date: '2026-10-20',
+            clockInAt: now,
+            clockInGeoLocationId: 'geo_1',
+            clockInPhotoId: 'att_1',
+          },
+        }),
+      )
+    })
+
+    it('should reject a second clock-in on the same day', async () => {
+      mockPrisma.attendance.findUnique.mockResolvedValue({ id: 'attend_1' })
+
+      await expect(
+        clockIn({ user: worker, data, storage, now }),
+      ).rejects.toMatchObject({ status: 400 })
+      expect(mockUploadAttendancePhoto).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('clockOut', () => {
+    it('should close the day with the location and the selfie', async () => {
+      mockPrisma.attendance.findUnique.mockResolvedValue({
+        id: 'attend_1',
+        clockOutAt: null,
+      })
+      mockPrisma.attendance.update.mockResolvedValue({ id: 'attend_1' })
+
+      await clockOut({ user: worker, data, storage, now })
+
+      expect(mockPrisma.attendance.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'attend_1' },
+          data: {
+            clockOutAt: now,
+            clockOutGeoLocationId: 'geo_1',
+            clockOutPhotoId: 'att_1',
+          },
+        }),
+      )
+    })
+
+    it('should reject a clock-out without a clock-in or twice', async () => {
+      for (const existing of [null, { id: 'attend_1', clockOutAt: now }]) {
+        mockPrisma.attendance.findUnique.mockResolvedValue(existing)
+
+        await expect(
+          clockOut({ user: worker, data, storage, now }),
+        ).rejects.toMatchObject({ status: 400 })
+      }
+      expect(mockPrisma.attendance.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getTodayAttendance', () => {
+    it('should be pending before the grace has passed', async () => {
+      mockPrisma.attendance.findUnique.mockResolvedValue(null)
+      mockPrisma.appSettings.findUnique.mockResolvedValue(null)
+
+      const today = await getTodayAttendance({ user: worker, now })
+
+      expect(today).toEqual({
+        date: '2026-10-20',
+        status: 'PENDING',
+        attendance: null,
+      })
+    })
+  })
+
+  describe('getAttendanceGrid', () => {
+    it('should list active workers with a status per day', async () => {
+      const clerkClient = createClerkClient([
+        createMockWorkerUser({
+          id: 'worker_1',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+        createMockWorkerUser({
+          id: 'worker_2',
+          banned: true,
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+        createMockAdminUser({ id: 'admin_1' }),
+      ])
+      mockPrisma.attendance.findMany.mockResolvedValue([
+        {
+          userId: 'worker_1',
+          date: '2026-10-19',
+          clockInAt: new Date('2026-10-19T01:30:00Z'),
+          clockOutAt: new Date('2026-10-19T10:00:00Z'),
+          clockInPhotoId: 'att_1',
+          clockOutPhotoId: 'att_2',
+        },
+      ])
+      mockPrisma.appSettings.findUnique.mockResolvedValue(null)
+
+      const grid = await getAttendanceGrid({
+        clerkClient,
+        from: '2026-10-18',
+        to: '2026-10-20',
+        now: new Date('2026-10-20T03:00:00Z'),
+      })
+
+      expect(grid.days).toEqual(['2026-10-18', '2026-10-19', '2026-10-20'])
+      expect(grid.workers.map((row) => row.id)).toEqual(['worker_1'])
+      expect(grid.workers[0].days.map((cell) => cell.status)).toEqual([
+        'DAY_OFF',
+        'LATE',
+        'ABSENT',
+      ])
+      expect(mockPrisma.attendance.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: { in: ['worker_1'] },
+          date: { gte: '2026-10-18', lte: '2026-10-20' },
+        },
+      })
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import {
+  zAttendanceClockInput,
+  zAttendanceGridQuery,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getStorageProvider } from '../../lib/storage/get-storage-provider'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserViewAttendanceGrid,
+  clockIn,
+  clockOut,
+  getAttendanceGrid,
+  getTodayAttendance,
+} from './attendance.service'
+
+/**
+ * Attendance Router - workday clock-in / clock-out independent of tasks
+ *
+ * Mounted at: /v1/attendance
+ */
+const router = new Hono()
+  /**
+   * GET /v1/attendance/today
+   *
+   * The current user's attendance today
+   *
+   * Response:
+   * - date: Today (YYYY-MM-DD, Asia/Ho_Chi_Minh)
+   * - status: PRESENT | LATE | ABSENT | DAY_OFF | ON_LEAVE
+   *   | PENDING
+   * - attendance: Clock-in / clock-out with their locations, null before
+   *   clock-in
+   */
+  .get('/today', async (c) => {
+    const logger = getLogger('attendance.route:getToday')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const today = await getTodayAttendance({ user })
+      return c.json(today)
+    } catch (error) {
+      logger.error({ error, userId: user.id }, 'Failed to load attendance')
+      throw new HTTPException(500, {
+        message: 'Không thể tải chấm công hôm nay. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * POST /v1/attendance/clock-in
+   *
+   * Start the current user's workday
+   *
+   * Body (multipart/form-data):
+   * - latitude, longitude: Position of the device
+   * - selfie: Photo from the front camera (image)
+   *
+   * Response: The attendance (201)
+   */
+  .post('/clock-in', zValidator('form', zAttendanceClockInput), async (c) => {
+    const logger = getLogger('attendance.route:clockIn')
+    const user = getAuthUserStrict(c)
+    const data = c.req.valid('form')
+
+    try {
+      const attendance = await clockIn({
+        user,
+        data,
+        storage: getStorageProvider(),
+      })
+      return c.json(attendance, 201)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+
+      // Selfie rejected by the upload (e.g. type or size)
+      if ((error as { status?: number } | null)?.status === 400) {
+        throw new HTTPException(400, {
+          message: (error as Error).message,
+          cause: error,
+        })
+      }
+
+      logger.error({ error, userId: user.id }, 'Clock-in failed')
+      throw new HTTPException(500, {
+        message: 'Không thể chấm công vào. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * POST /v1/attendance/clock-out
+   *
+   * End the current user's workday
+   *
+   * Body (multipart/form-data):
+   * - latitude, longitude: Position of the device
+   * - selfie: Photo from the front camera (image)
+   *
+   * Response: The attendance
+   */
+  .post('/clock-out', zValidator('form', zAttendanceClockInput), async (c) => {
+    const logger = getLogger('attendance.route:clockOut')
+    const user = getAuthUserStrict(c)
+    const data = c.req.valid('form')
+
+    try {
+      const attendance = await clockOut({
+        user,
+        data,
+        storage: getStorageProvider(),
+      })
+      return c.json(attendance)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+
+      // Selfie rejected by the upload (e.g. type or size)
+      if ((error as { status?: number } | null)?.status === 400) {
+        throw new HTTPException(400, {
+          message: (error as Error).message,
+          cause: error,
+        })
+      }
+
+      logger.error({ error, userId: user.id }, 'Clock-out failed')
+      throw new HTTPException(500, {
+        message: 'Không thể chấm công ra. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/attendance/grid
+   *
+   * Present, late and absent days of the active workers (admin only)
+   *
+   * Query Parameters:
+   * - from, to: Inclusive days (YYYY-MM-DD, Asia/Ho_Chi_Minh), max 31 days
+   *
+   * Response:
+   * - days: The columns
+   * - policy: { workingWeekdays, workdayStartTime, attendanceGraceMinutes }
+   * - holidays: [{ date, name }] Public holidays among the days (days off)
+   * - workers: [{ id, firstName, lastName, imageUrl, days: [{ date, status,
+   *   clockInAt, clockOutAt, clockInPhotoId, clockOutPhotoId }], totals }]
+   */
+  .get('/grid', zValidator('query', zAttendanceGridQuery), async (c) => {
+    const logger = getLogger('attendance.route:getGrid')
+    const user = getAuthUserStrict(c)
+    const clerkClient = c.get('clerk')
+    const query = c.req.valid('query')
+
+    if (!(await canUserViewAttendanceGrid({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể xem bảng chấm công.',
+        cause: 'Permission denied',
+      })
+    }
+
+    try {
+      const grid = await getAttendanceGrid({ clerkClient, ...query })
+      return c.json(grid)
+    } catch (error) {
+      logger.error({ error, ...query }, 'Failed to load attendance grid')
+      throw new HTTPException(500, {
+        message: 'Không thể tải bảng chấm công. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+
+export default router
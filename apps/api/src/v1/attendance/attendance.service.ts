@@ -0,0 +1,293 @@
+import type { ClerkClient, User } from '@clerk/backend'
+import type { Prisma } from '@nv-internal/prisma-client'
+import {
+  type AttendanceClockInput,
+  type AttendanceGridQuery,
+  UserRole,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import {
+  type AttendancePolicy,
+  buildAttendanceGrid,
+  getAttendanceStatus,
+} from '../../lib/attendance'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import {
+  getCalendarRange,
+  SCHEDULE_TIMEZONE,
+  toCalendarDay,
+} from '../../lib/scheduling'
+import type { StorageProvider } from '../../lib/storage/storage.types'
+import { uploadAttendancePhoto } from '../attachment/attachment.service'
+import { findHolidays } from '../holiday/holiday.service'
+import { findApprovedLeaves } from '../leave/leave.service'
+import { getAppSettings } from '../settings/settings.service'
+import {
+  doesUserHaveRole,
+  getAllUsers,
+  isUserAdmin,
+} from '../user/user.service'
+
+const ATTENDANCE_INCLUDE = {
+  clockInGeoLocation: true,
+  clockOutGeoLocation: true,
+} satisfies Prisma.AttendanceInclude
+
+/** A worker has at most one attendance per day */
+const attendanceOfDay = (userId: string, date: string) =>
+  ({
+    // biome-ignore lint/style/useNamingConvention: Prisma compound unique key
+    userId_date: { userId, date },
+  }) satisfies Prisma.AttendanceWhereUniqueInput
+
+export async function canUserViewAttendanceGrid({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+async function getAttendancePolicy(): Promise<AttendancePolicy> {
+  const { workingWeekdays, workdayStartTime, attendanceGraceMinutes } =
+    await getAppSettings()
+
+  return { workingWeekdays, workdayStartTime, attendanceGraceMinutes }
+}
+
+/**
+ * Start the current user's workday
+ *
+ * Independent of tasks, so warehouse and training days count too. The
+ * selfie goes to the same storage as the task attachments.
+ *
+ * @throws HTTPException 400 when the user already clocked in today
+ */
+export async function clockIn({
+  user,
+  data,
+  storage,
+  now = new Date(),
+}: {
+  user: User
+  data: AttendanceClockInput
+  storage: StorageProvider
+  now?: Date
+}) {
+  const logger = getLogger('attendance.service:clockIn')
+  const prisma = getPrisma()
+  const date = toCalendarDay(now)
+
+  const existing = await prisma.attendance.findUnique({
+    where: attendanceOfDay(user.id, date),
+  })
+
+  if (existing) {
+    throw new HTTPException(400, {
+      message: 'Bạn đã chấm công vào hôm nay.',
+      cause: 'Already clocked in',
+    })
+  }
+
+  const photo = await uploadAttendancePhoto({
+    file: data.selfie,
+    user,
+    storage,
+  })
+
+  const attendance = await prisma.$transaction(async (tx) => {
+    const geoLocation = await tx.geoLocation.create({
+      data: { lat: data.latitude, lng: data.longitude },
+    })
+
+    return tx.attendance.create({
+      data: {
+        userId: user.id,
+        date,
+        clockInAt: now,
+        clockInGeoLocationId: geoLocation.id,
+        clockInPhotoId: photo.id,
+      },
+      include: ATTENDANCE_INCLUDE,
+    })
+  })
+
+  logger.info({ userId: user.id, date }, 'Clocked in')
+
+  return attendance
+}
+
+/**
+ * End the current user's workday
+ *
+ * @throws HTTPException 400 when the user has not clocked in today or
+ *   already clocked out
+ */
+export async function clockOut({
+  user,
+  data,
+  storage,
+  now = new Date(),
+}: {
+  user: User
+  data: AttendanceClockInput
+  storage: StorageProvider
+  now?: Date
+}) {
+  const logger = getLogger('attendance.service:clockOut')
+  const prisma = getPrisma()
+  const date = toCalendarDay(now)
+
+  const existing = await prisma.attendance.findUnique({
+    where: attendanceOfDay(user.id, date),
+  })
+
+  if (!existing) {
+    throw new HTTPException(400, {
+      message: 'Bạn chưa chấm công vào hôm nay.',
+      cause: 'Not clocked in',
+    })
+  }
+  if (existing.clockOutAt) {
+    throw new HTTPException(400, {
+      message: 'Bạn đã chấm công ra hôm nay.',
+      cause: 'Already clocked out',
+    })
+  }
+
+  const photo = await uploadAttendancePhoto({
+    file: data.selfie,
+    user,
+    storage,
+  })
+
+  const attendance = await prisma.$transaction(async (tx) => {
+    const geoLocation = await tx.geoLocation.create({
+      data: { lat: data.latitude, lng: data.longitude },
+    })
+
+    return tx.attendance.update({
+      where: { id: existing.id },
+      data: {
+        clockOutAt: now,
+        clockOutGeoLocationId: geoLocation.id,
+        clockOutPhotoId: photo.id,
+      },
+      include: ATTENDANCE_INCLUDE,
+    })
+  })
+
+  logger.info({ userId: user.id, date }, 'Clocked out')
+
+  return attendance
+}
+
+/**
+ * The current user's attendance today, for the home screen button
+ *
+ * @returns The day, its status and the attendance (null before clock-in)
+ */
+export async function getTodayAttendance({
+  user,
+  now = new Date(),
+}: {
+  user: User
+  now?: Date
+}) {
+  const prisma = getPrisma()
+  const date = toCalendarDay(now)
+
+  const [attendance, leaves, holidays] = await Promise.all([
+    prisma.attendance.findUnique({
+      where: attendanceOfDay(user.id, date),
+      include: ATTENDANCE_INCLUDE,
+    }),
+    findApprovedLeaves({ userIds: [user.id], from: date, to: date }),
+    findHolidays({ from: date, to: date }),
+  ])
+
+  return {
+    date,
+    status: getAttendanceStatus({
+      date,
+      clockInAt: attendance?.clockInAt,
+      onLeave: leaves.length > 0,
+      holiday: holidays.length > 0,
+      policy: await getAttendancePolicy(),
+      now,
+    }),
+    attendance,
+  }
+}
+
+/**
+ * Attendance of the active workers per day
+ *
+ * Workers are sorted by name. Days without a clock-in are absent on working
+ * days once the grace has passed, days off outside the working week and on
+ * public holidays, and leave days during an approved leave.
+ */
+export async function getAttendanceGrid({
+  clerkClient,
+  from,
+  to,
+  now = new Date(),
+}: AttendanceGridQuery & { clerkClient: ClerkClient; now?: Date }) {
+  const logger = getLogger('attendance.service:getAttendanceGrid')
+  const prisma = getPrisma()
+  const { days } = getCalendarRange(from, to)
+
+  const users = await getAllUsers({ clerkClient })
+  const workers = users
+    .filter(
+      (user) =>
+        !user.banned &&
+        doesUserHaveRole({ user, role: UserRole.nvInternalWorker }),
+    )
+    .sort((a, b) =>
+      `${a.lastName} ${a.firstName}`.localeCompare(
+        `${b.lastName} ${b.firstName}`,
+        'vi',
+      ),
+    )
+  const workerIds = workers.map((worker) => worker.id)
+
+  const [records, leaves, holidays, policy] = await Promise.all([
+    workerIds.length > 0
+      ? prisma.attendance.findMany({
+          where: { userId: { in: workerIds }, date: { gte: from, lte: to } },
+        })
+      : Promise.resolve([]),
+    findApprovedLeaves({ userIds: workerIds, from, to }),
+    findHolidays({ from, to }),
+    getAttendancePolicy(),
+  ])
+
+  const rows = buildAttendanceGrid({
+    days,
+    userIds: workerIds,
+    records,
+    leaves,
+    holidays: holidays.map((holiday) => holiday.date),
+    policy,
+    now,
+  })
+
+  logger.debug(
+    { from, to, workers: workers.length, records: records.length },
+    'Attendance grid loaded',
+  )
+
+  return {
+    from,
+    to,
+    timezone: SCHEDULE_TIMEZONE,
+    policy,
+    days,
+    holidays: holidays.map(({ date, name }) => ({ date, name })),
+    workers: workers.map((worker, index) => ({
+      id: worker.id,
+      firstName: worker.firstName,
+      lastName: worker.lastName,
+      imageUrl: worker.imageUrl,
+      ...rows[index],
+    })),
+  }
+}
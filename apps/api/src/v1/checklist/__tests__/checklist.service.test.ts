@@ -0,0 +1,171 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { createMockWorkerUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+// Mock activity creation
+const mockCreateActivity = jest.fn()
+jest.mock('../../activity/activity.service', () => ({
+  createActivity: mockCreateActivity,
+}))
+
+import {
+  copyChecklistTemplateToTask,
+  updateTaskChecklistItem,
+} from '../checklist.service'
+
+describe('checklist service', () => {
+  const worker = createMockWorkerUser()
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockCreateActivity.mockReset()
+  })
+
+  describe('copyChecklistTemplateToTask', () => {
+    it('should copy template items of the work type onto the task', async () => {
+      mockPrisma.checklistTemplateItem.findMany.mockResolvedValue([
+        {
+          id: 'chktpl_1',
+          workType: 'MAINTENANCE',
+          label: 'Vệ sinh lưới lọc',
+          required: true,
+          sortOrder: 1,
+        },
+        {
+          id: 'chktpl_2',
+          workType: 'MAINTENANCE',
+          label: 'Chụp ảnh trước/sau',
+          required: false,
+          sortOrder: 2,
+        },
+      ])
+
+      const count = await copyChecklistTemplateToTask(
+        { taskId: 7, workType: 'MAINTENANCE' },
+        mockPrisma,
+      )
+
+      expect(count).toBe(2)
+      expect(mockPrisma.checklistTemplateItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { workType: 'MAINTENANCE', deletedAt: null },
+        }),
+      )
+      expect(mockPrisma.taskChecklistItem.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: 7,
+            templateItemId: 'chktpl_1',
+            label: 'Vệ sinh lưới lọc',
+            required: true,
+            sortOrder: 1,
+          },
+          {
+            taskId: 7,
+            templateItemId: 'chktpl_2',
+            label: 'Chụp ảnh trước/sau',
+            required: false,
+            sortOrder: 2,
+          },
+        ],
+      })
+    })
+
+    it('should do nothing when the work type has no template', async () => {
+      mockPrisma.checklistTemplateItem.findMany.mockResolvedValue([])
+
+      const count = await copyChecklistTemplateToTask(
+        { taskId: 7, workType: 'REPAIR' },
+        mockPrisma,
+      )
+
+      expect(count).toBe(0)
+      expect(mockPrisma.taskChecklistItem.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateTaskChecklistItem', () => {
+    it('should store who checked the item and log an activity', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        id: 7,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+      })
+      mockPrisma.taskChecklistItem.findFirst.mockResolvedValue({
+        id: 'chk_1',
+        taskId: 7,
+        label: 'Vệ sinh lưới lọc',
+        checkedAt: null,
+      })
+      mockPrisma.taskChecklistItem.update.mockResolvedValue({
+        id: 'chk_1',
+        checkedBy: worker.id,
+      })
+
+      await updateTaskChecklistItem({
+        taskId: 7,
+        itemId: 'chk_1',
+        checked: true,
+        user: worker,
+      })
+
+      expect(mockPrisma.taskChecklistItem.update).toHaveBeenCalledWith({
+        where: { id: 'chk_1' },
+        data: { checkedAt: expect.any(Date), checkedBy: worker.id },
+      })
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        {
+          action: 'TASK_CHECKLIST_ITEM_CHECKED',
+          userId: worker.id,
+          topic: { entityType: 'TASK', entityId: 7 },
+          payload: { itemId: 'chk_1', label: 'Vệ sinh lưới lọc' },
+        },
+        mockPrisma,
+      )
+    })
+
+    it('should reject changes when the task is not in progress', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        id: 7,
+        status: 'READY',
+        assigneeIds: [worker.id],
+      })
+
+      await expect(
+        updateTaskChecklistItem({
+          taskId: 7,
+          itemId: 'chk_1',
+          checked: true,
+          user: worker,
+        }),
+      ).rejects.toMatchObject({ status: 400 })
+    })
+
+    it('should reject users who are not assigned to the task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        id: 7,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['someone_else'],
+      })
+
+      await expect(
+        updateTaskChecklistItem({
+          taskId: 7,
+          itemId: 'chk_1',
+          checked: true,
+          user: worker,
+        }),
+      ).rejects.toMatchObject({ status: 403 })
+    })
+  })
+})
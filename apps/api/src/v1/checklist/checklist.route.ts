@@ -0,0 +1,85 @@
+import {
+  z,
+  zChecklistTemplateQuery,
+  zCreateChecklistTemplateItem,
+  zUpdateChecklistTemplateItem,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserManageChecklistTemplates,
+  createChecklistTemplateItem,
+  deleteChecklistTemplateItem,
+  getChecklistTemplateItems,
+  updateChecklistTemplateItem,
+} from './checklist.service'
+
+const zTemplateItemParam = z.object({ id: z.string().min(1) })
+
+/**
+ * Checklist Template Router - per-work-type checklist templates
+ *
+ * Mounted at: /v1/checklist-template
+ *
+ * Routes:
+ * - GET / - List template items (any authenticated user)
+ * - POST / - Create a template item (admin only)
+ * - PATCH /:id - Update a template item (admin only)
+ * - DELETE /:id - Delete a template item (admin only)
+ *
+ * Note: Ticking items on a task is a task-scoped endpoint
+ * (PUT /v1/task/:id/checklist/:itemId) in the task router.
+ */
+const router = new Hono()
+  /**
+   * GET /v1/checklist-template
+   *
+   * Query Parameters:
+   * - workType?: INSTALLATION | REPAIR | MAINTENANCE
+   *
+   * Response:
+   * - items: Template items ordered by work type and sortOrder
+   */
+  .get('/', zValidator('query', zChecklistTemplateQuery), async (c) => {
+    const { workType } = c.req.valid('query')
+    const items = await getChecklistTemplateItems({ workType })
+    return c.json({ items }, 200)
+  })
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserManageChecklistTemplates({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể quản lý danh sách kiểm tra.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  .post('/', zValidator('json', zCreateChecklistTemplateItem), async (c) => {
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+    const item = await createChecklistTemplateItem({ data, user })
+    return c.json({ item }, 201)
+  })
+  .patch(
+    '/:id',
+    zValidator('param', zTemplateItemParam),
+    zValidator('json', zUpdateChecklistTemplateItem),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+      const item = await updateChecklistTemplateItem({ id, data, user })
+      return c.json({ item }, 200)
+    },
+  )
+  .delete('/:id', zValidator('param', zTemplateItemParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+    await deleteChecklistTemplateItem({ id, user })
+    return c.json({ success: true }, 200)
+  })
+
+export default router
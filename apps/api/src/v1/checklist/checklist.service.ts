@@ -0,0 +1,267 @@
+import type { User } from '@clerk/backend'
+import type { Prisma, TaskWorkType } from '@nv-internal/prisma-client'
+import type {
+  CreateChecklistTemplateItemValues,
+  UpdateChecklistTemplateItemValues,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { createActivity } from '../activity/activity.service'
+import { isUserAdmin } from '../user/user.service'
+
+export async function canUserManageChecklistTemplates({
+  user,
+}: {
+  user: User
+}) {
+  return isUserAdmin({ user })
+}
+
+export async function getChecklistTemplateItems({
+  workType,
+}: {
+  workType?: TaskWorkType
+}) {
+  const prisma = getPrisma()
+
+  return prisma.checklistTemplateItem.findMany({
+    where: { deletedAt: null, ...(workType && { workType }) },
+    orderBy: [{ workType: 'asc' }, { sortOrder: 'asc' }, { createdAt: 'asc' }],
+  })
+}
+
+export async function createChecklistTemplateItem({
+  data,
+  user,
+}: {
+  data: CreateChecklistTemplateItemValues
+  user: User
+}) {
+  const logger = getLogger('checklist.service:createChecklistTemplateItem')
+  const prisma = getPrisma()
+
+  const item = await prisma.checklistTemplateItem.create({ data })
+
+  logger.info(
+    { itemId: item.id, workType: item.workType, userId: user.id },
+    'Checklist template item created',
+  )
+
+  return item
+}
+
+export async function updateChecklistTemplateItem({
+  id,
+  data,
+  user,
+}: {
+  id: string
+  data: UpdateChecklistTemplateItemValues
+  user: User
+}) {
+  const logger = getLogger('checklist.service:updateChecklistTemplateItem')
+  const prisma = getPrisma()
+
+  const existing = await prisma.checklistTemplateItem.findFirst({
+    where: { id, deletedAt: null },
+  })
+
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy mục trong danh sách kiểm tra',
+    })
+  }
+
+  const item = await prisma.checklistTemplateItem.update({
+    where: { id },
+    data,
+  })
+
+  logger.info(
+    { itemId: id, changes: Object.keys(data), userId: user.id },
+    'Checklist template item updated',
+  )
+
+  return item
+}
+
+/**
+ * Soft delete a template item
+ *
+ * Tasks that already copied the item keep it.
+ */
+export async function deleteChecklistTemplateItem({
+  id,
+  user,
+}: {
+  id: string
+  user: User
+}) {
+  const logger = getLogger('checklist.service:deleteChecklistTemplateItem')
+  const prisma = getPrisma()
+
+  const existing = await prisma.checklistTemplateItem.findFirst({
+    where: { id, deletedAt: null },
+  })
+
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy mục trong danh sách kiểm tra',
+    })
+  }
+
+  await prisma.checklistTemplateItem.update({
+    where: { id },
+    data: { deletedAt: new Date() },
+  })
+
+  logger.info(
+    { itemId: id, userId: user.id },
+    'Checklist template item deleted',
+  )
+}
+
+/**
+ * Copy the checklist template of a work type onto a task
+ *
+ * Called inside the task creation transaction. Items are copied (not linked)
+ * so later template edits don't change checklists of existing tasks.
+ *
+ * @returns Number of items copied
+ */
+export async function copyChecklistTemplateToTask(
+  { taskId, workType }: { taskId: number; workType: TaskWorkType },
+  tx: Prisma.TransactionClient,
+) {
+  const templateItems = await tx.checklistTemplateItem.findMany({
+    where: { workType, deletedAt: null },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  })
+
+  if (templateItems.length === 0) {
+    return 0
+  }
+
+  await tx.taskChecklistItem.createMany({
+    data: templateItems.map((item) => ({
+      taskId,
+      templateItemId: item.id,
+      label: item.label,
+      required: item.required,
+      sortOrder: item.sortOrder,
+    })),
+  })
+
+  return templateItems.length
+}
+
+/**
+ * Count required checklist items that are not checked yet
+ *
+ * Used to gate check-out.
+ */
+export async function countUncheckedRequiredItems({
+  taskId,
+}: {
+  taskId: number
+}) {
+  const prisma = getPrisma()
+
+  return prisma.taskChecklistItem.count({
+    where: { taskId, required: true, checkedAt: null },
+  })
+}
+
+/**
+ * Check or uncheck a checklist item on a task
+ *
+ * Requirements:
+ * - Task must exist and be IN_PROGRESS
+ * - User must be assigned to the task
+ *
+ * Effects:
+ * - Stores who checked the item and when (cleared when unchecked)
+ * - Creates TASK_CHECKLIST_ITEM_CHECKED / TASK_CHECKLIST_ITEM_UNCHECKED activity
+ *
+ * @returns Updated checklist item
+ */
+export async function updateTaskChecklistItem({
+  taskId,
+  itemId,
+  checked,
+  user,
+}: {
+  taskId: number
+  itemId: string
+  checked: boolean
+  user: User
+}) {
+  const logger = getLogger('checklist.service:updateTaskChecklistItem')
+  const prisma = getPrisma()
+
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, deletedAt: null },
+  })
+
+  if (!task) {
+    throw new HTTPException(404, { message: 'Không tìm thấy công việc' })
+  }
+
+  if (!task.assigneeIds.includes(user.id)) {
+    throw new HTTPException(403, {
+      message: 'Bạn không được phân công vào công việc này',
+    })
+  }
+
+  if (task.status !== 'IN_PROGRESS') {
+    throw new HTTPException(400, {
+      message: 'Chỉ có thể cập nhật danh sách kiểm tra khi đang thực hiện',
+    })
+  }
+
+  const item = await prisma.taskChecklistItem.findFirst({
+    where: { id: itemId, taskId },
+  })
+
+  if (!item) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy mục trong danh sách kiểm tra',
+    })
+  }
+
+  // No-op if already in the requested state (avoid duplicate activities)
+  if (checked === !!item.checkedAt) {
+    return item
+  }
+
+  const updatedItem = await prisma.$transaction(async (tx) => {
+    const updated = await tx.taskChecklistItem.update({
+      where: { id: itemId },
+      data: checked
+        ? { checkedAt: new Date(), checkedBy: user.id }
+        : { checkedAt: null, checkedBy: null },
+    })
+
+    await createActivity(
+      {
+        action: checked
+          ? 'TASK_CHECKLIST_ITEM_CHECKED'
+          : 'TASK_CHECKLIST_ITEM_UNCHECKED',
+        userId: user.id,
+        topic: { entityType: 'TASK', entityId: taskId },
+        payload: { itemId, label: item.label },
+      },
+      tx,
+    )
+
+    return updated
+  })
+
+  logger.info(
+    { taskId, itemId, checked, userId: user.id },
+    'Checklist item updated',
+  )
+
+  return updatedItem
+}
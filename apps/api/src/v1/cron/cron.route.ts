@@ -0,0 +1,86 @@
+import { Hono } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import { getLogger } from '../../lib/log'
+import { deleteExpiredLocationPoints } from '../location/location.service'
+import { sweepSlaBreaches } from '../task/task.service'
+import { generateTasksFromSchedules } from '../task-schedule/task-schedule.service'
+
+/**
+ * Verify the cron secret
+ *
+ * Cron jobs are not Clerk users, so these routes are mounted before the auth
+ * middleware and authenticated with a shared secret instead
+ * (`Authorization: Bearer <CRON_SECRET>`, as sent by Vercel Cron).
+ */
+const cronAuthMiddleware = createMiddleware(async (c, next) => {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || c.req.header('Authorization') !== `Bearer ${secret}`) {
+    return c.json({ message: 'unauthorized' }, 401)
+  }
+
+  return next()
+})
+
+/**
+ * Cron Router - scheduled background jobs
+ *
+ * Mounted at: /v1/cron
+ */
+const router = new Hono()
+  .use(cronAuthMiddleware)
+  /**
+   * GET /v1/cron/task-schedules
+   *
+   * Materialize upcoming occurrences of all active recurring schedules as tasks.
+   * Safe to run multiple times - each schedule resumes after its last generated occurrence.
+   *
+   * Response:
+   * - schedulesProcessed, tasksCreated, failedScheduleIds
+   */
+  .get('/task-schedules', async (c) => {
+    const logger = getLogger('cron.route:taskSchedules')
+
+    const result = await generateTasksFromSchedules()
+
+    logger.info(result, 'Task schedule cron finished')
+
+    return c.json(result, 200)
+  })
+  /**
+   * GET /v1/cron/sla-breaches
+   *
+   * Log TASK_SLA_BREACHED for open tasks past their SLA deadline.
+   * Safe to run multiple times - each task is logged once per deadline.
+   *
+   * Response:
+   * - tasksBreached, failedTaskIds
+   */
+  .get('/sla-breaches', async (c) => {
+    const logger = getLogger('cron.route:slaBreaches')
+
+    const result = await sweepSlaBreaches()
+
+    logger.info(result, 'SLA sweep cron finished')
+
+    return c.json(result, 200)
+  })
+  /**
+   * GET /v1/cron/location-retention
+   *
+   * Delete worker positions older than LOCATION_RETENTION_DAYS.
+   *
+   * Response:
+   * - pointsDeleted
+   */
+  .get('/location-retention', async (c) => {
+    const logger = getLogger('cron.route:locationRetention')
+
+    const result = await deleteExpiredLocationPoints()
+
+    logger.info(result, 'Location retention cron finished')
+
+    return c.json(result, 200)
+  })
+
+export default router
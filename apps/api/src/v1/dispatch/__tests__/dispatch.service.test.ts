@@ -0,0 +1,475 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  buildWorkerTimeline,
+  getDispatchBoard,
+  getWorkerDailyRoute,
+  rankAssigneeCandidates,
+  suggestAssignees,
+} from '../dispatch.service'
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`)
+
+function createTask(overrides = {}) {
+  return {
+    id: 1,
+    title: 'Lắp đặt máy lạnh',
+    status: TaskStatus.READY,
+    assigneeIds: ['worker_1'],
+    scheduledAt: null,
+    scheduledEndAt: null,
+    estimatedDurationMinutes: null,
+    slaDueAt: null,
+    customer: null,
+    geoLocation: null,
+    overdue: false,
+    ...overrides,
+  }
+}
+
+function createClerkClient(users) {
+  return {
+    users: {
+      getCount: jest.fn().mockResolvedValue(users.length),
+      getUserList: jest.fn().mockResolvedValue({ data: users }),
+    },
+  }
+}
+
+describe('dispatch service', () => {
+  describe('buildWorkerTimeline', () => {
+    it('should order tasks and estimate travel between locations', () => {
+      const timeline = buildWorkerTimeline([
+        createTask({
+          id: 2,
+          scheduledAt: at('05:00'),
+          // ~5.6km north of the first job
+          geoLocation: { lat: 10.8262, lng: 106.6297 },
+        }),
+        createTask({
+          id: 1,
+          scheduledAt: at('02:00'),
+          scheduledEndAt: at('04:00'),
+          geoLocation: { lat: 10.7762, lng: 106.6297 },
+        }),
+      ])
+
+      expect(timeline.map((task) => task.id)).toEqual([1, 2])
+      expect(timeline[0].travelFromPrevious).toBeNull()
+      expect(timeline[1].travelFromPrevious).toEqual({
+        gapMinutes: 60,
+        distanceMeters: 5560,
+        travelMinutes: 14,
+        isTight: false,
+      })
+    })
+
+    it('should flag gaps too short for the travel', () => {
+      const timeline = buildWorkerTimeline([
+        createTask({
+          id: 1,
+          scheduledAt: at('02:00'),
+          geoLocation: { lat: 10.7762, lng: 106.6297 },
+        }),
+        createTask({
+          id: 2,
+          scheduledAt: at('03:05'),
+          geoLocation: { lat: 10.8262, lng: 106.6297 },
+        }),
+      ])
+
+      expect(timeline[1].travelFromPrevious).toMatchObject({
+        gapMinutes: 5,
+        isTight: true,
+      })
+    })
+
+    it('should keep the gap without locations', () => {
+      const timeline = buildWorkerTimeline([
+        createTask({ id: 1, scheduledAt: at('02:00') }),
+        createTask({ id: 2, scheduledAt: at('04:00') }),
+      ])
+
+      expect(timeline[1].travelFromPrevious).toEqual({
+        gapMinutes: 60,
+        distanceMeters: null,
+        travelMinutes: null,
+        isTight: false,
+      })
+    })
+
+    it('should put unscheduled tasks first without a travel gap', () => {
+      const timeline = buildWorkerTimeline([
+        createTask({ id: 1, scheduledAt: at('02:00') }),
+        createTask({ id: 2, status: TaskStatus.IN_PROGRESS }),
+      ])
+
+      expect(timeline.map((task) => task.id)).toEqual([2, 1])
+      expect(timeline[0].window).toBeNull()
+      expect(timeline[1].travelFromPrevious).toBeNull()
+    })
+  })
+
+  describe('getDispatchBoard', () => {
+    beforeEach(() => {
+      resetPrismaMock(mockPrisma)
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+    })
+
+    it('should list active workers with their timelines', async () => {
+      const clerkClient = createClerkClient([
+        createMockWorkerUser({
+          id: 'worker_1',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+        createMockWorkerUser({
+          id: 'worker_2',
+          banned: true,
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+        createMockAdminUser({ id: 'admin_1' }),
+      ])
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([
+          createTask({
+            id: 1,
+            scheduledAt: at('02:00'),
+            estimatedDurationMinutes: 90,
+          }),
+        ])
+        .mockResolvedValueOnce([
+          createTask({ id: 3, assigneeIds: [], scheduledAt: null }),
+        ])
+
+      const board = await getDispatchBoard({ clerkClient, date: '2026-10-20' })
+
+      expect(board.workers).toHaveLength(1)
+      expect(board.workers[0]).toMatchObject({
+        id: 'worker_1',
+        leave: null,
+        scheduledMinutes: 90,
+      })
+      expect(board.workers[0].tasks.map((task) => task.id)).toEqual([1])
+      expect(board.unassignedTasks.map((task) => task.id)).toEqual([3])
+      expect(board.unassignedTasks[0].window).toBeNull()
+    })
+
+    it('should query the day in Vietnam time', async () => {
+      const clerkClient = createClerkClient([
+        createMockWorkerUser({
+          id: 'worker_1',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+      ])
+
+      await getDispatchBoard({ clerkClient, date: '2026-10-20' })
+
+      const day = {
+        gte: new Date('2026-10-19T17:00:00.000Z'),
+        lt: new Date('2026-10-20T17:00:00.000Z'),
+      }
+      const [assigned, unassigned] = mockPrisma.task.findMany.mock.calls
+      expect(assigned[0].where).toMatchObject({
+        assigneeIds: { hasSome: ['worker_1'] },
+        // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+        OR: [
+          { status: TaskStatus.IN_PROGRESS },
+          { status: { not: TaskStatus.CANCELLED }, scheduledAt: day },
+        ],
+      })
+      expect(unassigned[0].where).toMatchObject({
+        assigneeIds: { isEmpty: true },
+        // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+        OR: [{ scheduledAt: null }, { scheduledAt: day }],
+      })
+    })
+
+    it('should show the approved leave of a worker that day', async () => {
+      const clerkClient = createClerkClient([
+        createMockWorkerUser({
+          id: 'worker_1',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+      ])
+      const leave = {
+        id: 'leave_1',
+        userId: 'worker_1',
+        type: 'SICK',
+        startDate: '2026-10-20',
+        endDate: '2026-10-20',
+      }
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([leave])
+
+      const board = await getDispatchBoard({ clerkClient, date: '2026-10-20' })
+
+      expect(board.workers[0].leave).toEqual(leave)
+    })
+
+    it('should not query assigned tasks without workers', async () => {
+      const clerkClient = createClerkClient([
+        createMockAdminUser({ id: 'admin_1' }),
+      ])
+
+      const board = await getDispatchBoard({ clerkClient, date: '2026-10-20' })
+
+      expect(board.workers).toEqual([])
+      expect(mockPrisma.task.findMany).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('rankAssigneeCandidates', () => {
+    const location = { lat: 10.7762, lng: 106.6297 }
+
+    it('should rank closer and less busy workers first', () => {
+      const ranked = rankAssigneeCandidates(
+        [
+          {
+            userId: 'far',
+            // ~5.6km away
+            origin: { source: 'CHECK_IN', lat: 10.8262, lng: 106.6297 },
+            openTaskCount: 0,
+            conflicts: [],
+          },
+          {
+            userId: 'near',
+            origin: {
+              source: 'NEXT_TASK',
+              lat: 10.7762,
+              lng: 106.6297,
+              taskId: 7,
+            },
+            openTaskCount: 1,
+            conflicts: [],
+          },
+        ],
+        location,
+      )
+
+      expect(ranked.map((candidate) => candidate.userId)).toEqual([
+        'near',
+        'far',
+      ])
+      expect(ranked[0]).toMatchObject({
+        distanceMeters: 0,
+        distanceSource: 'NEXT_TASK',
+        score: 3,
+        reasons: ['Cách 0 km từ công việc tiếp theo #7', '1 công việc đang mở'],
+      })
+      expect(ranked[1].reasons).toEqual([
+        'Cách 5,6 km từ vị trí check-in gần nhất',
+        'Không có công việc đang mở',
+      ])
+    })
+
+    it('should push workers with conflicts down', () => {
+      const ranked = rankAssigneeCandidates(
+        [
+          {
+            userId: 'busy',
+            origin: { source: 'CHECK_IN', lat: 10.7762, lng: 106.6297 },
+            openTaskCount: 0,
+            conflicts: [{ userId: 'busy', taskId: 2 }],
+          },
+          { userId: 'unknown', origin: null, openTaskCount: 0, conflicts: [] },
+        ],
+        location,
+      )
+
+      expect(ranked.map((candidate) => candidate.userId)).toEqual([
+        'unknown',
+        'busy',
+      ])
+      expect(ranked[0].reasons[0]).toBe('Chưa rõ vị trí hiện tại')
+      expect(ranked[1].reasons).toContain('Trùng lịch với 1 công việc')
+    })
+
+    it('should rank by workload when the task has no location', () => {
+      const ranked = rankAssigneeCandidates(
+        [
+          { userId: 'a', origin: null, openTaskCount: 4, conflicts: [] },
+          { userId: 'b', origin: null, openTaskCount: 1, conflicts: [] },
+        ],
+        null,
+      )
+
+      expect(ranked.map((candidate) => candidate.userId)).toEqual(['b', 'a'])
+      expect(ranked[0].reasons[0]).toBe('Công việc chưa có vị trí')
+    })
+  })
+
+  describe('suggestAssignees', () => {
+    beforeEach(() => {
+      resetPrismaMock(mockPrisma)
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+    })
+
+    const clerkClient = () =>
+      createClerkClient([
+        createMockWorkerUser({
+          id: 'worker_1',
+          firstName: 'An',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+        createMockWorkerUser({
+          id: 'worker_2',
+          firstName: 'Bình',
+          publicMetadata: { roles: ['nv_internal_worker'] },
+        }),
+      ])
+
+    it('should measure from the last check-in, else the next task', async () => {
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        {
+          userId: 'worker_2',
+          checkedInAt: new Date(),
+          checkInGeoLocation: { lat: 10.7762, lng: 106.6297 },
+        },
+      ])
+      mockPrisma.task.findMany.mockResolvedValue([
+        {
+          id: 5,
+          assigneeIds: ['worker_1'],
+          scheduledAt: at('04:00'),
+          geoLocation: { lat: 10.8262, lng: 106.6297 },
+        },
+      ])
+
+      const { suggestions } = await suggestAssignees({
+        clerkClient: clerkClient(),
+        location: { lat: 10.7762, lng: 106.6297 },
+        window: { start: at('02:00'), end: at('03:00') },
+        excludeTaskId: 9,
+      })
+
+      expect(
+        suggestions.map(({ userId, rank, distanceSource, openTaskCount }) => ({
+          userId,
+          rank,
+          distanceSource,
+          openTaskCount,
+        })),
+      ).toEqual([
+        {
+          userId: 'worker_2',
+          rank: 1,
+          distanceSource: 'CHECK_IN',
+          openTaskCount: 0,
+        },
+        {
+          userId: 'worker_1',
+          rank: 2,
+          distanceSource: 'NEXT_TASK',
+          openTaskCount: 1,
+        },
+      ])
+      expect(suggestions[0].firstName).toBe('Bình')
+    })
+
+    it('should leave out workers on approved leave that day', async () => {
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          id: 'leave_1',
+          userId: 'worker_1',
+          type: 'ANNUAL',
+          startDate: '2026-10-19',
+          endDate: '2026-10-21',
+        },
+      ])
+
+      const { suggestions } = await suggestAssignees({
+        clerkClient: clerkClient(),
+        location: null,
+        window: { start: at('02:00'), end: at('03:00') },
+      })
+
+      expect(suggestions.map(({ userId }) => userId)).toEqual(['worker_2'])
+    })
+
+    it('should exclude the task itself from workload and conflicts', async () => {
+      await suggestAssignees({
+        clerkClient: clerkClient(),
+        location: null,
+        window: { start: at('02:00'), end: at('03:00') },
+        excludeTaskId: 9,
+      })
+
+      for (const [args] of mockPrisma.task.findMany.mock.calls) {
+        expect(args.where.id).toEqual({ not: 9 })
+      }
+    })
+  })
+
+  describe('getWorkerDailyRoute', () => {
+    beforeEach(() => {
+      resetPrismaMock(mockPrisma)
+      mockPrisma.task.findMany.mockResolvedValue([])
+    })
+
+    const worker = createMockWorkerUser({ id: 'worker_1' })
+
+    it('should order located tasks and list the others apart', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        createTask({ id: 1, geoLocation: { lat: 10.74, lng: 106.6297 } }),
+        createTask({ id: 2, geoLocation: null }),
+        createTask({ id: 3, geoLocation: { lat: 10.71, lng: 106.6297 } }),
+      ])
+
+      const route = await getWorkerDailyRoute({
+        user: worker,
+        date: '2026-10-20',
+        origin: { lat: 10.7, lng: 106.6297 },
+      })
+
+      expect(route.stops.map(({ id, order }) => ({ id, order }))).toEqual([
+        { id: 3, order: 1 },
+        { id: 1, order: 2 },
+      ])
+      expect(route.stops[0].leg.distanceMeters).toBe(1112)
+      expect(route.totalDistanceMeters).toBe(4448)
+      expect(route.unroutedTasks.map(({ id }) => id)).toEqual([2])
+    })
+
+    it('should search the open tasks assigned to the user that day', async () => {
+      await getWorkerDailyRoute({
+        user: worker,
+        date: '2026-10-20',
+        origin: null,
+      })
+
+      const [[args]] = mockPrisma.task.findMany.mock.calls
+      expect(args.where.AND).toEqual(
+        expect.arrayContaining([
+          { assigneeIds: { has: 'worker_1' } },
+          {
+            scheduledAt: {
+              gte: new Date('2026-10-19T17:00:00.000Z'),
+              lte: new Date('2026-10-20T16:59:59.999Z'),
+            },
+          },
+        ]),
+      )
+      const statusFilter = args.where.AND.find((condition) => condition.status)
+      expect(statusFilter.status.in).toContain(TaskStatus.IN_PROGRESS)
+      expect(statusFilter.status.in).not.toContain(TaskStatus.COMPLETED)
+    })
+  })
+})
@@ -0,0 +1,57 @@
+import { zDispatchBoardQuery } from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import { canUserViewDispatchBoard, getDispatchBoard } from './dispatch.service'
+
+/**
+ * Dispatch Router - assigning the day's jobs
+ *
+ * Mounted at: /v1/dispatch
+ *
+ * Admin only. Assigning a task from the board goes through
+ * PUT /v1/task/:id/assignees with the new scheduled time.
+ */
+const router = new Hono()
+  /**
+   * GET /v1/dispatch
+   *
+   * Workers' timelines and unassigned tasks of a day
+   *
+   * Query Parameters:
+   * - date: Day to dispatch (YYYY-MM-DD, Asia/Ho_Chi_Minh)
+   *
+   * Response:
+   * - workers: Active workers with their tasks (scheduled that day or in
+   *   progress), each with `window` and `travelFromPrevious`
+   * - unassignedTasks: Open tasks without assignees, unscheduled or
+   *   scheduled that day
+   */
+  .get('/', zValidator('query', zDispatchBoardQuery), async (c) => {
+    const logger = getLogger('dispatch.route:getDispatchBoard')
+    const user = getAuthUserStrict(c)
+    const clerkClient = c.get('clerk')
+    const { date } = c.req.valid('query')
+
+    if (!(await canUserViewDispatchBoard({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể điều phối công việc.',
+        cause: 'Permission denied',
+      })
+    }
+
+    try {
+      const board = await getDispatchBoard({ clerkClient, date })
+      return c.json(board)
+    } catch (error) {
+      logger.error({ error, date }, 'Failed to load dispatch board')
+      throw new HTTPException(500, {
+        message: 'Không thể tải bảng điều phối. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+
+export default router
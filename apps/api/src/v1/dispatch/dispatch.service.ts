@@ -0,0 +1,557 @@
+import type { ClerkClient, User } from '@clerk/backend'
+import { type Prisma, TaskStatus } from '@nv-internal/prisma-client'
+import { TERMINAL_TASK_STATUSES, UserRole } from '@nv-internal/validation'
+import { addHours } from 'date-fns'
+import { calculateDistance, estimateTravelMinutes } from '../../lib/geo'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { optimizeRoute } from '../../lib/route-optimization'
+import {
+  getCalendarRange,
+  getTaskTimeWindow,
+  SCHEDULE_TIMEZONE,
+  type TimeWindow,
+  toCalendarDay,
+} from '../../lib/scheduling'
+import { findApprovedLeaves } from '../leave/leave.service'
+import {
+  findScheduleConflicts,
+  type ScheduleConflict,
+  searchAndFilterTasks,
+  withOverdueFlag,
+} from '../task/task.service'
+import {
+  doesUserHaveRole,
+  getAllUsers,
+  isUserAdmin,
+} from '../user/user.service'
+
+const DISPATCH_TASK_INCLUDE = {
+  customer: true,
+  geoLocation: true,
+} satisfies Prisma.TaskInclude
+
+// The board is a working list for one day, not a backlog browser
+const MAX_UNASSIGNED_TASKS = 100
+
+// Assignee suggestions: a check-in older than this no longer tells where the
+// worker is, and only the next task within the lookahead counts
+const LAST_CHECK_IN_MAX_AGE_HOURS = 12
+const NEXT_TASK_LOOKAHEAD_HOURS = 24
+
+// Score weights (lower is better): 1 point per km, one open task is worth 3 km
+// and a conflicting task rules a worker out unless nobody else is free
+const SCORE_PER_KM = 1
+const SCORE_PER_OPEN_TASK = 3
+const SCORE_PER_CONFLICT = 100
+// Distance assumed when the worker's position is unknown
+const UNKNOWN_DISTANCE_KM = 20
+
+// Daily route: a worker's day never has more jobs than one search page, and
+// planning a future day starts at the beginning of working hours
+const MAX_ROUTE_TASKS = 100
+const WORKDAY_START_HOUR = 8
+
+type DispatchTask = Prisma.TaskGetPayload<{
+  include: typeof DISPATCH_TASK_INCLUDE
+}> & { overdue: boolean }
+
+/** Time between two consecutive jobs of a worker */
+export type DispatchTravelGap = {
+  /** Minutes between the end of the previous job and the start of this one */
+  gapMinutes: number
+  /** Straight-line distance, null when either job has no location */
+  distanceMeters: number | null
+  travelMinutes: number | null
+  /** The worker cannot reach this job in time */
+  isTight: boolean
+}
+
+export async function canUserViewDispatchBoard({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Order a worker's tasks and estimate the travel between consecutive jobs
+ *
+ * Unscheduled tasks (e.g. in progress without a time slot) come first and have
+ * no travel gap.
+ */
+export function buildWorkerTimeline(tasks: DispatchTask[]) {
+  const entries = tasks
+    .map((task) => ({ task, window: getTaskTimeWindow(task) }))
+    .sort(
+      (a, b) =>
+        (a.window?.start.getTime() ?? 0) - (b.window?.start.getTime() ?? 0),
+    )
+
+  let previous: { task: DispatchTask; window: TimeWindow } | null = null
+
+  return entries.map(({ task, window }) => {
+    let travelFromPrevious: DispatchTravelGap | null = null
+
+    if (window && previous) {
+      const gapMinutes = Math.round(
+        (window.start.getTime() - previous.window.end.getTime()) / 60000,
+      )
+      const from = previous.task.geoLocation
+      const to = task.geoLocation
+      const distanceMeters =
+        from && to
+          ? Math.round(calculateDistance(from.lat, from.lng, to.lat, to.lng))
+          : null
+      const travelMinutes =
+        distanceMeters !== null ? estimateTravelMinutes(distanceMeters) : null
+
+      travelFromPrevious = {
+        gapMinutes,
+        distanceMeters,
+        travelMinutes,
+        isTight: gapMinutes < (travelMinutes ?? 0),
+      }
+    }
+
+    if (window) {
+      previous = { task, window }
+    }
+
+    return { ...task, window, travelFromPrevious }
+  })
+}
+
+/**
+ * Dispatch board of a day (Asia/Ho_Chi_Minh)
+ *
+ * Returns every active worker with the tasks on their timeline (scheduled that
+ * day, plus anything still in progress) and the estimated travel gaps between
+ * them, along with the open unassigned tasks a dispatcher can drop onto a
+ * timeline.
+ */
+export async function getDispatchBoard({
+  clerkClient,
+  date,
+}: {
+  clerkClient: ClerkClient
+  date: string
+}) {
+  const logger = getLogger('dispatch.service:getDispatchBoard')
+  const prisma = getPrisma()
+  const range = getCalendarRange(date, date)
+
+  const users = await getAllUsers({ clerkClient })
+  const workers = users
+    .filter(
+      (user) =>
+        !user.banned &&
+        doesUserHaveRole({ user, role: UserRole.nvInternalWorker }),
+    )
+    .sort((a, b) =>
+      `${a.lastName} ${a.firstName}`.localeCompare(
+        `${b.lastName} ${b.firstName}`,
+        'vi',
+      ),
+    )
+  const workerIds = workers.map((worker) => worker.id)
+
+  const [assignedTasks, unassignedTasks, leaves] = await Promise.all([
+    workerIds.length > 0
+      ? prisma.task.findMany({
+          where: {
+            deletedAt: null,
+            assigneeIds: { hasSome: workerIds },
+            // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+            OR: [
+              { status: TaskStatus.IN_PROGRESS },
+              {
+                status: { not: TaskStatus.CANCELLED },
+                scheduledAt: { gte: range.start, lt: range.end },
+              },
+            ],
+          },
+          include: DISPATCH_TASK_INCLUDE,
+          orderBy: [{ scheduledAt: 'asc' }, { id: 'asc' }],
+        })
+      : Promise.resolve([]),
+    prisma.task.findMany({
+      where: {
+        deletedAt: null,
+        assigneeIds: { isEmpty: true },
+        status: { notIn: TERMINAL_TASK_STATUSES },
+        // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+        OR: [
+          { scheduledAt: null },
+          { scheduledAt: { gte: range.start, lt: range.end } },
+        ],
+      },
+      include: DISPATCH_TASK_INCLUDE,
+      orderBy: [
+        { scheduledAt: { sort: 'asc', nulls: 'last' } },
+        { createdAt: 'asc' },
+      ],
+      take: MAX_UNASSIGNED_TASKS,
+    }),
+    findApprovedLeaves({ userIds: workerIds, from: date, to: date }),
+  ])
+
+  const tasks = withOverdueFlag(assignedTasks)
+
+  logger.debug(
+    {
+      date,
+      workers: workers.length,
+      assignedTasks: assignedTasks.length,
+      unassignedTasks: unassignedTasks.length,
+    },
+    'Dispatch board loaded',
+  )
+
+  return {
+    date,
+    timezone: SCHEDULE_TIMEZONE,
+    workers: workers.map((worker) => {
+      const timeline = buildWorkerTimeline(
+        tasks.filter((task) => task.assigneeIds.includes(worker.id)),
+      )
+
+      return {
+        id: worker.id,
+        firstName: worker.firstName,
+        lastName: worker.lastName,
+        imageUrl: worker.imageUrl,
+        // Approved leave that day, the worker should not get tasks
+        leave: leaves.find((leave) => leave.userId === worker.id) ?? null,
+        scheduledMinutes: timeline.reduce(
+          (total, { window }) =>
+            window
+              ? total + (window.end.getTime() - window.start.getTime()) / 60000
+              : total,
+          0,
+        ),
+        tasks: timeline,
+      }
+    }),
+    unassignedTasks: withOverdueFlag(unassignedTasks).map((task) => ({
+      ...task,
+      window: getTaskTimeWindow(task),
+    })),
+  }
+}
+
+/** Where a worker is measured from */
+export type AssigneeOrigin =
+  | { source: 'CHECK_IN'; lat: number; lng: number; at: Date }
+  | { source: 'NEXT_TASK'; lat: number; lng: number; taskId: number }
+
+export type AssigneeCandidate = {
+  userId: string
+  origin: AssigneeOrigin | null
+  openTaskCount: number
+  conflicts: ScheduleConflict[]
+}
+
+const formatKm = (meters: number) =>
+  (meters / 1000).toLocaleString('vi-VN', { maximumFractionDigits: 1 })
+
+/**
+ * Score and explain assignee candidates for a task location
+ *
+ * Lower scores rank first. Each candidate gets the reasons behind its score so
+ * the picker can show why a worker is suggested.
+ */
+export function rankAssigneeCandidates(
+  candidates: AssigneeCandidate[],
+  location: { lat: number; lng: number } | null,
+) {
+  return candidates
+    .map((candidate) => {
+      const { origin, openTaskCount, conflicts } = candidate
+      const distanceMeters =
+        origin && location
+          ? Math.round(
+              calculateDistance(
+                origin.lat,
+                origin.lng,
+                location.lat,
+                location.lng,
+              ),
+            )
+          : null
+
+      const reasons: string[] = []
+      if (!location) {
+        reasons.push('Công việc chưa có vị trí')
+      } else if (distanceMeters === null || !origin) {
+        reasons.push('Chưa rõ vị trí hiện tại')
+      } else if (origin.source === 'CHECK_IN') {
+        reasons.push(
+          `Cách ${formatKm(distanceMeters)} km từ vị trí check-in gần nhất`,
+        )
+      } else {
+        reasons.push(
+          `Cách ${formatKm(distanceMeters)} km từ công việc tiếp theo #${origin.taskId}`,
+        )
+      }
+      reasons.push(
+        openTaskCount > 0
+          ? `${openTaskCount} công việc đang mở`
+          : 'Không có công việc đang mở',
+      )
+      if (conflicts.length > 0) {
+        reasons.push(`Trùng lịch với ${conflicts.length} công việc`)
+      }
+
+      const distanceKm =
+        distanceMeters !== null
+          ? distanceMeters / 1000
+          : location
+            ? UNKNOWN_DISTANCE_KM
+            : 0
+      const score =
+        distanceKm * SCORE_PER_KM +
+        openTaskCount * SCORE_PER_OPEN_TASK +
+        conflicts.length * SCORE_PER_CONFLICT
+
+      return {
+        userId: candidate.userId,
+        score: Math.round(score * 10) / 10,
+        distanceMeters,
+        distanceSource: origin?.source ?? null,
+        openTaskCount,
+        conflicts,
+        reasons,
+      }
+    })
+    .sort((a, b) => a.score - b.score)
+}
+
+/**
+ * Suggest assignees for a task, closest and least busy first
+ *
+ * Workers are measured from their last check-in of the past
+ * LAST_CHECK_IN_MAX_AGE_HOURS, or else from their next scheduled task, and
+ * penalized for open tasks and scheduling conflicts with the task's window.
+ * Workers on approved leave during the window are left out.
+ */
+export async function suggestAssignees({
+  clerkClient,
+  location,
+  window,
+  excludeTaskId,
+}: {
+  clerkClient: ClerkClient
+  location: { lat: number; lng: number } | null
+  window: TimeWindow | null
+  excludeTaskId?: number
+}) {
+  const logger = getLogger('dispatch.service:suggestAssignees')
+  const prisma = getPrisma()
+  const now = new Date()
+
+  const users = await getAllUsers({ clerkClient })
+  // Workers on approved leave that day are not available at all
+  const leaves = window
+    ? await findApprovedLeaves({
+        from: toCalendarDay(window.start),
+        to: toCalendarDay(window.end),
+      })
+    : []
+  const workers = users.filter(
+    (user) =>
+      !user.banned &&
+      doesUserHaveRole({ user, role: UserRole.nvInternalWorker }) &&
+      !leaves.some((leave) => leave.userId === user.id),
+  )
+  const workerIds = workers.map((worker) => worker.id)
+
+  if (workerIds.length === 0) {
+    return { suggestions: [] }
+  }
+
+  const nextTaskFrom = window?.start ?? now
+  const [lastCheckIns, openTasks, conflicts] = await Promise.all([
+    prisma.taskVisit.findMany({
+      where: {
+        userId: { in: workerIds },
+        checkedInAt: {
+          gte: new Date(
+            now.getTime() - LAST_CHECK_IN_MAX_AGE_HOURS * 60 * 60 * 1000,
+          ),
+        },
+        checkInGeoLocationId: { not: null },
+      },
+      orderBy: { checkedInAt: 'desc' },
+      distinct: ['userId'],
+      include: { checkInGeoLocation: true },
+    }),
+    prisma.task.findMany({
+      where: {
+        deletedAt: null,
+        status: { notIn: TERMINAL_TASK_STATUSES },
+        assigneeIds: { hasSome: workerIds },
+        ...(excludeTaskId !== undefined && { id: { not: excludeTaskId } }),
+      },
+      select: {
+        id: true,
+        assigneeIds: true,
+        scheduledAt: true,
+        geoLocation: { select: { lat: true, lng: true } },
+      },
+      orderBy: [{ scheduledAt: 'asc' }, { id: 'asc' }],
+    }),
+    window
+      ? findScheduleConflicts({ assigneeIds: workerIds, window, excludeTaskId })
+      : Promise.resolve([]),
+  ])
+
+  const nextTaskUntil = new Date(
+    nextTaskFrom.getTime() + NEXT_TASK_LOOKAHEAD_HOURS * 60 * 60 * 1000,
+  )
+
+  const candidates: AssigneeCandidate[] = workerIds.map((userId) => {
+    const workerTasks = openTasks.filter((task) =>
+      task.assigneeIds.includes(userId),
+    )
+    const checkIn = lastCheckIns.find((visit) => visit.userId === userId)
+    const nextTask = workerTasks.find(
+      (task) =>
+        task.geoLocation &&
+        task.scheduledAt &&
+        task.scheduledAt >= nextTaskFrom &&
+        task.scheduledAt < nextTaskUntil,
+    )
+
+    let origin: AssigneeOrigin | null = null
+    if (checkIn?.checkInGeoLocation) {
+      origin = {
+        source: 'CHECK_IN',
+        lat: checkIn.checkInGeoLocation.lat,
+        lng: checkIn.checkInGeoLocation.lng,
+        at: checkIn.checkedInAt,
+      }
+    } else if (nextTask?.geoLocation) {
+      origin = {
+        source: 'NEXT_TASK',
+        lat: nextTask.geoLocation.lat,
+        lng: nextTask.geoLocation.lng,
+        taskId: nextTask.id,
+      }
+    }
+
+    return {
+      userId,
+      origin,
+      openTaskCount: workerTasks.length,
+      conflicts: conflicts.filter((conflict) => conflict.userId === userId),
+    }
+  })
+
+  const ranked = rankAssigneeCandidates(candidates, location)
+
+  logger.debug(
+    { excludeTaskId, workers: workerIds.length, hasLocation: !!location },
+    'Assignee suggestions ranked',
+  )
+
+  return {
+    suggestions: ranked.map((suggestion, index) => {
+      const worker = workers.find((user) => user.id === suggestion.userId)
+      return {
+        ...suggestion,
+        rank: index + 1,
+        firstName: worker?.firstName ?? null,
+        lastName: worker?.lastName ?? null,
+        imageUrl: worker?.imageUrl ?? null,
+      }
+    }),
+  }
+}
+
+/**
+ * Visiting order of the user's own tasks for a day
+ *
+ * Loads the open tasks assigned to the user and scheduled that day (through
+ * searchAndFilterTasks with `assignedOnly`) and orders the ones with a
+ * location with optimizeRoute. Today's route starts now, other days start at
+ * WORKDAY_START_HOUR.
+ *
+ * @param origin - Where the worker starts, or null to start at the first task
+ * @returns Ordered stops with their leg from the previous stop, tasks without
+ *   a location, and totals
+ */
+export async function getWorkerDailyRoute({
+  user,
+  date,
+  origin,
+}: {
+  user: User
+  date: string
+  origin: { lat: number; lng: number } | null
+}) {
+  const logger = getLogger('dispatch.service:getWorkerDailyRoute')
+  const range = getCalendarRange(date, date)
+
+  const { tasks } = await searchAndFilterTasks(user, {
+    assignedOnly: 'true',
+    assigneeIds: undefined,
+    workType: undefined,
+    status: Object.values(TaskStatus).filter(
+      (status) => !TERMINAL_TASK_STATUSES.includes(status),
+    ),
+    scheduledFrom: range.start.toISOString(),
+    // The filter is inclusive, the range end is the next day
+    scheduledTo: new Date(range.end.getTime() - 1).toISOString(),
+    take: MAX_ROUTE_TASKS,
+    sortBy: 'scheduledAt',
+    sortOrder: 'asc',
+  })
+
+  const workdayStart = addHours(range.start, WORKDAY_START_HOUR)
+  const now = new Date()
+  const startAt =
+    now < range.end
+      ? new Date(Math.max(now.getTime(), workdayStart.getTime()))
+      : workdayStart
+
+  const stops = tasks.flatMap((task) =>
+    task.geoLocation
+      ? [
+          {
+            id: task.id,
+            lat: task.geoLocation.lat,
+            lng: task.geoLocation.lng,
+            window: getTaskTimeWindow(task),
+            task,
+          },
+        ]
+      : [],
+  )
+  const route = optimizeRoute(stops, { origin, startAt })
+
+  logger.debug(
+    {
+      userId: user.id,
+      date,
+      stops: stops.length,
+      totalDistanceMeters: route.totalDistanceMeters,
+    },
+    'Daily route optimized',
+  )
+
+  return {
+    date,
+    startAt,
+    stops: route.stops.map((stop, index) => ({
+      ...stop.task,
+      order: index + 1,
+      window: stop.window,
+      leg: {
+        ...route.legs[index],
+        distanceMeters: Math.round(route.legs[index].distanceMeters),
+      },
+    })),
+    unroutedTasks: tasks.filter((task) => !task.geoLocation),
+    totalDistanceMeters: Math.round(route.totalDistanceMeters),
+    totalTravelMinutes: route.totalTravelMinutes,
+    totalLateMinutes: route.totalLateMinutes,
+  }
+}
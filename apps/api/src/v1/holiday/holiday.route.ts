@@ -0,0 +1,89 @@
+import {
+  z,
+  zHoliday,
+  zHolidayQuery,
+  zUpdateHoliday,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserManageHolidays,
+  createHoliday,
+  deleteHoliday,
+  getHolidays,
+  updateHoliday,
+} from './holiday.service'
+
+const zHolidayParam = z.object({ id: z.string().min(1) })
+
+/**
+ * Holiday Router - public holidays, not counted as working days
+ *
+ * Mounted at: /v1/holiday
+ *
+ * Routes:
+ * - GET / - List the holidays of a year (any authenticated user)
+ * - POST / - Add a holiday (admin only)
+ * - PATCH /:id - Rename or move a holiday (admin only)
+ * - DELETE /:id - Remove a holiday (admin only)
+ */
+const router = new Hono()
+  /**
+   * GET /v1/holiday
+   *
+   * Query Parameters:
+   * - year: e.g. 2027
+   *
+   * Response:
+   * - holidays: Holidays of the year by date
+   */
+  .get('/', zValidator('query', zHolidayQuery), async (c) => {
+    const { year } = c.req.valid('query')
+    const holidays = await getHolidays({ year })
+    return c.json({ holidays }, 200)
+  })
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserManageHolidays({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể quản lý ngày nghỉ lễ.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  /**
+   * POST /v1/holiday
+   *
+   * Body:
+   * - date: Day off (YYYY-MM-DD), one holiday per day
+   * - name: e.g. "Tết Nguyên đán (mùng 1)"
+   */
+  .post('/', zValidator('json', zHoliday), async (c) => {
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+    const holiday = await createHoliday({ data, user })
+    return c.json({ holiday }, 201)
+  })
+  .patch(
+    '/:id',
+    zValidator('param', zHolidayParam),
+    zValidator('json', zUpdateHoliday),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+      const holiday = await updateHoliday({ id, data, user })
+      return c.json({ holiday }, 200)
+    },
+  )
+  .delete('/:id', zValidator('param', zHolidayParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+    await deleteHoliday({ id, user })
+    return c.json({ success: true }, 200)
+  })
+
+export default router
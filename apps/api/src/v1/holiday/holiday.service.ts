@@ -0,0 +1,141 @@
+import type { User } from '@clerk/backend'
+import type {
+  HolidayValues,
+  UpdateHolidayValues,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import type { WorkingCalendar } from '../../lib/working-days'
+import { getAppSettings } from '../settings/settings.service'
+import { isUserAdmin } from '../user/user.service'
+
+export async function canUserManageHolidays({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Public holidays of a year, by date
+ */
+export async function getHolidays({ year }: { year: number }) {
+  const prisma = getPrisma()
+
+  return prisma.holiday.findMany({
+    where: { date: { gte: `${year}-01-01`, lte: `${year}-12-31` } },
+    orderBy: { date: 'asc' },
+  })
+}
+
+async function assertDateIsFree(date: string, id?: string) {
+  const prisma = getPrisma()
+  const existing = await prisma.holiday.findUnique({ where: { date } })
+
+  if (existing && existing.id !== id) {
+    throw new HTTPException(409, {
+      message: `Ngày ${date} đã là ngày nghỉ lễ (${existing.name}).`,
+    })
+  }
+}
+
+export async function createHoliday({
+  data,
+  user,
+}: {
+  data: HolidayValues
+  user: User
+}) {
+  const logger = getLogger('holiday.service:createHoliday')
+  const prisma = getPrisma()
+
+  await assertDateIsFree(data.date)
+
+  const holiday = await prisma.holiday.create({
+    data: { ...data, updatedBy: user.id },
+  })
+
+  logger.info({ holiday, userId: user.id }, 'Holiday created')
+
+  return holiday
+}
+
+export async function updateHoliday({
+  id,
+  data,
+  user,
+}: {
+  id: string
+  data: UpdateHolidayValues
+  user: User
+}) {
+  const logger = getLogger('holiday.service:updateHoliday')
+  const prisma = getPrisma()
+
+  const existing = await prisma.holiday.findUnique({ where: { id } })
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy ngày nghỉ lễ.',
+    })
+  }
+  if (data.date && data.date !== existing.date) {
+    await assertDateIsFree(data.date, id)
+  }
+
+  const holiday = await prisma.holiday.update({
+    where: { id },
+    data: { ...data, updatedBy: user.id },
+  })
+
+  logger.info({ holiday, userId: user.id }, 'Holiday updated')
+
+  return holiday
+}
+
+export async function deleteHoliday({ id, user }: { id: string; user: User }) {
+  const logger = getLogger('holiday.service:deleteHoliday')
+  const prisma = getPrisma()
+
+  const existing = await prisma.holiday.findUnique({ where: { id } })
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy ngày nghỉ lễ.',
+    })
+  }
+
+  await prisma.holiday.delete({ where: { id } })
+
+  logger.info({ holiday: existing, userId: user.id }, 'Holiday deleted')
+}
+
+/**
+ * Public holidays between two days (inclusive), by date
+ */
+export async function findHolidays({ from, to }: { from: string; to: string }) {
+  const prisma = getPrisma()
+
+  return prisma.holiday.findMany({
+    where: { date: { gte: from, lte: to } },
+    orderBy: { date: 'asc' },
+  })
+}
+
+/**
+ * The working weekdays of the settings and the public holidays between two
+ * days (inclusive), to count working days in that range
+ */
+export async function getWorkingCalendar({
+  from,
+  to,
+}: {
+  from: string
+  to: string
+}): Promise<WorkingCalendar> {
+  const [{ workingWeekdays }, holidays] = await Promise.all([
+    getAppSettings(),
+    findHolidays({ from, to }),
+  ])
+
+  return {
+    workingWeekdays,
+    holidays: new Set(holidays.map((holiday) => holiday.date)),
+  }
+}
@@ -2,22 +2,47 @@ import { Hono } from 'hono'
 import accountApp from './account/account.route'
 import activityApp from './activity/activity.route'
 import attachmentApp from './attachment/attachment.route'
+import attendanceApp from './attendance/attendance.route'
+import checklistApp from './checklist/checklist.route'
+import cronApp from './cron/cron.route'
+import dispatchApp from './dispatch/dispatch.route'
+import holidayApp from './holiday/holiday.route'
+import leaveApp from './leave/leave.route'
+import locationApp from './location/location.route'
 import { authMiddleware } from './middlewares/auth'
 import paymentApp from './payment/payment.route'
 import reportApp from './reports/report.route'
+import settingsApp from './settings/settings.route'
+import skillApp from './skill/skill.route'
 import taskApp from './task/task.route'
 import taskEventsApp from './task-events/task-event.route'
+import taskEventFlagApp from './task-events/task-event-flag.route'
+import taskScheduleApp from './task-schedule/task-schedule.route'
+import teamApp from './team/team.route'
 import userApp from './user/user.route'
 
 export const hono = new Hono()
   .get('/health', (c) => c.text('ok'))
+  // Cron jobs authenticate with CRON_SECRET instead of Clerk
+  .route('/cron', cronApp)
   .use('*', authMiddleware)
 
   .route('/account', accountApp)
   .route('/activity', activityApp)
   .route('/task', taskApp)
   .route('/task', taskEventsApp)
+  .route('/task-events', taskEventFlagApp)
+  .route('/task-schedule', taskScheduleApp)
+  .route('/dispatch', dispatchApp)
+  .route('/location', locationApp)
+  .route('/attendance', attendanceApp)
+  .route('/leave', leaveApp)
+  .route('/holiday', holidayApp)
+  .route('/team', teamApp)
+  .route('/skill', skillApp)
+  .route('/checklist-template', checklistApp)
   .route('/payment', paymentApp)
   .route('/user', userApp)
   .route('/attachments', attachmentApp)
   .route('/reports', reportApp)
+  .route('/settings', settingsApp)
@@ -0,0 +1,227 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  cancelLeaveRequest,
+  createLeaveRequest,
+  findApprovedLeaves,
+  getLeaveRequests,
+  reviewLeaveRequest,
+} from '../leave.service'
+
+describe('leave service', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+  const worker = createMockWorkerUser({ id: 'worker_1' })
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+  })
+
+  describe('createLeaveRequest', () => {
+    const data = {
+      type: 'ANNUAL',
+      startDate: '2027-02-05',
+      endDate: '2027-02-10',
+      reason: 'Nghỉ Tết',
+    }
+
+    it('should create a pending request for the user', async () => {
+      mockPrisma.leaveRequest.findFirst.mockResolvedValue(null)
+      mockPrisma.leaveRequest.create.mockResolvedValue({ id: 'leave_1' })
+
+      await createLeaveRequest({ user: worker, data })
+
+      expect(mockPrisma.leaveRequest.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 'worker_1',
+          status: { in: ['PENDING', 'APPROVED'] },
+          startDate: { lte: '2027-02-10' },
+          endDate: { gte: '2027-02-05' },
+        },
+      })
+      expect(mockPrisma.leaveRequest.create).toHaveBeenCalledWith({
+        data: { userId: 'worker_1', ...data },
+      })
+    })
+
+    it('should reject a request overlapping another leave', async () => {
+      mockPrisma.leaveRequest.findFirst.mockResolvedValue({ id: 'leave_0' })
+
+      await expect(createLeaveRequest({ user: worker, data })).rejects.toThrow(
+        'Bạn đã có đơn nghỉ phép trùng ngày.',
+      )
+      expect(mockPrisma.leaveRequest.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getLeaveRequests', () => {
+    it('should only list the own requests of a worker', async () => {
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+
+      await getLeaveRequests({
+        user: worker,
+        query: { userId: 'worker_2', take: 20 },
+      })
+
+      expect(mockPrisma.leaveRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'worker_1' }, take: 21 }),
+      )
+    })
+
+    it('should filter everyone by status and days for admins', async () => {
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+
+      await getLeaveRequests({
+        user: admin,
+        query: {
+          status: 'APPROVED',
+          from: '2026-10-01',
+          to: '2026-10-31',
+          take: 20,
+        },
+      })
+
+      expect(mockPrisma.leaveRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'APPROVED',
+            endDate: { gte: '2026-10-01' },
+            startDate: { lte: '2026-10-31' },
+          },
+        }),
+      )
+    })
+  })
+
+  describe('reviewLeaveRequest', () => {
+    it('should approve a pending request', async () => {
+      mockPrisma.leaveRequest.findUnique.mockResolvedValue({
+        id: 'leave_1',
+        status: 'PENDING',
+      })
+      mockPrisma.leaveRequest.update.mockResolvedValue({ id: 'leave_1' })
+
+      await reviewLeaveRequest({
+        id: 'leave_1',
+        user: admin,
+        data: { status: 'APPROVED' },
+      })
+
+      expect(mockPrisma.leaveRequest.update).toHaveBeenCalledWith({
+        where: { id: 'leave_1' },
+        data: {
+          status: 'APPROVED',
+          reviewedAt: expect.any(Date),
+          reviewedBy: 'admin_1',
+          reviewNote: null,
+        },
+      })
+    })
+
+    it('should not review a request twice', async () => {
+      mockPrisma.leaveRequest.findUnique.mockResolvedValue({
+        id: 'leave_1',
+        status: 'REJECTED',
+      })
+
+      await expect(
+        reviewLeaveRequest({
+          id: 'leave_1',
+          user: admin,
+          data: { status: 'APPROVED' },
+        }),
+      ).rejects.toThrow('Đơn nghỉ phép này đã được xử lý.')
+    })
+  })
+
+  describe('cancelLeaveRequest', () => {
+    const now = new Date('2026-10-20T03:00:00Z')
+
+    it('should cancel an approved leave that has not ended', async () => {
+      mockPrisma.leaveRequest.findUnique.mockResolvedValue({
+        id: 'leave_1',
+        userId: 'worker_1',
+        status: 'APPROVED',
+        endDate: '2026-10-20',
+      })
+      mockPrisma.leaveRequest.update.mockResolvedValue({ id: 'leave_1' })
+
+      await cancelLeaveRequest({ id: 'leave_1', user: worker, now })
+
+      expect(mockPrisma.leaveRequest.update).toHaveBeenCalledWith({
+        where: { id: 'leave_1' },
+        data: { status: 'CANCELLED' },
+      })
+    })
+
+    it('should not cancel the leave of someone else or a past leave', async () => {
+      mockPrisma.leaveRequest.findUnique.mockResolvedValueOnce({
+        id: 'leave_1',
+        userId: 'worker_2',
+        status: 'PENDING',
+        endDate: '2026-10-25',
+      })
+      await expect(
+        cancelLeaveRequest({ id: 'leave_1', user: worker, now }),
+      ).rejects.toThrow('Không tìm thấy đơn nghỉ phép.')
+
+      mockPrisma.leaveRequest.findUnique.mockResolvedValueOnce({
+        id: 'leave_2',
+        userId: 'worker_1',
+        status: 'APPROVED',
+        endDate: '2026-10-19',
+      })
+      await expect(
+        cancelLeaveRequest({ id: 'leave_2', user: worker, now }),
+      ).rejects.toThrow('Không thể hủy đơn nghỉ phép này.')
+      expect(mockPrisma.leaveRequest.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findApprovedLeaves', () => {
+    it('should find approved leaves overlapping the days', async () => {
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+
+      await findApprovedLeaves({
+        userIds: ['worker_1'],
+        from: '2026-10-20',
+        to: '2026-10-20',
+      })
+
+      expect(mockPrisma.leaveRequest.findMany).toHaveBeenCalledWith({
+        where: {
+          status: 'APPROVED',
+          userId: { in: ['worker_1'] },
+          startDate: { lte: '2026-10-20' },
+          endDate: { gte: '2026-10-20' },
+        },
+        orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+      })
+    })
+
+    it('should not query without workers', async () => {
+      await expect(
+        findApprovedLeaves({
+          userIds: [],
+          from: '2026-10-20',
+          to: '2026-10-20',
+        }),
+      ).resolves.toEqual([])
+      expect(mockPrisma.leaveRequest.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
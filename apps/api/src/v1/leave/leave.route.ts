@@ -0,0 +1,157 @@
+import {
+  z,
+  zCreateLeaveRequest,
+  zLeaveRequestQuery,
+  zReviewLeaveRequest,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  cancelLeaveRequest,
+  canUserReviewLeaveRequests,
+  createLeaveRequest,
+  getLeaveRequests,
+  reviewLeaveRequest,
+} from './leave.service'
+
+const zLeaveRequestIdParam = z.object({ id: z.string().min(1) })
+
+/**
+ * Leave Router - workers ask for leave, admins approve or reject it
+ *
+ * Mounted at: /v1/leave
+ */
+const router = new Hono()
+  /**
+   * GET /v1/leave
+   *
+   * List leave requests (workers only get their own)
+   *
+   * Query Parameters:
+   * - status?: PENDING | APPROVED | REJECTED | CANCELLED
+   * - userId?: Worker (admin only)
+   * - from?, to?: Only leaves overlapping these days (YYYY-MM-DD)
+   * - cursor: Pagination cursor
+   * - take: Number of results (1-100, default 20)
+   *
+   * Response:
+   * - leaveRequests: Leave requests, latest start first
+   * - nextCursor, hasNextPage
+   */
+  .get('/', zValidator('query', zLeaveRequestQuery), async (c) => {
+    const logger = getLogger('leave.route:getLeaveRequests')
+    const query = c.req.valid('query')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const result = await getLeaveRequests({ user, query })
+      return c.json(result, 200)
+    } catch (error) {
+      logger.error({ error, query }, 'Failed to load leave requests')
+      throw new HTTPException(500, {
+        message: 'Không thể tải danh sách nghỉ phép. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * POST /v1/leave
+   *
+   * Ask for leave, pending until an admin reviews it
+   *
+   * Body:
+   * - type: ANNUAL | SICK | PERSONAL | UNPAID
+   * - startDate, endDate: Inclusive days off (YYYY-MM-DD)
+   * - reason?: Max 500 characters
+   *
+   * Response: The leave request (201)
+   */
+  .post('/', zValidator('json', zCreateLeaveRequest), async (c) => {
+    const logger = getLogger('leave.route:createLeaveRequest')
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const leaveRequest = await createLeaveRequest({ user, data })
+      return c.json(leaveRequest, 201)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+      logger.error({ error, userId: user.id }, 'Failed to create leave request')
+      throw new HTTPException(500, {
+        message: 'Không thể gửi đơn nghỉ phép. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * POST /v1/leave/:id/review
+   *
+   * Approve or reject a pending leave request (admin only)
+   *
+   * Body:
+   * - status: APPROVED | REJECTED
+   * - reviewNote?: Admin note (max 500 characters)
+   */
+  .post(
+    '/:id/review',
+    zValidator('param', zLeaveRequestIdParam),
+    zValidator('json', zReviewLeaveRequest),
+    async (c) => {
+      const logger = getLogger('leave.route:reviewLeaveRequest')
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      if (!(await canUserReviewLeaveRequests({ user }))) {
+        throw new HTTPException(403, {
+          message: 'Chỉ admin mới có thể duyệt đơn nghỉ phép.',
+          cause: 'Permission denied',
+        })
+      }
+
+      try {
+        const leaveRequest = await reviewLeaveRequest({ id, user, data })
+        return c.json(leaveRequest, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+        logger.error({ error, id }, 'Failed to review leave request')
+        throw new HTTPException(500, {
+          message: 'Không thể cập nhật đơn nghỉ phép. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+  /**
+   * POST /v1/leave/:id/cancel
+   *
+   * Withdraw the current user's own leave request
+   */
+  .post('/:id/cancel', zValidator('param', zLeaveRequestIdParam), async (c) => {
+    const logger = getLogger('leave.route:cancelLeaveRequest')
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const leaveRequest = await cancelLeaveRequest({ id, user })
+      return c.json(leaveRequest, 200)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+      logger.error({ error, id }, 'Failed to cancel leave request')
+      throw new HTTPException(500, {
+        message: 'Không thể hủy đơn nghỉ phép. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+
+export default router
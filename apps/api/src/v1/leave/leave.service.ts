@@ -0,0 +1,250 @@
+import type { User } from '@clerk/backend'
+import { LeaveStatus, type Prisma } from '@nv-internal/prisma-client'
+import type {
+  CreateLeaveRequest,
+  LeaveRequestQuery,
+  ReviewLeaveRequest,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { toCalendarDay } from '../../lib/scheduling'
+import { isUserAdmin } from '../user/user.service'
+
+/** Leaves that keep a worker away (or will once approved) */
+const ACTIVE_LEAVE_STATUSES: LeaveStatus[] = [
+  LeaveStatus.PENDING,
+  LeaveStatus.APPROVED,
+]
+
+/** Leaves overlapping the inclusive calendar days `from` - `to` */
+const overlappingDays = (from: string, to: string) =>
+  ({
+    startDate: { lte: to },
+    endDate: { gte: from },
+  }) satisfies Prisma.LeaveRequestWhereInput
+
+export async function canUserReviewLeaveRequests({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Ask for leave, pending until an admin reviews it
+ *
+ * @throws HTTPException 400 when it overlaps another pending or approved
+ *   leave of the user
+ */
+export async function createLeaveRequest({
+  user,
+  data,
+}: {
+  user: User
+  data: CreateLeaveRequest
+}) {
+  const logger = getLogger('leave.service:createLeaveRequest')
+  const prisma = getPrisma()
+
+  const overlapping = await prisma.leaveRequest.findFirst({
+    where: {
+      userId: user.id,
+      status: { in: ACTIVE_LEAVE_STATUSES },
+      ...overlappingDays(data.startDate, data.endDate),
+    },
+  })
+
+  if (overlapping) {
+    throw new HTTPException(400, {
+      message: 'Bạn đã có đơn nghỉ phép trùng ngày.',
+      cause: 'Overlapping leave request',
+    })
+  }
+
+  const leaveRequest = await prisma.leaveRequest.create({
+    data: {
+      userId: user.id,
+      type: data.type,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      reason: data.reason || null,
+    },
+  })
+
+  logger.info(
+    { leaveRequestId: leaveRequest.id, userId: user.id },
+    'Leave requested',
+  )
+
+  return leaveRequest
+}
+
+/**
+ * Leave requests, most recent first
+ *
+ * Workers only see their own, admins see everyone's and can filter by
+ * worker.
+ */
+export async function getLeaveRequests({
+  user,
+  query,
+}: {
+  user: User
+  query: LeaveRequestQuery
+}) {
+  const prisma = getPrisma()
+  const { status, userId, from, to, cursor, take } = query
+  const ownerId = isUserAdmin({ user }) ? userId : user.id
+
+  const where: Prisma.LeaveRequestWhereInput = {
+    ...(ownerId ? { userId: ownerId } : {}),
+    ...(status ? { status } : {}),
+    ...(from ? { endDate: { gte: from } } : {}),
+    ...(to ? { startDate: { lte: to } } : {}),
+  }
+
+  const leaveRequests = await prisma.leaveRequest.findMany({
+    where,
+    orderBy: [{ startDate: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  })
+
+  const hasNextPage = leaveRequests.length > take
+  const items = hasNextPage ? leaveRequests.slice(0, take) : leaveRequests
+  const nextCursor = hasNextPage ? items[items.length - 1].id : undefined
+
+  return {
+    leaveRequests: items,
+    nextCursor,
+    hasNextPage,
+  }
+}
+
+/**
+ * Approve or reject a pending leave request
+ *
+ * @throws HTTPException 404 when the request does not exist, 400 when it is
+ *   no longer pending
+ */
+export async function reviewLeaveRequest({
+  id,
+  user,
+  data,
+}: {
+  id: string
+  user: User
+  data: ReviewLeaveRequest
+}) {
+  const logger = getLogger('leave.service:reviewLeaveRequest')
+  const prisma = getPrisma()
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({ where: { id } })
+
+  if (!leaveRequest) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy đơn nghỉ phép.',
+      cause: 'Leave request not found',
+    })
+  }
+
+  if (leaveRequest.status !== LeaveStatus.PENDING) {
+    throw new HTTPException(400, {
+      message: 'Đơn nghỉ phép này đã được xử lý.',
+      cause: 'Leave request already reviewed',
+    })
+  }
+
+  const reviewed = await prisma.leaveRequest.update({
+    where: { id },
+    data: {
+      status: data.status,
+      reviewedAt: new Date(),
+      reviewedBy: user.id,
+      reviewNote: data.reviewNote || null,
+    },
+  })
+
+  logger.info(
+    { leaveRequestId: id, userId: user.id, status: data.status },
+    'Leave request reviewed',
+  )
+
+  return reviewed
+}
+
+/**
+ * Withdraw the user's own leave request, pending or approved, until its last
+ * day has passed
+ *
+ * @throws HTTPException 404 when the request does not exist or belongs to
+ *   someone else, 400 when it can no longer be cancelled
+ */
+export async function cancelLeaveRequest({
+  id,
+  user,
+  now = new Date(),
+}: {
+  id: string
+  user: User
+  now?: Date
+}) {
+  const logger = getLogger('leave.service:cancelLeaveRequest')
+  const prisma = getPrisma()
+
+  const leaveRequest = await prisma.leaveRequest.findUnique({ where: { id } })
+
+  if (!leaveRequest || leaveRequest.userId !== user.id) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy đơn nghỉ phép.',
+      cause: 'Leave request not found',
+    })
+  }
+
+  if (
+    !ACTIVE_LEAVE_STATUSES.includes(leaveRequest.status) ||
+    leaveRequest.endDate < toCalendarDay(now)
+  ) {
+    throw new HTTPException(400, {
+      message: 'Không thể hủy đơn nghỉ phép này.',
+      cause: 'Leave request cannot be cancelled',
+    })
+  }
+
+  const cancelled = await prisma.leaveRequest.update({
+    where: { id },
+    data: { status: LeaveStatus.CANCELLED },
+  })
+
+  logger.info({ leaveRequestId: id, userId: user.id }, 'Leave cancelled')
+
+  return cancelled
+}
+
+/**
+ * Approved leaves overlapping the inclusive calendar days `from` - `to`
+ *
+ * @param userIds - Only these workers, everyone when omitted
+ */
+export async function findApprovedLeaves({
+  userIds,
+  from,
+  to,
+}: {
+  userIds?: string[]
+  from: string
+  to: string
+}) {
+  if (userIds?.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
+
+  return prisma.leaveRequest.findMany({
+    where: {
+      status: LeaveStatus.APPROVED,
+      ...(userIds ? { userId: { in: userIds } } : {}),
+      ...overlappingDays(from, to),
+    },
+    orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+  })
+}
@@ -0,0 +1,254 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  deleteExpiredLocationPoints,
+  getTaskLocationTrails,
+  getUserDailyTrack,
+  getUserTravelLog,
+  recordLocationPings,
+} from '../location.service'
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`)
+
+describe('location.service', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+  const worker = createMockWorkerUser({ id: 'worker_1' })
+  const now = at('05:00')
+
+  const ping = (time: string, overrides = {}) => ({
+    lat: 10.7,
+    lng: 106.6297,
+    accuracy: 10,
+    recordedAt: at(time).toISOString(),
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockPrisma.taskVisit.findMany.mockResolvedValue([])
+    mockPrisma.taskVisit.count.mockResolvedValue(0)
+    mockPrisma.locationPoint.findMany.mockResolvedValue([])
+  })
+
+  describe('recordLocationPings', () => {
+    it('should link positions to the visit they were recorded during', async () => {
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        { taskId: 2, checkedInAt: at('03:00'), checkedOutAt: null },
+        { taskId: 1, checkedInAt: at('01:00'), checkedOutAt: at('02:00') },
+      ])
+      mockPrisma.taskVisit.count.mockResolvedValue(1)
+
+      const result = await recordLocationPings({
+        user: worker,
+        points: [ping('01:30'), ping('02:30'), ping('04:00')],
+        now,
+      })
+
+      expect(result).toEqual({ accepted: 2, rejected: 1, tracking: true })
+      expect(mockPrisma.locationPoint.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ taskId: 1, recordedAt: at('01:30') }),
+          expect.objectContaining({ taskId: 2, recordedAt: at('04:00') }),
+        ],
+        skipDuplicates: true,
+      })
+    })
+
+    it('should reject positions from the future or past retention', async () => {
+      const result = await recordLocationPings({
+        user: worker,
+        points: [
+          ping('05:30'),
+          ping('04:00', { recordedAt: '2026-09-01T00:00:00.000Z' }),
+        ],
+        now,
+      })
+
+      expect(result).toEqual({ accepted: 0, rejected: 2, tracking: false })
+      expect(mockPrisma.taskVisit.findMany).not.toHaveBeenCalled()
+      expect(mockPrisma.locationPoint.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getUserDailyTrack', () => {
+    it('should not let a worker read another worker', async () => {
+      await expect(
+        getUserDailyTrack({
+          user: worker,
+          query: { userId: 'worker_2', date: '2026-10-20' },
+        }),
+      ).rejects.toMatchObject({ status: 403 })
+    })
+
+    it('should simplify the day and leave inaccurate positions out', async () => {
+      mockPrisma.locationPoint.findMany.mockResolvedValue([
+        { lat: 10.7, lng: 106.6297, accuracy: 5, recordedAt: at('01:00') },
+        { lat: 10.701, lng: 106.6297, accuracy: 5, recordedAt: at('01:05') },
+        { lat: 10.71, lng: 106.64, accuracy: 500, recordedAt: at('01:07') },
+        { lat: 10.702, lng: 106.6297, accuracy: 5, recordedAt: at('01:10') },
+      ])
+
+      const track = await getUserDailyTrack({
+        user: admin,
+        query: { userId: 'worker_1', date: '2026-10-20' },
+      })
+
+      expect(track.trail.map((point) => point.lat)).toEqual([10.7, 10.702])
+      expect(track.totalPoints).toBe(4)
+      expect(track.latest.recordedAt).toEqual(at('01:10'))
+      expect(mockPrisma.locationPoint.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'worker_1',
+            recordedAt: {
+              gte: new Date('2026-10-19T17:00:00.000Z'),
+              lt: new Date('2026-10-20T17:00:00.000Z'),
+            },
+          },
+        }),
+      )
+    })
+  })
+
+  describe('getUserTravelLog', () => {
+    const visit = (taskId, checkedInAt, checkedOutAt, lat) => ({
+      taskId,
+      checkedInAt: at(checkedInAt),
+      checkedOutAt: checkedOutAt ? at(checkedOutAt) : null,
+      checkInGeoLocation: { lat, lng: 106.6297 },
+      checkOutGeoLocation: checkedOutAt ? { lat, lng: 106.6297 } : null,
+    })
+
+    it('should not let a worker read another worker', async () => {
+      await expect(
+        getUserTravelLog({
+          user: worker,
+          query: { userId: 'worker_2', date: '2026-10-20' },
+        }),
+      ).rejects.toMatchObject({ status: 403 })
+    })
+
+    it('should return the legs of the day with the road multiplier', async () => {
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        visit(1, '01:00', '02:00', 10.7),
+        visit(2, '02:30', '03:30', 10.71),
+        visit(3, '04:00', null, 10.73),
+      ])
+      mockPrisma.appSettings.findUnique.mockResolvedValue({
+        roadDistanceMultiplier: 1.5,
+      })
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 1, title: 'Lắp máy lạnh' },
+        { id: 2, title: 'Bảo trì' },
+        { id: 3, title: 'Sửa ống nước' },
+      ])
+
+      const log = await getUserTravelLog({
+        user: admin,
+        query: { userId: 'worker_1', date: '2026-10-20' },
+      })
+
+      expect(log.legs).toHaveLength(2)
+      expect(log.legs[0]).toMatchObject({
+        fromTaskId: 1,
+        toTaskId: 2,
+        straightLineMeters: 1112,
+        distanceMeters: 1668,
+        travelMinutes: 30,
+      })
+      expect(log.roadDistanceMultiplier).toBe(1.5)
+      expect(log.legCount).toBe(2)
+      expect(log.distanceKm).toBe(5)
+      expect(log.travelMinutes).toBe(60)
+      expect(log.tasks).toHaveLength(3)
+    })
+  })
+
+  describe('getTaskLocationTrails', () => {
+    it('should return the trail and latest position of each worker', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue({
+        id: 1,
+        assigneeIds: ['worker_1', 'worker_2'],
+      })
+      mockPrisma.locationPoint.findMany.mockResolvedValueOnce([
+        {
+          userId: 'worker_1',
+          lat: 10.701,
+          accuracy: 5,
+          lng: 106.6297,
+          recordedAt: at('01:05'),
+        },
+        {
+          userId: 'worker_1',
+          lat: 10.7,
+          accuracy: 5,
+          lng: 106.6297,
+          recordedAt: at('01:00'),
+        },
+      ])
+      mockPrisma.locationPoint.findFirst
+        .mockResolvedValueOnce({
+          lat: 10.8,
+          lng: 106.7,
+          recordedAt: at('03:00'),
+        })
+        .mockResolvedValueOnce(null)
+
+      const trails = await getTaskLocationTrails({ taskId: 1 })
+
+      expect(mockPrisma.locationPoint.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'worker_1' },
+        select: expect.any(Object),
+        orderBy: { recordedAt: 'desc' },
+      })
+
+      expect(trails.workers).toEqual([
+        {
+          userId: 'worker_1',
+          trail: [
+            expect.objectContaining({ lat: 10.7 }),
+            expect.objectContaining({ lat: 10.701 }),
+          ],
+          latest: expect.objectContaining({ lat: 10.8 }),
+        },
+        { userId: 'worker_2', trail: [], latest: null },
+      ])
+    })
+
+    it('should throw 404 for a missing task', async () => {
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+
+      await expect(getTaskLocationTrails({ taskId: 1 })).rejects.toMatchObject({
+        status: 404,
+      })
+    })
+  })
+
+  describe('deleteExpiredLocationPoints', () => {
+    it('should delete positions past retention', async () => {
+      mockPrisma.locationPoint.deleteMany.mockResolvedValue({ count: 3 })
+
+      const result = await deleteExpiredLocationPoints({ now })
+
+      expect(result).toEqual({ pointsDeleted: 3 })
+      expect(mockPrisma.locationPoint.deleteMany).toHaveBeenCalledWith({
+        where: { recordedAt: { lt: new Date('2026-09-20T05:00:00.000Z') } },
+      })
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import {
+  zLocationPingInput,
+  zLocationTrackQuery,
+  zNumericIdParam,
+  zTravelLogQuery,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserViewLocationTracks,
+  getLocationTrackingStatus,
+  getTaskLocationTrails,
+  getUserDailyTrack,
+  getUserTravelLog,
+  recordLocationPings,
+} from './location.service'
+
+/**
+ * Location Router - worker breadcrumbs during visits
+ *
+ * Mounted at: /v1/location
+ */
+const router = new Hono()
+  /**
+   * POST /v1/location/pings
+   *
+   * Store a batch of the current user's positions. Positions outside an open
+   * visit are rejected.
+   *
+   * Body:
+   * - points: [{ lat, lng, accuracy?, recordedAt }] (max 100)
+   *
+   * Response:
+   * - accepted, rejected: Position counts
+   * - tracking: Whether the user still has an open visit
+   */
+  .post('/pings', zValidator('json', zLocationPingInput), async (c) => {
+    const logger = getLogger('location.route:recordPings')
+    const user = getAuthUserStrict(c)
+    const { points } = c.req.valid('json')
+
+    try {
+      const result = await recordLocationPings({ user, points })
+      return c.json(result, 201)
+    } catch (error) {
+      logger.error({ error, userId: user.id }, 'Failed to record pings')
+      throw new HTTPException(500, {
+        message: 'Không thể lưu vị trí. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/location/tracking
+   *
+   * Whether the current user's device should record positions
+   *
+   * Response:
+   * - tracking: True while the user has an open visit
+   * - taskIds: Tasks of the open visits
+   */
+  .get('/tracking', async (c) => {
+    const logger = getLogger('location.route:getTrackingStatus')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const status = await getLocationTrackingStatus({ user })
+      return c.json(status)
+    } catch (error) {
+      logger.error({ error, userId: user.id }, 'Failed to load tracking')
+      throw new HTTPException(500, {
+        message: 'Không thể tải trạng thái định vị. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/location/track
+   *
+   * Simplified trail of a worker on a day. Workers can only read their own.
+   *
+   * Query Parameters:
+   * - userId: Worker
+   * - date: Day (YYYY-MM-DD, Asia/Ho_Chi_Minh)
+   *
+   * Response:
+   * - trail: Simplified positions in order
+   * - totalPoints: Number of recorded positions
+   * - latest: Last recorded position or null
+   */
+  .get('/track', zValidator('query', zLocationTrackQuery), async (c) => {
+    const logger = getLogger('location.route:getDailyTrack')
+    const user = getAuthUserStrict(c)
+    const query = c.req.valid('query')
+
+    try {
+      const track = await getUserDailyTrack({ user, query })
+      return c.json(track)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+
+      logger.error({ error, ...query }, 'Failed to load daily track')
+      throw new HTTPException(500, {
+        message: 'Không thể tải lộ trình di chuyển. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/location/travel
+   *
+   * Travel legs of a worker between jobs on a day, for mileage. Workers can
+   * only read their own.
+   *
+   * Query Parameters:
+   * - userId: Worker
+   * - date: Day (YYYY-MM-DD, Asia/Ho_Chi_Minh)
+   *
+   * Response:
+   * - legs: [{ fromTaskId, toTaskId, departedAt, arrivedAt, distanceMeters,
+   *   straightLineMeters, travelMinutes, ... }] in order
+   * - tasks: [{ id, title }] of the legs
+   * - roadDistanceMultiplier: Multiplier applied to straight lines
+   * - legCount, distanceKm, travelMinutes: Day totals
+   */
+  .get('/travel', zValidator('query', zTravelLogQuery), async (c) => {
+    const logger = getLogger('location.route:getTravelLog')
+    const user = getAuthUserStrict(c)
+    const query = c.req.valid('query')
+
+    try {
+      const travelLog = await getUserTravelLog({ user, query })
+      return c.json(travelLog)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+
+      logger.error({ error, ...query }, 'Failed to load travel log')
+      throw new HTTPException(500, {
+        message: 'Không thể tải nhật ký di chuyển. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/location/task/:id
+   *
+   * Latest position and trail of each worker on a task (admin only)
+   *
+   * Response:
+   * - workers: [{ userId, trail, latest }]
+   */
+  .get('/task/:id', zValidator('param', zNumericIdParam), async (c) => {
+    const logger = getLogger('location.route:getTaskTrails')
+    const user = getAuthUserStrict(c)
+    const { id: taskId } = c.req.valid('param')
+
+    if (!(await canUserViewLocationTracks({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể xem vị trí nhân viên.',
+        cause: 'Permission denied',
+      })
+    }
+
+    try {
+      const trails = await getTaskLocationTrails({ taskId })
+      return c.json(trails)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+
+      logger.error({ error, taskId }, 'Failed to load task trails')
+      throw new HTTPException(500, {
+        message: 'Không thể tải vị trí nhân viên. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+
+export default router
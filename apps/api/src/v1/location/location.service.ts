@@ -0,0 +1,376 @@
+import type { User } from '@clerk/backend'
+import type {
+  LocationPingInput,
+  LocationTrackQuery,
+  TravelLogQuery,
+} from '@nv-internal/validation'
+import { addMinutes, subDays } from 'date-fns'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { simplifyPolyline } from '../../lib/polyline'
+import { getPrisma } from '../../lib/prisma'
+import { getCalendarRange } from '../../lib/scheduling'
+import { buildTravelLegs, summarizeTravelLegs } from '../../lib/travel'
+import { getAppSettings } from '../settings/settings.service'
+import { isUserAdmin } from '../user/user.service'
+
+/** Positions older than this are deleted by the retention cron job */
+export const LOCATION_RETENTION_DAYS = 30
+
+// Device clocks drift, positions a little ahead of the server are accepted
+const MAX_PING_CLOCK_SKEW_MINUTES = 5
+
+// Trails drop positions less accurate than this (indoors, no GPS fix) and
+// deviations smaller than the tolerance
+const MAX_TRAIL_ACCURACY_METERS = 100
+const TRAIL_TOLERANCE_METERS = 15
+
+// A task trail covers its visits, which never span more positions than this
+const MAX_TASK_TRAIL_POINTS = 5000
+
+const LOCATION_POINT_SELECT = {
+  lat: true,
+  lng: true,
+  accuracy: true,
+  recordedAt: true,
+  taskId: true,
+} as const
+
+/** Visit fields needed to build travel legs (see buildTravelLegs) */
+export const TRAVEL_VISIT_SELECT = {
+  taskId: true,
+  checkedInAt: true,
+  checkedOutAt: true,
+  checkInGeoLocation: { select: { lat: true, lng: true } },
+  checkOutGeoLocation: { select: { lat: true, lng: true } },
+} as const
+
+type TrailPoint = {
+  lat: number
+  lng: number
+  accuracy: number | null
+  recordedAt: Date
+  taskId: number
+}
+
+/** Simplified trail of accurate positions, in recording order */
+function toTrail(points: TrailPoint[]) {
+  return simplifyPolyline(
+    points.filter(
+      (point) =>
+        point.accuracy === null || point.accuracy <= MAX_TRAIL_ACCURACY_METERS,
+    ),
+    TRAIL_TOLERANCE_METERS,
+  )
+}
+
+export async function canUserViewLocationTracks({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/** Admins can read any worker's locations, workers only their own */
+async function assertCanViewUserLocations({
+  user,
+  userId,
+}: {
+  user: User
+  userId: string
+}) {
+  if (userId !== user.id && !(await canUserViewLocationTracks({ user }))) {
+    throw new HTTPException(403, {
+      message: 'Bạn không có quyền xem vị trí của nhân viên khác.',
+      cause: 'Permission denied',
+    })
+  }
+}
+
+/**
+ * Store a batch of positions from a worker's device
+ *
+ * Positions are only kept while the worker has a visit open (between
+ * check-in and check-out) and are linked to the visit's task. Positions
+ * outside visits, in the future or past retention are rejected. A batch
+ * resent after a failed upload is ignored (one position per worker and time).
+ *
+ * @returns Accepted and rejected counts, and whether the worker still has an
+ *   open visit (the device stops tracking when false)
+ */
+export async function recordLocationPings({
+  user,
+  points,
+  now = new Date(),
+}: {
+  user: User
+  points: LocationPingInput['points']
+  now?: Date
+}) {
+  const logger = getLogger('location.service:recordLocationPings')
+  const prisma = getPrisma()
+
+  const latest = addMinutes(now, MAX_PING_CLOCK_SKEW_MINUTES)
+  const earliest = subDays(now, LOCATION_RETENTION_DAYS)
+  const validPoints = points
+    .map((point) => ({ ...point, recordedAt: new Date(point.recordedAt) }))
+    .filter(
+      (point) => point.recordedAt <= latest && point.recordedAt >= earliest,
+    )
+
+  const recordedAts = validPoints.map((point) => point.recordedAt.getTime())
+  const visits = validPoints.length
+    ? await prisma.taskVisit.findMany({
+        where: {
+          userId: user.id,
+          checkedInAt: { lte: new Date(Math.max(...recordedAts)) },
+          // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+          OR: [
+            { checkedOutAt: null },
+            { checkedOutAt: { gte: new Date(Math.min(...recordedAts)) } },
+          ],
+        },
+        select: { taskId: true, checkedInAt: true, checkedOutAt: true },
+        orderBy: { checkedInAt: 'desc' },
+      })
+    : []
+
+  // The latest visit covering a position wins (team jobs never overlap for
+  // one worker, but a forgotten check-out would)
+  const rows = validPoints.flatMap((point) => {
+    const visit = visits.find(
+      ({ checkedInAt, checkedOutAt }) =>
+        checkedInAt <= point.recordedAt &&
+        (!checkedOutAt || checkedOutAt >= point.recordedAt),
+    )
+
+    return visit
+      ? [
+          {
+            userId: user.id,
+            taskId: visit.taskId,
+            lat: point.lat,
+            lng: point.lng,
+            accuracy: point.accuracy ?? null,
+            recordedAt: point.recordedAt,
+          },
+        ]
+      : []
+  })
+
+  if (rows.length > 0) {
+    await prisma.locationPoint.createMany({ data: rows, skipDuplicates: true })
+  }
+
+  const tracking = await prisma.taskVisit.count({
+    where: { userId: user.id, checkedOutAt: null },
+  })
+
+  logger.info(
+    {
+      userId: user.id,
+      received: points.length,
+      accepted: rows.length,
+    },
+    'Recorded location pings',
+  )
+
+  return {
+    accepted: rows.length,
+    rejected: points.length - rows.length,
+    tracking: tracking > 0,
+  }
+}
+
+/**
+ * Whether the worker's device should record positions
+ *
+ * @returns `tracking` while the worker has an open visit, with the tasks
+ */
+export async function getLocationTrackingStatus({ user }: { user: User }) {
+  const prisma = getPrisma()
+
+  const openVisits = await prisma.taskVisit.findMany({
+    where: { userId: user.id, checkedOutAt: null },
+    select: { taskId: true },
+  })
+
+  return {
+    tracking: openVisits.length > 0,
+    taskIds: [...new Set(openVisits.map((visit) => visit.taskId))],
+  }
+}
+
+/**
+ * Simplified trail of a worker on a day (Asia/Ho_Chi_Minh)
+ *
+ * Admins can read any worker's trail, workers only their own.
+ *
+ * @returns The trail, the number of recorded positions and the latest one
+ */
+export async function getUserDailyTrack({
+  user,
+  query,
+}: {
+  user: User
+  query: LocationTrackQuery
+}) {
+  const prisma = getPrisma()
+
+  await assertCanViewUserLocations({ user, userId: query.userId })
+
+  const { start, end } = getCalendarRange(query.date, query.date)
+  const points = await prisma.locationPoint.findMany({
+    where: { userId: query.userId, recordedAt: { gte: start, lt: end } },
+    select: LOCATION_POINT_SELECT,
+    orderBy: { recordedAt: 'asc' },
+  })
+
+  return {
+    userId: query.userId,
+    date: query.date,
+    trail: toTrail(points),
+    totalPoints: points.length,
+    latest: points.at(-1) ?? null,
+  }
+}
+
+/**
+ * Travel log of a worker on a day (Asia/Ho_Chi_Minh), for mileage
+ *
+ * Legs go from the worker's check-out (or check-in) at a job to their next
+ * check-in, with the road multiplier of the settings applied to the straight
+ * line. Admins can read any worker's log, workers only their own.
+ *
+ * @returns The legs with their tasks, and the day's totals
+ */
+export async function getUserTravelLog({
+  user,
+  query,
+}: {
+  user: User
+  query: TravelLogQuery
+}) {
+  const prisma = getPrisma()
+
+  await assertCanViewUserLocations({ user, userId: query.userId })
+
+  const { start, end } = getCalendarRange(query.date, query.date)
+  const visits = await prisma.taskVisit.findMany({
+    where: {
+      userId: query.userId,
+      checkedInAt: { lt: end },
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [{ checkedOutAt: null }, { checkedOutAt: { gte: start } }],
+    },
+    select: TRAVEL_VISIT_SELECT,
+  })
+
+  const { roadDistanceMultiplier } = await getAppSettings()
+  const legs = buildTravelLegs(visits, { roadDistanceMultiplier }).filter(
+    (leg) => leg.date === query.date,
+  )
+
+  const taskIds = [
+    ...new Set(legs.flatMap((leg) => [leg.fromTaskId, leg.toTaskId])),
+  ]
+  const tasks = taskIds.length
+    ? await prisma.task.findMany({
+        where: { id: { in: taskIds } },
+        select: { id: true, title: true },
+      })
+    : []
+
+  return {
+    userId: query.userId,
+    date: query.date,
+    roadDistanceMultiplier,
+    legs,
+    tasks,
+    ...summarizeTravelLegs(legs),
+  }
+}
+
+/**
+ * Trails of the workers on a task, for the admin task view
+ *
+ * Each assignee (or former assignee with positions on the task) gets the
+ * simplified trail of their visits on the task and their latest known
+ * position, which may come from another task.
+ */
+export async function getTaskLocationTrails({ taskId }: { taskId: number }) {
+  const prisma = getPrisma()
+
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, deletedAt: null },
+    select: { id: true, assigneeIds: true },
+  })
+
+  if (!task) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy công việc.',
+      cause: 'Task not found',
+    })
+  }
+
+  // Most recent positions first, so a capped trail keeps the current visit
+  const points = await prisma.locationPoint.findMany({
+    where: { taskId },
+    select: { ...LOCATION_POINT_SELECT, userId: true },
+    orderBy: { recordedAt: 'desc' },
+    take: MAX_TASK_TRAIL_POINTS,
+  })
+
+  const userIds = [
+    ...new Set([...task.assigneeIds, ...points.map((point) => point.userId)]),
+  ]
+
+  // One lookup per worker on the [userId, recordedAt] index, not all of
+  // their positions
+  const latestPoints = await Promise.all(
+    userIds.map((userId) =>
+      prisma.locationPoint.findFirst({
+        where: { userId },
+        select: LOCATION_POINT_SELECT,
+        orderBy: { recordedAt: 'desc' },
+      }),
+    ),
+  )
+
+  return {
+    taskId,
+    workers: userIds.map((userId, index) => {
+      const userPoints = points
+        .filter((point) => point.userId === userId)
+        .reverse()
+
+      return {
+        userId,
+        trail: toTrail(userPoints),
+        latest: latestPoints[index],
+      }
+    }),
+  }
+}
+
+/**
+ * Delete positions older than LOCATION_RETENTION_DAYS
+ *
+ * Run periodically by the cron job.
+ *
+ * @returns Number of positions deleted
+ */
+export async function deleteExpiredLocationPoints({
+  now = new Date(),
+}: {
+  now?: Date
+} = {}) {
+  const logger = getLogger('location.service:deleteExpiredLocationPoints')
+  const prisma = getPrisma()
+
+  const cutoff = subDays(now, LOCATION_RETENTION_DAYS)
+  const { count } = await prisma.locationPoint.deleteMany({
+    where: { recordedAt: { lt: cutoff } },
+  })
+
+  logger.info({ pointsDeleted: count, cutoff }, 'Deleted expired locations')
+
+  return { pointsDeleted: count }
+}
@@ -7,7 +7,19 @@ const mockPrismaInstance = {
   task: {
     findMany: jest.fn(),
   },
-  activity: {
+  taskVisit: {
+    findMany: jest.fn(),
+  },
+  appSettings: {
+    findUnique: jest.fn(),
+  },
+  holiday: {
+    findMany: jest.fn(),
+  },
+  leaveRequest: {
+    findMany: jest.fn(),
+  },
+  team: {
     findMany: jest.fn(),
   },
 }
@@ -68,6 +80,10 @@ describe('getEmployeesSummary', () => {
 
   beforeEach(() => {
     jest.clearAllMocks()
+    mockPrismaInstance.appSettings.findUnique.mockResolvedValue(null)
+    mockPrismaInstance.holiday.findMany.mockResolvedValue([])
+    mockPrismaInstance.leaveRequest.findMany.mockResolvedValue([])
+    mockPrismaInstance.team.findMany.mockResolvedValue([])
 
     // Setup Clerk client mock
     const getUserListMock = jest.fn()
@@ -115,15 +131,15 @@ describe('getEmployeesSummary', () => {
 
       // Mock check-ins
       const checkIns = [
-        { userId: 'user_1', createdAt: new Date('2025-01-15T08:00:00Z') },
-        { userId: 'user_1', createdAt: new Date('2025-01-16T08:00:00Z') },
-        { userId: 'user_2', createdAt: new Date('2025-01-16T09:00:00Z') },
-        { userId: 'user_2', createdAt: new Date('2025-01-17T09:00:00Z') },
-        { userId: 'user_3', createdAt: new Date('2025-01-18T09:00:00Z') },
+        { userId: 'user_1', checkedInAt: new Date('2025-01-15T08:00:00Z') },
+        { userId: 'user_1', checkedInAt: new Date('2025-01-16T08:00:00Z') },
+        { userId: 'user_2', checkedInAt: new Date('2025-01-16T09:00:00Z') },
+        { userId: 'user_2', checkedInAt: new Date('2025-01-17T09:00:00Z') },
+        { userId: 'user_3', checkedInAt: new Date('2025-01-18T09:00:00Z') },
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue(checkIns)
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue(checkIns)
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -180,6 +196,7 @@ describe('getEmployeesSummary', () => {
         activeEmployees: 0,
         totalRevenue: 0,
         totalTasks: 0,
+        workingDays: 27, // Monday to Saturday in January 2025
       })
     })
 
@@ -207,7 +224,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -252,7 +269,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -277,14 +294,14 @@ describe('getEmployeesSummary', () => {
 
       // Multiple check-ins on same day and different days
       const checkIns = [
-        { userId: 'user_1', createdAt: new Date('2025-01-15T08:00:00Z') },
-        { userId: 'user_1', createdAt: new Date('2025-01-15T14:00:00Z') }, // Same day
-        { userId: 'user_1', createdAt: new Date('2025-01-16T08:00:00Z') },
-        { userId: 'user_1', createdAt: new Date('2025-01-17T08:00:00Z') },
+        { userId: 'user_1', checkedInAt: new Date('2025-01-15T08:00:00Z') },
+        { userId: 'user_1', checkedInAt: new Date('2025-01-15T14:00:00Z') }, // Same day
+        { userId: 'user_1', checkedInAt: new Date('2025-01-16T08:00:00Z') },
+        { userId: 'user_1', checkedInAt: new Date('2025-01-17T08:00:00Z') },
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue(checkIns)
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue(checkIns)
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -305,7 +322,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -344,7 +361,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -368,12 +385,12 @@ describe('getEmployeesSummary', () => {
 
       // Check-in at UTC midnight (7 AM Vietnam time = next day)
       const checkIns = [
-        { userId: 'user_1', createdAt: new Date('2025-01-15T00:00:00Z') }, // 7 AM ICT
-        { userId: 'user_1', createdAt: new Date('2025-01-15T17:00:00Z') }, // Midnight ICT (next day)
+        { userId: 'user_1', checkedInAt: new Date('2025-01-15T00:00:00Z') }, // 7 AM ICT
+        { userId: 'user_1', checkedInAt: new Date('2025-01-15T17:00:00Z') }, // Midnight ICT (next day)
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue(checkIns)
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue(checkIns)
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-15',
@@ -399,7 +416,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -409,7 +426,7 @@ describe('getEmployeesSummary', () => {
 
       // Should call findMany exactly twice (tasks + activities)
       expect(mockPrismaInstance.task.findMany).toHaveBeenCalledTimes(1)
-      expect(mockPrismaInstance.activity.findMany).toHaveBeenCalledTimes(1)
+      expect(mockPrismaInstance.taskVisit.findMany).toHaveBeenCalledTimes(1)
       expect(mockClerkClient.users.getUserList).toHaveBeenCalledTimes(1)
     })
 
@@ -433,11 +450,11 @@ describe('getEmployeesSummary', () => {
 
       const checkIns = Array.from({ length: 500 }, (_, i) => ({
         userId: users[i % 50].id,
-        createdAt: new Date('2025-01-15T08:00:00Z'),
+        checkedInAt: new Date('2025-01-15T08:00:00Z'),
       }))
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue(checkIns)
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue(checkIns)
 
       const startTime = Date.now()
 
@@ -467,7 +484,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -493,7 +510,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       // Run multiple concurrent requests
       await Promise.all([
@@ -542,7 +559,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -562,10 +579,122 @@ describe('getEmployeesSummary', () => {
         totalRevenue: 0,
         tasksCompleted: 0,
         daysWorked: 0,
+        expectedWorkingDays: 27,
+        hoursOnSite: 0,
       })
       expect(user2?.hasActivity).toBe(false) // No activity
     })
 
+    test('should total the tasks assigned to each team', async () => {
+      mockClerkClient.users.getUserList.mockResolvedValue({
+        data: [
+          createMockUser('user_1', 'John', 'Doe'),
+          createMockUser('user_2', 'Jane', 'Smith'),
+        ],
+        totalCount: 2,
+      } as any)
+      mockPrismaInstance.task.findMany.mockResolvedValue([
+        {
+          id: 1,
+          expectedRevenue: new Prisma.Decimal(3000),
+          assigneeIds: ['user_1', 'user_2'],
+          completedAt: new Date('2025-01-10T03:00:00Z'),
+          workType: null,
+          teamId: 'team_1',
+        },
+        {
+          id: 2,
+          expectedRevenue: new Prisma.Decimal(1000),
+          assigneeIds: ['user_1'],
+          completedAt: new Date('2025-01-11T03:00:00Z'),
+          workType: null,
+          teamId: null,
+        },
+      ])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
+      mockPrismaInstance.team.findMany.mockResolvedValue([
+        {
+          id: 'team_2',
+          name: 'Đội bảo trì',
+          leaderId: null,
+          memberIds: ['user_2'],
+        },
+        {
+          id: 'team_1',
+          name: 'Đội lắp đặt',
+          leaderId: 'user_1',
+          memberIds: ['user_1', 'user_2'],
+        },
+      ])
+
+      const result = await getEmployeesSummary({
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        sort: 'revenue',
+        sortOrder: 'desc',
+        clerkClient: mockClerkClient,
+      })
+
+      // Full revenue of the team's tasks, best team first
+      expect(result.teams).toEqual([
+        {
+          id: 'team_1',
+          name: 'Đội lắp đặt',
+          leaderId: 'user_1',
+          memberIds: ['user_1', 'user_2'],
+          metrics: { tasksCompleted: 1, totalRevenue: 3000 },
+        },
+        {
+          id: 'team_2',
+          name: 'Đội bảo trì',
+          leaderId: null,
+          memberIds: ['user_2'],
+          metrics: { tasksCompleted: 0, totalRevenue: 0 },
+        },
+      ])
+    })
+
+    test('should not expect work on public holidays and approved leave', async () => {
+      const users = [
+        createMockUser('user_1', 'John', 'Doe'),
+        createMockUser('user_2', 'Jane', 'Smith'),
+      ]
+
+      mockClerkClient.users.getUserList.mockResolvedValue({
+        data: users,
+        totalCount: 2,
+      } as any)
+      mockPrismaInstance.task.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
+      // Tết 2025 from Tuesday 01-28 to Saturday 02-01, then Sunday
+      mockPrismaInstance.holiday.findMany.mockResolvedValue([
+        { date: '2025-01-28' },
+        { date: '2025-01-29' },
+        { date: '2025-01-30' },
+        { date: '2025-01-31' },
+      ])
+      // Leave from Friday 01-24 to Monday 01-27 (Sunday 01-26 not worked)
+      mockPrismaInstance.leaveRequest.findMany.mockResolvedValue([
+        { userId: 'user_2', startDate: '2025-01-24', endDate: '2025-01-27' },
+      ])
+
+      const result = await getEmployeesSummary({
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        sort: 'name',
+        sortOrder: 'asc',
+        clerkClient: mockClerkClient,
+      })
+
+      expect(result.summary.workingDays).toBe(23)
+      const user1 = result.employees.find((e) => e.id === 'user_1')
+      const user2 = result.employees.find((e) => e.id === 'user_2')
+      expect(user1?.metrics.expectedWorkingDays).toBe(23)
+      expect(user2?.metrics.expectedWorkingDays).toBe(20)
+    })
+
     test('should calculate activeEmployees correctly', async () => {
       const users = [
         createMockUser('user_1', 'John', 'Doe'),
@@ -589,11 +718,11 @@ describe('getEmployeesSummary', () => {
       ]
 
       const checkIns = [
-        { userId: 'user_2', createdAt: new Date('2025-01-16T08:00:00Z') },
+        { userId: 'user_2', checkedInAt: new Date('2025-01-16T08:00:00Z') },
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue(checkIns)
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue(checkIns)
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -639,7 +768,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -684,7 +813,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -713,7 +842,7 @@ describe('getEmployeesSummary', () => {
       // Simulate Prisma filtering: Task at midnight UTC (7 AM ICT on Jan 16)
       // is outside Jan 15 range in ICT timezone, so Prisma won't return it
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-15',
@@ -744,7 +873,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-15',
@@ -770,7 +899,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -797,7 +926,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -848,7 +977,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -902,7 +1031,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -931,7 +1060,7 @@ describe('getEmployeesSummary', () => {
       } as any)
 
       mockPrismaInstance.task.findMany.mockResolvedValue([])
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -974,7 +1103,7 @@ describe('getEmployeesSummary', () => {
       ]
 
       mockPrismaInstance.task.findMany.mockResolvedValue(tasks)
-      mockPrismaInstance.activity.findMany.mockResolvedValue([])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
 
       const result = await getEmployeesSummary({
         startDate: '2025-01-01',
@@ -1049,4 +1178,68 @@ describe('getEmployeesSummary', () => {
       ).rejects.toThrow()
     })
   })
+
+  describe('Work Type Breakdown', () => {
+    test('should break down revenue and task counts by work type', async () => {
+      const users = [
+        createMockUser('user_1', 'John', 'Doe'),
+        createMockUser('user_2', 'Jane', 'Smith'),
+      ]
+
+      mockClerkClient.users.getUserList.mockResolvedValue({
+        data: users,
+        totalCount: 2,
+      } as any)
+
+      mockPrismaInstance.task.findMany.mockResolvedValue([
+        {
+          id: 1,
+          expectedRevenue: new Prisma.Decimal(1000),
+          assigneeIds: ['user_1'],
+          completedAt: new Date('2025-01-15T10:00:00Z'),
+          workType: 'INSTALLATION',
+        },
+        {
+          id: 2,
+          expectedRevenue: new Prisma.Decimal(600),
+          assigneeIds: ['user_1', 'user_2'],
+          completedAt: new Date('2025-01-16T10:00:00Z'),
+          workType: 'MAINTENANCE',
+        },
+        {
+          id: 3,
+          expectedRevenue: null,
+          assigneeIds: ['user_2'],
+          completedAt: new Date('2025-01-17T10:00:00Z'),
+          workType: null,
+        },
+      ])
+      mockPrismaInstance.taskVisit.findMany.mockResolvedValue([])
+
+      const result = await getEmployeesSummary({
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        sort: 'revenue',
+        sortOrder: 'desc',
+        clerkClient: mockClerkClient,
+      })
+
+      const user1 = result.employees.find((e) => e.id === 'user_1')
+      expect(user1?.workTypeBreakdown).toEqual([
+        { workType: 'INSTALLATION', revenue: 1000, tasksCompleted: 1 },
+        { workType: 'REPAIR', revenue: 0, tasksCompleted: 0 },
+        { workType: 'MAINTENANCE', revenue: 300, tasksCompleted: 1 },
+        { workType: null, revenue: 0, tasksCompleted: 0 },
+      ])
+
+      // Company-wide: multi-assignee tasks counted once with full revenue
+      expect(result.workTypeBreakdown).toEqual([
+        { workType: 'INSTALLATION', revenue: 1000, tasksCompleted: 1 },
+        { workType: 'REPAIR', revenue: 0, tasksCompleted: 0 },
+        { workType: 'MAINTENANCE', revenue: 600, tasksCompleted: 1 },
+        { workType: null, revenue: 0, tasksCompleted: 1 },
+      ])
+    })
+  })
 })
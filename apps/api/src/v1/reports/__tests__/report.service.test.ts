@@ -2,7 +2,9 @@
  * Employee Report Service Tests
  *
  * Critical test cases:
- * - ✅ Calculate days worked correctly from Activity records with TASK_CHECKED_IN
+ * - ✅ Calculate days worked correctly from task visits
+ * - ✅ Sum hours on site from closed visits, clipped to the period
+ * - ✅ Sum travel distance and time between jobs, with the road multiplier
  * - ✅ Test timezone boundary cases (midnight, 11:59 PM)
  * - ✅ Verify timezone conversions (1 AM Vietnam = correct day)
  * - ✅ Calculate tasks completed in date range
@@ -12,6 +14,7 @@
  * - ✅ Test with different timezones
  * - ✅ Validate invalid timezone strings (handled by Zod validation)
  * - ✅ Validate invalid date ranges (handled by Zod validation)
+ * - ✅ Count task holds as non-productive time, clipped to the period
  */
 
 import { TZDate } from '@date-fns/tz'
@@ -50,6 +53,9 @@ describe('Employee Report Service Tests', () => {
   beforeEach(() => {
     resetPrismaMock(mockPrisma)
     jest.clearAllMocks()
+    mockPrisma.taskHold.findMany.mockResolvedValue([])
+    mockPrisma.holiday.findMany.mockResolvedValue([])
+    mockPrisma.leaveRequest.findMany.mockResolvedValue([])
   })
 
   describe('Basic Report Generation', () => {
@@ -60,7 +66,7 @@ describe('Employee Report Service Tests', () => {
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
 
       // Mock check-in activities
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       // Mock completed tasks
       const mockTasks = [
@@ -103,7 +109,7 @@ describe('Employee Report Service Tests', () => {
       const worker = createMockWorkerUser({ id: 'worker_456' })
 
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
       mockPrisma.task.findMany.mockResolvedValue([])
 
       const report = await getEmployeeReport({
@@ -156,7 +162,7 @@ describe('Employee Report Service Tests', () => {
     it('should split revenue equally among multiple workers', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTask = {
         id: 1,
@@ -186,7 +192,7 @@ describe('Employee Report Service Tests', () => {
     it('should handle tasks with null revenue', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTasks = [
         {
@@ -224,7 +230,7 @@ describe('Employee Report Service Tests', () => {
     it('should calculate correct total revenue across multiple tasks', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTasks = [
         {
@@ -278,7 +284,7 @@ describe('Employee Report Service Tests', () => {
     it('should use correct timezone boundaries for date range', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
       mockPrisma.task.findMany.mockResolvedValue([])
 
       await getEmployeeReport({
@@ -306,7 +312,7 @@ describe('Employee Report Service Tests', () => {
     it('should work with different timezones (Bangkok)', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTask = {
         id: 1,
@@ -334,7 +340,7 @@ describe('Employee Report Service Tests', () => {
     it('should work with Singapore timezone', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
       mockPrisma.task.findMany.mockResolvedValue([])
 
       const report = await getEmployeeReport({
@@ -354,7 +360,7 @@ describe('Employee Report Service Tests', () => {
     it('should only include tasks completed in date range', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTasks = [
         {
@@ -397,7 +403,7 @@ describe('Employee Report Service Tests', () => {
     it('should handle single-day date range', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTask = {
         id: 1,
@@ -428,7 +434,7 @@ describe('Employee Report Service Tests', () => {
     it('should include complete task information', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const completedAt = new Date('2025-01-15T10:30:00Z')
       const mockTask = {
@@ -464,7 +470,7 @@ describe('Employee Report Service Tests', () => {
     it('should handle null completedAt', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const mockTask = {
         id: 1,
@@ -490,55 +496,28 @@ describe('Employee Report Service Tests', () => {
   })
 
   describe('Days Worked Calculation', () => {
-    it('should calculate days worked from Activity records with TASK_CHECKED_IN', async () => {
+    it('should calculate days worked from task visits', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
       mockPrisma.task.findMany.mockResolvedValue([])
 
-      // Mock check-in activities on different days
-      const checkInActivities = [
+      // Visits on different days
+      const visits = [
         {
-          id: 'act_1',
-          createdAt: new Date('2025-01-10T03:00:00Z'), // 10 AM Vietnam time
-          userId: 'worker_123',
-          topic: 'TASK_1',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-10T03:00:00Z'),
-          payload: {
-            type: 'CHECK_IN',
-            geoLocation: { lat: 21.0285, lng: 105.8542 },
-            distanceFromTask: 0,
-          },
+          checkedInAt: new Date('2025-01-10T03:00:00Z'), // 10 AM Vietnam time
+          checkedOutAt: new Date('2025-01-10T05:00:00Z'),
         },
         {
-          id: 'act_2',
-          createdAt: new Date('2025-01-15T02:30:00Z'), // 9:30 AM Vietnam time
-          userId: 'worker_123',
-          topic: 'TASK_2',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-15T02:30:00Z'),
-          payload: {
-            type: 'CHECK_IN',
-            geoLocation: { lat: 21.0285, lng: 105.8542 },
-            distanceFromTask: 0,
-          },
+          checkedInAt: new Date('2025-01-15T02:30:00Z'), // 9:30 AM Vietnam time
+          checkedOutAt: new Date('2025-01-15T04:00:00Z'),
         },
         {
-          id: 'act_3',
-          createdAt: new Date('2025-01-15T08:00:00Z'), // 3 PM Vietnam time (same day)
-          userId: 'worker_123',
-          topic: 'TASK_3',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-15T08:00:00Z'),
-          payload: {
-            type: 'CHECK_IN',
-            geoLocation: { lat: 21.0285, lng: 105.8542 },
-            distanceFromTask: 0,
-          },
+          checkedInAt: new Date('2025-01-15T08:00:00Z'), // 3 PM Vietnam time (same day)
+          checkedOutAt: null,
         },
       ]
 
-      mockPrisma.activity.findMany.mockResolvedValue(checkInActivities)
+      mockPrisma.taskVisit.findMany.mockResolvedValue(visits)
 
       const report = await getEmployeeReport({
         userId: 'worker_123',
@@ -551,21 +530,20 @@ describe('Employee Report Service Tests', () => {
 
       // Should count unique days: Jan 10 and Jan 15 = 2 days
       expect(report.metrics.daysWorked).toBe(2)
-      expect(mockPrisma.activity.findMany).toHaveBeenCalledWith(
+      expect(mockPrisma.taskVisit.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
             userId: 'worker_123',
-            action: 'TASK_CHECKED_IN',
           }),
         }),
       )
     })
 
-    it('should return 0 days worked when no check-ins exist', async () => {
+    it('should return 0 days worked when no visits exist', async () => {
       const worker = createMockWorkerUser({ id: 'worker_456' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
       mockPrisma.task.findMany.mockResolvedValue([])
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       const report = await getEmployeeReport({
         userId: 'worker_456',
@@ -577,45 +555,65 @@ describe('Employee Report Service Tests', () => {
       })
 
       expect(report.metrics.daysWorked).toBe(0)
+      expect(report.metrics.hoursOnSite).toBe(0)
     })
 
-    it('should count only unique days even with multiple check-ins per day', async () => {
+    it('should count attendance days when attendance is the source', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_456' })
+      mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        {
+          checkedInAt: new Date('2025-01-10T03:00:00Z'),
+          checkedOutAt: new Date('2025-01-10T05:00:00Z'),
+        },
+      ])
+      // Warehouse and training days without tasks
+      mockPrisma.attendance.count.mockResolvedValue(4)
+
+      const report = await getEmployeeReport({
+        userId: 'worker_456',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        daysWorkedSource: 'attendance',
+        // @ts-expect-error - Mock client type doesn't match full Clerk client interface
+        clerkClient: mockClerkClient,
+      })
+
+      expect(report.daysWorkedSource).toBe('attendance')
+      expect(report.metrics.daysWorked).toBe(4)
+      expect(report.metrics.hoursOnSite).toBe(2)
+      expect(mockPrisma.attendance.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'worker_456',
+          date: { gte: '2025-01-01', lte: '2025-01-31' },
+        },
+      })
+    })
+
+    it('should count only unique days even with multiple visits per day', async () => {
       const worker = createMockWorkerUser({ id: 'worker_789' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
       mockPrisma.task.findMany.mockResolvedValue([])
 
-      // Multiple check-ins on the same day
-      const checkInActivities = [
+      // Multiple visits on the same day
+      const visits = [
         {
-          id: 'act_1',
-          createdAt: new Date('2025-01-10T01:00:00Z'), // 8 AM Vietnam time
-          userId: 'worker_789',
-          topic: 'TASK_1',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-10T01:00:00Z'),
-          payload: {},
+          checkedInAt: new Date('2025-01-10T01:00:00Z'), // 8 AM Vietnam time
+          checkedOutAt: new Date('2025-01-10T02:00:00Z'),
         },
         {
-          id: 'act_2',
-          createdAt: new Date('2025-01-10T04:00:00Z'), // 11 AM Vietnam time (same day)
-          userId: 'worker_789',
-          topic: 'TASK_2',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-10T04:00:00Z'),
-          payload: {},
+          checkedInAt: new Date('2025-01-10T04:00:00Z'), // 11 AM Vietnam time (same day)
+          checkedOutAt: new Date('2025-01-10T05:30:00Z'),
         },
         {
-          id: 'act_3',
-          createdAt: new Date('2025-01-10T08:30:00Z'), // 3:30 PM Vietnam time (same day)
-          userId: 'worker_789',
-          topic: 'TASK_3',
-          action: 'TASK_CHECKED_IN',
-          updatedAt: new Date('2025-01-10T08:30:00Z'),
-          payload: {},
+          checkedInAt: new Date('2025-01-10T08:30:00Z'), // 3:30 PM Vietnam time (same day)
+          checkedOutAt: new Date('2025-01-10T09:00:00Z'),
         },
       ]
 
-      mockPrisma.activity.findMany.mockResolvedValue(checkInActivities)
+      mockPrisma.taskVisit.findMany.mockResolvedValue(visits)
 
       const report = await getEmployeeReport({
         userId: 'worker_789',
@@ -626,15 +624,122 @@ describe('Employee Report Service Tests', () => {
         clerkClient: mockClerkClient,
       })
 
-      // Should count only 1 day despite 3 check-ins
+      // Should count only 1 day despite 3 visits
       expect(report.metrics.daysWorked).toBe(1)
+      // 1h + 1.5h + 0.5h
+      expect(report.metrics.hoursOnSite).toBe(3)
+    })
+
+    it('should count every day of a multi-visit job', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_123' })
+      mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      // Same task, visited on three days (ended without completing twice)
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        {
+          checkedInAt: new Date('2025-01-10T01:00:00Z'),
+          checkedOutAt: new Date('2025-01-10T09:00:00Z'),
+        },
+        {
+          checkedInAt: new Date('2025-01-11T01:00:00Z'),
+          checkedOutAt: new Date('2025-01-11T05:00:00Z'),
+        },
+        {
+          checkedInAt: new Date('2025-01-13T01:00:00Z'),
+          checkedOutAt: new Date('2025-01-13T03:15:00Z'),
+        },
+      ])
+
+      const report = await getEmployeeReport({
+        userId: 'worker_123',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        // @ts-expect-error - Mock client type doesn't match full Clerk client interface
+        clerkClient: mockClerkClient,
+      })
+
+      expect(report.metrics.daysWorked).toBe(3)
+      expect(report.metrics.hoursOnSite).toBe(14.25)
+    })
+
+    it('should clip hours on site to the period', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_123' })
+      mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      // Started an hour before the period and ended an hour into it
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        {
+          checkedInAt: new Date('2025-01-09T23:00:00Z'),
+          checkedOutAt: new Date('2025-01-10T01:00:00Z'),
+        },
+      ])
+
+      const report = await getEmployeeReport({
+        userId: 'worker_123',
+        startDate: '2025-01-10',
+        endDate: '2025-01-20',
+        timezone: 'Asia/Ho_Chi_Minh',
+        // @ts-expect-error - Mock client type doesn't match full Clerk client interface
+        clerkClient: mockClerkClient,
+      })
+
+      // The visit started the day before, only the hour inside counts
+      expect(report.metrics.daysWorked).toBe(0)
+      expect(report.metrics.hoursOnSite).toBe(1)
     })
 
-    it('should respect date range boundaries for check-ins', async () => {
+    it('should sum travel between jobs arriving within the period', async () => {
       const worker = createMockWorkerUser({ id: 'worker_123' })
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
       mockPrisma.task.findMany.mockResolvedValue([])
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.appSettings.findUnique.mockResolvedValue({
+        roadDistanceMultiplier: 1.5,
+      })
+
+      const visit = (
+        taskId: number,
+        checkedInAt: string,
+        checkedOutAt: string,
+        lat: number,
+      ) => ({
+        taskId,
+        checkedInAt: new Date(checkedInAt),
+        checkedOutAt: new Date(checkedOutAt),
+        checkInGeoLocation: { lat, lng: 106.6297 },
+        checkOutGeoLocation: { lat, lng: 106.6297 },
+      })
+
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        // Evening before the period, its leg is not counted
+        visit(1, '2025-01-09T10:00:00Z', '2025-01-09T11:00:00Z', 10.7),
+        visit(2, '2025-01-09T11:30:00Z', '2025-01-09T12:00:00Z', 10.71),
+        // Two jobs on the 10th, ~1.1km apart
+        visit(3, '2025-01-10T01:00:00Z', '2025-01-10T02:00:00Z', 10.7),
+        visit(4, '2025-01-10T02:45:00Z', '2025-01-10T04:00:00Z', 10.71),
+      ])
+
+      const report = await getEmployeeReport({
+        userId: 'worker_123',
+        startDate: '2025-01-10',
+        endDate: '2025-01-20',
+        timezone: 'Asia/Ho_Chi_Minh',
+        // @ts-expect-error - Mock client type doesn't match full Clerk client interface
+        clerkClient: mockClerkClient,
+      })
+
+      // 1112m straight line x 1.5
+      expect(report.metrics.travelDistanceKm).toBe(1.7)
+      expect(report.metrics.travelMinutes).toBe(45)
+    })
+
+    it('should respect date range boundaries for visits', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_123' })
+      mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
 
       await getEmployeeReport({
         userId: 'worker_123',
@@ -646,15 +751,16 @@ describe('Employee Report Service Tests', () => {
       })
 
       // Verify date range was applied
-      expect(mockPrisma.activity.findMany).toHaveBeenCalledWith(
+      expect(mockPrisma.taskVisit.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
             userId: 'worker_123',
-            action: 'TASK_CHECKED_IN',
-            createdAt: expect.objectContaining({
-              gte: expect.any(TZDate),
-              lte: expect.any(TZDate),
-            }),
+            checkedInAt: { lte: expect.any(TZDate) },
+            // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+            OR: [
+              { checkedOutAt: null },
+              { checkedOutAt: { gte: expect.any(TZDate) } },
+            ],
           }),
         }),
       )
@@ -671,7 +777,7 @@ describe('Employee Report Service Tests', () => {
       })
 
       mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
-      mockPrisma.activity.findMany.mockResolvedValue([])
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
       mockPrisma.task.findMany.mockResolvedValue([])
 
       const report = await getEmployeeReport({
@@ -692,4 +798,48 @@ describe('Employee Report Service Tests', () => {
       })
     })
   })
+
+  describe('Non-productive Time', () => {
+    it('should sum hold durations by reason, clipped to the period', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_123' })
+
+      mockClerkClient.users.getUser.mockResolvedValue(toUser(worker))
+      mockPrisma.taskVisit.findMany.mockResolvedValue([])
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.taskHold.findMany.mockResolvedValue([
+        {
+          reason: 'WAITING_FOR_PARTS',
+          startedAt: new TZDate('2025-01-10T09:00:00', 'Asia/Ho_Chi_Minh'),
+          endedAt: new TZDate('2025-01-10T10:30:00', 'Asia/Ho_Chi_Minh'),
+        },
+        {
+          // Started before the period: only the part inside counts
+          reason: 'CUSTOMER_ABSENT',
+          startedAt: new TZDate('2024-12-31T23:30:00', 'Asia/Ho_Chi_Minh'),
+          endedAt: new TZDate('2025-01-01T00:15:00', 'Asia/Ho_Chi_Minh'),
+        },
+      ])
+
+      const report = await getEmployeeReport({
+        userId: 'worker_123',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        timezone: 'Asia/Ho_Chi_Minh',
+        // @ts-expect-error - Mock client type doesn't match full Clerk client interface
+        clerkClient: mockClerkClient,
+      })
+
+      expect(report.metrics.nonProductiveMinutes).toBe(105)
+      expect(report.holdBreakdown).toEqual([
+        { reason: 'WAITING_FOR_PARTS', minutes: 90, holdCount: 1 },
+        { reason: 'CUSTOMER_ABSENT', minutes: 15, holdCount: 1 },
+        { reason: 'NEEDS_SECOND_VISIT', minutes: 0, holdCount: 0 },
+      ])
+      expect(mockPrisma.taskHold.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'worker_123' }),
+        }),
+      )
+    })
+  })
 })
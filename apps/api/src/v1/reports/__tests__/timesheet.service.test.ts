@@ -0,0 +1,241 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import { correctTaskVisit, getTimesheet } from '../timesheet.service'
+
+describe('timesheet.service', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+  const now = new Date('2026-10-22T05:00:00Z')
+
+  const openVisit = {
+    id: 'visit_1',
+    taskId: 7,
+    userId: 'worker_1',
+    checkedInAt: new Date('2026-10-20T01:00:00Z'),
+    checkedOutAt: null,
+    correctedAt: null,
+  }
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockPrisma.taskVisit.findMany.mockResolvedValue([])
+    mockPrisma.task.findMany.mockResolvedValue([])
+  })
+
+  describe('getTimesheet', () => {
+    it('should use the overtime thresholds of the settings', async () => {
+      mockPrisma.appSettings.findUnique.mockResolvedValue({
+        dailyOvertimeHours: 6,
+        weeklyOvertimeHours: 40,
+      })
+      mockPrisma.taskVisit.findMany.mockResolvedValue([
+        {
+          id: 'visit_2',
+          taskId: 8,
+          checkedInAt: new Date('2026-10-19T01:00:00Z'),
+          checkedOutAt: new Date('2026-10-19T08:00:00Z'),
+          correctedAt: null,
+        },
+        openVisit,
+      ])
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 7, title: 'Lắp máy lạnh' },
+        { id: 8, title: 'Bảo trì' },
+      ])
+
+      const timesheet = await getTimesheet({
+        userId: 'worker_1',
+        startDate: '2026-10-19',
+        endDate: '2026-10-25',
+        timezone: 'Asia/Ho_Chi_Minh',
+        now,
+      })
+
+      expect(timesheet.thresholds).toEqual({
+        dailyOvertimeHours: 6,
+        weeklyOvertimeHours: 40,
+      })
+      expect(timesheet.totals).toEqual({
+        minutes: 420,
+        regularMinutes: 360,
+        overtimeMinutes: 60,
+      })
+      expect(timesheet.unpaired).toEqual([
+        expect.objectContaining({ visitId: 'visit_1', ongoing: false }),
+      ])
+      expect(timesheet.tasks).toHaveLength(2)
+      expect(mockPrisma.taskVisit.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: 'worker_1',
+            checkedInAt: { lt: new Date('2026-10-25T17:00:00.000Z') },
+          }),
+        }),
+      )
+    })
+  })
+
+  describe('correctTaskVisit', () => {
+    // Cancelled while the worker was on site, only an admin can close it
+    const orphanVisit = { ...openVisit, task: { status: 'CANCELLED' } }
+
+    it('should close the visit and log the correction', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue(orphanVisit)
+      mockPrisma.taskVisit.findFirst.mockResolvedValue(null)
+      mockPrisma.taskVisit.update.mockResolvedValue({})
+
+      await correctTaskVisit({
+        id: 'visit_1',
+        user: admin,
+        data: {
+          checkedOutAt: '2026-10-20T10:00:00.000Z',
+          reason: 'Quên check-out, khách xác nhận về lúc 17h',
+        },
+        now,
+      })
+
+      expect(mockPrisma.taskVisit.update).toHaveBeenCalledWith({
+        where: { id: 'visit_1' },
+        data: {
+          checkedOutAt: new Date('2026-10-20T10:00:00.000Z'),
+          correctedAt: now,
+          correctedBy: 'admin_1',
+          correctionReason: 'Quên check-out, khách xác nhận về lúc 17h',
+        },
+      })
+      expect(mockPrisma.activity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'TASK_VISIT_CORRECTED',
+          topic: 'TASK_7',
+          userId: 'admin_1',
+          payload: expect.objectContaining({
+            visitId: 'visit_1',
+            workerId: 'worker_1',
+            previousCheckedOutAt: null,
+          }),
+        }),
+      })
+    })
+
+    it('should reject a check-out before the check-in or in the future', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue(orphanVisit)
+
+      for (const checkedOutAt of [
+        '2026-10-20T00:30:00.000Z',
+        '2026-10-22T06:00:00.000Z',
+      ]) {
+        await expect(
+          correctTaskVisit({
+            id: 'visit_1',
+            user: admin,
+            data: { checkedOutAt, reason: 'Sửa giờ' },
+            now,
+          }),
+        ).rejects.toMatchObject({ status: 400 })
+      }
+      expect(mockPrisma.taskVisit.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject a check-out after the next check-in of the worker', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue(orphanVisit)
+      mockPrisma.taskVisit.findFirst.mockResolvedValue({
+        checkedInAt: new Date('2026-10-20T08:00:00Z'),
+      })
+
+      await expect(
+        correctTaskVisit({
+          id: 'visit_1',
+          user: admin,
+          data: { checkedOutAt: '2026-10-20T10:00:00.000Z', reason: 'Sửa' },
+          now,
+        }),
+      ).rejects.toMatchObject({ status: 400 })
+      expect(mockPrisma.taskVisit.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'worker_1',
+            id: { not: 'visit_1' },
+            checkedInAt: { gt: openVisit.checkedInAt },
+          },
+          orderBy: { checkedInAt: 'asc' },
+        }),
+      )
+      expect(mockPrisma.taskVisit.update).not.toHaveBeenCalled()
+    })
+
+    it('should not close an open visit of a task in progress', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue({
+        ...openVisit,
+        task: { status: 'IN_PROGRESS' },
+      })
+
+      await expect(
+        correctTaskVisit({
+          id: 'visit_1',
+          user: admin,
+          data: { checkedOutAt: '2026-10-20T10:00:00.000Z', reason: 'Sửa' },
+          now,
+        }),
+      ).rejects.toMatchObject({ status: 400 })
+      expect(mockPrisma.taskVisit.update).not.toHaveBeenCalled()
+    })
+
+    it('should move the check-out of a closed visit of a task in progress', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue({
+        ...openVisit,
+        checkedOutAt: new Date('2026-10-20T12:00:00Z'),
+        task: { status: 'IN_PROGRESS' },
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValue(null)
+      mockPrisma.taskVisit.update.mockResolvedValue({})
+
+      await correctTaskVisit({
+        id: 'visit_1',
+        user: admin,
+        data: { checkedOutAt: '2026-10-20T10:00:00.000Z', reason: 'Sửa' },
+        now,
+      })
+
+      expect(mockPrisma.taskVisit.update).toHaveBeenCalled()
+    })
+
+    it('should throw 403 for non-admins', async () => {
+      await expect(
+        correctTaskVisit({
+          id: 'visit_1',
+          user: createMockWorkerUser({ id: 'worker_1' }),
+          data: { checkedOutAt: '2026-10-20T10:00:00.000Z', reason: 'Sửa' },
+          now,
+        }),
+      ).rejects.toMatchObject({ status: 403 })
+      expect(mockPrisma.taskVisit.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should throw 404 for a missing visit', async () => {
+      mockPrisma.taskVisit.findUnique.mockResolvedValue(null)
+
+      await expect(
+        correctTaskVisit({
+          id: 'visit_missing',
+          user: admin,
+          data: { checkedOutAt: '2026-10-20T10:00:00.000Z', reason: 'Sửa' },
+          now,
+        }),
+      ).rejects.toMatchObject({ status: 404 })
+    })
+  })
+})
@@ -2,14 +2,20 @@ import {
   zEmployeeReportParam,
   zEmployeeReportQuery,
   zEmployeesSummaryQuery,
+  zExpiringCertificatesQuery,
+  zTaskVisitCorrection,
+  zTaskVisitParam,
+  zTimesheetQuery,
 } from '@nv-internal/validation'
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { getLogger } from '../../lib/log'
 import { zValidator } from '../../lib/z-validator'
 import { getAuthUserStrict } from '../middlewares/auth'
+import { getExpiringCertificates } from '../skill/skill.service'
 import { isUserAdmin } from '../user/user.service'
 import { getEmployeeReport, getEmployeesSummary } from './report.service'
+import { correctTaskVisit, getTimesheet } from './timesheet.service'
 
 /**
  * GET /v1/reports/employee/:userId
@@ -24,11 +30,14 @@ import { getEmployeeReport, getEmployeesSummary } from './report.service'
  * - startDate (required): ISO 8601 date string (YYYY-MM-DD)
  * - endDate (required): ISO 8601 date string (YYYY-MM-DD)
  * - timezone (optional): IANA timezone identifier (default: Asia/Ho_Chi_Minh)
+ * - daysWorkedSource (optional): 'visits' (task check-ins, default) or
+ *   'attendance' (workday clock-ins)
  *
  * Response:
  * - employee: { id, firstName, lastName, email, imageUrl }
  * - period: { startDate, endDate, timezone }
- * - metrics: { daysWorked, tasksCompleted, totalRevenue }
+ * - daysWorkedSource: Source of daysWorked
+ * - metrics: { daysWorked, expectedWorkingDays, tasksCompleted, totalRevenue }
  * - tasks: [{ id, title, completedAt, revenue, revenueShare, workerCount }]
  *
  * Examples:
@@ -109,11 +118,15 @@ const router = new Hono()
    * - timezone (optional): IANA timezone identifier (default: Asia/Ho_Chi_Minh)
    * - sort (optional): Sort field - 'revenue', 'tasks', or 'name' (default: 'revenue')
    * - sortOrder (optional): Sort order - 'asc' or 'desc' (default: 'desc')
+   * - daysWorkedSource (optional): 'visits' (task check-ins, default) or
+   *   'attendance' (workday clock-ins)
    *
    * Response:
    * - period: { startDate, endDate, timezone }
-   * - employees: [{ id, firstName, lastName, username, imageUrl, metrics: { totalRevenue, tasksCompleted, daysWorked } }]
-   * - summary: { totalEmployees, totalRevenue, totalTasks }
+   * - daysWorkedSource: Source of daysWorked
+   * - employees: [{ id, firstName, lastName, username, imageUrl, metrics: { totalRevenue, tasksCompleted, daysWorked, expectedWorkingDays } }]
+   * - summary: { totalEmployees, totalRevenue, totalTasks, workingDays }
+   * - teams: [{ id, name, leaderId, memberIds, metrics: { tasksCompleted, totalRevenue } }]
    *
    * Examples:
    * - GET /v1/reports/summary?startDate=2025-01-01&endDate=2025-01-31
@@ -171,5 +184,137 @@ const router = new Hono()
       })
     }
   })
+  /**
+   * GET /v1/reports/expiring-certificates
+   *
+   * Worker certificates expiring soon, to renew them in time (admin only)
+   *
+   * Query Parameters:
+   * - days (optional): From today to this many days later (default: 30)
+   *
+   * Response:
+   * - days: The window used
+   * - certificates: [{ id, userId, skill: { id, name }, certificateNumber,
+   *   expiryDate, attachmentId, daysLeft }] soonest first
+   */
+  .get(
+    '/expiring-certificates',
+    zValidator('query', zExpiringCertificatesQuery),
+    async (c) => {
+      const logger = getLogger('report.route:getExpiringCertificates')
+      const { days } = c.req.valid('query')
+      const user = getAuthUserStrict(c)
+
+      try {
+        if (!(await isUserAdmin({ user }))) {
+          throw new HTTPException(403, {
+            message: 'Chỉ admin mới có thể xem chứng chỉ sắp hết hạn',
+            cause: 'INSUFFICIENT_PERMISSIONS',
+          })
+        }
+
+        const certificates = await getExpiringCertificates({ days })
+        return c.json({ days, certificates }, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        logger.error({ error, days }, 'Failed to list expiring certificates')
+        throw new HTTPException(500, {
+          message: 'Không thể tải chứng chỉ sắp hết hạn. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+  /**
+   * GET /v1/reports/timesheet/:userId
+   *
+   * Timesheet of an employee for payroll (admin only)
+   *
+   * Query Parameters:
+   * - startDate (required): ISO 8601 date string (YYYY-MM-DD)
+   * - endDate (required): ISO 8601 date string (YYYY-MM-DD), at most 92 days later
+   * - timezone (optional): IANA timezone identifier (default: Asia/Ho_Chi_Minh)
+   *
+   * Response:
+   * - period, thresholds: { dailyOvertimeHours, weeklyOvertimeHours }
+   * - intervals: [{ start, end, minutes, visitIds, taskIds, corrected }]
+   * - days: [{ date, minutes, regularMinutes, overtimeMinutes }]
+   * - weeks: [{ weekStart, minutes, regularMinutes, overtimeMinutes }]
+   * - totals: { minutes, regularMinutes, overtimeMinutes }
+   * - unpaired: [{ visitId, taskId, checkedInAt, ongoing }] - No check-out yet
+   * - tasks: [{ id, title }]
+   */
+  .get(
+    '/timesheet/:userId',
+    zValidator('param', zEmployeeReportParam),
+    zValidator('query', zTimesheetQuery),
+    async (c) => {
+      const logger = getLogger('report.route:getTimesheet')
+      const { userId } = c.req.valid('param')
+      const query = c.req.valid('query')
+      const user = getAuthUserStrict(c)
+
+      try {
+        if (!(await isUserAdmin({ user }))) {
+          throw new HTTPException(403, {
+            message: 'Chỉ admin mới có thể xem bảng chấm công',
+            cause: 'INSUFFICIENT_PERMISSIONS',
+          })
+        }
+
+        const timesheet = await getTimesheet({ userId, ...query })
+        return c.json(timesheet, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        logger.error({ error, userId, query }, 'Failed to build timesheet')
+        throw new HTTPException(500, {
+          message: 'Không thể tạo bảng chấm công. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+  /**
+   * POST /v1/reports/timesheet/visits/:id/correction
+   *
+   * Correct the check-out time of a visit (admin only), e.g. a forgotten
+   * check-out listed as unpaired in the timesheet
+   *
+   * Body:
+   * - checkedOutAt: ISO 8601 date-time, after the check-in and not in the future
+   * - reason: Why the time is corrected (kept for the audit)
+   */
+  .post(
+    '/timesheet/visits/:id/correction',
+    zValidator('param', zTaskVisitParam),
+    zValidator('json', zTaskVisitCorrection),
+    async (c) => {
+      const logger = getLogger('report.route:correctTaskVisit')
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      try {
+        const visit = await correctTaskVisit({ id, user, data })
+        return c.json(visit, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        logger.error({ error, id }, 'Failed to correct task visit')
+        throw new HTTPException(500, {
+          message: 'Không thể chỉnh sửa giờ check-out. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
 
 export default router
@@ -1,5 +1,6 @@
 import type { ClerkClient } from '@clerk/backend'
 import { TZDate } from '@date-fns/tz'
+import { TaskHoldReason, TaskWorkType } from '@nv-internal/prisma-client'
 import type {
   EmployeeReportQuery,
   EmployeesSummaryQuery,
@@ -8,28 +9,202 @@ import { format } from 'date-fns'
 import { HTTPException } from 'hono/http-exception'
 import { getLogger } from '../../lib/log'
 import { getPrisma } from '../../lib/prisma'
+import { buildTravelLegs, summarizeTravelLegs } from '../../lib/travel'
+import { getWorkingDays } from '../../lib/working-days'
+import { getWorkingCalendar } from '../holiday/holiday.service'
+import { findApprovedLeaves } from '../leave/leave.service'
+import { TRAVEL_VISIT_SELECT } from '../location/location.service'
+import { getAppSettings } from '../settings/settings.service'
+import { getTeams } from '../team/team.service'
+
+type WorkTypeBreakdownItem = {
+  workType: TaskWorkType | null // null = unclassified
+  revenue: number
+  tasksCompleted: number
+}
+
+/**
+ * Break down completed tasks and revenue by work type
+ *
+ * Always returns one entry per work type plus an "unclassified" entry
+ * (workType: null) so clients can render a stable layout.
+ *
+ * @param tasks - Completed tasks to aggregate
+ * @param userId - When set, revenue is the user's share (split among assignees)
+ */
+function buildWorkTypeBreakdown(
+  tasks: Array<{
+    workType: TaskWorkType | null
+    expectedRevenue: unknown
+    assigneeIds: string[]
+  }>,
+  userId?: string,
+): WorkTypeBreakdownItem[] {
+  const workTypes: Array<TaskWorkType | null> = [
+    ...Object.values(TaskWorkType),
+    null,
+  ]
+
+  return workTypes.map((workType) => {
+    const matching = tasks.filter((t) => (t.workType ?? null) === workType)
+    const revenue = matching.reduce((sum, task) => {
+      const total = task.expectedRevenue ? Number(task.expectedRevenue) : 0
+      return sum + (userId ? total / task.assigneeIds.length : total)
+    }, 0)
+
+    return { workType, revenue, tasksCompleted: matching.length }
+  })
+}
+
+type HoldBreakdownItem = {
+  reason: TaskHoldReason
+  minutes: number
+  holdCount: number
+}
+
+/**
+ * Non-productive time from task holds, clipped to the report period
+ *
+ * Holds still open are counted up to now (or the end of the period).
+ * Always returns one entry per hold reason.
+ */
+function buildHoldBreakdown(
+  holds: Array<{
+    reason: TaskHoldReason
+    startedAt: Date
+    endedAt: Date | null
+  }>,
+  periodStart: Date,
+  periodEnd: Date,
+  now = new Date(),
+): HoldBreakdownItem[] {
+  const effectiveEnd = Math.min(periodEnd.getTime(), now.getTime())
+
+  return Object.values(TaskHoldReason).map((reason) => {
+    const matching = holds.filter((hold) => hold.reason === reason)
+    const minutes = matching.reduce((sum, hold) => {
+      const start = Math.max(hold.startedAt.getTime(), periodStart.getTime())
+      const end = Math.min(
+        hold.endedAt?.getTime() ?? effectiveEnd,
+        effectiveEnd,
+      )
+      return sum + Math.max(0, end - start) / (60 * 1000)
+    }, 0)
+
+    return { reason, minutes: Math.round(minutes), holdCount: matching.length }
+  })
+}
+
+type VisitMetrics = {
+  daysWorked: number
+  hoursOnSite: number
+}
+
+/**
+ * Days worked and hours on site from task visits (check-in to check-out)
+ *
+ * Days worked counts the unique days (in the timezone) a visit started within
+ * the period. Hours on site only counts closed visits, clipped to the period.
+ */
+function buildVisitMetrics(
+  visits: Array<{ checkedInAt: Date; checkedOutAt: Date | null }>,
+  periodStart: Date,
+  periodEnd: Date,
+  timezone: string,
+): VisitMetrics {
+  const uniqueDays = new Set(
+    visits
+      .filter(
+        (visit) =>
+          visit.checkedInAt >= periodStart && visit.checkedInAt <= periodEnd,
+      )
+      .map((visit) =>
+        format(new TZDate(visit.checkedInAt, timezone), 'yyyy-MM-dd'),
+      ),
+  )
+
+  const onSiteMs = visits.reduce((sum, visit) => {
+    if (!visit.checkedOutAt) {
+      return sum
+    }
+    const start = Math.max(visit.checkedInAt.getTime(), periodStart.getTime())
+    const end = Math.min(visit.checkedOutAt.getTime(), periodEnd.getTime())
+    return sum + Math.max(0, end - start)
+  }, 0)
+
+  return {
+    daysWorked: uniqueDays.size,
+    hoursOnSite: Math.round((onSiteMs / (60 * 60 * 1000)) * 100) / 100,
+  }
+}
+
+/**
+ * Working days of the period (working weekdays minus public holidays) and
+ * the days each employee is expected to work, without their approved leave
+ */
+async function getExpectedWorkingDays({
+  userIds,
+  startDate,
+  endDate,
+  timezone,
+}: {
+  userIds: string[]
+  startDate: string
+  endDate: string
+  timezone: string
+}) {
+  const [calendar, leaves] = await Promise.all([
+    getWorkingCalendar({ from: startDate, to: endDate }),
+    findApprovedLeaves({ userIds, from: startDate, to: endDate }),
+  ])
+  const workingDays = getWorkingDays(startDate, endDate, calendar, timezone)
+
+  const expectedWorkingDays = new Map(
+    userIds.map((userId) => [
+      userId,
+      workingDays.filter(
+        (day) =>
+          !leaves.some(
+            (leave) =>
+              leave.userId === userId &&
+              leave.startDate <= day &&
+              leave.endDate >= day,
+          ),
+      ).length,
+    ]),
+  )
+
+  return { workingDays: workingDays.length, expectedWorkingDays }
+}
 
 /**
  * Get employee performance report for a date range
  *
  * This service function generates a comprehensive report showing:
- * - Days worked (based on check-ins from Activity model)
- * - Tasks completed (status=COMPLETED, user in assigneeIds)
+ * - Days worked and hours on site (based on task visits, or days worked from
+ *   the workday attendance with daysWorkedSource 'attendance')
+ * - Expected working days (working weekdays minus public holidays and the
+ *   employee's approved leave)
+ * - Distance and time traveled between jobs (legs between visits, see
+ *   buildTravelLegs, with the road multiplier of the settings)
+ * - Tasks completed (status=COMPLETED, user in assigneeIds; CANCELLED tasks never count)
  * - Revenue earned (split equally among assignees)
+ * - Non-productive time (tasks the employee put on hold, by hold reason)
  *
  * **Timezone Handling:**
  * Uses @date-fns/tz to ensure accurate date boundaries in the specified timezone.
  * Example: "2025-01-01" in Asia/Ho_Chi_Minh means 2025-01-01 00:00:00 ICT,
  * not UTC midnight. This ensures check-ins at 1 AM Vietnam time count as the correct day.
  *
- * **Check-in Data:**
- * Days worked is calculated from Activity records with action='TASK_CHECKED_IN'.
- * The check-in/checkout system (Phase 2) stores all check-in events as Activity records.
+ * **Visit Data:**
+ * Each check-in opens a TaskVisit that the next check-out closes. A multi-visit
+ * job counts every day the employee came on site, not only the completion day.
  *
  * @param userId - Clerk user ID
  * @param startDate - ISO 8601 date string (YYYY-MM-DD) - inclusive
  * @param endDate - ISO 8601 date string (YYYY-MM-DD) - inclusive
  * @param timezone - IANA timezone identifier (default: Asia/Ho_Chi_Minh)
+ * @param daysWorkedSource - 'visits' (default) or 'attendance'
  * @param clerkClient - Clerk client for user data
  * @returns Employee report with metrics and task details
  */
@@ -38,6 +213,7 @@ export async function getEmployeeReport({
   startDate,
   endDate,
   timezone = 'Asia/Ho_Chi_Minh',
+  daysWorkedSource = 'visits',
   clerkClient,
 }: EmployeeReportQuery & {
   userId: string
@@ -76,34 +252,51 @@ export async function getEmployeeReport({
     'Date boundaries in timezone',
   )
 
-  // Calculate days worked from check-ins
-  // Check-ins are stored as Activity records with action='TASK_CHECKED_IN'
-  const checkIns = await prisma.activity.findMany({
+  // Calculate days worked and hours on site from visits overlapping the period
+  const visits = await prisma.taskVisit.findMany({
     where: {
       userId,
-      action: 'TASK_CHECKED_IN',
-      createdAt: {
-        gte: startTz,
-        lte: endTz,
-      },
+      checkedInAt: { lte: endTz },
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [{ checkedOutAt: null }, { checkedOutAt: { gte: startTz } }],
     },
-    select: { createdAt: true },
+    select: TRAVEL_VISIT_SELECT,
   })
 
-  // Extract unique days in the specified timezone
-  const uniqueDays = new Set(
-    checkIns.map((checkIn) => {
-      // Convert UTC timestamp to timezone-aware date
-      const zonedDate = new TZDate(checkIn.createdAt, timezone)
-      // Format as YYYY-MM-DD in the specified timezone
-      return format(zonedDate, 'yyyy-MM-dd')
-    }),
+  const visitMetrics = buildVisitMetrics(visits, startTz, endTz, timezone)
+  const { hoursOnSite } = visitMetrics
+
+  // Attendance also counts warehouse and training days without tasks
+  const daysWorked =
+    daysWorkedSource === 'attendance'
+      ? await prisma.attendance.count({
+          where: { userId, date: { gte: startDate, lte: endDate } },
+        })
+      : visitMetrics.daysWorked
+  const { expectedWorkingDays } = await getExpectedWorkingDays({
+    userIds: [userId],
+    startDate,
+    endDate,
+    timezone,
+  })
+  logger.info(
+    {
+      userId,
+      visitCount: visits.length,
+      daysWorkedSource,
+      daysWorked,
+      expectedWorkingDays: expectedWorkingDays.get(userId),
+      hoursOnSite,
+    },
+    'Calculated days worked',
   )
 
-  const daysWorked = uniqueDays.size
-  logger.info(
-    { userId, checkInCount: checkIns.length, daysWorked },
-    'Calculated days worked from check-ins',
+  // Travel legs arriving within the period
+  const { roadDistanceMultiplier } = await getAppSettings()
+  const travel = summarizeTravelLegs(
+    buildTravelLegs(visits, { roadDistanceMultiplier, timezone }).filter(
+      (leg) => leg.arrivedAt >= startTz && leg.arrivedAt <= endTz,
+    ),
   )
 
   // Get completed tasks in date range
@@ -153,6 +346,22 @@ export async function getEmployeeReport({
     0,
   )
 
+  // Holds overlapping the period count as non-productive time
+  const holds = await prisma.taskHold.findMany({
+    where: {
+      userId,
+      startedAt: { lte: endTz },
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [{ endedAt: null }, { endedAt: { gte: startTz } }],
+    },
+    select: { reason: true, startedAt: true, endedAt: true },
+  })
+  const holdBreakdown = buildHoldBreakdown(holds, startTz, endTz)
+  const nonProductiveMinutes = holdBreakdown.reduce(
+    (sum, item) => sum + item.minutes,
+    0,
+  )
+
   logger.info(
     {
       userId,
@@ -176,11 +385,18 @@ export async function getEmployeeReport({
       endDate,
       timezone,
     },
+    daysWorkedSource,
     metrics: {
       daysWorked,
+      expectedWorkingDays: expectedWorkingDays.get(userId) ?? 0,
+      hoursOnSite,
       tasksCompleted: completedTasks.length,
       totalRevenue,
+      nonProductiveMinutes,
+      travelDistanceKm: travel.distanceKm,
+      travelMinutes: travel.travelMinutes,
     },
+    holdBreakdown,
     tasks: tasksWithRevenue,
   }
 }
@@ -191,14 +407,19 @@ export async function getEmployeeReport({
  * This service function generates a comprehensive summary showing:
  * - Total revenue per employee (split equally among assignees)
  * - Tasks completed per employee
- * - Days worked per employee (based on check-ins)
+ * - Days worked and hours on site per employee (based on task visits, or
+ *   days worked from the workday attendance with daysWorkedSource 'attendance')
+ * - Expected working days per employee (working weekdays minus public holidays
+ *   and their approved leave) and the working days of the period
+ * - Tasks completed and revenue per team (tasks assigned to the team, full
+ *   revenue, counted once)
  * - Aggregate statistics across all employees
  *
  * **Performance Optimization:**
  * Uses batch queries to minimize database round trips:
  * 1. Fetch all active users from Clerk (1 API call)
  * 2. Fetch ALL tasks for ALL users in ONE query (1 DB query)
- * 3. Fetch ALL check-ins for ALL users in ONE query (1 DB query)
+ * 3. Fetch ALL visits for ALL users in ONE query (1 DB query)
  * 4. Aggregate in-memory (fast)
  *
  * This approach avoids N+1 queries and scales efficiently for serverless environments.
@@ -211,6 +432,7 @@ export async function getEmployeeReport({
  * @param timezone - IANA timezone identifier (default: Asia/Ho_Chi_Minh)
  * @param sort - Sort field: 'revenue', 'tasks', or 'name' (default: 'revenue')
  * @param sortOrder - Sort order: 'asc' or 'desc' (default: 'desc')
+ * @param daysWorkedSource - 'visits' (default) or 'attendance'
  * @param clerkClient - Clerk client for user data
  * @returns Summary report with employee metrics and aggregates
  */
@@ -220,6 +442,7 @@ export async function getEmployeesSummary({
   timezone = 'Asia/Ho_Chi_Minh',
   sort = 'revenue',
   sortOrder = 'desc',
+  daysWorkedSource = 'visits',
   clerkClient,
 }: EmployeesSummaryQuery & {
   clerkClient: ClerkClient
@@ -264,18 +487,30 @@ export async function getEmployeesSummary({
       'Fetched users from Clerk',
     )
 
+    // Working days of the period, less each user's approved leave
+    const { workingDays, expectedWorkingDays } = await getExpectedWorkingDays({
+      userIds,
+      startDate,
+      endDate,
+      timezone,
+    })
+
     // Early return if no active users
     if (userIds.length === 0) {
       logger.info('No active users found, returning empty summary')
       return {
         period: { startDate, endDate, timezone },
+        daysWorkedSource,
         employees: [],
         summary: {
           totalEmployees: 0,
           activeEmployees: 0,
           totalRevenue: 0,
           totalTasks: 0,
+          workingDays,
         },
+        teams: [],
+        workTypeBreakdown: buildWorkTypeBreakdown([]),
       }
     }
 
@@ -291,6 +526,8 @@ export async function getEmployeesSummary({
         expectedRevenue: true,
         assigneeIds: true,
         completedAt: true,
+        workType: true,
+        teamId: true,
       },
     })
 
@@ -299,24 +536,41 @@ export async function getEmployeesSummary({
       'Fetched completed tasks in date range',
     )
 
-    // Step 4: BATCH QUERY - Fetch ALL check-ins for ALL users in ONE query
-    const allCheckIns = await prisma.activity.findMany({
+    // Step 4: BATCH QUERY - Fetch ALL visits for ALL users in ONE query
+    const allVisits = await prisma.taskVisit.findMany({
       where: {
         userId: { in: userIds },
-        action: 'TASK_CHECKED_IN',
-        createdAt: { gte: startTz, lte: endTz },
+        checkedInAt: { lte: endTz },
+        // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+        OR: [{ checkedOutAt: null }, { checkedOutAt: { gte: startTz } }],
       },
       select: {
         userId: true,
-        createdAt: true,
+        checkedInAt: true,
+        checkedOutAt: true,
       },
     })
 
     logger.info(
-      { totalCheckIns: allCheckIns.length },
-      'Fetched check-in activities in date range',
+      { totalVisits: allVisits.length },
+      'Fetched visits in date range',
     )
 
+    // Step 4b: Days with a workday clock-in, when they are the days worked
+    const attendanceDays = new Map<string, number>()
+    if (daysWorkedSource === 'attendance') {
+      const attendances = await prisma.attendance.findMany({
+        where: {
+          userId: { in: userIds },
+          date: { gte: startDate, lte: endDate },
+        },
+        select: { userId: true },
+      })
+      for (const { userId } of attendances) {
+        attendanceDays.set(userId, (attendanceDays.get(userId) ?? 0) + 1)
+      }
+    }
+
     // Step 5: Group and aggregate in-memory (fast)
     const employeeMetrics = activeUsers.map((user) => {
       // Filter tasks for this user
@@ -329,17 +583,21 @@ export async function getEmployeesSummary({
         return sum + share
       }, 0)
 
-      // Calculate days worked (unique dates from check-ins)
-      const userCheckIns = allCheckIns.filter((c) => c.userId === user.id)
-      const uniqueDays = new Set(
-        userCheckIns.map((c) => {
-          const zonedDate = new TZDate(c.createdAt, timezone)
-          return format(zonedDate, 'yyyy-MM-dd')
-        }),
+      // Calculate days worked and hours on site from the user's visits
+      const visitMetrics = buildVisitMetrics(
+        allVisits.filter((v) => v.userId === user.id),
+        startTz,
+        endTz,
+        timezone,
       )
+      const { hoursOnSite } = visitMetrics
+      const daysWorked =
+        daysWorkedSource === 'attendance'
+          ? (attendanceDays.get(user.id) ?? 0)
+          : visitMetrics.daysWorked
 
       // Determine if employee has any activity
-      const hasActivity = userTasks.length > 0 || uniqueDays.size > 0
+      const hasActivity = userTasks.length > 0 || daysWorked > 0
 
       return {
         id: user.id,
@@ -350,8 +608,11 @@ export async function getEmployeesSummary({
         metrics: {
           totalRevenue,
           tasksCompleted: userTasks.length,
-          daysWorked: uniqueDays.size,
+          daysWorked,
+          expectedWorkingDays: expectedWorkingDays.get(user.id) ?? 0,
+          hoursOnSite,
         },
+        workTypeBreakdown: buildWorkTypeBreakdown(userTasks, user.id),
         hasActivity,
       }
     })
@@ -392,15 +653,37 @@ export async function getEmployeesSummary({
         0,
       ),
       totalTasks: allTasks.length, // Use actual task count (multi-assignee tasks counted once)
+      workingDays,
     }
 
+    // Step 8: Team totals from the tasks assigned to each team
+    const teams = (await getTeams())
+      .map((team) => {
+        const teamTasks = allTasks.filter((task) => task.teamId === team.id)
+        return {
+          id: team.id,
+          name: team.name,
+          leaderId: team.leaderId,
+          memberIds: team.memberIds,
+          metrics: {
+            tasksCompleted: teamTasks.length,
+            totalRevenue: teamTasks.reduce(
+              (sum, task) =>
+                sum + (task.expectedRevenue ? Number(task.expectedRevenue) : 0),
+              0,
+            ),
+          },
+        }
+      })
+      .sort((a, b) => b.metrics.totalRevenue - a.metrics.totalRevenue)
+
     logger.info(
       {
         employeeCount: employeeMetrics.length,
         activeEmployees,
         dateRange: `${startDate} to ${endDate}`,
         tasksProcessed: allTasks.length,
-        checkInsProcessed: allCheckIns.length,
+        visitsProcessed: allVisits.length,
         totalRevenue: summary.totalRevenue,
         totalTasks: summary.totalTasks,
       },
@@ -409,8 +692,12 @@ export async function getEmployeesSummary({
 
     return {
       period: { startDate, endDate, timezone },
+      daysWorkedSource,
       employees: employeeMetrics,
       summary,
+      teams,
+      // Company-wide breakdown (multi-assignee tasks counted once, full revenue)
+      workTypeBreakdown: buildWorkTypeBreakdown(allTasks),
     }
   } catch (error) {
     logger.error({ error }, 'Failed to generate employee summary')
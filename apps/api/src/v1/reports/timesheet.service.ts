@@ -0,0 +1,214 @@
+import type { User } from '@clerk/backend'
+import type {
+  TaskVisitCorrection,
+  TimesheetQuery,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { getCalendarRange } from '../../lib/scheduling'
+import { buildTimesheet } from '../../lib/timesheet'
+import { createActivity } from '../activity/activity.service'
+import { getAppSettings } from '../settings/settings.service'
+import { isUserAdmin } from '../user/user.service'
+
+/**
+ * Timesheet of a worker for payroll
+ *
+ * On-site intervals come from the worker's visits (check-in to check-out),
+ * merged when they overlap. Daily and weekly overtime use the thresholds of
+ * the settings. Visits without a check-out are listed as unpaired so an admin
+ * can correct them, they count once corrected.
+ *
+ * @returns Intervals, days, weeks and totals in minutes, unpaired visits and
+ *   the titles of the tasks involved
+ */
+export async function getTimesheet({
+  userId,
+  startDate,
+  endDate,
+  timezone,
+  now = new Date(),
+}: TimesheetQuery & { userId: string; now?: Date }) {
+  const logger = getLogger('timesheet.service:getTimesheet')
+  const prisma = getPrisma()
+
+  const { start, end } = getCalendarRange(startDate, endDate, timezone)
+  const visits = await prisma.taskVisit.findMany({
+    where: {
+      userId,
+      checkedInAt: { lt: end },
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [{ checkedOutAt: null }, { checkedOutAt: { gt: start } }],
+    },
+    select: {
+      id: true,
+      taskId: true,
+      checkedInAt: true,
+      checkedOutAt: true,
+      correctedAt: true,
+    },
+  })
+
+  const { dailyOvertimeHours, weeklyOvertimeHours } = await getAppSettings()
+  const timesheet = buildTimesheet(visits, {
+    startDate,
+    endDate,
+    dailyOvertimeHours,
+    weeklyOvertimeHours,
+    timezone,
+    now,
+  })
+
+  const taskIds = [...new Set(visits.map((visit) => visit.taskId))]
+  const tasks = taskIds.length
+    ? await prisma.task.findMany({
+        where: { id: { in: taskIds } },
+        select: { id: true, title: true },
+      })
+    : []
+
+  logger.info(
+    {
+      userId,
+      visitCount: visits.length,
+      minutes: timesheet.totals.minutes,
+      unpaired: timesheet.unpaired.length,
+    },
+    'Built timesheet',
+  )
+
+  return {
+    userId,
+    period: { startDate, endDate, timezone },
+    thresholds: { dailyOvertimeHours, weeklyOvertimeHours },
+    ...timesheet,
+    tasks,
+  }
+}
+
+/**
+ * Correct the check-out time of a visit (forgotten or wrong check-out), admin
+ * only
+ *
+ * Moves the check-out of a closed visit, or closes an open visit of a task
+ * that is no longer in progress (e.g. cancelled while the worker was on
+ * site). On a task in progress the worker checks out in the app first, so
+ * the check-out completes the job or leaves it for the next visit, and the
+ * time is corrected afterwards. The admin and the reason are kept on the
+ * visit and logged in the task activity with the previous time.
+ *
+ * @throws HTTPException 403 for non-admins, 404 when the visit does not
+ *   exist, 400 when the time is not after the check-in, is in the future or
+ *   is after the worker's next check-in, or when the visit is still open on
+ *   a task in progress
+ */
+export async function correctTaskVisit({
+  id,
+  user,
+  data,
+  now = new Date(),
+}: {
+  id: string
+  user: User
+  data: TaskVisitCorrection
+  now?: Date
+}) {
+  const logger = getLogger('timesheet.service:correctTaskVisit')
+  const prisma = getPrisma()
+
+  if (!isUserAdmin({ user })) {
+    throw new HTTPException(403, {
+      message: 'Chỉ admin mới có thể chỉnh sửa giờ check-out',
+      cause: 'INSUFFICIENT_PERMISSIONS',
+    })
+  }
+
+  const visit = await prisma.taskVisit.findUnique({
+    where: { id },
+    include: { task: { select: { status: true } } },
+  })
+
+  if (!visit) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy lượt làm việc.',
+      cause: 'Visit not found',
+    })
+  }
+
+  const checkedOutAt = new Date(data.checkedOutAt)
+  if (checkedOutAt <= visit.checkedInAt) {
+    throw new HTTPException(400, {
+      message: 'Giờ check-out phải sau giờ check-in.',
+      cause: 'Check-out before check-in',
+    })
+  }
+  if (checkedOutAt > now) {
+    throw new HTTPException(400, {
+      message: 'Giờ check-out không được ở tương lai.',
+      cause: 'Check-out in the future',
+    })
+  }
+  if (!visit.checkedOutAt && visit.task.status === 'IN_PROGRESS') {
+    throw new HTTPException(400, {
+      message:
+        'Nhân viên vẫn đang làm công việc này, vui lòng check-out trên ứng dụng trước khi chỉnh giờ.',
+      cause: 'Open visit on a task in progress',
+    })
+  }
+
+  // The worker cannot be on site twice: the visit ends before their next one
+  const nextVisit = await prisma.taskVisit.findFirst({
+    where: {
+      userId: visit.userId,
+      id: { not: id },
+      checkedInAt: { gt: visit.checkedInAt },
+    },
+    orderBy: { checkedInAt: 'asc' },
+    select: { checkedInAt: true },
+  })
+  if (nextVisit && checkedOutAt > nextVisit.checkedInAt) {
+    throw new HTTPException(400, {
+      message: 'Giờ check-out phải trước lần check-in tiếp theo của nhân viên.',
+      cause: 'Check-out after the next check-in',
+    })
+  }
+
+  const corrected = await prisma.$transaction(async (tx) => {
+    const updated = await tx.taskVisit.update({
+      where: { id },
+      data: {
+        checkedOutAt,
+        correctedAt: now,
+        correctedBy: user.id,
+        correctionReason: data.reason,
+      },
+    })
+
+    await createActivity(
+      {
+        action: 'TASK_VISIT_CORRECTED',
+        userId: user.id,
+        topic: { entityType: 'TASK', entityId: visit.taskId },
+        payload: {
+          visitId: id,
+          workerId: visit.userId,
+          checkedInAt: visit.checkedInAt.toISOString(),
+          previousCheckedOutAt: visit.checkedOutAt?.toISOString() ?? null,
+          checkedOutAt: checkedOutAt.toISOString(),
+          reason: data.reason,
+        },
+      },
+      tx,
+    )
+
+    return updated
+  })
+
+  logger.info(
+    { visitId: id, workerId: visit.userId, correctedBy: user.id },
+    'Task visit check-out corrected',
+  )
+
+  return corrected
+}
@@ -0,0 +1,66 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  getAppSettings,
+  getGeofencePolicy,
+  updateAppSettings,
+} from '../settings.service'
+
+describe('settings service', () => {
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+  })
+
+  it('should return the defaults until settings are saved', async () => {
+    mockPrisma.appSettings.findUnique.mockResolvedValue(null)
+
+    const settings = await getAppSettings()
+
+    expect(settings).toMatchObject({
+      geofenceRadiusMeters: 100,
+      geofenceMode: 'WARN',
+      updatedAt: null,
+    })
+  })
+
+  it('should save settings with the admin who changed them', async () => {
+    const admin = createMockAdminUser({ id: 'admin_1' })
+    mockPrisma.appSettings.upsert.mockResolvedValue({ id: 'global' })
+
+    await updateAppSettings({ user: admin, data: { geofenceMode: 'BLOCK' } })
+
+    expect(mockPrisma.appSettings.upsert).toHaveBeenCalledWith({
+      where: { id: 'global' },
+      create: { id: 'global', geofenceMode: 'BLOCK', updatedBy: 'admin_1' },
+      update: { geofenceMode: 'BLOCK', updatedBy: 'admin_1' },
+    })
+  })
+
+  it('should prefer the radius of the task location', () => {
+    const settings = { geofenceRadiusMeters: 100, geofenceMode: 'BLOCK' }
+
+    expect(getGeofencePolicy(settings, { geofenceRadiusMeters: 300 })).toEqual({
+      radiusMeters: 300,
+      mode: 'BLOCK',
+    })
+    expect(getGeofencePolicy(settings, { geofenceRadiusMeters: null })).toEqual(
+      { radiusMeters: 100, mode: 'BLOCK' },
+    )
+    expect(getGeofencePolicy(settings, null)).toEqual({
+      radiusMeters: 100,
+      mode: 'BLOCK',
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { zUpdateAppSettings } from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserUpdateAppSettings,
+  getAppSettings,
+  updateAppSettings,
+} from './settings.service'
+
+/**
+ * Settings Router - company-wide settings
+ *
+ * Mounted at: /v1/settings
+ */
+const router = new Hono()
+  /**
+   * GET /v1/settings
+   *
+   * Current settings (defaults until an admin saves them)
+   *
+   * Response:
+   * - geofenceRadiusMeters, geofenceMode: Check-in geofence
+   * - roadDistanceMultiplier: Road distance / straight line, for mileage
+   * - dailyOvertimeHours, weeklyOvertimeHours: Timesheet overtime thresholds
+   * - workingWeekdays, workdayStartTime, attendanceGraceMinutes: Attendance
+   */
+  .get('/', async (c) => {
+    const logger = getLogger('settings.route:getSettings')
+
+    try {
+      const settings = await getAppSettings()
+      return c.json(settings)
+    } catch (error) {
+      logger.error({ error }, 'Failed to load settings')
+      throw new HTTPException(500, {
+        message: 'Không thể tải cài đặt. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * PUT /v1/settings
+   *
+   * Update settings (admin only). Omitted fields are kept.
+   *
+   * Body:
+   * - geofenceRadiusMeters?: Global check-in radius (20-5000 m)
+   * - geofenceMode?: WARN | REQUIRE_NOTE | BLOCK
+   * - roadDistanceMultiplier?: Road distance / straight line (1-3)
+   * - dailyOvertimeHours?: Hours per day before overtime (1-24)
+   * - weeklyOvertimeHours?: Hours per week before overtime (1-168)
+   * - workingWeekdays?: ISO weekdays worked (1 = Monday ... 7 = Sunday)
+   * - workdayStartTime?: Start of the workday (HH:mm)
+   * - attendanceGraceMinutes?: Minutes after the start before a clock-in is late (0-120)
+   */
+  .put('/', zValidator('json', zUpdateAppSettings), async (c) => {
+    const logger = getLogger('settings.route:updateSettings')
+    const user = getAuthUserStrict(c)
+    const data = c.req.valid('json')
+
+    if (!(await canUserUpdateAppSettings({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể thay đổi cài đặt.',
+        cause: 'Permission denied',
+      })
+    }
+
+    try {
+      const settings = await updateAppSettings({ user, data })
+      return c.json(settings)
+    } catch (error) {
+      logger.error({ error, data }, 'Failed to update settings')
+      throw new HTTPException(500, {
+        message: 'Không thể lưu cài đặt. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+
+export default router
@@ -0,0 +1,101 @@
+import type { User } from '@clerk/backend'
+import {
+  type AppSettings,
+  GeofenceMode,
+  type GeoLocation,
+} from '@nv-internal/prisma-client'
+import type { UpdateAppSettings } from '@nv-internal/validation'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { isUserAdmin } from '../user/user.service'
+
+/** The single settings row */
+const APP_SETTINGS_ID = 'global'
+
+/** Used until an admin saves the settings (same as the column defaults) */
+export const DEFAULT_APP_SETTINGS = {
+  geofenceRadiusMeters: 100,
+  geofenceMode: GeofenceMode.WARN,
+  roadDistanceMultiplier: 1,
+  dailyOvertimeHours: 8,
+  weeklyOvertimeHours: 48,
+  workingWeekdays: [1, 2, 3, 4, 5, 6],
+  workdayStartTime: '08:00',
+  attendanceGraceMinutes: 15,
+} satisfies Partial<AppSettings>
+
+export type GeofencePolicy = {
+  radiusMeters: number
+  mode: GeofenceMode
+}
+
+export async function canUserUpdateAppSettings({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Company-wide settings, with the defaults until an admin saves them
+ */
+export async function getAppSettings() {
+  const prisma = getPrisma()
+
+  const settings = await prisma.appSettings.findUnique({
+    where: { id: APP_SETTINGS_ID },
+  })
+
+  return {
+    ...DEFAULT_APP_SETTINGS,
+    updatedAt: null,
+    updatedBy: null,
+    ...settings,
+  }
+}
+
+export type ResolvedAppSettings = Awaited<ReturnType<typeof getAppSettings>>
+
+/**
+ * Update company-wide settings (admin only)
+ *
+ * @returns The updated settings
+ */
+export async function updateAppSettings({
+  user,
+  data,
+}: {
+  user: User
+  data: UpdateAppSettings
+}) {
+  const logger = getLogger('settings.service:updateAppSettings')
+  const prisma = getPrisma()
+
+  const settings = await prisma.appSettings.upsert({
+    where: { id: APP_SETTINGS_ID },
+    create: { id: APP_SETTINGS_ID, ...data, updatedBy: user.id },
+    update: { ...data, updatedBy: user.id },
+  })
+
+  logger.info({ userId: user.id, data }, 'App settings updated')
+
+  return settings
+}
+
+/**
+ * Geofence applied to check-ins at a task location
+ *
+ * The location's radius overrides the global one (large sites), the mode is
+ * always the global one.
+ *
+ * @example
+ * getGeofencePolicy(settings, { geofenceRadiusMeters: 300 })
+ * // { radiusMeters: 300, mode: 'WARN' }
+ */
+export function getGeofencePolicy(
+  settings: Pick<ResolvedAppSettings, 'geofenceRadiusMeters' | 'geofenceMode'>,
+  geoLocation?: Pick<GeoLocation, 'geofenceRadiusMeters'> | null,
+): GeofencePolicy {
+  return {
+    radiusMeters:
+      geoLocation?.geofenceRadiusMeters ?? settings.geofenceRadiusMeters,
+    mode: settings.geofenceMode,
+  }
+}
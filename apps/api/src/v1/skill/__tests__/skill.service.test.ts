@@ -0,0 +1,138 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  checkSkillIssues,
+  getExpiringCertificates,
+  upsertWorkerCertificate,
+} from '../skill.service'
+
+describe('skill service', () => {
+  const admin = createMockAdminUser()
+  const r32 = { id: 'skill_r32', name: 'Gas R32', workTypes: ['INSTALLATION'] }
+  const vrv = { id: 'skill_vrv', name: 'Hệ thống VRV', workTypes: [] }
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+  })
+
+  describe('checkSkillIssues', () => {
+    it('should check the skills of the work type and of the task', async () => {
+      mockPrisma.skill.findMany.mockResolvedValue([r32, vrv])
+      mockPrisma.workerCertificate.findMany.mockResolvedValue([
+        { userId: 'worker_1', skillId: 'skill_r32', expiryDate: '2026-10-19' },
+        { userId: 'worker_1', skillId: 'skill_vrv', expiryDate: null },
+      ])
+
+      const issues = await checkSkillIssues({
+        assigneeIds: ['worker_1'],
+        workType: 'INSTALLATION',
+        requiredSkillIds: ['skill_vrv'],
+        date: '2026-10-20',
+      })
+
+      expect(mockPrisma.skill.findMany).toHaveBeenCalledWith({
+        where: {
+          deletedAt: null,
+          // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+          OR: [
+            { workTypes: { has: 'INSTALLATION' } },
+            { id: { in: ['skill_vrv'] } },
+          ],
+        },
+        orderBy: { name: 'asc' },
+      })
+      expect(issues).toEqual([
+        {
+          userId: 'worker_1',
+          skillId: 'skill_r32',
+          skillName: 'Gas R32',
+          reason: 'EXPIRED',
+          expiryDate: '2026-10-19',
+        },
+      ])
+    })
+
+    it('should not look anything up for tasks without requirements', async () => {
+      await expect(
+        checkSkillIssues({
+          assigneeIds: ['worker_1'],
+          workType: null,
+          requiredSkillIds: [],
+          date: '2026-10-20',
+        }),
+      ).resolves.toEqual([])
+      expect(mockPrisma.skill.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('upsertWorkerCertificate', () => {
+    it('should keep the scan on file without a new one', async () => {
+      mockPrisma.skill.findFirst.mockResolvedValue(r32)
+      mockPrisma.workerCertificate.upsert.mockResolvedValue({ id: 'cert_1' })
+
+      await upsertWorkerCertificate({
+        data: {
+          userId: 'worker_1',
+          skillId: 'skill_r32',
+          expiryDate: '2027-06-30',
+        },
+        user: admin,
+        storage: {},
+      })
+
+      expect(mockPrisma.attachment.create).not.toHaveBeenCalled()
+      expect(mockPrisma.workerCertificate.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            // biome-ignore lint/style/useNamingConvention: Prisma compound unique key
+            userId_skillId: { userId: 'worker_1', skillId: 'skill_r32' },
+          },
+          update: {
+            certificateNumber: null,
+            expiryDate: '2027-06-30',
+            updatedBy: admin.id,
+          },
+        }),
+      )
+    })
+  })
+
+  describe('getExpiringCertificates', () => {
+    it('should list the certificates expiring within the window', async () => {
+      mockPrisma.workerCertificate.findMany.mockResolvedValue([
+        { id: 'cert_1', expiryDate: '2026-10-20' },
+        { id: 'cert_2', expiryDate: '2026-11-19' },
+      ])
+
+      const certificates = await getExpiringCertificates({
+        days: 30,
+        // 2026-10-20 09:00 in Asia/Ho_Chi_Minh
+        now: new Date('2026-10-20T02:00:00Z'),
+      })
+
+      expect(mockPrisma.workerCertificate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            expiryDate: { gte: '2026-10-20', lte: '2026-11-19' },
+            skill: { deletedAt: null },
+          },
+        }),
+      )
+      expect(certificates.map((certificate) => certificate.daysLeft)).toEqual([
+        0, 30,
+      ])
+    })
+  })
+})
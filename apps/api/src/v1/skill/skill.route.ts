@@ -0,0 +1,175 @@
+import {
+  z,
+  zCreateSkill,
+  zUpdateSkill,
+  zUpsertWorkerCertificate,
+  zWorkerCertificateQuery,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getStorageProvider } from '../../lib/storage/get-storage-provider'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserManageSkills,
+  createSkill,
+  deleteSkill,
+  deleteWorkerCertificate,
+  getSkills,
+  getWorkerCertificates,
+  updateSkill,
+  upsertWorkerCertificate,
+} from './skill.service'
+
+const zSkillParam = z.object({ id: z.string().min(1) })
+
+/**
+ * Skill Router - worker skills and certifications required by tasks
+ *
+ * Mounted at: /v1/skill
+ *
+ * Routes:
+ * - GET / - List the skills (any authenticated user)
+ * - GET /certificates - List the certificates (workers see their own)
+ * - POST / - Create a skill (admin only)
+ * - PATCH /:id - Rename a skill or change its work types (admin only)
+ * - DELETE /:id - Delete a skill (admin only)
+ * - POST /certificates - Add or replace a worker's certificate (admin only)
+ * - DELETE /certificates/:id - Remove a worker's certificate (admin only)
+ *
+ * Note: Tasks list extra skills in `requiredSkillIds`, assignees missing one
+ * are returned as `skillIssues` by PUT /v1/task/:id/assignees. Certificates
+ * about to expire are listed by GET /v1/reports/expiring-certificates.
+ */
+const router = new Hono()
+  /**
+   * GET /v1/skill
+   *
+   * Response:
+   * - skills: [{ id, name, description, workTypes }] by name
+   */
+  .get('/', async (c) => {
+    const skills = await getSkills()
+    return c.json({ skills }, 200)
+  })
+  /**
+   * GET /v1/skill/certificates
+   *
+   * Query Parameters:
+   * - userId (optional): Certificates of this worker only (forced to the
+   *   current user for workers)
+   *
+   * Response:
+   * - certificates: [{ id, userId, skill: { id, name }, certificateNumber,
+   *   expiryDate, attachmentId }] by expiry date
+   */
+  .get(
+    '/certificates',
+    zValidator('query', zWorkerCertificateQuery),
+    async (c) => {
+      const { userId } = c.req.valid('query')
+      const user = getAuthUserStrict(c)
+
+      const isAdmin = await canUserManageSkills({ user })
+      const certificates = await getWorkerCertificates({
+        userId: isAdmin ? userId : user.id,
+      })
+      return c.json({ certificates }, 200)
+    },
+  )
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserManageSkills({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể quản lý kỹ năng.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  /**
+   * POST /v1/skill
+   *
+   * Body:
+   * - name: e.g. "Gas R32"
+   * - description?: What the certification covers
+   * - workTypes?: Work types whose tasks require the skill
+   */
+  .post('/', zValidator('json', zCreateSkill), async (c) => {
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+    const skill = await createSkill({ data, user })
+    return c.json({ skill }, 201)
+  })
+  .patch(
+    '/:id',
+    zValidator('param', zSkillParam),
+    zValidator('json', zUpdateSkill),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+      const skill = await updateSkill({ id, data, user })
+      return c.json({ skill }, 200)
+    },
+  )
+  .delete('/:id', zValidator('param', zSkillParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+    await deleteSkill({ id, user })
+    return c.json({ success: true }, 200)
+  })
+  /**
+   * POST /v1/skill/certificates
+   *
+   * Body (multipart/form-data):
+   * - userId, skillId: One certificate per worker and skill, replaced if any
+   * - certificateNumber?: Number printed on the certificate
+   * - expiryDate?: Last valid day (YYYY-MM-DD), never expires when left out
+   * - certificateFile?: Scan (image or PDF), the previous one is kept without
+   */
+  .post(
+    '/certificates',
+    zValidator('form', zUpsertWorkerCertificate),
+    async (c) => {
+      const logger = getLogger('skill.route:upsertWorkerCertificate')
+      const data = c.req.valid('form')
+      const user = getAuthUserStrict(c)
+
+      try {
+        const certificate = await upsertWorkerCertificate({
+          data,
+          user,
+          storage: getStorageProvider(),
+        })
+        return c.json({ certificate }, 201)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        // Scan rejected by the upload (e.g. type or size)
+        if ((error as { status?: number } | null)?.status === 400) {
+          throw new HTTPException(400, {
+            message: (error as Error).message,
+            cause: error,
+          })
+        }
+
+        logger.error({ error, userId: user.id }, 'Certificate upload failed')
+        throw new HTTPException(500, {
+          message: 'Không thể lưu chứng chỉ. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+  .delete('/certificates/:id', zValidator('param', zSkillParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+    await deleteWorkerCertificate({ id, user })
+    return c.json({ success: true }, 200)
+  })
+
+export default router
@@ -0,0 +1,351 @@
+import type { User } from '@clerk/backend'
+import type { TaskWorkType } from '@nv-internal/prisma-client'
+import type {
+  CreateSkillValues,
+  UpdateSkillValues,
+  UpsertWorkerCertificate,
+} from '@nv-internal/validation'
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { toCalendarDay } from '../../lib/scheduling'
+import { findSkillIssues } from '../../lib/skills'
+import type { StorageProvider } from '../../lib/storage/storage.types'
+import { uploadCertificateScan } from '../attachment/attachment.service'
+import { isUserAdmin } from '../user/user.service'
+
+export async function canUserManageSkills({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Skills by name (deleted skills are left out)
+ */
+export async function getSkills() {
+  const prisma = getPrisma()
+
+  return prisma.skill.findMany({
+    where: { deletedAt: null },
+    orderBy: [{ name: 'asc' }, { createdAt: 'asc' }],
+  })
+}
+
+/**
+ * Get a skill that is not deleted
+ *
+ * @throws HTTPException 404 when the skill does not exist
+ */
+export async function getSkillById({ id }: { id: string }) {
+  const prisma = getPrisma()
+
+  const skill = await prisma.skill.findFirst({ where: { id, deletedAt: null } })
+  if (!skill) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy kỹ năng.',
+    })
+  }
+
+  return skill
+}
+
+export async function createSkill({
+  data,
+  user,
+}: {
+  data: CreateSkillValues
+  user: User
+}) {
+  const logger = getLogger('skill.service:createSkill')
+  const prisma = getPrisma()
+
+  const skill = await prisma.skill.create({
+    data: {
+      name: data.name,
+      description: data.description ?? null,
+      workTypes: [...new Set(data.workTypes)],
+    },
+  })
+
+  logger.info({ skill, userId: user.id }, 'Skill created')
+
+  return skill
+}
+
+/**
+ * Rename a skill or change the work types requiring it
+ */
+export async function updateSkill({
+  id,
+  data,
+  user,
+}: {
+  id: string
+  data: UpdateSkillValues
+  user: User
+}) {
+  const logger = getLogger('skill.service:updateSkill')
+  const prisma = getPrisma()
+
+  await getSkillById({ id })
+
+  const skill = await prisma.skill.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description }),
+      ...(data.workTypes !== undefined && {
+        workTypes: [...new Set(data.workTypes)],
+      }),
+    },
+  })
+
+  logger.info(
+    { skillId: id, changes: Object.keys(data), userId: user.id },
+    'Skill updated',
+  )
+
+  return skill
+}
+
+/**
+ * Soft delete a skill
+ *
+ * It is no longer required by any task, the certificates are kept.
+ */
+export async function deleteSkill({ id, user }: { id: string; user: User }) {
+  const logger = getLogger('skill.service:deleteSkill')
+  const prisma = getPrisma()
+
+  await getSkillById({ id })
+  await prisma.skill.update({
+    where: { id },
+    data: { deletedAt: new Date() },
+  })
+
+  logger.info({ skillId: id, userId: user.id }, 'Skill deleted')
+}
+
+/**
+ * Skills a task requires: the ones of its work type, then the ones listed on
+ * the task (deleted skills are left out)
+ */
+export async function getRequiredSkills({
+  workType,
+  requiredSkillIds = [],
+}: {
+  workType?: TaskWorkType | null
+  requiredSkillIds?: string[]
+}) {
+  if (!workType && requiredSkillIds.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
+
+  return prisma.skill.findMany({
+    where: {
+      deletedAt: null,
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [
+        ...(workType ? [{ workTypes: { has: workType } }] : []),
+        { id: { in: requiredSkillIds } },
+      ],
+    },
+    orderBy: { name: 'asc' },
+  })
+}
+
+/**
+ * Find the assignees of a task who lack one of its skills or whose
+ * certificate expired before the day of the task. Only a warning, the
+ * assignment goes through.
+ *
+ * @returns One issue per (assignee, skill) with the skill's name
+ */
+export async function checkSkillIssues({
+  assigneeIds,
+  workType,
+  requiredSkillIds,
+  date,
+}: {
+  assigneeIds: string[]
+  workType?: TaskWorkType | null
+  requiredSkillIds?: string[]
+  date: string
+}) {
+  if (assigneeIds.length === 0) {
+    return []
+  }
+
+  const skills = await getRequiredSkills({ workType, requiredSkillIds })
+  if (skills.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
+  const certificates = await prisma.workerCertificate.findMany({
+    where: {
+      userId: { in: assigneeIds },
+      skillId: { in: skills.map((skill) => skill.id) },
+    },
+    select: { userId: true, skillId: true, expiryDate: true },
+  })
+
+  const skillNames = new Map(skills.map((skill) => [skill.id, skill.name]))
+
+  return findSkillIssues({
+    assigneeIds,
+    requiredSkillIds: skills.map((skill) => skill.id),
+    certificates,
+    date,
+  }).map((issue) => ({
+    ...issue,
+    skillName: skillNames.get(issue.skillId) ?? '',
+  }))
+}
+
+export type SkillIssueWithName = Awaited<
+  ReturnType<typeof checkSkillIssues>
+>[number]
+
+const CERTIFICATE_INCLUDE = {
+  skill: { select: { id: true, name: true } },
+}
+
+/**
+ * Certificates of a worker, or of everyone, by expiry date (certificates of
+ * deleted skills are left out)
+ */
+export async function getWorkerCertificates({ userId }: { userId?: string }) {
+  const prisma = getPrisma()
+
+  return prisma.workerCertificate.findMany({
+    where: {
+      ...(userId && { userId }),
+      skill: { deletedAt: null },
+    },
+    include: CERTIFICATE_INCLUDE,
+    orderBy: [{ expiryDate: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+  })
+}
+
+/**
+ * Add or replace a worker's certificate for a skill
+ *
+ * A new scan replaces the one on file, without one the previous scan is kept.
+ */
+export async function upsertWorkerCertificate({
+  data,
+  user,
+  storage,
+}: {
+  data: UpsertWorkerCertificate
+  user: User
+  storage: StorageProvider
+}) {
+  const logger = getLogger('skill.service:upsertWorkerCertificate')
+  const prisma = getPrisma()
+
+  await getSkillById({ id: data.skillId })
+
+  const scan = data.certificateFile
+    ? await uploadCertificateScan({
+        file: data.certificateFile,
+        userId: data.userId,
+        user,
+        storage,
+      })
+    : null
+
+  const fields = {
+    certificateNumber: data.certificateNumber || null,
+    expiryDate: data.expiryDate ?? null,
+    updatedBy: user.id,
+    ...(scan && { attachmentId: scan.id }),
+  }
+  const certificate = await prisma.workerCertificate.upsert({
+    where: {
+      // biome-ignore lint/style/useNamingConvention: Prisma compound unique key
+      userId_skillId: { userId: data.userId, skillId: data.skillId },
+    },
+    create: { userId: data.userId, skillId: data.skillId, ...fields },
+    update: fields,
+    include: CERTIFICATE_INCLUDE,
+  })
+
+  logger.info(
+    { certificateId: certificate.id, userId: user.id },
+    'Worker certificate saved',
+  )
+
+  return certificate
+}
+
+/**
+ * Remove a worker's certificate, they no longer hold the skill
+ *
+ * @throws HTTPException 404 when the certificate does not exist
+ */
+export async function deleteWorkerCertificate({
+  id,
+  user,
+}: {
+  id: string
+  user: User
+}) {
+  const logger = getLogger('skill.service:deleteWorkerCertificate')
+  const prisma = getPrisma()
+
+  const certificate = await prisma.workerCertificate.findUnique({
+    where: { id },
+  })
+  if (!certificate) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy chứng chỉ.',
+    })
+  }
+
+  await prisma.workerCertificate.delete({ where: { id } })
+
+  logger.info({ certificateId: id, userId: user.id }, 'Certificate deleted')
+}
+
+/**
+ * Certificates expiring from today to `days` days later, soonest first
+ *
+ * @example
+ * // Today is 2026-10-20
+ * await getExpiringCertificates({ days: 30 })
+ * // Certificates with an expiry date from 2026-10-20 to 2026-11-19, each
+ * // with daysLeft (0 when it expires today)
+ */
+export async function getExpiringCertificates({
+  days,
+  now = new Date(),
+}: {
+  days: number
+  now?: Date
+}) {
+  const prisma = getPrisma()
+
+  const today = toCalendarDay(now)
+  const lastDay = toCalendarDay(addDays(now, days))
+
+  const certificates = await prisma.workerCertificate.findMany({
+    where: {
+      expiryDate: { gte: today, lte: lastDay },
+      skill: { deletedAt: null },
+    },
+    include: CERTIFICATE_INCLUDE,
+    orderBy: [{ expiryDate: 'asc' }, { id: 'asc' }],
+  })
+
+  return certificates.map((certificate) => ({
+    ...certificate,
+    daysLeft: differenceInCalendarDays(
+      parseISO(certificate.expiryDate ?? today),
+      parseISO(today),
+    ),
+  }))
+}
@@ -0,0 +1,104 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import {
+  getTaskEventFlags,
+  reviewTaskEventFlag,
+} from '../task-event-flag.service'
+
+describe('task event flag service', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+  })
+
+  describe('getTaskEventFlags', () => {
+    it('should list open flags with a next cursor', async () => {
+      mockPrisma.taskEventFlag.findMany.mockResolvedValue([
+        { id: 'flag_3' },
+        { id: 'flag_2' },
+        { id: 'flag_1' },
+      ])
+
+      const result = await getTaskEventFlags({ status: 'open', take: 2 })
+
+      expect(mockPrisma.taskEventFlag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { reviewedAt: null }, take: 3 }),
+      )
+      expect(result.flags.map((flag) => flag.id)).toEqual(['flag_3', 'flag_2'])
+      expect(result).toMatchObject({ nextCursor: 'flag_2', hasNextPage: true })
+    })
+
+    it('should filter reviewed flags by reason', async () => {
+      mockPrisma.taskEventFlag.findMany.mockResolvedValue([])
+
+      await getTaskEventFlags({
+        status: 'reviewed',
+        reason: 'OUT_OF_RANGE',
+        cursor: 'flag_9',
+        take: 20,
+      })
+
+      expect(mockPrisma.taskEventFlag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { reviewedAt: { not: null }, reason: 'OUT_OF_RANGE' },
+          cursor: { id: 'flag_9' },
+          skip: 1,
+        }),
+      )
+    })
+  })
+
+  describe('reviewTaskEventFlag', () => {
+    it('should mark an open flag as reviewed', async () => {
+      mockPrisma.taskEventFlag.findUnique.mockResolvedValue({
+        id: 'flag_1',
+        reviewedAt: null,
+      })
+      mockPrisma.taskEventFlag.update.mockResolvedValue({ id: 'flag_1' })
+
+      await reviewTaskEventFlag({
+        id: 'flag_1',
+        user: admin,
+        data: { reviewNote: 'Đã gọi xác nhận với khách' },
+      })
+
+      expect(mockPrisma.taskEventFlag.update).toHaveBeenCalledWith({
+        where: { id: 'flag_1' },
+        data: {
+          reviewedAt: expect.any(Date),
+          reviewedBy: 'admin_1',
+          reviewNote: 'Đã gọi xác nhận với khách',
+        },
+      })
+    })
+
+    it('should reject a missing or already reviewed flag', async () => {
+      mockPrisma.taskEventFlag.findUnique.mockResolvedValueOnce(null)
+      await expect(
+        reviewTaskEventFlag({ id: 'flag_x', user: admin, data: {} }),
+      ).rejects.toMatchObject({ status: 404 })
+
+      mockPrisma.taskEventFlag.findUnique.mockResolvedValueOnce({
+        id: 'flag_1',
+        reviewedAt: new Date(),
+      })
+      await expect(
+        reviewTaskEventFlag({ id: 'flag_1', user: admin, data: {} }),
+      ).rejects.toMatchObject({ status: 400 })
+      expect(mockPrisma.taskEventFlag.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -60,6 +60,9 @@ describe('task-event service', () => {
   beforeEach(() => {
     resetPrismaMock(mockPrisma)
     jest.clearAllMocks()
+    // No teammate on site by default
+    mockPrisma.taskVisit.findMany.mockResolvedValue([])
+    mockPrisma.taskVisit.count.mockResolvedValue(0)
   })
 
   function getService() {
@@ -84,6 +87,7 @@ describe('task-event service', () => {
           longitude: number
           files: File[]
           notes?: string
+          completeTask?: boolean
         },
         storage: unknown,
       ) => Promise<unknown>
@@ -112,6 +116,11 @@ describe('task-event service', () => {
       // Mock transaction
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         const txMock = {
+          taskVisit: {
+            create: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+          },
           geoLocation: {
             create: jest.fn().mockResolvedValue({
               id: 'geo_2',
@@ -205,6 +214,11 @@ describe('task-event service', () => {
 
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         const txMock = {
+          taskVisit: {
+            create: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+          },
           geoLocation: {
             create: jest.fn().mockResolvedValue({
               id: 'geo_2',
@@ -212,6 +226,9 @@ describe('task-event service', () => {
               lng: 105.8552,
             }),
           },
+          taskEventFlag: {
+            createMany: jest.fn().mockResolvedValue({ count: 1 }),
+          },
           task: {
             update: jest.fn().mockResolvedValue({
               id: 1,
@@ -297,14 +314,14 @@ describe('task-event service', () => {
       ).rejects.toThrow('không được phân công')
     })
 
-    it('should throw error when task status is not READY', async () => {
+    it('should throw error when task status is not READY or IN_PROGRESS', async () => {
       const worker = createMockWorkerUser()
       const storage = createMockStorage()
       const { checkInToTask } = getService()
 
       mockPrisma.task.findUnique.mockResolvedValueOnce({
         id: 1,
-        status: 'IN_PROGRESS',
+        status: 'COMPLETED',
         assigneeIds: [worker.id],
         geoLocation: {
           id: 'geo_1',
@@ -411,6 +428,193 @@ describe('task-event service', () => {
     })
   })
 
+  describe('resuming a task on hold', () => {
+    it('should resume a task put on hold by its assignee and end the hold', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkInToTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'ON_HOLD',
+        holdReason: 'WAITING_FOR_PARTS',
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+
+      const heldSince = new Date(Date.now() - 45 * 60 * 1000)
+      const txMock = {
+        taskVisit: {
+          create: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+          update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        geoLocation: {
+          create: jest.fn().mockResolvedValue({ id: 'geo_2' }),
+        },
+        taskHold: {
+          findFirst: jest.fn().mockResolvedValue({
+            id: 'hold_1',
+            reason: 'WAITING_FOR_PARTS',
+            startedAt: heldSince,
+          }),
+          updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        },
+        task: {
+          update: jest.fn().mockResolvedValue({ id: 1, status: 'IN_PROGRESS' }),
+        },
+      }
+      mockPrisma.$transaction.mockImplementation(async (callback) =>
+        callback(txMock),
+      )
+
+      await checkInToTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [],
+        },
+        storage,
+      )
+
+      expect(txMock.taskHold.updateMany).toHaveBeenCalledWith({
+        where: { taskId: 1, endedAt: null },
+        data: { endedAt: expect.any(Date) },
+      })
+      // startedAt of the first check-in is kept
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'IN_PROGRESS', holdReason: null },
+        }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'TASK_CHECKED_IN',
+          payload: expect.objectContaining({
+            resumedFromHold: {
+              reason: 'WAITING_FOR_PARTS',
+              durationMinutes: 45,
+            },
+          }),
+        }),
+        expect.anything(),
+      )
+    })
+
+    it('should not resume a task put on hold by an admin', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkInToTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'ON_HOLD',
+        holdReason: null,
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+
+      await expect(
+        checkInToTask(
+          {
+            taskId: 1,
+            userId: worker.id,
+            latitude: 21.0285,
+            longitude: 105.8542,
+            files: [],
+          },
+          storage,
+        ),
+      ).rejects.toThrow('chưa sẵn sàng')
+    })
+  })
+
+  describe('putTaskOnHold', () => {
+    it('should put an IN_PROGRESS task on hold with a reason', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { putTaskOnHold } = require('../task-event.service')
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+      })
+      mockPrisma.taskHold.create.mockResolvedValue({ id: 'hold_1' })
+      mockPrisma.task.update.mockResolvedValue({ id: 1, status: 'ON_HOLD' })
+
+      const result = await putTaskOnHold(
+        {
+          taskId: 1,
+          userId: worker.id,
+          reason: 'CUSTOMER_ABSENT',
+          notes: 'Khách đi vắng',
+          files: [makeFile('door.jpg', 'image/jpeg', 1000)],
+        },
+        storage,
+      )
+
+      expect(result.task.status).toBe('ON_HOLD')
+      expect(mockPrisma.taskHold.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 1,
+          userId: worker.id,
+          reason: 'CUSTOMER_ABSENT',
+          notes: 'Khách đi vắng',
+        },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'ON_HOLD', holdReason: 'CUSTOMER_ABSENT' },
+        }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'TASK_PUT_ON_HOLD',
+          payload: expect.objectContaining({
+            holdId: 'hold_1',
+            reason: 'CUSTOMER_ABSENT',
+            attachments: [
+              {
+                id: 'att_1',
+                mimeType: 'image/jpeg',
+                originalFilename: 'photo.jpg',
+              },
+            ],
+          }),
+        }),
+        expect.anything(),
+      )
+    })
+
+    it('should reject tasks that are not IN_PROGRESS', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { putTaskOnHold } = require('../task-event.service')
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'READY',
+        assigneeIds: [worker.id],
+      })
+
+      await expect(
+        putTaskOnHold(
+          {
+            taskId: 1,
+            userId: worker.id,
+            reason: 'WAITING_FOR_PARTS',
+            files: [],
+          },
+          storage,
+        ),
+      ).rejects.toThrow('đang thực hiện')
+      expect(mockPrisma.taskHold.create).not.toHaveBeenCalled()
+    })
+  })
+
   describe('checkOutFromTask', () => {
     it('should check out successfully when task is IN_PROGRESS and user checked in', async () => {
       const worker = createMockWorkerUser()
@@ -429,16 +633,21 @@ describe('task-event service', () => {
         },
       })
 
-      // Mock check-in activity exists
-      mockPrisma.activity.findFirst.mockResolvedValueOnce({
-        id: 'act_1',
-        action: 'TASK_CHECKED_IN',
+      // Mock open visit exists
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
         userId: worker.id,
+        checkedOutAt: null,
       })
 
       // Mock transaction
       mockPrisma.$transaction.mockImplementation(async (callback) => {
         const txMock = {
+          taskVisit: {
+            create: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+            updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+          },
           geoLocation: {
             create: jest.fn().mockResolvedValue({
               id: 'geo_3',
@@ -537,8 +746,8 @@ describe('task-event service', () => {
         },
       })
 
-      // No check-in activity found
-      mockPrisma.activity.findFirst.mockResolvedValueOnce(null)
+      // No open visit found
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce(null)
 
       await expect(
         checkOutFromTask(
@@ -553,5 +762,803 @@ describe('task-event service', () => {
         ),
       ).rejects.toThrow('check-in')
     })
+
+    it('should throw error when required checklist items are unchecked', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: worker.id,
+        checkedOutAt: null,
+      })
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(2)
+
+      await expect(
+        checkOutFromTask(
+          {
+            taskId: 1,
+            userId: worker.id,
+            latitude: 21.0285,
+            longitude: 105.8542,
+            files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+          },
+          storage,
+        ),
+      ).rejects.toThrow('danh sách kiểm tra')
+
+      expect(mockPrisma.taskChecklistItem.count).toHaveBeenCalledWith({
+        where: { taskId: 1, required: true, checkedAt: null },
+      })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('multi-visit jobs', () => {
+    function mockVisitTransaction(taskUpdateResult: unknown) {
+      const txMock = {
+        geoLocation: {
+          create: jest.fn().mockResolvedValue({ id: 'geo_2' }),
+        },
+        taskVisit: {
+          create: jest.fn().mockResolvedValue({ id: 'visit_2' }),
+          update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        task: {
+          update: jest.fn().mockResolvedValue(taskUpdateResult),
+        },
+      }
+      mockPrisma.$transaction.mockImplementation(async (callback) =>
+        callback(txMock),
+      )
+      return txMock
+    }
+
+    it('should start a new visit on an IN_PROGRESS task and keep startedAt', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkInToTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce(null)
+      const txMock = mockVisitTransaction({ id: 1, status: 'IN_PROGRESS' })
+
+      await checkInToTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [],
+        },
+        storage,
+      )
+
+      expect(txMock.taskVisit.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 1,
+          userId: worker.id,
+          checkedInAt: expect.any(Date),
+          checkInGeoLocationId: 'geo_2',
+        },
+      })
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { status: 'IN_PROGRESS' } }),
+      )
+    })
+
+    it('should reject check-in when the user already has an open visit', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkInToTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: worker.id,
+        checkedOutAt: null,
+      })
+
+      await expect(
+        checkInToTask(
+          {
+            taskId: 1,
+            userId: worker.id,
+            latitude: 21.0285,
+            longitude: 105.8542,
+            files: [],
+          },
+          storage,
+        ),
+      ).rejects.toThrow('vui lòng check-out trước')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should end the visit without completing the task', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: worker.id,
+        checkedOutAt: null,
+      })
+      const txMock = mockVisitTransaction({ id: 1, status: 'IN_PROGRESS' })
+
+      const result = await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+          completeTask: false,
+        },
+        storage,
+      )
+
+      expect(result.event.completedTask).toBe(false)
+      // Required checklist items only gate completion
+      expect(mockPrisma.taskChecklistItem.count).not.toHaveBeenCalled()
+      expect(txMock.taskVisit.update).toHaveBeenCalledWith({
+        where: { id: 'visit_1' },
+        data: {
+          checkedOutAt: expect.any(Date),
+          checkOutGeoLocationId: 'geo_2',
+          completedTask: false,
+        },
+      })
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: {} }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'TASK_CHECKED_OUT',
+          payload: expect.objectContaining({
+            visitId: 'visit_1',
+            completedTask: false,
+          }),
+        }),
+        expect.anything(),
+      )
+    })
+
+    it('should complete the task when the last assignee on site checks out', async () => {
+      const worker = createMockWorkerUser()
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: [worker.id, 'user_other'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: worker.id,
+        checkedOutAt: null,
+      })
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(0)
+      const txMock = mockVisitTransaction({ id: 1, status: 'COMPLETED' })
+
+      const result = await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+        },
+        storage,
+      )
+
+      expect(result.event.completedTask).toBe(true)
+      expect(mockPrisma.taskVisit.findMany).toHaveBeenCalledWith({
+        where: { taskId: 1, checkedOutAt: null, userId: { not: worker.id } },
+        select: { userId: true },
+      })
+      expect(txMock.taskVisit.update).toHaveBeenCalledWith({
+        where: { id: 'visit_1' },
+        data: {
+          checkedOutAt: expect.any(Date),
+          checkOutGeoLocationId: 'geo_2',
+          completedTask: true,
+        },
+      })
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+        }),
+      )
+    })
+  })
+
+  describe('location flags', () => {
+    // ~150m from the task location
+    const farAway = { latitude: 21.0295, longitude: 105.8552 }
+
+    function mockGeofenceTransaction() {
+      const txMock = {
+        geoLocation: {
+          create: jest.fn().mockResolvedValue({ id: 'geo_2' }),
+        },
+        taskVisit: {
+          create: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+          update: jest.fn(),
+          updateMany: jest.fn(),
+        },
+        taskEventFlag: {
+          createMany: jest.fn().mockResolvedValue({ count: 1 }),
+        },
+        task: {
+          update: jest.fn().mockResolvedValue({ id: 1, status: 'IN_PROGRESS' }),
+        },
+      }
+      mockPrisma.$transaction.mockImplementation(async (callback) =>
+        callback(txMock),
+      )
+      return txMock
+    }
+
+    function mockReadyTask(workerId: string, geofenceRadiusMeters = null) {
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'READY',
+        assigneeIds: [workerId],
+        geoLocation: {
+          id: 'geo_1',
+          lat: 21.0285,
+          lng: 105.8542,
+          geofenceRadiusMeters,
+        },
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce(null)
+    }
+
+    it('should flag an out-of-range check-in for review', async () => {
+      const worker = createMockWorkerUser()
+      const { checkInToTask } = getService()
+      mockReadyTask(worker.id)
+      const txMock = mockGeofenceTransaction()
+
+      const result = await checkInToTask(
+        { taskId: 1, userId: worker.id, ...farAway, files: [] },
+        createMockStorage(),
+      )
+
+      expect(result.event.flagged).toBe(true)
+      expect(txMock.taskEventFlag.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            taskId: 1,
+            userId: worker.id,
+            visitId: 'visit_1',
+            eventType: 'CHECK_IN',
+            reason: 'OUT_OF_RANGE',
+            details: { distanceMeters: 152, radiusMeters: 100, mode: 'WARN' },
+          }),
+        ],
+      })
+    })
+
+    it('should use the radius of the task location', async () => {
+      const worker = createMockWorkerUser()
+      const { checkInToTask } = getService()
+      mockReadyTask(worker.id, 300)
+      const txMock = mockGeofenceTransaction()
+
+      const result = await checkInToTask(
+        { taskId: 1, userId: worker.id, ...farAway, files: [] },
+        createMockStorage(),
+      )
+
+      expect(result.warnings).toHaveLength(0)
+      expect(result.event.flagged).toBe(false)
+      expect(txMock.taskEventFlag.createMany).not.toHaveBeenCalled()
+    })
+
+    it('should require a note out of range in REQUIRE_NOTE mode', async () => {
+      const worker = createMockWorkerUser()
+      const { checkInToTask } = getService()
+      mockPrisma.appSettings.findUnique.mockResolvedValue({
+        id: 'global',
+        geofenceRadiusMeters: 100,
+        geofenceMode: 'REQUIRE_NOTE',
+      })
+      mockReadyTask(worker.id)
+
+      await expect(
+        checkInToTask(
+          { taskId: 1, userId: worker.id, ...farAway, files: [] },
+          createMockStorage(),
+        ),
+      ).rejects.toThrow('Vui lòng ghi chú lý do')
+
+      mockReadyTask(worker.id)
+      const txMock = mockGeofenceTransaction()
+      await checkInToTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          ...farAway,
+          files: [],
+          notes: 'Cổng chính đóng, vào cổng sau',
+        },
+        createMockStorage(),
+      )
+
+      expect(txMock.taskEventFlag.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ notes: 'Cổng chính đóng, vào cổng sau' }),
+        ],
+      })
+    })
+
+    it('should flag a mocked position far from the previous event', async () => {
+      const worker = createMockWorkerUser()
+      const { checkInToTask } = getService()
+      mockReadyTask(worker.id)
+      // Checked out in Ho Chi Minh City 10 minutes ago
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_0',
+        taskId: 7,
+        checkedInAt: new Date(Date.now() - 60 * 60_000),
+        checkedOutAt: new Date(Date.now() - 10 * 60_000),
+        checkInGeoLocation: { lat: 10.7769, lng: 106.7009 },
+        checkOutGeoLocation: { lat: 10.7769, lng: 106.7009 },
+      })
+      const txMock = mockGeofenceTransaction()
+
+      const result = await checkInToTask(
+        {
+          taskId: 1,
+          userId: worker.id,
+          latitude: 21.0285,
+          longitude: 105.8542,
+          accuracy: 8,
+          isMocked: true,
+          provider: 'gps',
+          deviceTime: new Date().toISOString(),
+          files: [],
+        },
+        createMockStorage(),
+      )
+
+      expect(result.event.flags).toEqual(['MOCK_LOCATION', 'IMPOSSIBLE_SPEED'])
+      expect(txMock.taskEventFlag.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            reason: 'MOCK_LOCATION',
+            details: { provider: 'gps' },
+          }),
+          expect.objectContaining({
+            reason: 'IMPOSSIBLE_SPEED',
+            details: expect.objectContaining({ previousTaskId: 7 }),
+          }),
+        ],
+      })
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            geoLocation: expect.objectContaining({
+              accuracy: 8,
+              isMocked: true,
+              provider: 'gps',
+            }),
+            flags: ['MOCK_LOCATION', 'IMPOSSIBLE_SPEED'],
+          }),
+        }),
+        txMock,
+      )
+    })
+
+    it('should refuse an out-of-range check-in in BLOCK mode', async () => {
+      const worker = createMockWorkerUser()
+      const { checkInToTask } = getService()
+      mockPrisma.appSettings.findUnique.mockResolvedValue({
+        id: 'global',
+        geofenceRadiusMeters: 100,
+        geofenceMode: 'BLOCK',
+      })
+      mockReadyTask(worker.id)
+
+      await expect(
+        checkInToTask(
+          { taskId: 1, userId: worker.id, ...farAway, files: [] },
+          createMockStorage(),
+        ),
+      ).rejects.toThrow('ngoài phạm vi 100m cho phép')
+      expect(mockUploadTaskAttachments).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('team jobs', () => {
+    function mockTeamTransaction(taskUpdateResult: unknown) {
+      const txMock = {
+        geoLocation: {
+          create: jest.fn().mockResolvedValue({ id: 'geo_2' }),
+        },
+        taskVisit: {
+          create: jest.fn().mockResolvedValue({ id: 'visit_2' }),
+          update: jest.fn().mockResolvedValue({ id: 'visit_1' }),
+          updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        task: {
+          update: jest.fn().mockResolvedValue(taskUpdateResult),
+        },
+        payment: {
+          create: jest.fn().mockResolvedValue({ id: 'payment_1' }),
+        },
+      }
+      mockPrisma.$transaction.mockImplementation(async (callback) =>
+        callback(txMock),
+      )
+      return txMock
+    }
+
+    it('should let a second assignee check in while the task is in progress', async () => {
+      const storage = createMockStorage()
+      const { checkInToTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce(null)
+      const txMock = mockTeamTransaction({ id: 1, status: 'IN_PROGRESS' })
+
+      await checkInToTask(
+        {
+          taskId: 1,
+          userId: 'user_second',
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+        },
+        storage,
+      )
+
+      // Own visit, location and photos
+      expect(txMock.taskVisit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user_second',
+          checkInGeoLocationId: 'geo_2',
+        }),
+      })
+      expect(mockUploadTaskAttachments).toHaveBeenCalledWith(
+        expect.objectContaining({ user: { id: 'user_second' } }),
+      )
+    })
+
+    it('should keep the task in progress while teammates are on site', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: 'user_first',
+        checkedOutAt: null,
+      })
+      mockPrisma.taskVisit.findMany.mockResolvedValueOnce([
+        { userId: 'user_second' },
+      ])
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(0)
+      const txMock = mockTeamTransaction({ id: 1, status: 'IN_PROGRESS' })
+
+      const result = await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: 'user_first',
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+        },
+        storage,
+      )
+
+      expect(result.event.completedTask).toBe(false)
+      expect(result.event.waitingForAssigneeIds).toEqual(['user_second'])
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: {} }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'TASK_CHECKED_OUT',
+          userId: 'user_first',
+          payload: expect.objectContaining({
+            completedTask: false,
+            waitingForAssigneeIds: ['user_second'],
+          }),
+        }),
+        expect.anything(),
+      )
+    })
+
+    it('should store the request to complete while teammates are on site', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: 'user_first',
+        checkedOutAt: null,
+      })
+      mockPrisma.taskVisit.findMany.mockResolvedValueOnce([
+        { userId: 'user_second' },
+      ])
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(0)
+      const txMock = mockTeamTransaction({ id: 1, status: 'IN_PROGRESS' })
+
+      await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: 'user_first',
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+          completeTask: true,
+        },
+        storage,
+      )
+
+      expect(txMock.taskVisit.update).toHaveBeenCalledWith({
+        where: { id: 'visit_1' },
+        data: {
+          checkedOutAt: expect.any(Date),
+          checkOutGeoLocationId: 'geo_2',
+          completedTask: false,
+          completionRequested: true,
+        },
+      })
+    })
+
+    it('should refuse a payment while teammates are on site', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst.mockResolvedValueOnce({
+        id: 'visit_1',
+        userId: 'user_first',
+        checkedOutAt: null,
+      })
+      mockPrisma.taskVisit.findMany.mockResolvedValueOnce([
+        { userId: 'user_second' },
+      ])
+
+      await expect(
+        checkOutFromTask(
+          {
+            taskId: 1,
+            userId: 'user_first',
+            latitude: 21.0285,
+            longitude: 105.8542,
+            files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+            paymentCollected: true,
+            paymentAmount: 500000,
+          },
+          storage,
+        ),
+      ).rejects.toThrow('người check-out cuối cùng sẽ ghi nhận thanh toán')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should complete a task a teammate asked to complete when the last one leaves', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst
+        // Open visit of the last one on site
+        .mockResolvedValueOnce({
+          id: 'visit_2',
+          userId: 'user_second',
+          checkedOutAt: null,
+        })
+        // Never completed before
+        .mockResolvedValueOnce(null)
+        // Teammate's request
+        .mockResolvedValueOnce({ userId: 'user_first' })
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(0)
+      const txMock = mockTeamTransaction({ id: 1, status: 'COMPLETED' })
+
+      const result = await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: 'user_second',
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+          completeTask: false,
+        },
+        storage,
+      )
+
+      expect(result.event.completedTask).toBe(true)
+      expect(mockPrisma.taskVisit.findFirst).toHaveBeenCalledWith({
+        where: { taskId: 1, completionRequested: true },
+        orderBy: { checkedOutAt: 'desc' },
+        select: { userId: true },
+      })
+      // Completion still requires the checklist
+      expect(mockPrisma.taskChecklistItem.count).toHaveBeenCalled()
+      expect(txMock.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'COMPLETED', completedAt: expect.any(Date) },
+        }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            completedTask: true,
+            completionRequestedBy: 'user_first',
+          }),
+        }),
+        expect.anything(),
+      )
+    })
+
+    it('should record the payment of the last one out completing a requested task', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst
+        .mockResolvedValueOnce({
+          id: 'visit_2',
+          userId: 'user_second',
+          checkedOutAt: null,
+        })
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ userId: 'user_first' })
+      mockPrisma.taskChecklistItem.count.mockResolvedValueOnce(0)
+      const txMock = mockTeamTransaction({ id: 1, status: 'COMPLETED' })
+
+      const result = await checkOutFromTask(
+        {
+          taskId: 1,
+          userId: 'user_second',
+          latitude: 21.0285,
+          longitude: 105.8542,
+          files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+          completeTask: false,
+          paymentCollected: true,
+          paymentAmount: 500000,
+          invoiceFile: makeFile('invoice.jpg', 'image/jpeg', 1000),
+        },
+        storage,
+      )
+
+      expect(result.event.completedTask).toBe(true)
+      expect(mockUploadTaskAttachments).toHaveBeenCalledWith(
+        expect.objectContaining({ files: [expect.any(File)] }),
+      )
+      expect(txMock.payment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            taskId: 1,
+            collectedBy: 'user_second',
+          }),
+        }),
+      )
+    })
+
+    it('should refuse a payment on a check-out that does not complete the task', async () => {
+      const storage = createMockStorage()
+      const { checkOutFromTask } = getService()
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first'],
+        geoLocation: null,
+      })
+      mockPrisma.taskVisit.findFirst
+        .mockResolvedValueOnce({
+          id: 'visit_1',
+          userId: 'user_first',
+          checkedOutAt: null,
+        })
+        // No completion request from a teammate
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+
+      await expect(
+        checkOutFromTask(
+          {
+            taskId: 1,
+            userId: 'user_first',
+            latitude: 21.0285,
+            longitude: 105.8542,
+            files: [makeFile('photo.jpg', 'image/jpeg', 1000)],
+            completeTask: false,
+            paymentCollected: true,
+            paymentAmount: 500000,
+          },
+          storage,
+        ),
+      ).rejects.toThrow('Chỉ thu tiền khi hoàn thành công việc')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not put the task on hold while teammates are on site', async () => {
+      const storage = createMockStorage()
+      const { putTaskOnHold } = require('../task-event.service')
+
+      mockPrisma.task.findUnique.mockResolvedValueOnce({
+        id: 1,
+        status: 'IN_PROGRESS',
+        assigneeIds: ['user_first', 'user_second'],
+      })
+      mockPrisma.taskVisit.count.mockResolvedValueOnce(1)
+
+      await expect(
+        putTaskOnHold(
+          {
+            taskId: 1,
+            userId: 'user_first',
+            reason: 'WAITING_FOR_PARTS',
+            files: [],
+          },
+          storage,
+        ),
+      ).rejects.toThrow('Đồng đội vẫn đang làm việc')
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
   })
 })
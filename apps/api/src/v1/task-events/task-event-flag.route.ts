@@ -0,0 +1,99 @@
+import {
+  z,
+  zReviewTaskEventFlag,
+  zTaskEventFlagQuery,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserReviewTaskEventFlags,
+  getTaskEventFlags,
+  reviewTaskEventFlag,
+} from './task-event-flag.service'
+
+/**
+ * Task Event Flags Router - check-ins / check-outs flagged for admin review
+ *
+ * Mounted at: /v1/task-events
+ *
+ * All routes are admin only.
+ */
+const router = new Hono()
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserReviewTaskEventFlags({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể xem các cảnh báo chấm công.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  /**
+   * GET /v1/task-events/flags
+   *
+   * List flagged check-ins / check-outs
+   *
+   * Query Parameters:
+   * - status: open (default) | reviewed | all
+   * - reason?: Flag reason (e.g. OUT_OF_RANGE)
+   * - cursor: Pagination cursor
+   * - take: Number of results (1-100, default 20)
+   *
+   * Response:
+   * - flags: Flags with their task
+   * - nextCursor, hasNextPage
+   */
+  .get('/flags', zValidator('query', zTaskEventFlagQuery), async (c) => {
+    const logger = getLogger('task-event-flag.route:getFlags')
+    const query = c.req.valid('query')
+
+    try {
+      const result = await getTaskEventFlags(query)
+      return c.json(result, 200)
+    } catch (error) {
+      logger.error({ error, query }, 'Failed to load task event flags')
+      throw new HTTPException(500, {
+        message: 'Không thể tải danh sách cảnh báo. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * POST /v1/task-events/flags/:id/review
+   *
+   * Mark a flag as reviewed
+   *
+   * Body:
+   * - reviewNote?: Admin note (max 500 characters)
+   */
+  .post(
+    '/flags/:id/review',
+    zValidator('param', z.object({ id: z.string().min(1) })),
+    zValidator('json', zReviewTaskEventFlag),
+    async (c) => {
+      const logger = getLogger('task-event-flag.route:reviewFlag')
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      try {
+        const flag = await reviewTaskEventFlag({ id, user, data })
+        return c.json(flag, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+        logger.error({ error, id }, 'Failed to review task event flag')
+        throw new HTTPException(500, {
+          message: 'Không thể cập nhật cảnh báo. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+
+export default router
@@ -0,0 +1,102 @@
+import type { User } from '@clerk/backend'
+import type { Prisma } from '@nv-internal/prisma-client'
+import type {
+  ReviewTaskEventFlag,
+  TaskEventFlagQuery,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { isUserAdmin } from '../user/user.service'
+
+export async function canUserReviewTaskEventFlags({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Flagged check-ins / check-outs, most recent first
+ *
+ * Open flags (not reviewed yet) are the admin review queue.
+ */
+export async function getTaskEventFlags({
+  status,
+  reason,
+  cursor,
+  take,
+}: TaskEventFlagQuery) {
+  const prisma = getPrisma()
+
+  const where: Prisma.TaskEventFlagWhereInput = {
+    ...(status === 'open' ? { reviewedAt: null } : {}),
+    ...(status === 'reviewed' ? { reviewedAt: { not: null } } : {}),
+    ...(reason ? { reason } : {}),
+  }
+
+  const flags = await prisma.taskEventFlag.findMany({
+    where,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: take + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    include: {
+      task: { select: { id: true, title: true, status: true } },
+    },
+  })
+
+  const hasNextPage = flags.length > take
+  const items = hasNextPage ? flags.slice(0, take) : flags
+  const nextCursor = hasNextPage ? items[items.length - 1].id : undefined
+
+  return {
+    flags: items,
+    nextCursor,
+    hasNextPage,
+  }
+}
+
+/**
+ * Mark a flag as reviewed, with an optional note from the admin
+ *
+ * @throws HTTPException 404 when the flag does not exist, 400 when it was
+ *   already reviewed
+ */
+export async function reviewTaskEventFlag({
+  id,
+  user,
+  data,
+}: {
+  id: string
+  user: User
+  data: ReviewTaskEventFlag
+}) {
+  const logger = getLogger('task-event-flag.service:reviewTaskEventFlag')
+  const prisma = getPrisma()
+
+  const flag = await prisma.taskEventFlag.findUnique({ where: { id } })
+
+  if (!flag) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy cảnh báo.',
+      cause: 'Flag not found',
+    })
+  }
+
+  if (flag.reviewedAt) {
+    throw new HTTPException(400, {
+      message: 'Cảnh báo này đã được xem xét.',
+      cause: 'Flag already reviewed',
+    })
+  }
+
+  const reviewed = await prisma.taskEventFlag.update({
+    where: { id },
+    data: {
+      reviewedAt: new Date(),
+      reviewedBy: user.id,
+      reviewNote: data.reviewNote || null,
+    },
+  })
+
+  logger.info({ flagId: id, userId: user.id }, 'Task event flag reviewed')
+
+  return reviewed
+}
@@ -1,11 +1,20 @@
-import { z, zCheckInInput, zCheckoutWithPayment } from '@nv-internal/validation'
+import {
+  z,
+  zCheckInInput,
+  zCheckoutWithPayment,
+  zTaskHoldInput,
+} from '@nv-internal/validation'
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { getLogger } from '../../lib/log'
 import { getStorageProvider } from '../../lib/storage/get-storage-provider'
 import { zValidator } from '../../lib/z-validator'
 import { getAuthUserStrict } from '../middlewares/auth'
-import { checkInToTask, checkOutFromTask } from './task-event.service'
+import {
+  checkInToTask,
+  checkOutFromTask,
+  putTaskOnHold,
+} from './task-event.service'
 
 const router = new Hono()
   // Check-in to task
@@ -37,6 +46,11 @@ const router = new Hono()
             userId: user.id,
             latitude: formData.latitude,
             longitude: formData.longitude,
+            accuracy: formData.accuracy,
+            altitude: formData.altitude,
+            provider: formData.provider,
+            isMocked: formData.isMocked,
+            deviceTime: formData.deviceTime,
             files,
             notes: formData.notes,
           },
@@ -98,8 +112,14 @@ const router = new Hono()
             userId: user.id,
             latitude: formData.latitude,
             longitude: formData.longitude,
+            accuracy: formData.accuracy,
+            altitude: formData.altitude,
+            provider: formData.provider,
+            isMocked: formData.isMocked,
+            deviceTime: formData.deviceTime,
             files,
             notes: formData.notes,
+            completeTask: formData.completeTask,
             // Payment fields (optional)
             paymentCollected: formData.paymentCollected,
             paymentAmount: formData.paymentAmount,
@@ -141,5 +161,48 @@ const router = new Hono()
       }
     },
   )
+  // Put task on hold (worker-initiated, with reason code and optional photos)
+  .post(
+    '/:id/hold',
+    zValidator('param', z.object({ id: z.string().regex(/^\d+$/) })),
+    zValidator('form', zTaskHoldInput),
+    async (c) => {
+      const logger = getLogger('task-events.route:hold')
+      const taskId = parseInt(c.req.valid('param').id, 10)
+      const formData = c.req.valid('form')
+      const user = getAuthUserStrict(c)
+      const storage = getStorageProvider()
+
+      try {
+        const result = await putTaskOnHold(
+          {
+            taskId,
+            userId: user.id,
+            reason: formData.reason,
+            notes: formData.notes,
+            files: formData.files || [],
+          },
+          storage,
+        )
+
+        logger.info(
+          { taskId, userId: user.id, reason: formData.reason },
+          'Task put on hold',
+        )
+
+        return c.json({ hold: result.hold, task: result.task }, 201)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        logger.error({ error, taskId, userId: user.id }, 'Hold failed')
+        throw new HTTPException(500, {
+          message: 'Không thể tạm dừng công việc. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
 
 export default router
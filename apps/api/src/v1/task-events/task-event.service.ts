@@ -1,12 +1,24 @@
 import type { User } from '@clerk/backend'
+import {
+  GeofenceMode,
+  type Prisma,
+  TaskEventFlagReason,
+  type TaskHoldReason,
+} from '@nv-internal/prisma-client'
 import { HTTPException } from 'hono/http-exception'
 import { verifyLocation } from '../../lib/geo'
+import {
+  detectLocationAnomalies,
+  MAX_EVENT_ACCURACY_METERS,
+} from '../../lib/location-integrity'
 import { getLogger } from '../../lib/log'
 import { getPrisma } from '../../lib/prisma'
 import type { StorageProvider } from '../../lib/storage/storage.types'
 import { createActivity } from '../activity/activity.service'
 import { uploadTaskAttachments } from '../attachment/attachment.service'
+import { countUncheckedRequiredItems } from '../checklist/checklist.service'
 import { createPaymentInTransaction } from '../payment/payment.service'
+import { getAppSettings, getGeofencePolicy } from '../settings/settings.service'
 
 /**
  * Input data for task event (check-in or check-out)
@@ -16,8 +28,16 @@ export interface TaskEventData {
   userId: string
   latitude: number
   longitude: number
+  // Device location metadata (optional, older app versions omit it)
+  accuracy?: number
+  altitude?: number
+  provider?: string
+  isMocked?: boolean
+  deviceTime?: string
   files: File[]
   notes?: string
+  // Check-out only: false ends the visit without completing the task
+  completeTask?: boolean
   // Payment collection fields (optional, only for check-out)
   paymentCollected?: boolean
   paymentAmount?: number
@@ -32,13 +52,21 @@ export interface TaskEventData {
 interface TaskEventConfig {
   type: 'CHECK_IN' | 'CHECK_OUT'
   requiredStatus: 'READY' | 'IN_PROGRESS'
+  // Also accept tasks paused by an assignee (resuming re-opens check-in)
+  allowResumeFromHold?: boolean
+  // Also accept IN_PROGRESS tasks (next visit of a multi-visit job)
+  allowNextVisit?: boolean
   targetStatus: 'IN_PROGRESS' | 'COMPLETED'
   timestampField: 'startedAt' | 'completedAt'
   activityAction: 'TASK_CHECKED_IN' | 'TASK_CHECKED_OUT'
+  // Refuse the event while required checklist items are unchecked
+  requiresCompletedChecklist?: boolean
   errorMessages: {
     invalidStatus: string
     notAssigned: string
     requiresCheckIn?: string
+    alreadyCheckedIn?: string
+    incompleteChecklist?: string
   }
 }
 
@@ -46,10 +74,24 @@ interface TaskEventConfig {
  * Generic task event handler - eliminates code duplication
  * Used by both check-in and check-out with different configurations
  *
+ * Each check-in opens a TaskVisit for the user and each check-out closes it.
+ * A check-out with `completeTask: false` only ends the visit, the task stays
+ * IN_PROGRESS and the next visit starts with another check-in.
+ *
+ * Team jobs: every assignee checks in and out on their own. The task is
+ * IN_PROGRESS while anyone is on site and only becomes COMPLETED when the last
+ * assignee on site checks out. Asking to complete while teammates are still
+ * on site is stored on the visit (`completionRequested`), the last one out
+ * then completes the task even when only ending their visit. Payments are
+ * collected by the last one out.
+ *
  * Flow:
  * 1. Validate task exists, user is assigned, and task status is correct
  * 2. Validate files provided (at least 1 required)
- * 3. Verify GPS location and calculate distance
+ * 3. Verify GPS location against the geofence (warn, require a note or
+ *    block per settings) and check its integrity (accuracy, mocked location,
+ *    travel speed since the previous event, device clock), out-of-range or
+ *    suspicious events are flagged for review
  * 4. Upload attachments using existing service (creates Attachment records with taskId)
  * 5. Create GeoLocation record for event location
  * 6. Create Activity record with GPS data and attachment summaries in payload
@@ -93,51 +135,206 @@ export async function recordTaskEvent(
   }
 
   // 3. Status validation (different for check-in vs check-out)
-  if (task.status !== config.requiredStatus) {
+  const isResumingFromHold =
+    !!config.allowResumeFromHold &&
+    task.status === 'ON_HOLD' &&
+    !!task.holdReason
+  // Next visit of a multi-visit job, or a teammate joining the team on site
+  const isNextVisit = !!config.allowNextVisit && task.status === 'IN_PROGRESS'
+  if (
+    task.status !== config.requiredStatus &&
+    !isResumingFromHold &&
+    !isNextVisit
+  ) {
     throw new HTTPException(400, {
       message: config.errorMessages.invalidStatus,
     })
   }
 
-  // 4. For check-out, verify that user has checked in
-  if (config.type === 'CHECK_OUT') {
-    const checkInActivity = await prisma.activity.findFirst({
-      where: {
-        topic: `TASK_${data.taskId}`,
-        action: 'TASK_CHECKED_IN',
-        userId: data.userId,
-      },
+  // 4. Check-out closes the user's open visit, check-in opens a new one
+  const openVisit = await prisma.taskVisit.findFirst({
+    where: { taskId: data.taskId, userId: data.userId, checkedOutAt: null },
+    orderBy: { checkedInAt: 'desc' },
+  })
+
+  if (config.type === 'CHECK_OUT' && !openVisit) {
+    throw new HTTPException(400, {
+      message: config.errorMessages.requiresCheckIn || 'Chưa check-in',
+    })
+  }
+
+  if (config.type === 'CHECK_IN' && openVisit) {
+    throw new HTTPException(400, {
+      message: config.errorMessages.alreadyCheckedIn || 'Đã check-in',
+    })
+  }
+
+  // Check-out that only ends the visit (multi-visit jobs)
+  const endsVisitOnly =
+    config.type === 'CHECK_OUT' && data.completeTask === false
+
+  // Teammates still on site keep the task IN_PROGRESS
+  const teammatesOnSite =
+    config.type === 'CHECK_OUT'
+      ? await prisma.taskVisit.findMany({
+          where: {
+            taskId: data.taskId,
+            checkedOutAt: null,
+            userId: { not: data.userId },
+          },
+          select: { userId: true },
+        })
+      : []
+  // Asked to complete while teammates are still working, completed later
+  const defersCompletion =
+    config.type === 'CHECK_OUT' && !endsVisitOnly && teammatesOnSite.length > 0
+
+  if (defersCompletion && data.paymentCollected) {
+    throw new HTTPException(400, {
+      message:
+        'Đồng đội vẫn đang làm việc, người check-out cuối cùng sẽ ghi nhận thanh toán',
+    })
+  }
+
+  // Last one out honours a teammate's earlier request to complete the task
+  const pendingCompletionRequest =
+    config.type === 'CHECK_OUT' && endsVisitOnly && teammatesOnSite.length === 0
+      ? await findPendingCompletionRequest({ taskId: data.taskId })
+      : null
+
+  const completesTask =
+    config.type === 'CHECK_OUT' &&
+    teammatesOnSite.length === 0 &&
+    (!endsVisitOnly || !!pendingCompletionRequest)
+
+  if (config.type === 'CHECK_OUT' && !completesTask && data.paymentCollected) {
+    throw new HTTPException(400, {
+      message: 'Chỉ thu tiền khi hoàn thành công việc',
     })
+  }
 
-    if (!checkInActivity) {
+  // 4b. Required checklist items must be checked (check-out only)
+  if (config.requiresCompletedChecklist && (!endsVisitOnly || completesTask)) {
+    const uncheckedCount = await countUncheckedRequiredItems({
+      taskId: data.taskId,
+    })
+
+    if (uncheckedCount > 0) {
       throw new HTTPException(400, {
-        message: config.errorMessages.requiresCheckIn || 'Chưa check-in',
+        message: `${config.errorMessages.incompleteChecklist || 'Danh sách kiểm tra chưa hoàn thành'} (còn ${uncheckedCount} mục)`,
       })
     }
   }
 
-  // 5. GPS verification (only if task has location)
+  // 5. GPS verification against the geofence (only if task has location)
   let distance = 0
   let warnings: string[] = []
+  let outOfRange = false
+  const geofence = getGeofencePolicy(await getAppSettings(), task.geoLocation)
 
   if (task.geoLocation) {
     const verification = verifyLocation(
       { lat: task.geoLocation.lat, lng: task.geoLocation.lng },
       { lat: data.latitude, lng: data.longitude },
+      geofence.radiusMeters,
     )
     distance = verification.distance
     warnings = verification.warnings
+    outOfRange = !verification.withinRange
 
     logger.info(
       {
         distance,
         withinRange: verification.withinRange,
+        geofence,
         warnings,
       },
       'GPS verification completed',
     )
   }
 
+  if (outOfRange && geofence.mode === GeofenceMode.BLOCK) {
+    throw new HTTPException(400, {
+      message: `Bạn đang ở cách vị trí công việc ${Math.round(distance)}m, ngoài phạm vi ${geofence.radiusMeters}m cho phép. Vui lòng đến đúng địa điểm.`,
+    })
+  }
+
+  if (
+    outOfRange &&
+    geofence.mode === GeofenceMode.REQUIRE_NOTE &&
+    !data.notes?.trim()
+  ) {
+    throw new HTTPException(400, {
+      message: `Bạn đang ở cách vị trí công việc ${Math.round(distance)}m, ngoài phạm vi ${geofence.radiusMeters}m. Vui lòng ghi chú lý do.`,
+    })
+  }
+
+  // 5b. Location integrity, compared with the worker's previous event on any
+  // task (the check-out of their latest visit, or its check-in while open)
+  const eventAt = new Date()
+  const lastVisit = await prisma.taskVisit.findFirst({
+    where: { userId: data.userId },
+    orderBy: { checkedInAt: 'desc' },
+    include: { checkInGeoLocation: true, checkOutGeoLocation: true },
+  })
+  const previousGeoLocation = lastVisit?.checkedOutAt
+    ? lastVisit.checkOutGeoLocation
+    : lastVisit?.checkInGeoLocation
+  const anomalies = detectLocationAnomalies({
+    position: {
+      lat: data.latitude,
+      lng: data.longitude,
+      accuracy: data.accuracy,
+      isMocked: data.isMocked,
+      provider: data.provider,
+      deviceTime: data.deviceTime ? new Date(data.deviceTime) : undefined,
+    },
+    previous:
+      lastVisit && previousGeoLocation
+        ? {
+            lat: previousGeoLocation.lat,
+            lng: previousGeoLocation.lng,
+            at: lastVisit.checkedOutAt ?? lastVisit.checkedInAt,
+            taskId: lastVisit.taskId,
+          }
+        : null,
+    now: eventAt,
+  })
+
+  if (anomalies.length > 0) {
+    logger.warn(
+      { taskId: data.taskId, userId: data.userId, anomalies },
+      'Location anomalies detected',
+    )
+  }
+
+  if (
+    data.accuracy !== undefined &&
+    data.accuracy > MAX_EVENT_ACCURACY_METERS
+  ) {
+    warnings.push(`Độ chính xác GPS thấp (±${Math.round(data.accuracy)}m)`)
+  }
+
+  // Out-of-range and suspicious events go to the admin review queue
+  const flags: {
+    reason: TaskEventFlagReason
+    details: Prisma.InputJsonObject
+  }[] = [
+    ...(outOfRange
+      ? [
+          {
+            reason: TaskEventFlagReason.OUT_OF_RANGE,
+            details: {
+              distanceMeters: Math.round(distance),
+              radiusMeters: geofence.radiusMeters,
+              mode: geofence.mode,
+            },
+          },
+        ]
+      : []),
+    ...anomalies,
+  ]
+
   // 6. Upload attachments if provided
   // This creates Attachment records with taskId set, so they appear in task.attachments
   // It also creates TASK_ATTACHMENTS_UPLOADED activity
@@ -164,11 +361,7 @@ export async function recordTaskEvent(
     | Awaited<ReturnType<typeof uploadTaskAttachments>>[0]
     | null = null
 
-  if (
-    config.type === 'CHECK_OUT' &&
-    data.paymentCollected &&
-    data.invoiceFile
-  ) {
+  if (completesTask && data.paymentCollected && data.invoiceFile) {
     logger.info(
       { filename: data.invoiceFile.name },
       'Uploading invoice file for payment',
@@ -204,11 +397,7 @@ export async function recordTaskEvent(
 
     // Create payment if collected (only for check-out)
     let payment = null
-    if (
-      config.type === 'CHECK_OUT' &&
-      data.paymentCollected &&
-      data.paymentAmount
-    ) {
+    if (completesTask && data.paymentCollected && data.paymentAmount) {
       logger.info(
         { taskId: data.taskId, amount: data.paymentAmount },
         'Creating payment in transaction',
@@ -224,6 +413,67 @@ export async function recordTaskEvent(
       })
     }
 
+    // End the hold when resuming a paused task
+    let resumedFromHold: {
+      reason: TaskHoldReason
+      durationMinutes: number
+    } | null = null
+    if (isResumingFromHold) {
+      const openHold = await tx.taskHold.findFirst({
+        where: { taskId: data.taskId, endedAt: null },
+        orderBy: { startedAt: 'desc' },
+      })
+      const endedAt = new Date()
+      await tx.taskHold.updateMany({
+        where: { taskId: data.taskId, endedAt: null },
+        data: { endedAt },
+      })
+      if (openHold) {
+        resumedFromHold = {
+          reason: openHold.reason,
+          durationMinutes: getHoldDurationMinutes(openHold.startedAt, endedAt),
+        }
+      }
+    }
+
+    // Open or close the visit
+    const now = eventAt
+    let visit = openVisit
+    if (config.type === 'CHECK_IN') {
+      visit = await tx.taskVisit.create({
+        data: {
+          taskId: data.taskId,
+          userId: data.userId,
+          checkedInAt: now,
+          checkInGeoLocationId: geoLocation.id,
+        },
+      })
+    } else if (openVisit) {
+      visit = await tx.taskVisit.update({
+        where: { id: openVisit.id },
+        data: {
+          checkedOutAt: now,
+          checkOutGeoLocationId: geoLocation.id,
+          completedTask: completesTask,
+          ...(defersCompletion && { completionRequested: true }),
+        },
+      })
+    }
+
+    if (flags.length > 0) {
+      await tx.taskEventFlag.createMany({
+        data: flags.map((flag) => ({
+          taskId: data.taskId,
+          userId: data.userId,
+          visitId: visit?.id,
+          eventType: config.type,
+          reason: flag.reason,
+          details: flag.details,
+          notes: data.notes,
+        })),
+      })
+    }
+
     // Create Activity with check-in/out data
     // This follows the same pattern as TASK_ATTACHMENTS_UPLOADED
     await createActivity(
@@ -237,24 +487,52 @@ export async function recordTaskEvent(
             id: geoLocation.id,
             lat: data.latitude,
             lng: data.longitude,
+            accuracy: data.accuracy,
+            altitude: data.altitude,
+            provider: data.provider,
+            isMocked: data.isMocked,
           },
+          deviceTime: data.deviceTime,
           distanceFromTask: distance,
           attachments: attachmentSummary,
           notes: data.notes,
           warnings: warnings.length > 0 ? warnings : undefined,
+          ...(outOfRange && {
+            outOfRange,
+            geofenceRadiusMeters: geofence.radiusMeters,
+          }),
+          ...(flags.length > 0 && { flags: flags.map((flag) => flag.reason) }),
           paymentCollected: !!payment,
+          visitId: visit?.id,
+          ...(config.type === 'CHECK_OUT' && { completedTask: completesTask }),
+          ...(pendingCompletionRequest && {
+            completionRequestedBy: pendingCompletionRequest.userId,
+          }),
+          // Finished their part, the task completes when teammates check out
+          ...(!endsVisitOnly &&
+            teammatesOnSite.length > 0 && {
+              waitingForAssigneeIds: teammatesOnSite.map((v) => v.userId),
+            }),
+          ...(resumedFromHold && { resumedFromHold }),
         },
       },
       tx,
     )
 
     // Update task status and timestamp
+    // (later visits keep the startedAt of the first check-in, a check-out
+    // that does not complete the task leaves it IN_PROGRESS)
     const updatedTask = await tx.task.update({
       where: { id: data.taskId },
-      data: {
-        status: config.targetStatus,
-        [config.timestampField]: new Date(),
-      },
+      data:
+        config.type === 'CHECK_OUT' && !completesTask
+          ? {}
+          : {
+              status: config.targetStatus,
+              ...(isResumingFromHold && { holdReason: null }),
+              ...(!isResumingFromHold &&
+                !isNextVisit && { [config.timestampField]: now }),
+            },
       include: {
         customer: true,
         geoLocation: true,
@@ -265,7 +543,7 @@ export async function recordTaskEvent(
       },
     })
 
-    return { geoLocation, task: updatedTask, payment }
+    return { geoLocation, task: updatedTask, payment, visit }
   })
 
   logger.info(
@@ -280,8 +558,16 @@ export async function recordTaskEvent(
   return {
     event: {
       type: config.type,
+      visit: result.visit,
+      completedTask: completesTask,
+      waitingForAssigneeIds: endsVisitOnly
+        ? []
+        : teammatesOnSite.map((v) => v.userId),
       geoLocation: result.geoLocation,
       distance,
+      // Out of range or suspicious location, flagged for admin review
+      flagged: flags.length > 0,
+      flags: flags.map((flag) => flag.reason),
       attachments,
     },
     task: result.task,
@@ -290,21 +576,53 @@ export async function recordTaskEvent(
   }
 }
 
+/**
+ * Latest visit whose assignee asked to complete the task while teammates were
+ * still on site, since the task was last completed (requests made before a
+ * reopened task was completed no longer count)
+ */
+async function findPendingCompletionRequest({ taskId }: { taskId: number }) {
+  const prisma = getPrisma()
+
+  const lastCompletion = await prisma.taskVisit.findFirst({
+    where: { taskId, completedTask: true },
+    orderBy: { checkedOutAt: 'desc' },
+    select: { checkedOutAt: true },
+  })
+
+  return prisma.taskVisit.findFirst({
+    where: {
+      taskId,
+      completionRequested: true,
+      ...(lastCompletion?.checkedOutAt && {
+        checkedOutAt: { gt: lastCompletion.checkedOutAt },
+      }),
+    },
+    orderBy: { checkedOutAt: 'desc' },
+    select: { userId: true },
+  })
+}
+
 /**
  * Check-in to a task
  *
  * Requirements:
  * - Task must exist
  * - User must be assigned to task
- * - Task status must be READY
+ * - Task status must be READY, IN_PROGRESS (next visit) or ON_HOLD after an
+ *   assignee paused it
+ * - User must not have an open visit on the task
  * - At least 1 file attachment required
  * - GPS coordinates required
  *
  * Effects:
  * - Uploads attachments (appear in task.attachments)
  * - Creates Activity with TASK_CHECKED_IN action
+ *   (payload.resumedFromHold holds the hold reason and duration when resuming)
+ * - Opens a TaskVisit for the user
  * - Updates task status to IN_PROGRESS
- * - Sets task.startedAt timestamp
+ * - Sets task.startedAt timestamp (first check-in only)
+ * - Ends the open TaskHold when resuming
  *
  * @param data - Check-in data
  * @param storage - Storage provider
@@ -319,12 +637,15 @@ export async function checkInToTask(
     {
       type: 'CHECK_IN',
       requiredStatus: 'READY',
+      allowResumeFromHold: true,
+      allowNextVisit: true,
       targetStatus: 'IN_PROGRESS',
       timestampField: 'startedAt',
       activityAction: 'TASK_CHECKED_IN',
       errorMessages: {
         invalidStatus: 'Công việc chưa sẵn sàng để check-in',
         notAssigned: 'Bạn không được phân công vào công việc này',
+        alreadyCheckedIn: 'Bạn đã check-in, vui lòng check-out trước',
       },
     },
     storage,
@@ -338,15 +659,19 @@ export async function checkInToTask(
  * - Task must exist
  * - User must be assigned to task
  * - Task status must be IN_PROGRESS
- * - User must have checked in (TASK_CHECKED_IN activity exists)
+ * - User must have an open visit (checked in and not checked out yet)
+ * - All required checklist items must be checked (unless only ending the visit)
  * - At least 1 file attachment required
  * - GPS coordinates required
  *
  * Effects:
  * - Uploads attachments (appear in task.attachments)
  * - Creates Activity with TASK_CHECKED_OUT action
- * - Updates task status to COMPLETED
- * - Sets task.completedAt timestamp
+ * - Closes the user's visit
+ * - Unless completeTask is false or teammates are still on site: updates
+ *   task status to COMPLETED and sets task.completedAt
+ * - With teammates still on site, completeTask is stored on the visit and the
+ *   last assignee out completes the task (payment is refused until then)
  *
  * @param data - Check-out data
  * @param storage - Storage provider
@@ -364,12 +689,168 @@ export async function checkOutFromTask(
       targetStatus: 'COMPLETED',
       timestampField: 'completedAt',
       activityAction: 'TASK_CHECKED_OUT',
+      requiresCompletedChecklist: true,
       errorMessages: {
         invalidStatus: 'Công việc chưa bắt đầu hoặc đã hoàn thành',
         notAssigned: 'Bạn không được phân công vào công việc này',
         requiresCheckIn: 'Bạn phải check-in trước khi check-out',
+        incompleteChecklist:
+          'Vui lòng hoàn thành các mục bắt buộc trong danh sách kiểm tra trước khi check-out',
       },
     },
     storage,
   )
 }
+
+/**
+ * Whole minutes between the start and end of a hold
+ */
+export function getHoldDurationMinutes(startedAt: Date, endedAt: Date) {
+  return Math.max(
+    0,
+    Math.round((endedAt.getTime() - startedAt.getTime()) / (60 * 1000)),
+  )
+}
+
+/**
+ * Put an IN_PROGRESS task on hold (worker-initiated)
+ *
+ * Requirements:
+ * - Task must exist
+ * - User must be assigned to task
+ * - Task status must be IN_PROGRESS
+ * - No other assignee on site (they check out instead)
+ * - A reason code is required, photos are optional
+ *
+ * Effects:
+ * - Uploads photos (appear in task.attachments)
+ * - Creates a TaskHold (counted as non-productive time in employee reports)
+ * - Ends the user's open visit
+ * - Creates Activity with TASK_PUT_ON_HOLD action
+ * - Updates task status to ON_HOLD and sets task.holdReason
+ *
+ * The task is resumed by checking in again (see checkInToTask).
+ *
+ * @param data - Hold data
+ * @param storage - Storage provider
+ * @returns The created hold and updated task
+ */
+export async function putTaskOnHold(
+  data: {
+    taskId: number
+    userId: string
+    reason: TaskHoldReason
+    notes?: string
+    files: File[]
+  },
+  storage: StorageProvider,
+) {
+  const logger = getLogger('task-event.service:putTaskOnHold')
+  const prisma = getPrisma()
+
+  logger.info(
+    { taskId: data.taskId, userId: data.userId, reason: data.reason },
+    'Putting task on hold',
+  )
+
+  const task = await prisma.task.findUnique({ where: { id: data.taskId } })
+
+  if (!task) {
+    throw new HTTPException(404, { message: 'Không tìm thấy công việc' })
+  }
+
+  if (!task.assigneeIds.includes(data.userId)) {
+    throw new HTTPException(403, {
+      message: 'Bạn không được phân công vào công việc này',
+    })
+  }
+
+  if (task.status !== 'IN_PROGRESS') {
+    throw new HTTPException(400, {
+      message: 'Chỉ có thể tạm dừng công việc đang thực hiện',
+    })
+  }
+
+  // The task status follows the team: it cannot pause while others work
+  const teammatesOnSite = await prisma.taskVisit.count({
+    where: {
+      taskId: data.taskId,
+      checkedOutAt: null,
+      userId: { not: data.userId },
+    },
+  })
+  if (teammatesOnSite > 0) {
+    throw new HTTPException(400, {
+      message:
+        'Đồng đội vẫn đang làm việc, hãy kết thúc lượt làm việc thay vì tạm dừng',
+    })
+  }
+
+  let attachments: Awaited<ReturnType<typeof uploadTaskAttachments>> = []
+  if (data.files.length > 0) {
+    attachments = await uploadTaskAttachments({
+      taskId: data.taskId,
+      files: data.files,
+      user: { id: data.userId } as User,
+      storage,
+    })
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // The worker leaves the site: resuming starts a new visit
+    await tx.taskVisit.updateMany({
+      where: { taskId: data.taskId, userId: data.userId, checkedOutAt: null },
+      data: { checkedOutAt: new Date() },
+    })
+
+    const hold = await tx.taskHold.create({
+      data: {
+        taskId: data.taskId,
+        userId: data.userId,
+        reason: data.reason,
+        notes: data.notes,
+      },
+    })
+
+    await createActivity(
+      {
+        action: 'TASK_PUT_ON_HOLD',
+        userId: data.userId,
+        topic: { entityType: 'TASK', entityId: data.taskId },
+        payload: {
+          holdId: hold.id,
+          reason: data.reason,
+          notes: data.notes,
+          attachments: attachments.map((att) => ({
+            id: att.id,
+            mimeType: att.mimeType,
+            originalFilename: att.originalFilename,
+          })),
+        },
+      },
+      tx,
+    )
+
+    const updatedTask = await tx.task.update({
+      where: { id: data.taskId },
+      data: { status: 'ON_HOLD', holdReason: data.reason },
+      include: {
+        customer: true,
+        geoLocation: true,
+        attachments: {
+          where: { deletedAt: null },
+        },
+        payments: true,
+      },
+    })
+
+    return { hold, task: updatedTask }
+  })
+
+  logger.info(
+    { taskId: data.taskId, holdId: result.hold.id },
+    'Task put on hold',
+  )
+
+  return { ...result, attachments }
+}
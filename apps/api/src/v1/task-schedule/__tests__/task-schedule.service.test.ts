@@ -0,0 +1,298 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+// Mock activity creation
+const mockCreateActivity = jest.fn()
+jest.mock('../../activity/activity.service', () => ({
+  createActivity: mockCreateActivity,
+}))
+
+import {
+  generateTasksForSchedule,
+  generateTasksFromSchedules,
+  previewTaskSchedule,
+  setTaskSchedulePaused,
+} from '../task-schedule.service'
+
+function createSchedule(overrides = {}) {
+  return {
+    id: 'sched_1',
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    createdBy: 'admin_1',
+    title: 'Vệ sinh máy lạnh {{month}}',
+    description: 'Bảo trì định kỳ ngày {{date}}',
+    // Every 3 months at 09:00 Vietnam time
+    rrule: 'FREQ=MONTHLY;INTERVAL=3',
+    startsAt: new Date('2025-01-15T02:00:00.000Z'),
+    endsAt: null,
+    customerId: 'cust_1',
+    geoLocationId: 'geo_1',
+    assigneeIds: ['worker_1'],
+    expectedRevenue: null,
+    leadTimeDays: 14,
+    skipNonWorkingDays: false,
+    lastOccurrenceAt: null,
+    pausedAt: null,
+    deletedAt: null,
+    ...overrides,
+  }
+}
+
+describe('task-schedule service', () => {
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockCreateActivity.mockReset()
+    mockPrisma.customer.findUnique = jest.fn().mockResolvedValue({
+      id: 'cust_1',
+      name: 'Anh Minh',
+      phone: '0901234567',
+    })
+    mockPrisma.geoLocation.findUnique = jest.fn().mockResolvedValue({
+      id: 'geo_1',
+      address: '123 Lê Lợi',
+      name: 'Nhà anh Minh',
+      lat: 10.77,
+      lng: 106.7,
+    })
+    mockPrisma.geoLocation.create.mockResolvedValue({
+      id: 'geo_copy',
+      address: '123 Lê Lợi',
+      name: 'Nhà anh Minh',
+      lat: 10.77,
+      lng: 106.7,
+    })
+    mockPrisma.task.create.mockResolvedValue({ id: 42 })
+    mockPrisma.task.update.mockResolvedValue({ id: 42 })
+    mockPrisma.taskSchedule.update.mockResolvedValue({})
+    mockPrisma.taskSchedule.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  describe('generateTasksForSchedule', () => {
+    it('should create tasks for occurrences within the lead time', async () => {
+      const now = new Date('2025-04-05T00:00:00.000Z')
+
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule(),
+        now,
+      })
+
+      expect(created).toBe(1)
+      expect(mockPrisma.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Vệ sinh máy lạnh 04/2025',
+          description: 'Bảo trì định kỳ ngày 15/04/2025',
+          customerId: 'cust_1',
+          geoLocationId: 'geo_copy',
+          assigneeIds: ['worker_1'],
+          scheduledAt: new Date('2025-04-15T02:00:00.000Z'),
+          scheduleId: 'sched_1',
+        }),
+      })
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'TASK_CREATED',
+          userId: null,
+          topic: { entityType: 'TASK', entityId: 42 },
+          payload: expect.objectContaining({
+            scheduleId: 'sched_1',
+            scheduleTitle: 'Vệ sinh máy lạnh {{month}}',
+          }),
+        }),
+        mockPrisma,
+      )
+      expect(mockPrisma.taskSchedule.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sched_1', lastOccurrenceAt: null },
+        data: { lastOccurrenceAt: new Date('2025-04-15T02:00:00.000Z') },
+      })
+    })
+
+    it('should not create tasks claimed by a concurrent run', async () => {
+      mockPrisma.taskSchedule.updateMany.mockResolvedValue({ count: 0 })
+
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule(),
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(created).toBe(0)
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+      expect(mockCreateActivity).not.toHaveBeenCalled()
+    })
+
+    it('should not regenerate occurrences that already have a task', async () => {
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule({
+          lastOccurrenceAt: new Date('2025-04-15T02:00:00.000Z'),
+        }),
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(created).toBe(0)
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+
+    it('should skip occurrences missed while the schedule was paused', async () => {
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule({
+          lastOccurrenceAt: new Date('2025-01-15T02:00:00.000Z'),
+        }),
+        // April occurrence is in the past, July is outside the lead time
+        now: new Date('2025-05-01T00:00:00.000Z'),
+      })
+
+      expect(created).toBe(0)
+    })
+
+    it('should not generate tasks for paused schedules', async () => {
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule({ pausedAt: new Date() }),
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(created).toBe(0)
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not generate tasks after the schedule ends', async () => {
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule({
+          endsAt: new Date('2025-04-10T00:00:00.000Z'),
+        }),
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(created).toBe(0)
+    })
+
+    it('should move occurrences off holidays and days off', async () => {
+      mockPrisma.appSettings.findUnique.mockResolvedValue(null)
+      // Tết 2026 from Monday 02-16 to Friday 02-20
+      mockPrisma.holiday.findMany.mockResolvedValue(
+        [
+          '2026-02-16',
+          '2026-02-17',
+          '2026-02-18',
+          '2026-02-19',
+          '2026-02-20',
+        ].map((date) => ({ date })),
+      )
+      mockPrisma.task.findFirst.mockResolvedValue(null)
+
+      // Every day at 09:00 from Saturday 02-14 to Saturday 02-21
+      const created = await generateTasksForSchedule({
+        schedule: createSchedule({
+          rrule: 'FREQ=DAILY',
+          startsAt: new Date('2026-02-14T02:00:00.000Z'),
+          leadTimeDays: 8,
+          skipNonWorkingDays: true,
+        }),
+        now: new Date('2026-02-13T17:00:00.000Z'),
+      })
+
+      // Sunday and Tết all land on Saturday after Tết, once
+      expect(created).toBe(2)
+      expect(
+        mockPrisma.task.create.mock.calls.map(
+          ([args]) => args.data.scheduledAt,
+        ),
+      ).toEqual([
+        new Date('2026-02-14T02:00:00.000Z'),
+        new Date('2026-02-21T02:00:00.000Z'),
+      ])
+      expect(mockPrisma.taskSchedule.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sched_1', lastOccurrenceAt: null },
+        data: { lastOccurrenceAt: new Date('2026-02-21T02:00:00.000Z') },
+      })
+    })
+  })
+
+  describe('generateTasksFromSchedules', () => {
+    it('should continue with other schedules when one fails', async () => {
+      mockPrisma.taskSchedule.findMany.mockResolvedValue([
+        createSchedule({ id: 'sched_broken', rrule: 'FREQ=HOURLY' }),
+        createSchedule(),
+      ])
+
+      const result = await generateTasksFromSchedules({
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(result).toEqual({
+        schedulesProcessed: 2,
+        tasksCreated: 1,
+        failedScheduleIds: ['sched_broken'],
+      })
+    })
+  })
+
+  describe('previewTaskSchedule', () => {
+    it('should mark occurrences that were already generated', () => {
+      const occurrences = previewTaskSchedule({
+        schedule: createSchedule({
+          lastOccurrenceAt: new Date('2025-04-15T02:00:00.000Z'),
+        }),
+        count: 2,
+        now: new Date('2025-04-05T00:00:00.000Z'),
+      })
+
+      expect(occurrences).toEqual([
+        {
+          occurrenceAt: new Date('2025-04-15T02:00:00.000Z'),
+          title: 'Vệ sinh máy lạnh 04/2025',
+          generated: true,
+        },
+        {
+          occurrenceAt: new Date('2025-07-15T02:00:00.000Z'),
+          title: 'Vệ sinh máy lạnh 07/2025',
+          generated: false,
+        },
+      ])
+    })
+  })
+
+  describe('setTaskSchedulePaused', () => {
+    it('should throw 404 for unknown schedules', async () => {
+      mockPrisma.taskSchedule.findFirst.mockResolvedValue(null)
+
+      await expect(
+        setTaskSchedulePaused({
+          id: 'sched_missing',
+          paused: true,
+          user: createMockAdminUser(),
+        }),
+      ).rejects.toMatchObject({ status: 404 })
+    })
+
+    it('should set pausedAt when pausing', async () => {
+      mockPrisma.taskSchedule.findFirst.mockResolvedValue(createSchedule())
+      mockPrisma.taskSchedule.update.mockResolvedValue(
+        createSchedule({ pausedAt: new Date() }),
+      )
+
+      await setTaskSchedulePaused({
+        id: 'sched_1',
+        paused: true,
+        user: createMockAdminUser(),
+      })
+
+      expect(mockPrisma.taskSchedule.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'sched_1' },
+          data: { pausedAt: expect.any(Date) },
+        }),
+      )
+    })
+  })
+})
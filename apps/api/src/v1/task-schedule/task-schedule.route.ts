@@ -0,0 +1,232 @@
+import {
+  zCreateTaskSchedule,
+  zTaskScheduleIdParam,
+  zTaskScheduleListQuery,
+  zTaskSchedulePreviewQuery,
+  zTaskScheduleRulePreview,
+  zUpdateTaskSchedule,
+} from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserManageTaskSchedules,
+  createTaskSchedule,
+  deleteTaskSchedule,
+  getTaskScheduleById,
+  getTaskSchedules,
+  previewTaskSchedule,
+  setTaskSchedulePaused,
+  updateTaskSchedule,
+} from './task-schedule.service'
+
+/**
+ * Task Schedule Router - recurring maintenance schedules
+ *
+ * Mounted at: /v1/task-schedule
+ *
+ * All routes are admin only. Tasks are generated from active schedules
+ * by the daily cron job (see /v1/cron) and right after a schedule is created.
+ */
+const router = new Hono()
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserManageTaskSchedules({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể quản lý lịch định kỳ.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  /**
+   * GET /v1/task-schedule
+   *
+   * List recurring schedules
+   *
+   * Query Parameters:
+   * - cursor: Pagination cursor
+   * - take: Number of results (1-100, default 20)
+   * - includePaused: 'false' to hide paused schedules (default: included)
+   *
+   * Response:
+   * - schedules: Schedules with customer, location and generated task count
+   * - nextCursor, hasNextPage
+   */
+  .get('/', zValidator('query', zTaskScheduleListQuery), async (c) => {
+    const query = c.req.valid('query')
+    const result = await getTaskSchedules(query)
+    return c.json(result, 200)
+  })
+  /**
+   * POST /v1/task-schedule/preview
+   *
+   * Preview occurrences of a recurrence rule before saving it
+   *
+   * Request body:
+   * - rrule, startsAt, endsAt?, count? (default 10)
+   *
+   * Response:
+   * - occurrences: Array of upcoming occurrence dates
+   */
+  .post('/preview', zValidator('json', zTaskScheduleRulePreview), (c) => {
+    const { rrule, startsAt, endsAt, count } = c.req.valid('json')
+
+    const occurrences = previewTaskSchedule({
+      schedule: {
+        rrule,
+        startsAt: new Date(startsAt),
+        endsAt: endsAt ? new Date(endsAt) : null,
+        title: '',
+        lastOccurrenceAt: null,
+      },
+      count,
+    }).map(({ occurrenceAt }) => occurrenceAt)
+
+    return c.json({ occurrences }, 200)
+  })
+  /**
+   * POST /v1/task-schedule
+   *
+   * Create a recurring schedule. Tasks for occurrences within the lead time
+   * are generated immediately.
+   *
+   * Response:
+   * - schedule: Created schedule
+   */
+  .post('/', zValidator('json', zCreateTaskSchedule), async (c) => {
+    const logger = getLogger('task-schedule.route:create')
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const schedule = await createTaskSchedule({ data, user })
+      return c.json({ schedule }, 201)
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error
+      }
+      logger.error({ error, userId: user.id }, 'Failed to create schedule')
+      throw new HTTPException(500, {
+        message: 'Không thể tạo lịch định kỳ. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  /**
+   * GET /v1/task-schedule/:id
+   */
+  .get('/:id', zValidator('param', zTaskScheduleIdParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const schedule = await getTaskScheduleById({ id })
+
+    if (!schedule) {
+      throw new HTTPException(404, {
+        message: 'Không tìm thấy lịch định kỳ',
+      })
+    }
+
+    return c.json({ schedule }, 200)
+  })
+  /**
+   * PATCH /v1/task-schedule/:id
+   *
+   * Update a schedule. Only affects tasks generated after the update.
+   */
+  .patch(
+    '/:id',
+    zValidator('param', zTaskScheduleIdParam),
+    zValidator('json', zUpdateTaskSchedule),
+    async (c) => {
+      const logger = getLogger('task-schedule.route:update')
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      try {
+        const schedule = await updateTaskSchedule({ id, data, user })
+        return c.json({ schedule }, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+        logger.error({ error, id }, 'Failed to update schedule')
+        throw new HTTPException(500, {
+          message: 'Không thể cập nhật lịch định kỳ. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
+  /**
+   * DELETE /v1/task-schedule/:id
+   *
+   * Soft delete a schedule. Generated tasks are kept.
+   */
+  .delete('/:id', zValidator('param', zTaskScheduleIdParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+
+    await deleteTaskSchedule({ id, user })
+
+    return c.json({ success: true }, 200)
+  })
+  /**
+   * POST /v1/task-schedule/:id/pause
+   * POST /v1/task-schedule/:id/resume
+   *
+   * Paused schedules stop generating tasks. Occurrences missed while paused
+   * are not back-filled on resume.
+   */
+  .post('/:id/pause', zValidator('param', zTaskScheduleIdParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+
+    const schedule = await setTaskSchedulePaused({ id, paused: true, user })
+
+    return c.json({ schedule }, 200)
+  })
+  .post('/:id/resume', zValidator('param', zTaskScheduleIdParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+
+    const schedule = await setTaskSchedulePaused({ id, paused: false, user })
+
+    return c.json({ schedule }, 200)
+  })
+  /**
+   * GET /v1/task-schedule/:id/preview
+   *
+   * Preview upcoming occurrences of a saved schedule
+   *
+   * Query Parameters:
+   * - count: Number of occurrences (1-50, default 10)
+   *
+   * Response:
+   * - occurrences: [{ occurrenceAt, title, generated }] where `generated`
+   *   means a task already exists for that occurrence
+   */
+  .get(
+    '/:id/preview',
+    zValidator('param', zTaskScheduleIdParam),
+    zValidator('query', zTaskSchedulePreviewQuery),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const { count } = c.req.valid('query')
+
+      const schedule = await getTaskScheduleById({ id })
+      if (!schedule) {
+        throw new HTTPException(404, {
+          message: 'Không tìm thấy lịch định kỳ',
+        })
+      }
+
+      const occurrences = previewTaskSchedule({ schedule, count })
+
+      return c.json({ occurrences }, 200)
+    },
+  )
+
+export default router
@@ -0,0 +1,591 @@
+import type { User } from '@clerk/backend'
+import type { Prisma, TaskSchedule } from '@nv-internal/prisma-client'
+import type {
+  CreateTaskScheduleValues,
+  TaskScheduleListQuery,
+  UpdateTaskScheduleValues,
+} from '@nv-internal/validation'
+import { addDays } from 'date-fns'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { getOccurrences, renderScheduleTemplate } from '../../lib/recurrence'
+import { toCalendarDay } from '../../lib/scheduling'
+import { moveToWorkingDay } from '../../lib/working-days'
+import { createActivity } from '../activity/activity.service'
+import { getWorkingCalendar } from '../holiday/holiday.service'
+import { buildSearchableText } from '../task/task.service'
+import { isUserAdmin } from '../user/user.service'
+
+const DEFAULT_SCHEDULE_INCLUDE = {
+  customer: true,
+  geoLocation: true,
+  // biome-ignore lint/style/useNamingConvention: Prisma relation count field
+  _count: { select: { tasks: { where: { deletedAt: null } } } },
+} satisfies Prisma.TaskScheduleInclude
+
+// Safety cap so a misconfigured schedule (e.g. FREQ=DAILY with a long lead time)
+// can't flood the task list in a single run
+const MAX_TASKS_PER_SCHEDULE_RUN = 31
+
+export async function canUserManageTaskSchedules({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+export async function getTaskSchedules({
+  cursor,
+  take,
+  includePaused,
+}: TaskScheduleListQuery) {
+  const prisma = getPrisma()
+
+  const schedules = await prisma.taskSchedule.findMany({
+    where: {
+      deletedAt: null,
+      ...(includePaused ? {} : { pausedAt: null }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: take + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    include: DEFAULT_SCHEDULE_INCLUDE,
+  })
+
+  const hasNextPage = schedules.length > take
+  const items = hasNextPage ? schedules.slice(0, take) : schedules
+  const nextCursor = hasNextPage ? items[items.length - 1].id : undefined
+
+  return {
+    schedules: items,
+    nextCursor,
+    hasNextPage,
+  }
+}
+
+export async function getTaskScheduleById({ id }: { id: string }) {
+  const prisma = getPrisma()
+
+  return prisma.taskSchedule.findFirst({
+    where: { id, deletedAt: null },
+    include: DEFAULT_SCHEDULE_INCLUDE,
+  })
+}
+
+/**
+ * Create a recurring maintenance schedule
+ *
+ * Customer lookup follows the same rules as task creation (reuse a customer with
+ * the same name and phone). Tasks for occurrences within the lead time are
+ * generated right away so admins see them without waiting for the next cron run.
+ */
+export async function createTaskSchedule({
+  data,
+  user,
+  now = new Date(),
+}: {
+  data: CreateTaskScheduleValues
+  user: User
+  now?: Date
+}) {
+  const logger = getLogger('task-schedule.service:createTaskSchedule')
+
+  logger.trace({ data, user }, 'Creating task schedule')
+
+  const prisma = getPrisma()
+  const schedule = await prisma.$transaction(async (tx) => {
+    const hasCustomer = data.customerName || data.customerPhone
+
+    let customer = hasCustomer
+      ? await tx.customer.findFirst({
+          where: {
+            phone: data.customerPhone,
+            name: data.customerName,
+          },
+        })
+      : null
+
+    if (!customer && hasCustomer) {
+      customer = await tx.customer.create({
+        data: {
+          phone: data.customerPhone,
+          name: data.customerName,
+        },
+      })
+    }
+
+    const geoLocation = data.geoLocation
+      ? await tx.geoLocation.create({
+          data: {
+            address: data.geoLocation.address,
+            name: data.geoLocation.name,
+            lat: data.geoLocation.lat,
+            lng: data.geoLocation.lng,
+          },
+        })
+      : null
+
+    return tx.taskSchedule.create({
+      data: {
+        createdBy: user.id,
+        title: data.title,
+        description: data.description,
+        rrule: data.rrule,
+        startsAt: new Date(data.startsAt),
+        endsAt: data.endsAt ? new Date(data.endsAt) : null,
+        customerId: customer?.id,
+        geoLocationId: geoLocation?.id,
+        assigneeIds: data.assigneeIds,
+        expectedRevenue: data.expectedRevenue,
+        leadTimeDays: data.leadTimeDays,
+        skipNonWorkingDays: data.skipNonWorkingDays,
+      },
+    })
+  })
+
+  logger.info({ scheduleId: schedule.id }, 'Task schedule created')
+
+  await generateTasksForSchedule({ schedule, now })
+
+  return getTaskScheduleById({ id: schedule.id })
+}
+
+/**
+ * Update a recurring schedule
+ *
+ * Only future generations are affected. Tasks that were already generated keep
+ * their own copy of title, location, assignees and revenue.
+ */
+export async function updateTaskSchedule({
+  id,
+  data,
+  user,
+}: {
+  id: string
+  data: UpdateTaskScheduleValues
+  user: User
+}) {
+  const logger = getLogger('task-schedule.service:updateTaskSchedule')
+  const prisma = getPrisma()
+
+  const existing = await prisma.taskSchedule.findFirst({
+    where: { id, deletedAt: null },
+  })
+
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy lịch định kỳ',
+    })
+  }
+
+  const startsAt = data.startsAt ? new Date(data.startsAt) : existing.startsAt
+  const endsAt =
+    data.endsAt === undefined
+      ? existing.endsAt
+      : data.endsAt
+        ? new Date(data.endsAt)
+        : null
+
+  if (endsAt && endsAt <= startsAt) {
+    throw new HTTPException(400, {
+      message: 'Ngày kết thúc phải sau ngày bắt đầu',
+    })
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    let geoLocationId = existing.geoLocationId
+    if (data.geoLocation) {
+      // Schedule locations are never shared with tasks (tasks get a copy),
+      // so updating in place is safe
+      if (geoLocationId) {
+        await tx.geoLocation.update({
+          where: { id: geoLocationId },
+          data: data.geoLocation,
+        })
+      } else {
+        const geoLocation = await tx.geoLocation.create({
+          data: data.geoLocation,
+        })
+        geoLocationId = geoLocation.id
+      }
+    }
+
+    return tx.taskSchedule.update({
+      where: { id },
+      data: {
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.description !== undefined && {
+          description: data.description,
+        }),
+        ...(data.rrule !== undefined && { rrule: data.rrule }),
+        ...(data.startsAt !== undefined && { startsAt }),
+        ...(data.endsAt !== undefined && { endsAt }),
+        ...(data.assigneeIds !== undefined && {
+          assigneeIds: data.assigneeIds,
+        }),
+        ...(data.expectedRevenue !== undefined && {
+          expectedRevenue: data.expectedRevenue,
+        }),
+        ...(data.leadTimeDays !== undefined && {
+          leadTimeDays: data.leadTimeDays,
+        }),
+        ...(data.skipNonWorkingDays !== undefined && {
+          skipNonWorkingDays: data.skipNonWorkingDays,
+        }),
+        geoLocationId,
+      },
+      include: DEFAULT_SCHEDULE_INCLUDE,
+    })
+  })
+
+  logger.info(
+    { scheduleId: id, userId: user.id, changes: Object.keys(data) },
+    'Task schedule updated',
+  )
+
+  return updated
+}
+
+/**
+ * Pause or resume a schedule
+ *
+ * Occurrences that fall inside the paused period are skipped, not back-filled:
+ * generation only ever creates tasks for upcoming dates.
+ */
+export async function setTaskSchedulePaused({
+  id,
+  paused,
+  user,
+}: {
+  id: string
+  paused: boolean
+  user: User
+}) {
+  const logger = getLogger('task-schedule.service:setTaskSchedulePaused')
+  const prisma = getPrisma()
+
+  const existing = await prisma.taskSchedule.findFirst({
+    where: { id, deletedAt: null },
+  })
+
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy lịch định kỳ',
+    })
+  }
+
+  if (paused === !!existing.pausedAt) {
+    return getTaskScheduleById({ id })
+  }
+
+  const updated = await prisma.taskSchedule.update({
+    where: { id },
+    data: { pausedAt: paused ? new Date() : null },
+    include: DEFAULT_SCHEDULE_INCLUDE,
+  })
+
+  logger.info(
+    { scheduleId: id, userId: user.id, paused },
+    paused ? 'Task schedule paused' : 'Task schedule resumed',
+  )
+
+  return updated
+}
+
+/**
+ * Soft delete a schedule
+ *
+ * Tasks that were already generated are kept and still link to the schedule.
+ */
+export async function deleteTaskSchedule({
+  id,
+  user,
+}: {
+  id: string
+  user: User
+}) {
+  const logger = getLogger('task-schedule.service:deleteTaskSchedule')
+  const prisma = getPrisma()
+
+  const existing = await prisma.taskSchedule.findFirst({
+    where: { id, deletedAt: null },
+  })
+
+  if (!existing) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy lịch định kỳ',
+    })
+  }
+
+  await prisma.taskSchedule.update({
+    where: { id },
+    data: { deletedAt: new Date() },
+  })
+
+  logger.info({ scheduleId: id, userId: user.id }, 'Task schedule deleted')
+}
+
+/**
+ * Preview upcoming occurrences of a schedule
+ *
+ * Occurrences up to lastOccurrenceAt already have a generated task and are
+ * marked accordingly.
+ */
+export function previewTaskSchedule({
+  schedule,
+  count,
+  now = new Date(),
+}: {
+  schedule: Pick<
+    TaskSchedule,
+    'rrule' | 'startsAt' | 'endsAt' | 'title' | 'lastOccurrenceAt'
+  >
+  count: number
+  now?: Date
+}) {
+  const occurrences = getOccurrences({
+    rrule: schedule.rrule,
+    startsAt: schedule.startsAt,
+    // Include today's occurrences that may already have started
+    after: new Date(now.getTime() - 1),
+    until: schedule.endsAt,
+    limit: count,
+  })
+
+  return occurrences.map((occurrenceAt) => ({
+    occurrenceAt,
+    title: renderScheduleTemplate(schedule.title, occurrenceAt),
+    generated:
+      !!schedule.lastOccurrenceAt &&
+      occurrenceAt.getTime() <= schedule.lastOccurrenceAt.getTime(),
+  }))
+}
+
+/**
+ * Materialize upcoming occurrences of one schedule as tasks
+ *
+ * Creates a task for every occurrence after lastOccurrenceAt that falls between
+ * now and now + leadTimeDays. Each task gets its own copy of the schedule's
+ * location (tasks edit their location in place) and a TASK_CREATED activity
+ * that references the schedule.
+ *
+ * With skipNonWorkingDays, an occurrence on a holiday or day off is scheduled
+ * on the next working day at the same time, unless the schedule already has a
+ * task then (a daily schedule does not pile up the whole of Tết on one day).
+ *
+ * Runs that overlap (a cron retry, a manual run) don't duplicate tasks: the
+ * occurrences are claimed by moving lastOccurrenceAt only if no other run
+ * moved it since the schedule was read.
+ *
+ * @returns Number of tasks created
+ */
+export async function generateTasksForSchedule({
+  schedule,
+  now = new Date(),
+}: {
+  schedule: TaskSchedule
+  now?: Date
+}) {
+  const logger = getLogger('task-schedule.service:generateTasksForSchedule')
+
+  if (schedule.pausedAt || schedule.deletedAt) {
+    return 0
+  }
+
+  const horizon = addDays(now, schedule.leadTimeDays)
+  const until =
+    schedule.endsAt && schedule.endsAt < horizon ? schedule.endsAt : horizon
+
+  // Never back-fill occurrences in the past (e.g. after a pause)
+  const after =
+    schedule.lastOccurrenceAt && schedule.lastOccurrenceAt > now
+      ? schedule.lastOccurrenceAt
+      : new Date(now.getTime() - 1)
+
+  const occurrences = getOccurrences({
+    rrule: schedule.rrule,
+    startsAt: schedule.startsAt,
+    after,
+    until,
+    limit: MAX_TASKS_PER_SCHEDULE_RUN,
+  })
+
+  if (occurrences.length === 0) {
+    return 0
+  }
+
+  const calendar = schedule.skipNonWorkingDays
+    ? await getWorkingCalendar({
+        from: toCalendarDay(occurrences[0]),
+        // Room to move the last occurrence past a whole Tết week
+        to: toCalendarDay(addDays(occurrences[occurrences.length - 1], 30)),
+      })
+    : null
+
+  const prisma = getPrisma()
+  const tasksCreated = await prisma.$transaction(async (tx) => {
+    // Row-locked until the transaction ends, a concurrent run waits and then
+    // matches nothing
+    const claim = await tx.taskSchedule.updateMany({
+      where: { id: schedule.id, lastOccurrenceAt: schedule.lastOccurrenceAt },
+      data: { lastOccurrenceAt: occurrences[occurrences.length - 1] },
+    })
+    if (claim.count === 0) {
+      logger.info(
+        { scheduleId: schedule.id },
+        'Occurrences already generated by another run',
+      )
+      return 0
+    }
+
+    const [customer, scheduleGeoLocation] = await Promise.all([
+      schedule.customerId
+        ? tx.customer.findUnique({ where: { id: schedule.customerId } })
+        : null,
+      schedule.geoLocationId
+        ? tx.geoLocation.findUnique({ where: { id: schedule.geoLocationId } })
+        : null,
+    ])
+
+    const scheduledTimes = new Set<number>()
+
+    for (const occurrenceAt of occurrences) {
+      const scheduledAt = calendar
+        ? moveToWorkingDay(occurrenceAt, calendar)
+        : occurrenceAt
+
+      if (calendar) {
+        const alreadyScheduled =
+          scheduledTimes.has(scheduledAt.getTime()) ||
+          (await tx.task.findFirst({
+            where: { scheduleId: schedule.id, scheduledAt, deletedAt: null },
+            select: { id: true },
+          }))
+        if (alreadyScheduled) {
+          continue
+        }
+      }
+      scheduledTimes.add(scheduledAt.getTime())
+
+      const title = renderScheduleTemplate(schedule.title, scheduledAt)
+      const description = schedule.description
+        ? renderScheduleTemplate(schedule.description, scheduledAt)
+        : null
+
+      const geoLocation = scheduleGeoLocation
+        ? await tx.geoLocation.create({
+            data: {
+              address: scheduleGeoLocation.address,
+              name: scheduleGeoLocation.name,
+              lat: scheduleGeoLocation.lat,
+              lng: scheduleGeoLocation.lng,
+            },
+          })
+        : null
+
+      const createdTask = await tx.task.create({
+        data: {
+          title,
+          description,
+          customerId: schedule.customerId,
+          geoLocationId: geoLocation?.id,
+          assigneeIds: schedule.assigneeIds,
+          scheduledAt,
+          scheduleId: schedule.id,
+          expectedRevenue: schedule.expectedRevenue,
+          expectedCurrency: 'VND',
+          searchableText: buildSearchableText({
+            title,
+            description,
+            customer,
+            geoLocation,
+          }),
+        },
+      })
+
+      await tx.task.update({
+        where: { id: createdTask.id },
+        data: {
+          searchableText: buildSearchableText({
+            id: createdTask.id,
+            title,
+            description,
+            customer,
+            geoLocation,
+          }),
+        },
+      })
+
+      await createActivity(
+        {
+          action: 'TASK_CREATED',
+          userId: null,
+          topic: { entityType: 'TASK', entityId: createdTask.id },
+          payload: {
+            scheduleId: schedule.id,
+            scheduleTitle: schedule.title,
+            occurrenceAt: occurrenceAt.toISOString(),
+          },
+        },
+        tx,
+      )
+    }
+
+    return scheduledTimes.size
+  })
+
+  logger.info(
+    { scheduleId: schedule.id, count: tasksCreated },
+    'Generated tasks from schedule',
+  )
+
+  return tasksCreated
+}
+
+/**
+ * Generate upcoming tasks for all active schedules
+ *
+ * Intended to run from a daily cron job. Each schedule is generated in its own
+ * transaction so one broken schedule doesn't block the others.
+ */
+export async function generateTasksFromSchedules({
+  now = new Date(),
+}: {
+  now?: Date
+} = {}) {
+  const logger = getLogger('task-schedule.service:generateTasksFromSchedules')
+  const prisma = getPrisma()
+
+  const schedules = await prisma.taskSchedule.findMany({
+    where: {
+      deletedAt: null,
+      pausedAt: null,
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+    },
+  })
+
+  let tasksCreated = 0
+  const failedScheduleIds: string[] = []
+
+  for (const schedule of schedules) {
+    try {
+      tasksCreated += await generateTasksForSchedule({ schedule, now })
+    } catch (error) {
+      logger.error(
+        { error, scheduleId: schedule.id },
+        'Failed to generate tasks from schedule',
+      )
+      failedScheduleIds.push(schedule.id)
+    }
+  }
+
+  logger.info(
+    { schedules: schedules.length, tasksCreated, failedScheduleIds },
+    'Finished generating tasks from schedules',
+  )
+
+  return {
+    schedulesProcessed: schedules.length,
+    tasksCreated,
+    failedScheduleIds,
+  }
+}
@@ -0,0 +1,149 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import { getTaskCalendar } from '../task.service'
+
+describe('getTaskCalendar', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+  const worker = createMockWorkerUser({ id: 'worker_1' })
+
+  const createTask = (id: number, scheduledAt: string) => ({
+    id,
+    title: `Công việc ${id}`,
+    status: TaskStatus.READY,
+    assigneeIds: ['worker_1'],
+    scheduledAt: new Date(scheduledAt),
+    slaDueAt: null,
+    customer: null,
+    geoLocation: null,
+  })
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockPrisma.task.findMany.mockResolvedValue([])
+    mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+  })
+
+  it('should bucket tasks per Vietnam calendar day', async () => {
+    mockPrisma.task.findMany.mockResolvedValue([
+      // 2026-10-20 01:00 in Vietnam
+      createTask(1, '2026-10-19T18:00:00.000Z'),
+      createTask(2, '2026-10-20T09:00:00.000Z'),
+      createTask(3, '2026-10-21T02:00:00.000Z'),
+    ])
+
+    const calendar = await getTaskCalendar(admin, {
+      from: '2026-10-19',
+      to: '2026-10-21',
+    })
+
+    expect(calendar.timezone).toBe('Asia/Ho_Chi_Minh')
+    expect(
+      calendar.days.map((day) => ({
+        date: day.date,
+        count: day.count,
+        ids: day.tasks.map((task) => task.id),
+      })),
+    ).toEqual([
+      { date: '2026-10-19', count: 0, ids: [] },
+      { date: '2026-10-20', count: 2, ids: [1, 2] },
+      { date: '2026-10-21', count: 1, ids: [3] },
+    ])
+  })
+
+  it('should query the range bounded in Vietnam time', async () => {
+    await getTaskCalendar(admin, { from: '2026-10-19', to: '2026-10-21' })
+
+    const { where } = mockPrisma.task.findMany.mock.calls[0][0]
+    expect(where.AND).toContainEqual({
+      scheduledAt: {
+        gte: new Date('2026-10-18T17:00:00.000Z'),
+        lt: new Date('2026-10-21T17:00:00.000Z'),
+      },
+    })
+    expect(where.AND).not.toContainEqual({
+      assigneeIds: { has: 'admin_1' },
+    })
+  })
+
+  it('should only return assigned tasks to workers', async () => {
+    await getTaskCalendar(worker, { from: '2026-10-19', to: '2026-10-19' })
+
+    const { where } = mockPrisma.task.findMany.mock.calls[0][0]
+    expect(where.AND).toContainEqual({ assigneeIds: { has: 'worker_1' } })
+  })
+
+  it('should filter by assignees for admins', async () => {
+    await getTaskCalendar(admin, {
+      from: '2026-10-19',
+      to: '2026-10-19',
+      assigneeIds: ['worker_1', 'worker_2'],
+    })
+
+    const { where } = mockPrisma.task.findMany.mock.calls[0][0]
+    expect(where.AND).toContainEqual({
+      assigneeIds: { hasSome: ['worker_1', 'worker_2'] },
+    })
+  })
+
+  it('should list approved leaves on each of their days', async () => {
+    mockPrisma.leaveRequest.findMany.mockResolvedValue([
+      {
+        id: 'leave_1',
+        userId: 'worker_1',
+        type: 'ANNUAL',
+        startDate: '2026-10-18',
+        endDate: '2026-10-20',
+        status: 'APPROVED',
+      },
+    ])
+
+    const calendar = await getTaskCalendar(worker, {
+      from: '2026-10-19',
+      to: '2026-10-21',
+    })
+
+    expect(calendar.days.map((day) => day.leaves.length)).toEqual([1, 1, 0])
+    expect(mockPrisma.leaveRequest.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: 'APPROVED',
+          userId: { in: ['worker_1'] },
+          startDate: { lte: '2026-10-21' },
+          endDate: { gte: '2026-10-19' },
+        },
+      }),
+    )
+  })
+
+  it('should flag overdue tasks', async () => {
+    mockPrisma.task.findMany.mockResolvedValue([
+      {
+        ...createTask(1, '2026-10-19T02:00:00.000Z'),
+        slaDueAt: new Date('2020-01-01T00:00:00.000Z'),
+      },
+    ])
+
+    const calendar = await getTaskCalendar(admin, {
+      from: '2026-10-19',
+      to: '2026-10-19',
+    })
+
+    expect(calendar.days[0].tasks[0].overdue).toBe(true)
+  })
+})
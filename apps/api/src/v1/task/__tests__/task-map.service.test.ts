@@ -0,0 +1,112 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  createMockAdminUser,
+  createMockWorkerUser,
+} from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import { getTaskMap } from '../task.service'
+
+describe('getTaskMap', () => {
+  const admin = createMockAdminUser({ id: 'admin_1' })
+  const worker = createMockWorkerUser({ id: 'worker_1' })
+
+  // Hanoi
+  const cityArea = {
+    minLat: 20.9,
+    maxLat: 21.1,
+    minLng: 105.7,
+    maxLng: 105.9,
+  }
+
+  const createTask = (
+    id: number,
+    lat: number,
+    lng: number,
+    overrides = {},
+  ) => ({
+    id,
+    title: `Công việc ${id}`,
+    status: TaskStatus.READY,
+    assigneeIds: ['worker_1'],
+    scheduledAt: null,
+    slaDueAt: null,
+    customer: null,
+    geoLocation: { lat, lng, name: null, address: null },
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockPrisma.task.findMany.mockResolvedValue([])
+  })
+
+  it('should return pins and clusters with their statuses', async () => {
+    mockPrisma.task.findMany.mockResolvedValue([
+      createTask(1, 21.01, 105.81),
+      createTask(2, 21.02, 105.82, { status: TaskStatus.IN_PROGRESS }),
+      createTask(3, 20.92, 105.72),
+    ])
+
+    const map = await getTaskMap(admin, cityArea)
+
+    expect(map.tasks.map((task) => task.id)).toEqual([3])
+    expect(map.tasks[0]).toMatchObject({ lat: 20.92, lng: 105.72 })
+    expect(map.clusters).toHaveLength(1)
+    expect(map.clusters[0]).toMatchObject({
+      count: 2,
+      statusCounts: {
+        [TaskStatus.READY]: 1,
+        [TaskStatus.IN_PROGRESS]: 1,
+      },
+    })
+    expect(map.clusters[0].points).toBeUndefined()
+    expect(map.truncated).toBe(false)
+  })
+
+  it('should query tasks located in the area with the filters', async () => {
+    await getTaskMap(worker, {
+      ...cityArea,
+      status: [TaskStatus.READY],
+    })
+
+    const [[args]] = mockPrisma.task.findMany.mock.calls
+    expect(args.where.AND).toEqual(
+      expect.arrayContaining([
+        { deletedAt: null },
+        { assigneeIds: { has: 'worker_1' } },
+        { status: { in: [TaskStatus.READY] } },
+        {
+          geoLocation: {
+            lat: { gte: 20.9, lte: 21.1 },
+            lng: { gte: 105.7, lte: 105.9 },
+          },
+        },
+      ]),
+    )
+  })
+
+  it('should flag a truncated area', async () => {
+    mockPrisma.task.findMany.mockResolvedValue(
+      Array.from({ length: 1001 }, (_, index) =>
+        createTask(index + 1, 20.91, 105.71),
+      ),
+    )
+
+    const map = await getTaskMap(admin, cityArea)
+
+    expect(map.truncated).toBe(true)
+    expect(map.clusters[0].count).toBe(1000)
+  })
+})
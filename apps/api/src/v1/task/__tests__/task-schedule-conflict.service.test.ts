@@ -0,0 +1,377 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { TaskStatus } from '@nv-internal/prisma-client'
+import { HTTPException } from 'hono/http-exception'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+// Mock activity creation
+const mockCreateActivity = jest.fn()
+jest.mock('../../activity/activity.service', () => ({
+  createActivity: mockCreateActivity,
+}))
+
+import {
+  createTask,
+  findScheduleConflicts,
+  updateTaskAssignees,
+} from '../task.service'
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`)
+
+describe('task scheduling conflicts', () => {
+  const admin = createMockAdminUser()
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockCreateActivity.mockReset()
+    mockPrisma.$transaction.mockImplementation(async (callback) =>
+      callback(mockPrisma),
+    )
+    mockPrisma.leaveRequest.findMany.mockResolvedValue([])
+  })
+
+  describe('findScheduleConflicts', () => {
+    it('should return one conflict per overlapping assignee', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        {
+          id: 2,
+          title: 'Bảo trì máy lạnh',
+          assigneeIds: ['worker_1', 'worker_2', 'worker_3'],
+          scheduledAt: at('03:00'),
+          scheduledEndAt: null,
+          estimatedDurationMinutes: 120,
+        },
+      ])
+
+      const conflicts = await findScheduleConflicts({
+        assigneeIds: ['worker_1', 'worker_2'],
+        window: { start: at('02:00'), end: at('04:00') },
+      })
+
+      expect(conflicts).toEqual([
+        {
+          userId: 'worker_1',
+          taskId: 2,
+          title: 'Bảo trì máy lạnh',
+          start: at('03:00'),
+          end: at('05:00'),
+        },
+        {
+          userId: 'worker_2',
+          taskId: 2,
+          title: 'Bảo trì máy lạnh',
+          start: at('03:00'),
+          end: at('05:00'),
+        },
+      ])
+    })
+
+    it('should only query open tasks of the assignees', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      await findScheduleConflicts({
+        assigneeIds: ['worker_1'],
+        window: { start: at('02:00'), end: at('04:00') },
+        excludeTaskId: 1,
+      })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            deletedAt: null,
+            status: { notIn: [TaskStatus.COMPLETED, TaskStatus.CANCELLED] },
+            assigneeIds: { hasSome: ['worker_1'] },
+            scheduledAt: { lt: at('04:00') },
+            id: { not: 1 },
+          }),
+        }),
+      )
+    })
+
+    it('should ignore candidates that only touch the window', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        {
+          id: 2,
+          title: 'Lắp đặt',
+          assigneeIds: ['worker_1'],
+          scheduledAt: at('00:00'),
+          scheduledEndAt: at('02:00'),
+          estimatedDurationMinutes: null,
+        },
+      ])
+
+      const conflicts = await findScheduleConflicts({
+        assigneeIds: ['worker_1'],
+        window: { start: at('02:00'), end: at('04:00') },
+      })
+
+      expect(conflicts).toEqual([])
+    })
+
+    it('should not query without assignees', async () => {
+      const conflicts = await findScheduleConflicts({
+        assigneeIds: [],
+        window: { start: at('02:00'), end: at('04:00') },
+      })
+
+      expect(conflicts).toEqual([])
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateTaskAssignees', () => {
+    const overlappingTask = {
+      id: 2,
+      title: 'Sửa ống nước',
+      assigneeIds: ['worker_1'],
+      scheduledAt: at('02:30'),
+      scheduledEndAt: null,
+      estimatedDurationMinutes: null,
+    }
+
+    beforeEach(() => {
+      mockPrisma.task.findUnique.mockResolvedValue({
+        scheduledAt: at('02:00'),
+        scheduledEndAt: at('04:00'),
+        estimatedDurationMinutes: null,
+      })
+      mockPrisma.task.update.mockResolvedValue({
+        id: 1,
+        assigneeIds: ['worker_1'],
+      })
+    })
+
+    it('should return conflict warnings and still assign', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([overlappingTask])
+
+      const result = await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_1'],
+        user: admin,
+      })
+
+      expect(mockPrisma.task.update).toHaveBeenCalled()
+      expect(result.scheduleConflicts).toEqual([
+        {
+          userId: 'worker_1',
+          taskId: 2,
+          title: 'Sửa ống nước',
+          start: at('02:30'),
+          end: at('03:30'),
+        },
+      ])
+    })
+
+    it('should reject conflicts in strict mode', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([overlappingTask])
+
+      await expect(
+        updateTaskAssignees({
+          taskId: 1,
+          assigneeIds: ['worker_1'],
+          rejectOnConflict: true,
+          user: admin,
+        }),
+      ).rejects.toThrow(HTTPException)
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should warn about assignees on approved leave that day', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          id: 'leave_1',
+          userId: 'worker_1',
+          type: 'SICK',
+          startDate: '2026-10-20',
+          endDate: '2026-10-21',
+        },
+      ])
+
+      const result = await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_1'],
+        user: admin,
+      })
+
+      expect(mockPrisma.leaveRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: 'APPROVED',
+            userId: { in: ['worker_1'] },
+            startDate: { lte: '2026-10-20' },
+            endDate: { gte: '2026-10-20' },
+          },
+        }),
+      )
+      expect(mockPrisma.task.update).toHaveBeenCalled()
+      expect(result.leaveConflicts).toEqual([
+        {
+          userId: 'worker_1',
+          leaveRequestId: 'leave_1',
+          type: 'SICK',
+          startDate: '2026-10-20',
+          endDate: '2026-10-21',
+        },
+      ])
+    })
+
+    it('should reject assignees on leave in strict mode', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.leaveRequest.findMany.mockResolvedValue([
+        {
+          id: 'leave_1',
+          userId: 'worker_1',
+          type: 'ANNUAL',
+          startDate: '2026-10-19',
+          endDate: '2026-10-23',
+        },
+      ])
+
+      await expect(
+        updateTaskAssignees({
+          taskId: 1,
+          assigneeIds: ['worker_1'],
+          rejectOnConflict: true,
+          user: admin,
+        }),
+      ).rejects.toMatchObject({
+        status: 409,
+        cause: {
+          conflicts: [],
+          leaveConflicts: [
+            expect.objectContaining({
+              userId: 'worker_1',
+              leaveRequestId: 'leave_1',
+            }),
+          ],
+        },
+      })
+      expect(mockPrisma.task.update).not.toHaveBeenCalled()
+    })
+
+    it('should skip the check for unscheduled tasks', async () => {
+      mockPrisma.task.findUnique.mockResolvedValue({
+        scheduledAt: null,
+        scheduledEndAt: null,
+        estimatedDurationMinutes: null,
+      })
+
+      const result = await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_1'],
+        rejectOnConflict: true,
+        user: admin,
+      })
+
+      expect(result.scheduleConflicts).toEqual([])
+      expect(result.leaveConflicts).toEqual([])
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+      expect(mockPrisma.leaveRequest.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should move the task and check the new window', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_1'],
+        schedule: {
+          scheduledAt: '2026-10-20T08:00:00.000Z',
+          scheduledEndAt: '2026-10-20T09:00:00.000Z',
+        },
+        user: admin,
+      })
+
+      const { where } = mockPrisma.task.findMany.mock.calls[0][0]
+      expect(where.scheduledAt).toEqual({ lt: at('09:00') })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            assigneeIds: ['worker_1'],
+            scheduledAt: at('08:00'),
+            scheduledEndAt: at('09:00'),
+          },
+        }),
+      )
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payload: {
+            newAssigneeIds: ['worker_1'],
+            newScheduledAt: '2026-10-20T08:00:00.000Z',
+          },
+        }),
+        mockPrisma,
+      )
+    })
+  })
+
+  describe('createTask', () => {
+    it('should save the schedule window and assignees', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+      mockPrisma.customer.create.mockResolvedValue({ id: 'cust_1' })
+      mockPrisma.task.create.mockResolvedValue({ id: 1, title: 'Lắp đặt' })
+      mockPrisma.task.update.mockResolvedValue({ id: 1, title: 'Lắp đặt' })
+
+      const result = await createTask({
+        data: {
+          title: 'Lắp đặt',
+          description: '',
+          scheduledAt: at('02:00').toISOString(),
+          estimatedDurationMinutes: 90,
+          assigneeIds: ['worker_1'],
+        },
+        user: admin,
+      })
+
+      expect(result.scheduleConflicts).toEqual([])
+      expect(mockPrisma.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            scheduledAt: at('02:00'),
+            scheduledEndAt: null,
+            estimatedDurationMinutes: 90,
+            assigneeIds: ['worker_1'],
+          }),
+        }),
+      )
+    })
+
+    it('should reject conflicts in strict mode before creating', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        {
+          id: 2,
+          title: 'Sửa ống nước',
+          assigneeIds: ['worker_1'],
+          scheduledAt: at('02:30'),
+          scheduledEndAt: null,
+          estimatedDurationMinutes: null,
+        },
+      ])
+
+      await expect(
+        createTask({
+          data: {
+            title: 'Lắp đặt',
+            description: '',
+            scheduledAt: at('02:00').toISOString(),
+            assigneeIds: ['worker_1'],
+            rejectOnConflict: true,
+          },
+          user: admin,
+        }),
+      ).rejects.toMatchObject({ status: 409 })
+      expect(mockPrisma.task.create).not.toHaveBeenCalled()
+    })
+  })
+})
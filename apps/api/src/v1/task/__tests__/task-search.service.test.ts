@@ -8,13 +8,14 @@
  * - Role-based access control
  * - Pagination
  * - Sorting
+ * - Distance from a point
  *
  * IMPORTANT: These tests use mocks and do NOT touch the real database.
  */
 
 import type { User } from '@clerk/backend'
 import { beforeEach, describe, expect, it, jest } from '@jest/globals'
-import { TaskStatus } from '@nv-internal/prisma-client'
+import { Prisma, TaskStatus } from '@nv-internal/prisma-client'
 import type { TaskSearchFilterQuery } from '@nv-internal/validation'
 import {
   createMockAdminUser,
@@ -706,6 +707,261 @@ describe('searchAndFilterTasks', () => {
     })
   })
 
+  describe('SLA and overdue', () => {
+    it('should flag open tasks past their SLA deadline as overdue', async () => {
+      const past = new Date(Date.now() - 60 * 60 * 1000)
+      const future = new Date(Date.now() + 60 * 60 * 1000)
+      mockPrisma.task.findMany.mockResolvedValue([
+        createMockTask({ id: 1, slaDueAt: past }),
+        createMockTask({ id: 2, slaDueAt: future }),
+        createMockTask({
+          id: 3,
+          slaDueAt: past,
+          status: TaskStatus.COMPLETED,
+          completedAt: new Date(),
+        }),
+        createMockTask({ id: 4, slaDueAt: null }),
+      ])
+
+      const result = await searchAndFilterTasks(toUser(adminUser), {
+        take: 20,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      })
+
+      expect(result.tasks.map((task) => task.overdue)).toEqual([
+        true,
+        false,
+        false,
+        false,
+      ])
+    })
+
+    it('should order open tasks by deadline when sorting by overdue', async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ id: 2 }, { id: 1 }])
+      mockPrisma.task.findMany.mockResolvedValue([
+        createMockTask({ id: 1, status: TaskStatus.COMPLETED }),
+        createMockTask({ id: 2 }),
+      ])
+
+      const result = await searchAndFilterTasks(toUser(adminUser), {
+        take: 20,
+        sortBy: 'overdue',
+        sortOrder: 'desc',
+        cursor: '5',
+      })
+
+      // Finished tasks are grouped by status, not by their timestamps
+      const query = Prisma.sql(
+        mockPrisma.$queryRaw.mock.calls[0][0] as TemplateStringsArray,
+        ...mockPrisma.$queryRaw.mock.calls[0].slice(1),
+      )
+      expect(query.sql).toContain("t.status IN ('COMPLETED', 'CANCELLED')")
+      expect(query.sql).not.toContain('completedAt')
+      expect(query.values).toContain(5)
+      expect(result.tasks.map((task) => task.id)).toEqual([2, 1])
+    })
+
+    it('should sort by priority with id as tie-breaker', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      await searchAndFilterTasks(toUser(adminUser), {
+        take: 20,
+        sortBy: 'priority',
+        sortOrder: 'desc',
+      })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ priority: 'desc' }, { id: 'desc' }],
+        }),
+      )
+    })
+  })
+
+  describe('Distance from a point', () => {
+    // The query passed to the $queryRaw tagged template
+    const rawQuery = (call: unknown[]) =>
+      Prisma.sql(call[0] as TemplateStringsArray, ...call.slice(1))
+
+    it('should add the distance of each task', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        createMockTask({ id: 1 }),
+        createMockTask({ id: 2, geoLocationId: null, geoLocation: null }),
+      ])
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 1, distance: 250.5 }])
+
+      const result = await searchAndFilterTasks(toUser(adminUser), {
+        take: 20,
+        status: undefined,
+        assigneeIds: undefined,
+        workType: undefined,
+        nearLat: 21.03,
+        nearLng: 105.85,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      })
+
+      expect(result.tasks.map((task) => task.distanceMeters)).toEqual([
+        250.5,
+        null,
+      ])
+      expect(rawQuery(mockPrisma.$queryRaw.mock.calls[0]).values).toContain(
+        21.03,
+      )
+    })
+
+    it('should keep only tasks within the radius', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([createMockTask({ id: 2 })])
+      mockPrisma.$queryRaw.mockResolvedValue([{ id: 2, distance: 1200 }])
+
+      const result = await searchAndFilterTasks(toUser(adminUser), {
+        take: 20,
+        status: undefined,
+        assigneeIds: undefined,
+        workType: undefined,
+        nearLat: 21.03,
+        nearLng: 105.85,
+        radiusMeters: 3000,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      })
+
+      // Bounding box in the task query, no list of the ids within the radius
+      const [[args]] = mockPrisma.task.findMany.mock.calls
+      expect(args.where.AND).toContainEqual({
+        geoLocation: {
+          lat: { gte: expect.any(Number), lte: expect.any(Number) },
+          lng: { gte: expect.any(Number), lte: expect.any(Number) },
+        },
+      })
+      expect(JSON.stringify(args.where)).not.toContain('"in"')
+      // The exact distance is only checked for the rows of the page
+      const query = rawQuery(mockPrisma.$queryRaw.mock.calls[0])
+      expect(query.sql).toContain('d.distance <=')
+      expect(query.values).toContainEqual([2])
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(result.tasks[0].distanceMeters).toBe(1200)
+    })
+
+    it('should read more rows when the corners of the radius box leave the page short', async () => {
+      mockPrisma.task.findMany
+        .mockResolvedValueOnce([
+          createMockTask({ id: 1 }),
+          createMockTask({ id: 2 }),
+        ])
+        .mockResolvedValueOnce([createMockTask({ id: 3 })])
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 3, distance: 900 }])
+
+      const result = await searchAndFilterTasks(toUser(adminUser), {
+        take: 1,
+        status: undefined,
+        assigneeIds: undefined,
+        workType: undefined,
+        nearLat: 21.03,
+        nearLng: 105.85,
+        radiusMeters: 1000,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.task.findMany.mock.calls[1][0]).toEqual(
+        expect.objectContaining({ take: 2, cursor: { id: 2 }, skip: 1 }),
+      )
+      expect(result.tasks.map((task) => task.id)).toEqual([3])
+      expect(result.tasks[0].distanceMeters).toBe(900)
+      expect(result.hasNextPage).toBe(false)
+      expect(result.nextCursor).toBeNull()
+    })
+
+    it('should sort by distance with a keyset cursor', async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([
+        { id: 3, distance: 10 },
+        { id: 1, distance: 20.25 },
+        { id: 2, distance: 30 },
+      ])
+      mockPrisma.task.findMany.mockResolvedValueOnce([
+        createMockTask({ id: 1 }),
+        createMockTask({ id: 3 }),
+      ])
+
+      const filters: TaskSearchFilterQuery = {
+        take: 2,
+        status: undefined,
+        assigneeIds: undefined,
+        workType: undefined,
+        nearLat: 21.03,
+        nearLng: 105.85,
+        sortBy: 'distance',
+        sortOrder: 'desc',
+      }
+      const firstPage = await searchAndFilterTasks(toUser(adminUser), filters)
+
+      // One page plus one row, read in SQL
+      const firstQuery = rawQuery(mockPrisma.$queryRaw.mock.calls[0])
+      expect(firstQuery.sql).toContain('LIMIT')
+      expect(firstQuery.values).toContain(3)
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [3, 1] } } }),
+      )
+      expect(firstPage.tasks.map((task) => task.id)).toEqual([3, 1])
+      expect(firstPage.tasks.map((task) => task.distanceMeters)).toEqual([
+        10, 20.25,
+      ])
+      expect(firstPage.hasNextPage).toBe(true)
+      expect(firstPage.nextCursor).toBe('20.25:1')
+
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ id: 2, distance: 30 }])
+      mockPrisma.task.findMany.mockResolvedValueOnce([
+        createMockTask({ id: 2 }),
+      ])
+
+      const secondPage = await searchAndFilterTasks(toUser(adminUser), {
+        ...filters,
+        cursor: firstPage.nextCursor ?? undefined,
+      })
+
+      const query = rawQuery(mockPrisma.$queryRaw.mock.calls[1])
+      expect(query.sql).toContain('(d.distance, d.id) >')
+      expect(query.values).toEqual(expect.arrayContaining([20.25, 1, 3]))
+      expect(secondPage.tasks.map((task) => task.id)).toEqual([2])
+      expect(secondPage.hasNextPage).toBe(false)
+      expect(secondPage.nextCursor).toBeNull()
+    })
+
+    it('should apply the filters in the distance query', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([])
+
+      const result = await searchAndFilterTasks(toUser(workerUser), {
+        take: 20,
+        search: '50%_off',
+        status: [TaskStatus.READY],
+        assigneeIds: undefined,
+        workType: undefined,
+        nearLat: 21.03,
+        nearLng: 105.85,
+        sortBy: 'distance',
+        sortOrder: 'asc',
+      })
+
+      const query = rawQuery(mockPrisma.$queryRaw.mock.calls[0])
+      expect(query.sql).toContain('t."deletedAt" IS NULL')
+      expect(query.sql).toContain('= ANY(t."assigneeIds")')
+      expect(query.sql).toContain('t.status::text = ANY(')
+      expect(query.sql).toContain('t."searchableText" ILIKE')
+      expect(query.values).toContain(workerUser.id)
+      expect(query.values).toContainEqual([TaskStatus.READY])
+      expect(query.values).toContain('%50\\%\\_off%')
+      // Tasks without a location are left out by the join
+      expect(query.sql).toContain('JOIN "GeoLocation"')
+      expect(mockPrisma.task.findMany).not.toHaveBeenCalled()
+      expect(result.tasks).toEqual([])
+    })
+  })
+
   describe('Edge cases', () => {
     it('should handle empty search results gracefully', async () => {
       mockPrisma.task.findMany.mockResolvedValue([])
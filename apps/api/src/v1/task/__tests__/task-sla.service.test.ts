@@ -0,0 +1,135 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+// Mock activity creation
+const mockCreateActivity = jest.fn()
+jest.mock('../../activity/activity.service', () => ({
+  createActivity: mockCreateActivity,
+}))
+
+import { isTaskOverdue, sweepSlaBreaches } from '../task.service'
+
+describe('task SLA', () => {
+  const now = new Date('2026-04-10T03:00:00.000Z')
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+    mockCreateActivity.mockReset()
+    mockPrisma.$transaction.mockImplementation(async (callback) =>
+      callback(mockPrisma),
+    )
+  })
+
+  describe('isTaskOverdue', () => {
+    it('should be overdue when an open task passed its deadline', () => {
+      expect(
+        isTaskOverdue(
+          {
+            status: TaskStatus.IN_PROGRESS,
+            slaDueAt: new Date('2026-04-10T02:00:00.000Z'),
+          },
+          now,
+        ),
+      ).toBe(true)
+    })
+
+    it('should not be overdue before the deadline or without one', () => {
+      expect(
+        isTaskOverdue(
+          {
+            status: TaskStatus.READY,
+            slaDueAt: new Date('2026-04-10T04:00:00.000Z'),
+          },
+          now,
+        ),
+      ).toBe(false)
+      expect(
+        isTaskOverdue({ status: TaskStatus.READY, slaDueAt: null }, now),
+      ).toBe(false)
+    })
+
+    it('should not be overdue once completed', () => {
+      expect(
+        isTaskOverdue(
+          {
+            status: TaskStatus.COMPLETED,
+            slaDueAt: new Date('2026-04-09T00:00:00.000Z'),
+          },
+          now,
+        ),
+      ).toBe(false)
+    })
+  })
+
+  describe('sweepSlaBreaches', () => {
+    it('should only query open tasks past their deadline that were not logged yet', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([])
+
+      await sweepSlaBreaches({ now })
+
+      expect(mockPrisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: null,
+            status: { notIn: [TaskStatus.COMPLETED, TaskStatus.CANCELLED] },
+            slaDueAt: { lt: now },
+            slaBreachedAt: null,
+          },
+        }),
+      )
+    })
+
+    it('should mark breached tasks and log TASK_SLA_BREACHED', async () => {
+      const slaDueAt = new Date('2026-04-10T01:00:00.000Z')
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 7, priority: 'URGENT', slaDueAt, assigneeIds: ['worker_1'] },
+      ])
+
+      const result = await sweepSlaBreaches({ now })
+
+      expect(result).toEqual({ tasksBreached: 1, failedTaskIds: [] })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { slaBreachedAt: now },
+      })
+      expect(mockCreateActivity).toHaveBeenCalledWith(
+        {
+          action: 'TASK_SLA_BREACHED',
+          userId: null,
+          topic: { entityType: 'TASK', entityId: 7 },
+          payload: {
+            priority: 'URGENT',
+            slaDueAt: slaDueAt.toISOString(),
+            assigneeIds: ['worker_1'],
+          },
+        },
+        mockPrisma,
+      )
+    })
+
+    it('should keep going when a task fails', async () => {
+      mockPrisma.task.findMany.mockResolvedValue([
+        { id: 1, priority: 'NORMAL', slaDueAt: now, assigneeIds: [] },
+        { id: 2, priority: 'NORMAL', slaDueAt: now, assigneeIds: [] },
+      ])
+      mockPrisma.task.update
+        .mockRejectedValueOnce(new Error('db error'))
+        .mockResolvedValueOnce({})
+
+      const result = await sweepSlaBreaches({ now })
+
+      expect(result).toEqual({ tasksBreached: 1, failedTaskIds: [1] })
+    })
+  })
+})
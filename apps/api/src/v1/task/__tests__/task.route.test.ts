@@ -2,11 +2,12 @@
 import { beforeEach, describe, expect, it, jest } from '@jest/globals'
 import type { Task } from '@nv-internal/prisma-client'
 import { TaskStatus } from '@nv-internal/prisma-client'
+import { HTTPException } from 'hono/http-exception'
+import { createTestApp } from '../../../test/create-test-app'
 import {
   createMockAdminUser,
   createMockWorkerUser,
 } from '../../../test/mock-auth'
-import { createTestApp } from '../../../test/test-app'
 
 // Mock task service and attachment service used by the route
 jest.mock('../task.service', () => ({
@@ -15,9 +16,15 @@ jest.mock('../task.service', () => ({
   canUserUpdateTaskAssignees: jest.fn(),
   canUserUpdateTaskStatus: jest.fn(),
   canUserViewTask: jest.fn(),
+  checkLeaveConflicts: jest.fn(async () => []),
   createTask: jest.fn(),
+  findScheduleConflicts: jest.fn(),
+  getAssignmentConflicts:
+    jest.requireActual('../task.service').getAssignmentConflicts,
   getTaskById: jest.fn(),
   getTaskList: jest.fn(),
+  getTaskMap: jest.fn(),
+  getTaskStatusActors: jest.fn(() => []),
   updateTaskAssignees: jest.fn(),
   updateTaskStatus: jest.fn(),
 }))
@@ -26,7 +33,13 @@ jest.mock('../../attachment/attachment.service', () => ({
   uploadTaskAttachments: jest.fn(),
 }))
 
+jest.mock('../../dispatch/dispatch.service', () => ({
+  getWorkerDailyRoute: jest.fn(),
+  suggestAssignees: jest.fn(),
+}))
+
 import * as attachmentService from '../../attachment/attachment.service'
+import * as dispatchService from '../../dispatch/dispatch.service'
 import * as taskService from '../task.service'
 
 function asMock<T extends (...args: unknown[]) => unknown>(fn: T) {
@@ -188,6 +201,41 @@ describe('Task Route', () => {
       })
       expect(res.status).toBe(403)
     })
+
+    it('returns 409 with the leave conflicts in strict mode', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserCreateTask).mockResolvedValue(true)
+      const leaveConflict = {
+        userId: 'a',
+        leaveRequestId: 'leave_1',
+        type: 'SICK',
+        startDate: '2026-10-20',
+        endDate: '2026-10-21',
+      }
+      asMock(taskService.createTask).mockRejectedValue(
+        new HTTPException(409, {
+          message: 'Nhân viên đang nghỉ phép vào ngày này',
+          cause: { conflicts: [], leaveConflicts: [leaveConflict] },
+        }),
+      )
+
+      const res = await app.request('/v1/task', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          ...payload,
+          assigneeIds: ['a'],
+          rejectOnConflict: true,
+        }),
+      })
+      expect(res.status).toBe(409)
+      expect(await res.json()).toEqual({
+        message: 'Nhân viên đang nghỉ phép vào ngày này',
+        conflicts: [],
+        leaveConflicts: [leaveConflict],
+      })
+    })
   })
 
   describe('GET /v1/task/:id', () => {
@@ -314,6 +362,267 @@ describe('Task Route', () => {
         expect.objectContaining({ taskId: 1, assigneeIds: ['a', 'b'] }),
       )
     })
+
+    it('returns 409 when strict mode rejects a schedule conflict', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+      asMock(taskService.updateTaskAssignees).mockRejectedValue(
+        new HTTPException(409, {
+          message: 'Nhân viên đã có công việc trùng lịch',
+          cause: {
+            conflicts: [
+              {
+                userId: 'a',
+                taskId: 2,
+                title: 'Sửa ống nước',
+                start: new Date('2026-10-20T02:00:00.000Z'),
+                end: new Date('2026-10-20T03:00:00.000Z'),
+              },
+            ],
+            leaveConflicts: [],
+          },
+        }),
+      )
+
+      const res = await app.request('/v1/task/1/assignees', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ assigneeIds: ['a'], rejectOnConflict: true }),
+      })
+      expect(res.status).toBe(409)
+      expect(await res.json()).toEqual({
+        message: 'Nhân viên đã có công việc trùng lịch',
+        conflicts: [
+          {
+            userId: 'a',
+            taskId: 2,
+            title: 'Sửa ống nước',
+            start: '2026-10-20T02:00:00.000Z',
+            end: '2026-10-20T03:00:00.000Z',
+          },
+        ],
+        leaveConflicts: [],
+      })
+      expect(taskService.updateTaskAssignees).toHaveBeenCalledWith(
+        expect.objectContaining({ rejectOnConflict: true }),
+      )
+    })
+
+    it('reschedules along with the assignees (dispatch board)', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+      asMock(taskService.updateTaskAssignees).mockResolvedValue({ id: 1 })
+
+      const res = await app.request('/v1/task/1/assignees', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          assigneeIds: ['a'],
+          scheduledAt: '2026-10-20T02:00:00.000Z',
+          scheduledEndAt: '2026-10-20T03:00:00.000Z',
+        }),
+      })
+      expect(res.status).toBe(200)
+      expect(taskService.updateTaskAssignees).toHaveBeenCalledWith(
+        expect.objectContaining({
+          schedule: {
+            scheduledAt: '2026-10-20T02:00:00.000Z',
+            scheduledEndAt: '2026-10-20T03:00:00.000Z',
+            estimatedDurationMinutes: undefined,
+          },
+        }),
+      )
+    })
+
+    it('returns 400 when the new end is before the start', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+
+      const res = await app.request('/v1/task/1/assignees', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          assigneeIds: ['a'],
+          scheduledAt: '2026-10-20T03:00:00.000Z',
+          scheduledEndAt: '2026-10-20T02:00:00.000Z',
+        }),
+      })
+      expect(res.status).toBe(400)
+      expect(taskService.updateTaskAssignees).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /v1/task/:id/suggested-assignees', () => {
+    it('ranks workers for the task location and window', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+      asMock(taskService.getTaskById).mockResolvedValue({
+        id: 1,
+        geoLocation: { lat: 10.77, lng: 106.63 },
+        scheduledAt: new Date('2026-10-20T02:00:00.000Z'),
+        scheduledEndAt: null,
+        estimatedDurationMinutes: 90,
+      })
+      asMock(dispatchService.suggestAssignees).mockResolvedValue({
+        suggestions: [{ userId: 'a', rank: 1, reasons: [] }],
+      })
+
+      const res = await app.request('/v1/task/1/suggested-assignees')
+      expect(res.status).toBe(200)
+      const body = await res.json()
+      expect(body.suggestions).toHaveLength(1)
+      expect(dispatchService.suggestAssignees).toHaveBeenCalledWith(
+        expect.objectContaining({
+          location: { lat: 10.77, lng: 106.63 },
+          window: {
+            start: new Date('2026-10-20T02:00:00.000Z'),
+            end: new Date('2026-10-20T03:30:00.000Z'),
+          },
+          excludeTaskId: 1,
+        }),
+      )
+    })
+
+    it('returns 404 when the task does not exist', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+      asMock(taskService.getTaskById).mockResolvedValue(null)
+
+      const res = await app.request('/v1/task/1/suggested-assignees')
+      expect(res.status).toBe(404)
+    })
+
+    it('returns 403 for non-admin', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_1' })
+      const app = createTestApp(worker)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(false)
+
+      const res = await app.request('/v1/task/1/suggested-assignees')
+      expect(res.status).toBe(403)
+      expect(dispatchService.suggestAssignees).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /v1/task/map', () => {
+    it('returns the tasks of the area', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.getTaskMap).mockResolvedValue({
+        tasks: [{ id: 1, lat: 21.02, lng: 105.85 }],
+        clusters: [],
+        truncated: false,
+      })
+
+      const res = await app.request(
+        '/v1/task/map?minLat=20.9&maxLat=21.1&minLng=105.7&maxLng=105.9&status=READY',
+      )
+      expect(res.status).toBe(200)
+      expect(taskService.getTaskMap).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({
+          minLat: 20.9,
+          maxLng: 105.9,
+          status: [TaskStatus.READY],
+        }),
+      )
+    })
+
+    it('returns 400 for an inverted area', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+
+      const res = await app.request(
+        '/v1/task/map?minLat=21.1&maxLat=20.9&minLng=105.7&maxLng=105.9',
+      )
+      expect(res.status).toBe(400)
+      expect(taskService.getTaskMap).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /v1/task/route', () => {
+    it('orders the worker tasks from the given position', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_1' })
+      const app = createTestApp(worker)
+      asMock(dispatchService.getWorkerDailyRoute).mockResolvedValue({
+        stops: [{ id: 2, order: 1 }],
+        totalDistanceMeters: 1200,
+      })
+
+      const res = await app.request(
+        '/v1/task/route?date=2026-10-20&lat=21.02&lng=105.85',
+      )
+      expect(res.status).toBe(200)
+      const body = await res.json()
+      expect(body.totalDistanceMeters).toBe(1200)
+      expect(dispatchService.getWorkerDailyRoute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          date: '2026-10-20',
+          origin: { lat: 21.02, lng: 105.85 },
+        }),
+      )
+    })
+
+    it('returns 400 with only one coordinate', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_1' })
+      const app = createTestApp(worker)
+
+      const res = await app.request('/v1/task/route?date=2026-10-20&lat=21.02')
+      expect(res.status).toBe(400)
+      expect(dispatchService.getWorkerDailyRoute).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /v1/task/schedule-conflicts', () => {
+    it('returns conflicts of the planned window', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(true)
+      asMock(taskService.findScheduleConflicts).mockResolvedValue([
+        { userId: 'a', taskId: 2, title: 'T2' },
+      ])
+
+      const res = await app.request('/v1/task/schedule-conflicts', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          assigneeIds: ['a'],
+          scheduledAt: '2026-10-20T02:00:00.000Z',
+          estimatedDurationMinutes: 90,
+        }),
+      })
+      expect(res.status).toBe(200)
+      const body = await res.json()
+      expect(body.conflicts).toHaveLength(1)
+      expect(taskService.findScheduleConflicts).toHaveBeenCalledWith({
+        assigneeIds: ['a'],
+        window: {
+          start: new Date('2026-10-20T02:00:00.000Z'),
+          end: new Date('2026-10-20T03:30:00.000Z'),
+        },
+        excludeTaskId: undefined,
+      })
+    })
+
+    it('returns 403 for non-admin', async () => {
+      const worker = createMockWorkerUser({ id: 'worker_1' })
+      const app = createTestApp(worker)
+      asMock(taskService.canUserUpdateTaskAssignees).mockResolvedValue(false)
+
+      const res = await app.request('/v1/task/schedule-conflicts', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          assigneeIds: ['a'],
+          scheduledAt: '2026-10-20T02:00:00.000Z',
+        }),
+      })
+      expect(res.status).toBe(403)
+    })
   })
 
   describe('POST /v1/task/:id/attachments', () => {
@@ -530,5 +839,112 @@ describe('Task Route', () => {
         expect.objectContaining({ taskId: 1, status: TaskStatus.READY }),
       )
     })
+
+    it.each([
+      [TaskStatus.READY, TaskStatus.IN_PROGRESS, 'Vui lòng check-in'],
+      [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, 'Vui lòng check-out'],
+      [TaskStatus.IN_PROGRESS, TaskStatus.ON_HOLD, 'Vui lòng chọn lý do'],
+    ])(
+      'rejects %s -> %s done through a dedicated endpoint',
+      async (from, to, message) => {
+        const worker = createMockWorkerUser({ id: 'worker_1' })
+        const app = createTestApp(worker)
+        asMock(taskService.getTaskById).mockResolvedValue({
+          id: 1,
+          status: from,
+          assigneeIds: ['worker_1'],
+          holdReason: null,
+        })
+        asMock(taskService.canUserUpdateTaskStatus).mockReturnValue(true)
+        asMock(taskService.getTaskStatusActors).mockReturnValue(['assignee'])
+
+        const res = await app.request('/v1/task/1/status', {
+          method: 'PUT',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ status: to }),
+        })
+        expect(res.status).toBe(400)
+        expect(await res.text()).toMatch(message)
+        expect(taskService.updateTaskStatus).not.toHaveBeenCalled()
+      },
+    )
+
+    it('lets an admin who is also assigned resume a task paused by an assignee', async () => {
+      const admin = createMockAdminUser({ id: 'admin_1' })
+      const app = createTestApp(admin)
+      asMock(taskService.getTaskById).mockResolvedValue({
+        id: 1,
+        status: TaskStatus.ON_HOLD,
+        assigneeIds: ['admin_1'],
+        holdReason: 'WAITING_FOR_PARTS',
+      })
+      asMock(taskService.canUserUpdateTaskStatus).mockReturnValue(true)
+      asMock(taskService.getTaskStatusActors).mockReturnValue([
+        'admin',
+        'assignee',
+      ])
+      asMock(taskService.updateTaskStatus).mockResolvedValue({ id: 1 })
+
+      const res = await app.request('/v1/task/1/status', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ status: TaskStatus.IN_PROGRESS }),
+      })
+      expect(res.status).toBe(200)
+      expect(taskService.updateTaskStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: 1, status: TaskStatus.IN_PROGRESS }),
+      )
+    })
+
+    it('returns 400 when cancelling without a reason', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.getTaskById).mockResolvedValue({
+        id: 1,
+        status: TaskStatus.READY,
+        assigneeIds: [],
+      })
+      asMock(taskService.canUserUpdateTaskStatus).mockReturnValue(true)
+      asMock(taskService.getTaskStatusActors).mockReturnValue(['admin'])
+
+      const res = await app.request('/v1/task/1/status', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ status: TaskStatus.CANCELLED }),
+      })
+      expect(res.status).toBe(400)
+      expect(await res.text()).toMatch('Vui lòng nhập lý do')
+      expect(taskService.updateTaskStatus).not.toHaveBeenCalled()
+    })
+
+    it('passes the cancellation reason to the service', async () => {
+      const admin = createMockAdminUser()
+      const app = createTestApp(admin)
+      asMock(taskService.getTaskById).mockResolvedValue({
+        id: 1,
+        status: TaskStatus.READY,
+        assigneeIds: [],
+      })
+      asMock(taskService.canUserUpdateTaskStatus).mockReturnValue(true)
+      asMock(taskService.getTaskStatusActors).mockReturnValue(['admin'])
+      asMock(taskService.updateTaskStatus).mockResolvedValue({ id: 1 })
+
+      const res = await app.request('/v1/task/1/status', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          status: TaskStatus.CANCELLED,
+          reason: 'Khách hủy',
+        }),
+      })
+      expect(res.status).toBe(200)
+      expect(taskService.updateTaskStatus).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: 1,
+          status: TaskStatus.CANCELLED,
+          reason: 'Khách hủy',
+        }),
+      )
+    })
   })
 })
@@ -1,6 +1,10 @@
 import { beforeEach, describe, expect, it, jest } from '@jest/globals'
 import type { Task } from '@nv-internal/prisma-client'
-import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  TaskHoldReason,
+  TaskStatus,
+  TaskWorkType,
+} from '@nv-internal/prisma-client'
 import { HTTPException } from 'hono/http-exception'
 import {
   createMockAdminUser,
@@ -216,6 +220,97 @@ describe('Task Service Unit Tests', () => {
       expect(canUpdate).toBe(false)
     })
 
+    it('should allow admin to cancel an open task', async () => {
+      const adminUser = createMockAdminUser()
+      const mockTask = {
+        id: 1,
+        status: TaskStatus.IN_PROGRESS,
+        assigneeIds: ['worker_123'],
+      }
+      const canUpdate = await canUserUpdateTaskStatus({
+        user: toUser(adminUser),
+        task: asTask(mockTask),
+        targetStatus: TaskStatus.CANCELLED,
+      })
+      expect(canUpdate).toBe(true)
+    })
+
+    it('should not allow any transition out of CANCELLED', async () => {
+      const adminUser = createMockAdminUser()
+      const mockTask = {
+        id: 1,
+        status: TaskStatus.CANCELLED,
+        assigneeIds: [adminUser.id],
+      }
+      for (const targetStatus of Object.values(TaskStatus)) {
+        const canUpdate = await canUserUpdateTaskStatus({
+          user: toUser(adminUser),
+          task: asTask(mockTask),
+          targetStatus,
+        })
+        expect(canUpdate).toBe(false)
+      }
+    })
+
+    it('should not allow worker to cancel a task', async () => {
+      const workerUser = createMockWorkerUser({ id: 'worker_123' })
+      const mockTask = {
+        id: 1,
+        status: TaskStatus.READY,
+        assigneeIds: ['worker_123'],
+      }
+      const canUpdate = await canUserUpdateTaskStatus({
+        user: toUser(workerUser),
+        task: asTask(mockTask),
+        targetStatus: TaskStatus.CANCELLED,
+      })
+      expect(canUpdate).toBe(false)
+    })
+
+    it('should allow worker to put their IN_PROGRESS task on hold', async () => {
+      const workerUser = createMockWorkerUser({ id: 'worker_123' })
+      const mockTask = {
+        id: 1,
+        status: TaskStatus.IN_PROGRESS,
+        assigneeIds: ['worker_123'],
+      }
+      const canUpdate = await canUserUpdateTaskStatus({
+        user: toUser(workerUser),
+        task: asTask(mockTask),
+        targetStatus: TaskStatus.ON_HOLD,
+      })
+      expect(canUpdate).toBe(true)
+    })
+
+    it('should only let worker resume a task they put on hold', async () => {
+      const workerUser = createMockWorkerUser({ id: 'worker_123' })
+      const heldByAdmin = {
+        id: 1,
+        status: TaskStatus.ON_HOLD,
+        assigneeIds: ['worker_123'],
+        holdReason: null,
+      }
+      const heldByWorker = {
+        ...heldByAdmin,
+        holdReason: TaskHoldReason.WAITING_FOR_PARTS,
+      }
+
+      expect(
+        canUserUpdateTaskStatus({
+          user: toUser(workerUser),
+          task: asTask(heldByAdmin),
+          targetStatus: TaskStatus.IN_PROGRESS,
+        }),
+      ).toBe(false)
+      expect(
+        canUserUpdateTaskStatus({
+          user: toUser(workerUser),
+          task: asTask(heldByWorker),
+          targetStatus: TaskStatus.IN_PROGRESS,
+        }),
+      ).toBe(true)
+    })
+
     it('should not allow non-assigned worker to update status', async () => {
       const workerUser = createMockWorkerUser({ id: 'worker_456' })
       const mockTask = {
@@ -306,7 +401,7 @@ describe('Task Service Unit Tests', () => {
         user: toUser(adminUser),
       })
 
-      expect(result).toEqual(mockTask)
+      expect(result).toEqual({ ...mockTask, scheduleConflicts: [] })
       expect(mockPrisma.customer.create).toHaveBeenCalledWith({
         data: {
           phone: '0123456789',
@@ -359,7 +454,12 @@ describe('Task Service Unit Tests', () => {
         user: toUser(adminUser),
       })
 
-      expect(result).toEqual(mockUpdatedTask)
+      expect(result).toEqual({
+        ...mockUpdatedTask,
+        scheduleConflicts: [],
+        leaveConflicts: [],
+        skillIssues: [],
+      })
       expect(mockPrisma.task.update).toHaveBeenCalledWith({
         where: { id: 1 },
         data: {
@@ -379,6 +479,77 @@ describe('Task Service Unit Tests', () => {
       })
     })
 
+    it("should assign a team's members and remember the team", async () => {
+      const adminUser = createMockAdminUser()
+
+      mockPrisma.team.findFirst.mockResolvedValue({
+        id: 'team_1',
+        name: 'Đội lắp đặt 1',
+        leaderId: 'worker_456',
+        memberIds: ['worker_456', 'worker_789'],
+        deletedAt: null,
+      })
+      mockPrisma.task.update.mockResolvedValue({ id: 1, teamId: 'team_1' })
+      mockPrisma.activity.create.mockResolvedValue({})
+
+      await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_789', 'worker_999'],
+        teamId: 'team_1',
+        user: toUser(adminUser),
+      })
+
+      expect(mockPrisma.team.findFirst).toHaveBeenCalledWith({
+        where: { id: 'team_1', deletedAt: null },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            assigneeIds: ['worker_456', 'worker_789', 'worker_999'],
+            teamId: 'team_1',
+          },
+        }),
+      )
+    })
+
+    it('should warn about assignees missing a required skill', async () => {
+      const adminUser = createMockAdminUser()
+
+      mockPrisma.task.findUnique.mockResolvedValue({
+        scheduledAt: null,
+        scheduledEndAt: null,
+        estimatedDurationMinutes: null,
+        workType: 'INSTALLATION',
+        requiredSkillIds: [],
+      })
+      mockPrisma.skill.findMany.mockResolvedValue([
+        { id: 'skill_r32', name: 'Gas R32', workTypes: ['INSTALLATION'] },
+      ])
+      mockPrisma.workerCertificate.findMany.mockResolvedValue([
+        { userId: 'worker_456', skillId: 'skill_r32', expiryDate: null },
+      ])
+      mockPrisma.task.update.mockResolvedValue({ id: 1 })
+      mockPrisma.activity.create.mockResolvedValue({})
+
+      const result = await updateTaskAssignees({
+        taskId: 1,
+        assigneeIds: ['worker_456', 'worker_789'],
+        user: toUser(adminUser),
+      })
+
+      // A warning only, the assignment goes through
+      expect(mockPrisma.task.update).toHaveBeenCalled()
+      expect(result.skillIssues).toEqual([
+        {
+          userId: 'worker_789',
+          skillId: 'skill_r32',
+          skillName: 'Gas R32',
+          reason: 'MISSING',
+          expiryDate: null,
+        },
+      ])
+    })
+
     it('should update task status', async () => {
       const adminUser = createMockAdminUser()
 
@@ -400,6 +571,7 @@ describe('Task Service Unit Tests', () => {
 
       mockPrisma.task.update.mockResolvedValue(mockUpdatedTask)
       mockPrisma.activity.create.mockResolvedValue({})
+      mockPrisma.taskHold.updateMany.mockResolvedValue({ count: 0 })
 
       const result = await updateTaskStatus({
         taskId: 1,
@@ -426,6 +598,59 @@ describe('Task Service Unit Tests', () => {
         },
       })
     })
+
+    it('should end the open hold when moving a task out of ON_HOLD', async () => {
+      const adminUser = createMockAdminUser()
+
+      mockPrisma.task.update.mockResolvedValue({ id: 1, status: 'READY' })
+      mockPrisma.activity.create.mockResolvedValue({})
+      mockPrisma.taskHold.updateMany.mockResolvedValue({ count: 1 })
+
+      await updateTaskStatus({
+        taskId: 1,
+        status: TaskStatus.READY,
+        user: toUser(adminUser),
+      })
+
+      expect(mockPrisma.taskHold.updateMany).toHaveBeenCalledWith({
+        where: { taskId: 1, endedAt: null },
+        data: { endedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: TaskStatus.READY, holdReason: null },
+        }),
+      )
+    })
+
+    it('should end open visits unless the task goes back in progress', async () => {
+      const adminUser = createMockAdminUser()
+
+      mockPrisma.task.update.mockResolvedValue({ id: 1, status: 'COMPLETED' })
+      mockPrisma.activity.create.mockResolvedValue({})
+      mockPrisma.taskHold.updateMany.mockResolvedValue({ count: 0 })
+
+      await updateTaskStatus({
+        taskId: 1,
+        status: TaskStatus.COMPLETED,
+        user: toUser(adminUser),
+      })
+
+      expect(mockPrisma.taskVisit.updateMany).toHaveBeenCalledWith({
+        where: { taskId: 1, checkedOutAt: null },
+        data: { checkedOutAt: expect.any(Date) },
+      })
+
+      mockPrisma.taskVisit.updateMany.mockClear()
+
+      await updateTaskStatus({
+        taskId: 1,
+        status: TaskStatus.IN_PROGRESS,
+        user: toUser(adminUser),
+      })
+
+      expect(mockPrisma.taskVisit.updateMany).not.toHaveBeenCalled()
+    })
   })
 
   describe('Expected Revenue Operations', () => {
@@ -1238,6 +1463,89 @@ describe('Task Service Unit Tests', () => {
         expect(mockPrisma.$transaction).toHaveBeenCalled()
       })
     })
+
+    describe('checklist', () => {
+      const adminUser = createMockAdminUser()
+      const existingTask = {
+        id: 1,
+        title: 'Test Task',
+        status: TaskStatus.READY,
+        workType: TaskWorkType.INSTALLATION,
+        deletedAt: null,
+      }
+
+      beforeEach(() => {
+        mockPrisma.task.findFirst.mockResolvedValue(existingTask)
+        mockPrisma.task.update.mockResolvedValue(existingTask)
+        mockPrisma.activity.create.mockResolvedValue({})
+        mockPrisma.checklistTemplateItem.findMany.mockResolvedValue([
+          {
+            id: 'tpl_1',
+            label: 'Kiểm tra gas',
+            required: true,
+            sortOrder: 0,
+          },
+        ])
+      })
+
+      it('should replace the unchecked checklist of the previous work type', async () => {
+        mockPrisma.taskChecklistItem.count.mockResolvedValue(0)
+
+        await updateTask({
+          taskId: 1,
+          data: { workType: TaskWorkType.REPAIR },
+          user: toUser(adminUser),
+        })
+
+        expect(mockPrisma.taskChecklistItem.deleteMany).toHaveBeenCalledWith({
+          where: { taskId: 1 },
+        })
+        expect(mockPrisma.checklistTemplateItem.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: { workType: TaskWorkType.REPAIR, deletedAt: null },
+          }),
+        )
+        expect(mockPrisma.taskChecklistItem.createMany).toHaveBeenCalledWith({
+          data: [
+            expect.objectContaining({
+              taskId: 1,
+              templateItemId: 'tpl_1',
+              label: 'Kiểm tra gas',
+            }),
+          ],
+        })
+      })
+
+      it('should copy the template when the work type is set on a task without items', async () => {
+        mockPrisma.taskChecklistItem.count.mockResolvedValue(0)
+
+        await updateTask({
+          taskId: 1,
+          data: { workType: TaskWorkType.INSTALLATION },
+          user: toUser(adminUser),
+        })
+
+        expect(mockPrisma.taskChecklistItem.deleteMany).not.toHaveBeenCalled()
+        expect(mockPrisma.taskChecklistItem.createMany).toHaveBeenCalled()
+      })
+
+      it('should keep the checklist once an item is checked', async () => {
+        // Checked items
+        mockPrisma.taskChecklistItem.count.mockResolvedValue(1)
+
+        await updateTask({
+          taskId: 1,
+          data: { workType: TaskWorkType.REPAIR },
+          user: toUser(adminUser),
+        })
+
+        expect(mockPrisma.taskChecklistItem.count).toHaveBeenCalledWith({
+          where: { taskId: 1, checkedAt: { not: null } },
+        })
+        expect(mockPrisma.taskChecklistItem.deleteMany).not.toHaveBeenCalled()
+        expect(mockPrisma.taskChecklistItem.createMany).not.toHaveBeenCalled()
+      })
+    })
   })
 
   describe('Delete Task (Soft Delete - PSN-3)', () => {
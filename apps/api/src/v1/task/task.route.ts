@@ -1,20 +1,36 @@
-import { TaskStatus } from '@nv-internal/prisma-client'
 import {
-  z,
+  findTaskStatusTransition,
+  getMissingTransitionFields,
+  type TaskStatusTransition,
   zCreateTask,
   zNumericIdParam,
+  zSuggestedAssigneesInput,
+  zTaskCalendarQuery,
+  zTaskChecklistItemParam,
   zTaskExpectedRevenue,
   zTaskListQuery,
+  zTaskMapQuery,
+  zTaskScheduleConflictCheck,
   zTaskSearchFilterQuery,
   zUpdateTask,
+  zUpdateTaskAssignees,
+  zUpdateTaskChecklistItem,
+  zUpdateTaskStatus,
+  zWorkerRouteQuery,
 } from '@nv-internal/validation'
 import { Hono } from 'hono'
 import { HTTPException } from 'hono/http-exception'
 import { getLogger } from '../../lib/log'
+import { getTaskTimeWindow } from '../../lib/scheduling'
 import { LocalDiskProvider } from '../../lib/storage/local-disk.provider'
 import { VercelBlobProvider } from '../../lib/storage/vercel-blob.provider'
 import { zValidator } from '../../lib/z-validator'
 import { uploadTaskAttachments } from '../attachment/attachment.service'
+import { updateTaskChecklistItem } from '../checklist/checklist.service'
+import {
+  getWorkerDailyRoute,
+  suggestAssignees,
+} from '../dispatch/dispatch.service'
 import { getAuthUserStrict } from '../middlewares/auth'
 import {
   getTaskPayments,
@@ -29,16 +45,32 @@ import {
   canUserUpdateTaskAssignees,
   canUserUpdateTaskStatus,
   canUserViewTask,
+  checkLeaveConflicts,
   createTask,
   deleteTask,
+  findScheduleConflicts,
+  getAssignmentConflicts,
   getTaskById,
+  getTaskCalendar,
   getTaskList,
+  getTaskMap,
+  getTaskStatusActors,
   searchAndFilterTasks,
   updateTask,
   updateTaskAssignees,
   updateTaskStatus,
 } from './task.service'
 
+// Why PUT /:id/status refuses the transitions done on a dedicated screen
+const VIA_TRANSITION_MESSAGES: Record<
+  NonNullable<TaskStatusTransition['via']>,
+  string
+> = {
+  'check-in': 'Vui lòng check-in để bắt đầu công việc.',
+  'check-out': 'Vui lòng check-out để hoàn thành công việc.',
+  hold: 'Vui lòng chọn lý do tạm dừng công việc.',
+}
+
 const router = new Hono()
   // Get infinite task list (legacy endpoint - kept for backward compatibility)
   .get('/', zValidator('query', zTaskListQuery), async (c) => {
@@ -91,11 +123,14 @@ const router = new Hono()
    * - status: Filter by status (can be array for multiple statuses)
    * - assigneeIds: Filter by assignee user IDs (array)
    * - assignedOnly: 'true' to filter to only user's assigned tasks (required for workers)
+   * - workType: Filter by work type (can be array for multiple work types)
    * - customerId: Filter by customer ID
+   * - teamId: Filter by the team the tasks are assigned to
    * - scheduledFrom/scheduledTo: Filter by scheduled date range
    * - createdFrom/createdTo: Filter by creation date range
    * - completedFrom/completedTo: Filter by completion date range
-   * - sortBy: Sort field (createdAt, updatedAt, scheduledAt, completedAt, id)
+   * - sortBy: Sort field (createdAt, updatedAt, scheduledAt, completedAt, id,
+   *   priority, slaDueAt, overdue)
    * - sortOrder: Sort direction (asc, desc)
    * - cursor: Pagination cursor
    * - take: Number of results (1-100, default 20)
@@ -110,7 +145,7 @@ const router = new Hono()
    * 2. Worker module - viewing only their personal assigned tasks (just like regular workers)
    *
    * Response:
-   * - tasks: Array of task records with relations
+   * - tasks: Array of task records with relations and the computed `overdue` flag
    * - nextCursor: Cursor for next page (null if no more pages)
    * - hasNextPage: Boolean indicating if more results exist
    */
@@ -145,6 +180,58 @@ const router = new Hono()
       })
     }
   })
+  // Scheduled tasks per day for the calendar screens
+  .get('/calendar', zValidator('query', zTaskCalendarQuery), async (c) => {
+    const logger = getLogger('task.route:calendar')
+    const query = c.req.valid('query')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const calendar = await getTaskCalendar(user, query)
+      return c.json(calendar, 200)
+    } catch (error) {
+      logger.error({ error, userId: user.id, query }, 'Task calendar failed')
+      throw new HTTPException(500, {
+        message: 'Không thể tải lịch công việc. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  // Located tasks of a map area (admin task map)
+  .get('/map', zValidator('query', zTaskMapQuery), async (c) => {
+    const logger = getLogger('task.route:map')
+    const query = c.req.valid('query')
+    const user = getAuthUserStrict(c)
+
+    try {
+      const map = await getTaskMap(user, query)
+      return c.json(map, 200)
+    } catch (error) {
+      logger.error({ error, userId: user.id, query }, 'Task map failed')
+      throw new HTTPException(500, {
+        message: 'Không thể tải bản đồ công việc. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
+  // Visiting order of the user's own tasks for a day
+  .get('/route', zValidator('query', zWorkerRouteQuery), async (c) => {
+    const logger = getLogger('task.route:route')
+    const { date, lat, lng } = c.req.valid('query')
+    const user = getAuthUserStrict(c)
+    const origin = lat !== undefined && lng !== undefined ? { lat, lng } : null
+
+    try {
+      const route = await getWorkerDailyRoute({ user, date, origin })
+      return c.json(route, 200)
+    } catch (error) {
+      logger.error({ error, userId: user.id, date }, 'Daily route failed')
+      throw new HTTPException(500, {
+        message: 'Không thể tải lộ trình. Vui lòng thử lại.',
+        cause: error,
+      })
+    }
+  })
   // Create new task
   .post('/', zValidator('json', zCreateTask), async (c) => {
     const logger = getLogger('task.route:create')
@@ -166,6 +253,18 @@ const router = new Hono()
       c.status(201)
       return c.json(task)
     } catch (error) {
+      // Schedule conflicts in strict mode, listed for the admin to resolve
+      // (thrown so the 409 body stays out of the client's response type)
+      const conflicts = getAssignmentConflicts(error)
+      if (conflicts) {
+        throw new HTTPException(409, {
+          message: conflicts.message,
+          res: c.json(conflicts),
+        })
+      }
+      if (error instanceof HTTPException) {
+        throw error
+      }
       const logger = getLogger('task.route:create')
       logger.error({ error }, 'Failed to create task')
       throw new HTTPException(500, {
@@ -174,6 +273,85 @@ const router = new Hono()
       })
     }
   })
+  // Check a planned schedule for conflicts (overlapping tasks, approved
+  // leave) before saving
+  .post(
+    '/schedule-conflicts',
+    zValidator('json', zTaskScheduleConflictCheck),
+    async (c) => {
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      if (!(await canUserUpdateTaskAssignees({ user }))) {
+        throw new HTTPException(403, {
+          message: 'Bạn không có quyền kiểm tra lịch làm việc.',
+          cause: 'Permission denied',
+        })
+      }
+
+      const window = getTaskTimeWindow({
+        scheduledAt: new Date(data.scheduledAt),
+        scheduledEndAt: data.scheduledEndAt
+          ? new Date(data.scheduledEndAt)
+          : null,
+        estimatedDurationMinutes: data.estimatedDurationMinutes,
+      })
+      const [conflicts, leaveConflicts] = window
+        ? await Promise.all([
+            findScheduleConflicts({
+              assigneeIds: data.assigneeIds,
+              window,
+              excludeTaskId: data.excludeTaskId,
+            }),
+            checkLeaveConflicts({ assigneeIds: data.assigneeIds, window }),
+          ])
+        : [[], []]
+
+      return c.json({ conflicts, leaveConflicts })
+    },
+  )
+  // Rank workers for a task that is not saved yet (create form)
+  .post(
+    '/suggested-assignees',
+    zValidator('json', zSuggestedAssigneesInput),
+    async (c) => {
+      const logger = getLogger('task.route:suggestAssigneesForDraft')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+      const clerkClient = c.get('clerk')
+
+      if (!(await canUserUpdateTaskAssignees({ user }))) {
+        throw new HTTPException(403, {
+          message: 'Bạn không có quyền xem gợi ý nhân viên.',
+          cause: 'Permission denied',
+        })
+      }
+
+      try {
+        const result = await suggestAssignees({
+          clerkClient,
+          location:
+            data.lat !== undefined && data.lng !== undefined
+              ? { lat: data.lat, lng: data.lng }
+              : null,
+          window: getTaskTimeWindow({
+            scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+            scheduledEndAt: data.scheduledEndAt
+              ? new Date(data.scheduledEndAt)
+              : null,
+            estimatedDurationMinutes: data.estimatedDurationMinutes,
+          }),
+        })
+        return c.json(result)
+      } catch (error) {
+        logger.error({ error }, 'Failed to suggest assignees')
+        throw new HTTPException(500, {
+          message: 'Không thể gợi ý nhân viên. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
   // Get task by ID
   .get('/:id', zValidator('param', zNumericIdParam), async (c) => {
     const { id: taskId } = c.req.valid('param')
@@ -196,6 +374,59 @@ const router = new Hono()
 
     return c.json(task)
   })
+  /**
+   * GET /v1/task/:id/suggested-assignees
+   *
+   * Workers ranked by distance to the task, open task count and scheduling
+   * conflicts (admin only)
+   *
+   * Response:
+   * - suggestions: [{ userId, rank, score, distanceMeters, distanceSource,
+   *   openTaskCount, conflicts, reasons, firstName, lastName, imageUrl }]
+   */
+  .get(
+    '/:id/suggested-assignees',
+    zValidator('param', zNumericIdParam),
+    async (c) => {
+      const logger = getLogger('task.route:suggestAssignees')
+      const { id: taskId } = c.req.valid('param')
+      const user = getAuthUserStrict(c)
+      const clerkClient = c.get('clerk')
+
+      if (!(await canUserUpdateTaskAssignees({ user }))) {
+        throw new HTTPException(403, {
+          message: 'Bạn không có quyền xem gợi ý nhân viên.',
+          cause: 'Permission denied',
+        })
+      }
+
+      const task = await getTaskById({ id: taskId })
+      if (!task) {
+        throw new HTTPException(404, {
+          message: 'Không tìm thấy công việc.',
+          cause: 'Task not found',
+        })
+      }
+
+      try {
+        const result = await suggestAssignees({
+          clerkClient,
+          location: task.geoLocation
+            ? { lat: task.geoLocation.lat, lng: task.geoLocation.lng }
+            : null,
+          window: getTaskTimeWindow(task),
+          excludeTaskId: task.id,
+        })
+        return c.json(result)
+      } catch (error) {
+        logger.error({ error, taskId }, 'Failed to suggest assignees')
+        throw new HTTPException(500, {
+          message: 'Không thể gợi ý nhân viên. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
   /**
    * GET /v1/task/:id/payments
    *
@@ -308,6 +539,56 @@ const router = new Hono()
       }
     },
   )
+  /**
+   * PUT /v1/task/:id/checklist/:itemId
+   *
+   * Check or uncheck a checklist item on a task
+   *
+   * Authorization: Assigned users only, while the task is IN_PROGRESS
+   *
+   * Request body:
+   * - checked: boolean
+   *
+   * Response:
+   * - item: Updated checklist item (checkedAt/checkedBy set when checked)
+   *
+   * Note: Each change is logged to Activity (TASK_CHECKLIST_ITEM_CHECKED/UNCHECKED)
+   */
+  .put(
+    '/:id/checklist/:itemId',
+    zValidator('param', zTaskChecklistItemParam),
+    zValidator('json', zUpdateTaskChecklistItem),
+    async (c) => {
+      const logger = getLogger('task.route:updateChecklistItem')
+      const { id: taskId, itemId } = c.req.valid('param')
+      const { checked } = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+
+      try {
+        const item = await updateTaskChecklistItem({
+          taskId,
+          itemId,
+          checked,
+          user,
+        })
+
+        return c.json({ item }, 200)
+      } catch (error) {
+        if (error instanceof HTTPException) {
+          throw error
+        }
+
+        logger.error(
+          { error, taskId, itemId, userId: user.id },
+          'Failed to update checklist item',
+        )
+        throw new HTTPException(500, {
+          message: 'Không thể cập nhật danh sách kiểm tra. Vui lòng thử lại.',
+          cause: error,
+        })
+      }
+    },
+  )
   /**
    * POST /v1/task/:id/comment
    *
@@ -396,15 +677,17 @@ const router = new Hono()
   .put(
     '/:id/assignees',
     zValidator('param', zNumericIdParam),
-    zValidator(
-      'json',
-      z.object({
-        assigneeIds: z.array(z.string()),
-      }),
-    ),
+    zValidator('json', zUpdateTaskAssignees),
     async (c) => {
       const { id: taskId } = c.req.valid('param')
-      const { assigneeIds } = c.req.valid('json')
+      const {
+        assigneeIds,
+        teamId,
+        rejectOnConflict,
+        scheduledAt,
+        scheduledEndAt,
+        estimatedDurationMinutes,
+      } = c.req.valid('json')
       const user = getAuthUserStrict(c)
       const logger = getLogger('task.route:updateAssignees')
 
@@ -422,10 +705,25 @@ const router = new Hono()
         const updatedTask = await updateTaskAssignees({
           taskId,
           assigneeIds,
+          teamId,
+          rejectOnConflict,
+          schedule: { scheduledAt, scheduledEndAt, estimatedDurationMinutes },
           user,
         })
         return c.json(updatedTask)
       } catch (error) {
+        // Schedule conflicts in strict mode, listed for the admin to resolve
+        // (thrown so the 409 body stays out of the client's response type)
+        const conflicts = getAssignmentConflicts(error)
+        if (conflicts) {
+          throw new HTTPException(409, {
+            message: conflicts.message,
+            res: c.json(conflicts),
+          })
+        }
+        if (error instanceof HTTPException) {
+          throw error
+        }
         logger.error({ error }, 'Failed to update task assignees')
         throw new HTTPException(500, {
           message: 'Không thể cập nhật người được giao công việc.',
@@ -490,19 +788,27 @@ const router = new Hono()
       throw new HTTPException(status, { message, cause: error })
     }
   })
-  // Update task status
+  /**
+   * PUT /v1/task/:id/status
+   *
+   * Update task status following the state machine declared in
+   * TASK_STATUS_TRANSITIONS (@nv-internal/validation)
+   *
+   * Body:
+   * - status: Target status
+   * - reason?: Required by some transitions (e.g. CANCELLED)
+   *
+   * Transitions declared with `via` (starting, completing or pausing the job
+   * as an assignee) are rejected with 400, use the check-in, check-out and
+   * hold endpoints instead.
+   */
   .put(
     '/:id/status',
     zValidator('param', zNumericIdParam),
-    zValidator(
-      'json',
-      z.object({
-        status: z.enum(TaskStatus),
-      }),
-    ),
+    zValidator('json', zUpdateTaskStatus),
     async (c) => {
       const { id: taskId } = c.req.valid('param')
-      const { status } = c.req.valid('json') as { status: TaskStatus }
+      const { status, reason } = c.req.valid('json')
       const user = getAuthUserStrict(c)
       const logger = getLogger('task.route:updateStatus')
 
@@ -543,9 +849,40 @@ const router = new Hono()
         })
       }
 
+      // Required fields (e.g. cancellation reason) are declared on the transition
+      const transition = findTaskStatusTransition({
+        from: task.status,
+        to: status,
+        actors: getTaskStatusActors({ user, task }),
+        holdReason: task.holdReason,
+      })
+      // Check-in, check-out and hold go through their own endpoints
+      // (POST /:id/check-in, /:id/check-out, /:id/hold) so that the location,
+      // photos, checklist and hold reason are captured
+      if (transition?.via) {
+        throw new HTTPException(400, {
+          message: VIA_TRANSITION_MESSAGES[transition.via],
+          cause: `Use POST /v1/task/:id/${transition.via}`,
+        })
+      }
+      if (
+        transition &&
+        getMissingTransitionFields(transition, { reason }).includes('reason')
+      ) {
+        throw new HTTPException(400, {
+          message: 'Vui lòng nhập lý do.',
+          cause: 'Missing transition reason',
+        })
+      }
+
       // Update the task status
       try {
-        const updatedTask = await updateTaskStatus({ taskId, status, user })
+        const updatedTask = await updateTaskStatus({
+          taskId,
+          status,
+          reason,
+          user,
+        })
         return c.json(updatedTask)
       } catch (error) {
         logger.error({ error }, 'Failed to update task status')
@@ -563,7 +900,7 @@ const router = new Hono()
    *
    * Authorization:
    * - Admin only
-   * - Cannot update COMPLETED tasks
+   * - Cannot update COMPLETED or CANCELLED tasks
    *
    * Body: Partial task data (at least one field required)
    * - title?: string (2-100 chars)
@@ -596,6 +933,11 @@ const router = new Hono()
           message: 'Không thể cập nhật công việc đã hoàn thành',
         })
       }
+      if (task.status === 'CANCELLED') {
+        throw new HTTPException(400, {
+          message: 'Không thể cập nhật công việc đã hủy',
+        })
+      }
       throw new HTTPException(403, {
         message: 'Bạn không có quyền cập nhật công việc này',
       })
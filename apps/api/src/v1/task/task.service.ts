@@ -1,16 +1,46 @@
 import type { User } from '@clerk/backend'
-import type { Prisma, Task } from '@nv-internal/prisma-client'
-import { TaskStatus } from '@nv-internal/prisma-client'
-import type {
-  CreateTaskValues,
-  TaskSearchFilterQuery,
+import type { Task } from '@nv-internal/prisma-client'
+import {
+  type LeaveType,
+  Prisma,
+  type TaskPriority,
+  TaskStatus,
+  type TaskWorkType,
+} from '@nv-internal/prisma-client'
+import {
+  type CreateTaskValues,
+  findTaskStatusTransition,
+  MAX_TASK_DURATION_MINUTES,
+  type TaskCalendarQuery,
+  type TaskMapQuery,
+  type TaskSearchFilterQuery,
+  type TaskStatusActor,
+  TERMINAL_TASK_STATUSES,
 } from '@nv-internal/validation'
+import { addDays } from 'date-fns'
 import { HTTPException } from 'hono/http-exception'
+import { getBoundingBox } from '../../lib/geo'
 import { getLogger } from '../../lib/log'
+import { clusterMapPoints } from '../../lib/map-clustering'
 import { getPrisma } from '../../lib/prisma'
+import {
+  doTimeWindowsOverlap,
+  getCalendarRange,
+  getTaskTimeWindow,
+  SCHEDULE_TIMEZONE,
+  type TimeWindow,
+  toCalendarDay,
+} from '../../lib/scheduling'
 import { normalizeForSearch } from '../../lib/text-utils'
+import { addWorkingDays, getEndOfDay } from '../../lib/working-days'
 import { createActivity } from '../activity/activity.service'
 import { uploadTaskAttachments } from '../attachment/attachment.service'
+import { copyChecklistTemplateToTask } from '../checklist/checklist.service'
+import { getWorkingCalendar } from '../holiday/holiday.service'
+import { findApprovedLeaves } from '../leave/leave.service'
+import { getAppSettings, getGeofencePolicy } from '../settings/settings.service'
+import { checkSkillIssues } from '../skill/skill.service'
+import { getTeamAssigneeIds } from '../team/team.service'
 import { isUserAdmin } from '../user/user.service'
 
 const DEFAULT_TASK_INCLUDE: Prisma.TaskInclude = {
@@ -34,7 +64,7 @@ const DEFAULT_TASK_INCLUDE: Prisma.TaskInclude = {
  * @param data - Task data with optional customer and geoLocation
  * @returns Normalized searchable text
  */
-function buildSearchableText(data: {
+export function buildSearchableText(data: {
   id?: number
   title?: string
   description?: string | null
@@ -56,6 +86,31 @@ function buildSearchableText(data: {
   return normalizeForSearch(parts.join(' ')).replace(/\s+/g, ' ').trim()
 }
 
+/**
+ * A task is overdue when it has an SLA deadline in the past and is not
+ * completed (or cancelled) yet
+ */
+export function isTaskOverdue(
+  task: Pick<Task, 'status' | 'slaDueAt'>,
+  now: Date = new Date(),
+) {
+  return (
+    !!task.slaDueAt &&
+    !TERMINAL_TASK_STATUSES.includes(task.status) &&
+    task.slaDueAt.getTime() < now.getTime()
+  )
+}
+
+/**
+ * Add the computed `overdue` flag to tasks returned by list endpoints
+ */
+export function withOverdueFlag<T extends Pick<Task, 'status' | 'slaDueAt'>>(
+  tasks: T[],
+  now: Date = new Date(),
+) {
+  return tasks.map((task) => ({ ...task, overdue: isTaskOverdue(task, now) }))
+}
+
 export async function canUserCreateTask({ user }: { user: User }) {
   return isUserAdmin({ user })
 }
@@ -88,6 +143,30 @@ export async function canUserUpdateTaskAssignees({ user }: { user: User }) {
   return isUserAdmin({ user })
 }
 
+/**
+ * Actors of the task status state machine the user acts as for this task
+ */
+export function getTaskStatusActors({
+  user,
+  task,
+}: {
+  user: User
+  task: { id: number; assigneeIds: string[] }
+}): TaskStatusActor[] {
+  const actors: TaskStatusActor[] = []
+  if (isUserAdmin({ user })) {
+    actors.push('admin')
+  }
+  if (isUserAssignedToTask({ user, task })) {
+    actors.push('assignee')
+  }
+  return actors
+}
+
+/**
+ * Check a status change against the state machine declared in
+ * `TASK_STATUS_TRANSITIONS` (@nv-internal/validation)
+ */
 export function canUserUpdateTaskStatus({
   user,
   task,
@@ -97,58 +176,290 @@ export function canUserUpdateTaskStatus({
   task: Task
   targetStatus: TaskStatus
 }): boolean {
-  const isAdmin = isUserAdmin({ user })
-  const isAssigned = isUserAssignedToTask({ user, task })
+  return !!findTaskStatusTransition({
+    from: task.status,
+    to: targetStatus,
+    actors: getTaskStatusActors({ user, task }),
+    holdReason: task.holdReason,
+  })
+}
 
-  // Admin permissions
-  if (isAdmin) {
-    // Admin can: PREPARING → READY, any status → ON_HOLD, ON_HOLD → any status
-    if (task.status === 'PREPARING' && targetStatus === 'READY') {
-      return true
-    }
-    if (targetStatus === 'ON_HOLD') {
-      return true
-    }
-    if (task.status === 'ON_HOLD') {
-      return true
+/** An assignee already has an open task overlapping the planned window */
+export type ScheduleConflict = {
+  userId: string
+  taskId: number
+  title: string
+  start: Date
+  end: Date
+}
+
+const SCHEDULE_CONFLICT_MESSAGE = 'Nhân viên đã có công việc trùng lịch'
+
+/**
+ * Find open tasks of the given assignees overlapping a time window
+ *
+ * Completed, cancelled and deleted tasks never conflict. Candidates are
+ * narrowed in SQL, then compared precisely with getTaskTimeWindow.
+ *
+ * @returns One conflict per (assignee, overlapping task)
+ */
+export async function findScheduleConflicts({
+  assigneeIds,
+  window,
+  excludeTaskId,
+}: {
+  assigneeIds: string[]
+  window: TimeWindow
+  excludeTaskId?: number
+}): Promise<ScheduleConflict[]> {
+  if (assigneeIds.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
+  // Tasks without an explicit end last at most MAX_TASK_DURATION_MINUTES
+  const earliestStart = new Date(
+    window.start.getTime() - MAX_TASK_DURATION_MINUTES * 60 * 1000,
+  )
+
+  const candidates = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      status: { notIn: TERMINAL_TASK_STATUSES },
+      assigneeIds: { hasSome: assigneeIds },
+      scheduledAt: { lt: window.end },
+      ...(excludeTaskId !== undefined && { id: { not: excludeTaskId } }),
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      OR: [
+        { scheduledEndAt: { gt: window.start } },
+        { scheduledEndAt: null, scheduledAt: { gt: earliestStart } },
+      ],
+    },
+    select: {
+      id: true,
+      title: true,
+      assigneeIds: true,
+      scheduledAt: true,
+      scheduledEndAt: true,
+      estimatedDurationMinutes: true,
+    },
+    orderBy: { scheduledAt: 'asc' },
+  })
+
+  const conflicts: ScheduleConflict[] = []
+  for (const candidate of candidates) {
+    const candidateWindow = getTaskTimeWindow(candidate)
+    if (!candidateWindow || !doTimeWindowsOverlap(window, candidateWindow)) {
+      continue
     }
-    // Admin can also do worker transitions if they're assigned
-    if (isAssigned) {
-      if (task.status === 'READY' && targetStatus === 'IN_PROGRESS') {
-        return true
-      }
-      if (task.status === 'IN_PROGRESS' && targetStatus === 'COMPLETED') {
-        return true
+
+    for (const userId of candidate.assigneeIds) {
+      if (assigneeIds.includes(userId)) {
+        conflicts.push({
+          userId,
+          taskId: candidate.id,
+          title: candidate.title,
+          start: candidateWindow.start,
+          end: candidateWindow.end,
+        })
       }
     }
   }
 
-  // Worker permissions (only if assigned)
-  if (isAssigned && !isAdmin) {
-    // Worker can: READY → IN_PROGRESS, IN_PROGRESS → COMPLETED
-    if (task.status === 'READY' && targetStatus === 'IN_PROGRESS') {
-      return true
-    }
-    if (task.status === 'IN_PROGRESS' && targetStatus === 'COMPLETED') {
-      return true
+  return conflicts
+}
+
+/** An assignee is on approved leave during the planned window */
+export type LeaveConflict = {
+  userId: string
+  leaveRequestId: string
+  type: LeaveType
+  startDate: string
+  endDate: string
+}
+
+const LEAVE_CONFLICT_MESSAGE = 'Nhân viên đang nghỉ phép vào ngày này'
+
+/** Body of the 409 of strict mode, what the admin has to resolve */
+export type AssignmentConflicts = {
+  conflicts: ScheduleConflict[]
+  leaveConflicts: LeaveConflict[]
+}
+
+/**
+ * Find overlapping tasks and approved leaves for a task being assigned,
+ * rejecting them in strict mode with a 409 whose cause lists both
+ */
+async function checkScheduleConflicts({
+  assigneeIds,
+  window,
+  excludeTaskId,
+  rejectOnConflict,
+}: {
+  assigneeIds: string[]
+  window: TimeWindow | null
+  excludeTaskId?: number
+  rejectOnConflict?: boolean
+}) {
+  if (!window) {
+    return { scheduleConflicts: [], leaveConflicts: [] }
+  }
+
+  const scheduleConflicts = await findScheduleConflicts({
+    assigneeIds,
+    window,
+    excludeTaskId,
+  })
+  const leaveConflicts = await checkLeaveConflicts({ assigneeIds, window })
+
+  if (
+    rejectOnConflict &&
+    (scheduleConflicts.length > 0 || leaveConflicts.length > 0)
+  ) {
+    throw new HTTPException(409, {
+      message:
+        scheduleConflicts.length > 0
+          ? SCHEDULE_CONFLICT_MESSAGE
+          : LEAVE_CONFLICT_MESSAGE,
+      cause: {
+        conflicts: scheduleConflicts,
+        leaveConflicts,
+      } satisfies AssignmentConflicts,
+    })
+  }
+
+  return { scheduleConflicts, leaveConflicts }
+}
+
+/**
+ * Body of the 409 response of a strict mode rejection: the message with the
+ * conflicts to resolve
+ *
+ * @returns null for any other error
+ */
+export function getAssignmentConflicts(
+  error: unknown,
+): (AssignmentConflicts & { message: string }) | null {
+  if (
+    error instanceof HTTPException &&
+    error.status === 409 &&
+    typeof error.cause === 'object' &&
+    error.cause !== null &&
+    'conflicts' in error.cause &&
+    'leaveConflicts' in error.cause
+  ) {
+    return {
+      message: error.message,
+      ...(error.cause as AssignmentConflicts),
     }
   }
+  return null
+}
+
+/**
+ * Find assignees on approved leave on the days of a time window
+ */
+export async function checkLeaveConflicts({
+  assigneeIds,
+  window,
+}: {
+  assigneeIds: string[]
+  window: TimeWindow | null
+}): Promise<LeaveConflict[]> {
+  if (!window || assigneeIds.length === 0) {
+    return []
+  }
+
+  const leaves = await findApprovedLeaves({
+    userIds: assigneeIds,
+    from: toCalendarDay(window.start),
+    to: toCalendarDay(window.end),
+  })
+  return leaves.map((leave) => ({
+    userId: leave.userId,
+    leaveRequestId: leave.id,
+    type: leave.type,
+    startDate: leave.startDate,
+    endDate: leave.endDate,
+  }))
+}
 
-  return false
+/**
+ * SLA deadline at the end of the Nth working day after today, skipping the
+ * days off of the settings and public holidays
+ *
+ * @example
+ * // Created on Friday 2026-02-13, Tết from Monday 02-16 to Friday 02-20
+ * await getWorkingDaysSlaDueAt({ workingDays: 2, now })
+ * // 2026-02-21T16:59:59.999Z (end of Saturday after Tết)
+ */
+export async function getWorkingDaysSlaDueAt({
+  workingDays,
+  now = new Date(),
+}: {
+  workingDays: number
+  now?: Date
+}) {
+  const today = toCalendarDay(now)
+  // Holidays far enough ahead to skip a whole Tết week after the last day
+  const calendar = await getWorkingCalendar({
+    from: today,
+    to: toCalendarDay(addDays(now, workingDays * 2 + 30)),
+  })
+
+  return getEndOfDay(addWorkingDays(today, workingDays, calendar))
 }
 
 export async function createTask({
   data,
   user,
+  now = new Date(),
 }: {
   data: CreateTaskValues
   user: User
+  now?: Date
 }) {
   const logger = getLogger('task.service:createTask')
 
   logger.trace({ data, user }, 'Creating task')
 
   try {
+    const scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : null
+    const scheduledEndAt = data.scheduledEndAt
+      ? new Date(data.scheduledEndAt)
+      : null
+    const window = getTaskTimeWindow({
+      scheduledAt,
+      scheduledEndAt,
+      estimatedDurationMinutes: data.estimatedDurationMinutes,
+    })
+    // A team is assigned through its members
+    const assigneeIds = data.teamId
+      ? await getTeamAssigneeIds({
+          teamId: data.teamId,
+          assigneeIds: data.assigneeIds,
+        })
+      : (data.assigneeIds ?? [])
+    const { scheduleConflicts, leaveConflicts } = await checkScheduleConflicts({
+      assigneeIds,
+      window,
+      rejectOnConflict: data.rejectOnConflict,
+    })
+    const skillIssues = await checkSkillIssues({
+      assigneeIds,
+      workType: data.workType,
+      requiredSkillIds: data.requiredSkillIds,
+      date: toCalendarDay(window?.start ?? now),
+    })
+    const slaDueAt = data.slaDueAt
+      ? new Date(data.slaDueAt)
+      : data.slaWorkingDays
+        ? await getWorkingDaysSlaDueAt({
+            workingDays: data.slaWorkingDays,
+            now,
+          })
+        : undefined
+
     const prisma = getPrisma()
     const task = await prisma.$transaction(async (tx) => {
       const hasCustomer = data.customerName || data.customerPhone
@@ -185,6 +496,7 @@ export async function createTask({
             name: data.geoLocation.name,
             lat: data.geoLocation.lat,
             lng: data.geoLocation.lng,
+            geofenceRadiusMeters: data.geoLocation.geofenceRadiusMeters,
           },
         })
         geoLocationId = geoLocation.id
@@ -208,6 +520,15 @@ export async function createTask({
         geoLocationId,
         expectedRevenue: data.expectedRevenue,
         expectedCurrency: 'VND' as const, // Default currency
+        workType: data.workType,
+        priority: data.priority,
+        slaDueAt,
+        scheduledAt,
+        scheduledEndAt,
+        estimatedDurationMinutes: data.estimatedDurationMinutes,
+        assigneeIds,
+        teamId: data.teamId,
+        requiredSkillIds: data.requiredSkillIds,
         searchableText: initialSearchableText, // Required field
       }
 
@@ -216,6 +537,13 @@ export async function createTask({
         include: DEFAULT_TASK_INCLUDE,
       })
 
+      if (data.workType) {
+        await copyChecklistTemplateToTask(
+          { taskId: createdTask.id, workType: data.workType },
+          tx,
+        )
+      }
+
       // Now update searchableText to include the generated task ID
       const finalTask = await tx.task.update({
         where: { id: createdTask.id },
@@ -245,9 +573,12 @@ export async function createTask({
       return finalTask
     })
 
-    logger.info({ task }, 'Task created successfully')
+    logger.info(
+      { task, scheduleConflicts, leaveConflicts, skillIssues },
+      'Task created successfully',
+    )
 
-    return task
+    return { ...task, scheduleConflicts, leaveConflicts, skillIssues }
   } catch (error) {
     logger.error({ error }, 'Error creating task')
     throw error
@@ -287,7 +618,7 @@ export async function getTaskList({
     : undefined
 
   return {
-    tasks,
+    tasks: withOverdueFlag(tasks),
     nextCursor,
     hasNextPage,
   }
@@ -319,50 +650,164 @@ export async function searchAndFilterTasks(
   const logger = getLogger('task.service:searchAndFilterTasks')
   const prisma = getPrisma()
 
+  const {
+    nearLat,
+    nearLng,
+    radiusMeters,
+    cursor,
+    take = 20,
+    sortBy = 'createdAt',
+    sortOrder = 'desc',
+  } = filters
+
+  const near =
+    nearLat !== undefined && nearLng !== undefined
+      ? { lat: nearLat, lng: nearLng }
+      : null
+
+  // Closest first: the filters and the page are applied in one SQL query
+  if (near && sortBy === 'distance') {
+    return searchTasksByDistance({
+      conditions: buildTaskFilterSql(resolveTaskFilters(user, filters, logger)),
+      near,
+      radiusMeters,
+      cursor,
+      take,
+    })
+  }
+
+  // Build WHERE clause
+  const whereConditions = buildTaskFilterConditions(user, filters, logger)
+  const where: Prisma.TaskWhereInput =
+    // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+    whereConditions.length > 0 ? { AND: whereConditions } : {}
+  const orderBy = buildTaskSearchOrderBy({ sortBy, sortOrder })
+
+  // Fetch one extra to determine if there's a next page
+  const findBatch: FindTaskBatch = (after, box) =>
+    sortBy === 'overdue'
+      ? findTasksByOverdue({
+          conditions: buildTaskFilterSql(
+            resolveTaskFilters(user, filters, logger),
+          ),
+          box,
+          after,
+          take: take + 1,
+        })
+      : prisma.task.findMany({
+          where: box
+            ? // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+              { AND: [where, { geoLocation: boundingBoxFilter(box) }] }
+            : where,
+          include: DEFAULT_TASK_INCLUDE,
+          orderBy,
+          take: take + 1,
+          ...(after !== undefined ? { cursor: { id: after }, skip: 1 } : {}),
+        })
+
+  if (near && radiusMeters !== undefined) {
+    return searchTasksWithinRadius({
+      findBatch,
+      near,
+      radiusMeters,
+      cursor,
+      take,
+    })
+  }
+
+  // Fetch tasks with pagination
+  const tasks = await findBatch(
+    cursor ? Number.parseInt(cursor, 10) : undefined,
+  )
+
+  // Determine pagination info
+  const hasNextPage = tasks.length > take
+  const tasksToReturn = hasNextPage ? tasks.slice(0, -1) : tasks
+  const nextCursor = hasNextPage
+    ? tasksToReturn[tasksToReturn.length - 1].id.toString()
+    : null
+
+  const distances = near
+    ? await findTaskDistances({
+        near,
+        taskIds: tasksToReturn.map(({ id }) => id),
+      })
+    : null
+
+  logger.debug(
+    {
+      userId: user.id,
+      filters,
+      totalResults: tasksToReturn.length,
+      hasNextPage,
+    },
+    'Search and filter completed',
+  )
+
+  return {
+    tasks: withDistance(withOverdueFlag(tasksToReturn), distances),
+    nextCursor,
+    hasNextPage,
+  }
+}
+
+/** Filters of the task search that only narrow down the tasks */
+type TaskFilterConditionsInput = Partial<
+  Pick<
+    TaskSearchFilterQuery,
+    | 'search'
+    | 'status'
+    | 'assigneeIds'
+    | 'assignedOnly'
+    | 'workType'
+    | 'customerId'
+    | 'teamId'
+    | 'scheduledFrom'
+    | 'scheduledTo'
+    | 'createdFrom'
+    | 'createdTo'
+    | 'completedFrom'
+    | 'completedTo'
+  >
+>
+
+/**
+ * The task search filters that apply, with the access control resolved:
+ * non-admins only get their assigned tasks
+ */
+function resolveTaskFilters(
+  user: User,
+  filters: TaskFilterConditionsInput,
+  logger: ReturnType<typeof getLogger>,
+) {
   const {
     search,
     status,
     assigneeIds,
     assignedOnly,
+    workType,
     customerId,
+    teamId,
     scheduledFrom,
     scheduledTo,
     createdFrom,
     createdTo,
     completedFrom,
     completedTo,
-    cursor,
-    take = 20,
-    sortBy = 'createdAt',
-    sortOrder = 'desc',
   } = filters
 
   const isAdmin = isUserAdmin({ user })
 
-  // Build WHERE clause
-  const whereConditions: Prisma.TaskWhereInput[] = []
-
-  // Filter out soft-deleted tasks
-  whereConditions.push({ deletedAt: null })
-
   // Access control: Non-admins can ONLY see their assigned tasks
   // Admins can see all tasks UNLESS assignedOnly is explicitly set to 'true'
   // This enables admins to use both admin module (all tasks) and worker module (assigned only)
   const shouldFilterByAssignment = !isAdmin || assignedOnly === 'true'
 
-  if (shouldFilterByAssignment) {
-    whereConditions.push({ assigneeIds: { has: user.id } })
-  }
-
-  // Status filter
-  if (status && status.length > 0) {
-    whereConditions.push({ status: { in: status } })
-  }
-
   // Assignee filter (admin only, or user filtering their own tasks)
+  let allowedAssigneeIds: string[] | undefined
   if (assigneeIds && assigneeIds.length > 0) {
     if (isAdmin || assigneeIds.includes(user.id)) {
-      whereConditions.push({ assigneeIds: { hasSome: assigneeIds } })
+      allowedAssigneeIds = assigneeIds
     } else {
       logger.warn(
         { userId: user.id, requestedIds: assigneeIds },
@@ -371,53 +816,96 @@ export async function searchAndFilterTasks(
     }
   }
 
+  const toRange = (from?: string, to?: string) =>
+    from || to
+      ? {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        }
+      : undefined
+
+  return {
+    assignedTo: shouldFilterByAssignment ? user.id : undefined,
+    status: status?.length ? status : undefined,
+    assigneeIds: allowedAssigneeIds,
+    workType: workType?.length ? workType : undefined,
+    customerId,
+    teamId,
+    scheduledAt: toRange(scheduledFrom, scheduledTo),
+    createdAt: toRange(createdFrom, createdTo),
+    completedAt: toRange(completedFrom, completedTo),
+    // Lowercase without accents, whitespace collapsed (like searchableText)
+    search: search
+      ? normalizeForSearch(search.trim().replace(/\s+/g, ' '))
+      : undefined,
+  }
+}
+
+type ResolvedTaskFilters = ReturnType<typeof resolveTaskFilters>
+
+/**
+ * Build the WHERE conditions of the task search filters
+ *
+ * Shared by the task search and the task map. Includes the access control:
+ * non-admins only get their assigned tasks.
+ */
+function buildTaskFilterConditions(
+  user: User,
+  filters: TaskFilterConditionsInput,
+  logger: ReturnType<typeof getLogger>,
+) {
+  const resolved = resolveTaskFilters(user, filters, logger)
+
+  const whereConditions: Prisma.TaskWhereInput[] = []
+
+  // Filter out soft-deleted tasks
+  whereConditions.push({ deletedAt: null })
+
+  if (resolved.assignedTo) {
+    whereConditions.push({ assigneeIds: { has: resolved.assignedTo } })
+  }
+
+  // Status filter
+  if (resolved.status) {
+    whereConditions.push({ status: { in: resolved.status } })
+  }
+
+  // Assignee filter
+  if (resolved.assigneeIds) {
+    whereConditions.push({ assigneeIds: { hasSome: resolved.assigneeIds } })
+  }
+
+  // Work type filter
+  if (resolved.workType) {
+    whereConditions.push({ workType: { in: resolved.workType } })
+  }
+
   // Customer filter
-  if (customerId) {
-    whereConditions.push({ customerId })
+  if (resolved.customerId) {
+    whereConditions.push({ customerId: resolved.customerId })
+  }
+
+  // Team filter
+  if (resolved.teamId) {
+    whereConditions.push({ teamId: resolved.teamId })
   }
 
   // Date range filters
-  if (scheduledFrom || scheduledTo) {
-    const scheduledAtFilter: Prisma.DateTimeNullableFilter = {}
-    if (scheduledFrom) {
-      scheduledAtFilter.gte = new Date(scheduledFrom)
-    }
-    if (scheduledTo) {
-      scheduledAtFilter.lte = new Date(scheduledTo)
-    }
-    whereConditions.push({ scheduledAt: scheduledAtFilter })
+  if (resolved.scheduledAt) {
+    whereConditions.push({ scheduledAt: resolved.scheduledAt })
   }
 
-  if (createdFrom || createdTo) {
-    const createdAtFilter: Prisma.DateTimeFilter = {}
-    if (createdFrom) {
-      createdAtFilter.gte = new Date(createdFrom)
-    }
-    if (createdTo) {
-      createdAtFilter.lte = new Date(createdTo)
-    }
-    whereConditions.push({ createdAt: createdAtFilter })
+  if (resolved.createdAt) {
+    whereConditions.push({ createdAt: resolved.createdAt })
   }
 
-  if (completedFrom || completedTo) {
-    const completedAtFilter: Prisma.DateTimeNullableFilter = {}
-    if (completedFrom) {
-      completedAtFilter.gte = new Date(completedFrom)
-    }
-    if (completedTo) {
-      completedAtFilter.lte = new Date(completedTo)
-    }
-    whereConditions.push({ completedAt: completedAtFilter })
+  if (resolved.completedAt) {
+    whereConditions.push({ completedAt: resolved.completedAt })
   }
 
   // Search implementation using searchableText field
   // This provides Vietnamese accent-insensitive search across all relevant fields
-  if (search && search.length > 0) {
-    // Normalize search query: lowercase, remove accents, collapse whitespace
-    const normalizedSearch = normalizeForSearch(
-      search.trim().replace(/\s+/g, ' '),
-    )
-
+  if (resolved.search) {
     // Defensive: Check for NOT NULL to handle existing records with NULL values
     // This is temporary until migration populates all records
     whereConditions.push({
@@ -426,7 +914,7 @@ export async function searchAndFilterTasks(
         { searchableText: { not: null } },
         {
           searchableText: {
-            contains: normalizedSearch,
+            contains: resolved.search,
             mode: 'insensitive',
           },
         },
@@ -434,40 +922,556 @@ export async function searchAndFilterTasks(
     })
   }
 
-  const where: Prisma.TaskWhereInput =
-    // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
-    whereConditions.length > 0 ? { AND: whereConditions } : {}
+  return whereConditions
+}
 
-  // Fetch tasks with pagination
+/**
+ * Same filters as buildTaskFilterConditions, as SQL conditions on the
+ * "Task" table aliased `t` (for the raw queries of the distance sort)
+ */
+function buildTaskFilterSql(resolved: ResolvedTaskFilters) {
+  const conditions = [Prisma.sql`t."deletedAt" IS NULL`]
+
+  if (resolved.assignedTo) {
+    conditions.push(Prisma.sql`${resolved.assignedTo} = ANY(t."assigneeIds")`)
+  }
+  if (resolved.status) {
+    conditions.push(
+      Prisma.sql`t.status::text = ANY(${resolved.status}::text[])`,
+    )
+  }
+  if (resolved.assigneeIds) {
+    conditions.push(
+      Prisma.sql`t."assigneeIds" && ${resolved.assigneeIds}::text[]`,
+    )
+  }
+  if (resolved.workType) {
+    conditions.push(
+      Prisma.sql`t."workType"::text = ANY(${resolved.workType}::text[])`,
+    )
+  }
+  if (resolved.customerId) {
+    conditions.push(Prisma.sql`t."customerId" = ${resolved.customerId}`)
+  }
+  if (resolved.teamId) {
+    conditions.push(Prisma.sql`t."teamId" = ${resolved.teamId}`)
+  }
+
+  const ranges = [
+    [Prisma.raw('t."scheduledAt"'), resolved.scheduledAt],
+    [Prisma.raw('t."createdAt"'), resolved.createdAt],
+    [Prisma.raw('t."completedAt"'), resolved.completedAt],
+  ] as const
+  for (const [column, range] of ranges) {
+    if (range?.gte) {
+      conditions.push(Prisma.sql`${column} >= ${range.gte}`)
+    }
+    if (range?.lte) {
+      conditions.push(Prisma.sql`${column} <= ${range.lte}`)
+    }
+  }
+
+  if (resolved.search) {
+    // Escape the LIKE wildcards, the search is matched literally
+    const pattern = `%${resolved.search.replace(/[\\%_]/g, '\\$&')}%`
+    conditions.push(Prisma.sql`t."searchableText" ILIKE ${pattern}`)
+  }
+
+  return conditions
+}
+
+type TaskDistance = {
+  id: number
+  /** Meters from the search point */
+  distance: number
+}
+
+/**
+ * Distance from a point to the location of tasks, computed in SQL
+ *
+ * Same haversine formula as calculateDistance. With a radius, a bounding box
+ * on GeoLocation narrows the rows first so the [lat, lng] index is used.
+ * Tasks without a location are left out.
+ *
+ * @param conditions - SQL conditions on the task (`t`), see buildTaskFilterSql
+ * @param taskIds - Only these tasks (all tasks otherwise)
+ * @param after - Keyset cursor: rows after this (distance, id)
+ * @param take - Page size
+ * @returns Rows ordered by distance, then id
+ */
+async function findTaskDistances({
+  near,
+  radiusMeters,
+  conditions = [Prisma.sql`t."deletedAt" IS NULL`],
+  taskIds,
+  after,
+  take,
+}: {
+  near: { lat: number; lng: number }
+  radiusMeters?: number
+  conditions?: Prisma.Sql[]
+  taskIds?: number[]
+  after?: TaskDistance | null
+  take?: number
+}): Promise<TaskDistance[]> {
+  if (taskIds?.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
+  const distance = Prisma.sql`6371000 * 2 * asin(least(1, sqrt(
+    power(sin(radians(g.lat - ${near.lat}) / 2), 2) +
+    cos(radians(${near.lat})) * cos(radians(g.lat)) *
+    power(sin(radians(g.lng - ${near.lng}) / 2), 2)
+  )))`
+
+  const taskConditions = [...conditions]
+  if (taskIds) {
+    taskConditions.push(Prisma.sql`t.id = ANY(${taskIds})`)
+  }
+  if (radiusMeters !== undefined) {
+    const box = getBoundingBox(near, radiusMeters)
+    taskConditions.push(
+      Prisma.sql`g.lat BETWEEN ${box.minLat} AND ${box.maxLat}`,
+      Prisma.sql`g.lng BETWEEN ${box.minLng} AND ${box.maxLng}`,
+    )
+  }
+
+  const distanceConditions = [Prisma.sql`TRUE`]
+  if (radiusMeters !== undefined) {
+    distanceConditions.push(Prisma.sql`d.distance <= ${radiusMeters}`)
+  }
+  if (after) {
+    distanceConditions.push(
+      Prisma.sql`(d.distance, d.id) > (${after.distance}, ${after.id})`,
+    )
+  }
+
+  return prisma.$queryRaw<TaskDistance[]>`
+    SELECT d.id, d.distance
+    FROM (
+      SELECT t.id, ${distance} AS distance
+      FROM "Task" t
+      JOIN "GeoLocation" g ON g.id = t."geoLocationId"
+      WHERE ${Prisma.join(taskConditions, ' AND ')}
+    ) d
+    WHERE ${Prisma.join(distanceConditions, ' AND ')}
+    ORDER BY d.distance ASC, d.id ASC
+    ${take !== undefined ? Prisma.sql`LIMIT ${take}` : Prisma.empty}
+  `
+}
+
+type BoundingBox = ReturnType<typeof getBoundingBox>
+
+/** Tasks of the search with the default include, in the order of the ids */
+async function findTasksInOrder(ids: number[]) {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const prisma = getPrisma()
   const tasks = await prisma.task.findMany({
-    where,
+    where: { id: { in: ids } },
     include: DEFAULT_TASK_INCLUDE,
-    orderBy: { [sortBy]: sortOrder },
+  })
+  return ids.flatMap((id) => tasks.filter((task) => task.id === id))
+}
+
+type TaskSearchRow = Awaited<ReturnType<typeof findTasksInOrder>>[number]
+
+/**
+ * One page of the search (plus one row) after the task with this id, only
+ * tasks located in the bounding box when one is given
+ */
+type FindTaskBatch = (
+  after?: number,
+  box?: BoundingBox,
+) => Promise<TaskSearchRow[]>
+
+function boundingBoxFilter(box: BoundingBox): Prisma.GeoLocationWhereInput {
+  return {
+    lat: { gte: box.minLat, lte: box.maxLat },
+    lng: { gte: box.minLng, lte: box.maxLng },
+  }
+}
+
+function withDistance<T extends { id: number }>(
+  tasks: T[],
+  distances: TaskDistance[] | null,
+) {
+  const distanceById = new Map(
+    distances?.map(({ id, distance }) => [id, distance]),
+  )
+  return tasks.map((task) => ({
+    ...task,
+    distanceMeters: distanceById.get(task.id) ?? null,
+  }))
+}
+
+/**
+ * Parse a distance sort cursor (`<distance>:<id>`)
+ *
+ * @returns The last row of the previous page, or null to start over
+ */
+function parseDistanceCursor(cursor?: string): TaskDistance | null {
+  const [distance, id] = (cursor ?? '').split(':').map(Number)
+  if (!Number.isFinite(distance) || !Number.isInteger(id)) {
+    return null
+  }
+  return { distance, id }
+}
+
+/**
+ * Closest tasks first, keyset-paginated on (distance, id)
+ *
+ * The filters, the radius and the page are applied in the same SQL query, so
+ * each page only reads the rows it returns.
+ */
+async function searchTasksByDistance({
+  conditions,
+  near,
+  radiusMeters,
+  cursor,
+  take,
+}: {
+  conditions: Prisma.Sql[]
+  near: { lat: number; lng: number }
+  radiusMeters?: number
+  cursor?: string
+  take: number
+}) {
+  const rows = await findTaskDistances({
+    near,
+    radiusMeters,
+    conditions,
+    after: parseDistanceCursor(cursor),
     take: take + 1, // Fetch one extra to determine if there's a next page
-    ...(cursor ? { cursor: { id: Number.parseInt(cursor, 10) }, skip: 1 } : {}),
   })
 
-  // Determine pagination info
+  const hasNextPage = rows.length > take
+  const pageRows = hasNextPage ? rows.slice(0, -1) : rows
+  const tasksInOrder = await findTasksInOrder(pageRows.map(({ id }) => id))
+  const lastRow = pageRows[pageRows.length - 1]
+
+  return {
+    tasks: withDistance(withOverdueFlag(tasksInOrder), pageRows),
+    nextCursor:
+      hasNextPage && lastRow ? `${lastRow.distance}:${lastRow.id}` : null,
+    hasNextPage,
+  }
+}
+
+/**
+ * Tasks within a radius in the order of the other sorts, cursor-paginated
+ * on the task id like the rest of the search
+ *
+ * The bounding box of the circle is filtered by Prisma (on the [lat, lng]
+ * index of GeoLocation), the exact distance is then checked on each batch of
+ * rows until the page is full. The corners of the box are the only rows read
+ * and not returned.
+ */
+async function searchTasksWithinRadius({
+  findBatch,
+  near,
+  radiusMeters,
+  cursor,
+  take,
+}: {
+  findBatch: FindTaskBatch
+  near: { lat: number; lng: number }
+  radiusMeters: number
+  cursor?: string
+  take: number
+}) {
+  const box = getBoundingBox(near, radiusMeters)
+
+  const tasks: TaskSearchRow[] = []
+  const distances: TaskDistance[] = []
+  let batchCursor = cursor ? Number.parseInt(cursor, 10) : undefined
+  let hasMoreRows = true
+
+  // One extra task to determine if there's a next page
+  while (hasMoreRows && tasks.length <= take) {
+    const batch = await findBatch(batchCursor, box)
+    if (batch.length === 0) {
+      break
+    }
+    hasMoreRows = batch.length > take
+    batchCursor = batch[batch.length - 1].id
+
+    const inRadius = await findTaskDistances({
+      near,
+      radiusMeters,
+      taskIds: batch.map(({ id }) => id),
+    })
+    const inRadiusIds = new Set(inRadius.map(({ id }) => id))
+    tasks.push(...batch.filter(({ id }) => inRadiusIds.has(id)))
+    distances.push(...inRadius)
+  }
+
   const hasNextPage = tasks.length > take
-  const tasksToReturn = hasNextPage ? tasks.slice(0, -1) : tasks
-  const nextCursor = hasNextPage
-    ? tasksToReturn[tasksToReturn.length - 1].id.toString()
-    : null
+  const tasksToReturn = tasks.slice(0, take)
+
+  return {
+    tasks: withDistance(withOverdueFlag(tasksToReturn), distances),
+    nextCursor: hasNextPage
+      ? tasksToReturn[tasksToReturn.length - 1].id.toString()
+      : null,
+    hasNextPage,
+  }
+}
+
+/**
+ * Open tasks by deadline (most overdue first), then completed and cancelled
+ * tasks, cursor-paginated on the task id like the other sorts
+ *
+ * Finished tasks are told apart by their status in SQL: completedAt and
+ * cancelledAt are not reliable, they are kept when a task is reopened.
+ * Tasks without a deadline come last in each group, the id is the
+ * tie-breaker.
+ *
+ * @param conditions - SQL conditions on the task (`t`), see buildTaskFilterSql
+ * @param box - Only tasks located in this bounding box
+ * @param after - Cursor: tasks after this one
+ */
+async function findTasksByOverdue({
+  conditions,
+  box,
+  after,
+  take,
+}: {
+  conditions: Prisma.Sql[]
+  box?: BoundingBox
+  after?: number
+  take: number
+}) {
+  const prisma = getPrisma()
+  const isFinished = Prisma.sql`t.status IN ('COMPLETED', 'CANCELLED')`
+  const deadline = Prisma.sql`COALESCE(t."slaDueAt", 'infinity')`
+
+  const taskConditions = [...conditions]
+  if (box) {
+    taskConditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "GeoLocation" g
+      WHERE g.id = t."geoLocationId"
+        AND g.lat BETWEEN ${box.minLat} AND ${box.maxLat}
+        AND g.lng BETWEEN ${box.minLng} AND ${box.maxLng}
+    )`)
+  }
+  if (after !== undefined) {
+    taskConditions.push(Prisma.sql`(${isFinished}, ${deadline}, t.id) > (
+      SELECT ${isFinished}, ${deadline}, t.id FROM "Task" t WHERE t.id = ${after}
+    )`)
+  }
+
+  const rows = await prisma.$queryRaw<{ id: number }[]>`
+    SELECT t.id
+    FROM "Task" t
+    WHERE ${Prisma.join(taskConditions, ' AND ')}
+    ORDER BY ${isFinished} ASC, ${deadline} ASC, t.id ASC
+    LIMIT ${take}
+  `
+
+  return findTasksInOrder(rows.map(({ id }) => id))
+}
+
+/**
+ * Build the ORDER BY clause for task search
+ *
+ * SLA sorts keep tasks without a deadline at the end and use the id as a
+ * tie-breaker so cursor pagination stays stable. The overdue sort is done
+ * in SQL, see findTasksByOverdue.
+ */
+function buildTaskSearchOrderBy({
+  sortBy,
+  sortOrder,
+}: Pick<TaskSearchFilterQuery, 'sortBy' | 'sortOrder'>):
+  | Prisma.TaskOrderByWithRelationInput
+  | Prisma.TaskOrderByWithRelationInput[] {
+  if (sortBy === 'slaDueAt') {
+    return [{ slaDueAt: { sort: sortOrder, nulls: 'last' } }, { id: sortOrder }]
+  }
+
+  if (sortBy === 'priority') {
+    return [{ priority: sortOrder }, { id: sortOrder }]
+  }
+
+  return { [sortBy]: sortOrder }
+}
+
+/**
+ * Scheduled tasks between two days, bucketed per day in Asia/Ho_Chi_Minh
+ *
+ * Every day of the range is returned (with a zero count when nothing is
+ * scheduled) so clients can render month and week views directly. Access
+ * control follows the task search: non-admins only see their own tasks.
+ * Approved leaves are listed on each of their days, with the same filter.
+ */
+export async function getTaskCalendar(user: User, query: TaskCalendarQuery) {
+  const logger = getLogger('task.service:getTaskCalendar')
+  const prisma = getPrisma()
+
+  const { from, to, assigneeIds, assignedOnly } = query
+  const isAdmin = isUserAdmin({ user })
+  const range = getCalendarRange(from, to)
+
+  const whereConditions: Prisma.TaskWhereInput[] = [
+    { deletedAt: null },
+    { scheduledAt: { gte: range.start, lt: range.end } },
+  ]
+
+  // Whose leaves are shown, everyone's when undefined
+  let leaveUserIds: string[] | undefined
+
+  if (!isAdmin || assignedOnly === 'true') {
+    whereConditions.push({ assigneeIds: { has: user.id } })
+    leaveUserIds = [user.id]
+  }
+
+  if (assigneeIds && assigneeIds.length > 0) {
+    if (isAdmin || assigneeIds.includes(user.id)) {
+      whereConditions.push({ assigneeIds: { hasSome: assigneeIds } })
+      leaveUserIds = leaveUserIds
+        ? leaveUserIds.filter((id) => assigneeIds.includes(id))
+        : assigneeIds
+    } else {
+      logger.warn(
+        { userId: user.id, requestedIds: assigneeIds },
+        'Non-admin user attempted to filter by other users',
+      )
+    }
+  }
+
+  const [tasks, leaves] = await Promise.all([
+    prisma.task.findMany({
+      // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+      where: { AND: whereConditions },
+      include: { customer: true, geoLocation: true },
+      orderBy: [{ scheduledAt: 'asc' }, { id: 'asc' }],
+    }),
+    findApprovedLeaves({ userIds: leaveUserIds, from, to }),
+  ])
+
+  const calendarTasks = withOverdueFlag(tasks)
+  const tasksByDay = new Map<string, typeof calendarTasks>()
+  for (const task of calendarTasks) {
+    if (!task.scheduledAt) {
+      continue
+    }
+    const day = toCalendarDay(task.scheduledAt)
+    tasksByDay.set(day, [...(tasksByDay.get(day) ?? []), task])
+  }
+
+  logger.debug(
+    { userId: user.id, from, to, totalTasks: tasks.length },
+    'Task calendar loaded',
+  )
+
+  return {
+    from,
+    to,
+    timezone: SCHEDULE_TIMEZONE,
+    days: range.days.map((date) => {
+      const dayTasks = tasksByDay.get(date) ?? []
+      const dayLeaves = leaves.filter(
+        (leave) => leave.startDate <= date && leave.endDate >= date,
+      )
+      return {
+        date,
+        count: dayTasks.length,
+        tasks: dayTasks,
+        leaves: dayLeaves,
+      }
+    }),
+  }
+}
+
+// The map is for looking around, not listing everything: a wider area has to
+// be narrowed with filters
+const MAX_TASK_MAP_TASKS = 1000
+
+const TASK_MAP_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  priority: true,
+  workType: true,
+  assigneeIds: true,
+  scheduledAt: true,
+  slaDueAt: true,
+  customer: { select: { name: true, phone: true } },
+  geoLocation: { select: { lat: true, lng: true, name: true, address: true } },
+} satisfies Prisma.TaskSelect
+
+/**
+ * Tasks located in a map area, clustered when zoomed out
+ *
+ * Takes the task search filters (same access control). Tasks sharing a grid
+ * cell of the area are returned as a cluster with a count per status, the
+ * others as pins with their position.
+ *
+ * @returns Pins, clusters, and `truncated` when more than MAX_TASK_MAP_TASKS
+ *   tasks are in the area (the most recent ones are kept)
+ */
+export async function getTaskMap(user: User, query: TaskMapQuery) {
+  const logger = getLogger('task.service:getTaskMap')
+  const prisma = getPrisma()
+
+  const { minLat, maxLat, minLng, maxLng, ...filters } = query
+
+  const whereConditions = buildTaskFilterConditions(user, filters, logger)
+  whereConditions.push({
+    geoLocation: {
+      lat: { gte: minLat, lte: maxLat },
+      lng: { gte: minLng, lte: maxLng },
+    },
+  })
+
+  const tasks = await prisma.task.findMany({
+    // biome-ignore lint/style/useNamingConvention: Prisma uses uppercase for logical operators
+    where: { AND: whereConditions },
+    select: TASK_MAP_SELECT,
+    orderBy: { id: 'desc' },
+    take: MAX_TASK_MAP_TASKS + 1,
+  })
+
+  const truncated = tasks.length > MAX_TASK_MAP_TASKS
+  const pins = withOverdueFlag(truncated ? tasks.slice(0, -1) : tasks).flatMap(
+    (task) =>
+      task.geoLocation
+        ? [{ ...task, lat: task.geoLocation.lat, lng: task.geoLocation.lng }]
+        : [],
+  )
+  const { points, clusters } = clusterMapPoints(pins, {
+    minLat,
+    maxLat,
+    minLng,
+    maxLng,
+  })
 
   logger.debug(
     {
       userId: user.id,
-      filters,
-      totalResults: tasksToReturn.length,
-      hasNextPage,
+      pins: points.length,
+      clusters: clusters.length,
+      truncated,
     },
-    'Search and filter completed',
+    'Task map loaded',
   )
 
   return {
-    tasks: tasksToReturn,
-    nextCursor,
-    hasNextPage,
+    tasks: points,
+    clusters: clusters.map(({ points: clusterTasks, ...cluster }) => ({
+      ...cluster,
+      statusCounts: clusterTasks.reduce<Partial<Record<TaskStatus, number>>>(
+        (counts, task) => ({
+          ...counts,
+          [task.status]: (counts[task.status] ?? 0) + 1,
+        }),
+        {},
+      ),
+    })),
+    truncated,
   }
 }
 
@@ -476,32 +1480,122 @@ export async function getTaskById({ id }: { id: number }) {
 
   const task = await prisma.task.findFirst({
     where: { id, deletedAt: null },
-    include: DEFAULT_TASK_INCLUDE,
+    include: {
+      ...DEFAULT_TASK_INCLUDE,
+      checklistItems: { orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }] },
+      visits: { orderBy: { checkedInAt: 'asc' } },
+    },
   })
 
-  return task
+  if (!task) {
+    return null
+  }
+
+  // Check-in policy at the task location, so the app does not hard-code it
+  const settings = await getAppSettings()
+
+  return {
+    ...task,
+    overdue: isTaskOverdue(task),
+    geofence: getGeofencePolicy(settings, task.geoLocation),
+  }
 }
 
+/**
+ * Replace the assignees of a task
+ *
+ * Returns the task with `scheduleConflicts` for assignees who already have an
+ * overlapping task and `leaveConflicts` for assignees on approved leave that
+ * day, or rejects with 409 when `rejectOnConflict` is set. `skillIssues`
+ * lists assignees lacking a required skill or with an expired certificate
+ * (a warning only).
+ * Passing `schedule` also moves the task (dispatch board), and conflicts are
+ * checked against the new window.
+ * Passing `teamId` assigns the team's members along with `assigneeIds` and
+ * remembers the team (null forgets it, undefined keeps the current one).
+ */
 export async function updateTaskAssignees({
   taskId,
-  assigneeIds,
+  assigneeIds: pickedAssigneeIds,
+  teamId,
+  rejectOnConflict,
+  schedule,
   user,
 }: {
   taskId: number
   assigneeIds: string[]
+  teamId?: string | null
+  rejectOnConflict?: boolean
+  schedule?: {
+    scheduledAt?: string
+    scheduledEndAt?: string | null
+    estimatedDurationMinutes?: number | null
+  }
   user: User | null
 }) {
   const prisma = getPrisma()
   const logger = getLogger('task.service:updateTaskAssignees')
 
-  logger.trace({ taskId, assigneeIds, user }, 'Updating task assignees')
+  logger.trace(
+    { taskId, assigneeIds: pickedAssigneeIds, teamId, schedule, user },
+    'Updating task assignees',
+  )
 
   try {
+    const assigneeIds = teamId
+      ? await getTeamAssigneeIds({ teamId, assigneeIds: pickedAssigneeIds })
+      : pickedAssigneeIds
+
+    const currentTask = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: {
+        scheduledAt: true,
+        scheduledEndAt: true,
+        estimatedDurationMinutes: true,
+        workType: true,
+        requiredSkillIds: true,
+      },
+    })
+
+    // Fields the dispatch board moves along with the assignees
+    const scheduleData = {
+      ...(schedule?.scheduledAt !== undefined && {
+        scheduledAt: new Date(schedule.scheduledAt),
+      }),
+      ...(schedule?.scheduledEndAt !== undefined && {
+        scheduledEndAt: schedule.scheduledEndAt
+          ? new Date(schedule.scheduledEndAt)
+          : null,
+      }),
+      ...(schedule?.estimatedDurationMinutes !== undefined && {
+        estimatedDurationMinutes: schedule.estimatedDurationMinutes,
+      }),
+    }
+
+    const window = currentTask
+      ? getTaskTimeWindow({ ...currentTask, ...scheduleData })
+      : null
+    const { scheduleConflicts, leaveConflicts } = await checkScheduleConflicts({
+      assigneeIds,
+      window,
+      excludeTaskId: taskId,
+      rejectOnConflict,
+    })
+    // Never rejected, qualifications are up to the admin
+    const skillIssues = await checkSkillIssues({
+      assigneeIds,
+      workType: currentTask?.workType,
+      requiredSkillIds: currentTask?.requiredSkillIds,
+      date: toCalendarDay(window?.start ?? new Date()),
+    })
+
     const updatedTask = await prisma.$transaction(async (tx) => {
       const task = await tx.task.update({
         where: { id: taskId },
         data: {
           assigneeIds,
+          ...(teamId !== undefined && { teamId }),
+          ...scheduleData,
         },
         include: DEFAULT_TASK_INCLUDE,
       })
@@ -512,7 +1606,13 @@ export async function updateTaskAssignees({
           action: 'TASK_ASSIGNEES_UPDATED',
           userId: user?.id || null,
           topic: { entityType: 'TASK', entityId: task.id },
-          payload: { newAssigneeIds: assigneeIds },
+          payload: {
+            newAssigneeIds: assigneeIds,
+            ...(teamId !== undefined && { newTeamId: teamId }),
+            ...(schedule?.scheduledAt !== undefined && {
+              newScheduledAt: schedule.scheduledAt,
+            }),
+          },
         },
         tx,
       )
@@ -520,8 +1620,11 @@ export async function updateTaskAssignees({
       return task
     })
 
-    logger.info({ updatedTask }, 'Task assignees updated successfully')
-    return updatedTask
+    logger.info(
+      { updatedTask, scheduleConflicts, leaveConflicts, skillIssues },
+      'Task assignees updated successfully',
+    )
+    return { ...updatedTask, scheduleConflicts, leaveConflicts, skillIssues }
   } catch (error) {
     logger.error({ error }, 'Error updating task assignees')
     throw error
@@ -531,10 +1634,12 @@ export async function updateTaskAssignees({
 export async function updateTaskStatus({
   taskId,
   status,
+  reason,
   user,
 }: {
   taskId: number
   status: TaskStatus
+  reason?: string
   user: User | null
 }) {
   const prisma = getPrisma()
@@ -542,12 +1647,36 @@ export async function updateTaskStatus({
 
   logger.trace({ taskId, status, user }, 'Updating task status')
 
+  const isCancelled = status === TaskStatus.CANCELLED
+
   try {
     const updatedTask = await prisma.$transaction(async (tx) => {
+      // Moving a task out of ON_HOLD ends the hold started by its assignee
+      const closedHolds =
+        status === TaskStatus.ON_HOLD
+          ? { count: 0 }
+          : await tx.taskHold.updateMany({
+              where: { taskId, endedAt: null },
+              data: { endedAt: new Date() },
+            })
+
+      // Any status other than IN_PROGRESS ends the visits still open on site
+      if (status !== TaskStatus.IN_PROGRESS) {
+        await tx.taskVisit.updateMany({
+          where: { taskId, checkedOutAt: null },
+          data: { checkedOutAt: new Date() },
+        })
+      }
+
       const task = await tx.task.update({
         where: { id: taskId },
         data: {
           status,
+          ...(closedHolds.count > 0 && { holdReason: null }),
+          ...(isCancelled && {
+            cancelledAt: new Date(),
+            cancelReason: reason ?? null,
+          }),
         },
         include: DEFAULT_TASK_INCLUDE,
       })
@@ -558,7 +1687,7 @@ export async function updateTaskStatus({
           action: 'TASK_STATUS_UPDATED',
           userId: user?.id || null,
           topic: { entityType: 'TASK', entityId: task.id },
-          payload: { newStatus: status },
+          payload: { newStatus: status, ...(reason && { reason }) },
         },
         tx,
       )
@@ -739,7 +1868,7 @@ export async function addTaskComment({
  *
  * Authorization:
  * - Admin only
- * - Cannot update COMPLETED tasks
+ * - Cannot update COMPLETED or CANCELLED tasks
  *
  * @returns { canUpdate: boolean; task?: Task }
  */
@@ -764,8 +1893,8 @@ export async function canUserUpdateTask({
     return { canUpdate: false, task }
   }
 
-  // Business rule: Cannot edit COMPLETED tasks
-  if (task.status === 'COMPLETED') {
+  // Business rule: Cannot edit COMPLETED or CANCELLED tasks
+  if (TERMINAL_TASK_STATUSES.includes(task.status)) {
     return { canUpdate: false, task }
   }
 
@@ -840,6 +1969,8 @@ export async function canUserDeleteTask({
  * Features:
  * - Customer matching by phone
  * - GeoLocation update/create
+ * - Work type classification (the checklist follows the work type until an item is checked)
+ * - Priority and SLA deadline (changing the deadline re-arms the SLA sweep)
  * - searchableText refresh
  * - Activity logging with changed fields
  * - Transaction-based for data consistency
@@ -865,7 +1996,15 @@ export async function updateTask({
       lng: number
       address?: string
       name?: string
+      geofenceRadiusMeters?: number | null
     }
+    workType?: TaskWorkType | null
+    requiredSkillIds?: string[]
+    priority?: TaskPriority
+    slaDueAt?: string | null
+    scheduledAt?: string | null
+    scheduledEndAt?: string | null
+    estimatedDurationMinutes?: number | null
   }
   user: User
 }): Promise<Task> {
@@ -949,10 +2088,55 @@ export async function updateTask({
         }),
         ...(customerId && { customerId }),
         ...(geoLocationId && { geoLocationId }),
+        ...(data.workType !== undefined && { workType: data.workType }),
+        ...(data.requiredSkillIds !== undefined && {
+          requiredSkillIds: [...new Set(data.requiredSkillIds)],
+        }),
+        ...(data.priority !== undefined && { priority: data.priority }),
+        // A new deadline re-arms the SLA sweep
+        ...(data.slaDueAt !== undefined && {
+          slaDueAt: data.slaDueAt ? new Date(data.slaDueAt) : null,
+          slaBreachedAt: null,
+        }),
+        ...(data.scheduledAt !== undefined && {
+          scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+        }),
+        ...(data.scheduledEndAt !== undefined && {
+          scheduledEndAt: data.scheduledEndAt
+            ? new Date(data.scheduledEndAt)
+            : null,
+        }),
+        ...(data.estimatedDurationMinutes !== undefined && {
+          estimatedDurationMinutes: data.estimatedDurationMinutes,
+        }),
       },
       include: DEFAULT_TASK_INCLUDE,
     })
 
+    // 4b. The checklist follows the work type until work on it has started:
+    // a new work type replaces the items of the previous one, and a task
+    // without items gets the template. Checked items are never replaced.
+    if (data.workType) {
+      const checkedItemCount = await tx.taskChecklistItem.count({
+        where: { taskId, checkedAt: { not: null } },
+      })
+      if (checkedItemCount === 0) {
+        const workTypeChanged = data.workType !== existingTask.workType
+        if (workTypeChanged) {
+          await tx.taskChecklistItem.deleteMany({ where: { taskId } })
+        }
+        const itemCount = workTypeChanged
+          ? 0
+          : await tx.taskChecklistItem.count({ where: { taskId } })
+        if (itemCount === 0) {
+          await copyChecklistTemplateToTask(
+            { taskId, workType: data.workType },
+            tx,
+          )
+        }
+      }
+    }
+
     // 5. Refresh searchableText
     const searchableText = buildSearchableText({
       id: updatedTask.id,
@@ -1098,3 +2282,66 @@ export async function deleteTask({
     )
   })
 }
+
+/**
+ * Log TASK_SLA_BREACHED for tasks that passed their SLA deadline
+ *
+ * Run periodically by the cron job. Each task is logged once per deadline:
+ * slaBreachedAt marks it as handled and is cleared when the deadline changes.
+ *
+ * @returns Number of tasks marked as breached and IDs that failed
+ */
+export async function sweepSlaBreaches({
+  now = new Date(),
+}: {
+  now?: Date
+} = {}) {
+  const logger = getLogger('task.service:sweepSlaBreaches')
+  const prisma = getPrisma()
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      deletedAt: null,
+      status: { notIn: TERMINAL_TASK_STATUSES },
+      slaDueAt: { lt: now },
+      slaBreachedAt: null,
+    },
+    select: { id: true, priority: true, slaDueAt: true, assigneeIds: true },
+  })
+
+  let tasksBreached = 0
+  const failedTaskIds: number[] = []
+
+  for (const task of tasks) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.task.update({
+          where: { id: task.id },
+          data: { slaBreachedAt: now },
+        })
+
+        await createActivity(
+          {
+            action: 'TASK_SLA_BREACHED',
+            userId: null,
+            topic: { entityType: 'TASK', entityId: task.id },
+            payload: {
+              priority: task.priority,
+              slaDueAt: task.slaDueAt?.toISOString(),
+              assigneeIds: task.assigneeIds,
+            },
+          },
+          tx,
+        )
+      })
+      tasksBreached++
+    } catch (error) {
+      logger.error({ error, taskId: task.id }, 'Failed to log SLA breach')
+      failedTaskIds.push(task.id)
+    }
+  }
+
+  logger.info({ tasksBreached, failedTaskIds }, 'Finished SLA sweep')
+
+  return { tasksBreached, failedTaskIds }
+}
@@ -0,0 +1,97 @@
+// @ts-nocheck
+import { beforeEach, describe, expect, it, jest } from '@jest/globals'
+import { HTTPException } from 'hono/http-exception'
+import { createMockAdminUser } from '../../../test/mock-auth'
+import {
+  createMockPrismaClient,
+  resetPrismaMock,
+} from '../../../test/prisma-mock'
+
+// Mock Prisma getter to use our mock client
+const mockPrisma = createMockPrismaClient()
+jest.mock('../../../lib/prisma', () => ({
+  getPrisma: () => mockPrisma,
+}))
+
+import { deleteTeam, getTeamAssigneeIds, updateTeam } from '../team.service'
+
+describe('team service', () => {
+  const admin = createMockAdminUser()
+  const team = {
+    id: 'team_1',
+    name: 'Đội lắp đặt 1',
+    leaderId: 'worker_1',
+    memberIds: ['worker_1', 'worker_2'],
+    deletedAt: null,
+  }
+
+  beforeEach(() => {
+    resetPrismaMock(mockPrisma)
+  })
+
+  describe('getTeamAssigneeIds', () => {
+    it('should add the members before the other assignees, once', async () => {
+      mockPrisma.team.findFirst.mockResolvedValue(team)
+
+      await expect(
+        getTeamAssigneeIds({
+          teamId: 'team_1',
+          assigneeIds: ['worker_3', 'worker_2'],
+        }),
+      ).resolves.toEqual(['worker_1', 'worker_2', 'worker_3'])
+    })
+
+    it('should reject a deleted or unknown team', async () => {
+      mockPrisma.team.findFirst.mockResolvedValue(null)
+
+      await expect(
+        getTeamAssigneeIds({ teamId: 'team_gone' }),
+      ).rejects.toMatchObject({ status: 404 })
+    })
+  })
+
+  describe('updateTeam', () => {
+    it('should drop the leader when they leave the team', async () => {
+      mockPrisma.team.findFirst.mockResolvedValue(team)
+      mockPrisma.team.update.mockResolvedValue({})
+
+      await updateTeam({
+        id: 'team_1',
+        data: { memberIds: ['worker_2', 'worker_3'] },
+        user: admin,
+      })
+
+      expect(mockPrisma.team.update).toHaveBeenCalledWith({
+        where: { id: 'team_1' },
+        data: { memberIds: ['worker_2', 'worker_3'], leaderId: null },
+      })
+    })
+
+    it('should reject a leader who is not a member', async () => {
+      mockPrisma.team.findFirst.mockResolvedValue(team)
+
+      await expect(
+        updateTeam({
+          id: 'team_1',
+          data: { leaderId: 'worker_9' },
+          user: admin,
+        }),
+      ).rejects.toBeInstanceOf(HTTPException)
+      expect(mockPrisma.team.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deleteTeam', () => {
+    it('should soft delete the team', async () => {
+      mockPrisma.team.findFirst.mockResolvedValue(team)
+      mockPrisma.team.update.mockResolvedValue({})
+
+      await deleteTeam({ id: 'team_1', user: admin })
+
+      expect(mockPrisma.team.update).toHaveBeenCalledWith({
+        where: { id: 'team_1' },
+        data: { deletedAt: expect.any(Date) },
+      })
+    })
+  })
+})
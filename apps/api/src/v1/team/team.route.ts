@@ -0,0 +1,84 @@
+import { z, zCreateTeam, zUpdateTeam } from '@nv-internal/validation'
+import { Hono } from 'hono'
+import { HTTPException } from 'hono/http-exception'
+import { zValidator } from '../../lib/z-validator'
+import { getAuthUserStrict } from '../middlewares/auth'
+import {
+  canUserManageTeams,
+  createTeam,
+  deleteTeam,
+  getTeams,
+  updateTeam,
+} from './team.service'
+
+const zTeamParam = z.object({ id: z.string().min(1) })
+
+/**
+ * Team Router - crews assigned to tasks as a unit
+ *
+ * Mounted at: /v1/team
+ *
+ * Routes:
+ * - GET / - List the teams (any authenticated user)
+ * - POST / - Create a team (admin only)
+ * - PATCH /:id - Rename a team or change its leader or members (admin only)
+ * - DELETE /:id - Delete a team (admin only)
+ *
+ * Note: Assigning a team is done with `teamId` on POST /v1/task and
+ * PUT /v1/task/:id/assignees in the task router.
+ */
+const router = new Hono()
+  /**
+   * GET /v1/team
+   *
+   * Response:
+   * - teams: [{ id, name, leaderId, memberIds }] by name
+   */
+  .get('/', async (c) => {
+    const teams = await getTeams()
+    return c.json({ teams }, 200)
+  })
+  .use(async (c, next) => {
+    const user = getAuthUserStrict(c)
+    if (!(await canUserManageTeams({ user }))) {
+      throw new HTTPException(403, {
+        message: 'Chỉ admin mới có thể quản lý đội.',
+        cause: 'Permission denied',
+      })
+    }
+    return next()
+  })
+  /**
+   * POST /v1/team
+   *
+   * Body:
+   * - name: e.g. "Đội lắp đặt 1"
+   * - leaderId?: Clerk userId, one of the members
+   * - memberIds: Clerk userIds (1-20)
+   */
+  .post('/', zValidator('json', zCreateTeam), async (c) => {
+    const data = c.req.valid('json')
+    const user = getAuthUserStrict(c)
+    const team = await createTeam({ data, user })
+    return c.json({ team }, 201)
+  })
+  .patch(
+    '/:id',
+    zValidator('param', zTeamParam),
+    zValidator('json', zUpdateTeam),
+    async (c) => {
+      const { id } = c.req.valid('param')
+      const data = c.req.valid('json')
+      const user = getAuthUserStrict(c)
+      const team = await updateTeam({ id, data, user })
+      return c.json({ team }, 200)
+    },
+  )
+  .delete('/:id', zValidator('param', zTeamParam), async (c) => {
+    const { id } = c.req.valid('param')
+    const user = getAuthUserStrict(c)
+    await deleteTeam({ id, user })
+    return c.json({ success: true }, 200)
+  })
+
+export default router
@@ -0,0 +1,148 @@
+import type { User } from '@clerk/backend'
+import type {
+  CreateTeamValues,
+  UpdateTeamValues,
+} from '@nv-internal/validation'
+import { HTTPException } from 'hono/http-exception'
+import { getLogger } from '../../lib/log'
+import { getPrisma } from '../../lib/prisma'
+import { isUserAdmin } from '../user/user.service'
+
+export async function canUserManageTeams({ user }: { user: User }) {
+  return isUserAdmin({ user })
+}
+
+/**
+ * Teams by name (deleted teams are left out)
+ */
+export async function getTeams() {
+  const prisma = getPrisma()
+
+  return prisma.team.findMany({
+    where: { deletedAt: null },
+    orderBy: [{ name: 'asc' }, { createdAt: 'asc' }],
+  })
+}
+
+/**
+ * Get a team that is not deleted
+ *
+ * @throws HTTPException 404 when the team does not exist
+ */
+export async function getTeamById({ id }: { id: string }) {
+  const prisma = getPrisma()
+
+  const team = await prisma.team.findFirst({ where: { id, deletedAt: null } })
+  if (!team) {
+    throw new HTTPException(404, {
+      message: 'Không tìm thấy đội.',
+    })
+  }
+
+  return team
+}
+
+/**
+ * Assignees of a task assigned to a team: the team's members, then anyone
+ * else picked along with them
+ */
+export async function getTeamAssigneeIds({
+  teamId,
+  assigneeIds = [],
+}: {
+  teamId: string
+  assigneeIds?: string[]
+}) {
+  const team = await getTeamById({ id: teamId })
+
+  return [...new Set([...team.memberIds, ...assigneeIds])]
+}
+
+export async function createTeam({
+  data,
+  user,
+}: {
+  data: CreateTeamValues
+  user: User
+}) {
+  const logger = getLogger('team.service:createTeam')
+  const prisma = getPrisma()
+
+  const team = await prisma.team.create({
+    data: {
+      name: data.name,
+      leaderId: data.leaderId ?? null,
+      memberIds: [...new Set(data.memberIds)],
+    },
+  })
+
+  logger.info({ team, userId: user.id }, 'Team created')
+
+  return team
+}
+
+/**
+ * Rename a team or change its leader or members
+ *
+ * Tasks already assigned keep their assignees.
+ */
+export async function updateTeam({
+  id,
+  data,
+  user,
+}: {
+  id: string
+  data: UpdateTeamValues
+  user: User
+}) {
+  const logger = getLogger('team.service:updateTeam')
+  const prisma = getPrisma()
+
+  const existing = await getTeamById({ id })
+  const memberIds = data.memberIds
+    ? [...new Set(data.memberIds)]
+    : existing.memberIds
+  if (data.leaderId && !memberIds.includes(data.leaderId)) {
+    throw new HTTPException(400, {
+      message: 'Trưởng nhóm phải là thành viên của đội',
+    })
+  }
+  // A leader who leaves the team leaves it without a leader
+  const leaderId =
+    data.leaderId !== undefined ? data.leaderId : existing.leaderId
+
+  const team = await prisma.team.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      memberIds,
+      leaderId: leaderId && memberIds.includes(leaderId) ? leaderId : null,
+    },
+  })
+
+  logger.info(
+    { teamId: id, changes: Object.keys(data), userId: user.id },
+    'Team updated',
+  )
+
+  return team
+}
+
+/**
+ * Soft delete a team
+ *
+ * Tasks assigned to the team keep it and their assignees.
+ */
+export async function deleteTeam({ id, user }: { id: string; user: User }) {
+  const logger = getLogger('team.service:deleteTeam')
+  const prisma = getPrisma()
+
+  await getTeamById({ id })
+
+  await prisma.team.update({
+    where: { id },
+    data: { deletedAt: new Date() },
+  })
+
+  logger.info({ teamId: id, userId: user.id }, 'Team deleted')
+}
@@ -0,0 +1,114 @@
+import type { AttendanceGridQuery } from '@nv-internal/validation'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+import { getApiUrl } from '@/lib/env'
+
+export const ATTENDANCE_QUERY_KEY = ['attendance']
+
+/**
+ * Fetch the current user's attendance today
+ * Uses the /v1/attendance/today endpoint
+ */
+export async function fetchTodayAttendance() {
+  const { data } = await callHonoApi((c) => c.v1.attendance.today.$get())
+
+  return data
+}
+
+export type TodayAttendance = Awaited<ReturnType<typeof fetchTodayAttendance>>
+export type AttendanceStatus = TodayAttendance['status']
+
+export function useTodayAttendance() {
+  return useQuery({
+    queryKey: [...ATTENDANCE_QUERY_KEY, 'today'],
+    queryFn: fetchTodayAttendance,
+  })
+}
+
+/**
+ * Fetch the attendance of the active workers per day
+ * Uses the /v1/attendance/grid endpoint (admin only)
+ */
+export async function fetchAttendanceGrid(query: AttendanceGridQuery) {
+  const { data } = await callHonoApi(
+    (c) => c.v1.attendance.grid.$get({ query }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type AttendanceGrid = Awaited<ReturnType<typeof fetchAttendanceGrid>>
+export type AttendanceGridWorker = AttendanceGrid['workers'][number]
+
+export function useAttendanceGrid(query: AttendanceGridQuery) {
+  return useQuery({
+    queryKey: [...ATTENDANCE_QUERY_KEY, 'grid', query],
+    queryFn: () => fetchAttendanceGrid(query),
+  })
+}
+
+export type ClockAttendanceInput = {
+  action: 'clock-in' | 'clock-out'
+  latitude: number
+  longitude: number
+  // Selfie from the front camera
+  selfie: { uri: string; mimeType?: string | null }
+}
+
+/**
+ * Clock in or out of the workday with the position and a selfie
+ */
+export function useClockAttendance() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      action,
+      latitude,
+      longitude,
+      selfie,
+    }: ClockAttendanceInput) => {
+      const formData = new FormData()
+      formData.append('latitude', latitude.toString())
+      formData.append('longitude', longitude.toString())
+      // @ts-ignore - React Native FormData types differ from web
+      formData.append('selfie', {
+        uri: selfie.uri,
+        name: `${action}-${Date.now()}.jpg`,
+        type: selfie.mimeType || 'image/jpeg',
+      })
+
+      // Use native fetch since Hono RPC client doesn't support file uploads
+      const { clerk } = await import('@/lib/api-client')
+      const token = await clerk.session?.getToken()
+
+      const response = await fetch(`${getApiUrl()}/v1/attendance/${action}`, {
+        method: 'POST',
+        headers: {
+          // biome-ignore lint/style/useNamingConvention: <header>
+          Authorization: `Bearer ${token}`,
+        },
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.message || 'Không thể chấm công')
+      }
+
+      return response.json()
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ATTENDANCE_QUERY_KEY })
+
+      toast.success(
+        action === 'clock-in' ? 'Đã chấm công vào' : 'Đã chấm công ra',
+      )
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể chấm công')
+    },
+  })
+}
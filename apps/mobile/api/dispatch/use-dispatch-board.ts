@@ -0,0 +1,43 @@
+import type { DispatchBoardQuery } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch workers' timelines and unassigned tasks of a day
+ * Uses the /v1/dispatch endpoint (admin only)
+ */
+export async function fetchDispatchBoard(query: DispatchBoardQuery) {
+  const { data } = await callHonoApi(
+    (c) => c.v1.dispatch.$get({ query: { date: query.date } }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchDispatchBoardResponse = Awaited<
+  ReturnType<typeof fetchDispatchBoard>
+>
+export type DispatchWorker =
+  NonNullable<FetchDispatchBoardResponse>['workers'][number]
+export type DispatchWorkerTask = DispatchWorker['tasks'][number]
+export type DispatchUnassignedTask =
+  NonNullable<FetchDispatchBoardResponse>['unassignedTasks'][number]
+
+// Nested under tasks so task mutations refresh the board
+export const DISPATCH_BOARD_QUERY_KEY = ['tasks', 'dispatch']
+
+export const dispatchBoardQueryOptions = (query: DispatchBoardQuery) => ({
+  queryKey: [...DISPATCH_BOARD_QUERY_KEY, query],
+  queryFn: () => fetchDispatchBoard(query),
+})
+
+export function useDispatchBoard(
+  query: DispatchBoardQuery,
+  queryOptions?: Partial<UseQueryOptions<FetchDispatchBoardResponse>>,
+) {
+  return useQuery<FetchDispatchBoardResponse>({
+    ...dispatchBoardQueryOptions(query),
+    ...queryOptions,
+  })
+}
@@ -0,0 +1,84 @@
+import type { HolidayValues } from '@nv-internal/validation'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+import { ATTENDANCE_QUERY_KEY } from '../attendance/use-attendance'
+
+/**
+ * Fetch the public holidays of a year
+ * Uses the /v1/holiday endpoint
+ */
+export async function fetchHolidays({ year }: { year: number }) {
+  const { data } = await callHonoApi(
+    (c) => c.v1.holiday.$get({ query: { year: year.toString() } }),
+    { toastOnError: true },
+  )
+
+  return data.holidays
+}
+
+export type Holiday = Awaited<ReturnType<typeof fetchHolidays>>[number]
+
+export const HOLIDAYS_QUERY_KEY = ['holidays']
+
+export function useHolidays({ year }: { year: number }) {
+  return useQuery({
+    queryKey: [...HOLIDAYS_QUERY_KEY, year],
+    queryFn: () => fetchHolidays({ year }),
+  })
+}
+
+/**
+ * Add a public holiday
+ * - Admin-only mutation
+ */
+export function useCreateHoliday() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (json: HolidayValues) => {
+      const { data } = await callHonoApi((c) => c.v1.holiday.$post({ json }))
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: HOLIDAYS_QUERY_KEY })
+      // Holidays are days off on the attendance grid
+      queryClient.invalidateQueries({ queryKey: ATTENDANCE_QUERY_KEY })
+
+      toast.success('Đã thêm ngày nghỉ lễ', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể thêm ngày nghỉ lễ', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Remove a public holiday, the day is worked again
+ * - Admin-only mutation
+ */
+export function useDeleteHoliday() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.holiday[':id'].$delete({ param: { id } }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: HOLIDAYS_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: ATTENDANCE_QUERY_KEY })
+
+      toast.success('Đã xóa ngày nghỉ lễ', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể xóa ngày nghỉ lễ', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
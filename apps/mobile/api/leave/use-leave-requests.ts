@@ -0,0 +1,195 @@
+import type {
+  CreateLeaveRequest,
+  LeaveRequestQuery,
+  ReviewLeaveRequest,
+} from '@nv-internal/validation'
+import {
+  type UseQueryOptions,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+import { ATTENDANCE_QUERY_KEY } from '../attendance/use-attendance'
+import { TASK_CALENDAR_QUERY_KEY } from '../task/use-task-calendar'
+
+/**
+ * Fetch leave requests (workers only get their own)
+ * Uses the /v1/leave endpoint
+ */
+export async function fetchLeaveRequests({
+  status,
+  userId,
+  from,
+  to,
+  cursor,
+  take,
+}: Partial<LeaveRequestQuery>) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.leave.$get({
+        query: { status, userId, from, to, cursor, take: take?.toString() },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchLeaveRequestsResponse = Awaited<
+  ReturnType<typeof fetchLeaveRequests>
+>
+export type LeaveRequest = FetchLeaveRequestsResponse['leaveRequests'][number]
+
+export const LEAVE_REQUESTS_QUERY_KEY = ['leave-requests']
+
+export function useLeaveRequests({
+  status,
+  take = 20,
+}: Pick<Partial<LeaveRequestQuery>, 'status' | 'take'> = {}) {
+  return useInfiniteQuery({
+    queryKey: [...LEAVE_REQUESTS_QUERY_KEY, status],
+    queryFn: ({ pageParam }) =>
+      fetchLeaveRequests({ status, take, cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    initialPageParam: undefined as string | undefined,
+  })
+}
+
+/**
+ * Approved leaves overlapping the days `from` - `to`, e.g. to tell who is
+ * unavailable when assigning a task
+ */
+export function useApprovedLeaves(
+  { from, to }: { from: string; to: string },
+  queryOptions?: Partial<UseQueryOptions<LeaveRequest[]>>,
+) {
+  return useQuery<LeaveRequest[]>({
+    queryKey: [...LEAVE_REQUESTS_QUERY_KEY, 'approved', from, to],
+    queryFn: async () => {
+      const { leaveRequests } = await fetchLeaveRequests({
+        status: 'APPROVED',
+        from,
+        to,
+        take: 100,
+      })
+      return leaveRequests
+    },
+    ...queryOptions,
+  })
+}
+
+/**
+ * Approved leaves on the days of a task schedule, to warn about assigning
+ * workers who are away. Disabled while the task is not scheduled.
+ */
+export function useScheduledLeaves({
+  scheduledAt,
+  scheduledEndAt,
+  enabled = true,
+}: {
+  scheduledAt?: string | Date | null
+  scheduledEndAt?: string | Date | null
+  enabled?: boolean
+}) {
+  const from = scheduledAt ? format(new Date(scheduledAt), 'yyyy-MM-dd') : ''
+  const to = scheduledEndAt
+    ? format(new Date(scheduledEndAt), 'yyyy-MM-dd')
+    : from
+
+  return useApprovedLeaves(
+    { from, to: to < from ? from : to },
+    { enabled: enabled && !!from },
+  )
+}
+
+/**
+ * Ask for leave, pending until an admin reviews it
+ */
+export function useCreateLeaveRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (json: CreateLeaveRequest) => {
+      const { data } = await callHonoApi((c) => c.v1.leave.$post({ json }))
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LEAVE_REQUESTS_QUERY_KEY })
+
+      toast.success('Đã gửi đơn nghỉ phép', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể gửi đơn nghỉ phép', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Approve or reject a pending leave request
+ * - Admin-only mutation
+ */
+export function useReviewLeaveRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...json
+    }: ReviewLeaveRequest & { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.leave[':id'].review.$post({ param: { id }, json }),
+      )
+      return data
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: LEAVE_REQUESTS_QUERY_KEY })
+      // Approved leave shows on the calendars and the attendance grid
+      queryClient.invalidateQueries({ queryKey: TASK_CALENDAR_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: ATTENDANCE_QUERY_KEY })
+
+      toast.success(
+        status === 'APPROVED' ? 'Đã duyệt đơn nghỉ phép' : 'Đã từ chối đơn',
+        { providerKey: 'PERSIST' },
+      )
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể cập nhật đơn nghỉ phép', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Withdraw the current user's own leave request
+ */
+export function useCancelLeaveRequest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.leave[':id'].cancel.$post({ param: { id } }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LEAVE_REQUESTS_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: TASK_CALENDAR_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: ATTENDANCE_QUERY_KEY })
+
+      toast.success('Đã hủy đơn nghỉ phép', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể hủy đơn nghỉ phép', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
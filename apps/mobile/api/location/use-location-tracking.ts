@@ -0,0 +1,43 @@
+import type { LocationPingInput } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Whether the current worker has an open visit, so positions are recorded
+ * Uses the /v1/location/tracking endpoint
+ */
+export async function fetchLocationTrackingStatus() {
+  const { data } = await callHonoApi((c) => c.v1.location.tracking.$get())
+
+  return data
+}
+
+export type LocationTrackingStatus = Awaited<
+  ReturnType<typeof fetchLocationTrackingStatus>
+>
+
+// Under 'tasks' so check-in / check-out (which invalidate tasks) refresh it
+export const LOCATION_TRACKING_QUERY_KEY = ['tasks', 'location-tracking']
+
+export function useLocationTrackingStatus(
+  queryOptions?: Partial<UseQueryOptions<LocationTrackingStatus>>,
+) {
+  return useQuery<LocationTrackingStatus>({
+    queryKey: LOCATION_TRACKING_QUERY_KEY,
+    queryFn: fetchLocationTrackingStatus,
+    ...queryOptions,
+  })
+}
+
+/**
+ * Upload a batch of recorded positions
+ *
+ * Silent: a failed upload is retried with the next batch.
+ */
+export async function sendLocationPings(points: LocationPingInput['points']) {
+  const { data } = await callHonoApi((c) =>
+    c.v1.location.pings.$post({ json: { points } }),
+  )
+
+  return data
+}
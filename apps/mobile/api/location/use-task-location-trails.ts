@@ -0,0 +1,34 @@
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Latest position and trail of each worker on a task (admin only)
+ * Uses the /v1/location/task/:id endpoint
+ */
+export async function fetchTaskLocationTrails(taskId: number) {
+  const { data } = await callHonoApi((c) =>
+    c.v1.location.task[':id'].$get({ param: { id: taskId.toString() } }),
+  )
+
+  return data
+}
+
+export type TaskLocationTrails = Awaited<
+  ReturnType<typeof fetchTaskLocationTrails>
+>
+export type WorkerLocationTrail = TaskLocationTrails['workers'][number]
+
+export const taskLocationTrailsQueryOptions = (taskId: number) => ({
+  queryKey: ['tasks', 'location-trails', taskId],
+  queryFn: () => fetchTaskLocationTrails(taskId),
+})
+
+export function useTaskLocationTrails(
+  taskId: number,
+  queryOptions?: Partial<UseQueryOptions<TaskLocationTrails>>,
+) {
+  return useQuery<TaskLocationTrails>({
+    ...taskLocationTrailsQueryOptions(taskId),
+    ...queryOptions,
+  })
+}
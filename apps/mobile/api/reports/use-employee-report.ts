@@ -1,3 +1,4 @@
+import type { DaysWorkedSource, TaskHoldReason } from '@nv-internal/validation'
 import type { UseQueryOptions } from '@tanstack/react-query'
 import { useQuery } from '@tanstack/react-query'
 
@@ -12,8 +13,19 @@ export interface EmployeeReportTask {
 
 export interface EmployeeReportMetrics {
   daysWorked: number
+  expectedWorkingDays: number // Working days of the period minus approved leave
+  hoursOnSite: number // Check-in to check-out time of closed visits
   tasksCompleted: number
   totalRevenue: number
+  nonProductiveMinutes: number // Time with tasks on hold
+  travelDistanceKm: number // Between jobs, road multiplier applied
+  travelMinutes: number
+}
+
+export interface EmployeeReportHoldBreakdownItem {
+  reason: TaskHoldReason
+  minutes: number
+  holdCount: number
 }
 
 export interface EmployeeReportPeriod {
@@ -31,7 +43,9 @@ export interface EmployeeReportEmployee {
 export interface EmployeeReportResponse {
   employee: EmployeeReportEmployee
   period: EmployeeReportPeriod
+  daysWorkedSource: DaysWorkedSource
   metrics: EmployeeReportMetrics
+  holdBreakdown: EmployeeReportHoldBreakdownItem[]
   tasks: EmployeeReportTask[]
 }
 
@@ -40,6 +54,7 @@ export interface UseEmployeeReportParams {
   startDate: string // ISO 8601 format: YYYY-MM-DD
   endDate: string // ISO 8601 format: YYYY-MM-DD
   timezone?: string // IANA timezone (default: Asia/Ho_Chi_Minh)
+  daysWorkedSource?: DaysWorkedSource // Task check-ins (default) or attendance
 }
 
 /**
@@ -59,7 +74,13 @@ export function useEmployeeReport(
     >
   >,
 ) {
-  const { userId, startDate, endDate, timezone = 'Asia/Ho_Chi_Minh' } = params
+  const {
+    userId,
+    startDate,
+    endDate,
+    timezone = 'Asia/Ho_Chi_Minh',
+    daysWorkedSource,
+  } = params
 
   return useQuery({
     queryKey: ['employee-report', params],
@@ -73,6 +94,7 @@ export function useEmployeeReport(
             startDate,
             endDate,
             timezone: timezone as 'Asia/Ho_Chi_Minh',
+            daysWorkedSource,
           },
         }),
       )
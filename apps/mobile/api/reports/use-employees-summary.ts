@@ -6,6 +6,8 @@ export interface EmployeeSummaryMetrics {
   tasksCompleted: number
   totalRevenue: number
   daysWorked: number
+  expectedWorkingDays: number // Working days of the period minus approved leave
+  hoursOnSite: number
 }
 
 export interface EmployeeSummary {
@@ -23,6 +25,18 @@ export interface SummaryStatistics {
   activeEmployees: number
   totalRevenue: number
   totalTasks: number
+  workingDays: number // Working weekdays of the period minus public holidays
+}
+
+export interface TeamSummary {
+  id: string
+  name: string
+  leaderId: string | null
+  memberIds: string[]
+  metrics: {
+    tasksCompleted: number
+    totalRevenue: number // Full task revenue, not split between members
+  }
 }
 
 export interface EmployeesSummaryPeriod {
@@ -35,6 +49,7 @@ export interface EmployeesSummaryResponse {
   period: EmployeesSummaryPeriod
   employees: EmployeeSummary[]
   summary: SummaryStatistics
+  teams: TeamSummary[]
 }
 
 export interface UseEmployeesSummaryParams {
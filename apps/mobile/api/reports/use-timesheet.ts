@@ -0,0 +1,78 @@
+import type { TaskVisitCorrection } from '@nv-internal/validation'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+
+export type TimesheetParams = {
+  userId: string
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+}
+
+/**
+ * Fetch an employee's timesheet (on-site time and overtime) for payroll
+ * Uses the /v1/reports/timesheet/:userId endpoint
+ */
+export async function fetchTimesheet({
+  userId,
+  startDate,
+  endDate,
+}: TimesheetParams) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.reports.timesheet[':userId'].$get({
+        param: { userId },
+        query: { startDate, endDate, timezone: 'Asia/Ho_Chi_Minh' },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchTimesheetResponse = Awaited<ReturnType<typeof fetchTimesheet>>
+export type UnpairedVisit = FetchTimesheetResponse['unpaired'][number]
+
+export const TIMESHEET_QUERY_KEY = ['timesheet']
+
+export function useTimesheet(params: TimesheetParams) {
+  return useQuery({
+    queryKey: [...TIMESHEET_QUERY_KEY, params],
+    queryFn: () => fetchTimesheet(params),
+    enabled: !!params.userId,
+  })
+}
+
+/**
+ * Correct the check-out time of a visit (forgotten check-out)
+ * - Admin-only mutation, the reason is kept for the audit
+ */
+export function useCorrectTaskVisit() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...json
+    }: TaskVisitCorrection & { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.reports.timesheet.visits[':id'].correction.$post({
+          param: { id },
+          json,
+        }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TIMESHEET_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: ['employee-report'] })
+
+      toast.success('Đã chỉnh sửa giờ check-out', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể chỉnh sửa giờ check-out', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
@@ -0,0 +1,66 @@
+import type { UpdateAppSettings } from '@nv-internal/validation'
+import {
+  type UseQueryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch company-wide settings (check-in geofence)
+ * Uses the /v1/settings endpoint
+ */
+export async function fetchAppSettings() {
+  const { data } = await callHonoApi((c) => c.v1.settings.$get(), {
+    toastOnError: true,
+  })
+
+  return data
+}
+
+export type FetchAppSettingsResponse = Awaited<
+  ReturnType<typeof fetchAppSettings>
+>
+
+export const APP_SETTINGS_QUERY_KEY = ['settings']
+
+export function useAppSettings(
+  queryOptions?: Partial<UseQueryOptions<FetchAppSettingsResponse>>,
+) {
+  return useQuery<FetchAppSettingsResponse>({
+    queryKey: APP_SETTINGS_QUERY_KEY,
+    queryFn: fetchAppSettings,
+    ...queryOptions,
+  })
+}
+
+/**
+ * Update company-wide settings
+ * - Admin-only mutation
+ * - Refreshes tasks, whose geofence follows the settings
+ */
+export function useUpdateAppSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: UpdateAppSettings) => {
+      const { data: settings } = await callHonoApi((c) =>
+        c.v1.settings.$put({ json: data }),
+      )
+      return settings
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: APP_SETTINGS_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: ['task'] })
+
+      toast.success('Đã lưu cài đặt', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể lưu cài đặt', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
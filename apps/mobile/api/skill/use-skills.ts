@@ -0,0 +1,332 @@
+import type {
+  CreateSkillValues,
+  TaskWorkType,
+  UpdateSkillValues,
+} from '@nv-internal/validation'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+import { getApiUrl } from '@/lib/env'
+
+/**
+ * Fetch the skills by name
+ * Uses the /v1/skill endpoint
+ */
+export async function fetchSkills() {
+  const { data } = await callHonoApi((c) => c.v1.skill.$get(), {
+    toastOnError: true,
+  })
+
+  return data.skills
+}
+
+export type Skill = Awaited<ReturnType<typeof fetchSkills>>[number]
+
+export const SKILLS_QUERY_KEY = ['skills']
+
+export function useSkills({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: SKILLS_QUERY_KEY,
+    queryFn: fetchSkills,
+    enabled,
+  })
+}
+
+/**
+ * Skills a task requires: the ones of its work type and the ones listed on
+ * the task
+ */
+export function getRequiredSkills(
+  skills: Skill[],
+  {
+    workType,
+    requiredSkillIds = [],
+  }: { workType?: TaskWorkType | null; requiredSkillIds?: string[] },
+) {
+  return skills.filter(
+    (skill) =>
+      (!!workType && skill.workTypes.includes(workType)) ||
+      requiredSkillIds.includes(skill.id),
+  )
+}
+
+export type SkillIssue = {
+  skill: Skill
+  reason: 'MISSING' | 'EXPIRED'
+  expiryDate: string | null
+}
+
+/**
+ * Required skills a worker lacks, or holds with a certificate expired before
+ * `date` (YYYY-MM-DD), same rule as the assignment warnings of the API
+ */
+export function getSkillIssues({
+  userId,
+  requiredSkills,
+  certificates,
+  date,
+}: {
+  userId: string
+  requiredSkills: Skill[]
+  certificates: WorkerCertificate[]
+  date: string
+}): SkillIssue[] {
+  return requiredSkills.flatMap((skill): SkillIssue[] => {
+    const certificate = certificates.find(
+      (item) => item.userId === userId && item.skillId === skill.id,
+    )
+    if (!certificate) {
+      return [{ skill, reason: 'MISSING', expiryDate: null }]
+    }
+    if (certificate.expiryDate && certificate.expiryDate < date) {
+      return [{ skill, reason: 'EXPIRED', expiryDate: certificate.expiryDate }]
+    }
+    return []
+  })
+}
+
+/**
+ * Create a skill
+ * - Admin-only mutation
+ */
+export function useCreateSkill() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (json: CreateSkillValues) => {
+      const { data } = await callHonoApi((c) => c.v1.skill.$post({ json }))
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SKILLS_QUERY_KEY })
+
+      toast.success('Đã tạo kỹ năng', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể tạo kỹ năng', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Rename a skill or change the work types requiring it
+ * - Admin-only mutation
+ */
+export function useUpdateSkill() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...json }: UpdateSkillValues & { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.skill[':id'].$patch({ param: { id }, json }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SKILLS_QUERY_KEY })
+
+      toast.success('Đã cập nhật kỹ năng', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể cập nhật kỹ năng', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Delete a skill, no task requires it anymore
+ * - Admin-only mutation
+ */
+export function useDeleteSkill() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.skill[':id'].$delete({ param: { id } }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SKILLS_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: CERTIFICATES_QUERY_KEY })
+
+      toast.success('Đã xóa kỹ năng', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể xóa kỹ năng', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Fetch the worker certificates, of one worker or of everyone
+ * Uses the /v1/skill/certificates endpoint
+ */
+export async function fetchWorkerCertificates({ userId }: { userId?: string }) {
+  const { data } = await callHonoApi(
+    (c) => c.v1.skill.certificates.$get({ query: { userId } }),
+    { toastOnError: true },
+  )
+
+  return data.certificates
+}
+
+export type WorkerCertificate = Awaited<
+  ReturnType<typeof fetchWorkerCertificates>
+>[number]
+
+export const CERTIFICATES_QUERY_KEY = ['certificates']
+
+export function useWorkerCertificates({
+  userId,
+  enabled = true,
+}: {
+  userId?: string
+  enabled?: boolean
+} = {}) {
+  return useQuery({
+    queryKey: [...CERTIFICATES_QUERY_KEY, userId ?? 'all'],
+    queryFn: () => fetchWorkerCertificates({ userId }),
+    enabled,
+  })
+}
+
+export type UpsertWorkerCertificateInput = {
+  userId: string
+  skillId: string
+  certificateNumber?: string
+  expiryDate?: string // YYYY-MM-DD, never expires when left out
+  // Scan of the certificate, the one on file is kept when left out
+  certificateFile?: { uri: string; name: string; mimeType?: string | null }
+}
+
+/**
+ * Add or replace a worker's certificate with its scan
+ * - Admin-only mutation
+ */
+export function useUpsertWorkerCertificate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      skillId,
+      certificateNumber,
+      expiryDate,
+      certificateFile,
+    }: UpsertWorkerCertificateInput) => {
+      const formData = new FormData()
+      formData.append('userId', userId)
+      formData.append('skillId', skillId)
+      if (certificateNumber) {
+        formData.append('certificateNumber', certificateNumber)
+      }
+      if (expiryDate) {
+        formData.append('expiryDate', expiryDate)
+      }
+      if (certificateFile) {
+        // @ts-ignore - React Native FormData types differ from web
+        formData.append('certificateFile', {
+          uri: certificateFile.uri,
+          name: certificateFile.name,
+          type: certificateFile.mimeType || 'image/jpeg',
+        })
+      }
+
+      // Use native fetch since Hono RPC client doesn't support file uploads
+      const { clerk } = await import('@/lib/api-client')
+      const token = await clerk.session?.getToken()
+
+      const response = await fetch(`${getApiUrl()}/v1/skill/certificates`, {
+        method: 'POST',
+        headers: {
+          // biome-ignore lint/style/useNamingConvention: <header>
+          Authorization: `Bearer ${token}`,
+        },
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        throw new Error(error?.message || 'Không thể lưu chứng chỉ')
+      }
+
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CERTIFICATES_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: EXPIRING_CERTIFICATES_KEY })
+
+      toast.success('Đã lưu chứng chỉ', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể lưu chứng chỉ', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Remove a worker's certificate
+ * - Admin-only mutation
+ */
+export function useDeleteWorkerCertificate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.skill.certificates[':id'].$delete({ param: { id } }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CERTIFICATES_QUERY_KEY })
+      queryClient.invalidateQueries({ queryKey: EXPIRING_CERTIFICATES_KEY })
+
+      toast.success('Đã xóa chứng chỉ', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể xóa chứng chỉ', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Fetch the certificates expiring within a number of days
+ * Uses the /v1/reports/expiring-certificates endpoint (admin only)
+ */
+export async function fetchExpiringCertificates({ days }: { days?: number }) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.reports['expiring-certificates'].$get({
+        query: { days: days?.toString() },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type ExpiringCertificate = Awaited<
+  ReturnType<typeof fetchExpiringCertificates>
+>['certificates'][number]
+
+export const EXPIRING_CERTIFICATES_KEY = ['reports', 'expiring-certificates']
+
+export function useExpiringCertificates({ days }: { days?: number } = {}) {
+  return useQuery({
+    queryKey: [...EXPIRING_CERTIFICATES_KEY, days],
+    queryFn: () => fetchExpiringCertificates({ days }),
+  })
+}
@@ -0,0 +1,85 @@
+import type { TaskEventFlagQuery } from '@nv-internal/validation'
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch check-ins / check-outs flagged for admin review
+ * Uses the /v1/task-events/flags endpoint
+ */
+export async function fetchTaskEventFlags({
+  status,
+  reason,
+  cursor,
+  take,
+}: Partial<TaskEventFlagQuery>) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1['task-events'].flags.$get({
+        query: { status, reason, cursor, take: take?.toString() },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchTaskEventFlagsResponse = Awaited<
+  ReturnType<typeof fetchTaskEventFlags>
+>
+export type TaskEventFlag = FetchTaskEventFlagsResponse['flags'][number]
+
+export const TASK_EVENT_FLAGS_QUERY_KEY = ['task-event-flags']
+
+export function useTaskEventFlags({
+  status = 'open',
+  take = 20,
+}: Pick<Partial<TaskEventFlagQuery>, 'status' | 'take'> = {}) {
+  return useInfiniteQuery({
+    queryKey: [...TASK_EVENT_FLAGS_QUERY_KEY, status],
+    queryFn: ({ pageParam }) =>
+      fetchTaskEventFlags({ status, take, cursor: pageParam }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    initialPageParam: undefined as string | undefined,
+  })
+}
+
+/**
+ * Mark a flagged check-in / check-out as reviewed
+ * - Admin-only mutation
+ */
+export function useReviewTaskEventFlag() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      reviewNote,
+    }: {
+      id: string
+      reviewNote?: string
+    }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1['task-events'].flags[':id'].review.$post({
+          param: { id },
+          json: { reviewNote },
+        }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TASK_EVENT_FLAGS_QUERY_KEY })
+
+      toast.success('Đã đánh dấu đã xem xét', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể cập nhật cảnh báo', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
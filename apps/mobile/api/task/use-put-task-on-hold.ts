@@ -0,0 +1,103 @@
+import type { TaskHoldReason } from '@nv-internal/validation'
+import {
+  type UseMutationOptions,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+import type { InvoiceFile } from '@/components/payment/invoice-photo-capture'
+import { getApiUrl } from '@/lib/env'
+import { activitiesQueryOptions } from '../activity/use-activities'
+
+export type PutTaskOnHoldValues = {
+  taskId: number
+  reason: TaskHoldReason
+  notes?: string
+  photo?: InvoiceFile | null
+}
+
+async function putTaskOnHold({
+  taskId,
+  reason,
+  notes,
+  photo,
+}: PutTaskOnHoldValues) {
+  const formData = new FormData()
+  formData.append('reason', reason)
+
+  if (notes?.trim()) {
+    formData.append('notes', notes.trim())
+  }
+
+  if (photo) {
+    // React Native FormData format (same as use-upload-attachments.ts)
+    // @ts-ignore - React Native FormData types differ from web
+    formData.append('files', photo)
+  }
+
+  // Use native fetch since Hono RPC client doesn't support file uploads
+  const { clerk } = await import('@/lib/api-client')
+  const token = await clerk.session?.getToken()
+
+  const response = await fetch(`${getApiUrl()}/v1/task/${taskId}/hold`, {
+    method: 'POST',
+    headers: {
+      // biome-ignore lint/style/useNamingConvention: <header>
+      Authorization: `Bearer ${token}`,
+    },
+    body: formData,
+  })
+
+  if (!response.ok) {
+    let errorMessage = 'Không thể tạm dừng công việc. Vui lòng thử lại.'
+    try {
+      const errorText = await response.text()
+      const errorJson = JSON.parse(errorText)
+      errorMessage = errorJson.message || errorText
+    } catch {
+      // Use default error message
+    }
+    throw new Error(errorMessage)
+  }
+
+  return response.json()
+}
+
+export type PutTaskOnHoldResponse = Awaited<ReturnType<typeof putTaskOnHold>>
+
+export function usePutTaskOnHold(
+  mutationOptions?: UseMutationOptions<
+    PutTaskOnHoldResponse,
+    Error,
+    PutTaskOnHoldValues
+  >,
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: putTaskOnHold,
+    ...mutationOptions,
+    onSuccess: (data, variables, ...args) => {
+      const { toast } = require('@/components/ui/toasts')
+
+      mutationOptions?.onSuccess?.(data, variables, ...args)
+
+      queryClient.invalidateQueries({ queryKey: ['task', variables.taskId] })
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      queryClient.invalidateQueries({
+        queryKey: activitiesQueryOptions({ topic: `TASK_${variables.taskId}` })
+          .queryKey,
+      })
+
+      toast.success('Đã tạm dừng công việc')
+    },
+    onError: (error, variables, ...args) => {
+      const { toast } = require('@/components/ui/toasts')
+
+      mutationOptions?.onError?.(error, variables, ...args)
+
+      toast.error(
+        error.message || 'Không thể tạm dừng công việc. Vui lòng thử lại.',
+      )
+    },
+  })
+}
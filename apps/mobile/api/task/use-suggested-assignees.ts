@@ -0,0 +1,77 @@
+import type { SuggestedAssigneesInput } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Workers ranked by distance, open tasks and conflicts for an existing task
+ * Uses the /v1/task/:id/suggested-assignees endpoint (admin only)
+ */
+export async function fetchTaskSuggestedAssignees(taskId: number) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.task[':id']['suggested-assignees'].$get({
+        param: { id: taskId.toString() },
+      }),
+    { throwOnError: false, toastOnError: false },
+  )
+
+  return data?.suggestions ?? []
+}
+
+/**
+ * Workers ranked for a task that is not saved yet (create form)
+ */
+export async function fetchDraftSuggestedAssignees(
+  data: SuggestedAssigneesInput,
+) {
+  const { data: result } = await callHonoApi(
+    (c) => c.v1.task['suggested-assignees'].$post({ json: data }),
+    { throwOnError: false, toastOnError: false },
+  )
+
+  return result?.suggestions ?? []
+}
+
+export type AssigneeSuggestion = Awaited<
+  ReturnType<typeof fetchTaskSuggestedAssignees>
+>[number]
+
+export const taskSuggestedAssigneesQueryOptions = (taskId: number) => ({
+  queryKey: ['tasks', taskId, 'suggested-assignees'],
+  queryFn: () => fetchTaskSuggestedAssignees(taskId),
+})
+
+export const draftSuggestedAssigneesQueryOptions = (
+  data: SuggestedAssigneesInput,
+) => ({
+  queryKey: ['suggested-assignees', data],
+  queryFn: () => fetchDraftSuggestedAssignees(data),
+})
+
+export function useTaskSuggestedAssignees(
+  taskId: number,
+  queryOptions?: Partial<UseQueryOptions<AssigneeSuggestion[]>>,
+) {
+  return useQuery<AssigneeSuggestion[]>({
+    ...taskSuggestedAssigneesQueryOptions(taskId),
+    ...queryOptions,
+  })
+}
+
+/**
+ * Suggestions while filling the create form
+ *
+ * Disabled until the task has a location or a start time.
+ */
+export function useDraftSuggestedAssignees(
+  data: SuggestedAssigneesInput,
+  queryOptions?: Partial<UseQueryOptions<AssigneeSuggestion[]>>,
+) {
+  const enabled = data.lat !== undefined || !!data.scheduledAt
+
+  return useQuery<AssigneeSuggestion[]>({
+    ...draftSuggestedAssigneesQueryOptions(data),
+    enabled,
+    ...queryOptions,
+  })
+}
@@ -0,0 +1,48 @@
+import type { TaskCalendarQuery } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch scheduled tasks bucketed per day (Asia/Ho_Chi_Minh)
+ * Uses the /v1/task/calendar endpoint
+ */
+export async function fetchTaskCalendar(query: TaskCalendarQuery) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.task.calendar.$get({
+        query: {
+          from: query.from,
+          to: query.to,
+          assigneeIds: query.assigneeIds,
+          assignedOnly: query.assignedOnly,
+        },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchTaskCalendarResponse = Awaited<
+  ReturnType<typeof fetchTaskCalendar>
+>
+export type TaskCalendarDay =
+  NonNullable<FetchTaskCalendarResponse>['days'][number]
+export type TaskCalendarTask = TaskCalendarDay['tasks'][number]
+
+export const TASK_CALENDAR_QUERY_KEY = ['tasks', 'calendar']
+
+export const taskCalendarQueryOptions = (query: TaskCalendarQuery) => ({
+  queryKey: [...TASK_CALENDAR_QUERY_KEY, query],
+  queryFn: () => fetchTaskCalendar(query),
+})
+
+export function useTaskCalendar(
+  query: TaskCalendarQuery,
+  queryOptions?: Partial<UseQueryOptions<FetchTaskCalendarResponse>>,
+) {
+  return useQuery<FetchTaskCalendarResponse>({
+    ...taskCalendarQueryOptions(query),
+    ...queryOptions,
+  })
+}
@@ -0,0 +1,63 @@
+import type { TaskMapQuery } from '@nv-internal/validation'
+import {
+  keepPreviousData,
+  type UseQueryOptions,
+  useQuery,
+} from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch the located tasks of a map area, clustered when zoomed out
+ * Uses the /v1/task/map endpoint
+ */
+export async function fetchTaskMap(query: TaskMapQuery) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.task.map.$get({
+        query: {
+          minLat: query.minLat.toString(),
+          maxLat: query.maxLat.toString(),
+          minLng: query.minLng.toString(),
+          maxLng: query.maxLng.toString(),
+          status: query.status,
+          workType: query.workType,
+          assigneeIds: query.assigneeIds,
+          createdFrom: query.createdFrom,
+          createdTo: query.createdTo,
+          completedFrom: query.completedFrom,
+          completedTo: query.completedTo,
+        },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchTaskMapResponse = Awaited<ReturnType<typeof fetchTaskMap>>
+export type TaskMapPin = NonNullable<FetchTaskMapResponse>['tasks'][number]
+export type TaskMapCluster =
+  NonNullable<FetchTaskMapResponse>['clusters'][number]
+
+export const TASK_MAP_QUERY_KEY = ['tasks', 'map']
+
+export const taskMapQueryOptions = (query: TaskMapQuery) => ({
+  queryKey: [...TASK_MAP_QUERY_KEY, query],
+  queryFn: () => fetchTaskMap(query),
+})
+
+/**
+ * Tasks of the visible map area
+ *
+ * Keeps the previous pins while panning so the map does not flash.
+ */
+export function useTaskMap(
+  query: TaskMapQuery,
+  queryOptions?: Partial<UseQueryOptions<FetchTaskMapResponse>>,
+) {
+  return useQuery<FetchTaskMapResponse>({
+    ...taskMapQueryOptions(query),
+    placeholderData: keepPreviousData,
+    ...queryOptions,
+  })
+}
@@ -0,0 +1,48 @@
+import type { TaskScheduleConflictCheckValues } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+export async function fetchTaskScheduleConflicts(
+  data: TaskScheduleConflictCheckValues,
+) {
+  const { data: result } = await callHonoApi(
+    (c) => c.v1.task['schedule-conflicts'].$post({ json: data }),
+    { throwOnError: false, toastOnError: false },
+  )
+
+  return result?.conflicts ?? []
+}
+
+export type TaskScheduleConflict = Awaited<
+  ReturnType<typeof fetchTaskScheduleConflicts>
+>[number]
+
+export const taskScheduleConflictsQueryOptions = (
+  variables: TaskScheduleConflictCheckValues,
+) => ({
+  queryKey: ['task-schedule-conflicts', variables],
+  queryFn: () => fetchTaskScheduleConflicts(variables),
+})
+
+/**
+ * Overlapping tasks of the selected assignees for a planned schedule
+ *
+ * Disabled until there is a start time and at least one assignee.
+ */
+export function useTaskScheduleConflicts(
+  variables: Partial<TaskScheduleConflictCheckValues>,
+  queryOptions?: Partial<UseQueryOptions<TaskScheduleConflict[]>>,
+) {
+  const { assigneeIds = [], scheduledAt } = variables
+  const enabled = assigneeIds.length > 0 && !!scheduledAt
+
+  return useQuery<TaskScheduleConflict[]>({
+    ...taskScheduleConflictsQueryOptions({
+      ...variables,
+      assigneeIds,
+      scheduledAt: scheduledAt ?? '',
+    }),
+    enabled,
+    ...queryOptions,
+  })
+}
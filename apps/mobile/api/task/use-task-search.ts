@@ -15,6 +15,7 @@ export async function fetchTaskSearch(params: TaskSearchFilterQuery) {
           take: params.take?.toString() ?? undefined,
           search: params.search,
           status: params.status,
+          workType: params.workType,
           assigneeIds: params.assigneeIds,
           assignedOnly: params.assignedOnly,
           customerId: params.customerId,
@@ -24,6 +25,9 @@ export async function fetchTaskSearch(params: TaskSearchFilterQuery) {
           createdTo: params.createdTo,
           completedFrom: params.completedFrom,
           completedTo: params.completedTo,
+          nearLat: params.nearLat?.toString(),
+          nearLng: params.nearLng?.toString(),
+          radiusMeters: params.radiusMeters?.toString(),
           sortBy: params.sortBy,
           sortOrder: params.sortOrder,
         },
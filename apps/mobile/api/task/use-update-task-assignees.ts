@@ -8,18 +8,28 @@ import { activitiesQueryOptions } from '../activity/use-activities'
 import { taskQueryOptions } from './use-task'
 import { TASK_LIST_QUERY_KEY } from './use-task-infinite-list'
 
+export type UpdateTaskAssigneesVariables = {
+  taskId: number
+  assigneeIds: string[]
+  // Assign a team (its members are added), null to forget it
+  teamId?: string | null
+  // Move the task in the same step (dispatch board)
+  scheduledAt?: string
+  scheduledEndAt?: string | null
+}
+
 export async function updateTaskAssignees({
   taskId,
   assigneeIds,
-}: {
-  taskId: number
-  assigneeIds: string[]
-}) {
+  teamId,
+  scheduledAt,
+  scheduledEndAt,
+}: UpdateTaskAssigneesVariables) {
   const { data: task } = await callHonoApi(
     (c) =>
       c.v1.task[':id'].assignees.$put({
         param: { id: taskId.toString() },
-        json: { assigneeIds },
+        json: { assigneeIds, teamId, scheduledAt, scheduledEndAt },
       }),
     { toastOnError: true },
   )
@@ -34,13 +44,43 @@ export function useUpdateTaskAssignees(
   mutationOptions?: UseMutationOptions<
     UpdateTaskAssigneesResponse,
     Error,
-    { taskId: number; assigneeIds: string[] }
+    UpdateTaskAssigneesVariables
   >,
 ) {
   const queryClient = useQueryClient()
   const mutation = useMutation({
     mutationFn: updateTaskAssignees,
     ...mutationOptions,
+    onSuccess: (data, ...args) => {
+      mutationOptions?.onSuccess?.(data, ...args)
+
+      // Assigned anyway, warn about workers with an overlapping task
+      const conflictCount = data?.scheduleConflicts.length ?? 0
+      if (conflictCount > 0) {
+        const { toast } = require('@/components/ui/toasts')
+        toast.error(
+          `Đã giao việc nhưng có ${conflictCount} lịch trùng với công việc khác`,
+        )
+      }
+      // ... or who are on approved leave that day
+      const leaveConflictCount = data?.leaveConflicts.length ?? 0
+      if (leaveConflictCount > 0) {
+        const { toast } = require('@/components/ui/toasts')
+        toast.error(
+          `Đã giao việc nhưng có ${leaveConflictCount} nhân viên đang nghỉ phép`,
+        )
+      }
+      // ... or who lack a skill the task requires
+      const unqualifiedCount = new Set(
+        data?.skillIssues.map((issue) => issue.userId),
+      ).size
+      if (unqualifiedCount > 0) {
+        const { toast } = require('@/components/ui/toasts')
+        toast.error(
+          `Đã giao việc nhưng có ${unqualifiedCount} nhân viên thiếu chứng chỉ hoặc chứng chỉ hết hạn`,
+        )
+      }
+    },
     onSettled: (...args) => {
       mutationOptions?.onSettled?.(...args)
       // Invalidate task query
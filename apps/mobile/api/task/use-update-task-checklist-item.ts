@@ -0,0 +1,58 @@
+import {
+  type UseMutationOptions,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+import { activitiesQueryOptions } from '../activity/use-activities'
+import { taskQueryOptions } from './use-task'
+
+export async function updateTaskChecklistItem({
+  taskId,
+  itemId,
+  checked,
+}: {
+  taskId: number
+  itemId: string
+  checked: boolean
+}) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.task[':id'].checklist[':itemId'].$put({
+        param: { id: taskId.toString(), itemId },
+        json: { checked },
+      }),
+    { toastOnError: true },
+  )
+  return data?.item
+}
+
+export type UpdateTaskChecklistItemResponse = Awaited<
+  ReturnType<typeof updateTaskChecklistItem>
+>
+
+export function useUpdateTaskChecklistItem(
+  mutationOptions?: UseMutationOptions<
+    UpdateTaskChecklistItemResponse,
+    Error,
+    { taskId: number; itemId: string; checked: boolean }
+  >,
+) {
+  const queryClient = useQueryClient()
+  const mutation = useMutation({
+    mutationFn: updateTaskChecklistItem,
+    ...mutationOptions,
+    onSettled: (...args) => {
+      mutationOptions?.onSettled?.(...args)
+      queryClient.invalidateQueries({
+        queryKey: taskQueryOptions({ id: args[2].taskId }).queryKey,
+      })
+      queryClient.invalidateQueries({
+        queryKey: activitiesQueryOptions({ topic: `TASK_${args[2].taskId}` })
+          .queryKey,
+      })
+    },
+  })
+
+  return mutation
+}
@@ -12,15 +12,17 @@ import { TASK_LIST_QUERY_KEY } from './use-task-infinite-list'
 export async function updateTaskStatus({
   taskId,
   status,
+  reason,
 }: {
   taskId: number
   status: TaskStatus
+  reason?: string
 }) {
   const { data: task } = await callHonoApi(
     (c) =>
       c.v1.task[':id'].status.$put({
         param: { id: taskId.toString() },
-        json: { status },
+        json: { status, reason },
       }),
     { toastOnError: true },
   )
@@ -35,7 +37,7 @@ export function useUpdateTaskStatus(
   mutationOptions?: UseMutationOptions<
     UpdateTaskStatusResponse,
     Error,
-    { taskId: number; status: TaskStatus }
+    { taskId: number; status: TaskStatus; reason?: string }
   >,
 ) {
   const queryClient = useQueryClient()
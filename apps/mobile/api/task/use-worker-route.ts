@@ -0,0 +1,47 @@
+import type { WorkerRouteQuery } from '@nv-internal/validation'
+import { type UseQueryOptions, useQuery } from '@tanstack/react-query'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch the visiting order of the current user's tasks for a day
+ * Uses the /v1/task/route endpoint
+ */
+export async function fetchWorkerRoute(query: WorkerRouteQuery) {
+  const { data } = await callHonoApi(
+    (c) =>
+      c.v1.task.route.$get({
+        query: {
+          date: query.date,
+          lat: query.lat?.toString(),
+          lng: query.lng?.toString(),
+        },
+      }),
+    { toastOnError: true },
+  )
+
+  return data
+}
+
+export type FetchWorkerRouteResponse = Awaited<
+  ReturnType<typeof fetchWorkerRoute>
+>
+export type WorkerRouteStop =
+  NonNullable<FetchWorkerRouteResponse>['stops'][number]
+
+// Under the task list key so task changes refresh the route
+export const WORKER_ROUTE_QUERY_KEY = ['tasks', 'route']
+
+export const workerRouteQueryOptions = (query: WorkerRouteQuery) => ({
+  queryKey: [...WORKER_ROUTE_QUERY_KEY, query],
+  queryFn: () => fetchWorkerRoute(query),
+})
+
+export function useWorkerRoute(
+  query: WorkerRouteQuery,
+  queryOptions?: Partial<UseQueryOptions<FetchWorkerRouteResponse>>,
+) {
+  return useQuery<FetchWorkerRouteResponse>({
+    ...workerRouteQueryOptions(query),
+    ...queryOptions,
+  })
+}
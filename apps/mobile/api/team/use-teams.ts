@@ -0,0 +1,110 @@
+import type {
+  CreateTeamValues,
+  UpdateTeamValues,
+} from '@nv-internal/validation'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from '@/components/ui/toasts'
+import { callHonoApi } from '@/lib/api-client'
+
+/**
+ * Fetch the teams by name
+ * Uses the /v1/team endpoint
+ */
+export async function fetchTeams() {
+  const { data } = await callHonoApi((c) => c.v1.team.$get(), {
+    toastOnError: true,
+  })
+
+  return data.teams
+}
+
+export type Team = Awaited<ReturnType<typeof fetchTeams>>[number]
+
+export const TEAMS_QUERY_KEY = ['teams']
+
+export function useTeams({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: TEAMS_QUERY_KEY,
+    queryFn: fetchTeams,
+    enabled,
+  })
+}
+
+/**
+ * Create a team
+ * - Admin-only mutation
+ */
+export function useCreateTeam() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (json: CreateTeamValues) => {
+      const { data } = await callHonoApi((c) => c.v1.team.$post({ json }))
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAMS_QUERY_KEY })
+
+      toast.success('Đã tạo đội', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể tạo đội', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Rename a team or change its leader or members
+ * - Admin-only mutation
+ */
+export function useUpdateTeam() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...json }: UpdateTeamValues & { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.team[':id'].$patch({ param: { id }, json }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAMS_QUERY_KEY })
+
+      toast.success('Đã cập nhật đội', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể cập nhật đội', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
+
+/**
+ * Delete a team, its tasks keep their assignees
+ * - Admin-only mutation
+ */
+export function useDeleteTeam() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string }) => {
+      const { data } = await callHonoApi((c) =>
+        c.v1.team[':id'].$delete({ param: { id } }),
+      )
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TEAMS_QUERY_KEY })
+
+      toast.success('Đã xóa đội', { providerKey: 'PERSIST' })
+    },
+    onError: (error) => {
+      toast.error(error.message || 'Không thể xóa đội', {
+        providerKey: 'PERSIST',
+      })
+    },
+  })
+}
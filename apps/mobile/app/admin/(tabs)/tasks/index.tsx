@@ -1,9 +1,20 @@
-import type { TaskSearchFilterQuery, TaskStatus } from '@nv-internal/validation'
+import type {
+  TaskSearchFilterQuery,
+  TaskStatus,
+  TaskWorkType,
+} from '@nv-internal/validation'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { Stack, useRouter } from 'expo-router'
-import { FilterIcon, PlusIcon } from 'lucide-react-native'
+import {
+  CalendarDaysIcon,
+  FilterIcon,
+  LayoutGridIcon,
+  MapIcon,
+  PlusIcon,
+} from 'lucide-react-native'
 import { useMemo, useRef, useState } from 'react'
 import { View } from 'react-native'
+import { useTeams } from '@/api/team/use-teams'
 import { useUserList } from '@/api/user/use-user-list'
 import { AdminTaskList } from '@/components/admin-task-list'
 import { ActiveFilterChips } from '@/components/task/active-filter-chips'
@@ -52,12 +63,20 @@ export default function AdminTasksScreen() {
     )
   }, [users])
 
+  const { data: teams } = useTeams()
+  const teamNames = useMemo(
+    () => Object.fromEntries((teams ?? []).map((team) => [team.id, team.name])),
+    [teams],
+  )
+
   // Convert filter state to API query format
   const apiFilters: Omit<TaskSearchFilterQuery, 'search' | 'cursor' | 'take'> =
     useMemo(() => {
       return {
         status: filterState.status,
+        workType: filterState.workTypes,
         assigneeIds: filterState.assigneeIds,
+        teamId: filterState.teamId,
         createdFrom: filterState.createdFrom?.toISOString(),
         createdTo: filterState.createdTo?.toISOString(),
         completedFrom: filterState.completedFrom?.toISOString(),
@@ -71,7 +90,9 @@ export default function AdminTasksScreen() {
   const activeFilterCount = useMemo(() => {
     return (
       (filterState.status?.length || 0) +
+      (filterState.workTypes?.length || 0) +
       (filterState.assigneeIds?.length || 0) +
+      (filterState.teamId ? 1 : 0) +
       (filterState.createdFrom || filterState.createdTo ? 1 : 0) +
       (filterState.completedFrom || filterState.completedTo ? 1 : 0)
     )
@@ -88,6 +109,13 @@ export default function AdminTasksScreen() {
     }))
   }
 
+  const handleRemoveWorkType = (workType: TaskWorkType) => {
+    setFilterState((prev) => ({
+      ...prev,
+      workTypes: prev.workTypes?.filter((w) => w !== workType),
+    }))
+  }
+
   const handleRemoveAssignee = (userId: string) => {
     setFilterState((prev) => ({
       ...prev,
@@ -95,6 +123,10 @@ export default function AdminTasksScreen() {
     }))
   }
 
+  const handleRemoveTeam = () => {
+    setFilterState((prev) => ({ ...prev, teamId: undefined }))
+  }
+
   const handleRemoveDateFilter = (filterType: 'created' | 'completed') => {
     setFilterState((prev) => {
       if (filterType === 'created') {
@@ -155,6 +187,57 @@ export default function AdminTasksScreen() {
                 </Button>
               )}
 
+              {/* Calendar Button */}
+              <Button
+                accessibilityHint="Điều hướng đến lịch công việc theo ngày hẹn"
+                accessibilityLabel="Lịch công việc"
+                accessibilityRole="button"
+                className="w-10"
+                onPress={() => {
+                  impactAsync(ImpactFeedbackStyle.Light)
+                  router.push('/admin/tasks/calendar')
+                }}
+                size={null}
+                testID="tasks-calendar-button"
+                variant={null}
+              >
+                <Icon as={CalendarDaysIcon} className="size-6" />
+              </Button>
+
+              {/* Dispatch Board Button */}
+              <Button
+                accessibilityHint="Điều hướng đến bảng điều phối công việc trong ngày"
+                accessibilityLabel="Bảng điều phối"
+                accessibilityRole="button"
+                className="w-10"
+                onPress={() => {
+                  impactAsync(ImpactFeedbackStyle.Light)
+                  router.push('/admin/tasks/dispatch')
+                }}
+                size={null}
+                testID="tasks-dispatch-button"
+                variant={null}
+              >
+                <Icon as={LayoutGridIcon} className="size-6" />
+              </Button>
+
+              {/* Map Button */}
+              <Button
+                accessibilityHint="Điều hướng đến bản đồ công việc"
+                accessibilityLabel="Bản đồ công việc"
+                accessibilityRole="button"
+                className="w-10"
+                onPress={() => {
+                  impactAsync(ImpactFeedbackStyle.Light)
+                  router.push('/admin/tasks/map')
+                }}
+                size={null}
+                testID="tasks-map-button"
+                variant={null}
+              >
+                <Icon as={MapIcon} className="size-6" />
+              </Button>
+
               {/* Create Button */}
               <Button
                 accessibilityHint="Điều hướng đến màn hình tạo công việc"
@@ -184,6 +267,9 @@ export default function AdminTasksScreen() {
             onRemoveAssignee={handleRemoveAssignee}
             onRemoveDateFilter={handleRemoveDateFilter}
             onRemoveStatus={handleRemoveStatus}
+            onRemoveTeam={handleRemoveTeam}
+            onRemoveWorkType={handleRemoveWorkType}
+            teamNames={teamNames}
             userNames={userNames}
           />
         )}
@@ -47,6 +47,22 @@ export default function AdminLayout() {
 
       {/* Task management screens */}
       <Stack.Screen name="tasks/create" />
+      <Stack.Screen name="tasks/calendar" />
+      <Stack.Screen name="tasks/scheduled" />
+      <Stack.Screen name="tasks/dispatch" />
+      <Stack.Screen name="tasks/map" />
+
+      {/* Check-in settings and review */}
+      <Stack.Screen name="settings/check-in" />
+      <Stack.Screen name="task-events/flags" />
+
+      {/* Workday attendance */}
+      <Stack.Screen name="attendance/index" />
+      <Stack.Screen name="leave/index" />
+      <Stack.Screen name="holidays/index" />
+      <Stack.Screen name="teams/index" />
+      <Stack.Screen name="skills/index" />
+      <Stack.Screen name="skills/[skillId]" />
 
       {/* Payment screens */}
       <Stack.Screen
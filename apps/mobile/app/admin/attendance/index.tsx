@@ -0,0 +1,208 @@
+import { format, parseISO } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { Stack } from 'expo-router'
+import { ChevronLeftIcon, ChevronRightIcon } from 'lucide-react-native'
+import { useState } from 'react'
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  View,
+} from 'react-native'
+import {
+  type AttendanceGridWorker,
+  type AttendanceStatus,
+  useAttendanceGrid,
+} from '@/api/attendance/use-attendance'
+import {
+  ATTENDANCE_STATUS_DOT_CLASSES,
+  ATTENDANCE_STATUS_LABELS,
+} from '@/components/attendance/attendance-status-badge'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import {
+  formatMonthDisplay,
+  getCurrentMonth,
+  getMonthDateRange,
+  getNextMonth,
+  getPreviousMonth,
+} from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import { getUserFullName } from '@/utils/user-helper'
+
+const LEGEND_STATUSES: AttendanceStatus[] = [
+  'PRESENT',
+  'LATE',
+  'ABSENT',
+  'ON_LEAVE',
+  'DAY_OFF',
+]
+
+/**
+ * Monthly attendance of the workers
+ *
+ * One row per worker and a cell per day: present, late (clocked in after the
+ * start of the workday + grace), absent, on leave or day off, from the workday
+ * clock-ins of the worker home screen.
+ */
+export default function AttendanceGridScreen() {
+  const currentMonth = getCurrentMonth()
+  const [selected, setSelected] = useState(currentMonth)
+
+  const { startDate, endDate } = getMonthDateRange(
+    selected.year,
+    selected.month,
+  )
+  const {
+    data: grid,
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+  } = useAttendanceGrid({ from: startDate, to: endDate })
+
+  const changeMonth = (next: { year: number; month: number }) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    setSelected(next)
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Bảng điểm danh',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <ScrollView
+        className="flex-1 bg-background"
+        contentContainerClassName="gap-4 p-4 pb-28"
+        refreshControl={
+          <RefreshControl onRefresh={refetch} refreshing={isRefetching} />
+        }
+      >
+        <View className="flex-row items-center justify-between">
+          <Button
+            accessibilityLabel="Tháng trước"
+            onPress={() =>
+              changeMonth(getPreviousMonth(selected.year, selected.month))
+            }
+            size="icon"
+            variant="outline"
+          >
+            <Icon as={ChevronLeftIcon} />
+          </Button>
+          <Text className="font-semibold text-lg">
+            {formatMonthDisplay(selected.year, selected.month)}
+          </Text>
+          <Button
+            accessibilityLabel="Tháng sau"
+            disabled={
+              selected.year === currentMonth.year &&
+              selected.month === currentMonth.month
+            }
+            onPress={() =>
+              changeMonth(getNextMonth(selected.year, selected.month))
+            }
+            size="icon"
+            variant="outline"
+          >
+            <Icon as={ChevronRightIcon} />
+          </Button>
+        </View>
+
+        <View className="flex-row flex-wrap gap-3">
+          {LEGEND_STATUSES.map((status) => (
+            <View className="flex-row items-center gap-1" key={status}>
+              <View
+                className={cn(
+                  'size-2.5 rounded-full',
+                  ATTENDANCE_STATUS_DOT_CLASSES[status],
+                )}
+              />
+              <Text className="text-muted-foreground text-xs">
+                {ATTENDANCE_STATUS_LABELS[status]}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator className="py-12" />
+        ) : isError || !grid ? (
+          <EmptyState
+            className="py-12"
+            image="curiosity"
+            messageDescription="Không thể tải bảng điểm danh. Vui lòng thử lại."
+            messageTitle="Lỗi tải bảng điểm danh"
+          />
+        ) : grid.workers.length === 0 ? (
+          <EmptyState
+            className="py-12"
+            image="laziness"
+            messageDescription="Chưa có nhân viên nào đang hoạt động"
+            messageTitle="Không có nhân viên"
+          />
+        ) : (
+          <>
+            <Text className="text-muted-foreground text-xs">
+              Vào làm lúc {grid.policy.workdayStartTime}, trễ sau{' '}
+              {grid.policy.attendanceGraceMinutes} phút
+            </Text>
+            {grid.workers.map((worker) => (
+              <AttendanceRow key={worker.id} worker={worker} />
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </>
+  )
+}
+
+function AttendanceRow({ worker }: { worker: AttendanceGridWorker }) {
+  return (
+    <View
+      className="gap-2 rounded-lg border border-border bg-card p-3"
+      testID={`attendance-row-${worker.id}`}
+    >
+      <View className="flex-row items-center justify-between gap-2">
+        <Text className="flex-1 font-sans-semibold" numberOfLines={1}>
+          {getUserFullName(worker)}
+        </Text>
+        <Text className="text-muted-foreground text-xs">
+          {worker.totals.present} có mặt · {worker.totals.late} trễ ·{' '}
+          {worker.totals.absent} vắng
+          {worker.totals.onLeave > 0 && ` · ${worker.totals.onLeave} nghỉ phép`}
+        </Text>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View className="flex-row gap-1">
+          {worker.days.map((cell) => (
+            <View
+              accessibilityLabel={`${format(parseISO(cell.date), 'dd/MM')}: ${ATTENDANCE_STATUS_LABELS[cell.status]}${
+                cell.clockInAt
+                  ? `, vào ${format(new Date(cell.clockInAt), 'HH:mm')}`
+                  : ''
+              }`}
+              className="w-6 items-center gap-1"
+              key={cell.date}
+            >
+              <Text className="text-[10px] text-muted-foreground">
+                {format(parseISO(cell.date), 'd')}
+              </Text>
+              <View
+                className={cn(
+                  'size-4 rounded-full',
+                  ATTENDANCE_STATUS_DOT_CLASSES[cell.status],
+                )}
+              />
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
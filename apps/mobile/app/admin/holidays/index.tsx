@@ -0,0 +1,227 @@
+import { format, getDay, parseISO } from 'date-fns'
+import { Stack } from 'expo-router'
+import {
+  CalendarDaysIcon,
+  CalendarXIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  TrashIcon,
+} from 'lucide-react-native'
+import { useRef, useState } from 'react'
+import { Alert, FlatList, RefreshControl, View } from 'react-native'
+import {
+  useCreateHoliday,
+  useDeleteHoliday,
+  useHolidays,
+} from '@/api/holiday/use-holidays'
+import {
+  TaskDatePickerModal,
+  type TaskDatePickerModalMethods,
+} from '@/components/task/task-date-picker-modal'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Input } from '@/components/ui/input'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+const WEEKDAY_LABELS = [
+  'Chủ nhật',
+  'Thứ 2',
+  'Thứ 3',
+  'Thứ 4',
+  'Thứ 5',
+  'Thứ 6',
+  'Thứ 7',
+]
+
+/** "Thứ 4, 17/02/2027" */
+function formatHolidayDate(date: string) {
+  const day = parseISO(date)
+  return `${WEEKDAY_LABELS[getDay(day)]}, ${format(day, 'dd/MM/yyyy')}`
+}
+
+/**
+ * Public holidays by year - not working days for SLA deadlines, recurring
+ * schedules, attendance and the expected working days of reports
+ */
+export default function HolidaysScreen() {
+  const datePickerModalRef = useRef<TaskDatePickerModalMethods>(null)
+
+  const [year, setYear] = useState(() => new Date().getFullYear())
+  const [date, setDate] = useState<string>()
+  const [name, setName] = useState('')
+
+  const {
+    data: holidays = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useHolidays({ year })
+  const { mutate: createHoliday, isPending: isCreating } = useCreateHoliday()
+  const {
+    mutate: deleteHoliday,
+    isPending: isDeleting,
+    variables,
+  } = useDeleteHoliday()
+
+  const canAdd = !!date && name.trim().length > 0 && !isCreating
+
+  const handleAdd = () => {
+    if (!date || !name.trim()) {
+      return
+    }
+    createHoliday(
+      { date, name: name.trim() },
+      {
+        onSuccess: () => {
+          setDate(undefined)
+          setName('')
+        },
+      },
+    )
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Ngày nghỉ lễ',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : holidays}
+        keyboardShouldPersistTaps="handled"
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Chưa có ngày nghỉ lễ nào trong năm này."
+              messageTitle="Không có ngày nghỉ lễ"
+            />
+          )
+        }
+        ListHeaderComponent={
+          <View className="mb-2 gap-3">
+            <View className="flex-row items-center justify-between">
+              <Button
+                accessibilityLabel="Năm trước"
+                onPress={() => setYear((value) => value - 1)}
+                size="icon"
+                variant="outline"
+              >
+                <Icon as={ChevronLeftIcon} />
+              </Button>
+              <Text className="font-semibold text-lg">Năm {year}</Text>
+              <Button
+                accessibilityLabel="Năm sau"
+                onPress={() => setYear((value) => value + 1)}
+                size="icon"
+                variant="outline"
+              >
+                <Icon as={ChevronRightIcon} />
+              </Button>
+            </View>
+
+            <View className="gap-2 rounded-lg border border-border bg-card p-3">
+              <Text className="font-sans-semibold">Thêm ngày nghỉ lễ</Text>
+              <Button
+                className="justify-start"
+                onPress={() => datePickerModalRef.current?.present()}
+                testID="holiday-date-button"
+                variant="outline"
+              >
+                <Icon as={CalendarDaysIcon} className="size-4" />
+                <Text>{date ? formatHolidayDate(date) : 'Chọn ngày'}</Text>
+              </Button>
+              <Input
+                accessibilityLabel="Tên ngày nghỉ lễ"
+                editable={!isCreating}
+                maxLength={100}
+                onChangeText={setName}
+                placeholder="Ví dụ: Tết Nguyên đán (mùng 1)"
+                testID="holiday-name-input"
+                value={name}
+              />
+              <Button
+                className={cn(isCreating && 'opacity-50')}
+                disabled={!canAdd}
+                onPress={handleAdd}
+                testID="holiday-add-button"
+              >
+                <Text>{isCreating ? 'Đang thêm...' : 'Thêm'}</Text>
+              </Button>
+            </View>
+          </View>
+        }
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách ngày nghỉ lễ"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => (
+          <View
+            className="flex-row items-center gap-3 rounded-lg border border-border bg-card p-3"
+            testID={`holiday-${item.date}`}
+          >
+            <Icon as={CalendarXIcon} className="size-4 text-primary" />
+            <View className="flex-1">
+              <Text className="font-sans-semibold">{item.name}</Text>
+              <Text className="text-muted-foreground text-sm">
+                {formatHolidayDate(item.date)}
+              </Text>
+            </View>
+            <Button
+              accessibilityLabel={`Xóa ${item.name}`}
+              disabled={isDeleting && variables?.id === item.id}
+              onPress={() =>
+                Alert.alert(
+                  'Xóa ngày nghỉ lễ',
+                  `${item.name} (${formatHolidayDate(item.date)}) sẽ được tính là ngày làm việc.`,
+                  [
+                    { text: 'Không', style: 'cancel' },
+                    {
+                      text: 'Xóa',
+                      style: 'destructive',
+                      onPress: () => deleteHoliday({ id: item.id }),
+                    },
+                  ],
+                )
+              }
+              size="icon"
+              variant="ghost"
+            >
+              <Icon as={TrashIcon} className="size-4 text-destructive" />
+            </Button>
+          </View>
+        )}
+      />
+
+      <TaskDatePickerModal
+        initialFromDate={date ? parseISO(date) : undefined}
+        label="Chọn ngày nghỉ lễ"
+        onApply={(fromDate) => {
+          setDate(fromDate ? format(fromDate, 'yyyy-MM-dd') : undefined)
+          if (fromDate) {
+            setYear(fromDate.getFullYear())
+          }
+        }}
+        ref={datePickerModalRef}
+      />
+    </>
+  )
+}
@@ -0,0 +1,128 @@
+import { LeaveStatus } from '@nv-internal/prisma-client'
+import { Stack } from 'expo-router'
+import { useState } from 'react'
+import { FlatList, RefreshControl, View } from 'react-native'
+import {
+  useLeaveRequests,
+  useReviewLeaveRequest,
+} from '@/api/leave/use-leave-requests'
+import { LeaveRequestCard } from '@/components/leave/leave-request-card'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Text } from '@/components/ui/text'
+
+const STATUS_FILTERS: { status: LeaveStatus; label: string }[] = [
+  { status: LeaveStatus.PENDING, label: 'Chờ duyệt' },
+  { status: LeaveStatus.APPROVED, label: 'Đã duyệt' },
+  { status: LeaveStatus.REJECTED, label: 'Từ chối' },
+]
+
+/**
+ * Leave requests of the workers, to approve or reject them
+ * Approved leave blocks assigning the worker on those days
+ */
+export default function LeaveRequestsReviewScreen() {
+  const [status, setStatus] = useState<LeaveStatus>(LeaveStatus.PENDING)
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useLeaveRequests({ status })
+  const { mutate: review, isPending, variables } = useReviewLeaveRequest()
+
+  const leaveRequests = data?.pages.flatMap((page) => page.leaveRequests) ?? []
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Duyệt nghỉ phép',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : leaveRequests}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Không có đơn nghỉ phép nào ở trạng thái này."
+              messageTitle="Không có đơn nghỉ phép"
+            />
+          )
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <View className="py-4">
+              <TaskListItemSkeleton />
+            </View>
+          ) : null
+        }
+        ListHeaderComponent={
+          <View className="mb-2 flex-row gap-2">
+            {STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.status}
+                onPress={() => setStatus(filter.status)}
+                size="sm"
+                testID={`leave-status-${filter.status}`}
+                variant={status === filter.status ? 'default' : 'outline'}
+              >
+                <Text>{filter.label}</Text>
+              </Button>
+            ))}
+          </View>
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) {
+            fetchNextPage()
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách nghỉ phép"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => {
+          const isReviewable = item.status === LeaveStatus.PENDING
+          return (
+            <LeaveRequestCard
+              isPending={isPending && variables?.id === item.id}
+              leaveRequest={item}
+              onApprove={
+                isReviewable
+                  ? () => review({ id: item.id, status: 'APPROVED' })
+                  : undefined
+              }
+              onReject={
+                isReviewable
+                  ? () => review({ id: item.id, status: 'REJECTED' })
+                  : undefined
+              }
+              showUser
+            />
+          )
+        }}
+      />
+    </>
+  )
+}
@@ -1,3 +1,4 @@
+import type { DaysWorkedSource } from '@nv-internal/validation'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { Link, Stack, useLocalSearchParams } from 'expo-router'
 import {
@@ -6,6 +7,7 @@ import {
   CalendarIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  ClockIcon,
   MinusIcon,
 } from 'lucide-react-native'
 import { useCallback, useState } from 'react'
@@ -25,6 +27,10 @@ import { EmptyState } from '@/components/ui/empty-state'
 import { Icon } from '@/components/ui/icon'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
+import {
+  formatHoldDuration,
+  HOLD_REASON_LABELS,
+} from '@/components/ui/task-hold-reason-badge'
 import { Text } from '@/components/ui/text'
 import { UserAvatar } from '@/components/user-avatar'
 import {
@@ -38,6 +44,11 @@ import {
 import { cn, formatCurrencyCompact } from '@/lib/utils'
 import { getUserFullName } from '@/utils/user-helper'
 
+const DAYS_WORKED_SOURCES: { value: DaysWorkedSource; label: string }[] = [
+  { value: 'visits', label: 'Ngày công theo công việc' },
+  { value: 'attendance', label: 'Ngày công theo điểm danh' },
+]
+
 export default function EmployeeReportDetailScreen() {
   const { userId, year, month } = useLocalSearchParams<{
     userId: string
@@ -63,6 +74,10 @@ export default function EmployeeReportDetailScreen() {
     return currentMonth.month
   })
 
+  // Days worked from task check-ins or from the workday attendance
+  const [daysWorkedSource, setDaysWorkedSource] =
+    useState<DaysWorkedSource>('visits')
+
   // Get date range for selected month
   const dateRange = getMonthDateRange(selectedYear, selectedMonth)
 
@@ -82,6 +97,7 @@ export default function EmployeeReportDetailScreen() {
     startDate: dateRange.startDate,
     endDate: dateRange.endDate,
     timezone: 'Asia/Ho_Chi_Minh',
+    daysWorkedSource,
   })
 
   // Fetch employee report for previous month (for comparison)
@@ -90,6 +106,7 @@ export default function EmployeeReportDetailScreen() {
     startDate: prevDateRange.startDate,
     endDate: prevDateRange.endDate,
     timezone: 'Asia/Ho_Chi_Minh',
+    daysWorkedSource,
   })
 
   // Fetch user to display name in header
@@ -208,6 +225,26 @@ export default function EmployeeReportDetailScreen() {
           />
         ) : (
           <>
+            {/* Days worked source */}
+            <View className="flex-row gap-2">
+              {DAYS_WORKED_SOURCES.map(({ value, label }) => (
+                <Button
+                  accessibilityState={{ selected: daysWorkedSource === value }}
+                  className="flex-1"
+                  key={value}
+                  onPress={() => {
+                    impactAsync(ImpactFeedbackStyle.Light)
+                    setDaysWorkedSource(value)
+                  }}
+                  size="sm"
+                  testID={`days-worked-source-${value}`}
+                  variant={daysWorkedSource === value ? 'default' : 'outline'}
+                >
+                  <Text>{label}</Text>
+                </Button>
+              ))}
+            </View>
+
             {/* Metrics Cards */}
             <View className="flex-row gap-4">
               <MetricCard
@@ -219,7 +256,7 @@ export default function EmployeeReportDetailScreen() {
                 }
                 className="flex-1"
                 label="Ngày làm việc"
-                value={reportData.metrics.daysWorked.toString()}
+                value={`${reportData.metrics.daysWorked}/${reportData.metrics.expectedWorkingDays}`}
               />
               <MetricCard
                 change={
@@ -234,6 +271,68 @@ export default function EmployeeReportDetailScreen() {
               />
             </View>
 
+            <MetricCard
+              change={
+                prevReportData
+                  ? Math.round(
+                      (reportData.metrics.hoursOnSite -
+                        prevReportData.metrics.hoursOnSite) *
+                        10,
+                    ) / 10
+                  : undefined
+              }
+              label="Giờ làm việc tại hiện trường"
+              value={`${reportData.metrics.hoursOnSite.toLocaleString('vi-VN', { maximumFractionDigits: 1 })} giờ`}
+            />
+
+            <Link
+              asChild
+              href={{
+                pathname: '/admin/reports/timesheet/[userId]',
+                params: {
+                  userId: userId || '',
+                  year: selectedYear,
+                  month: selectedMonth,
+                },
+              }}
+            >
+              <Button
+                testID="employee-report-timesheet-button"
+                variant="outline"
+              >
+                <Icon as={ClockIcon} />
+                <Text>Bảng chấm công và tăng ca</Text>
+              </Button>
+            </Link>
+
+            <View className="flex-row gap-4">
+              <MetricCard
+                change={
+                  prevReportData
+                    ? Math.round(
+                        (reportData.metrics.travelDistanceKm -
+                          prevReportData.metrics.travelDistanceKm) *
+                          10,
+                      ) / 10
+                    : undefined
+                }
+                className="flex-1"
+                label="Quãng đường di chuyển"
+                value={`${reportData.metrics.travelDistanceKm.toLocaleString('vi-VN', { maximumFractionDigits: 1 })} km`}
+              />
+              <MetricCard
+                change={
+                  prevReportData
+                    ? reportData.metrics.travelMinutes -
+                      prevReportData.metrics.travelMinutes
+                    : undefined
+                }
+                className="flex-1"
+                label="Thời gian di chuyển"
+                value={formatHoldDuration(reportData.metrics.travelMinutes)}
+              />
+            </View>
+
             <MetricCard
               change={
                 prevReportData
@@ -247,6 +346,41 @@ export default function EmployeeReportDetailScreen() {
               valueClassName="text-2xl"
             />
 
+            {/* Non-productive time (tasks put on hold) */}
+            {reportData.metrics.nonProductiveMinutes > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Thời gian tạm dừng</CardTitle>
+                  <CardDescription>
+                    Không tính là thời gian làm việc hiệu quả
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="gap-2">
+                  <Text className="font-sans-bold text-xl">
+                    {formatHoldDuration(
+                      reportData.metrics.nonProductiveMinutes,
+                    )}
+                  </Text>
+                  {reportData.holdBreakdown
+                    .filter((item) => item.holdCount > 0)
+                    .map((item) => (
+                      <View
+                        className="flex-row items-center justify-between"
+                        key={item.reason}
+                      >
+                        <Text className="text-muted-foreground text-sm">
+                          {HOLD_REASON_LABELS[item.reason]} ({item.holdCount}{' '}
+                          lần)
+                        </Text>
+                        <Text className="font-sans-medium text-sm">
+                          {formatHoldDuration(item.minutes)}
+                        </Text>
+                      </View>
+                    ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Task List */}
             {reportData.tasks.length > 0 ? (
               <Card>
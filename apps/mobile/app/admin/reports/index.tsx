@@ -17,7 +17,9 @@ import { FlatList } from 'react-native-gesture-handler'
 import type { EmployeeSummary } from '@/api/reports/use-employees-summary'
 import { useEmployeesSummary } from '@/api/reports/use-employees-summary'
 import { EmployeeListItem } from '@/components/reports/employee-list-item'
+import { ExpiringCertificatesCard } from '@/components/reports/expiring-certificates-card'
 import { SummaryStatsCard } from '@/components/reports/summary-stats-card'
+import { TeamTotalsCard } from '@/components/reports/team-totals-card'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { EmptyState } from '@/components/ui/empty-state'
@@ -224,6 +226,12 @@ export default function ReportsSummaryScreen() {
         {/* Summary Statistics */}
         <SummaryStatsCard summary={data?.summary} />
 
+        {/* Team Totals */}
+        <TeamTotalsCard teams={data?.teams} />
+
+        {/* Certificates Expiring Soon */}
+        <ExpiringCertificatesCard />
+
         {/* Search Box */}
         {data?.employees && data.employees.length > 0 && (
           <SearchBox
@@ -248,6 +256,7 @@ export default function ReportsSummaryScreen() {
     ),
     [
       data?.summary,
+      data?.teams,
       data?.employees,
       searchQuery,
       selectedYear,
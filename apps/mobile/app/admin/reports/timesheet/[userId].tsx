@@ -0,0 +1,251 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { Stack, useLocalSearchParams } from 'expo-router'
+import { ChevronLeftIcon, ChevronRightIcon } from 'lucide-react-native'
+import { useState } from 'react'
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  View,
+} from 'react-native'
+import { useTimesheet } from '@/api/reports/use-timesheet'
+import { useUserList } from '@/api/user/use-user-list'
+import { UnpairedVisitCard } from '@/components/timesheet/unpaired-visit-card'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Separator } from '@/components/ui/separator'
+import { formatHoldDuration } from '@/components/ui/task-hold-reason-badge'
+import { Text } from '@/components/ui/text'
+import {
+  formatMonthDisplay,
+  getCurrentMonth,
+  getMonthDateRange,
+  getNextMonth,
+  getPreviousMonth,
+} from '@/lib/date-utils'
+import { cn } from '@/lib/utils'
+import { getUserFullName } from '@/utils/user-helper'
+
+/**
+ * Monthly timesheet of an employee for payroll
+ *
+ * On-site time per week and day with the overtime beyond the thresholds of
+ * the settings. Visits without a check-out are listed first so the admin can
+ * enter the actual time, they count once corrected.
+ */
+export default function EmployeeTimesheetScreen() {
+  const { userId, year, month } = useLocalSearchParams<{
+    userId: string
+    year?: string
+    month?: string
+  }>()
+  const currentMonth = getCurrentMonth()
+  const [selected, setSelected] = useState(() => ({
+    year: Number.parseInt(year ?? '', 10) || currentMonth.year,
+    month: Number.parseInt(month ?? '', 10) || currentMonth.month,
+  }))
+
+  const dateRange = getMonthDateRange(selected.year, selected.month)
+  const {
+    data: timesheet,
+    isLoading,
+    isError,
+    refetch,
+    isRefetching,
+  } = useTimesheet({ userId: userId || '', ...dateRange })
+
+  const { data: users } = useUserList()
+  const selectedUser = users?.find((u) => u.id === userId)
+
+  const taskTitles = new Map(
+    timesheet?.tasks.map((task) => [task.id, task.title]),
+  )
+
+  const changeMonth = (next: { year: number; month: number }) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    setSelected(next)
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: selectedUser
+            ? `Chấm công · ${getUserFullName(selectedUser)}`
+            : 'Bảng chấm công',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <ScrollView
+        className="flex-1 bg-background"
+        contentContainerClassName="gap-4 p-4 pb-28"
+        refreshControl={
+          <RefreshControl onRefresh={refetch} refreshing={isRefetching} />
+        }
+      >
+        <View className="flex-row items-center justify-between">
+          <Button
+            accessibilityLabel="Tháng trước"
+            onPress={() =>
+              changeMonth(getPreviousMonth(selected.year, selected.month))
+            }
+            size="icon"
+            variant="outline"
+          >
+            <Icon as={ChevronLeftIcon} />
+          </Button>
+          <Text className="font-semibold text-lg">
+            {formatMonthDisplay(selected.year, selected.month)}
+          </Text>
+          <Button
+            accessibilityLabel="Tháng sau"
+            disabled={
+              selected.year === currentMonth.year &&
+              selected.month === currentMonth.month
+            }
+            onPress={() =>
+              changeMonth(getNextMonth(selected.year, selected.month))
+            }
+            size="icon"
+            variant="outline"
+          >
+            <Icon as={ChevronRightIcon} />
+          </Button>
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator className="py-12" />
+        ) : isError || !timesheet ? (
+          <EmptyState
+            className="py-12"
+            image="curiosity"
+            messageDescription="Không thể tải bảng chấm công. Vui lòng thử lại."
+            messageTitle="Lỗi tải bảng chấm công"
+          />
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Tổng thời gian tại hiện trường</CardTitle>
+                <CardDescription>
+                  Tăng ca khi quá {timesheet.thresholds.dailyOvertimeHours}{' '}
+                  giờ/ngày hoặc {timesheet.thresholds.weeklyOvertimeHours}{' '}
+                  giờ/tuần
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="gap-1">
+                <Text className="font-sans-bold text-2xl">
+                  {formatHoldDuration(timesheet.totals.minutes)}
+                </Text>
+                <Text className="text-muted-foreground text-sm">
+                  Giờ thường{' '}
+                  {formatHoldDuration(timesheet.totals.regularMinutes)} · Tăng
+                  ca {formatHoldDuration(timesheet.totals.overtimeMinutes)}
+                </Text>
+              </CardContent>
+            </Card>
+
+            {timesheet.unpaired.length > 0 && (
+              <View className="gap-2">
+                <Text className="font-sans-semibold">
+                  Chưa check-out ({timesheet.unpaired.length})
+                </Text>
+                {timesheet.unpaired.map((visit) => (
+                  <UnpairedVisitCard
+                    key={visit.visitId}
+                    taskTitle={taskTitles.get(visit.taskId)}
+                    visit={visit}
+                  />
+                ))}
+              </View>
+            )}
+
+            {timesheet.weeks.length > 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Theo tuần</CardTitle>
+                </CardHeader>
+                <CardContent className="gap-3">
+                  {timesheet.weeks.map((week, index) => (
+                    <View key={week.weekStart}>
+                      {index > 0 && <Separator className="mb-3" />}
+                      <TimesheetRow
+                        label={`Tuần từ ${format(parseISO(week.weekStart), 'dd/MM')}`}
+                        minutes={week.minutes}
+                        overtimeMinutes={week.overtimeMinutes}
+                      />
+                      {timesheet.days
+                        .filter(
+                          (day) =>
+                            day.date >= week.weekStart &&
+                            day.date < nextWeekStart(week.weekStart),
+                        )
+                        .map((day) => (
+                          <TimesheetRow
+                            className="pl-3"
+                            key={day.date}
+                            label={format(parseISO(day.date), 'dd/MM')}
+                            minutes={day.minutes}
+                            overtimeMinutes={day.overtimeMinutes}
+                          />
+                        ))}
+                    </View>
+                  ))}
+                </CardContent>
+              </Card>
+            ) : (
+              <EmptyState
+                className="py-8"
+                image="laziness"
+                messageDescription="Nhân viên chưa có lượt làm việc nào trong tháng này"
+                messageTitle="Chưa có giờ làm"
+              />
+            )}
+          </>
+        )}
+      </ScrollView>
+    </>
+  )
+}
+
+const nextWeekStart = (weekStart: string) =>
+  format(addDays(parseISO(weekStart), 7), 'yyyy-MM-dd')
+
+function TimesheetRow({
+  label,
+  minutes,
+  overtimeMinutes,
+  className,
+}: {
+  label: string
+  minutes: number
+  overtimeMinutes: number
+  className?: string
+}) {
+  return (
+    <View
+      className={cn('flex-row items-center justify-between py-1', className)}
+    >
+      <Text className="text-sm">{label}</Text>
+      <Text className="font-sans-medium text-sm">
+        {formatHoldDuration(minutes)}
+        {overtimeMinutes > 0 && (
+          <Text className="text-amber-700 text-sm dark:text-amber-400">
+            {' '}
+            (+{formatHoldDuration(overtimeMinutes)} tăng ca)
+          </Text>
+        )}
+      </Text>
+    </View>
+  )
+}
@@ -0,0 +1,264 @@
+import { GeofenceMode } from '@nv-internal/prisma-client'
+import {
+  MAX_DAILY_OVERTIME_HOURS,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MAX_ROAD_DISTANCE_MULTIPLIER,
+  MAX_WEEKLY_OVERTIME_HOURS,
+  MIN_GEOFENCE_RADIUS_METERS,
+} from '@nv-internal/validation'
+import { Stack } from 'expo-router'
+import {
+  BanIcon,
+  MessageSquareTextIcon,
+  TriangleAlertIcon,
+} from 'lucide-react-native'
+import { useEffect, useState } from 'react'
+import { ActivityIndicator, View } from 'react-native'
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
+import {
+  useAppSettings,
+  useUpdateAppSettings,
+} from '@/api/settings/use-app-settings'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { RadioCard, RadioGroup } from '@/components/ui/radio-card'
+import { Text } from '@/components/ui/text'
+
+const GEOFENCE_MODE_OPTIONS = [
+  {
+    mode: GeofenceMode.WARN,
+    icon: TriangleAlertIcon,
+    title: 'Chỉ cảnh báo',
+    description: 'Nhân viên vẫn check-in được, admin xem lại sau',
+  },
+  {
+    mode: GeofenceMode.REQUIRE_NOTE,
+    icon: MessageSquareTextIcon,
+    title: 'Bắt buộc ghi chú lý do',
+    description: 'Nhân viên phải giải thích vì sao ở ngoài phạm vi',
+  },
+  {
+    mode: GeofenceMode.BLOCK,
+    icon: BanIcon,
+    title: 'Chặn check-in',
+    description: 'Nhân viên phải đến đúng địa điểm công việc',
+  },
+]
+
+/**
+ * Check-in settings: allowed distance from the task location and what
+ * happens when a worker checks in / out farther away
+ *
+ * A task location can override the radius (large sites). The road multiplier
+ * turns straight lines between jobs into the mileage of travel logs, the
+ * overtime thresholds apply to the timesheets built from check-ins.
+ */
+export default function AdminCheckInSettingsScreen() {
+  const { data: settings, isLoading } = useAppSettings()
+  const { mutate: updateSettings, isPending } = useUpdateAppSettings()
+  const [radius, setRadius] = useState('')
+  const [mode, setMode] = useState<GeofenceMode>(GeofenceMode.WARN)
+  const [multiplier, setMultiplier] = useState('')
+  const [dailyHours, setDailyHours] = useState('')
+  const [weeklyHours, setWeeklyHours] = useState('')
+
+  useEffect(() => {
+    if (settings) {
+      setRadius(settings.geofenceRadiusMeters.toString())
+      setMode(settings.geofenceMode)
+      setMultiplier(settings.roadDistanceMultiplier.toString())
+      setDailyHours(settings.dailyOvertimeHours.toString())
+      setWeeklyHours(settings.weeklyOvertimeHours.toString())
+    }
+  }, [settings])
+
+  const radiusMeters = Number.parseInt(radius, 10)
+  const isRadiusValid =
+    radiusMeters >= MIN_GEOFENCE_RADIUS_METERS &&
+    radiusMeters <= MAX_GEOFENCE_RADIUS_METERS
+  // Accept a decimal comma, as typed on Vietnamese keyboards
+  const roadDistanceMultiplier = Number.parseFloat(multiplier.replace(',', '.'))
+  const isMultiplierValid =
+    roadDistanceMultiplier >= 1 &&
+    roadDistanceMultiplier <= MAX_ROAD_DISTANCE_MULTIPLIER
+  const dailyOvertimeHours = Number.parseFloat(dailyHours.replace(',', '.'))
+  const weeklyOvertimeHours = Number.parseFloat(weeklyHours.replace(',', '.'))
+  const isOvertimeValid =
+    dailyOvertimeHours >= 1 &&
+    dailyOvertimeHours <= MAX_DAILY_OVERTIME_HOURS &&
+    weeklyOvertimeHours >= 1 &&
+    weeklyOvertimeHours <= MAX_WEEKLY_OVERTIME_HOURS
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Cài đặt check-in' }} />
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <KeyboardAwareScrollView
+          bottomOffset={40}
+          contentContainerClassName="gap-3 p-4 pb-safe"
+        >
+          <Card className="bg-muted dark:border-white/20">
+            <CardHeader>
+              <CardTitle>Phạm vi cho phép</CardTitle>
+              <CardDescription>
+                Khoảng cách tối đa từ vị trí công việc khi check-in / check-out.
+                Có thể đặt riêng cho từng địa điểm (ví dụ nhà máy lớn).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="gap-1.5">
+              <View className="flex-row items-center gap-2">
+                <Input
+                  accessibilityLabel="Bán kính cho phép (mét)"
+                  className="flex-1"
+                  editable={!isPending}
+                  keyboardType="number-pad"
+                  onChangeText={setRadius}
+                  testID="geofence-radius-input"
+                  value={radius}
+                />
+                <Text className="text-muted-foreground">mét</Text>
+              </View>
+              {!isRadiusValid && (
+                <Text className="text-destructive text-sm">
+                  Bán kính từ {MIN_GEOFENCE_RADIUS_METERS}m đến{' '}
+                  {MAX_GEOFENCE_RADIUS_METERS}m
+                </Text>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-muted dark:border-white/20">
+            <CardHeader>
+              <CardTitle>Khi ở ngoài phạm vi</CardTitle>
+              <CardDescription>
+                Mọi lần check-in / check-out ngoài phạm vi đều được gắn cờ để
+                admin xem xét.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RadioGroup>
+                {GEOFENCE_MODE_OPTIONS.map((option) => (
+                  <RadioCard
+                    description={option.description}
+                    icon={
+                      <option.icon
+                        className="text-muted-foreground"
+                        size={20}
+                      />
+                    }
+                    key={option.mode}
+                    onPress={() => setMode(option.mode)}
+                    selected={mode === option.mode}
+                    testID={`geofence-mode-${option.mode}`}
+                    title={option.title}
+                  />
+                ))}
+              </RadioGroup>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-muted dark:border-white/20">
+            <CardHeader>
+              <CardTitle>Quãng đường di chuyển</CardTitle>
+              <CardDescription>
+                Quãng đường giữa hai công việc được tính theo đường chim bay
+                nhân với hệ số này (đường đi thực tế thường dài hơn 1,2 - 1,5
+                lần).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="gap-1.5">
+              <Input
+                accessibilityLabel="Hệ số quãng đường đường bộ"
+                editable={!isPending}
+                keyboardType="decimal-pad"
+                onChangeText={setMultiplier}
+                testID="road-distance-multiplier-input"
+                value={multiplier}
+              />
+              {!isMultiplierValid && (
+                <Text className="text-destructive text-sm">
+                  Hệ số từ 1 đến {MAX_ROAD_DISTANCE_MULTIPLIER}
+                </Text>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-muted dark:border-white/20">
+            <CardHeader>
+              <CardTitle>Tăng ca</CardTitle>
+              <CardDescription>
+                Thời gian tại hiện trường vượt quá số giờ mỗi ngày, rồi mỗi tuần
+                (thứ Hai - Chủ nhật), được tính là tăng ca trong bảng chấm công.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="gap-1.5">
+              <View className="flex-row items-center gap-2">
+                <Input
+                  accessibilityLabel="Số giờ mỗi ngày trước khi tăng ca"
+                  className="flex-1"
+                  editable={!isPending}
+                  keyboardType="decimal-pad"
+                  onChangeText={setDailyHours}
+                  testID="daily-overtime-hours-input"
+                  value={dailyHours}
+                />
+                <Text className="text-muted-foreground">giờ/ngày</Text>
+              </View>
+              <View className="flex-row items-center gap-2">
+                <Input
+                  accessibilityLabel="Số giờ mỗi tuần trước khi tăng ca"
+                  className="flex-1"
+                  editable={!isPending}
+                  keyboardType="decimal-pad"
+                  onChangeText={setWeeklyHours}
+                  testID="weekly-overtime-hours-input"
+                  value={weeklyHours}
+                />
+                <Text className="text-muted-foreground">giờ/tuần</Text>
+              </View>
+              {!isOvertimeValid && (
+                <Text className="text-destructive text-sm">
+                  Từ 1 đến {MAX_DAILY_OVERTIME_HOURS} giờ/ngày và 1 đến{' '}
+                  {MAX_WEEKLY_OVERTIME_HOURS} giờ/tuần
+                </Text>
+              )}
+            </CardContent>
+          </Card>
+
+          <Button
+            disabled={
+              !isRadiusValid ||
+              !isMultiplierValid ||
+              !isOvertimeValid ||
+              isPending
+            }
+            onPress={() =>
+              updateSettings({
+                geofenceRadiusMeters: radiusMeters,
+                geofenceMode: mode,
+                roadDistanceMultiplier,
+                dailyOvertimeHours,
+                weeklyOvertimeHours,
+              })
+            }
+            size="lg"
+            testID="check-in-settings-save-button"
+          >
+            <Text>{isPending ? 'Đang lưu...' : 'Lưu cài đặt'}</Text>
+          </Button>
+        </KeyboardAwareScrollView>
+      )}
+    </>
+  )
+}
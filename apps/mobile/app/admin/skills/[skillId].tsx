@@ -0,0 +1,357 @@
+import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
+import { format, parseISO } from 'date-fns'
+import * as DocumentPicker from 'expo-document-picker'
+import { Stack, useLocalSearchParams } from 'expo-router'
+import {
+  CalendarIcon,
+  FileTextIcon,
+  PaperclipIcon,
+  PencilIcon,
+  TrashIcon,
+  UserIcon,
+} from 'lucide-react-native'
+import { useMemo, useRef, useState } from 'react'
+import {
+  Alert,
+  FlatList,
+  Linking,
+  Pressable,
+  RefreshControl,
+  View,
+} from 'react-native'
+import { useAttachments } from '@/api/attachment/use-attachments'
+import {
+  type UpsertWorkerCertificateInput,
+  useDeleteWorkerCertificate,
+  useSkills,
+  useUpsertWorkerCertificate,
+  useWorkerCertificates,
+  type WorkerCertificate,
+} from '@/api/skill/use-skills'
+import { useUserList } from '@/api/user/use-user-list'
+import {
+  TaskDatePickerModal,
+  type TaskDatePickerModalMethods,
+} from '@/components/task/task-date-picker-modal'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { BottomSheet } from '@/components/ui/bottom-sheet'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Input } from '@/components/ui/input'
+import { Text } from '@/components/ui/text'
+import { UserSelectBottomSheetModal } from '@/components/user-select-bottom-sheet-modal'
+import { cn } from '@/lib/utils'
+
+/**
+ * Workers certified for a skill, with the certificate number, the expiry date
+ * and a scan of the certificate
+ */
+export default function SkillCertificatesScreen() {
+  const { skillId } = useLocalSearchParams<{ skillId: string }>()
+  const userModalRef = useRef<BottomSheetModalMethods>(null)
+  const datePickerModalRef = useRef<TaskDatePickerModalMethods>(null)
+
+  const [userId, setUserId] = useState<string>()
+  const [certificateNumber, setCertificateNumber] = useState('')
+  const [expiryDate, setExpiryDate] = useState<string>()
+  const [certificateFile, setCertificateFile] =
+    useState<UpsertWorkerCertificateInput['certificateFile']>()
+
+  const { data: skills } = useSkills()
+  const skill = skills?.find(({ id }) => id === skillId)
+  const {
+    data: allCertificates = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useWorkerCertificates()
+  const certificates = allCertificates.filter(
+    (certificate) => certificate.skillId === skillId,
+  )
+  const { data: scans } = useAttachments(
+    certificates.flatMap((certificate) =>
+      certificate.attachmentId ? [certificate.attachmentId] : [],
+    ),
+  )
+  const { data: users } = useUserList()
+  const { mutate: upsertCertificate, isPending: isSaving } =
+    useUpsertWorkerCertificate()
+  const {
+    mutate: deleteCertificate,
+    isPending: isDeleting,
+    variables,
+  } = useDeleteWorkerCertificate()
+
+  const userNames = useMemo(
+    () =>
+      Object.fromEntries(
+        (users ?? []).map((user) => [
+          user.id,
+          `${user.lastName} ${user.firstName}`,
+        ]),
+      ),
+    [users],
+  )
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const canSave = !!userId && !isSaving
+
+  const resetForm = () => {
+    setUserId(undefined)
+    setCertificateNumber('')
+    setExpiryDate(undefined)
+    setCertificateFile(undefined)
+  }
+
+  // Saving the same worker again replaces their certificate
+  const startEditing = (certificate: WorkerCertificate) => {
+    setUserId(certificate.userId)
+    setCertificateNumber(certificate.certificateNumber ?? '')
+    setExpiryDate(certificate.expiryDate ?? undefined)
+    setCertificateFile(undefined)
+  }
+
+  const handlePickScan = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*'],
+      copyToCacheDirectory: true,
+    })
+    if (!result.canceled && result.assets.length > 0) {
+      setCertificateFile(result.assets[0])
+    }
+  }
+
+  const handleSave = () => {
+    if (!canSave) {
+      return
+    }
+    upsertCertificate(
+      {
+        userId,
+        skillId,
+        certificateNumber: certificateNumber.trim() || undefined,
+        expiryDate,
+        certificateFile,
+      },
+      { onSuccess: resetForm },
+    )
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: skill?.name ?? 'Chứng chỉ',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : certificates}
+        keyboardShouldPersistTaps="handled"
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Thêm chứng chỉ cho nhân viên có kỹ năng này."
+              messageTitle="Chưa có ai có chứng chỉ"
+            />
+          )
+        }
+        ListHeaderComponent={
+          <View className="mb-2 gap-2 rounded-lg border border-border bg-card p-3">
+            <Text className="font-sans-semibold">Thêm chứng chỉ</Text>
+            <Button
+              className="justify-start"
+              disabled={isSaving}
+              onPress={() => userModalRef.current?.present()}
+              testID="certificate-user-button"
+              variant="outline"
+            >
+              <Icon as={UserIcon} className="size-4" />
+              <Text>
+                {userId ? (userNames[userId] ?? 'Nhân viên') : 'Chọn nhân viên'}
+              </Text>
+            </Button>
+            <Input
+              accessibilityLabel="Số chứng chỉ"
+              editable={!isSaving}
+              maxLength={100}
+              onChangeText={setCertificateNumber}
+              placeholder="Số chứng chỉ (tùy chọn)"
+              testID="certificate-number-input"
+              value={certificateNumber}
+            />
+            <View className="flex-row gap-2">
+              <Button
+                className="flex-1 justify-start"
+                disabled={isSaving}
+                onPress={() => datePickerModalRef.current?.present()}
+                testID="certificate-expiry-button"
+                variant="outline"
+              >
+                <Icon as={CalendarIcon} className="size-4" />
+                <Text>
+                  {expiryDate
+                    ? `Hết hạn ${format(parseISO(expiryDate), 'dd/MM/yyyy')}`
+                    : 'Không hết hạn'}
+                </Text>
+              </Button>
+              {expiryDate && (
+                <Button
+                  disabled={isSaving}
+                  onPress={() => setExpiryDate(undefined)}
+                  variant="ghost"
+                >
+                  <Text>Bỏ</Text>
+                </Button>
+              )}
+            </View>
+            <Button
+              className="justify-start"
+              disabled={isSaving}
+              onPress={handlePickScan}
+              testID="certificate-scan-button"
+              variant="outline"
+            >
+              <Icon as={PaperclipIcon} className="size-4" />
+              <Text className="flex-shrink" numberOfLines={1}>
+                {certificateFile?.name ?? 'Đính kèm bản scan (tùy chọn)'}
+              </Text>
+            </Button>
+            <View className="flex-row gap-2">
+              {userId && (
+                <Button
+                  className="flex-1"
+                  disabled={isSaving}
+                  onPress={resetForm}
+                  variant="outline"
+                >
+                  <Text>Hủy</Text>
+                </Button>
+              )}
+              <Button
+                className={cn('flex-1', isSaving && 'opacity-50')}
+                disabled={!canSave}
+                onPress={handleSave}
+                testID="certificate-save-button"
+              >
+                <Text>{isSaving ? 'Đang lưu...' : 'Lưu'}</Text>
+              </Button>
+            </View>
+          </View>
+        }
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách chứng chỉ"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => {
+          const name = userNames[item.userId] ?? 'Nhân viên'
+          const isExpired = !!item.expiryDate && item.expiryDate < today
+          const scan = scans?.find(({ id }) => id === item.attachmentId)
+
+          return (
+            <View
+              className={cn(
+                'flex-row items-center gap-3 rounded-lg border border-border bg-card p-3',
+                item.userId === userId && 'border-primary',
+              )}
+              testID={`certificate-${item.id}`}
+            >
+              <View className="flex-1">
+                <Text className="font-sans-semibold">{name}</Text>
+                {item.certificateNumber && (
+                  <Text className="text-muted-foreground text-sm">
+                    Số: {item.certificateNumber}
+                  </Text>
+                )}
+                <Text
+                  className={cn(
+                    'text-sm',
+                    isExpired ? 'text-destructive' : 'text-muted-foreground',
+                  )}
+                >
+                  {item.expiryDate
+                    ? `${isExpired ? 'Đã hết hạn' : 'Hết hạn'} ${format(parseISO(item.expiryDate), 'dd/MM/yyyy')}`
+                    : 'Không hết hạn'}
+                </Text>
+                {scan && (
+                  <Pressable
+                    accessibilityLabel={`Xem bản scan chứng chỉ của ${name}`}
+                    accessibilityRole="link"
+                    className="flex-row items-center gap-1"
+                    onPress={() => Linking.openURL(scan.url)}
+                  >
+                    <Icon as={FileTextIcon} className="size-3 text-primary" />
+                    <Text className="text-primary text-sm">Xem bản scan</Text>
+                  </Pressable>
+                )}
+              </View>
+              <Button
+                accessibilityLabel={`Sửa chứng chỉ của ${name}`}
+                onPress={() => startEditing(item)}
+                size="icon"
+                variant="ghost"
+              >
+                <Icon as={PencilIcon} className="size-4" />
+              </Button>
+              <Button
+                accessibilityLabel={`Xóa chứng chỉ của ${name}`}
+                disabled={isDeleting && variables?.id === item.id}
+                onPress={() =>
+                  Alert.alert(
+                    'Xóa chứng chỉ',
+                    `${name} sẽ không còn được tính là có kỹ năng này.`,
+                    [
+                      { text: 'Không', style: 'cancel' },
+                      {
+                        text: 'Xóa',
+                        style: 'destructive',
+                        onPress: () => deleteCertificate({ id: item.id }),
+                      },
+                    ],
+                  )
+                }
+                size="icon"
+                variant="ghost"
+              >
+                <Icon as={TrashIcon} className="size-4 text-destructive" />
+              </Button>
+            </View>
+          )
+        }}
+      />
+
+      <BottomSheet index={1} ref={userModalRef} snapPoints={['50%', '90%']}>
+        <UserSelectBottomSheetModal
+          onCancel={() => userModalRef.current?.dismiss()}
+          // One worker per certificate, keep the last one picked
+          onChangeSelectedUserIds={(userIds) => setUserId(userIds.at(-1))}
+          onSave={() => userModalRef.current?.dismiss()}
+          selectedUserIds={userId ? [userId] : []}
+        />
+      </BottomSheet>
+      <TaskDatePickerModal
+        initialFromDate={expiryDate ? parseISO(expiryDate) : undefined}
+        label="Chọn ngày hết hạn"
+        onApply={(fromDate) =>
+          setExpiryDate(fromDate ? format(fromDate, 'yyyy-MM-dd') : undefined)
+        }
+        ref={datePickerModalRef}
+      />
+    </>
+  )
+}
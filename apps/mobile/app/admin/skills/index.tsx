@@ -0,0 +1,283 @@
+import { TaskWorkType } from '@nv-internal/validation'
+import { Stack, useRouter } from 'expo-router'
+import {
+  ChevronRightIcon,
+  PencilIcon,
+  ShieldCheckIcon,
+  TrashIcon,
+} from 'lucide-react-native'
+import { useState } from 'react'
+import { Alert, FlatList, Pressable, RefreshControl, View } from 'react-native'
+import {
+  type Skill,
+  useCreateSkill,
+  useDeleteSkill,
+  useSkills,
+  useUpdateSkill,
+} from '@/api/skill/use-skills'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Input } from '@/components/ui/input'
+import { WORK_TYPE_LABELS } from '@/components/ui/task-work-type-badge'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+const WORK_TYPE_OPTIONS = Object.values(TaskWorkType)
+
+/**
+ * Skills and certifications required by tasks, e.g. "Gas R32" or "Hệ thống
+ * VRV". Skills linked to a work type are required by every task of that type.
+ * Tap a skill to manage the workers certified for it.
+ */
+export default function SkillsScreen() {
+  const router = useRouter()
+
+  const [editingId, setEditingId] = useState<string>()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [workTypes, setWorkTypes] = useState<TaskWorkType[]>([])
+
+  const { data: skills = [], isLoading, isRefetching, refetch } = useSkills()
+  const { mutate: createSkill, isPending: isCreating } = useCreateSkill()
+  const { mutate: updateSkill, isPending: isUpdating } = useUpdateSkill()
+  const {
+    mutate: deleteSkill,
+    isPending: isDeleting,
+    variables,
+  } = useDeleteSkill()
+
+  const isSaving = isCreating || isUpdating
+  const canSave = name.trim().length >= 2 && !isSaving
+
+  const resetForm = () => {
+    setEditingId(undefined)
+    setName('')
+    setDescription('')
+    setWorkTypes([])
+  }
+
+  const startEditing = (skill: Skill) => {
+    setEditingId(skill.id)
+    setName(skill.name)
+    setDescription(skill.description ?? '')
+    setWorkTypes(skill.workTypes)
+  }
+
+  const toggleWorkType = (workType: TaskWorkType) => {
+    setWorkTypes((current) =>
+      current.includes(workType)
+        ? current.filter((item) => item !== workType)
+        : [...current, workType],
+    )
+  }
+
+  const handleSave = () => {
+    if (!canSave) {
+      return
+    }
+    const values = {
+      name: name.trim(),
+      description: description.trim() || null,
+      workTypes,
+    }
+    if (editingId) {
+      updateSkill({ id: editingId, ...values }, { onSuccess: resetForm })
+    } else {
+      createSkill(values, { onSuccess: resetForm })
+    }
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Kỹ năng & chứng chỉ',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : skills}
+        keyboardShouldPersistTaps="handled"
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Thêm kỹ năng để cảnh báo khi giao việc cho nhân viên chưa có chứng chỉ."
+              messageTitle="Chưa có kỹ năng nào"
+            />
+          )
+        }
+        ListHeaderComponent={
+          <View className="mb-2 gap-2 rounded-lg border border-border bg-card p-3">
+            <Text className="font-sans-semibold">
+              {editingId ? 'Sửa kỹ năng' : 'Thêm kỹ năng'}
+            </Text>
+            <Input
+              accessibilityLabel="Tên kỹ năng"
+              editable={!isSaving}
+              maxLength={100}
+              onChangeText={setName}
+              placeholder="Ví dụ: Gas R32"
+              testID="skill-name-input"
+              value={name}
+            />
+            <Input
+              accessibilityLabel="Mô tả"
+              editable={!isSaving}
+              maxLength={500}
+              onChangeText={setDescription}
+              placeholder="Mô tả (tùy chọn)"
+              testID="skill-description-input"
+              value={description}
+            />
+            <Text className="text-muted-foreground text-sm">
+              Bắt buộc cho loại công việc
+            </Text>
+            <View className="flex-row flex-wrap gap-2">
+              {WORK_TYPE_OPTIONS.map((workType) => {
+                const isSelected = workTypes.includes(workType)
+                return (
+                  <Button
+                    accessibilityState={{ selected: isSelected }}
+                    key={workType}
+                    onPress={() => toggleWorkType(workType)}
+                    size="sm"
+                    testID={`skill-work-type-${workType}`}
+                    variant={isSelected ? 'default' : 'outline'}
+                  >
+                    <Text>{WORK_TYPE_LABELS[workType]}</Text>
+                  </Button>
+                )
+              })}
+            </View>
+            <View className="flex-row gap-2">
+              {editingId && (
+                <Button
+                  className="flex-1"
+                  disabled={isSaving}
+                  onPress={resetForm}
+                  variant="outline"
+                >
+                  <Text>Hủy</Text>
+                </Button>
+              )}
+              <Button
+                className={cn('flex-1', isSaving && 'opacity-50')}
+                disabled={!canSave}
+                onPress={handleSave}
+                testID="skill-save-button"
+              >
+                <Text>
+                  {isSaving ? 'Đang lưu...' : editingId ? 'Lưu' : 'Thêm'}
+                </Text>
+              </Button>
+            </View>
+          </View>
+        }
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách kỹ năng"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => (
+          <View
+            className={cn(
+              'flex-row items-center gap-3 rounded-lg border border-border bg-card p-3',
+              item.id === editingId && 'border-primary',
+            )}
+            testID={`skill-${item.id}`}
+          >
+            <Pressable
+              accessibilityHint="Xem nhân viên có chứng chỉ"
+              accessibilityLabel={item.name}
+              accessibilityRole="button"
+              className="flex-1 flex-row items-center gap-3"
+              onPress={() =>
+                router.push({
+                  pathname: '/admin/skills/[skillId]',
+                  params: { skillId: item.id },
+                })
+              }
+            >
+              <Icon as={ShieldCheckIcon} className="size-4 text-primary" />
+              <View className="flex-1">
+                <Text className="font-sans-semibold">{item.name}</Text>
+                {item.description && (
+                  <Text className="text-muted-foreground text-sm">
+                    {item.description}
+                  </Text>
+                )}
+                {item.workTypes.length > 0 && (
+                  <Text className="text-muted-foreground text-sm">
+                    Bắt buộc cho:{' '}
+                    {item.workTypes
+                      .map((workType) => WORK_TYPE_LABELS[workType])
+                      .join(', ')}
+                  </Text>
+                )}
+              </View>
+              <Icon
+                as={ChevronRightIcon}
+                className="size-4 text-muted-foreground"
+              />
+            </Pressable>
+            <Button
+              accessibilityLabel={`Sửa ${item.name}`}
+              onPress={() => startEditing(item)}
+              size="icon"
+              variant="ghost"
+            >
+              <Icon as={PencilIcon} className="size-4" />
+            </Button>
+            <Button
+              accessibilityLabel={`Xóa ${item.name}`}
+              disabled={isDeleting && variables?.id === item.id}
+              onPress={() =>
+                Alert.alert(
+                  'Xóa kỹ năng',
+                  `Kỹ năng ${item.name} sẽ không còn được yêu cầu khi giao việc.`,
+                  [
+                    { text: 'Không', style: 'cancel' },
+                    {
+                      text: 'Xóa',
+                      style: 'destructive',
+                      onPress: () =>
+                        deleteSkill(
+                          { id: item.id },
+                          {
+                            onSuccess: () => {
+                              if (item.id === editingId) {
+                                resetForm()
+                              }
+                            },
+                          },
+                        ),
+                    },
+                  ],
+                )
+              }
+              size="icon"
+              variant="ghost"
+            >
+              <Icon as={TrashIcon} className="size-4 text-destructive" />
+            </Button>
+          </View>
+        )}
+      />
+    </>
+  )
+}
@@ -0,0 +1,118 @@
+import { Stack, useRouter } from 'expo-router'
+import { useState } from 'react'
+import { FlatList, RefreshControl, View } from 'react-native'
+import {
+  useReviewTaskEventFlag,
+  useTaskEventFlags,
+} from '@/api/task-event/use-task-event-flags'
+import { TaskEventFlagCard } from '@/components/task-event/task-event-flag-card'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Text } from '@/components/ui/text'
+
+type FlagStatus = 'open' | 'reviewed'
+
+/**
+ * Check-ins / check-outs flagged for review (e.g. out of the allowed range)
+ */
+export default function AdminTaskEventFlagsScreen() {
+  const router = useRouter()
+  const [status, setStatus] = useState<FlagStatus>('open')
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTaskEventFlags({ status })
+  const { mutate: reviewFlag, isPending, variables } = useReviewTaskEventFlag()
+
+  const flags = data?.pages.flatMap((page) => page.flags) ?? []
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Chấm công cần xem xét' }} />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : flags}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription={
+                status === 'open'
+                  ? 'Không có lần check-in / check-out nào cần xem xét.'
+                  : 'Chưa có cảnh báo nào được xem xét.'
+              }
+              messageTitle="Không có cảnh báo"
+            />
+          )
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <View className="py-4">
+              <TaskListItemSkeleton />
+            </View>
+          ) : null
+        }
+        ListHeaderComponent={
+          <View className="mb-2 flex-row gap-2">
+            <Button
+              onPress={() => setStatus('open')}
+              size="sm"
+              testID="task-event-flags-open-button"
+              variant={status === 'open' ? 'default' : 'outline'}
+            >
+              <Text>Cần xem xét</Text>
+            </Button>
+            <Button
+              onPress={() => setStatus('reviewed')}
+              size="sm"
+              testID="task-event-flags-reviewed-button"
+              variant={status === 'reviewed' ? 'default' : 'outline'}
+            >
+              <Text>Đã xem xét</Text>
+            </Button>
+          </View>
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) {
+            fetchNextPage()
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách cảnh báo"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => (
+          <TaskEventFlagCard
+            flag={item}
+            isReviewing={isPending && variables?.id === item.id}
+            onPressTask={(taskId) =>
+              router.push({
+                pathname: '/admin/tasks/[taskId]/view',
+                params: { taskId: taskId.toString() },
+              })
+            }
+            onReview={() => reviewFlag({ id: item.id })}
+          />
+        )}
+      />
+    </>
+  )
+}
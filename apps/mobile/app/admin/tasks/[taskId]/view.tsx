@@ -4,8 +4,10 @@ import { useLocalSearchParams } from 'expo-router/build/hooks'
 import { RefreshControl, View } from 'react-native'
 import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
 import { activitiesQueryOptions } from '@/api/activity/use-activities'
+import { taskLocationTrailsQueryOptions } from '@/api/location/use-task-location-trails'
 import { useTask } from '@/api/task/use-task'
 import { ActivityFeed } from '@/components/activity-feed'
+import { TaskLocationTrail } from '@/components/task/task-location-trail'
 import { TaskCommentBox } from '@/components/task-comment-box'
 import { TaskDetails } from '@/components/task-details'
 import { TaskDetailsSkeleton } from '@/components/task-details-skeleton'
@@ -38,6 +40,9 @@ export default function TaskViewScreen() {
     queryClient.invalidateQueries({
       queryKey: ['task-payments', taskId?.toString() ?? ''],
     })
+    queryClient.invalidateQueries({
+      queryKey: taskLocationTrailsQueryOptions(taskId ?? 0).queryKey,
+    })
   }
 
   if (isLoading) {
@@ -86,6 +91,7 @@ export default function TaskViewScreen() {
               }
             >
               <TaskDetails task={task} />
+              <TaskLocationTrail task={task} />
 
               {/* Activities Card with Comment Box */}
               <Card className="bg-muted dark:border-white/20">
@@ -0,0 +1,26 @@
+import { Stack, useRouter } from 'expo-router'
+import { TaskCalendarView } from '@/components/task/task-calendar-view'
+
+export default function AdminTaskCalendarScreen() {
+  const router = useRouter()
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Lịch công việc' }} />
+      <TaskCalendarView
+        onPressDay={(date) =>
+          router.push({
+            pathname: '/admin/tasks/scheduled',
+            params: { date },
+          })
+        }
+        onPressTask={(taskId) =>
+          router.push({
+            pathname: '/admin/tasks/[taskId]/view',
+            params: { taskId: taskId.toString() },
+          })
+        }
+      />
+    </>
+  )
+}
@@ -1,11 +1,28 @@
+import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { type CreateTaskValues, zCreateTask } from '@nv-internal/validation'
+import { format } from 'date-fns'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { Keyboard, Pressable, ScrollView, View } from 'react-native'
+import { useScheduledLeaves } from '@/api/leave/use-leave-requests'
+import {
+  getRequiredSkills,
+  useSkills,
+  useWorkerCertificates,
+} from '@/api/skill/use-skills'
 import { useCreateTask } from '@/api/task/use-create-task'
+import { useDraftSuggestedAssignees } from '@/api/task/use-suggested-assignees'
+import { useTaskScheduleConflicts } from '@/api/task/use-task-schedule-conflicts'
+import { TaskDateTimePicker } from '@/components/task/task-date-time-picker'
+import { TaskPrioritySelect } from '@/components/task/task-priority-select'
+import { TaskRequiredSkillsSelect } from '@/components/task/task-required-skills-select'
+import { TaskScheduleConflictWarnings } from '@/components/task/task-schedule-conflict-warnings'
+import { TaskSlaDatePicker } from '@/components/task/task-sla-date-picker'
+import { TaskWorkTypeSelect } from '@/components/task/task-work-type-select'
+import { BottomSheet } from '@/components/ui/bottom-sheet'
 import { Button } from '@/components/ui/button'
 import { CurrencyInput } from '@/components/ui/currency-input'
 import { Form, FormField, FormInput, FormTextarea } from '@/components/ui/form'
@@ -13,8 +30,13 @@ import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { Text } from '@/components/ui/text'
 import { Toasts } from '@/components/ui/toasts'
+import { UserFullName } from '@/components/user-public-info'
+import { UserSelectBottomSheetModal } from '@/components/user-select-bottom-sheet-modal'
 import { cn } from '@/lib/utils'
 
+// Quick SLA choices, counted in working days (holidays and days off skipped)
+const SLA_WORKING_DAYS_OPTIONS = [1, 2, 3, 5, 7]
+
 export default function AdminTaskCreateScreen() {
   const params = useLocalSearchParams()
   const router = useRouter()
@@ -27,12 +49,68 @@ export default function AdminTaskCreateScreen() {
       customerPhone: '',
       geoLocation: undefined,
       expectedRevenue: null,
+      workType: undefined,
+      priority: undefined,
+      slaDueAt: undefined,
+      slaWorkingDays: undefined,
+      scheduledAt: undefined,
+      scheduledEndAt: undefined,
+      estimatedDurationMinutes: undefined,
+      assigneeIds: [],
+      teamId: undefined,
+      requiredSkillIds: [],
     },
   })
   const { mutateAsync: createTask } = useCreateTask()
   const [expectedRevenue, setExpectedRevenue] = useState<number | null>(null)
+  const assigneeModalRef = useRef<BottomSheetModalMethods>(null)
 
   const geoLocation = form.watch('geoLocation')
+  const [
+    scheduledAt,
+    scheduledEndAt,
+    estimatedDurationMinutes,
+    assigneeIds,
+    workType,
+    requiredSkillIds,
+  ] = form.watch([
+    'scheduledAt',
+    'scheduledEndAt',
+    'estimatedDurationMinutes',
+    'assigneeIds',
+    'workType',
+    'requiredSkillIds',
+  ])
+  // Warn about double-booked assignees before saving
+  const { data: scheduleConflicts = [] } = useTaskScheduleConflicts({
+    assigneeIds,
+    scheduledAt,
+    scheduledEndAt,
+    estimatedDurationMinutes,
+  })
+  // Workers on approved leave that day
+  const { data: leaves = [] } = useScheduledLeaves({
+    scheduledAt,
+    scheduledEndAt,
+  })
+  // Flag workers without a valid certificate for the skills the job needs
+  const { data: skills = [] } = useSkills()
+  const requiredSkills = getRequiredSkills(skills, {
+    workType,
+    requiredSkillIds,
+  })
+  const { data: certificates = [] } = useWorkerCertificates({
+    enabled: requiredSkills.length > 0,
+  })
+  // Rank workers by distance to the job and their workload
+  const { data: suggestions, isLoading: isLoadingSuggestions } =
+    useDraftSuggestedAssignees({
+      lat: geoLocation?.lat,
+      lng: geoLocation?.lng,
+      scheduledAt: scheduledAt ?? undefined,
+      scheduledEndAt: scheduledEndAt ?? undefined,
+      estimatedDurationMinutes: estimatedDurationMinutes ?? undefined,
+    })
 
   const handleGoBack = () => {
     Keyboard.dismiss()
@@ -190,6 +268,238 @@ export default function AdminTaskCreateScreen() {
             </Text>
           </Pressable>
 
+          {geoLocation && (
+            <FormField
+              control={form.control}
+              name="geoLocation.geofenceRadiusMeters"
+              render={({ field }) => (
+                <FormInput
+                  description="Để trống để dùng phạm vi chung. Tăng cho địa điểm rộng như nhà máy."
+                  keyboardType="number-pad"
+                  label="Phạm vi check-in (mét)"
+                  name={field.name}
+                  onBlur={field.onBlur}
+                  onChange={(text) => {
+                    const digits = (text ?? '').replace(/\D/g, '')
+                    field.onChange(digits ? Number.parseInt(digits, 10) : null)
+                  }}
+                  placeholder="Mặc định"
+                  testID="create-task-geofence-radius-input"
+                  value={field.value?.toString()}
+                />
+              )}
+            />
+          )}
+
+          <View>
+            <Label className="mb-1">Loại công việc (tùy chọn)</Label>
+            <FormField
+              control={form.control}
+              name="workType"
+              render={({ field }) => (
+                <TaskWorkTypeSelect
+                  onChange={field.onChange}
+                  value={field.value}
+                />
+              )}
+            />
+            <Text className="mt-1 text-muted-foreground text-xs">
+              Danh sách kiểm tra sẽ được tạo theo loại công việc
+            </Text>
+          </View>
+
+          <View>
+            <Label className="mb-1">Kỹ năng yêu cầu (tùy chọn)</Label>
+            <FormField
+              control={form.control}
+              name="requiredSkillIds"
+              render={({ field }) => (
+                <TaskRequiredSkillsSelect
+                  onChange={field.onChange}
+                  skills={skills}
+                  value={field.value}
+                  workType={workType}
+                />
+              )}
+            />
+            <Text className="mt-1 text-muted-foreground text-xs">
+              Nhân viên thiếu chứng chỉ sẽ được cảnh báo khi giao việc
+            </Text>
+          </View>
+
+          <View>
+            <Label className="mb-1">Mức ưu tiên</Label>
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <TaskPrioritySelect
+                  onChange={field.onChange}
+                  value={field.value}
+                />
+              )}
+            />
+          </View>
+
+          <View>
+            <Label className="mb-1">Hạn hoàn thành (tùy chọn)</Label>
+            <FormField
+              control={form.control}
+              name="slaDueAt"
+              render={({ field }) => (
+                <TaskSlaDatePicker
+                  onChange={(date) => {
+                    field.onChange(date?.toISOString())
+                    if (date) {
+                      form.setValue('slaWorkingDays', undefined)
+                    }
+                  }}
+                  value={field.value ? new Date(field.value) : undefined}
+                />
+              )}
+            />
+          </View>
+
+          <View>
+            <Label className="mb-1">Hoặc sau số ngày làm việc</Label>
+            <FormField
+              control={form.control}
+              name="slaWorkingDays"
+              render={({ field }) => (
+                <View className="flex-row gap-2">
+                  {SLA_WORKING_DAYS_OPTIONS.map((days) => (
+                    <Button
+                      accessibilityLabel={`Hạn sau ${days} ngày làm việc`}
+                      accessibilityState={{ selected: field.value === days }}
+                      className="flex-1"
+                      key={days}
+                      onPress={() => {
+                        impactAsync(ImpactFeedbackStyle.Light)
+                        const value = field.value === days ? undefined : days
+                        field.onChange(value)
+                        if (value) {
+                          form.setValue('slaDueAt', undefined)
+                        }
+                      }}
+                      size="sm"
+                      testID={`sla-working-days-${days}`}
+                      variant={field.value === days ? 'default' : 'outline'}
+                    >
+                      <Text>{days}</Text>
+                    </Button>
+                  ))}
+                </View>
+              )}
+            />
+          </View>
+
+          <Separator className="mt-4 mb-2" />
+
+          <Text variant="h4">Lịch làm việc</Text>
+          <View>
+            <Label className="mb-1">Bắt đầu (tùy chọn)</Label>
+            <FormField
+              control={form.control}
+              name="scheduledAt"
+              render={({ field }) => (
+                <TaskDateTimePicker
+                  minimumDate={new Date()}
+                  onChange={(date) => {
+                    field.onChange(date?.toISOString())
+                    if (!date) {
+                      form.setValue('scheduledEndAt', undefined)
+                    }
+                  }}
+                  placeholder="Chưa lên lịch"
+                  testID="create-task-scheduled-at-button"
+                  value={field.value ? new Date(field.value) : undefined}
+                />
+              )}
+            />
+          </View>
+
+          {scheduledAt && (
+            <>
+              <View>
+                <Label className="mb-1">Kết thúc (tùy chọn)</Label>
+                <FormField
+                  control={form.control}
+                  name="scheduledEndAt"
+                  render={({ field }) => (
+                    <TaskDateTimePicker
+                      minimumDate={new Date(scheduledAt)}
+                      onChange={(date) => field.onChange(date?.toISOString())}
+                      placeholder="Theo thời lượng dự kiến"
+                      testID="create-task-scheduled-end-at-button"
+                      value={field.value ? new Date(field.value) : undefined}
+                    />
+                  )}
+                />
+                {form.formState.errors.scheduledEndAt && (
+                  <Text className="mt-1 text-destructive text-sm">
+                    {form.formState.errors.scheduledEndAt.message}
+                  </Text>
+                )}
+              </View>
+              <FormField
+                control={form.control}
+                name="estimatedDurationMinutes"
+                render={({ field }) => (
+                  <FormInput
+                    description="Dùng để kiểm tra trùng lịch khi không chọn giờ kết thúc (mặc định 60 phút)"
+                    keyboardType="number-pad"
+                    label="Thời lượng dự kiến (phút)"
+                    placeholder="60"
+                    {...field}
+                    onChange={(text) => {
+                      const digits = text?.replace(/\D/g, '')
+                      field.onChange(digits ? Number(digits) : undefined)
+                    }}
+                    value={field.value?.toString()}
+                  />
+                )}
+              />
+            </>
+          )}
+
+          <Pressable
+            accessibilityHint="Mở danh sách nhân viên để giao việc"
+            accessibilityLabel="Chọn nhân viên thực hiện"
+            accessibilityRole="button"
+            className="-mx-1 rounded px-1 active:bg-muted"
+            onPress={() => {
+              Keyboard.dismiss()
+              impactAsync(ImpactFeedbackStyle.Light)
+              assigneeModalRef.current?.present()
+            }}
+            testID="create-task-assignees-button"
+          >
+            <Label className="mb-1">Nhân viên thực hiện (tùy chọn)</Label>
+            <View className="min-h-[44px] w-full flex-row flex-wrap gap-x-2 rounded-md border border-border bg-background px-3 py-2 dark:bg-input/30">
+              {assigneeIds?.length ? (
+                assigneeIds.map((userId, index) => (
+                  <View className="flex-row" key={userId}>
+                    <UserFullName className="text-base" userId={userId} />
+                    {index < assigneeIds.length - 1 && (
+                      <Text className="text-base">,</Text>
+                    )}
+                  </View>
+                ))
+              ) : (
+                <Text className="text-base text-muted-foreground/50">
+                  Chọn nhân viên
+                </Text>
+              )}
+            </View>
+          </Pressable>
+
+          <TaskScheduleConflictWarnings
+            conflicts={scheduleConflicts}
+            leaves={leaves.filter((leave) =>
+              assigneeIds?.includes(leave.userId),
+            )}
+          />
+
           <Separator className="mt-4 mb-2" />
 
           <Text variant="h4">Thông tin khách hàng</Text>
@@ -238,6 +548,29 @@ export default function AdminTaskCreateScreen() {
           </View>
         </ScrollView>
       </Form>
+      <BottomSheet index={1} ref={assigneeModalRef} snapPoints={['50%', '90%']}>
+        <UserSelectBottomSheetModal
+          certificates={certificates}
+          isLoadingSuggestions={isLoadingSuggestions}
+          leaves={leaves}
+          onCancel={() => assigneeModalRef.current?.dismiss()}
+          onChangeSelectedTeamId={(teamId) =>
+            form.setValue('teamId', teamId ?? undefined, { shouldDirty: true })
+          }
+          onChangeSelectedUserIds={(userIds) =>
+            form.setValue('assigneeIds', userIds, { shouldDirty: true })
+          }
+          onSave={() => assigneeModalRef.current?.dismiss()}
+          requiredSkills={requiredSkills}
+          selectedTeamId={form.watch('teamId')}
+          selectedUserIds={assigneeIds ?? []}
+          skillDate={format(
+            scheduledAt ? new Date(scheduledAt) : new Date(),
+            'yyyy-MM-dd',
+          )}
+          suggestions={suggestions}
+        />
+      </BottomSheet>
       <Toasts />
     </>
   )
@@ -0,0 +1,69 @@
+import { addDays, format, isToday } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { Stack, useRouter } from 'expo-router'
+import { ChevronLeftIcon, ChevronRightIcon } from 'lucide-react-native'
+import { useState } from 'react'
+import { View } from 'react-native'
+import { DispatchBoard } from '@/components/dispatch/dispatch-board'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+
+export default function AdminDispatchScreen() {
+  const router = useRouter()
+  const [date, setDate] = useState(() => new Date())
+
+  const handleShift = (days: number) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    setDate((prev) => addDays(prev, days))
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Điều phối' }} />
+      <View className="flex-1 bg-background">
+        <View className="flex-row items-center justify-between px-4 pt-2">
+          <Button
+            accessibilityLabel="Ngày trước"
+            onPress={() => handleShift(-1)}
+            size="icon"
+            variant="ghost"
+          >
+            <Icon as={ChevronLeftIcon} className="size-6" />
+          </Button>
+          <View className="flex-row items-center gap-2">
+            <Text className="font-sans-semibold">
+              {format(date, 'dd/MM/yyyy')}
+            </Text>
+            {!isToday(date) && (
+              <Button
+                onPress={() => setDate(new Date())}
+                size="sm"
+                variant="outline"
+              >
+                <Text>Hôm nay</Text>
+              </Button>
+            )}
+          </View>
+          <Button
+            accessibilityLabel="Ngày sau"
+            onPress={() => handleShift(1)}
+            size="icon"
+            variant="ghost"
+          >
+            <Icon as={ChevronRightIcon} className="size-6" />
+          </Button>
+        </View>
+        <DispatchBoard
+          date={date}
+          onPressTask={(taskId) =>
+            router.push({
+              pathname: '/admin/tasks/[taskId]/view',
+              params: { taskId: taskId.toString() },
+            })
+          }
+        />
+      </View>
+    </>
+  )
+}
@@ -0,0 +1,340 @@
+import { TaskStatus } from '@nv-internal/prisma-client'
+import type { TaskMapQuery, TaskWorkType } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { Stack, useRouter } from 'expo-router'
+import { FilterIcon } from 'lucide-react-native'
+import { useMemo, useRef, useState } from 'react'
+import { ActivityIndicator, StyleSheet, View } from 'react-native'
+import MapView, {
+  Marker,
+  PROVIDER_GOOGLE,
+  type Region,
+} from 'react-native-maps'
+import {
+  type TaskMapCluster,
+  type TaskMapPin,
+  useTaskMap,
+} from '@/api/task/use-task-map'
+import { useTeams } from '@/api/team/use-teams'
+import { useUserList } from '@/api/user/use-user-list'
+import { ActiveFilterChips } from '@/components/task/active-filter-chips'
+import {
+  TaskFilterBottomSheet,
+  type TaskFilterBottomSheetMethods,
+  type TaskFilterState,
+} from '@/components/task/task-filter-bottom-sheet'
+import { TaskMapPreviewCard } from '@/components/task/task-map-preview-card'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+
+// Ho Chi Minh City, same default as the location picker
+const INITIAL_REGION: Region = {
+  latitude: 10.7398321,
+  longitude: 106.6256546,
+  latitudeDelta: 0.3,
+  longitudeDelta: 0.3,
+}
+
+// Refresh the pins so status changes show up while the map is open
+const MAP_REFRESH_INTERVAL_MS = 30_000
+
+const STATUS_PIN_COLORS: Record<TaskStatus, string> = {
+  [TaskStatus.PREPARING]: '#eab308',
+  [TaskStatus.READY]: '#22c55e',
+  [TaskStatus.IN_PROGRESS]: '#3b82f6',
+  [TaskStatus.ON_HOLD]: '#6b7280',
+  [TaskStatus.COMPLETED]: '#a1a1aa',
+  [TaskStatus.CANCELLED]: '#ef4444',
+}
+
+const STATUS_LEGEND: { status: TaskStatus; label: string }[] = [
+  { status: TaskStatus.PREPARING, label: 'Chuẩn bị' },
+  { status: TaskStatus.READY, label: 'Sẵn sàng' },
+  { status: TaskStatus.IN_PROGRESS, label: 'Đang làm' },
+  { status: TaskStatus.ON_HOLD, label: 'Tạm dừng' },
+  { status: TaskStatus.COMPLETED, label: 'Hoàn thành' },
+  { status: TaskStatus.CANCELLED, label: 'Đã hủy' },
+]
+
+const clampLat = (lat: number) => Math.min(90, Math.max(-90, lat))
+const clampLng = (lng: number) => Math.min(180, Math.max(-180, lng))
+
+/** Visible area of a map region */
+const getRegionBounds = (region: Region) => ({
+  minLat: clampLat(region.latitude - region.latitudeDelta / 2),
+  maxLat: clampLat(region.latitude + region.latitudeDelta / 2),
+  minLng: clampLng(region.longitude - region.longitudeDelta / 2),
+  maxLng: clampLng(region.longitude + region.longitudeDelta / 2),
+})
+
+export default function AdminTaskMapScreen() {
+  const router = useRouter()
+  const mapRef = useRef<MapView>(null)
+  const filterSheetRef = useRef<TaskFilterBottomSheetMethods>(null)
+  const [region, setRegion] = useState<Region>(INITIAL_REGION)
+  const [selectedTask, setSelectedTask] = useState<TaskMapPin | null>(null)
+  const [filterState, setFilterState] = useState<TaskFilterState>({
+    sortBy: 'createdAt',
+    sortOrder: 'desc',
+  })
+
+  // Fetch user list for displaying names in filter chips
+  const { data: users } = useUserList()
+  const userNames = useMemo(() => {
+    if (!users) {
+      return {}
+    }
+    return users.reduce(
+      (acc, user) => {
+        acc[user.id] = `${user.lastName} ${user.firstName}`
+        return acc
+      },
+      {} as Record<string, string>,
+    )
+  }, [users])
+
+  const { data: teams } = useTeams()
+  const teamNames = useMemo(
+    () => Object.fromEntries((teams ?? []).map((team) => [team.id, team.name])),
+    [teams],
+  )
+
+  const query: TaskMapQuery = useMemo(
+    () => ({
+      ...getRegionBounds(region),
+      status: filterState.status,
+      workType: filterState.workTypes,
+      assigneeIds: filterState.assigneeIds,
+      teamId: filterState.teamId,
+      createdFrom: filterState.createdFrom?.toISOString(),
+      createdTo: filterState.createdTo?.toISOString(),
+      completedFrom: filterState.completedFrom?.toISOString(),
+      completedTo: filterState.completedTo?.toISOString(),
+    }),
+    [region, filterState],
+  )
+
+  const { data: map, isFetching } = useTaskMap(query, {
+    refetchInterval: MAP_REFRESH_INTERVAL_MS,
+  })
+
+  // Count active filters (sort does not apply on the map)
+  const activeFilterCount = useMemo(() => {
+    return (
+      (filterState.status?.length || 0) +
+      (filterState.workTypes?.length || 0) +
+      (filterState.assigneeIds?.length || 0) +
+      (filterState.teamId ? 1 : 0) +
+      (filterState.createdFrom || filterState.createdTo ? 1 : 0) +
+      (filterState.completedFrom || filterState.completedTo ? 1 : 0)
+    )
+  }, [filterState])
+
+  const handleRemoveStatus = (status: TaskStatus) => {
+    setFilterState((prev) => ({
+      ...prev,
+      status: prev.status?.filter((s) => s !== status),
+    }))
+  }
+
+  const handleRemoveWorkType = (workType: TaskWorkType) => {
+    setFilterState((prev) => ({
+      ...prev,
+      workTypes: prev.workTypes?.filter((w) => w !== workType),
+    }))
+  }
+
+  const handleRemoveAssignee = (userId: string) => {
+    setFilterState((prev) => ({
+      ...prev,
+      assigneeIds: prev.assigneeIds?.filter((id) => id !== userId),
+    }))
+  }
+
+  const handleRemoveTeam = () => {
+    setFilterState((prev) => ({ ...prev, teamId: undefined }))
+  }
+
+  const handleRemoveDateFilter = (filterType: 'created' | 'completed') => {
+    setFilterState((prev) => {
+      if (filterType === 'created') {
+        return { ...prev, createdFrom: undefined, createdTo: undefined }
+      }
+      if (filterType === 'completed') {
+        return { ...prev, completedFrom: undefined, completedTo: undefined }
+      }
+      return prev
+    })
+  }
+
+  const handleClearAllFilters = () => {
+    setFilterState({
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+    })
+  }
+
+  const handlePressCluster = (bounds: TaskMapCluster['bounds']) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    setSelectedTask(null)
+    mapRef.current?.fitToCoordinates(
+      [
+        { latitude: bounds.minLat, longitude: bounds.minLng },
+        { latitude: bounds.maxLat, longitude: bounds.maxLng },
+      ],
+      {
+        edgePadding: { top: 80, right: 80, bottom: 80, left: 80 },
+        animated: true,
+      },
+    )
+  }
+
+  const handleViewDetails = (taskId: number) => {
+    router.push({
+      pathname: '/admin/tasks/[taskId]/view',
+      params: { taskId: taskId.toString() },
+    })
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Bản đồ công việc',
+          headerRight: () => (
+            <Button
+              accessibilityHint="Mở bộ lọc để lọc công việc trên bản đồ"
+              accessibilityLabel="Bộ lọc công việc"
+              accessibilityRole="button"
+              className="relative w-10"
+              onPress={() => {
+                impactAsync(ImpactFeedbackStyle.Light)
+                filterSheetRef.current?.present()
+              }}
+              size={null}
+              testID="task-map-filter-button"
+              variant={null}
+            >
+              <Icon as={FilterIcon} className="size-6" />
+              {activeFilterCount > 0 && (
+                <View className="absolute top-0 right-0 size-5 items-center justify-center rounded-full bg-primary">
+                  <Text className="font-sans-bold text-[10px] text-primary-foreground">
+                    {activeFilterCount}
+                  </Text>
+                </View>
+              )}
+            </Button>
+          ),
+        }}
+      />
+      <View className="flex-1 bg-background">
+        <ActiveFilterChips
+          filters={filterState}
+          onClearAll={handleClearAllFilters}
+          onRemoveAssignee={handleRemoveAssignee}
+          onRemoveDateFilter={handleRemoveDateFilter}
+          onRemoveStatus={handleRemoveStatus}
+          onRemoveTeam={handleRemoveTeam}
+          onRemoveWorkType={handleRemoveWorkType}
+          teamNames={teamNames}
+          userNames={userNames}
+        />
+
+        <View className="relative flex-1">
+          <MapView
+            initialRegion={INITIAL_REGION}
+            onPress={() => setSelectedTask(null)}
+            onRegionChangeComplete={setRegion}
+            provider={PROVIDER_GOOGLE}
+            ref={mapRef}
+            showsUserLocation
+            style={styles.map}
+          >
+            {map?.tasks.map((task) => (
+              <Marker
+                coordinate={{ latitude: task.lat, longitude: task.lng }}
+                key={`task-${task.id}-${task.status}`}
+                onPress={(event) => {
+                  event.stopPropagation()
+                  impactAsync(ImpactFeedbackStyle.Light)
+                  setSelectedTask(task)
+                }}
+                pinColor={STATUS_PIN_COLORS[task.status]}
+                testID={`task-map-pin-${task.id}`}
+              />
+            ))}
+            {map?.clusters.map((cluster) => (
+              <Marker
+                coordinate={{ latitude: cluster.lat, longitude: cluster.lng }}
+                key={`cluster-${cluster.lat}-${cluster.lng}-${cluster.count}`}
+                onPress={(event) => {
+                  event.stopPropagation()
+                  handlePressCluster(cluster.bounds)
+                }}
+                tracksViewChanges={false}
+              >
+                <View className="size-10 items-center justify-center rounded-full border-2 border-white bg-primary">
+                  <Text className="font-sans-bold text-primary-foreground text-xs">
+                    {cluster.count}
+                  </Text>
+                </View>
+              </Marker>
+            ))}
+          </MapView>
+
+          <View className="absolute top-2 right-2 left-2 items-center gap-2">
+            {isFetching && (
+              <View className="rounded-full bg-white/80 p-2 dark:bg-black/80">
+                <ActivityIndicator />
+              </View>
+            )}
+            {map?.truncated && (
+              <View className="rounded-full bg-white/80 px-4 py-2 dark:bg-black/80">
+                <Text className="text-center text-xs">
+                  Quá nhiều công việc, chỉ hiển thị các công việc mới nhất.
+                  Phóng to hoặc thêm bộ lọc để xem đủ.
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <View className="absolute right-4 bottom-6 left-4">
+            {selectedTask ? (
+              <TaskMapPreviewCard
+                onClose={() => setSelectedTask(null)}
+                onViewDetails={handleViewDetails}
+                task={selectedTask}
+              />
+            ) : (
+              <View className="flex-row flex-wrap justify-center gap-x-3 gap-y-1 self-center rounded-lg bg-white/80 px-3 py-2 dark:bg-black/80">
+                {STATUS_LEGEND.map(({ status, label }) => (
+                  <View className="flex-row items-center gap-1" key={status}>
+                    <View
+                      className="size-3 rounded-full"
+                      style={{ backgroundColor: STATUS_PIN_COLORS[status] }}
+                    />
+                    <Text className="text-xs">{label}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+
+      <TaskFilterBottomSheet
+        initialFilters={filterState}
+        onApplyFilters={setFilterState}
+        ref={filterSheetRef}
+        showAssigneeFilter // Admin can filter by assignees
+      />
+    </>
+  )
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+})
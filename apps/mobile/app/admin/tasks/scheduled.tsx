@@ -0,0 +1,23 @@
+import { format } from 'date-fns'
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router'
+import { ScheduledTaskList } from '@/components/task/scheduled-task-list'
+
+export default function AdminScheduledTasksScreen() {
+  const router = useRouter()
+  const { date } = useLocalSearchParams<{ date?: string }>()
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Công việc theo lịch' }} />
+      <ScheduledTaskList
+        date={date ?? format(new Date(), 'yyyy-MM-dd')}
+        onPressTask={(taskId) =>
+          router.push({
+            pathname: '/admin/tasks/[taskId]/view',
+            params: { taskId: taskId.toString() },
+          })
+        }
+      />
+    </>
+  )
+}
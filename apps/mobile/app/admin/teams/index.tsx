@@ -0,0 +1,289 @@
+import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
+import { Stack } from 'expo-router'
+import {
+  CrownIcon,
+  PencilIcon,
+  TrashIcon,
+  UsersIcon,
+} from 'lucide-react-native'
+import { useMemo, useRef, useState } from 'react'
+import { Alert, FlatList, RefreshControl, View } from 'react-native'
+import {
+  type Team,
+  useCreateTeam,
+  useDeleteTeam,
+  useTeams,
+  useUpdateTeam,
+} from '@/api/team/use-teams'
+import { useUserList } from '@/api/user/use-user-list'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { BottomSheet } from '@/components/ui/bottom-sheet'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Input } from '@/components/ui/input'
+import { Text } from '@/components/ui/text'
+import { UserSelectBottomSheetModal } from '@/components/user-select-bottom-sheet-modal'
+import { cn } from '@/lib/utils'
+
+/**
+ * Crews sent out together - picking a team when assigning a task selects all
+ * of its members
+ */
+export default function TeamsScreen() {
+  const memberModalRef = useRef<BottomSheetModalMethods>(null)
+
+  const [editingId, setEditingId] = useState<string>()
+  const [name, setName] = useState('')
+  const [memberIds, setMemberIds] = useState<string[]>([])
+  const [leaderId, setLeaderId] = useState<string | null>(null)
+
+  const { data: teams = [], isLoading, isRefetching, refetch } = useTeams()
+  const { data: users } = useUserList()
+  const { mutate: createTeam, isPending: isCreating } = useCreateTeam()
+  const { mutate: updateTeam, isPending: isUpdating } = useUpdateTeam()
+  const {
+    mutate: deleteTeam,
+    isPending: isDeleting,
+    variables,
+  } = useDeleteTeam()
+
+  const userNames = useMemo(
+    () =>
+      Object.fromEntries(
+        (users ?? []).map((user) => [
+          user.id,
+          `${user.lastName} ${user.firstName}`,
+        ]),
+      ),
+    [users],
+  )
+
+  const isSaving = isCreating || isUpdating
+  const canSave = name.trim().length >= 2 && memberIds.length > 0 && !isSaving
+
+  const resetForm = () => {
+    setEditingId(undefined)
+    setName('')
+    setMemberIds([])
+    setLeaderId(null)
+  }
+
+  const startEditing = (team: Team) => {
+    setEditingId(team.id)
+    setName(team.name)
+    setMemberIds(team.memberIds)
+    setLeaderId(team.leaderId)
+  }
+
+  const handleChangeMembers = (userIds: string[]) => {
+    setMemberIds(userIds)
+    // The leader must stay in the team
+    if (leaderId && !userIds.includes(leaderId)) {
+      setLeaderId(null)
+    }
+  }
+
+  const handleSave = () => {
+    if (!canSave) {
+      return
+    }
+    const values = { name: name.trim(), leaderId, memberIds }
+    if (editingId) {
+      updateTeam({ id: editingId, ...values }, { onSuccess: resetForm })
+    } else {
+      createTeam(values, { onSuccess: resetForm })
+    }
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          title: 'Đội',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : teams}
+        keyboardShouldPersistTaps="handled"
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Tạo đội để giao việc cho cả nhóm một lần."
+              messageTitle="Chưa có đội nào"
+            />
+          )
+        }
+        ListHeaderComponent={
+          <View className="mb-2 gap-2 rounded-lg border border-border bg-card p-3">
+            <Text className="font-sans-semibold">
+              {editingId ? 'Sửa đội' : 'Thêm đội'}
+            </Text>
+            <Input
+              accessibilityLabel="Tên đội"
+              editable={!isSaving}
+              maxLength={100}
+              onChangeText={setName}
+              placeholder="Ví dụ: Đội lắp đặt 1"
+              testID="team-name-input"
+              value={name}
+            />
+            <Button
+              className="justify-start"
+              onPress={() => memberModalRef.current?.present()}
+              testID="team-members-button"
+              variant="outline"
+            >
+              <Icon as={UsersIcon} className="size-4" />
+              <Text>
+                {memberIds.length
+                  ? `${memberIds.length} thành viên`
+                  : 'Chọn thành viên'}
+              </Text>
+            </Button>
+            {memberIds.length > 0 && (
+              <View className="gap-1">
+                <Text className="text-muted-foreground text-sm">
+                  Đội trưởng
+                </Text>
+                <View className="flex-row flex-wrap gap-2">
+                  {memberIds.map((userId) => {
+                    const isLeader = userId === leaderId
+                    return (
+                      <Button
+                        accessibilityLabel={`${userNames[userId] ?? 'Nhân viên'}${isLeader ? ', đội trưởng' : ''}`}
+                        accessibilityState={{ selected: isLeader }}
+                        key={userId}
+                        onPress={() => setLeaderId(isLeader ? null : userId)}
+                        size="sm"
+                        testID={`team-leader-${userId}`}
+                        variant={isLeader ? 'default' : 'outline'}
+                      >
+                        {isLeader && <Icon as={CrownIcon} className="size-4" />}
+                        <Text>{userNames[userId] ?? 'Nhân viên'}</Text>
+                      </Button>
+                    )
+                  })}
+                </View>
+              </View>
+            )}
+            <View className="flex-row gap-2">
+              {editingId && (
+                <Button
+                  className="flex-1"
+                  disabled={isSaving}
+                  onPress={resetForm}
+                  variant="outline"
+                >
+                  <Text>Hủy</Text>
+                </Button>
+              )}
+              <Button
+                className={cn('flex-1', isSaving && 'opacity-50')}
+                disabled={!canSave}
+                onPress={handleSave}
+                testID="team-save-button"
+              >
+                <Text>
+                  {isSaving ? 'Đang lưu...' : editingId ? 'Lưu' : 'Thêm'}
+                </Text>
+              </Button>
+            </View>
+          </View>
+        }
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách đội"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => (
+          <View
+            className={cn(
+              'flex-row items-center gap-3 rounded-lg border border-border bg-card p-3',
+              item.id === editingId && 'border-primary',
+            )}
+            testID={`team-${item.id}`}
+          >
+            <Icon as={UsersIcon} className="size-4 text-primary" />
+            <View className="flex-1">
+              <Text className="font-sans-semibold">{item.name}</Text>
+              <Text className="text-muted-foreground text-sm">
+                {item.memberIds
+                  .map((userId) => userNames[userId] ?? 'Nhân viên')
+                  .join(', ')}
+              </Text>
+              {item.leaderId && (
+                <Text className="text-muted-foreground text-sm">
+                  Đội trưởng: {userNames[item.leaderId] ?? 'Nhân viên'}
+                </Text>
+              )}
+            </View>
+            <Button
+              accessibilityLabel={`Sửa ${item.name}`}
+              onPress={() => startEditing(item)}
+              size="icon"
+              variant="ghost"
+            >
+              <Icon as={PencilIcon} className="size-4" />
+            </Button>
+            <Button
+              accessibilityLabel={`Xóa ${item.name}`}
+              disabled={isDeleting && variables?.id === item.id}
+              onPress={() =>
+                Alert.alert(
+                  'Xóa đội',
+                  `Đội ${item.name} sẽ bị xóa. Các công việc đã giao vẫn giữ người làm.`,
+                  [
+                    { text: 'Không', style: 'cancel' },
+                    {
+                      text: 'Xóa',
+                      style: 'destructive',
+                      onPress: () =>
+                        deleteTeam(
+                          { id: item.id },
+                          {
+                            onSuccess: () => {
+                              if (item.id === editingId) {
+                                resetForm()
+                              }
+                            },
+                          },
+                        ),
+                    },
+                  ],
+                )
+              }
+              size="icon"
+              variant="ghost"
+            >
+              <Icon as={TrashIcon} className="size-4 text-destructive" />
+            </Button>
+          </View>
+        )}
+      />
+
+      <BottomSheet index={1} ref={memberModalRef} snapPoints={['50%', '90%']}>
+        <UserSelectBottomSheetModal
+          onCancel={() => memberModalRef.current?.dismiss()}
+          onChangeSelectedUserIds={handleChangeMembers}
+          onSave={() => memberModalRef.current?.dismiss()}
+          selectedUserIds={memberIds}
+        />
+      </BottomSheet>
+    </>
+  )
+}
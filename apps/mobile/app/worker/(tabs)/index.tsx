@@ -1,12 +1,16 @@
-import type { TaskSearchFilterQuery } from '@nv-internal/validation'
+import type {
+  TaskSearchFilterQuery,
+  TaskWorkType,
+} from '@nv-internal/validation'
 import { TaskStatus } from '@nv-internal/validation'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { Stack, useRouter } from 'expo-router'
-import { FilterIcon } from 'lucide-react-native'
+import { CalendarDaysIcon, FilterIcon } from 'lucide-react-native'
 import { useMemo, useRef, useState } from 'react'
 import { FlatList, Pressable, RefreshControl, View } from 'react-native'
 import { useAssignedTaskInfiniteList } from '@/api/task/use-assigned-task-infinite-list'
 import { useTaskSearch } from '@/api/task/use-task-search'
+import { AttendanceCard } from '@/components/attendance/attendance-card'
 import { ActiveFilterChips } from '@/components/task/active-filter-chips'
 import { EnhancedTaskCard } from '@/components/task/enhanced-task-card'
 import {
@@ -14,6 +18,7 @@ import {
   type TaskFilterBottomSheetMethods,
   type TaskFilterState,
 } from '@/components/task/task-filter-bottom-sheet'
+import { TodayRouteCard } from '@/components/task/today-route-card'
 import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
 import { Button } from '@/components/ui/button'
 import { EmptyState } from '@/components/ui/empty-state'
@@ -63,7 +68,8 @@ export default function WorkerIndex() {
     (filterState.createdFrom ||
       filterState.createdTo ||
       filterState.completedFrom ||
-      filterState.completedTo) !== undefined
+      filterState.completedTo) !== undefined ||
+    (filterState.workTypes?.length || 0) > 0
   const isSearching = searchText.trim().length > 0 || hasAdditionalFilters
 
   // Regular task lists (no search)
@@ -98,6 +104,7 @@ export default function WorkerIndex() {
           activeFilter === 'active'
             ? [TaskStatus.READY, TaskStatus.IN_PROGRESS]
             : [TaskStatus.COMPLETED],
+        workType: filterState.workTypes,
         assigneeIds: undefined, // Workers filter by assignedOnly, not specific IDs
         assignedOnly: 'true', // Worker should only see their tasks
         createdFrom: filterState.createdFrom?.toISOString(),
@@ -123,6 +130,7 @@ export default function WorkerIndex() {
       search: searchText,
       take: 20,
       status: apiFilters.status,
+      workType: apiFilters.workType,
       assigneeIds: apiFilters.assigneeIds,
       assignedOnly: apiFilters.assignedOnly,
       customerId: apiFilters.customerId,
@@ -206,6 +214,13 @@ export default function WorkerIndex() {
     })
   }
 
+  const handleRemoveWorkType = (workType: TaskWorkType) => {
+    setFilterState((prev) => ({
+      ...prev,
+      workTypes: prev.workTypes?.filter((w) => w !== workType),
+    }))
+  }
+
   const handleClearAllFilters = () => {
     setFilterState({
       sortBy: 'createdAt',
@@ -216,6 +231,7 @@ export default function WorkerIndex() {
   // Count active filters (excluding sort and status which are always present)
   const activeFilterCount = useMemo(() => {
     return (
+      (filterState.workTypes?.length || 0) +
       (filterState.createdFrom || filterState.createdTo ? 1 : 0) +
       (filterState.completedFrom || filterState.completedTo ? 1 : 0)
     )
@@ -304,31 +320,52 @@ export default function WorkerIndex() {
                 setSearchText(nativeEvent.text),
             },
           }),
-          headerRight: () =>
-            isFilterEnabled ? (
+          headerRight: () => (
+            <View className="flex-row items-center gap-2">
+              {/* Calendar Button */}
               <Button
-                accessibilityHint="Mở bộ lọc để tìm kiếm công việc theo ngày tháng"
-                accessibilityLabel="Bộ lọc công việc"
+                accessibilityHint="Điều hướng đến lịch làm việc theo ngày hẹn"
+                accessibilityLabel="Lịch làm việc"
                 accessibilityRole="button"
-                className="relative w-10"
+                className="w-10"
                 onPress={() => {
                   impactAsync(ImpactFeedbackStyle.Light)
-                  filterSheetRef.current?.present()
+                  router.push('/worker/tasks/calendar')
                 }}
                 size={null}
-                testID="worker-tasks-filter-button"
+                testID="worker-tasks-calendar-button"
                 variant={null}
               >
-                <Icon as={FilterIcon} className="size-6" />
-                {activeFilterCount > 0 && (
-                  <View className="absolute top-0 right-0 size-5 items-center justify-center rounded-full bg-primary">
-                    <Text className="font-sans-bold text-[10px] text-primary-foreground">
-                      {activeFilterCount}
-                    </Text>
-                  </View>
-                )}
+                <Icon as={CalendarDaysIcon} className="size-6" />
               </Button>
-            ) : null,
+
+              {/* Filter Button - Controlled by feature flag */}
+              {isFilterEnabled && (
+                <Button
+                  accessibilityHint="Mở bộ lọc để tìm kiếm công việc theo ngày tháng"
+                  accessibilityLabel="Bộ lọc công việc"
+                  accessibilityRole="button"
+                  className="relative w-10"
+                  onPress={() => {
+                    impactAsync(ImpactFeedbackStyle.Light)
+                    filterSheetRef.current?.present()
+                  }}
+                  size={null}
+                  testID="worker-tasks-filter-button"
+                  variant={null}
+                >
+                  <Icon as={FilterIcon} className="size-6" />
+                  {activeFilterCount > 0 && (
+                    <View className="absolute top-0 right-0 size-5 items-center justify-center rounded-full bg-primary">
+                      <Text className="font-sans-bold text-[10px] text-primary-foreground">
+                        {activeFilterCount}
+                      </Text>
+                    </View>
+                  )}
+                </Button>
+              )}
+            </View>
+          ),
         }}
       />
       <View className="flex-1 bg-background">
@@ -338,6 +375,7 @@ export default function WorkerIndex() {
             filters={filterState}
             onClearAll={handleClearAllFilters}
             onRemoveDateFilter={handleRemoveDateFilter}
+            onRemoveWorkType={handleRemoveWorkType}
           />
         )}
 
@@ -471,6 +509,22 @@ export default function WorkerIndex() {
               </View>
             ) : null
           }
+          ListHeaderComponent={
+            // Workday clock-in and today's visiting order above the active tasks
+            !isSearching && activeFilter === 'active' ? (
+              <>
+                <AttendanceCard />
+                <TodayRouteCard
+                  onPressTask={(taskId) =>
+                    router.push({
+                      pathname: '/worker/tasks/[taskId]/view',
+                      params: { taskId: taskId.toString() },
+                    })
+                  }
+                />
+              </>
+            ) : null
+          }
           onEndReached={() => {
             if (hasNextPage && !isFetchingNextPage) {
               fetchNextPage()
@@ -1,13 +1,19 @@
 import { Stack } from 'expo-router'
+import { useLocationBreadcrumbs } from '@/hooks/use-location-breadcrumbs'
 
 /**
  * Worker Layout - Navigation Wrapper
  *
+ * Also records the worker's positions while they have an open visit
+ * (see useLocationBreadcrumbs).
+ *
  * IMPORTANT: Don't use screenOptions - it creates overlays that block tabs.
  * Configure each route explicitly instead.
  * See: docs/architecture/patterns/tabs-navigation.md
  */
 export default function WorkerLayout() {
+  useLocationBreadcrumbs()
+
   return (
     <Stack>
       {/* Hide header for tabs - Tabs handle their own UI */}
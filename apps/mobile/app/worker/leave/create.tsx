@@ -0,0 +1,171 @@
+import { LeaveType } from '@nv-internal/prisma-client'
+import { Stack, useRouter } from 'expo-router'
+import { CalendarDaysIcon } from 'lucide-react-native'
+import { useRef, useState } from 'react'
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
+import { useCreateLeaveRequest } from '@/api/leave/use-leave-requests'
+import {
+  formatLeaveDays,
+  LEAVE_TYPE_LABELS,
+} from '@/components/leave/leave-request-card'
+import {
+  TaskDatePickerModal,
+  type TaskDatePickerModalMethods,
+} from '@/components/task/task-date-picker-modal'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Icon } from '@/components/ui/icon'
+import { RadioCard, RadioGroup } from '@/components/ui/radio-card'
+import { Text } from '@/components/ui/text'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+const LEAVE_TYPE_DESCRIPTIONS: Record<LeaveType, string> = {
+  [LeaveType.ANNUAL]: 'Nghỉ lễ, Tết, du lịch',
+  [LeaveType.SICK]: 'Ốm đau, khám bệnh',
+  [LeaveType.PERSONAL]: 'Việc gia đình, việc riêng',
+  [LeaveType.UNPAID]: 'Nghỉ không hưởng lương',
+}
+
+const toCalendarDate = (date: Date) => date.toISOString().split('T')[0]
+
+/**
+ * Ask for leave - the admin approves it, then no task is assigned to the
+ * worker on those days
+ */
+export default function CreateLeaveRequestScreen() {
+  const router = useRouter()
+  const datePickerModalRef = useRef<TaskDatePickerModalMethods>(null)
+
+  const [type, setType] = useState<LeaveType | null>(null)
+  const [days, setDays] = useState<{ startDate: string; endDate: string }>()
+  const [reason, setReason] = useState('')
+
+  const { mutate, isPending } = useCreateLeaveRequest()
+
+  const canSubmit = !!type && !!days && !isPending
+
+  const handleSubmit = () => {
+    if (!type || !days) {
+      return
+    }
+    mutate(
+      { type, ...days, reason: reason.trim() || undefined },
+      { onSuccess: () => router.back() },
+    )
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerBackButtonDisplayMode: 'generic',
+          title: 'Xin nghỉ phép',
+        }}
+      />
+
+      <KeyboardAwareScrollView
+        bottomOffset={40}
+        contentContainerClassName="gap-3 p-4 pb-safe"
+      >
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Loại nghỉ phép</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup>
+              {Object.values(LeaveType).map((value) => (
+                <RadioCard
+                  description={LEAVE_TYPE_DESCRIPTIONS[value]}
+                  key={value}
+                  onPress={() => setType(value)}
+                  selected={type === value}
+                  testID={`leave-type-${value}`}
+                  title={LEAVE_TYPE_LABELS[value]}
+                />
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Ngày nghỉ</CardTitle>
+            <CardDescription>
+              Chọn ngày bắt đầu và ngày kết thúc (có thể trùng nhau)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              className="justify-start"
+              onPress={() => datePickerModalRef.current?.present()}
+              testID="leave-days-button"
+              variant="outline"
+            >
+              <Icon as={CalendarDaysIcon} className="size-4" />
+              <Text>{days ? formatLeaveDays(days) : 'Chọn ngày nghỉ'}</Text>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Lý do</CardTitle>
+            <CardDescription>Thông tin cho admin (tùy chọn)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              accessibilityLabel="Lý do nghỉ phép"
+              className="!rounded-md !bg-background dark:!border-white/20"
+              editable={!isPending}
+              maxLength={500}
+              multiline
+              numberOfLines={3}
+              onChangeText={setReason}
+              placeholder="Ví dụ: về quê ăn Tết"
+              testID="leave-reason-input"
+              value={reason}
+            />
+          </CardContent>
+        </Card>
+
+        <Button
+          accessibilityLabel="Gửi đơn nghỉ phép"
+          className={cn('w-full', isPending && 'opacity-50')}
+          disabled={!canSubmit}
+          onPress={handleSubmit}
+          size="lg"
+          testID="leave-submit-button"
+        >
+          <Text className="font-semibold">
+            {isPending ? 'Đang gửi...' : 'Gửi đơn'}
+          </Text>
+        </Button>
+      </KeyboardAwareScrollView>
+
+      <TaskDatePickerModal
+        initialFromDate={days ? new Date(days.startDate) : undefined}
+        initialToDate={days ? new Date(days.endDate) : undefined}
+        label="Chọn ngày nghỉ"
+        onApply={(fromDate, toDate) => {
+          if (!fromDate) {
+            setDays(undefined)
+            return
+          }
+          const startDate = toCalendarDate(fromDate)
+          setDays({
+            startDate,
+            endDate: toDate ? toCalendarDate(toDate) : startDate,
+          })
+        }}
+        ref={datePickerModalRef}
+      />
+    </>
+  )
+}
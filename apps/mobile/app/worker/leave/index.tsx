@@ -0,0 +1,124 @@
+import { LeaveStatus } from '@nv-internal/prisma-client'
+import { Link, Stack } from 'expo-router'
+import { PlusIcon } from 'lucide-react-native'
+import { Alert, FlatList, RefreshControl, View } from 'react-native'
+import {
+  useCancelLeaveRequest,
+  useLeaveRequests,
+} from '@/api/leave/use-leave-requests'
+import {
+  formatLeaveDays,
+  LeaveRequestCard,
+} from '@/components/leave/leave-request-card'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { Button } from '@/components/ui/button'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+
+const CANCELLABLE_STATUSES: LeaveStatus[] = [
+  LeaveStatus.PENDING,
+  LeaveStatus.APPROVED,
+]
+
+/**
+ * The worker's own leave requests, to ask for leave (Tết, sick day) and
+ * follow the admin's decision
+ */
+export default function WorkerLeaveRequestsScreen() {
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useLeaveRequests()
+  const { mutate: cancel, isPending, variables } = useCancelLeaveRequest()
+
+  const leaveRequests = data?.pages.flatMap((page) => page.leaveRequests) ?? []
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Nghỉ phép',
+          headerBackButtonDisplayMode: 'minimal',
+        }}
+      />
+      <FlatList
+        contentContainerClassName="gap-2 p-4"
+        contentInsetAdjustmentBehavior="automatic"
+        data={isLoading ? [] : leaveRequests}
+        keyExtractor={(item) => item.id}
+        ListEmptyComponent={
+          isLoading ? (
+            <View className="gap-2">
+              <TaskListItemSkeleton />
+              <TaskListItemSkeleton />
+            </View>
+          ) : (
+            <EmptyState
+              className="flex-1"
+              image="laziness"
+              messageDescription="Gửi đơn khi cần nghỉ để không bị giao việc vào những ngày này."
+              messageTitle="Chưa có đơn nghỉ phép"
+            />
+          )
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <View className="py-4">
+              <TaskListItemSkeleton />
+            </View>
+          ) : null
+        }
+        ListHeaderComponent={
+          <Link asChild href="/worker/leave/create">
+            <Button className="mb-2" testID="leave-request-create-button">
+              <Icon as={PlusIcon} className="size-4 text-primary-foreground" />
+              <Text>Xin nghỉ phép</Text>
+            </Button>
+          </Link>
+        }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) {
+            fetchNextPage()
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl
+            accessibilityLabel="Làm mới danh sách nghỉ phép"
+            onRefresh={refetch}
+            refreshing={isRefetching}
+          />
+        }
+        renderItem={({ item }) => (
+          <LeaveRequestCard
+            isPending={isPending && variables?.id === item.id}
+            leaveRequest={item}
+            onCancel={
+              CANCELLABLE_STATUSES.includes(item.status)
+                ? () =>
+                    Alert.alert(
+                      'Hủy đơn nghỉ phép',
+                      `Hủy đơn nghỉ ${formatLeaveDays(item)}?`,
+                      [
+                        { text: 'Không', style: 'cancel' },
+                        {
+                          text: 'Hủy đơn',
+                          style: 'destructive',
+                          onPress: () => cancel({ id: item.id }),
+                        },
+                      ],
+                    )
+                : undefined
+            }
+          />
+        )}
+      />
+    </>
+  )
+}
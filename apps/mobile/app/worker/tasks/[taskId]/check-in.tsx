@@ -27,6 +27,8 @@ export default function CheckInScreen() {
         title: 'Bắt đầu làm việc',
         buttonLabel: 'Xác nhận bắt đầu',
         requiredStatus: 'READY',
+        allowResumeFromHold: true,
+        allowNextVisit: true,
         successMessage: 'Đã bắt đầu làm việc',
         endpoint: 'check-in',
       }}
@@ -1,5 +1,6 @@
+import { useUser } from '@clerk/clerk-expo'
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router'
-import { CheckCircle, XCircle } from 'lucide-react-native'
+import { CheckCircle, LogOut, XCircle } from 'lucide-react-native'
 import { View } from 'react-native'
 import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
 import Animated, {
@@ -26,14 +27,19 @@ import { EmptyState } from '@/components/ui/empty-state'
 import { RadioCard, RadioGroup } from '@/components/ui/radio-card'
 import { Text } from '@/components/ui/text'
 import { Textarea } from '@/components/ui/textarea'
+import { UserFullName } from '@/components/user-public-info'
 import { useCheckoutWithPayment } from '@/hooks/use-checkout-with-payment'
 
 /**
  * Check-out screen with payment collection
  * Progressive disclosure pattern - payment fields only shown when needed
+ *
+ * The worker can also only end the current visit of a multi-visit job, the
+ * task then stays in progress until a later visit completes it.
  */
 export default function CheckOutScreen() {
   const router = useRouter()
+  const { user } = useUser()
   const searchParams = useLocalSearchParams()
   const taskId =
     typeof searchParams.taskId === 'string'
@@ -45,6 +51,9 @@ export default function CheckOutScreen() {
     isLoadingTask,
     location,
     distance,
+    geofence,
+    isNoteRequired,
+    isBlocked,
     attachments,
     notes,
     isSubmitting,
@@ -54,6 +63,8 @@ export default function CheckOutScreen() {
     addFromFiles,
     removeAttachment,
     setNotes,
+    completeTask,
+    setCompleteTask,
     // Payment-specific
     hasExpectedRevenue,
     expectedRevenue,
@@ -67,13 +78,22 @@ export default function CheckOutScreen() {
   } = useCheckoutWithPayment(taskId!)
 
   // Validation
+  const isMissingNote = isNoteRequired && !notes.trim()
   const canSubmit =
     location &&
     task &&
-    (!hasExpectedRevenue ||
+    !isBlocked &&
+    !isMissingNote &&
+    (!completeTask ||
+      !hasExpectedRevenue ||
       !paymentState.paymentCollected ||
       paymentState.paymentAmount !== null)
   const isWrongStatus = task && task.status !== 'IN_PROGRESS'
+  // Team jobs complete when the last assignee on site checks out
+  const teammatesOnSite =
+    task?.visits
+      ?.filter((visit) => !visit.checkedOutAt && visit.userId !== user?.id)
+      .map((visit) => visit.userId) ?? []
 
   if (!taskId || Number.isNaN(taskId)) {
     return (
@@ -202,14 +222,59 @@ export default function CheckOutScreen() {
             <LocationVerification
               currentLocation={location}
               distance={distance}
+              radiusMeters={geofence?.radiusMeters}
               taskLocation={task.geoLocation}
               warnings={warnings}
             />
           </CardContent>
         </Card>
 
+        {/* Complete the task or only end this visit */}
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Kết quả lượt làm việc</CardTitle>
+            <CardDescription>
+              Công việc cần nhiều lần đến? Kết thúc lượt này và check-in lại vào
+              lần sau.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="gap-3">
+            <RadioGroup>
+              <RadioCard
+                description="Công việc đã xong, chuyển sang hoàn thành"
+                icon={<CheckCircle className="text-green-600" size={20} />}
+                onPress={() => setCompleteTask(true)}
+                selected={completeTask}
+                title="Hoàn thành công việc"
+              />
+              <RadioCard
+                description="Công việc chưa xong, sẽ quay lại lần sau"
+                icon={<LogOut className="text-muted-foreground" size={20} />}
+                onPress={() => setCompleteTask(false)}
+                selected={!completeTask}
+                title="Kết thúc lượt làm việc (chưa hoàn thành)"
+              />
+            </RadioGroup>
+            {completeTask && teammatesOnSite.length > 0 && (
+              <View className="gap-1 rounded-lg bg-amber-500/10 p-3 dark:bg-amber-500/20">
+                <Text className="text-amber-700 text-sm dark:text-amber-400">
+                  Đồng đội vẫn đang làm việc. Công việc sẽ hoàn thành khi người
+                  cuối cùng check-out:
+                </Text>
+                {teammatesOnSite.map((userId) => (
+                  <UserFullName
+                    className="font-sans-medium text-amber-700 text-sm dark:text-amber-400"
+                    key={userId}
+                    userId={userId}
+                  />
+                ))}
+              </View>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Payment Collection Section - Progressive Disclosure */}
-        {hasExpectedRevenue && (
+        {completeTask && hasExpectedRevenue && (
           <Animated.View
             layout={LinearTransition.duration(300)}
             style={{ overflow: 'hidden' }}
@@ -323,7 +388,11 @@ export default function CheckOutScreen() {
         <Card className="bg-muted dark:border-white/20">
           <CardHeader>
             <CardTitle>Ghi chú</CardTitle>
-            <CardDescription>Thông tin bổ sung (tùy chọn)</CardDescription>
+            <CardDescription>
+              {isNoteRequired
+                ? 'Bắt buộc: ghi rõ lý do bạn ở ngoài phạm vi công việc'
+                : 'Thông tin bổ sung (tùy chọn)'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <Textarea
@@ -345,7 +414,9 @@ export default function CheckOutScreen() {
           onPress={handleSubmitWithPayment}
           size="lg"
         >
-          <Text className="font-semibold">Xác nhận hoàn thành</Text>
+          <Text className="font-semibold">
+            {completeTask ? 'Xác nhận hoàn thành' : 'Xác nhận kết thúc lượt'}
+          </Text>
         </Button>
 
         {/* Validation Messages */}
@@ -354,11 +425,24 @@ export default function CheckOutScreen() {
             Đang lấy vị trí hiện tại...
           </Text>
         )}
-        {paymentState.paymentCollected && !paymentState.paymentAmount && (
+        {isBlocked && (
+          <Text className="text-center text-destructive text-sm">
+            Bạn đang ở ngoài phạm vi cho phép. Vui lòng đến đúng địa điểm công
+            việc để check-out.
+          </Text>
+        )}
+        {isMissingNote && (
           <Text className="text-center text-destructive text-sm">
-            Vui lòng nhập số tiền đã thu
+            Bạn đang ở ngoài phạm vi cho phép. Vui lòng ghi chú lý do.
           </Text>
         )}
+        {completeTask &&
+          paymentState.paymentCollected &&
+          !paymentState.paymentAmount && (
+            <Text className="text-center text-destructive text-sm">
+              Vui lòng nhập số tiền đã thu
+            </Text>
+          )}
       </KeyboardAwareScrollView>
     </>
   )
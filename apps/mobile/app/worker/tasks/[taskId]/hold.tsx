@@ -0,0 +1,210 @@
+import { TaskHoldReason } from '@nv-internal/validation'
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router'
+import { ClockIcon, PackageIcon, UserXIcon } from 'lucide-react-native'
+import { type ReactNode, useState } from 'react'
+import { View } from 'react-native'
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
+import { usePutTaskOnHold } from '@/api/task/use-put-task-on-hold'
+import { useTask } from '@/api/task/use-task'
+import {
+  type InvoiceFile,
+  InvoicePhotoCapture,
+} from '@/components/payment/invoice-photo-capture'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { EmptyState } from '@/components/ui/empty-state'
+import { Icon } from '@/components/ui/icon'
+import { RadioCard, RadioGroup } from '@/components/ui/radio-card'
+import {
+  HOLD_REASON_DESCRIPTIONS,
+  HOLD_REASON_LABELS,
+} from '@/components/ui/task-hold-reason-badge'
+import { Text } from '@/components/ui/text'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+
+const HOLD_REASON_ICONS: Record<TaskHoldReason, ReactNode> = {
+  [TaskHoldReason.WAITING_FOR_PARTS]: (
+    <Icon as={PackageIcon} className="text-amber-600" size={20} />
+  ),
+  [TaskHoldReason.CUSTOMER_ABSENT]: (
+    <Icon as={UserXIcon} className="text-amber-600" size={20} />
+  ),
+  [TaskHoldReason.NEEDS_SECOND_VISIT]: (
+    <Icon as={ClockIcon} className="text-amber-600" size={20} />
+  ),
+}
+
+/**
+ * Hold screen - worker pauses their IN_PROGRESS task with a reason code
+ * The task is resumed from the check-in screen
+ */
+export default function HoldScreen() {
+  const router = useRouter()
+  const searchParams = useLocalSearchParams()
+  const taskId =
+    typeof searchParams.taskId === 'string'
+      ? Number.parseInt(searchParams.taskId, 10)
+      : undefined
+
+  const [reason, setReason] = useState<TaskHoldReason | null>(null)
+  const [notes, setNotes] = useState('')
+  const [photo, setPhoto] = useState<InvoiceFile | null>(null)
+
+  const { data: task, isLoading: isLoadingTask } = useTask(
+    { id: taskId ?? 0 },
+    { enabled: !!taskId },
+  )
+  const { mutate, isPending } = usePutTaskOnHold({
+    onSuccess: () => router.back(),
+  })
+
+  if (!taskId || Number.isNaN(taskId)) {
+    return (
+      <View className="flex-1 items-center justify-center p-4">
+        <Text className="text-destructive">ID công việc không hợp lệ</Text>
+      </View>
+    )
+  }
+
+  const screenOptions = (
+    <Stack.Screen
+      options={{
+        headerBackButtonDisplayMode: 'generic',
+        title: 'Tạm dừng công việc',
+      }}
+    />
+  )
+
+  if (isLoadingTask) {
+    return (
+      <>
+        {screenOptions}
+        <View className="flex-1 items-center justify-center p-4">
+          <Text className="text-muted-foreground text-sm">
+            Đang tải thông tin...
+          </Text>
+        </View>
+      </>
+    )
+  }
+
+  if (!task || task.status !== 'IN_PROGRESS') {
+    return (
+      <>
+        {screenOptions}
+        <View className="flex-1 items-center justify-center gap-4 p-4">
+          <EmptyState
+            className="flex-1"
+            image="curiosity"
+            messageDescription="Chỉ có thể tạm dừng công việc đang thực hiện"
+            messageTitle="Không thể thực hiện"
+          />
+          <Button
+            className="w-full"
+            onPress={() => router.back()}
+            variant="outline"
+          >
+            <Text>Quay lại</Text>
+          </Button>
+        </View>
+      </>
+    )
+  }
+
+  const handleSubmit = () => {
+    if (!reason) {
+      return
+    }
+    mutate({ taskId, reason, notes, photo })
+  }
+
+  return (
+    <>
+      {screenOptions}
+
+      <KeyboardAwareScrollView
+        bottomOffset={40}
+        contentContainerClassName="gap-3 p-4 pb-safe"
+      >
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Lý do tạm dừng</CardTitle>
+            <CardDescription>
+              Tiếp tục công việc bằng cách check-in lại khi sẵn sàng
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup>
+              {Object.values(TaskHoldReason).map((value) => (
+                <RadioCard
+                  description={HOLD_REASON_DESCRIPTIONS[value]}
+                  icon={HOLD_REASON_ICONS[value]}
+                  key={value}
+                  onPress={() => setReason(value)}
+                  selected={reason === value}
+                  testID={`hold-reason-${value}`}
+                  title={HOLD_REASON_LABELS[value]}
+                />
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-muted dark:border-white/20">
+          <CardContent className="gap-4 pt-6">
+            <InvoicePhotoCapture
+              label="Ảnh (tùy chọn)"
+              onChange={setPhoto}
+              placeholder="Thêm ảnh minh họa (tùy chọn)"
+              value={photo}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="bg-muted dark:border-white/20">
+          <CardHeader>
+            <CardTitle>Ghi chú</CardTitle>
+            <CardDescription>Thông tin bổ sung (tùy chọn)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              accessibilityHint="Nhập thông tin bổ sung về việc tạm dừng"
+              accessibilityLabel="Ghi chú"
+              className="!rounded-md !bg-background dark:!border-white/20"
+              editable={!isPending}
+              multiline
+              numberOfLines={3}
+              onChangeText={setNotes}
+              placeholder="Ví dụ: cần thay block máy nén, đã đặt hàng"
+              testID="hold-notes-input"
+              value={notes}
+            />
+          </CardContent>
+        </Card>
+
+        <Button
+          accessibilityHint={
+            reason ? 'Xác nhận tạm dừng công việc' : 'Cần chọn lý do tạm dừng'
+          }
+          accessibilityLabel="Xác nhận tạm dừng"
+          className={cn('w-full', isPending && 'opacity-50')}
+          disabled={!reason || isPending}
+          onPress={handleSubmit}
+          size="lg"
+          testID="hold-submit-button"
+        >
+          <Text className="font-semibold">
+            {isPending ? 'Đang xử lý...' : 'Xác nhận tạm dừng'}
+          </Text>
+        </Button>
+      </KeyboardAwareScrollView>
+    </>
+  )
+}
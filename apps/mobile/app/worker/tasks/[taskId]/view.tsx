@@ -5,6 +5,7 @@ import { KeyboardAwareScrollView } from 'react-native-keyboard-controller'
 import { activitiesQueryOptions } from '@/api/activity/use-activities'
 import { useTask } from '@/api/task/use-task'
 import { ActivityFeed } from '@/components/activity-feed'
+import { TaskChecklist } from '@/components/task/task-checklist'
 import { TaskCommentBox } from '@/components/task-comment-box'
 import { TaskDetails } from '@/components/task-details'
 import { TaskDetailsSkeleton } from '@/components/task-details-skeleton'
@@ -82,6 +83,7 @@ export default function WorkerTaskView() {
             }
           >
             {task && <TaskDetails task={task} />}
+            {task && <TaskChecklist task={task} />}
 
             {/* Activities Card with Comment Box */}
             <Card className="bg-muted dark:border-white/20">
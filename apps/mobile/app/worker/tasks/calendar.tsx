@@ -0,0 +1,27 @@
+import { Stack, useRouter } from 'expo-router'
+import { TaskCalendarView } from '@/components/task/task-calendar-view'
+
+export default function WorkerTaskCalendarScreen() {
+  const router = useRouter()
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Lịch làm việc' }} />
+      <TaskCalendarView
+        assignedOnly
+        onPressDay={(date) =>
+          router.push({
+            pathname: '/worker/tasks/scheduled',
+            params: { date },
+          })
+        }
+        onPressTask={(taskId) =>
+          router.push({
+            pathname: '/worker/tasks/[taskId]/view',
+            params: { taskId: taskId.toString() },
+          })
+        }
+      />
+    </>
+  )
+}
@@ -0,0 +1,25 @@
+import { format } from 'date-fns'
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router'
+import { ScheduledTaskList } from '@/components/task/scheduled-task-list'
+
+export default function WorkerScheduledTasksScreen() {
+  const router = useRouter()
+  const { date } = useLocalSearchParams<{ date?: string }>()
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Công việc theo lịch' }} />
+      <ScheduledTaskList
+        assignedOnly
+        date={date ?? format(new Date(), 'yyyy-MM-dd')}
+        onPressTask={(taskId) =>
+          router.push({
+            pathname: '/worker/tasks/[taskId]/view',
+            params: { taskId: taskId.toString() },
+          })
+        }
+        workerMode
+      />
+    </>
+  )
+}
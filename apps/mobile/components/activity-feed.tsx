@@ -8,11 +8,16 @@ import { type FC, Fragment, useMemo, useState } from 'react'
 import { ActivityIndicator, FlatList, View } from 'react-native'
 import { type Activity, useActivities } from '@/api/activity/use-activities'
 import { useAttachments } from '@/api/attachment/use-attachments'
+import { formatDateTimeVN } from '@/lib/date-utils'
 import { AttachmentList } from './attachment-list'
 import { formatCurrencyDisplay } from './ui/currency-input'
 import { Icon } from './ui/icon'
 import { Separator } from './ui/separator'
 import { Switch } from './ui/switch'
+import {
+  formatHoldDuration,
+  HOLD_REASON_LABELS,
+} from './ui/task-hold-reason-badge'
 import { TaskStatusBadge } from './ui/task-status-badge'
 import { Text } from './ui/text'
 import { UserFullName } from './user-public-info'
@@ -170,14 +175,88 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
     // biome-ignore lint/suspicious/noExplicitAny: <flexible>
     const payload = pl as Record<string, any> | null | undefined
 
+    if (action === 'TASK_CREATED' && payload?.scheduleId) {
+      return (
+        <Text>
+          Đã tạo công việc từ lịch định kỳ{' '}
+          <Text className="font-sans-medium">{payload.scheduleTitle}</Text>.
+        </Text>
+      )
+    }
     if (action === 'TASK_CREATED') {
       return <Text>Đã tạo công việc.</Text>
     }
+    if (action === 'TASK_SLA_BREACHED') {
+      return (
+        <Text className="text-destructive">
+          Công việc đã quá hạn hoàn thành
+          {payload?.slaDueAt ? ` (${formatDateTimeVN(payload.slaDueAt)})` : ''}.
+        </Text>
+      )
+    }
+    if (action === 'TASK_CHECKLIST_ITEM_CHECKED' && payload?.label) {
+      return (
+        <Text>
+          Đã hoàn thành mục{' '}
+          <Text className="font-sans-medium">{payload.label}</Text>.
+        </Text>
+      )
+    }
+    if (action === 'TASK_CHECKLIST_ITEM_UNCHECKED' && payload?.label) {
+      return (
+        <Text>
+          Đã bỏ đánh dấu mục{' '}
+          <Text className="font-sans-medium">{payload.label}</Text>.
+        </Text>
+      )
+    }
     if (action === 'TASK_STATUS_UPDATED' && payload?.newStatus) {
       return (
         <View className="inline-flex flex-row flex-wrap items-baseline">
           <Text>Đã cập nhật trạng thái công việc sang </Text>
           <TaskStatusBadge status={payload.newStatus} />
+          {payload.reason && (
+            <Text className="w-full text-muted-foreground text-sm">
+              Lý do: {payload.reason}
+            </Text>
+          )}
+        </View>
+      )
+    }
+    if (action === 'TASK_PUT_ON_HOLD' && payload?.reason) {
+      const attachments = payload.attachments as
+        | Array<{ id?: string }>
+        | undefined
+      const notes = payload.notes as string | undefined
+
+      return (
+        <View className="gap-2">
+          <Text>
+            Đã tạm dừng công việc:{' '}
+            <Text className="font-sans-medium">
+              {
+                HOLD_REASON_LABELS[
+                  payload.reason as keyof typeof HOLD_REASON_LABELS
+                ]
+              }
+            </Text>
+          </Text>
+          {notes && (
+            <View className="flex-row gap-2 rounded-lg border border-border bg-card p-2">
+              <Icon
+                as={MessageSquareIcon}
+                className="mt-1 text-muted-foreground"
+                size={16}
+              />
+              <Text className="flex-1 text-sm">{notes}</Text>
+            </View>
+          )}
+          {attachments && attachments.length > 0 && (
+            <AttachmentsWithDeletedPlaceholders
+              attachmentIds={attachments.map((att) => att.id as string)}
+              compact
+            />
+          )}
         </View>
       )
     }
@@ -204,6 +283,9 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
             ) : (
               <Text className="font-sans-medium">Không có nhân viên</Text>
             )}
+            {payload.newScheduledAt
+              ? ` (lịch hẹn ${formatDateTimeVN(payload.newScheduledAt)})`
+              : ''}
           </Text>
         </View>
       )
@@ -244,6 +326,9 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
       const distance = payload.distanceFromTask as number | undefined
       const notes = payload.notes as string | undefined
       const warnings = (payload.warnings as string[]) || []
+      const resumedFromHold = payload.resumedFromHold as
+        | { reason: keyof typeof HOLD_REASON_LABELS; durationMinutes: number }
+        | undefined
 
       // Format distance
       const distanceText =
@@ -251,7 +336,17 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
 
       return (
         <View className="gap-2">
-          <Text>Đã bắt đầu làm việc</Text>
+          {resumedFromHold ? (
+            <Text>
+              Đã tiếp tục làm việc sau{' '}
+              <Text className="font-sans-medium">
+                {formatHoldDuration(resumedFromHold.durationMinutes)}
+              </Text>{' '}
+              tạm dừng ({HOLD_REASON_LABELS[resumedFromHold.reason]})
+            </Text>
+          ) : (
+            <Text>Đã bắt đầu làm việc</Text>
+          )}
           {distanceText && (
             <Text className="text-muted-foreground text-sm">
               Khoảng cách: {distanceText}
@@ -315,9 +410,20 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
       const distanceText =
         distance !== undefined ? formatDistance(distance) : null
 
+      // A check-out on a multi-visit or team job may only end the visit
+      const completedTask = payload.completedTask !== false
+      const waitingForAssigneeIds =
+        (payload.waitingForAssigneeIds as string[] | undefined) ?? []
+
       return (
         <View className="gap-2">
-          <Text>Đã hoàn thành công việc</Text>
+          <Text>
+            {completedTask
+              ? 'Đã hoàn thành công việc'
+              : waitingForAssigneeIds.length > 0
+                ? 'Đã xong phần việc, chờ đồng đội check-out'
+                : 'Đã kết thúc lượt làm việc'}
+          </Text>
           {distanceText && (
             <Text className="text-muted-foreground text-sm">
               Khoảng cách: {distanceText}
@@ -530,6 +636,30 @@ export const ActivityItem: FC<ActivityItemProps> = ({ activity }) => {
     }
 
     // TASK_COMMENTED - User added a comment
+    if (action === 'TASK_VISIT_CORRECTED' && payload) {
+      return (
+        <View className="gap-1">
+          <Text>
+            Đã sửa giờ check-out của{' '}
+            <UserFullName
+              className="font-sans-medium"
+              userId={payload.workerId}
+            />{' '}
+            thành{' '}
+            <Text className="font-sans-medium">
+              {formatDateTimeVN(payload.checkedOutAt)}
+            </Text>
+            {payload.previousCheckedOutAt
+              ? ` (trước đó ${formatDateTimeVN(payload.previousCheckedOutAt)})`
+              : ' (chưa check-out)'}
+            .
+          </Text>
+          <Text className="text-muted-foreground text-sm">
+            Lý do: {payload.reason}
+          </Text>
+        </View>
+      )
+    }
     if (action === 'TASK_COMMENTED' && payload) {
       const comment = payload.comment as string | undefined
       const attachments = payload.attachments as
@@ -47,6 +47,7 @@ export function AdminTaskList({
       search: searchText,
       take: 20,
       status: filters?.status,
+      workType: filters?.workType,
       assigneeIds: filters?.assigneeIds,
       assignedOnly: filters?.assignedOnly,
       customerId: filters?.customerId,
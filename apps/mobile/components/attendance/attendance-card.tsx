@@ -0,0 +1,140 @@
+import { format } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import * as ImagePicker from 'expo-image-picker'
+import * as Location from 'expo-location'
+import { CameraIcon, TimerIcon } from 'lucide-react-native'
+import { type FC, useState } from 'react'
+import { ActivityIndicator, View } from 'react-native'
+import {
+  useClockAttendance,
+  useTodayAttendance,
+} from '@/api/attendance/use-attendance'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { toast } from '@/components/ui/toasts'
+import { AttendanceStatusBadge } from './attendance-status-badge'
+
+const formatTime = (dateString: string) => format(new Date(dateString), 'HH:mm')
+
+/**
+ * Workday clock-in / clock-out on the worker home screen
+ *
+ * Independent of tasks, so days at the warehouse or in training count. Each
+ * clock takes the current position and a selfie from the front camera.
+ */
+export const AttendanceCard: FC = () => {
+  const { data: today, isLoading } = useTodayAttendance()
+  const { mutate: clock, isPending } = useClockAttendance()
+  const [isCapturing, setIsCapturing] = useState(false)
+
+  if (isLoading) {
+    return (
+      <View className="mb-2 rounded-lg border border-border bg-card p-3">
+        <ActivityIndicator />
+      </View>
+    )
+  }
+
+  if (!today) {
+    return null
+  }
+
+  const { attendance } = today
+  const action = attendance ? 'clock-out' : 'clock-in'
+  const isDone = !!attendance?.clockOutAt
+
+  const handleClock = async () => {
+    impactAsync(ImpactFeedbackStyle.Medium)
+    setIsCapturing(true)
+
+    try {
+      const { status: locationStatus } =
+        await Location.requestForegroundPermissionsAsync()
+      if (locationStatus !== 'granted') {
+        toast.error('Cần quyền truy cập vị trí để chấm công')
+        return
+      }
+
+      const { status: cameraStatus } =
+        await ImagePicker.requestCameraPermissionsAsync()
+      if (cameraStatus !== 'granted') {
+        toast.error('Cần quyền truy cập camera để chụp ảnh selfie')
+        return
+      }
+
+      const [position, photo] = await Promise.all([
+        Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.High,
+        }),
+        ImagePicker.launchCameraAsync({
+          mediaTypes: ['images'],
+          cameraType: ImagePicker.CameraType.front,
+          allowsEditing: false,
+          quality: 0.6,
+        }),
+      ])
+
+      if (photo.canceled || !photo.assets[0]) {
+        return
+      }
+
+      clock({
+        action,
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        selfie: photo.assets[0],
+      })
+    } catch (error) {
+      console.error('Error clocking attendance:', error)
+      toast.error('Không thể lấy vị trí hoặc chụp ảnh')
+    } finally {
+      setIsCapturing(false)
+    }
+  }
+
+  return (
+    <View
+      className="mb-2 gap-2 rounded-lg border border-border bg-card p-3"
+      testID="attendance-card"
+    >
+      <View className="flex-row items-center justify-between gap-2">
+        <View className="flex-1 flex-row items-center gap-2">
+          <Icon as={TimerIcon} className="size-5 text-primary" />
+          <View className="flex-1">
+            <Text className="font-sans-semibold">Chấm công hôm nay</Text>
+            <Text className="text-muted-foreground text-xs">
+              {attendance
+                ? `Vào ${formatTime(attendance.clockInAt)}${
+                    attendance.clockOutAt
+                      ? ` · Ra ${formatTime(attendance.clockOutAt)}`
+                      : ''
+                  }`
+                : 'Chấm công khi bắt đầu ngày làm việc'}
+            </Text>
+          </View>
+        </View>
+        <AttendanceStatusBadge status={today.status} />
+      </View>
+
+      {!isDone && (
+        <Button
+          accessibilityHint="Chụp ảnh selfie và gửi vị trí hiện tại"
+          disabled={isPending || isCapturing}
+          onPress={handleClock}
+          testID={`attendance-${action}-button`}
+          variant={attendance ? 'outline' : 'default'}
+        >
+          <Icon as={CameraIcon} className="size-4" />
+          <Text>
+            {isPending
+              ? 'Đang gửi...'
+              : attendance
+                ? 'Chấm công ra'
+                : 'Chấm công vào'}
+          </Text>
+        </Button>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,54 @@
+import type { FC } from 'react'
+import { View } from 'react-native'
+import type { AttendanceStatus } from '@/api/attendance/use-attendance'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+/** biome-ignore-start lint/style/useNamingConvention: API status values */
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: 'Có mặt',
+  LATE: 'Đi trễ',
+  ABSENT: 'Vắng',
+  DAY_OFF: 'Nghỉ',
+  ON_LEAVE: 'Nghỉ phép',
+  PENDING: 'Chưa chấm công',
+}
+
+export const ATTENDANCE_STATUS_DOT_CLASSES: Record<AttendanceStatus, string> = {
+  PRESENT: 'bg-green-500',
+  LATE: 'bg-amber-500',
+  ABSENT: 'bg-red-500',
+  DAY_OFF: 'bg-muted-foreground/30',
+  ON_LEAVE: 'bg-sky-500',
+  PENDING: 'bg-muted-foreground/60',
+}
+/** biome-ignore-end lint/style/useNamingConvention: API status values */
+
+export type AttendanceStatusBadgeProps = {
+  status: AttendanceStatus
+  className?: string
+}
+
+export const AttendanceStatusBadge: FC<AttendanceStatusBadgeProps> = ({
+  status,
+  className,
+}) => {
+  return (
+    <View
+      className={cn(
+        'flex flex-row items-center gap-1 self-start rounded-full border border-border px-2 py-1',
+        className,
+      )}
+    >
+      <View
+        className={cn(
+          'size-1.5 rounded-full',
+          ATTENDANCE_STATUS_DOT_CLASSES[status],
+        )}
+      />
+      <Text className="-my-[1px] font-sans-medium text-xs">
+        {ATTENDANCE_STATUS_LABELS[status]}
+      </Text>
+    </View>
+  )
+}
@@ -0,0 +1,439 @@
+import { TaskStatus } from '@nv-internal/prisma-client'
+import { format } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { type FC, Fragment, useRef, useState } from 'react'
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  useWindowDimensions,
+  View,
+} from 'react-native'
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+} from 'react-native-reanimated'
+import {
+  type DispatchUnassignedTask,
+  type DispatchWorker,
+  type DispatchWorkerTask,
+  useDispatchBoard,
+} from '@/api/dispatch/use-dispatch-board'
+import { useUpdateTaskAssignees } from '@/api/task/use-update-task-assignees'
+import { DispatchUnassignedCard } from '@/components/dispatch/dispatch-unassigned-card'
+import { LEAVE_TYPE_LABELS } from '@/components/leave/leave-request-card'
+import { Text } from '@/components/ui/text'
+import { toast } from '@/components/ui/toasts'
+import { cn } from '@/lib/utils'
+import { formatTaskId } from '@/utils/task-id-helper'
+import { getUserFullName } from '@/utils/user-helper'
+
+// Visible working hours of the timeline
+const DAY_START_HOUR = 6
+const DAY_END_HOUR = 20
+const HOUR_WIDTH = 96
+const SLOT_MINUTES = 30
+const ROW_HEIGHT = 76
+const NAME_WIDTH = 150
+const HEADER_HEIGHT = 32
+// Unassigned panel moves beside the timeline on tablets
+const TABLET_MIN_WIDTH = 768
+
+const DEFAULT_DURATION_MINUTES = 60
+const TIMELINE_WIDTH = (DAY_END_HOUR - DAY_START_HOUR) * HOUR_WIDTH
+const HOURS = Array.from(
+  { length: DAY_END_HOUR - DAY_START_HOUR },
+  (_, index) => DAY_START_HOUR + index,
+)
+
+const STATUS_COLORS: Record<TaskStatus, string> = {
+  [TaskStatus.PREPARING]: 'border-yellow-500 bg-yellow-500/15',
+  [TaskStatus.READY]: 'border-green-500 bg-green-500/15',
+  [TaskStatus.IN_PROGRESS]: 'border-blue-500 bg-blue-500/15',
+  [TaskStatus.ON_HOLD]: 'border-gray-500 bg-gray-500/15',
+  [TaskStatus.COMPLETED]: 'border-muted-foreground bg-muted',
+  [TaskStatus.CANCELLED]: 'border-red-500 bg-red-500/15',
+}
+
+/** Minutes since midnight on the board's day, clamped to the visible hours */
+function toBoardMinutes(dateString: string, day: Date) {
+  const date = new Date(dateString)
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate())
+  const minutes = (date.getTime() - dayStart.getTime()) / 60000
+  return Math.min(Math.max(minutes, DAY_START_HOUR * 60), DAY_END_HOUR * 60)
+}
+
+const minutesToX = (minutes: number) =>
+  ((minutes - DAY_START_HOUR * 60) / 60) * HOUR_WIDTH
+
+/** Time slot under a timeline position, snapped to SLOT_MINUTES */
+function xToSlotMinutes(x: number) {
+  const minutes = DAY_START_HOUR * 60 + (x / HOUR_WIDTH) * 60
+  const snapped = Math.floor(minutes / SLOT_MINUTES) * SLOT_MINUTES
+  return Math.min(
+    Math.max(snapped, DAY_START_HOUR * 60),
+    DAY_END_HOUR * 60 - SLOT_MINUTES,
+  )
+}
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const getDurationMinutes = (task: DispatchUnassignedTask) =>
+  task.window
+    ? (new Date(task.window.end).getTime() -
+        new Date(task.window.start).getTime()) /
+      60000
+    : (task.estimatedDurationMinutes ?? DEFAULT_DURATION_MINUTES)
+
+export type DispatchBoardProps = {
+  date: Date
+  onPressTask: (taskId: number) => void
+}
+
+/**
+ * Workers × time grid for assigning the day's jobs
+ *
+ * Dropping an unassigned task on a worker's row assigns it and sets the
+ * scheduled time in one request. Travel gaps too short to reach the next job
+ * are highlighted.
+ */
+export const DispatchBoard: FC<DispatchBoardProps> = ({
+  date,
+  onPressTask,
+}) => {
+  const { width } = useWindowDimensions()
+  const isTablet = width >= TABLET_MIN_WIDTH
+
+  const { data, isLoading, refetch, isRefetching } = useDispatchBoard({
+    date: format(date, 'yyyy-MM-dd'),
+  })
+  const { mutate: updateAssignees, isPending } = useUpdateTaskAssignees()
+
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null)
+  const [draggingTask, setDraggingTask] =
+    useState<DispatchUnassignedTask | null>(null)
+
+  // Drop target geometry
+  const gridRef = useRef<View>(null)
+  const rootRef = useRef<View>(null)
+  const scrollOffset = useRef({ x: 0, y: 0 })
+
+  // Drag preview follows the finger (window coordinates)
+  const dragX = useSharedValue(0)
+  const dragY = useSharedValue(0)
+  const rootX = useSharedValue(0)
+  const rootY = useSharedValue(0)
+  const dragPreviewStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: dragX.value - rootX.value - 100 },
+      { translateY: dragY.value - rootY.value - 24 },
+    ],
+  }))
+
+  const workers = data?.workers ?? []
+  const unassignedTasks = data?.unassignedTasks ?? []
+
+  const assignTask = (
+    task: DispatchUnassignedTask,
+    worker: DispatchWorker,
+    startMinutes: number,
+  ) => {
+    const scheduledAt = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      0,
+      startMinutes,
+    )
+    const scheduledEndAt = task.scheduledEndAt
+      ? new Date(scheduledAt.getTime() + getDurationMinutes(task) * 60000)
+      : undefined
+
+    impactAsync(ImpactFeedbackStyle.Medium)
+    setSelectedTaskId(null)
+    updateAssignees(
+      {
+        taskId: task.id,
+        assigneeIds: [worker.id],
+        scheduledAt: scheduledAt.toISOString(),
+        scheduledEndAt: scheduledEndAt?.toISOString(),
+      },
+      {
+        onSuccess: () => {
+          toast.success(
+            `Đã giao #${formatTaskId(task.id)} cho ${getUserFullName(worker)} lúc ${formatMinutes(startMinutes)}`,
+          )
+        },
+      },
+    )
+  }
+
+  const handleDrop = (
+    task: DispatchUnassignedTask,
+    absoluteX: number,
+    absoluteY: number,
+  ) => {
+    gridRef.current?.measureInWindow((gridX, gridY) => {
+      const x = absoluteX - gridX + scrollOffset.current.x - NAME_WIDTH
+      const y = absoluteY - gridY + scrollOffset.current.y - HEADER_HEIGHT
+      const worker = workers[Math.floor(y / ROW_HEIGHT)]
+
+      if (x < 0 || x > TIMELINE_WIDTH || y < 0 || !worker) {
+        return
+      }
+
+      assignTask(task, worker, xToSlotMinutes(x))
+    })
+  }
+
+  const handlePressSlot = (worker: DispatchWorker, locationX: number) => {
+    const task = unassignedTasks.find((item) => item.id === selectedTaskId)
+    if (task) {
+      assignTask(task, worker, xToSlotMinutes(locationX))
+    }
+  }
+
+  const renderTask = (task: DispatchWorkerTask) => {
+    if (!task.window) {
+      return null
+    }
+
+    const left = minutesToX(toBoardMinutes(task.window.start, date))
+    const right = minutesToX(toBoardMinutes(task.window.end, date))
+    const travel = task.travelFromPrevious
+
+    return (
+      <Fragment key={task.id}>
+        {/* Travel from the previous job, drawn in the gap before this one */}
+        {travel?.travelMinutes ? (
+          <View
+            className={cn(
+              'absolute top-1 h-1.5 rounded-full',
+              travel.isTight ? 'bg-destructive' : 'bg-muted-foreground/40',
+            )}
+            style={{
+              left: left - (travel.travelMinutes / 60) * HOUR_WIDTH,
+              width: (travel.travelMinutes / 60) * HOUR_WIDTH,
+            }}
+          />
+        ) : null}
+        <Pressable
+          accessibilityHint="Xem chi tiết công việc"
+          accessibilityLabel={`${task.title}, ${formatTime(task.window.start)} - ${formatTime(task.window.end)}`}
+          accessibilityRole="button"
+          className={cn(
+            'absolute top-3 bottom-2 justify-center overflow-hidden rounded-md border px-2',
+            STATUS_COLORS[task.status],
+          )}
+          onPress={() => onPressTask(task.id)}
+          style={{ left, width: Math.max(right - left, 24) }}
+          testID={`dispatch-task-${task.id}`}
+        >
+          <Text className="font-sans-semibold text-xs" numberOfLines={1}>
+            #{formatTaskId(task.id)} {task.title}
+          </Text>
+          <Text className="text-muted-foreground text-xs" numberOfLines={1}>
+            {formatTime(task.window.start)} - {formatTime(task.window.end)}
+            {travel?.isTight &&
+              ` · thiếu ${travel.travelMinutes} phút di chuyển`}
+          </Text>
+        </Pressable>
+      </Fragment>
+    )
+  }
+
+  const unassignedPanel = (
+    <View className={cn('gap-2', isTablet ? 'w-72' : 'max-h-56')}>
+      <Text className="font-sans-semibold">
+        Chưa giao ({unassignedTasks.length})
+      </Text>
+      <ScrollView
+        contentContainerClassName={cn('gap-2', !isTablet && 'flex-row')}
+        horizontal={!isTablet}
+        showsHorizontalScrollIndicator={false}
+      >
+        {unassignedTasks.length === 0 && (
+          <Text className="text-muted-foreground text-sm">
+            Không có công việc nào chờ giao
+          </Text>
+        )}
+        {unassignedTasks.map((task) => (
+          <View className={cn(!isTablet && 'w-56')} key={task.id}>
+            <DispatchUnassignedCard
+              dragX={dragX}
+              dragY={dragY}
+              onDragEnd={() => setDraggingTask(null)}
+              onDragStart={() => {
+                impactAsync(ImpactFeedbackStyle.Light)
+                setDraggingTask(task)
+              }}
+              onDrop={(absoluteX, absoluteY) =>
+                handleDrop(task, absoluteX, absoluteY)
+              }
+              onPress={() => {
+                impactAsync(ImpactFeedbackStyle.Light)
+                setSelectedTaskId((prev) => (prev === task.id ? null : task.id))
+              }}
+              selected={selectedTaskId === task.id}
+              task={task}
+            />
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  )
+
+  return (
+    <View
+      className={cn('flex-1 gap-4 p-4', isTablet && 'flex-row')}
+      onLayout={() =>
+        rootRef.current?.measureInWindow((x, y) => {
+          rootX.value = x
+          rootY.value = y
+        })
+      }
+      ref={rootRef}
+    >
+      {unassignedPanel}
+
+      <View
+        className="flex-1 overflow-hidden rounded-lg border border-border bg-card"
+        ref={gridRef}
+      >
+        {isLoading ? (
+          <ActivityIndicator className="my-8" />
+        ) : (
+          <ScrollView
+            onScroll={(event) => {
+              scrollOffset.current.y = event.nativeEvent.contentOffset.y
+            }}
+            refreshControl={
+              <RefreshControl onRefresh={refetch} refreshing={isRefetching} />
+            }
+            scrollEventThrottle={16}
+          >
+            <View className="flex-row">
+              {/* Worker names */}
+              <View style={{ width: NAME_WIDTH }}>
+                <View
+                  className="border-border border-b"
+                  style={{ height: HEADER_HEIGHT }}
+                />
+                {workers.map((worker) => (
+                  <View
+                    className="justify-center border-border border-b px-3"
+                    key={worker.id}
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <Text className="font-sans-semibold" numberOfLines={1}>
+                      {getUserFullName(worker)}
+                    </Text>
+                    {worker.leave ? (
+                      <Text className="text-amber-700 text-xs dark:text-amber-400">
+                        {LEAVE_TYPE_LABELS[worker.leave.type]}
+                      </Text>
+                    ) : (
+                      <Text className="text-muted-foreground text-xs">
+                        {worker.tasks.length} việc ·{' '}
+                        {Math.round((worker.scheduledMinutes / 60) * 10) / 10}{' '}
+                        giờ
+                      </Text>
+                    )}
+                  </View>
+                ))}
+              </View>
+
+              {/* Timeline */}
+              <ScrollView
+                horizontal
+                onScroll={(event) => {
+                  scrollOffset.current.x = event.nativeEvent.contentOffset.x
+                }}
+                scrollEventThrottle={16}
+              >
+                <View style={{ width: TIMELINE_WIDTH }}>
+                  <View
+                    className="flex-row border-border border-b"
+                    style={{ height: HEADER_HEIGHT }}
+                  >
+                    {HOURS.map((hour) => (
+                      <View
+                        className="justify-center border-border border-l px-1"
+                        key={hour}
+                        style={{ width: HOUR_WIDTH }}
+                      >
+                        <Text className="text-muted-foreground text-xs">
+                          {formatMinutes(hour * 60)}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                  {workers.map((worker) => (
+                    <Pressable
+                      accessibilityHint={
+                        selectedTaskId
+                          ? 'Chạm vào khung giờ để giao công việc đã chọn'
+                          : undefined
+                      }
+                      accessibilityLabel={`Lịch của ${getUserFullName(worker)}`}
+                      className={cn(
+                        'border-border border-b',
+                        selectedTaskId && 'bg-primary/5',
+                        worker.leave && 'bg-amber-500/10',
+                      )}
+                      disabled={!selectedTaskId || isPending}
+                      key={worker.id}
+                      onPress={(event) =>
+                        handlePressSlot(worker, event.nativeEvent.locationX)
+                      }
+                      style={{ height: ROW_HEIGHT }}
+                      testID={`dispatch-worker-${worker.id}`}
+                    >
+                      {HOURS.map((hour) => (
+                        <View
+                          className="absolute top-0 bottom-0 border-border/50 border-l"
+                          key={hour}
+                          style={{ left: minutesToX(hour * 60) }}
+                        />
+                      ))}
+                      {worker.tasks.map(renderTask)}
+                    </Pressable>
+                  ))}
+                </View>
+              </ScrollView>
+            </View>
+
+            {workers.length === 0 && (
+              <Text className="p-4 text-center text-muted-foreground">
+                Chưa có nhân viên nào
+              </Text>
+            )}
+          </ScrollView>
+        )}
+      </View>
+
+      {isPending && <ActivityIndicator className="absolute top-4 right-4" />}
+
+      {/* Drag preview */}
+      {draggingTask && (
+        <Animated.View
+          className="absolute top-0 left-0 w-52 rounded-lg border border-primary bg-card p-3 opacity-90 shadow-lg"
+          pointerEvents="none"
+          style={dragPreviewStyle}
+        >
+          <Text className="font-sans-semibold" numberOfLines={2}>
+            #{formatTaskId(draggingTask.id)} {draggingTask.title}
+          </Text>
+        </Animated.View>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,102 @@
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import { Gesture, GestureDetector } from 'react-native-gesture-handler'
+import { runOnJS, type SharedValue } from 'react-native-reanimated'
+import type { DispatchUnassignedTask } from '@/api/dispatch/use-dispatch-board'
+import { TaskOverdueBadge } from '@/components/ui/task-priority-badge'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+// Hold before dragging so the list can still scroll
+const DRAG_ACTIVATION_DELAY_MS = 250
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+export type DispatchUnassignedCardProps = {
+  task: DispatchUnassignedTask
+  selected: boolean
+  /** Finger position in window coordinates while dragging */
+  dragX: SharedValue<number>
+  dragY: SharedValue<number>
+  onPress: () => void
+  onDragStart: () => void
+  onDrop: (absoluteX: number, absoluteY: number) => void
+  onDragEnd: () => void
+}
+
+/**
+ * Unassigned task on the dispatch board
+ *
+ * Long press and drag it onto a worker's timeline, or tap to select it and
+ * then tap a time slot.
+ */
+export const DispatchUnassignedCard: FC<DispatchUnassignedCardProps> = ({
+  task,
+  selected,
+  dragX,
+  dragY,
+  onPress,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}) => {
+  const pan = Gesture.Pan()
+    .activateAfterLongPress(DRAG_ACTIVATION_DELAY_MS)
+    .onStart((event) => {
+      dragX.value = event.absoluteX
+      dragY.value = event.absoluteY
+      runOnJS(onDragStart)()
+    })
+    .onUpdate((event) => {
+      dragX.value = event.absoluteX
+      dragY.value = event.absoluteY
+    })
+    .onEnd((event) => {
+      runOnJS(onDrop)(event.absoluteX, event.absoluteY)
+    })
+    .onFinalize(() => {
+      runOnJS(onDragEnd)()
+    })
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Pressable
+        accessibilityHint="Chọn rồi chạm vào khung giờ của nhân viên để giao việc"
+        accessibilityLabel={task.title}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+        className={cn(
+          'gap-1 rounded-lg border bg-card p-3 active:bg-muted',
+          selected ? 'border-primary' : 'border-border',
+        )}
+        onPress={onPress}
+        testID={`dispatch-unassigned-task-${task.id}`}
+      >
+        <View className="flex-row items-center justify-between gap-2">
+          <Text className="font-sans-medium text-muted-foreground text-sm">
+            #{formatTaskId(task.id)}
+          </Text>
+          {task.overdue && <TaskOverdueBadge />}
+        </View>
+        <Text className="font-sans-semibold" numberOfLines={2}>
+          {task.title}
+        </Text>
+        {(task.geoLocation?.name || task.geoLocation?.address) && (
+          <Text className="text-muted-foreground text-sm" numberOfLines={1}>
+            {task.geoLocation.name || task.geoLocation.address}
+          </Text>
+        )}
+        <Text className="text-primary text-sm">
+          {task.window
+            ? `${formatTime(task.window.start)} - ${formatTime(task.window.end)}`
+            : 'Chưa có lịch'}
+        </Text>
+      </Pressable>
+    </GestureDetector>
+  )
+}
@@ -0,0 +1,149 @@
+import { LeaveStatus, LeaveType } from '@nv-internal/prisma-client'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { TreePalmIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import type { LeaveRequest } from '@/api/leave/use-leave-requests'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { cn } from '@/lib/utils'
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  [LeaveType.ANNUAL]: 'Nghỉ phép năm',
+  [LeaveType.SICK]: 'Nghỉ ốm',
+  [LeaveType.PERSONAL]: 'Việc riêng',
+  [LeaveType.UNPAID]: 'Nghỉ không lương',
+}
+
+const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  [LeaveStatus.PENDING]: 'Chờ duyệt',
+  [LeaveStatus.APPROVED]: 'Đã duyệt',
+  [LeaveStatus.REJECTED]: 'Từ chối',
+  [LeaveStatus.CANCELLED]: 'Đã hủy',
+}
+
+const LEAVE_STATUS_CLASSES: Record<LeaveStatus, string> = {
+  [LeaveStatus.PENDING]: 'text-amber-700 dark:text-amber-400',
+  [LeaveStatus.APPROVED]: 'text-green-700 dark:text-green-400',
+  [LeaveStatus.REJECTED]: 'text-destructive',
+  [LeaveStatus.CANCELLED]: 'text-muted-foreground',
+}
+
+/** "20/10 - 22/10/2026 (3 ngày)", or a single day */
+export function formatLeaveDays({
+  startDate,
+  endDate,
+}: Pick<LeaveRequest, 'startDate' | 'endDate'>) {
+  const start = parseISO(startDate)
+  const end = parseISO(endDate)
+  if (startDate === endDate) {
+    return format(start, 'dd/MM/yyyy')
+  }
+  const days = differenceInCalendarDays(end, start) + 1
+  return `${format(start, 'dd/MM')} - ${format(end, 'dd/MM/yyyy')} (${days} ngày)`
+}
+
+export type LeaveRequestCardProps = {
+  leaveRequest: LeaveRequest
+  /** Show who asked (admin list) */
+  showUser?: boolean
+  onApprove?: () => void
+  onReject?: () => void
+  onCancel?: () => void
+  isPending?: boolean
+}
+
+/**
+ * A leave request with its review, and the actions available to the viewer
+ */
+export const LeaveRequestCard: FC<LeaveRequestCardProps> = ({
+  leaveRequest,
+  showUser,
+  onApprove,
+  onReject,
+  onCancel,
+  isPending,
+}) => {
+  return (
+    <View
+      className="gap-2 rounded-lg border border-border bg-card p-3"
+      testID={`leave-request-${leaveRequest.id}`}
+    >
+      <View className="flex-row items-center gap-2">
+        <Icon as={TreePalmIcon} className="size-4 text-primary" />
+        <Text className="flex-1 font-sans-semibold">
+          {LEAVE_TYPE_LABELS[leaveRequest.type]}
+        </Text>
+        <Text
+          className={cn(
+            'font-sans-medium text-xs',
+            LEAVE_STATUS_CLASSES[leaveRequest.status],
+          )}
+        >
+          {LEAVE_STATUS_LABELS[leaveRequest.status]}
+        </Text>
+      </View>
+
+      {showUser && (
+        <UserFullName className="text-sm" userId={leaveRequest.userId} />
+      )}
+
+      <Text className="text-sm">{formatLeaveDays(leaveRequest)}</Text>
+      {leaveRequest.reason && (
+        <Text className="text-muted-foreground text-sm">
+          Lý do: {leaveRequest.reason}
+        </Text>
+      )}
+
+      {leaveRequest.reviewedAt && (
+        <Text className="text-muted-foreground text-xs">
+          {leaveRequest.status === LeaveStatus.APPROVED ? 'Duyệt' : 'Từ chối'}{' '}
+          lúc {format(new Date(leaveRequest.reviewedAt), 'HH:mm dd/MM/yyyy')}
+          {leaveRequest.reviewNote ? ` · ${leaveRequest.reviewNote}` : ''}
+        </Text>
+      )}
+
+      {(onApprove || onReject || onCancel) && (
+        <View className="flex-row gap-2">
+          {onReject && (
+            <Button
+              className="flex-1"
+              disabled={isPending}
+              onPress={onReject}
+              size="sm"
+              testID={`leave-request-${leaveRequest.id}-reject`}
+              variant="outline"
+            >
+              <Text>Từ chối</Text>
+            </Button>
+          )}
+          {onApprove && (
+            <Button
+              className="flex-1"
+              disabled={isPending}
+              onPress={onApprove}
+              size="sm"
+              testID={`leave-request-${leaveRequest.id}-approve`}
+            >
+              <Text>Duyệt</Text>
+            </Button>
+          )}
+          {onCancel && (
+            <Button
+              className="flex-1"
+              disabled={isPending}
+              onPress={onCancel}
+              size="sm"
+              testID={`leave-request-${leaveRequest.id}-cancel`}
+              variant="outline"
+            >
+              <Text>Hủy đơn</Text>
+            </Button>
+          )}
+        </View>
+      )}
+    </View>
+  )
+}
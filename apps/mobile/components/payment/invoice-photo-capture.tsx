@@ -28,6 +28,10 @@ interface InvoicePhotoCaptureProps {
    * Label text (defaults to "Ảnh hóa đơn (Tùy chọn)")
    */
   label?: string
+  /**
+   * Empty state text (defaults to "Thêm ảnh hóa đơn (tùy chọn)")
+   */
+  placeholder?: string
   /**
    * Existing attachment ID (for showing current invoice in edit mode)
    */
@@ -54,6 +58,7 @@ export function InvoicePhotoCapture({
   value,
   onChange,
   label = 'Ảnh hóa đơn (Tùy chọn)',
+  placeholder = 'Thêm ảnh hóa đơn (tùy chọn)',
   currentAttachmentId,
   inline = true,
   error,
@@ -194,7 +199,7 @@ export function InvoicePhotoCapture({
               size={32}
             />
             <Text className="text-center text-muted-foreground text-sm">
-              Thêm ảnh hóa đơn (tùy chọn)
+              {placeholder}
             </Text>
           </View>
 
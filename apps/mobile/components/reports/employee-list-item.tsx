@@ -72,7 +72,7 @@ export function EmployeeListItem({
             <Text className="text-muted-foreground text-sm">
               {employee.metrics.tasksCompleted} công việc
               {employee.metrics.daysWorked > 0 &&
-                ` • ${employee.metrics.daysWorked} ngày`}
+                ` • ${employee.metrics.daysWorked}/${employee.metrics.expectedWorkingDays} ngày`}
             </Text>
           </View>
 
@@ -0,0 +1,79 @@
+import { CERTIFICATE_EXPIRY_WARNING_DAYS } from '@nv-internal/validation'
+import { format, parseISO } from 'date-fns'
+import { ShieldAlertIcon } from 'lucide-react-native'
+import { View } from 'react-native'
+import { useExpiringCertificates } from '@/api/skill/use-skills'
+import { useUserList } from '@/api/user/use-user-list'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+/**
+ * Expiring certificates card component
+ * Lists the worker certificates expiring in the next 30 days, soonest first,
+ * hidden when none is about to expire
+ */
+export function ExpiringCertificatesCard() {
+  const { data } = useExpiringCertificates({
+    days: CERTIFICATE_EXPIRY_WARNING_DAYS,
+  })
+  const { data: users } = useUserList()
+
+  if (!data?.certificates.length) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <View className="flex-row items-center gap-2">
+          <Icon as={ShieldAlertIcon} className="size-5 text-foreground" />
+          <CardTitle>Chứng chỉ sắp hết hạn</CardTitle>
+        </View>
+        <CardDescription>Trong {data.days} ngày tới</CardDescription>
+      </CardHeader>
+      <CardContent className="gap-3">
+        {data.certificates.map((certificate) => {
+          const user = users?.find(({ id }) => id === certificate.userId)
+
+          return (
+            <View
+              className="flex-row items-center justify-between gap-2"
+              key={certificate.id}
+              testID={`expiring-certificate-${certificate.id}`}
+            >
+              <View className="flex-1">
+                <Text className="font-sans-semibold" numberOfLines={1}>
+                  {user ? `${user.lastName} ${user.firstName}` : 'Nhân viên'}
+                </Text>
+                <Text className="text-muted-foreground text-sm">
+                  {certificate.skill.name} ·{' '}
+                  {format(parseISO(certificate.expiryDate ?? ''), 'dd/MM/yyyy')}
+                </Text>
+              </View>
+              <Text
+                className={cn(
+                  'font-sans-semibold',
+                  certificate.daysLeft <= 7
+                    ? 'text-destructive'
+                    : 'text-amber-600',
+                )}
+              >
+                {certificate.daysLeft === 0
+                  ? 'Hết hạn hôm nay'
+                  : `Còn ${certificate.daysLeft} ngày`}
+              </Text>
+            </View>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,5 +1,6 @@
 import {
   BriefcaseIcon,
+  CalendarDaysIcon,
   DollarSignIcon,
   TrendingUpIcon,
   UsersIcon,
@@ -77,6 +78,17 @@ export function SummaryStatsCard({ summary }: SummaryStatsCardProps) {
           <Text className="font-semibold text-lg">{summary.totalTasks}</Text>
         </View>
 
+        {/* Working Days (public holidays excluded) */}
+        <View className="flex-row items-center justify-between">
+          <View className="flex-row items-center gap-2">
+            <View className="rounded-full bg-amber-500/10 p-2">
+              <Icon as={CalendarDaysIcon} className="size-4 text-amber-600" />
+            </View>
+            <Text className="text-muted-foreground">Ngày làm việc:</Text>
+          </View>
+          <Text className="font-semibold text-lg">{summary.workingDays}</Text>
+        </View>
+
         {/* Total Revenue */}
         <View className="flex-row items-center justify-between rounded-lg bg-muted p-3">
           <View className="flex-row items-center gap-2">
@@ -0,0 +1,63 @@
+import { UsersIcon } from 'lucide-react-native'
+import { View } from 'react-native'
+import type { TeamSummary } from '@/api/reports/use-employees-summary'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { formatCurrencyDisplay } from '@/components/ui/currency-input'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+
+export interface TeamTotalsCardProps {
+  teams: TeamSummary[] | undefined
+}
+
+/**
+ * Team totals card component
+ * Displays the tasks completed and revenue of each team, hidden without teams
+ */
+export function TeamTotalsCard({ teams }: TeamTotalsCardProps) {
+  if (!teams?.length) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <View className="flex-row items-center gap-2">
+          <Icon as={UsersIcon} className="size-5 text-foreground" />
+          <CardTitle>Theo đội</CardTitle>
+        </View>
+        <CardDescription>
+          Công việc hoàn thành khi được giao cho đội
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="gap-3">
+        {teams.map((team) => (
+          <View
+            className="flex-row items-center justify-between gap-2"
+            key={team.id}
+            testID={`team-totals-${team.id}`}
+          >
+            <View className="flex-1">
+              <Text className="font-sans-semibold" numberOfLines={1}>
+                {team.name}
+              </Text>
+              <Text className="text-muted-foreground text-sm">
+                {team.metrics.tasksCompleted} công việc ·{' '}
+                {team.memberIds.length} thành viên
+              </Text>
+            </View>
+            <Text className="font-sans-semibold text-emerald-600">
+              {formatCurrencyDisplay(team.metrics.totalRevenue)}
+            </Text>
+          </View>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,64 +1,62 @@
+import { useUser } from '@clerk/clerk-expo'
+import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
 import { TaskStatus } from '@nv-internal/prisma-client'
+import {
+  getAvailableTaskStatusTransitions,
+  type TaskStatusActor,
+  type TaskStatusTransition,
+} from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { useRouter } from 'expo-router'
-import type { FC } from 'react'
-import { Alert } from 'react-native'
+import { EllipsisIcon } from 'lucide-react-native'
+import { type FC, useRef } from 'react'
+import { Alert, View } from 'react-native'
 import type { Task } from '@/api/task/use-task'
 import { useUpdateTaskStatus } from '@/api/task/use-update-task-status'
 import { type AppRole, useAppRole } from '@/hooks/use-app-role'
+import { TaskStatusTransitionSheet } from './task/task-status-transition-sheet'
 import { Button } from './ui/button'
+import { Icon } from './ui/icon'
 import { Text } from './ui/text'
 
-const TASK_STATUS_TO_NEXT_ACTION: Record<
-  AppRole,
-  {
-    [Key in TaskStatus]?: {
-      label: string
-      nextStatus?: Task['status']
-      route?: string
-      alert?: {
-        title: string
-        message: string
-        confirmText?: string
-        cancelText?: string
-      }
-    }
-  }
-> = {
-  admin: {
-    [TaskStatus.PREPARING]: {
-      label: 'Sẵn sàng',
-      nextStatus: TaskStatus.READY,
-      alert: {
-        title: 'Cho phép nhân viên bắt đầu?',
-        message: 'Nhân viên sẽ nhận được công việc và bắt đầu làm việc.',
-        confirmText: 'Xác nhận',
-        cancelText: 'Hủy',
-      },
-    },
-  },
-  worker: {
-    [TaskStatus.READY]: {
-      label: 'Bắt đầu làm việc',
-      route: 'check-in',
-    },
-    [TaskStatus.IN_PROGRESS]: {
-      label: 'Hoàn thành công việc',
-      route: 'check-out',
-    },
-  },
+// The admin module manages tasks, the worker module works on assigned tasks
+const APP_ROLE_TO_ACTORS: Record<AppRole, TaskStatusActor[]> = {
+  admin: ['admin'],
+  worker: ['assignee'],
+}
+
+// Shown instead of an action when the current role has nothing to do
+const ADMIN_WAITING_LABELS: { [Key in TaskStatus]?: string } = {
+  [TaskStatus.READY]: 'Đã sẵn sàng làm việc',
+  [TaskStatus.IN_PROGRESS]: 'Đang tiến hành',
 }
 
 export type TaskActionProps = {
   task: Task
 }
 
+/**
+ * Status action buttons for a task
+ *
+ * Available actions come from TASK_STATUS_TRANSITIONS (@nv-internal/validation),
+ * the same definition the API uses to validate status updates. The primary
+ * transition is shown as the main button, others are listed in a bottom sheet.
+ *
+ * On team and multi-visit jobs, a worker without an open visit checks in
+ * (again) instead of checking out.
+ */
 export const TaskAction: FC<TaskActionProps> = ({ task }) => {
-  const { mutateAsync } = useUpdateTaskStatus()
+  const { mutateAsync, isPending } = useUpdateTaskStatus()
   const appRole = useAppRole()
+  const { user } = useUser()
   const router = useRouter()
+  const transitionSheetRef = useRef<BottomSheetModalMethods>(null)
 
-  const handleUpdateStatus = async (status: Task['status']) => {
-    await mutateAsync({ taskId: task.id, status })
+  const handleUpdateStatus = async (
+    status: Task['status'],
+    reason?: string,
+  ) => {
+    await mutateAsync({ taskId: task.id, status, reason })
   }
 
   // Don't render action buttons until role is determined
@@ -67,117 +65,180 @@ export const TaskAction: FC<TaskActionProps> = ({ task }) => {
     return null
   }
 
-  // If task is completed, show disabled button
-  if (task.status === TaskStatus.COMPLETED) {
-    return (
-      <Button
-        accessibilityLabel="Công việc đã hoàn thành"
-        className="w-full"
-        disabled
-        size="default"
-        testID="task-action-completed-button"
-      >
-        <Text className="font-sans-medium">Hoàn thành</Text>
-      </Button>
-    )
-  }
+  const transitions = getAvailableTaskStatusTransitions({
+    from: task.status,
+    actors: APP_ROLE_TO_ACTORS[appRole],
+    holdReason: task.holdReason,
+  })
+  const primary = transitions.find((transition) => transition.primary)
+  const ownVisits = task.visits?.filter((visit) => visit.userId === user?.id)
+  const needsNextVisit =
+    appRole === 'worker' &&
+    task.status === TaskStatus.IN_PROGRESS &&
+    !ownVisits?.some((visit) => !visit.checkedOutAt)
+  // Teammates joining a job already started by someone else
+  const nextVisitLabel = ownVisits?.length
+    ? 'Bắt đầu lượt làm việc mới'
+    : 'Bắt đầu làm việc'
+  const secondary = transitions.filter((transition) => !transition.primary)
 
-  // If admin viewing READY status, show disabled button
-  if (appRole === 'admin' && task.status === TaskStatus.READY) {
-    return (
-      <Button className="w-full" disabled size="default">
-        <Text className="font-sans-medium">Đã sẵn sàng làm việc</Text>
-      </Button>
+  // Check-in / check-out / hold have their own screens
+  const openTransitionScreen = (
+    via: NonNullable<TaskStatusTransition['via']>,
+  ) => {
+    router.push(
+      `/worker/tasks/${task.id}/${via}` as '/worker/tasks/[taskId]/check-in',
     )
   }
 
-  // If admin viewing IN_PROGRESS status, show disabled button
-  if (appRole === 'admin' && task.status === TaskStatus.IN_PROGRESS) {
-    return (
-      <Button className="w-full" disabled size="default">
-        <Text className="font-sans-medium">Đang tiến hành</Text>
-      </Button>
-    )
+  const handlePrimaryPress = (transition: TaskStatusTransition) => {
+    if (transition.via) {
+      openTransitionScreen(transition.via)
+      return
+    }
+
+    if (transition.confirm) {
+      Alert.alert(
+        transition.confirm.title,
+        transition.confirm.message,
+        [
+          { text: 'Hủy', style: 'cancel' },
+          {
+            text: 'Xác nhận',
+            style: 'default',
+            onPress: () => handleUpdateStatus(transition.to),
+          },
+        ],
+        { cancelable: true },
+      )
+      return
+    }
+
+    handleUpdateStatus(transition.to)
   }
 
-  const action = TASK_STATUS_TO_NEXT_ACTION[appRole][task.status]
-  if (action) {
-    return (
-      <Button
-        accessibilityHint={
-          action.route === 'check-in'
-            ? 'Mở màn hình check-in với GPS và tải ảnh'
-            : action.route === 'check-out'
-              ? 'Mở màn hình check-out với thu tiền'
-              : 'Cập nhật trạng thái công việc'
-        }
-        accessibilityLabel={action.label}
-        className="w-full"
-        onPress={() => {
-          // If action has a route, navigate to it (check-in/check-out)
-          if (action.route) {
-            router.push(
-              `/worker/tasks/${task.id}/${action.route}` as '/worker/tasks/[taskId]/check-in',
-            )
-            return
-          }
+  const renderPrimary = () => {
+    if (needsNextVisit) {
+      return (
+        <Button
+          accessibilityHint="Mở màn hình check-in với GPS và tải ảnh"
+          accessibilityLabel={nextVisitLabel}
+          className="flex-1"
+          disabled={isPending}
+          onPress={() => openTransitionScreen('check-in')}
+          size="default"
+          testID="task-action-next-visit-button"
+        >
+          <Text className="font-sans-medium">{nextVisitLabel}</Text>
+        </Button>
+      )
+    }
 
-          // Otherwise, handle status update with optional alert
-          if (action.alert && action.nextStatus) {
-            Alert.alert(
-              action.alert.title,
-              action.alert.message,
-              [
-                { text: action.alert.cancelText || 'Hủy', style: 'cancel' },
-                {
-                  text: action.alert.confirmText || 'Xác nhận',
-                  style: 'default',
-                  onPress: () => {
-                    if (action.nextStatus) {
-                      handleUpdateStatus(action.nextStatus)
-                    }
-                  },
-                },
-              ],
-              { cancelable: true },
-            )
-          } else if (action.nextStatus) {
-            handleUpdateStatus(action.nextStatus)
+    if (primary) {
+      return (
+        <Button
+          accessibilityHint={
+            primary.via === 'check-in'
+              ? 'Mở màn hình check-in với GPS và tải ảnh'
+              : primary.via === 'check-out'
+                ? 'Mở màn hình check-out với thu tiền'
+                : 'Cập nhật trạng thái công việc'
           }
-        }}
-        size="default"
-        testID={`task-action-${action.route || 'status-update'}-button`}
-      >
-        <Text className="font-sans-medium">{action.label}</Text>
-      </Button>
-    )
+          accessibilityLabel={primary.label}
+          className="flex-1"
+          disabled={isPending}
+          onPress={() => handlePrimaryPress(primary)}
+          size="default"
+          testID={`task-action-${primary.via || 'status-update'}-button`}
+        >
+          <Text className="font-sans-medium">{primary.label}</Text>
+        </Button>
+      )
+    }
+
+    if (task.status === TaskStatus.COMPLETED) {
+      return (
+        <Button
+          accessibilityLabel="Công việc đã hoàn thành"
+          className="flex-1"
+          disabled
+          size="default"
+          testID="task-action-completed-button"
+        >
+          <Text className="font-sans-medium">Hoàn thành</Text>
+        </Button>
+      )
+    }
+
+    if (task.status === TaskStatus.CANCELLED) {
+      return (
+        <Button
+          accessibilityLabel="Công việc đã hủy"
+          className="flex-1"
+          disabled
+          size="default"
+          testID="task-action-cancelled-button"
+        >
+          <Text className="font-sans-medium">Đã hủy</Text>
+        </Button>
+      )
+    }
+
+    const waitingLabel =
+      appRole === 'admin' ? ADMIN_WAITING_LABELS[task.status] : undefined
+    if (waitingLabel) {
+      return (
+        <Button className="flex-1" disabled size="default">
+          <Text className="font-sans-medium">{waitingLabel}</Text>
+        </Button>
+      )
+    }
+
+    return null
   }
 
-  // For PREPARING status in admin view
-  if (task.status === TaskStatus.PREPARING) {
-    return (
-      <Button
-        className="w-full"
-        onPress={() => {
-          Alert.alert(
-            'Cho phép bắt đầu?',
-            'Nhân viên sẽ nhận được công việc và bắt đầu làm việc.',
-            [
-              { text: 'Hủy', style: 'cancel' },
-              {
-                text: 'Xác nhận',
-                style: 'default',
-                onPress: () => handleUpdateStatus(TaskStatus.READY),
-              },
-            ],
-          )
-        }}
-        size="default"
-      >
-        <Text className="font-sans-medium">Sẵn sàng làm việc</Text>
-      </Button>
-    )
+  const primaryButton = renderPrimary()
+
+  if (!primaryButton && secondary.length === 0) {
+    return null
   }
 
-  return null
+  return (
+    <View className="flex-row gap-2">
+      {primaryButton}
+      {secondary.length > 0 && (
+        <>
+          <Button
+            accessibilityHint="Mở danh sách thao tác trạng thái khác"
+            accessibilityLabel="Thao tác khác"
+            className={primaryButton ? undefined : 'flex-1'}
+            disabled={isPending}
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              transitionSheetRef.current?.present()
+            }}
+            size={primaryButton ? 'icon' : 'default'}
+            testID="task-action-more-button"
+            variant="outline"
+          >
+            {primaryButton ? (
+              <Icon as={EllipsisIcon} />
+            ) : (
+              <Text className="font-sans-medium">Cập nhật trạng thái</Text>
+            )}
+          </Button>
+          <TaskStatusTransitionSheet
+            isPending={isPending}
+            onSelect={(transition, reason) =>
+              transition.via
+                ? openTransitionScreen(transition.via)
+                : handleUpdateStatus(transition.to, reason)
+            }
+            ref={transitionSheetRef}
+            transitions={secondary}
+          />
+        </>
+      )}
+    </View>
+  )
 }
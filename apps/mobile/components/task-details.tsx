@@ -1,24 +1,37 @@
 import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
+import { TERMINAL_TASK_STATUSES } from '@nv-internal/validation'
+import { format } from 'date-fns'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { useLocalSearchParams, useRouter } from 'expo-router'
 import {
   DollarSign,
   MapPinnedIcon,
   PhoneCallIcon,
+  ShieldCheckIcon,
   UsersIcon,
 } from 'lucide-react-native'
 import { type FC, useEffect, useRef, useState } from 'react'
 import { Linking, Pressable, View } from 'react-native'
+import { useScheduledLeaves } from '@/api/leave/use-leave-requests'
 import { useTaskPayments } from '@/api/payment/use-task-payments'
+import {
+  getRequiredSkills,
+  useSkills,
+  useWorkerCertificates,
+} from '@/api/skill/use-skills'
+import { useTaskSuggestedAssignees } from '@/api/task/use-suggested-assignees'
 import type { Task } from '@/api/task/use-task'
 import { useUpdateTask } from '@/api/task/use-update-task'
 import { useUpdateTaskAssignees } from '@/api/task/use-update-task-assignees'
+import { useTeams } from '@/api/team/use-teams'
 import { useAppRole } from '@/hooks/use-app-role'
+import { formatDateTimeVN } from '@/lib/date-utils'
 import { formatTaskId } from '@/utils/task-id-helper'
 import { AttachmentList } from './attachment-list'
 import { AttachmentUploader } from './attachment-uploader'
 import { CustomerEditBottomSheet } from './customer-edit-bottom-sheet'
 import { ExpectedRevenueModal } from './payment/expected-revenue-modal'
+import { TaskVisitList } from './task/task-visit-list'
 import { TaskAction } from './task-action'
 import { TaskFieldEditBottomSheet } from './task-field-edit-bottom-sheet'
 import { Badge } from './ui/badge'
@@ -26,7 +39,13 @@ import { BottomSheet } from './ui/bottom-sheet'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Icon } from './ui/icon'
+import {
+  formatHoldDuration,
+  TaskHoldReasonBadge,
+} from './ui/task-hold-reason-badge'
+import { TaskOverdueBadge, TaskPriorityBadge } from './ui/task-priority-badge'
 import { TaskStatusBadge } from './ui/task-status-badge'
+import { TaskWorkTypeBadge } from './ui/task-work-type-badge'
 import { Text } from './ui/text'
 import { UserFullName } from './user-public-info'
 import { UserSelectBottomSheetModal } from './user-select-bottom-sheet-modal'
@@ -41,6 +60,11 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
   const params = useLocalSearchParams()
   const [assigneeIds, setAssigneeIds] = useState<string[]>(task.assigneeIds)
   const originalAssigneeIds = useRef<string[]>(task.assigneeIds)
+  const [teamId, setTeamId] = useState<string | null>(task.teamId)
+  const { data: teams } = useTeams({
+    enabled: appRole === 'admin' || !!task.teamId,
+  })
+  const team = teams?.find(({ id }) => id === task.teamId)
   const assigneeModalRef = useRef<BottomSheetModalMethods>(null)
   const expectedRevenueModalRef = useRef<BottomSheetModalMethods>(null)
   const titleEditRef = useRef<BottomSheetModalMethods>(null)
@@ -55,6 +79,34 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
   // Fetch payment data - always fetch regardless of expected revenue
   const { data: paymentData } = useTaskPayments(task.id)
 
+  // Suggested assignees for the picker, admin only
+  const { data: suggestions, isLoading: isLoadingSuggestions } =
+    useTaskSuggestedAssignees(task.id, {
+      enabled:
+        appRole === 'admin' && !TERMINAL_TASK_STATUSES.includes(task.status),
+    })
+
+  // Flag workers on approved leave on the scheduled day in the picker
+  const { data: leaves } = useScheduledLeaves({
+    scheduledAt: task.scheduledAt,
+    scheduledEndAt: task.scheduledEndAt,
+    enabled:
+      appRole === 'admin' && !TERMINAL_TASK_STATUSES.includes(task.status),
+  })
+
+  // Flag workers without a valid certificate for the skills the job needs
+  const { data: skills = [] } = useSkills()
+  const requiredSkills = getRequiredSkills(skills, {
+    workType: task.workType,
+    requiredSkillIds: task.requiredSkillIds,
+  })
+  const { data: certificates } = useWorkerCertificates({
+    enabled:
+      appRole === 'admin' &&
+      requiredSkills.length > 0 &&
+      !TERMINAL_TASK_STATUSES.includes(task.status),
+  })
+
   // Handler for opening expected revenue modal
   const handleOpenExpectedRevenueModal = () => {
     expectedRevenueModalRef.current?.present()
@@ -140,7 +192,7 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
   ])
 
   const saveAssignees = async () => {
-    await mutateAsync({ taskId: task.id, assigneeIds })
+    await mutateAsync({ taskId: task.id, assigneeIds, teamId })
     originalAssigneeIds.current = assigneeIds
     assigneeModalRef.current?.dismiss()
   }
@@ -149,10 +201,11 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
     // Check if there are changes
     const hasChanges =
       assigneeIds.length !== originalAssigneeIds.current.length ||
-      assigneeIds.some((id) => !originalAssigneeIds.current.includes(id))
+      assigneeIds.some((id) => !originalAssigneeIds.current.includes(id)) ||
+      teamId !== task.teamId
 
     if (hasChanges) {
-      await mutateAsync({ taskId: task.id, assigneeIds })
+      await mutateAsync({ taskId: task.id, assigneeIds, teamId })
       originalAssigneeIds.current = assigneeIds
     }
   }
@@ -162,6 +215,13 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
     originalAssigneeIds.current = task.assigneeIds
   }, [task.assigneeIds])
 
+  useEffect(() => {
+    setTeamId(task.teamId)
+  }, [task.teamId])
+
+  // Completed and cancelled tasks are read-only
+  const isEditable = !TERMINAL_TASK_STATUSES.includes(task.status)
+
   // Don't render role-dependent UI until role is determined
   // This prevents flickering and ensures stable UI during navigation
   if (!appRole) {
@@ -175,7 +235,7 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
         <Badge className="self-start" variant="outline">
           <Text>#{formatTaskId(task.id)}</Text>
         </Badge>
-        {appRole === 'admin' && task.status !== 'COMPLETED' ? (
+        {appRole === 'admin' && isEditable ? (
           <Pressable
             accessibilityHint="Nhấn để chỉnh sửa tiêu đề công việc"
             accessibilityLabel="Tiêu đề công việc"
@@ -196,7 +256,49 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
             {task.title || 'Chưa có tiêu đề'}
           </Text>
         )}
-        <TaskStatusBadge status={task.status} />
+        <View className="flex-row items-center gap-2">
+          <TaskStatusBadge status={task.status} />
+          {task.workType && <TaskWorkTypeBadge workType={task.workType} />}
+          <TaskPriorityBadge priority={task.priority} />
+          {task.overdue && <TaskOverdueBadge />}
+          {task.status === 'ON_HOLD' && task.holdReason && (
+            <TaskHoldReasonBadge reason={task.holdReason} />
+          )}
+        </View>
+        {requiredSkills.length > 0 && (
+          <View
+            className="flex-row items-center gap-1"
+            testID="task-required-skills"
+          >
+            <Icon
+              as={ShieldCheckIcon}
+              className="size-4 text-muted-foreground"
+            />
+            <Text className="flex-shrink text-muted-foreground text-sm">
+              Yêu cầu: {requiredSkills.map((skill) => skill.name).join(', ')}
+            </Text>
+          </View>
+        )}
+        {task.status === 'CANCELLED' && task.cancelReason && (
+          <Text className="text-destructive text-sm">
+            Lý do hủy: {task.cancelReason}
+          </Text>
+        )}
+        {task.scheduledAt && (
+          <Text className="text-muted-foreground text-sm">
+            Lịch hẹn: {formatDateTimeVN(task.scheduledAt)}
+            {task.scheduledEndAt &&
+              ` - ${formatDateTimeVN(task.scheduledEndAt)}`}
+            {!task.scheduledEndAt &&
+              task.estimatedDurationMinutes &&
+              ` (${formatHoldDuration(task.estimatedDurationMinutes)})`}
+          </Text>
+        )}
+        {task.slaDueAt && (
+          <Text className="text-muted-foreground text-sm">
+            Hạn hoàn thành: {formatDateTimeVN(task.slaDueAt)}
+          </Text>
+        )}
       </View>
 
       {/* CTA Buttons Row */}
@@ -262,7 +364,7 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
           <CardTitle>Địa chỉ làm việc</CardTitle>
         </CardHeader>
         <CardContent className="gap-3">
-          {appRole === 'admin' && task.status !== 'COMPLETED' ? (
+          {appRole === 'admin' && isEditable ? (
             <Pressable
               accessibilityHint="Nhấn để chỉnh sửa địa chỉ làm việc"
               accessibilityLabel="Địa chỉ làm việc"
@@ -321,7 +423,7 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
             <Text className="font-sans-medium text-muted-foreground leading-none">
               Thông tin khách hàng
             </Text>
-            {appRole === 'admin' && task.status !== 'COMPLETED' ? (
+            {appRole === 'admin' && isEditable ? (
               <Pressable
                 accessibilityHint="Nhấn để chỉnh sửa thông tin khách hàng"
                 accessibilityLabel="Thông tin khách hàng"
@@ -360,7 +462,7 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
           <CardTitle>Mô tả công việc</CardTitle>
         </CardHeader>
         <CardContent>
-          {appRole === 'admin' && task.status !== 'COMPLETED' ? (
+          {appRole === 'admin' && isEditable ? (
             <Pressable
               accessibilityHint="Nhấn để chỉnh sửa mô tả công việc"
               accessibilityLabel="Mô tả công việc"
@@ -386,6 +488,12 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
           <CardTitle>Nhân viên thực hiện</CardTitle>
         </CardHeader>
         <CardContent className="gap-3">
+          {team && (
+            <View className="flex-row items-center gap-2">
+              <Icon as={UsersIcon} className="size-4 text-muted-foreground" />
+              <Text className="font-sans-medium">Đội {team.name}</Text>
+            </View>
+          )}
           <View>
             {task.assigneeIds.length === 0 ? (
               <Text className="text-muted-foreground">
@@ -413,6 +521,9 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
         </CardContent>
       </Card>
 
+      {/* Visits of a multi-visit job */}
+      <TaskVisitList task={task} />
+
       {/* Payment Card - Unified card for expected revenue and payment */}
       <Card className="bg-muted dark:border-white/20">
         <CardHeader>
@@ -577,10 +688,21 @@ export const TaskDetails: FC<TaskDetailsProps> = ({ task }) => {
           snapPoints={['50%', '90%']}
         >
           <UserSelectBottomSheetModal
+            certificates={certificates}
+            isLoadingSuggestions={isLoadingSuggestions}
+            leaves={leaves}
             onCancel={() => assigneeModalRef.current?.dismiss()}
+            onChangeSelectedTeamId={setTeamId}
             onChangeSelectedUserIds={setAssigneeIds}
             onSave={saveAssignees}
+            requiredSkills={requiredSkills}
+            selectedTeamId={teamId}
             selectedUserIds={assigneeIds}
+            skillDate={format(
+              task.scheduledAt ? new Date(task.scheduledAt) : new Date(),
+              'yyyy-MM-dd',
+            )}
+            suggestions={suggestions}
           />
         </BottomSheet>
       )}
@@ -9,6 +9,8 @@ export interface LocationVerificationProps {
   taskLocation: { lat: number; lng: number } | null | undefined
   currentLocation: TaskEventLocation | null
   distance: number | null
+  /** Allowed distance from the task location, from the task's geofence */
+  radiusMeters?: number
   warnings: string[]
 }
 
@@ -31,11 +33,14 @@ export function LocationVerification({
   taskLocation,
   currentLocation,
   distance,
+  radiusMeters,
   warnings,
 }: LocationVerificationProps) {
   const hasLocation = !!currentLocation
   const hasTaskLocation = !!taskLocation
-  const isWithinRange = distance !== null && distance <= 100
+  const isWithinRange =
+    distance !== null &&
+    (radiusMeters === undefined || distance <= radiusMeters)
   const hasWarnings = warnings.length > 0
 
   return (
@@ -0,0 +1,123 @@
+import { TaskEventFlagReason } from '@nv-internal/prisma-client'
+import { format } from 'date-fns'
+import { ShieldAlertIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import type { TaskEventFlag } from '@/api/task-event/use-task-event-flags'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+const FLAG_REASON_LABELS: Record<TaskEventFlagReason, string> = {
+  [TaskEventFlagReason.OUT_OF_RANGE]: 'Ngoài phạm vi',
+  [TaskEventFlagReason.LOW_ACCURACY]: 'GPS kém chính xác',
+  [TaskEventFlagReason.MOCK_LOCATION]: 'Vị trí giả lập',
+  [TaskEventFlagReason.IMPOSSIBLE_SPEED]: 'Di chuyển bất thường',
+  [TaskEventFlagReason.DEVICE_TIME_SKEW]: 'Sai giờ thiết bị',
+}
+
+type FlagDetails = Partial<{
+  distanceMeters: number
+  radiusMeters: number
+  accuracyMeters: number
+  provider: string
+  speedKmh: number
+  elapsedMinutes: number
+  skewMinutes: number
+}>
+
+/** One line explaining why the event was flagged */
+function describeFlag(reason: TaskEventFlagReason, details: FlagDetails) {
+  switch (reason) {
+    case TaskEventFlagReason.OUT_OF_RANGE:
+      return `Cách vị trí công việc ${details.distanceMeters}m (cho phép ${details.radiusMeters}m)`
+    case TaskEventFlagReason.LOW_ACCURACY:
+      return `Độ chính xác ±${details.accuracyMeters}m`
+    case TaskEventFlagReason.MOCK_LOCATION:
+      return 'Thiết bị báo vị trí từ ứng dụng giả lập'
+    case TaskEventFlagReason.IMPOSSIBLE_SPEED:
+      return `${((details.distanceMeters ?? 0) / 1000).toFixed(1)}km trong ${details.elapsedMinutes} phút (~${details.speedKmh}km/h) từ lần chấm công trước`
+    case TaskEventFlagReason.DEVICE_TIME_SKEW:
+      return `Giờ thiết bị lệch ${Math.abs(details.skewMinutes ?? 0)} phút`
+    default:
+      return null
+  }
+}
+
+export type TaskEventFlagCardProps = {
+  flag: TaskEventFlag
+  onPressTask: (taskId: number) => void
+  onReview?: () => void
+  isReviewing?: boolean
+}
+
+/**
+ * A flagged check-in / check-out in the admin review queue
+ */
+export const TaskEventFlagCard: FC<TaskEventFlagCardProps> = ({
+  flag,
+  onPressTask,
+  onReview,
+  isReviewing,
+}) => {
+  const description = describeFlag(
+    flag.reason,
+    (flag.details ?? {}) as FlagDetails,
+  )
+
+  return (
+    <View
+      className="gap-2 rounded-lg border border-border bg-card p-3"
+      testID={`task-event-flag-${flag.id}`}
+    >
+      <View className="flex-row items-center gap-2">
+        <Icon as={ShieldAlertIcon} className="size-4 text-amber-600" />
+        <Text className="flex-1 font-sans-semibold text-amber-700 dark:text-amber-400">
+          {FLAG_REASON_LABELS[flag.reason]} ·{' '}
+          {flag.eventType === 'CHECK_OUT' ? 'Check-out' : 'Check-in'}
+        </Text>
+        <Text className="text-muted-foreground text-xs">
+          {format(new Date(flag.createdAt), 'HH:mm dd/MM/yyyy')}
+        </Text>
+      </View>
+
+      <Pressable
+        accessibilityRole="button"
+        className="active:opacity-70"
+        onPress={() => onPressTask(flag.task.id)}
+      >
+        <Text className="font-sans-medium" numberOfLines={1}>
+          {formatTaskId(flag.task.id)} · {flag.task.title}
+        </Text>
+      </Pressable>
+
+      <UserFullName className="text-sm" userId={flag.userId} />
+
+      {description && (
+        <Text className="text-muted-foreground text-sm">{description}</Text>
+      )}
+      {flag.notes && <Text className="text-sm">Ghi chú: {flag.notes}</Text>}
+
+      {flag.reviewedAt ? (
+        <Text className="text-muted-foreground text-xs">
+          Đã xem xét lúc {format(new Date(flag.reviewedAt), 'HH:mm dd/MM/yyyy')}
+          {flag.reviewNote ? ` · ${flag.reviewNote}` : ''}
+        </Text>
+      ) : (
+        onReview && (
+          <Button
+            disabled={isReviewing}
+            onPress={onReview}
+            size="sm"
+            testID={`task-event-flag-${flag.id}-review`}
+            variant="outline"
+          >
+            <Text>Đánh dấu đã xem xét</Text>
+          </Button>
+        )
+      )}
+    </View>
+  )
+}
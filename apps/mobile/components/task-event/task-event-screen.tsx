@@ -39,6 +39,9 @@ export function TaskEventScreen({
     isLoadingTask,
     location,
     distance,
+    geofence,
+    isNoteRequired,
+    isBlocked,
     attachments,
     notes,
     isSubmitting,
@@ -51,9 +54,21 @@ export function TaskEventScreen({
     handleSubmit,
   } = useTaskEvent(taskId, eventType)
 
-  // Validation - only location and task are required
-  const canSubmit = location && task
-  const isWrongStatus = task && task.status !== config.requiredStatus
+  // Validation - location and task are required, out of range check-ins may
+  // need a note or be refused depending on the geofence mode
+  const isMissingNote = isNoteRequired && !notes.trim()
+  const canSubmit = location && task && !isBlocked && !isMissingNote
+  const isResumingFromHold =
+    !!config.allowResumeFromHold &&
+    task?.status === 'ON_HOLD' &&
+    !!task.holdReason
+  // Later visits of a multi-visit job check in again while IN_PROGRESS
+  const isNextVisit = !!config.allowNextVisit && task?.status === 'IN_PROGRESS'
+  const isWrongStatus =
+    task &&
+    task.status !== config.requiredStatus &&
+    !isResumingFromHold &&
+    !isNextVisit
 
   if (isLoadingTask) {
     return (
@@ -164,6 +179,7 @@ export function TaskEventScreen({
             <LocationVerification
               currentLocation={location}
               distance={distance}
+              radiusMeters={geofence?.radiusMeters}
               taskLocation={task.geoLocation}
               warnings={warnings}
             />
@@ -196,7 +212,11 @@ export function TaskEventScreen({
         <Card className="bg-muted dark:border-white/20">
           <CardHeader>
             <CardTitle>Ghi chú</CardTitle>
-            <CardDescription>Thông tin bổ sung (tùy chọn)</CardDescription>
+            <CardDescription>
+              {isNoteRequired
+                ? 'Bắt buộc: ghi rõ lý do bạn ở ngoài phạm vi công việc'
+                : 'Thông tin bổ sung (tùy chọn)'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <Textarea
@@ -217,11 +237,15 @@ export function TaskEventScreen({
         {/* Submit Button */}
         <Button
           accessibilityHint={
-            !canSubmit
-              ? 'Cần có vị trí GPS để xác nhận'
-              : isSubmitting
-                ? 'Đang xử lý yêu cầu'
-                : `Xác nhận ${eventType === 'check-in' ? 'bắt đầu' : 'hoàn thành'} công việc`
+            isBlocked
+              ? 'Cần đến đúng địa điểm công việc để xác nhận'
+              : isMissingNote
+                ? 'Cần ghi chú lý do ở ngoài phạm vi để xác nhận'
+                : !canSubmit
+                  ? 'Cần có vị trí GPS để xác nhận'
+                  : isSubmitting
+                    ? 'Đang xử lý yêu cầu'
+                    : `Xác nhận ${eventType === 'check-in' ? 'bắt đầu' : 'hoàn thành'} công việc`
           }
           accessibilityLabel={config.buttonLabel}
           className={cn('w-full', isSubmitting && 'opacity-50')}
@@ -241,6 +265,23 @@ export function TaskEventScreen({
             Đang lấy vị trí hiện tại...
           </Text>
         )}
+        {isBlocked && (
+          <Text
+            className="text-center text-destructive text-sm"
+            testID={`${eventType}-blocked-message`}
+          >
+            Bạn đang ở ngoài phạm vi cho phép. Vui lòng đến đúng địa điểm công
+            việc để {eventType === 'check-in' ? 'check-in' : 'check-out'}.
+          </Text>
+        )}
+        {isMissingNote && (
+          <Text
+            className="text-center text-destructive text-sm"
+            testID={`${eventType}-note-required-message`}
+          >
+            Bạn đang ở ngoài phạm vi cho phép. Vui lòng ghi chú lý do.
+          </Text>
+        )}
       </KeyboardAwareScrollView>
     </>
   )
@@ -1,14 +1,17 @@
-import { TaskStatus } from '@nv-internal/validation'
+import { TaskStatus, type TaskWorkType } from '@nv-internal/validation'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { XIcon } from 'lucide-react-native'
 import type { FC } from 'react'
 import { Pressable, ScrollView, View } from 'react-native'
 import { Icon } from '@/components/ui/icon'
+import { WORK_TYPE_LABELS } from '@/components/ui/task-work-type-badge'
 import { Text } from '@/components/ui/text'
 
 export type TaskFilters = {
   status?: TaskStatus[]
+  workTypes?: TaskWorkType[]
   assigneeIds?: string[]
+  teamId?: string
   createdFrom?: Date
   createdTo?: Date
   completedFrom?: Date
@@ -20,8 +23,11 @@ export type TaskFilters = {
 export type ActiveFilterChipsProps = {
   filters: TaskFilters
   userNames?: Record<string, string> // Map of userId -> display name
+  teamNames?: Record<string, string> // Map of teamId -> team name
   onRemoveStatus?: (status: TaskStatus) => void
+  onRemoveWorkType?: (workType: TaskWorkType) => void
   onRemoveAssignee?: (userId: string) => void
+  onRemoveTeam?: () => void
   onRemoveDateFilter?: (filterType: 'created' | 'completed') => void
   onClearAll?: () => void
 }
@@ -32,6 +38,7 @@ const STATUS_LABELS: Record<TaskStatus, string> = {
   [TaskStatus.IN_PROGRESS]: 'Đang làm',
   [TaskStatus.ON_HOLD]: 'Tạm dừng',
   [TaskStatus.COMPLETED]: 'Hoàn thành',
+  [TaskStatus.CANCELLED]: 'Đã hủy',
 }
 
 /**
@@ -42,8 +49,11 @@ const STATUS_LABELS: Record<TaskStatus, string> = {
 export const ActiveFilterChips: FC<ActiveFilterChipsProps> = ({
   filters,
   userNames = {},
+  teamNames = {},
   onRemoveStatus,
+  onRemoveWorkType,
   onRemoveAssignee,
+  onRemoveTeam,
   onRemoveDateFilter,
   onClearAll,
 }) => {
@@ -69,7 +79,9 @@ export const ActiveFilterChips: FC<ActiveFilterChipsProps> = ({
   // Count active filters (excluding sortBy/sortOrder which are always present)
   const activeFilterCount =
     (filters.status?.length || 0) +
+    (filters.workTypes?.length || 0) +
     (filters.assigneeIds?.length || 0) +
+    (filters.teamId ? 1 : 0) +
     (filters.createdFrom || filters.createdTo ? 1 : 0) +
     (filters.completedFrom || filters.completedTo ? 1 : 0)
 
@@ -133,6 +145,34 @@ export const ActiveFilterChips: FC<ActiveFilterChipsProps> = ({
           </View>
         ))}
 
+        {/* Work type chips */}
+        {filters.workTypes?.map((workType) => (
+          <View
+            className="flex-row items-center gap-1 rounded-full border border-primary/30 bg-primary/10 px-3 py-1.5"
+            key={workType}
+          >
+            <Text className="font-sans-medium text-primary text-xs">
+              {WORK_TYPE_LABELS[workType]}
+            </Text>
+            {onRemoveWorkType && (
+              <Pressable
+                accessibilityHint={`Xóa bộ lọc ${WORK_TYPE_LABELS[workType]}`}
+                accessibilityLabel="Xóa"
+                accessibilityRole="button"
+                onPress={() =>
+                  handleRemoveChip(() => onRemoveWorkType(workType))
+                }
+              >
+                <Icon
+                  as={XIcon}
+                  className="size-3.5 text-primary"
+                  strokeWidth={3}
+                />
+              </Pressable>
+            )}
+          </View>
+        ))}
+
         {/* Assignee chips */}
         {filters.assigneeIds?.map((userId) => (
           <View
@@ -159,6 +199,29 @@ export const ActiveFilterChips: FC<ActiveFilterChipsProps> = ({
           </View>
         ))}
 
+        {/* Team chip */}
+        {filters.teamId && (
+          <View className="flex-row items-center gap-1 rounded-full border border-blue-500/30 bg-blue-500/10 px-3 py-1.5">
+            <Text className="font-sans-medium text-blue-700 text-xs dark:text-blue-400">
+              Đội {teamNames[filters.teamId] || ''}
+            </Text>
+            {onRemoveTeam && (
+              <Pressable
+                accessibilityHint="Xóa bộ lọc đội"
+                accessibilityLabel="Xóa"
+                accessibilityRole="button"
+                onPress={() => handleRemoveChip(onRemoveTeam)}
+              >
+                <Icon
+                  as={XIcon}
+                  className="size-3.5 text-blue-700 dark:text-blue-400"
+                  strokeWidth={3}
+                />
+              </Pressable>
+            )}
+          </View>
+        )}
+
         {/* Created date range chip */}
         {(filters.createdFrom || filters.createdTo) && (
           <View className="flex-row items-center gap-1 rounded-full border border-green-500/30 bg-green-500/10 px-3 py-1.5">
@@ -7,7 +7,12 @@ import { PaymentStatusBadge } from '@/components/payment/payment-status-badge'
 import { AssigneeAvatars } from '@/components/task/assignee-avatars'
 import { Button } from '@/components/ui/button'
 import { Icon } from '@/components/ui/icon'
+import {
+  TaskOverdueBadge,
+  TaskPriorityBadge,
+} from '@/components/ui/task-priority-badge'
 import { TaskStatusBadge } from '@/components/ui/task-status-badge'
+import { TaskWorkTypeBadge } from '@/components/ui/task-work-type-badge'
 import { Text } from '@/components/ui/text'
 import { cn } from '@/lib/utils'
 import { formatTaskId } from '@/utils/task-id-helper'
@@ -40,6 +45,7 @@ export type EnhancedTaskCardProps = {
  * - Customer name and phone (with call button)
  * - Address (with navigate button)
  * - Status badge
+ * - Overdue and high priority badges
  * - Payment status badge
  * - Assignee avatars
  * - Quick action buttons
@@ -105,6 +111,11 @@ export const EnhancedTaskCard: FC<EnhancedTaskCardProps> = ({
           {formatTaskId(task.id)}
         </Text>
         <View className="flex-row items-center gap-1.5">
+          {task.overdue && <TaskOverdueBadge />}
+          {(task.priority === 'HIGH' || task.priority === 'URGENT') && (
+            <TaskPriorityBadge priority={task.priority} />
+          )}
+          {task.workType && <TaskWorkTypeBadge workType={task.workType} />}
           {hasExpectedRevenue && (
             <PaymentStatusBadge
               actualAmount={actualAmount}
@@ -0,0 +1,122 @@
+import { endOfDay, startOfDay } from 'date-fns'
+import { type FC, useState } from 'react'
+import { FlatList, RefreshControl, View } from 'react-native'
+import { useTaskSearch } from '@/api/task/use-task-search'
+import { EnhancedTaskCard } from '@/components/task/enhanced-task-card'
+import { TaskDateFilter } from '@/components/task/task-date-filter'
+import { TaskListItemSkeleton } from '@/components/task-list-item-skeleton'
+import { EmptyState } from '@/components/ui/empty-state'
+
+export type ScheduledTaskListProps = {
+  /** Initial day (YYYY-MM-DD), e.g. the day tapped on the calendar */
+  date: string
+  /** Only the current user's tasks (worker module) */
+  assignedOnly?: boolean
+  workerMode?: boolean
+  onPressTask: (taskId: number) => void
+}
+
+/**
+ * Task list filtered by scheduled date
+ *
+ * Opened from the calendar with a single day selected, the range can then be
+ * widened with the date filter.
+ */
+export const ScheduledTaskList: FC<ScheduledTaskListProps> = ({
+  date,
+  assignedOnly,
+  workerMode,
+  onPressTask,
+}) => {
+  const [fromDate, setFromDate] = useState<Date | undefined>(
+    () => new Date(`${date}T00:00:00`),
+  )
+  const [toDate, setToDate] = useState<Date | undefined>(
+    () => new Date(`${date}T00:00:00`),
+  )
+
+  const {
+    data,
+    isLoading,
+    isRefetching,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTaskSearch({
+    take: 20,
+    status: undefined,
+    workType: undefined,
+    assigneeIds: undefined,
+    assignedOnly: assignedOnly ? 'true' : undefined,
+    scheduledFrom: fromDate ? startOfDay(fromDate).toISOString() : undefined,
+    scheduledTo: toDate ? endOfDay(toDate).toISOString() : undefined,
+    sortBy: 'scheduledAt',
+    sortOrder: 'asc',
+  })
+
+  const tasks = data?.pages.flatMap((page) => page.tasks) ?? []
+
+  return (
+    <FlatList
+      contentContainerClassName="gap-2 p-4"
+      contentInsetAdjustmentBehavior="automatic"
+      data={isLoading ? [] : tasks}
+      keyExtractor={(item) => item.id.toString()}
+      ListEmptyComponent={
+        isLoading ? (
+          <View className="gap-2">
+            <TaskListItemSkeleton />
+            <TaskListItemSkeleton />
+            <TaskListItemSkeleton />
+          </View>
+        ) : (
+          <EmptyState
+            className="flex-1"
+            image="laziness"
+            messageDescription="Không có công việc nào được lên lịch trong khoảng thời gian này."
+            messageTitle="Không có lịch"
+          />
+        )
+      }
+      ListFooterComponent={
+        isFetchingNextPage ? (
+          <View className="py-4">
+            <TaskListItemSkeleton />
+          </View>
+        ) : null
+      }
+      ListHeaderComponent={
+        <View className="mb-2">
+          <TaskDateFilter
+            fromDate={fromDate}
+            label="Ngày hẹn"
+            onChangeFromDate={setFromDate}
+            onChangeToDate={setToDate}
+            toDate={toDate}
+          />
+        </View>
+      }
+      onEndReached={() => {
+        if (hasNextPage && !isFetchingNextPage) {
+          fetchNextPage()
+        }
+      }}
+      onEndReachedThreshold={0.5}
+      refreshControl={
+        <RefreshControl
+          accessibilityLabel="Làm mới danh sách công việc"
+          onRefresh={refetch}
+          refreshing={isRefetching}
+        />
+      }
+      renderItem={({ item }) => (
+        <EnhancedTaskCard
+          onPress={() => onPressTask(item.id)}
+          task={item}
+          workerMode={workerMode}
+        />
+      )}
+    />
+  )
+}
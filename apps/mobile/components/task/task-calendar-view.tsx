@@ -0,0 +1,360 @@
+import {
+  addDays,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  TreePalmIcon,
+} from 'lucide-react-native'
+import { type FC, useMemo, useState } from 'react'
+import {
+  ActivityIndicator,
+  Pressable,
+  RefreshControl,
+  ScrollView,
+  View,
+} from 'react-native'
+import { Calendar, type DateData } from 'react-native-calendars'
+import {
+  type TaskCalendarDay,
+  type TaskCalendarTask,
+  useTaskCalendar,
+} from '@/api/task/use-task-calendar'
+import { LEAVE_TYPE_LABELS } from '@/components/leave/leave-request-card'
+import { AssigneeAvatars } from '@/components/task/assignee-avatars'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { TaskOverdueBadge } from '@/components/ui/task-priority-badge'
+import { TaskStatusBadge } from '@/components/ui/task-status-badge'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { useColorPalette } from '@/hooks/use-color-palette'
+import { cn } from '@/lib/utils'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+export type TaskCalendarMode = 'month' | 'week' | 'agenda'
+
+const MODE_LABELS: Record<TaskCalendarMode, string> = {
+  month: 'Tháng',
+  week: 'Tuần',
+  agenda: 'Lịch trình',
+}
+
+// Days shown by the agenda, starting from the selected day
+const AGENDA_DAYS = 14
+
+const WEEKDAY_LABELS = ['CN', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7']
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const formatDayLabel = (dateString: string) => {
+  const date = new Date(`${dateString}T00:00:00`)
+  return `${WEEKDAY_LABELS[date.getDay()]}, ${format(date, 'dd/MM')}`
+}
+
+/** Visible range of a mode around the anchor day (inclusive) */
+function getVisibleRange(mode: TaskCalendarMode, anchor: Date) {
+  switch (mode) {
+    case 'month':
+      return { from: startOfMonth(anchor), to: endOfMonth(anchor) }
+    case 'week':
+      return {
+        from: startOfWeek(anchor, { weekStartsOn: 1 }),
+        to: endOfWeek(anchor, { weekStartsOn: 1 }),
+      }
+    case 'agenda':
+      return { from: anchor, to: addDays(anchor, AGENDA_DAYS - 1) }
+  }
+}
+
+export type TaskCalendarViewProps = {
+  /** Only the current user's tasks (worker module) */
+  assignedOnly?: boolean
+  assigneeIds?: string[]
+  /** Open the task list filtered to a day (YYYY-MM-DD) */
+  onPressDay: (date: string) => void
+  onPressTask: (taskId: number) => void
+}
+
+/**
+ * Month / week / agenda calendar of scheduled tasks
+ *
+ * Days are bucketed by the API in Asia/Ho_Chi_Minh. Tapping a day opens the
+ * task list filtered to that date. Workers on approved leave are listed on
+ * their days.
+ */
+export const TaskCalendarView: FC<TaskCalendarViewProps> = ({
+  assignedOnly,
+  assigneeIds,
+  onPressDay,
+  onPressTask,
+}) => {
+  const { getColor } = useColorPalette()
+  const [mode, setMode] = useState<TaskCalendarMode>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+
+  const range = getVisibleRange(mode, anchor)
+  const { data, isLoading, isRefetching, refetch } = useTaskCalendar({
+    from: toDateString(range.from),
+    to: toDateString(range.to),
+    assigneeIds,
+    assignedOnly: assignedOnly ? 'true' : undefined,
+  })
+  const days = data?.days ?? []
+
+  const markedDates = useMemo(
+    () =>
+      Object.fromEntries(
+        (data?.days ?? [])
+          .filter((day) => day.count > 0)
+          .map((day) => [
+            day.date,
+            { marked: true, dotColor: getColor('primary') },
+          ]),
+      ),
+    [data, getColor],
+  )
+
+  const calendarTheme = useMemo(
+    () => ({
+      backgroundColor: getColor('card'),
+      calendarBackground: getColor('card'),
+      textSectionTitleColor: getColor('mutedForeground'),
+      dayTextColor: getColor('foreground'),
+      todayTextColor: getColor('primary'),
+      textDisabledColor: getColor('mutedForeground', { alpha: 0.5 }),
+      monthTextColor: getColor('foreground'),
+      arrowColor: getColor('primary'),
+      textMonthFontWeight: '600' as const,
+      textDayFontSize: 16,
+      textMonthFontSize: 16,
+      textDayHeaderFontSize: 14,
+    }),
+    [getColor],
+  )
+
+  const handleChangeMode = (nextMode: TaskCalendarMode) => {
+    if (nextMode !== mode) {
+      impactAsync(ImpactFeedbackStyle.Light)
+      setMode(nextMode)
+    }
+  }
+
+  const handleShift = (direction: 1 | -1) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    setAnchor((prev) =>
+      mode === 'week'
+        ? addWeeks(prev, direction)
+        : addDays(prev, direction * AGENDA_DAYS),
+    )
+  }
+
+  const handlePressDay = (date: string) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    onPressDay(date)
+  }
+
+  const renderTask = (task: TaskCalendarTask) => (
+    <Pressable
+      accessibilityHint="Xem chi tiết công việc"
+      accessibilityLabel={task.title}
+      accessibilityRole="button"
+      className="gap-1 rounded-lg border border-border bg-card p-3 active:bg-muted"
+      key={task.id}
+      onPress={() => {
+        impactAsync(ImpactFeedbackStyle.Light)
+        onPressTask(task.id)
+      }}
+      testID={`task-calendar-task-${task.id}`}
+    >
+      <View className="flex-row items-center justify-between gap-2">
+        <Text className="font-sans-medium text-primary text-sm">
+          {task.scheduledAt && formatTime(task.scheduledAt)}
+          {task.scheduledEndAt && ` - ${formatTime(task.scheduledEndAt)}`}
+        </Text>
+        <View className="flex-row items-center gap-1">
+          {task.overdue && <TaskOverdueBadge />}
+          <TaskStatusBadge status={task.status} />
+        </View>
+      </View>
+      <Text className="font-sans-semibold" numberOfLines={2}>
+        #{formatTaskId(task.id)} {task.title}
+      </Text>
+      {(task.geoLocation?.name || task.geoLocation?.address) && (
+        <Text className="text-muted-foreground text-sm" numberOfLines={1}>
+          {task.geoLocation.name || task.geoLocation.address}
+        </Text>
+      )}
+      {task.assigneeIds.length > 0 && (
+        <AssigneeAvatars assigneeIds={task.assigneeIds} size="sm" />
+      )}
+    </Pressable>
+  )
+
+  const renderDay = (day: TaskCalendarDay, showEmpty: boolean) => {
+    if (!showEmpty && day.count === 0 && day.leaves.length === 0) {
+      return null
+    }
+
+    return (
+      <View className="gap-2" key={day.date}>
+        <Pressable
+          accessibilityHint="Mở danh sách công việc của ngày này"
+          accessibilityLabel={`${formatDayLabel(day.date)}, ${day.count} công việc`}
+          accessibilityRole="button"
+          className="flex-row items-center justify-between rounded px-1 py-1 active:bg-muted"
+          onPress={() => handlePressDay(day.date)}
+          testID={`task-calendar-day-${day.date}`}
+        >
+          <Text
+            className={cn(
+              'font-sans-semibold',
+              day.date === toDateString(new Date()) && 'text-primary',
+            )}
+          >
+            {formatDayLabel(day.date)}
+          </Text>
+          <Text className="text-muted-foreground text-sm">
+            {day.count > 0 ? `${day.count} công việc` : 'Không có lịch'}
+          </Text>
+        </Pressable>
+        {day.leaves.map((leave) => (
+          <View
+            className="flex-row items-center gap-2 rounded-lg bg-amber-500/10 px-3 py-2 dark:bg-amber-500/20"
+            key={leave.id}
+            testID={`task-calendar-leave-${day.date}-${leave.userId}`}
+          >
+            <Icon as={TreePalmIcon} className="size-4 text-amber-600" />
+            <UserFullName className="flex-1 text-sm" userId={leave.userId} />
+            <Text className="text-amber-700 text-xs dark:text-amber-400">
+              {LEAVE_TYPE_LABELS[leave.type]}
+            </Text>
+          </View>
+        ))}
+        {day.tasks.map(renderTask)}
+      </View>
+    )
+  }
+
+  const hasTasks = days.some((day) => day.count > 0)
+
+  return (
+    <ScrollView
+      contentContainerClassName="gap-4 p-4"
+      contentInsetAdjustmentBehavior="automatic"
+      refreshControl={
+        <RefreshControl onRefresh={refetch} refreshing={isRefetching} />
+      }
+    >
+      {/* Mode switch */}
+      <View className="flex-row gap-2">
+        {(Object.keys(MODE_LABELS) as TaskCalendarMode[]).map((item) => (
+          <Pressable
+            accessibilityLabel={MODE_LABELS[item]}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: mode === item }}
+            key={item}
+            onPress={() => handleChangeMode(item)}
+            testID={`task-calendar-mode-${item}`}
+          >
+            <View
+              className={cn(
+                'rounded-full px-4 py-2',
+                mode === item ? 'bg-primary' : 'bg-muted',
+              )}
+            >
+              <Text
+                className={cn(
+                  'font-sans-semibold text-sm',
+                  mode === item
+                    ? 'text-primary-foreground'
+                    : 'text-muted-foreground',
+                )}
+              >
+                {MODE_LABELS[item]}
+              </Text>
+            </View>
+          </Pressable>
+        ))}
+      </View>
+
+      {mode === 'month' ? (
+        <View className="overflow-hidden rounded-lg border border-muted bg-card">
+          <Calendar
+            current={toDateString(anchor)}
+            firstDay={1}
+            markedDates={markedDates}
+            onDayPress={(day: DateData) => handlePressDay(day.dateString)}
+            onMonthChange={(month: DateData) =>
+              setAnchor(new Date(month.year, month.month - 1, 1))
+            }
+            theme={calendarTheme}
+          />
+        </View>
+      ) : (
+        <View className="flex-row items-center justify-between">
+          <Button
+            accessibilityLabel="Trước"
+            onPress={() => handleShift(-1)}
+            size="icon"
+            variant="ghost"
+          >
+            <Icon as={ChevronLeftIcon} className="size-6" />
+          </Button>
+          <Text className="font-sans-semibold">
+            {format(range.from, 'dd/MM')} - {format(range.to, 'dd/MM/yyyy')}
+          </Text>
+          <Button
+            accessibilityLabel="Sau"
+            onPress={() => handleShift(1)}
+            size="icon"
+            variant="ghost"
+          >
+            <Icon as={ChevronRightIcon} className="size-6" />
+          </Button>
+        </View>
+      )}
+
+      {isLoading && <ActivityIndicator className="my-2" />}
+
+      {mode === 'month' && !isLoading && (
+        <View className="gap-4">
+          {days.map((day) => renderDay(day, false))}
+          {!hasTasks && (
+            <Text className="text-center text-muted-foreground">
+              Không có công việc nào được lên lịch trong tháng này
+            </Text>
+          )}
+        </View>
+      )}
+
+      {mode === 'week' && !isLoading && (
+        <View className="gap-4">{days.map((day) => renderDay(day, true))}</View>
+      )}
+
+      {mode === 'agenda' && !isLoading && (
+        <View className="gap-4">
+          {days.map((day) => renderDay(day, false))}
+          {!hasTasks && (
+            <Text className="text-center text-muted-foreground">
+              Không có công việc nào trong {AGENDA_DAYS} ngày tới
+            </Text>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  )
+}
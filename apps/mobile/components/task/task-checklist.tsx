@@ -0,0 +1,101 @@
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { CheckSquareIcon, SquareIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import type { Task } from '@/api/task/use-task'
+import { useUpdateTaskChecklistItem } from '@/api/task/use-update-task-checklist-item'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskChecklistProps = {
+  task: Task
+}
+
+/**
+ * Checklist copied from the task's work type template
+ *
+ * Items can only be ticked while the task is IN_PROGRESS. Required items
+ * must all be checked before the worker can check out.
+ */
+export const TaskChecklist: FC<TaskChecklistProps> = ({ task }) => {
+  const { mutate: updateItem, isPending } = useUpdateTaskChecklistItem()
+  const items = task.checklistItems ?? []
+  const isEditable = task.status === 'IN_PROGRESS'
+
+  if (items.length === 0) {
+    return null
+  }
+
+  const checkedCount = items.filter((item) => item.checkedAt).length
+  const uncheckedRequiredCount = items.filter(
+    (item) => item.required && !item.checkedAt,
+  ).length
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    updateItem({ taskId: task.id, itemId, checked })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          Danh sách kiểm tra ({checkedCount}/{items.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="gap-1">
+        {items.map((item) => {
+          const isChecked = !!item.checkedAt
+
+          return (
+            <Pressable
+              accessibilityHint={
+                isEditable
+                  ? `${isChecked ? 'Bỏ đánh dấu' : 'Đánh dấu'} hoàn thành`
+                  : 'Chỉ có thể cập nhật khi công việc đang tiến hành'
+              }
+              accessibilityLabel={`${item.label}${item.required ? ', bắt buộc' : ''}`}
+              accessibilityRole="checkbox"
+              accessibilityState={{
+                checked: isChecked,
+                disabled: !isEditable || isPending,
+              }}
+              className="flex-row items-center gap-3 py-2"
+              disabled={!isEditable || isPending}
+              key={item.id}
+              onPress={() => toggleItem(item.id, !isChecked)}
+            >
+              <Icon
+                as={isChecked ? CheckSquareIcon : SquareIcon}
+                className={cn(
+                  'size-5',
+                  isChecked ? 'text-primary' : 'text-muted-foreground',
+                )}
+              />
+              <View className="flex-1">
+                <Text
+                  className={cn(
+                    isChecked && 'text-muted-foreground line-through',
+                  )}
+                >
+                  {item.label}
+                  {item.required && (
+                    <Text className="text-destructive"> *</Text>
+                  )}
+                </Text>
+              </View>
+            </Pressable>
+          )
+        })}
+        {isEditable && uncheckedRequiredCount > 0 && (
+          <Text className="mt-1 text-muted-foreground text-sm">
+            Còn {uncheckedRequiredCount} mục bắt buộc (*) cần hoàn thành trước
+            khi check-out.
+          </Text>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+import DateTimePicker from '@react-native-community/datetimepicker'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { CalendarClockIcon, XIcon } from 'lucide-react-native'
+import { type FC, useState } from 'react'
+import { Platform, Pressable, View } from 'react-native'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskDateTimePickerProps = {
+  value?: Date
+  onChange: (date?: Date) => void
+  /** Shown when no date is selected, also used for accessibility */
+  placeholder: string
+  minimumDate?: Date
+  testID?: string
+}
+
+/**
+ * Date and time picker for the task schedule
+ *
+ * Android has no combined date-time dialog, so the date is picked first and
+ * the time right after.
+ */
+export const TaskDateTimePicker: FC<TaskDateTimePickerProps> = ({
+  value,
+  onChange,
+  placeholder,
+  minimumDate,
+  testID,
+}) => {
+  const [showPicker, setShowPicker] = useState(false)
+  const [androidMode, setAndroidMode] = useState<'date' | 'time'>('date')
+  const [pendingDate, setPendingDate] = useState<Date>()
+
+  const handleIosChange = (event: { type: string }, selectedDate?: Date) => {
+    if (event.type === 'set' && selectedDate) {
+      onChange(selectedDate)
+    }
+  }
+
+  const handleAndroidChange = (
+    event: { type: string },
+    selectedDate?: Date,
+  ) => {
+    if (event.type !== 'set' || !selectedDate) {
+      setShowPicker(false)
+      setAndroidMode('date')
+      setPendingDate(undefined)
+      return
+    }
+
+    if (androidMode === 'date') {
+      setPendingDate(selectedDate)
+      setAndroidMode('time')
+      return
+    }
+
+    setShowPicker(false)
+    setAndroidMode('date')
+    setPendingDate(undefined)
+    impactAsync(ImpactFeedbackStyle.Light)
+    onChange(selectedDate)
+  }
+
+  const label = value
+    ? new Intl.DateTimeFormat('vi-VN', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      }).format(value)
+    : placeholder
+
+  return (
+    <View className="gap-2">
+      <View className="flex-row gap-2">
+        <Pressable
+          accessibilityHint="Chọn ngày giờ"
+          accessibilityLabel={value ? `${placeholder}: ${label}` : placeholder}
+          accessibilityRole="button"
+          className="flex-1"
+          onPress={() => {
+            impactAsync(ImpactFeedbackStyle.Light)
+            setShowPicker(true)
+          }}
+          testID={testID}
+        >
+          <View
+            className={cn(
+              'flex-row items-center gap-2 rounded-lg border border-muted bg-card p-3',
+              value && 'border-primary',
+            )}
+          >
+            <Icon
+              as={CalendarClockIcon}
+              className={cn(
+                'size-5',
+                value ? 'text-primary' : 'text-muted-foreground',
+              )}
+            />
+            <Text
+              className={cn(
+                'flex-1 font-sans-medium',
+                value ? 'text-foreground' : 'text-muted-foreground',
+              )}
+            >
+              {label}
+            </Text>
+          </View>
+        </Pressable>
+
+        {value && (
+          <Button
+            accessibilityLabel={`Xóa ${placeholder.toLowerCase()}`}
+            className="aspect-square h-full"
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              onChange(undefined)
+            }}
+            size={null}
+            variant="outline"
+          >
+            <Icon as={XIcon} className="size-5 text-muted-foreground" />
+          </Button>
+        )}
+      </View>
+
+      {Platform.OS === 'ios' && showPicker && (
+        <View className="rounded-lg border border-muted bg-card p-2">
+          <DateTimePicker
+            display="spinner"
+            locale="vi-VN"
+            minimumDate={minimumDate}
+            minuteInterval={15}
+            mode="datetime"
+            onChange={handleIosChange}
+            value={value || minimumDate || new Date()}
+          />
+          <Button
+            className="mt-2"
+            onPress={() => {
+              // The spinner starts on a date without firing onChange
+              if (!value) {
+                onChange(minimumDate || new Date())
+              }
+              setShowPicker(false)
+            }}
+            variant="secondary"
+          >
+            <Text>Xong</Text>
+          </Button>
+        </View>
+      )}
+
+      {Platform.OS === 'android' && showPicker && (
+        <DateTimePicker
+          is24Hour
+          minimumDate={minimumDate}
+          mode={androidMode}
+          onChange={handleAndroidChange}
+          value={pendingDate || value || minimumDate || new Date()}
+        />
+      )}
+    </View>
+  )
+}
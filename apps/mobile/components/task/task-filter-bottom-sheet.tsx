@@ -1,6 +1,6 @@
 import { BottomSheetScrollView } from '@gorhom/bottom-sheet'
 import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
-import type { TaskStatus } from '@nv-internal/validation'
+import type { TaskStatus, TaskWorkType } from '@nv-internal/validation'
 import {
   endOfDay,
   endOfMonth,
@@ -13,6 +13,7 @@ import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
 import { UsersIcon } from 'lucide-react-native'
 import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
 import { Pressable, View } from 'react-native'
+import { useTeams } from '@/api/team/use-teams'
 import { BottomSheet } from '@/components/ui/bottom-sheet'
 import { Button } from '@/components/ui/button'
 import { Icon } from '@/components/ui/icon'
@@ -33,12 +34,15 @@ import {
 import type { TaskSortBy, TaskSortOrder } from './task-sort-filter'
 import { TaskSortFilter } from './task-sort-filter'
 import { TaskStatusFilter } from './task-status-filter'
+import { TaskWorkTypeFilter } from './task-work-type-filter'
 
 export type DateFilterType = 'created' | 'completed'
 
 export type TaskFilterState = {
   status?: TaskStatus[]
+  workTypes?: TaskWorkType[]
   assigneeIds?: string[]
+  teamId?: string
   createdFrom?: Date
   createdTo?: Date
   completedFrom?: Date
@@ -74,6 +78,7 @@ export type TaskFilterBottomSheetMethods = {
  *
  * Features:
  * - Status multi-select with horizontal chips
+ * - Work type multi-select with horizontal chips
  * - Quick date filters (Today, Week, Month, Custom)
  * - Assignee picker button (opens separate modal)
  * - Collapsible sort options
@@ -88,6 +93,8 @@ export const TaskFilterBottomSheet = forwardRef<
   const assigneeModalRef = useRef<TaskAssigneePickerModalMethods>(null)
   const datePickerModalRef = useRef<TaskDatePickerModalMethods>(null)
 
+  const { data: teams = [] } = useTeams({ enabled: showAssigneeFilter })
+
   // Local state for filters (only applied when user clicks "Áp dụng")
   const [localFilters, setLocalFilters] =
     useState<TaskFilterState>(initialFilters)
@@ -254,7 +261,9 @@ export const TaskFilterBottomSheet = forwardRef<
   // Count active filters (excluding sort which is always present)
   const activeFilterCount =
     (localFilters.status?.length || 0) +
+    (localFilters.workTypes?.length || 0) +
     (localFilters.assigneeIds?.length || 0) +
+    (localFilters.teamId ? 1 : 0) +
     (localFilters.createdFrom || localFilters.createdTo ? 1 : 0) +
     (localFilters.completedFrom || localFilters.completedTo ? 1 : 0)
 
@@ -299,6 +308,14 @@ export const TaskFilterBottomSheet = forwardRef<
                 selectedStatuses={localFilters.status || []}
               />
 
+              {/* Work Type Filter - Horizontal chips */}
+              <TaskWorkTypeFilter
+                onChangeSelectedWorkTypes={(workTypes) =>
+                  setLocalFilters((prev) => ({ ...prev, workTypes }))
+                }
+                selectedWorkTypes={localFilters.workTypes || []}
+              />
+
               {/* Date Filter Type Selector */}
               <View className="gap-2">
                 <Text className="font-sans-semibold text-muted-foreground text-sm">
@@ -427,6 +444,35 @@ export const TaskFilterBottomSheet = forwardRef<
                       </Text>
                     </View>
                   </Pressable>
+                  {teams.length > 0 && (
+                    <View
+                      className="flex-row flex-wrap gap-2"
+                      testID="task-filter-teams"
+                    >
+                      {teams.map((team) => {
+                        const isSelected = team.id === localFilters.teamId
+                        return (
+                          <Button
+                            accessibilityLabel={`Đội ${team.name}${isSelected ? ', đã chọn' : ''}`}
+                            accessibilityState={{ selected: isSelected }}
+                            key={team.id}
+                            onPress={() =>
+                              setLocalFilters((prev) => ({
+                                ...prev,
+                                teamId: isSelected ? undefined : team.id,
+                              }))
+                            }
+                            size="sm"
+                            testID={`task-filter-team-${team.id}`}
+                            variant={isSelected ? 'default' : 'outline'}
+                          >
+                            <Icon as={UsersIcon} className="size-4" />
+                            <Text>Đội {team.name}</Text>
+                          </Button>
+                        )
+                      })}
+                    </View>
+                  )}
                 </View>
               )}
 
@@ -0,0 +1,133 @@
+import { type FC, useRef } from 'react'
+import { StyleSheet, View } from 'react-native'
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps'
+import { useTaskLocationTrails } from '@/api/location/use-task-location-trails'
+import type { Task } from '@/api/task/use-task'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { formatDateTimeVN } from '@/lib/date-utils'
+
+// Refresh while the admin keeps the task open during a visit
+const TRAIL_REFRESH_INTERVAL_MS = 60 * 1000
+
+// One colour per worker, trail and latest position share it
+const WORKER_COLORS = ['#3b82f6', '#f97316', '#22c55e', '#a855f7', '#ef4444']
+
+const toCoordinate = ({ lat, lng }: { lat: number; lng: number }) => ({
+  latitude: lat,
+  longitude: lng,
+})
+
+export type TaskLocationTrailProps = {
+  task: Task
+}
+
+/**
+ * Workers' trails on a task and their latest known position (admin)
+ *
+ * Positions are recorded by the worker app during visits. Hidden until a
+ * worker on the task has a recorded position.
+ */
+export const TaskLocationTrail: FC<TaskLocationTrailProps> = ({ task }) => {
+  const mapRef = useRef<MapView>(null)
+  const { data } = useTaskLocationTrails(task.id, {
+    refetchInterval: TRAIL_REFRESH_INTERVAL_MS,
+  })
+
+  const workers = data?.workers.filter((worker) => worker.latest) ?? []
+  if (workers.length === 0) {
+    return null
+  }
+
+  const coordinates = workers.flatMap((worker) => [
+    ...worker.trail.map(toCoordinate),
+    ...(worker.latest ? [toCoordinate(worker.latest)] : []),
+  ])
+  const taskCoordinate = task.geoLocation
+    ? toCoordinate(task.geoLocation)
+    : null
+
+  return (
+    <Card className="bg-muted dark:border-white/20">
+      <CardHeader>
+        <CardTitle>Vị trí nhân viên</CardTitle>
+      </CardHeader>
+      <CardContent className="gap-3">
+        <View className="h-56 overflow-hidden rounded-lg">
+          <MapView
+            initialRegion={{
+              ...coordinates[coordinates.length - 1],
+              latitudeDelta: 0.02,
+              longitudeDelta: 0.02,
+            }}
+            onMapReady={() => {
+              mapRef.current?.fitToCoordinates(
+                taskCoordinate ? [...coordinates, taskCoordinate] : coordinates,
+                {
+                  edgePadding: { top: 40, right: 40, bottom: 40, left: 40 },
+                  animated: false,
+                },
+              )
+            }}
+            provider={PROVIDER_GOOGLE}
+            ref={mapRef}
+            style={styles.map}
+          >
+            {taskCoordinate && (
+              <Marker coordinate={taskCoordinate} title={task.title} />
+            )}
+            {workers.map((worker, index) => {
+              const color = WORKER_COLORS[index % WORKER_COLORS.length]
+              return [
+                worker.trail.length > 1 && (
+                  <Polyline
+                    coordinates={worker.trail.map(toCoordinate)}
+                    key={`${worker.userId}-trail`}
+                    strokeColor={color}
+                    strokeWidth={3}
+                  />
+                ),
+                worker.latest && (
+                  <Marker
+                    coordinate={toCoordinate(worker.latest)}
+                    key={`${worker.userId}-latest`}
+                    tracksViewChanges={false}
+                  >
+                    <View
+                      className="size-4 rounded-full border-2 border-white"
+                      style={{ backgroundColor: color }}
+                    />
+                  </Marker>
+                ),
+              ]
+            })}
+          </MapView>
+        </View>
+
+        {workers.map((worker, index) => (
+          <View className="flex-row items-center gap-2" key={worker.userId}>
+            <View
+              className="size-3 rounded-full"
+              style={{
+                backgroundColor: WORKER_COLORS[index % WORKER_COLORS.length],
+              }}
+            />
+            <UserFullName className="flex-1 text-sm" userId={worker.userId} />
+            {worker.latest && (
+              <Text className="text-muted-foreground text-xs">
+                {formatDateTimeVN(worker.latest.recordedAt)}
+              </Text>
+            )}
+          </View>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+})
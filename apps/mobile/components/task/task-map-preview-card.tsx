@@ -0,0 +1,95 @@
+import { ChevronRightIcon, MapPinIcon, XIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import type { TaskMapPin } from '@/api/task/use-task-map'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { TaskStatusBadge } from '@/components/ui/task-status-badge'
+import { Text } from '@/components/ui/text'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+export type TaskMapPreviewCardProps = {
+  task: TaskMapPin
+  onClose: () => void
+  onViewDetails: (taskId: number) => void
+}
+
+/**
+ * Preview of the task pin tapped on the admin map
+ */
+export const TaskMapPreviewCard: FC<TaskMapPreviewCardProps> = ({
+  task,
+  onClose,
+  onViewDetails,
+}) => {
+  const address = task.geoLocation?.name || task.geoLocation?.address
+
+  return (
+    <View
+      className="gap-2 rounded-lg border border-border bg-card p-3 shadow-lg"
+      testID="task-map-preview-card"
+    >
+      <View className="flex-row items-start gap-2">
+        <View className="flex-1 gap-1">
+          <Text className="text-muted-foreground text-xs">
+            {formatTaskId(task.id)}
+          </Text>
+          <Text className="font-sans-semibold" numberOfLines={2}>
+            {task.title}
+          </Text>
+        </View>
+        <Button
+          accessibilityLabel="Đóng xem trước"
+          className="w-8"
+          onPress={onClose}
+          size={null}
+          testID="task-map-preview-close"
+          variant={null}
+        >
+          <Icon as={XIcon} className="size-5 text-muted-foreground" />
+        </Button>
+      </View>
+
+      <View className="flex-row flex-wrap items-center gap-2">
+        <TaskStatusBadge status={task.status} />
+        {task.overdue && (
+          <Text className="font-sans-medium text-destructive text-xs">
+            Quá hạn
+          </Text>
+        )}
+      </View>
+
+      {task.customer?.name && (
+        <Text className="text-sm" numberOfLines={1}>
+          {task.customer.name}
+          {task.customer.phone ? ` · ${task.customer.phone}` : ''}
+        </Text>
+      )}
+
+      {address && (
+        <View className="flex-row items-center gap-1">
+          <Icon as={MapPinIcon} className="size-4 text-muted-foreground" />
+          <Text
+            className="flex-1 text-muted-foreground text-sm"
+            numberOfLines={2}
+          >
+            {address}
+          </Text>
+        </View>
+      )}
+
+      <Button
+        accessibilityHint="Điều hướng đến màn hình chi tiết công việc"
+        onPress={() => onViewDetails(task.id)}
+        size="sm"
+        testID="task-map-preview-view-button"
+      >
+        <Text>Xem chi tiết</Text>
+        <Icon
+          as={ChevronRightIcon}
+          className="size-4 text-primary-foreground"
+        />
+      </Button>
+    </View>
+  )
+}
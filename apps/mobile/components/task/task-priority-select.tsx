@@ -0,0 +1,62 @@
+import { TaskPriority } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import {
+  PRIORITY_COLORS,
+  PRIORITY_LABELS,
+} from '@/components/ui/task-priority-badge'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskPrioritySelectProps = {
+  value?: TaskPriority
+  onChange: (priority: TaskPriority) => void
+}
+
+const PRIORITY_OPTIONS = Object.values(TaskPriority)
+
+/**
+ * Single-select priority chips for task forms
+ */
+export const TaskPrioritySelect: FC<TaskPrioritySelectProps> = ({
+  value = TaskPriority.NORMAL,
+  onChange,
+}) => {
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {PRIORITY_OPTIONS.map((priority) => {
+        const isSelected = value === priority
+        const label = PRIORITY_LABELS[priority]
+
+        return (
+          <Pressable
+            accessibilityLabel={`${label}${isSelected ? ', đã chọn' : ''}`}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+            key={priority}
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              onChange(priority)
+            }}
+            testID={`priority-option-${priority}`}
+          >
+            <View
+              className={cn(
+                'flex-row items-center gap-2 rounded-full border px-3 py-2',
+                isSelected ? 'border-border bg-muted' : 'border-muted bg-card',
+              )}
+            >
+              <View
+                className={cn('size-2 rounded-full', PRIORITY_COLORS[priority])}
+              />
+              <Text className="font-sans-semibold text-foreground text-sm">
+                {label}
+              </Text>
+            </View>
+          </Pressable>
+        )
+      })}
+    </View>
+  )
+}
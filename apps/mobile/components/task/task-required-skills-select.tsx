@@ -0,0 +1,80 @@
+import type { TaskWorkType } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { ShieldCheckIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import type { Skill } from '@/api/skill/use-skills'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskRequiredSkillsSelectProps = {
+  skills: Skill[]
+  workType?: TaskWorkType | null
+  value?: string[]
+  onChange: (skillIds: string[]) => void
+}
+
+/**
+ * Multi-select skill chips for task forms
+ * Skills of the selected work type are always required, their chips are
+ * shown selected and cannot be toggled
+ */
+export const TaskRequiredSkillsSelect: FC<TaskRequiredSkillsSelectProps> = ({
+  skills,
+  workType,
+  value = [],
+  onChange,
+}) => {
+  if (skills.length === 0) {
+    return (
+      <Text className="text-muted-foreground text-sm">Chưa có kỹ năng nào</Text>
+    )
+  }
+
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {skills.map((skill) => {
+        const isFromWorkType = !!workType && skill.workTypes.includes(workType)
+        const isSelected = isFromWorkType || value.includes(skill.id)
+
+        return (
+          <Pressable
+            accessibilityLabel={`${skill.name}${isSelected ? ', đã chọn' : ''}${isFromWorkType ? ', theo loại công việc' : ''}`}
+            accessibilityRole="checkbox"
+            accessibilityState={{
+              checked: isSelected,
+              disabled: isFromWorkType,
+            }}
+            disabled={isFromWorkType}
+            key={skill.id}
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              onChange(
+                isSelected
+                  ? value.filter((id) => id !== skill.id)
+                  : [...value, skill.id],
+              )
+            }}
+            testID={`required-skill-option-${skill.id}`}
+          >
+            <View
+              className={cn(
+                'flex-row items-center gap-2 rounded-full border px-3 py-2',
+                isSelected ? 'border-border bg-muted' : 'border-muted bg-card',
+                isFromWorkType && 'opacity-70',
+              )}
+            >
+              {isSelected && (
+                <Icon as={ShieldCheckIcon} className="size-4 text-primary" />
+              )}
+              <Text className="font-sans-semibold text-foreground text-sm">
+                {skill.name}
+              </Text>
+            </View>
+          </Pressable>
+        )
+      })}
+    </View>
+  )
+}
@@ -0,0 +1,86 @@
+import { TriangleAlertIcon } from 'lucide-react-native'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import type { LeaveRequest } from '@/api/leave/use-leave-requests'
+import {
+  formatLeaveDays,
+  LEAVE_TYPE_LABELS,
+} from '@/components/leave/leave-request-card'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { formatDateTimeVN } from '@/lib/date-utils'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+export type TaskScheduleConflictWarningsProps = {
+  conflicts: {
+    userId: string
+    taskId: number
+    title: string
+    start: string
+    end: string
+  }[]
+  /** Approved leaves of the assignees on the task days */
+  leaves?: LeaveRequest[]
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+/**
+ * Assignees who already have an overlapping task in the planned window, or
+ * who are on leave that day
+ *
+ * Only a warning: the task can still be saved.
+ */
+export const TaskScheduleConflictWarnings: FC<
+  TaskScheduleConflictWarningsProps
+> = ({ conflicts, leaves = [] }) => {
+  if (conflicts.length === 0 && leaves.length === 0) {
+    return null
+  }
+
+  return (
+    <View
+      className="gap-2 rounded-lg bg-amber-500/10 p-3 dark:bg-amber-500/20"
+      testID="task-schedule-conflict-warnings"
+    >
+      {leaves.length > 0 && (
+        <View className="flex-row items-center gap-2">
+          <Icon as={TriangleAlertIcon} className="text-amber-600" size={16} />
+          <Text className="font-sans-medium text-amber-900 text-sm dark:text-amber-100">
+            Nhân viên đang nghỉ phép
+          </Text>
+        </View>
+      )}
+      {leaves.map((leave) => (
+        <View key={leave.id}>
+          <UserFullName className="text-sm" userId={leave.userId} />
+          <Text className="text-muted-foreground text-sm">
+            {LEAVE_TYPE_LABELS[leave.type]} · {formatLeaveDays(leave)}
+          </Text>
+        </View>
+      ))}
+      {conflicts.length > 0 && (
+        <View className="flex-row items-center gap-2">
+          <Icon as={TriangleAlertIcon} className="text-amber-600" size={16} />
+          <Text className="font-sans-medium text-amber-900 text-sm dark:text-amber-100">
+            Trùng lịch với công việc khác
+          </Text>
+        </View>
+      )}
+      {conflicts.map((conflict) => (
+        <View key={`${conflict.userId}-${conflict.taskId}`}>
+          <UserFullName className="text-sm" userId={conflict.userId} />
+          <Text className="text-muted-foreground text-sm">
+            #{formatTaskId(conflict.taskId)} {conflict.title} ·{' '}
+            {formatDateTimeVN(conflict.start)} - {formatTime(conflict.end)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  )
+}
@@ -0,0 +1,131 @@
+import DateTimePicker from '@react-native-community/datetimepicker'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { CalendarClockIcon, XIcon } from 'lucide-react-native'
+import { type FC, useState } from 'react'
+import { Platform, Pressable, View } from 'react-native'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskSlaDatePickerProps = {
+  value?: Date
+  onChange: (date?: Date) => void
+}
+
+/**
+ * SLA deadline picker
+ * The task is due by the end of the selected day
+ */
+export const TaskSlaDatePicker: FC<TaskSlaDatePickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const [showPicker, setShowPicker] = useState(false)
+
+  const handleChange = (event: { type: string }, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowPicker(false)
+    }
+
+    if (event.type === 'set' && selectedDate) {
+      impactAsync(ImpactFeedbackStyle.Light)
+      const endOfDay = new Date(selectedDate)
+      endOfDay.setHours(23, 59, 59, 0)
+      onChange(endOfDay)
+    }
+  }
+
+  const label = value
+    ? new Intl.DateTimeFormat('vi-VN', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+      }).format(value)
+    : 'Không có hạn'
+
+  return (
+    <View className="gap-2">
+      <View className="flex-row gap-2">
+        <Pressable
+          accessibilityHint="Chọn hạn hoàn thành công việc"
+          accessibilityLabel={`Hạn hoàn thành: ${label}`}
+          accessibilityRole="button"
+          className="flex-1"
+          onPress={() => {
+            impactAsync(ImpactFeedbackStyle.Light)
+            setShowPicker(true)
+          }}
+          testID="sla-date-picker-button"
+        >
+          <View
+            className={cn(
+              'flex-row items-center gap-2 rounded-lg border border-muted bg-card p-3',
+              value && 'border-primary',
+            )}
+          >
+            <Icon
+              as={CalendarClockIcon}
+              className={cn(
+                'size-5',
+                value ? 'text-primary' : 'text-muted-foreground',
+              )}
+            />
+            <Text
+              className={cn(
+                'flex-1 font-sans-medium',
+                value ? 'text-foreground' : 'text-muted-foreground',
+              )}
+            >
+              {label}
+            </Text>
+          </View>
+        </Pressable>
+
+        {value && (
+          <Button
+            accessibilityLabel="Xóa hạn hoàn thành"
+            className="aspect-square h-full"
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              onChange(undefined)
+            }}
+            size={null}
+            variant="outline"
+          >
+            <Icon as={XIcon} className="size-5 text-muted-foreground" />
+          </Button>
+        )}
+      </View>
+
+      {Platform.OS === 'ios' && showPicker && (
+        <View className="rounded-lg border border-muted bg-card p-2">
+          <DateTimePicker
+            display="spinner"
+            locale="vi-VN"
+            minimumDate={new Date()}
+            mode="date"
+            onChange={handleChange}
+            value={value || new Date()}
+          />
+          <Button
+            className="mt-2"
+            onPress={() => setShowPicker(false)}
+            variant="secondary"
+          >
+            <Text>Xong</Text>
+          </Button>
+        </View>
+      )}
+
+      {Platform.OS === 'android' && showPicker && (
+        <DateTimePicker
+          minimumDate={new Date()}
+          mode="date"
+          onChange={handleChange}
+          value={value || new Date()}
+        />
+      )}
+    </View>
+  )
+}
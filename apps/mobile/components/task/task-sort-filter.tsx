@@ -12,6 +12,9 @@ export type TaskSortBy =
   | 'updatedAt'
   | 'completedAt'
   | 'id'
+  | 'priority'
+  | 'slaDueAt'
+  | 'overdue'
 export type TaskSortOrder = 'asc' | 'desc'
 
 export type TaskSortFilterProps = {
@@ -27,6 +30,9 @@ const SORT_BY_OPTIONS: { value: TaskSortBy; label: string }[] = [
   { value: 'completedAt', label: 'Ngày hoàn thành' },
   { value: 'scheduledAt', label: 'Ngày hẹn' },
   { value: 'id', label: 'Mã công việc' },
+  { value: 'priority', label: 'Mức ưu tiên' },
+  { value: 'slaDueAt', label: 'Hạn hoàn thành' },
+  { value: 'overdue', label: 'Quá hạn trước' },
 ]
 
 const SORT_ORDER_OPTIONS: { value: TaskSortOrder; label: string }[] = [
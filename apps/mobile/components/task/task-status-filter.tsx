@@ -28,6 +28,7 @@ const STATUS_OPTIONS: { value: TaskStatus; label: string; color: string }[] = [
     label: 'Đã hoàn thành',
     color: 'bg-green-500',
   },
+  { value: TaskStatus.CANCELLED, label: 'Đã hủy', color: 'bg-red-500' },
 ]
 
 /**
@@ -0,0 +1,157 @@
+import { BottomSheetScrollView } from '@gorhom/bottom-sheet'
+import type { BottomSheetModalMethods } from '@gorhom/bottom-sheet/lib/typescript/types'
+import type { TaskStatusTransition } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import { type ForwardedRef, forwardRef, useState } from 'react'
+import { Alert, View } from 'react-native'
+import { BottomSheet } from '@/components/ui/bottom-sheet'
+import { Button } from '@/components/ui/button'
+import { Text } from '@/components/ui/text'
+import { Textarea } from '@/components/ui/textarea'
+
+export type TaskStatusTransitionSheetProps = {
+  transitions: TaskStatusTransition[]
+  onSelect: (transition: TaskStatusTransition, reason?: string) => void
+  isPending?: boolean
+}
+
+/**
+ * Bottom sheet listing the secondary status transitions of a task
+ * (hold, reopen, cancel...). Transitions that require a reason ask for it
+ * before confirming.
+ */
+export const TaskStatusTransitionSheet = forwardRef<
+  BottomSheetModalMethods,
+  TaskStatusTransitionSheetProps
+>(
+  (
+    { transitions, onSelect, isPending = false },
+    ref: ForwardedRef<BottomSheetModalMethods>,
+  ) => {
+    const [pendingTransition, setPendingTransition] =
+      useState<TaskStatusTransition | null>(null)
+    const [reason, setReason] = useState('')
+
+    const dismiss = () => {
+      setPendingTransition(null)
+      setReason('')
+      if (typeof ref !== 'function' && ref?.current) {
+        ref.current.dismiss()
+      }
+    }
+
+    const handleSelect = (transition: TaskStatusTransition) => {
+      impactAsync(ImpactFeedbackStyle.Light)
+
+      if (transition.requiredFields?.includes('reason')) {
+        setPendingTransition(transition)
+        return
+      }
+
+      if (transition.confirm) {
+        Alert.alert(
+          transition.confirm.title,
+          transition.confirm.message,
+          [
+            { text: 'Hủy', style: 'cancel' },
+            {
+              text: 'Xác nhận',
+              style: 'default',
+              onPress: () => {
+                onSelect(transition)
+                dismiss()
+              },
+            },
+          ],
+          { cancelable: true },
+        )
+        return
+      }
+
+      onSelect(transition)
+      dismiss()
+    }
+
+    const handleConfirmReason = () => {
+      if (!pendingTransition || !reason.trim()) {
+        return
+      }
+      impactAsync(ImpactFeedbackStyle.Medium)
+      onSelect(pendingTransition, reason.trim())
+      dismiss()
+    }
+
+    return (
+      <BottomSheet
+        enablePanDownToClose
+        onDismiss={() => {
+          setPendingTransition(null)
+          setReason('')
+        }}
+        ref={ref}
+        snapPoints={['50%', '75%']}
+      >
+        <BottomSheetScrollView
+          className="flex-1"
+          contentContainerClassName="gap-3 p-6"
+        >
+          {pendingTransition ? (
+            <>
+              <Text variant="h4">{pendingTransition.label}</Text>
+              <Textarea
+                accessibilityHint="Nhập lý do"
+                accessibilityLabel="Lý do"
+                isInBottomSheet
+                multiline
+                numberOfLines={4}
+                onChangeText={setReason}
+                placeholder="Nhập lý do"
+                testID="task-status-reason-input"
+                value={reason}
+              />
+              <View className="mt-2 flex-row gap-2">
+                <Button
+                  className="flex-1"
+                  disabled={isPending}
+                  onPress={() => setPendingTransition(null)}
+                  variant="outline"
+                >
+                  <Text>Quay lại</Text>
+                </Button>
+                <Button
+                  className="flex-1"
+                  disabled={isPending || !reason.trim()}
+                  onPress={handleConfirmReason}
+                  testID="task-status-reason-confirm"
+                  variant="destructive"
+                >
+                  <Text>Xác nhận</Text>
+                </Button>
+              </View>
+            </>
+          ) : (
+            <>
+              <Text variant="h4">Cập nhật trạng thái</Text>
+              {transitions.map((transition) => (
+                <Button
+                  accessibilityLabel={transition.label}
+                  disabled={isPending}
+                  key={transition.to}
+                  onPress={() => handleSelect(transition)}
+                  testID={`task-status-transition-${transition.to}`}
+                  variant={
+                    transition.requiredFields?.includes('reason')
+                      ? 'destructive'
+                      : 'outline'
+                  }
+                >
+                  <Text>{transition.label}</Text>
+                </Button>
+              ))}
+            </>
+          )}
+        </BottomSheetScrollView>
+      </BottomSheet>
+    )
+  },
+)
@@ -0,0 +1,74 @@
+import type { FC } from 'react'
+import { View } from 'react-native'
+import type { Task } from '@/api/task/use-task'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatHoldDuration } from '@/components/ui/task-hold-reason-badge'
+import { Text } from '@/components/ui/text'
+import { UserFullName } from '@/components/user-public-info'
+import { formatDateTimeVN } from '@/lib/date-utils'
+
+export type TaskVisitListProps = {
+  task: Task
+}
+
+/**
+ * Visits of a task (one per check-in / check-out pair)
+ *
+ * Only shown once the task has been visited more than once, a single visit is
+ * already covered by the activity feed.
+ */
+export const TaskVisitList: FC<TaskVisitListProps> = ({ task }) => {
+  const visits = task.visits ?? []
+
+  if (visits.length < 2) {
+    return null
+  }
+
+  return (
+    <Card className="bg-muted dark:border-white/20">
+      <CardHeader>
+        <CardTitle>Lượt làm việc ({visits.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="gap-3">
+        {visits.map((visit, index) => {
+          const durationMinutes = visit.checkedOutAt
+            ? Math.round(
+                (new Date(visit.checkedOutAt).getTime() -
+                  new Date(visit.checkedInAt).getTime()) /
+                  (60 * 1000),
+              )
+            : null
+
+          return (
+            <View
+              className="gap-1 rounded-lg border border-border bg-card p-3"
+              key={visit.id}
+            >
+              <View className="flex-row items-center justify-between">
+                <Text className="font-sans-medium">Lượt {index + 1}</Text>
+                <UserFullName className="text-sm" userId={visit.userId} />
+              </View>
+              <Text className="text-muted-foreground text-sm">
+                Bắt đầu: {formatDateTimeVN(visit.checkedInAt)}
+              </Text>
+              {visit.checkedOutAt ? (
+                <Text className="text-muted-foreground text-sm">
+                  Kết thúc: {formatDateTimeVN(visit.checkedOutAt)}
+                  {durationMinutes !== null &&
+                    ` (${formatHoldDuration(durationMinutes)})`}
+                </Text>
+              ) : (
+                <Text className="text-primary text-sm">Đang làm việc</Text>
+              )}
+              {visit.completedTask && (
+                <Text className="text-green-600 text-sm dark:text-green-400">
+                  Hoàn thành công việc
+                </Text>
+              )}
+            </View>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
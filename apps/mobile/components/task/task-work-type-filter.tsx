@@ -0,0 +1,80 @@
+import { TaskWorkType } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import {
+  WORK_TYPE_COLORS,
+  WORK_TYPE_LABELS,
+} from '@/components/ui/task-work-type-badge'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskWorkTypeFilterProps = {
+  selectedWorkTypes: TaskWorkType[]
+  onChangeSelectedWorkTypes: (workTypes: TaskWorkType[]) => void
+}
+
+const WORK_TYPE_OPTIONS = Object.values(TaskWorkType)
+
+/**
+ * Multi-select work type filter with horizontal chip layout
+ * Same look and behaviour as TaskStatusFilter
+ */
+export const TaskWorkTypeFilter: FC<TaskWorkTypeFilterProps> = ({
+  selectedWorkTypes,
+  onChangeSelectedWorkTypes,
+}) => {
+  const toggleWorkType = (workType: TaskWorkType) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+
+    if (selectedWorkTypes.includes(workType)) {
+      onChangeSelectedWorkTypes(selectedWorkTypes.filter((w) => w !== workType))
+    } else {
+      onChangeSelectedWorkTypes([...selectedWorkTypes, workType])
+    }
+  }
+
+  return (
+    <View className="gap-2">
+      <Text className="font-sans-semibold text-muted-foreground text-sm">
+        Loại công việc
+      </Text>
+      <View className="flex-row flex-wrap gap-2">
+        {WORK_TYPE_OPTIONS.map((workType) => {
+          const isSelected = selectedWorkTypes.includes(workType)
+          const label = WORK_TYPE_LABELS[workType]
+
+          return (
+            <Pressable
+              accessibilityHint={`${isSelected ? 'Bỏ chọn' : 'Chọn'} loại công việc ${label}`}
+              accessibilityLabel={`${label}${isSelected ? ', đã chọn' : ''}`}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isSelected }}
+              key={workType}
+              onPress={() => toggleWorkType(workType)}
+            >
+              <View
+                className={cn(
+                  'flex-row items-center gap-2 rounded-full border px-3 py-2',
+                  isSelected
+                    ? 'border-border bg-muted'
+                    : 'border-muted bg-card',
+                )}
+              >
+                <View
+                  className={cn(
+                    'size-2 rounded-full',
+                    WORK_TYPE_COLORS[workType],
+                  )}
+                />
+                <Text className="font-sans-semibold text-foreground text-sm">
+                  {label}
+                </Text>
+              </View>
+            </Pressable>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,66 @@
+import { TaskWorkType } from '@nv-internal/validation'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import type { FC } from 'react'
+import { Pressable, View } from 'react-native'
+import {
+  WORK_TYPE_COLORS,
+  WORK_TYPE_LABELS,
+} from '@/components/ui/task-work-type-badge'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+
+export type TaskWorkTypeSelectProps = {
+  value?: TaskWorkType | null
+  onChange: (workType: TaskWorkType | undefined) => void
+}
+
+const WORK_TYPE_OPTIONS = Object.values(TaskWorkType)
+
+/**
+ * Single-select work type chips for task forms
+ * Pressing the selected chip again clears the selection
+ */
+export const TaskWorkTypeSelect: FC<TaskWorkTypeSelectProps> = ({
+  value,
+  onChange,
+}) => {
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {WORK_TYPE_OPTIONS.map((workType) => {
+        const isSelected = value === workType
+        const label = WORK_TYPE_LABELS[workType]
+
+        return (
+          <Pressable
+            accessibilityLabel={`${label}${isSelected ? ', đã chọn' : ''}`}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+            key={workType}
+            onPress={() => {
+              impactAsync(ImpactFeedbackStyle.Light)
+              onChange(isSelected ? undefined : workType)
+            }}
+            testID={`work-type-option-${workType}`}
+          >
+            <View
+              className={cn(
+                'flex-row items-center gap-2 rounded-full border px-3 py-2',
+                isSelected ? 'border-border bg-muted' : 'border-muted bg-card',
+              )}
+            >
+              <View
+                className={cn(
+                  'size-2 rounded-full',
+                  WORK_TYPE_COLORS[workType],
+                )}
+              />
+              <Text className="font-sans-semibold text-foreground text-sm">
+                {label}
+              </Text>
+            </View>
+          </Pressable>
+        )
+      })}
+    </View>
+  )
+}
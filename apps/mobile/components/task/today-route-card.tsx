@@ -0,0 +1,218 @@
+import { format } from 'date-fns'
+import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
+import * as Location from 'expo-location'
+import { NavigationIcon, RouteIcon } from 'lucide-react-native'
+import { type FC, useEffect, useState } from 'react'
+import { ActivityIndicator, Linking, Pressable, View } from 'react-native'
+import {
+  useWorkerRoute,
+  type WorkerRouteStop,
+} from '@/api/task/use-worker-route'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Text } from '@/components/ui/text'
+import { cn } from '@/lib/utils'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+// Google Maps directions links accept at most 9 waypoints
+const MAX_DIRECTIONS_WAYPOINTS = 9
+
+type Origin = { lat: number; lng: number }
+
+const formatKm = (meters: number) =>
+  `${(meters / 1000).toLocaleString('vi-VN', { maximumFractionDigits: 1 })} km`
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const toLatLng = ({ geoLocation }: WorkerRouteStop) =>
+  `${geoLocation?.lat},${geoLocation?.lng}`
+
+/** Directions from the current position to one stop */
+const getStopDirectionsUrl = (stop: WorkerRouteStop) =>
+  `https://www.google.com/maps/dir/?api=1&destination=${toLatLng(stop)}&travelmode=driving`
+
+/** Directions through the stops in order, from the current position */
+const getRouteDirectionsUrl = (stops: WorkerRouteStop[]) => {
+  const visited = stops.slice(0, MAX_DIRECTIONS_WAYPOINTS + 1)
+  const destination = visited[visited.length - 1]
+  const waypoints = visited.slice(0, -1).map(toLatLng).join('|')
+
+  return `https://www.google.com/maps/dir/?api=1&destination=${toLatLng(destination)}${
+    waypoints ? `&waypoints=${encodeURIComponent(waypoints)}` : ''
+  }&travelmode=driving`
+}
+
+/**
+ * Last known position when location permission was already granted
+ *
+ * The home screen never asks for permission, the route then starts at the
+ * first task. Resolves to null when the position is not available.
+ */
+function useLastKnownOrigin() {
+  const [origin, setOrigin] = useState<Origin | null | undefined>(undefined)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const resolveOrigin = async () => {
+      try {
+        const { status } = await Location.getForegroundPermissionsAsync()
+        const position =
+          status === 'granted'
+            ? await Location.getLastKnownPositionAsync()
+            : null
+        if (!cancelled) {
+          setOrigin(
+            position
+              ? {
+                  lat: position.coords.latitude,
+                  lng: position.coords.longitude,
+                }
+              : null,
+          )
+        }
+      } catch {
+        if (!cancelled) {
+          setOrigin(null)
+        }
+      }
+    }
+
+    resolveOrigin()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return origin
+}
+
+export type TodayRouteCardProps = {
+  onPressTask: (taskId: number) => void
+}
+
+/**
+ * Today's route on the worker home screen
+ *
+ * The worker's tasks scheduled today in the suggested visiting order, with a
+ * link to open each stop (or the whole route) in Google Maps. Hidden when
+ * nothing is scheduled.
+ */
+export const TodayRouteCard: FC<TodayRouteCardProps> = ({ onPressTask }) => {
+  const origin = useLastKnownOrigin()
+  const { data: route, isLoading } = useWorkerRoute(
+    {
+      date: format(new Date(), 'yyyy-MM-dd'),
+      lat: origin?.lat,
+      lng: origin?.lng,
+    },
+    { enabled: origin !== undefined },
+  )
+
+  if (origin === undefined || isLoading) {
+    return (
+      <View className="mb-2 rounded-lg border border-border bg-card p-3">
+        <ActivityIndicator />
+      </View>
+    )
+  }
+
+  if (
+    !route ||
+    (route.stops.length === 0 && route.unroutedTasks.length === 0)
+  ) {
+    return null
+  }
+
+  const openUrl = (url: string) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    Linking.openURL(url)
+  }
+
+  return (
+    <View
+      className="mb-2 gap-2 rounded-lg border border-border bg-card p-3"
+      testID="today-route-card"
+    >
+      <View className="flex-row items-center justify-between gap-2">
+        <View className="flex-1 flex-row items-center gap-2">
+          <Icon as={RouteIcon} className="size-5 text-primary" />
+          <View className="flex-1">
+            <Text className="font-sans-semibold">Lộ trình hôm nay</Text>
+            <Text className="text-muted-foreground text-xs">
+              {route.stops.length} điểm · {formatKm(route.totalDistanceMeters)}{' '}
+              · ~{route.totalTravelMinutes} phút di chuyển
+            </Text>
+          </View>
+        </View>
+        {route.stops.length > 0 && (
+          <Button
+            accessibilityHint="Mở Google Maps với các điểm theo thứ tự"
+            accessibilityLabel="Chỉ đường cả lộ trình"
+            onPress={() => openUrl(getRouteDirectionsUrl(route.stops))}
+            size="sm"
+            testID="today-route-directions-button"
+            variant="outline"
+          >
+            <Icon as={NavigationIcon} className="size-4" />
+            <Text>Đi</Text>
+          </Button>
+        )}
+      </View>
+
+      {route.stops.map((stop) => (
+        <View className="flex-row items-center gap-2" key={stop.id}>
+          <View className="size-6 items-center justify-center rounded-full bg-primary">
+            <Text className="font-sans-bold text-primary-foreground text-xs">
+              {stop.order}
+            </Text>
+          </View>
+          <Pressable
+            accessibilityLabel={`Điểm ${stop.order}: ${stop.title}`}
+            accessibilityRole="button"
+            className="flex-1 active:opacity-70"
+            onPress={() => onPressTask(stop.id)}
+            testID={`today-route-stop-${stop.id}`}
+          >
+            <Text className="font-sans-medium" numberOfLines={1}>
+              {formatTaskId(stop.id)} · {stop.title}
+            </Text>
+            <Text
+              className={cn('text-muted-foreground text-xs', {
+                'text-destructive': stop.leg.lateMinutes > 0,
+              })}
+              numberOfLines={1}
+            >
+              {stop.window ? `${formatTime(stop.window.start)} · ` : ''}
+              {formatKm(stop.leg.distanceMeters)} · ~{stop.leg.travelMinutes}{' '}
+              phút
+              {stop.leg.lateMinutes > 0 &&
+                ` · trễ ${stop.leg.lateMinutes} phút`}
+            </Text>
+          </Pressable>
+          <Button
+            accessibilityLabel={`Chỉ đường đến ${stop.title}`}
+            className="w-10"
+            onPress={() => openUrl(getStopDirectionsUrl(stop))}
+            size={null}
+            testID={`today-route-stop-${stop.id}-directions`}
+            variant={null}
+          >
+            <Icon as={NavigationIcon} className="size-5 text-primary" />
+          </Button>
+        </View>
+      ))}
+
+      {route.unroutedTasks.length > 0 && (
+        <Text className="text-muted-foreground text-xs">
+          {route.unroutedTasks.length} công việc chưa có vị trí, không có trong
+          lộ trình
+        </Text>
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,98 @@
+import { format } from 'date-fns'
+import { ClockAlertIcon } from 'lucide-react-native'
+import { type FC, useState } from 'react'
+import { View } from 'react-native'
+import {
+  type UnpairedVisit,
+  useCorrectTaskVisit,
+} from '@/api/reports/use-timesheet'
+import { TaskDateTimePicker } from '@/components/task/task-date-time-picker'
+import { Button } from '@/components/ui/button'
+import { Icon } from '@/components/ui/icon'
+import { Input } from '@/components/ui/input'
+import { Text } from '@/components/ui/text'
+import { formatTaskId } from '@/utils/task-id-helper'
+
+export type UnpairedVisitCardProps = {
+  visit: UnpairedVisit
+  taskTitle?: string
+}
+
+/**
+ * A visit without a check-out in the timesheet, with the admin correction
+ *
+ * The admin enters when the worker actually left and why, the visit then
+ * counts in the timesheet.
+ */
+export const UnpairedVisitCard: FC<UnpairedVisitCardProps> = ({
+  visit,
+  taskTitle,
+}) => {
+  const { mutate: correctVisit, isPending } = useCorrectTaskVisit()
+  const [checkedOutAt, setCheckedOutAt] = useState<Date>()
+  const [reason, setReason] = useState('')
+
+  const checkedInAt = new Date(visit.checkedInAt)
+  const isValid =
+    !!checkedOutAt &&
+    checkedOutAt > checkedInAt &&
+    checkedOutAt <= new Date() &&
+    reason.trim().length > 0
+
+  return (
+    <View
+      className="gap-2 rounded-lg border border-border bg-card p-3"
+      testID={`unpaired-visit-${visit.visitId}`}
+    >
+      <View className="flex-row items-center gap-2">
+        <Icon as={ClockAlertIcon} className="size-4 text-amber-600" />
+        <Text className="flex-1 font-sans-semibold text-amber-700 dark:text-amber-400">
+          {visit.ongoing ? 'Đang làm việc' : 'Thiếu check-out'}
+        </Text>
+        <Text className="text-muted-foreground text-xs">
+          Vào {format(checkedInAt, 'HH:mm dd/MM/yyyy')}
+        </Text>
+      </View>
+      <Text className="font-sans-medium" numberOfLines={1}>
+        {formatTaskId(visit.taskId)}
+        {taskTitle ? ` · ${taskTitle}` : ''}
+      </Text>
+
+      {!visit.ongoing && (
+        <>
+          <TaskDateTimePicker
+            minimumDate={checkedInAt}
+            onChange={setCheckedOutAt}
+            placeholder="Giờ check-out thực tế"
+            testID={`unpaired-visit-${visit.visitId}-time`}
+            value={checkedOutAt}
+          />
+          <Input
+            accessibilityLabel="Lý do chỉnh sửa"
+            editable={!isPending}
+            onChangeText={setReason}
+            placeholder="Lý do (ví dụ: quên check-out, khách xác nhận giờ về)"
+            testID={`unpaired-visit-${visit.visitId}-reason`}
+            value={reason}
+          />
+          <Button
+            disabled={!isValid || isPending}
+            onPress={() =>
+              checkedOutAt &&
+              correctVisit({
+                id: visit.visitId,
+                checkedOutAt: checkedOutAt.toISOString(),
+                reason: reason.trim(),
+              })
+            }
+            size="sm"
+            testID={`unpaired-visit-${visit.visitId}-submit`}
+            variant="outline"
+          >
+            <Text>{isPending ? 'Đang lưu...' : 'Lưu giờ check-out'}</Text>
+          </Button>
+        </>
+      )}
+    </View>
+  )
+}
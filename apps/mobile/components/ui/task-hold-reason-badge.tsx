@@ -0,0 +1,54 @@
+import { TaskHoldReason } from '@nv-internal/validation'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import { cn } from '@/lib/utils'
+import { Text } from './text'
+
+export const HOLD_REASON_LABELS: Record<TaskHoldReason, string> = {
+  [TaskHoldReason.WAITING_FOR_PARTS]: 'Chờ linh kiện',
+  [TaskHoldReason.CUSTOMER_ABSENT]: 'Khách hàng vắng nhà',
+  [TaskHoldReason.NEEDS_SECOND_VISIT]: 'Cần quay lại lần sau',
+}
+
+export const HOLD_REASON_DESCRIPTIONS: Record<TaskHoldReason, string> = {
+  [TaskHoldReason.WAITING_FOR_PARTS]: 'Cần chờ linh kiện, vật tư để tiếp tục',
+  [TaskHoldReason.CUSTOMER_ABSENT]:
+    'Không liên lạc được hoặc khách không có nhà',
+  [TaskHoldReason.NEEDS_SECOND_VISIT]: 'Công việc cần thêm một lần đến nữa',
+}
+
+/**
+ * Format a hold duration in minutes as "1 giờ 5 phút"
+ */
+export function formatHoldDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) {
+    return `${rest} phút`
+  }
+  return rest === 0 ? `${hours} giờ` : `${hours} giờ ${rest} phút`
+}
+
+export type TaskHoldReasonBadgeProps = {
+  reason: TaskHoldReason
+  className?: string
+}
+
+export const TaskHoldReasonBadge: FC<TaskHoldReasonBadgeProps> = ({
+  reason,
+  className,
+}) => {
+  return (
+    <View
+      className={cn(
+        'flex flex-row items-center gap-1 self-start rounded-full border border-border px-2 py-1',
+        className,
+      )}
+    >
+      <View className="size-1.5 rounded-full bg-amber-500" />
+      <Text className="-my-[1px] font-sans-medium text-xs">
+        {HOLD_REASON_LABELS[reason]}
+      </Text>
+    </View>
+  )
+}
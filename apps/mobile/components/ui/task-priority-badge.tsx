@@ -0,0 +1,64 @@
+import { TaskPriority } from '@nv-internal/validation'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import { cn } from '@/lib/utils'
+import { Text } from './text'
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: 'Thấp',
+  [TaskPriority.NORMAL]: 'Bình thường',
+  [TaskPriority.HIGH]: 'Cao',
+  [TaskPriority.URGENT]: 'Khẩn cấp',
+}
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: 'bg-slate-400',
+  [TaskPriority.NORMAL]: 'bg-blue-500',
+  [TaskPriority.HIGH]: 'bg-amber-500',
+  [TaskPriority.URGENT]: 'bg-red-500',
+}
+
+export type TaskPriorityBadgeProps = {
+  priority: TaskPriority
+  className?: string
+}
+
+export const TaskPriorityBadge: FC<TaskPriorityBadgeProps> = ({
+  priority,
+  className,
+}) => {
+  return (
+    <View
+      className={cn(
+        'flex flex-row items-center gap-1 self-start rounded-full border border-border px-2 py-1',
+        className,
+      )}
+    >
+      <View
+        className={cn('size-1.5 rounded-full', PRIORITY_COLORS[priority])}
+      />
+      <Text className="-my-[1px] font-sans-medium text-xs">
+        {PRIORITY_LABELS[priority]}
+      </Text>
+    </View>
+  )
+}
+
+export type TaskOverdueBadgeProps = {
+  className?: string
+}
+
+export const TaskOverdueBadge: FC<TaskOverdueBadgeProps> = ({ className }) => {
+  return (
+    <View
+      className={cn(
+        'self-start rounded-full border border-destructive/30 bg-destructive/10 px-2 py-1',
+        className,
+      )}
+    >
+      <Text className="-my-[1px] font-sans-medium text-destructive text-xs">
+        Quá hạn
+      </Text>
+    </View>
+  )
+}
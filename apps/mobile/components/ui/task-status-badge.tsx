@@ -42,6 +42,11 @@ export const TaskStatusBadge: FC<TaskStatusBadgeProps> = ({
         iconColor: 'text-gray-500',
         borderColor: 'border-gray-500',
       },
+      [Status.CANCELLED]: {
+        text: 'Đã hủy',
+        iconColor: 'text-red-500',
+        borderColor: 'border-red-500',
+      },
     }[status]
   }, [status])
 
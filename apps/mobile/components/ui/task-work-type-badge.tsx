@@ -0,0 +1,43 @@
+import { TaskWorkType } from '@nv-internal/validation'
+import type { FC } from 'react'
+import { View } from 'react-native'
+import { cn } from '@/lib/utils'
+import { Text } from './text'
+
+export const WORK_TYPE_LABELS: Record<TaskWorkType, string> = {
+  [TaskWorkType.INSTALLATION]: 'Lắp đặt',
+  [TaskWorkType.REPAIR]: 'Sửa chữa',
+  [TaskWorkType.MAINTENANCE]: 'Bảo trì',
+}
+
+export const WORK_TYPE_COLORS: Record<TaskWorkType, string> = {
+  [TaskWorkType.INSTALLATION]: 'bg-indigo-500',
+  [TaskWorkType.REPAIR]: 'bg-orange-500',
+  [TaskWorkType.MAINTENANCE]: 'bg-teal-500',
+}
+
+export type TaskWorkTypeBadgeProps = {
+  workType: TaskWorkType
+  className?: string
+}
+
+export const TaskWorkTypeBadge: FC<TaskWorkTypeBadgeProps> = ({
+  workType,
+  className,
+}) => {
+  return (
+    <View
+      className={cn(
+        'flex flex-row items-center gap-1 self-start rounded-full border border-border px-2 py-1',
+        className,
+      )}
+    >
+      <View
+        className={cn('size-1.5 rounded-full', WORK_TYPE_COLORS[workType])}
+      />
+      <Text className="-my-[1px] font-sans-medium text-xs">
+        {WORK_TYPE_LABELS[workType]}
+      </Text>
+    </View>
+  )
+}
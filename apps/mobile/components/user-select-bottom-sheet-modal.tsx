@@ -1,6 +1,13 @@
 import { BottomSheetFlatList, BottomSheetView } from '@gorhom/bottom-sheet'
+import { format, parseISO } from 'date-fns'
 import { ImpactFeedbackStyle, impactAsync } from 'expo-haptics'
-import { CheckIcon } from 'lucide-react-native'
+import {
+  CheckIcon,
+  ShieldAlertIcon,
+  SparklesIcon,
+  TreePalmIcon,
+  UsersIcon,
+} from 'lucide-react-native'
 import { type FC, useState } from 'react'
 import {
   ActivityIndicator,
@@ -8,6 +15,15 @@ import {
   RefreshControl,
   View,
 } from 'react-native'
+import type { LeaveRequest } from '@/api/leave/use-leave-requests'
+import {
+  getSkillIssues,
+  type Skill,
+  type SkillIssue,
+  type WorkerCertificate,
+} from '@/api/skill/use-skills'
+import type { AssigneeSuggestion } from '@/api/task/use-suggested-assignees'
+import { type Team, useTeams } from '@/api/team/use-teams'
 import { useUserList } from '@/api/user/use-user-list'
 import { useUserSearch } from '@/hooks/use-user-search'
 import { cn } from '@/lib/utils'
@@ -17,28 +33,109 @@ import {
   getUserRoles,
   isUserBanned,
 } from '@/utils/user-helper'
+import { formatLeaveDays, LEAVE_TYPE_LABELS } from './leave/leave-request-card'
 import { Button } from './ui/button'
 import { Icon } from './ui/icon'
 import { SearchBox } from './ui/search-box'
 import { Text } from './ui/text'
 import { UserRoleBadge } from './user-role-badge'
 
+// Only the best few, the full list is right below
+const MAX_VISIBLE_SUGGESTIONS = 3
+
 export type UserSelectBottomSheetModalProps = {
   selectedUserIds: string[]
   onChangeSelectedUserIds: (userIds: string[]) => void
   onCancel?: () => void
   onSave?: () => void
+  /** Ranked assignee suggestions shown above the list */
+  suggestions?: AssigneeSuggestion[]
+  isLoadingSuggestions?: boolean
+  /** Approved leaves on the task days, flags the workers who are away */
+  leaves?: LeaveRequest[]
+  /** Team assigned along with the users, picking a team selects its members */
+  selectedTeamId?: string | null
+  onChangeSelectedTeamId?: (teamId: string | null) => void
+  /**
+   * Skills the task requires and the workers' certificates, flags the
+   * workers missing one or whose certificate expired before `skillDate`
+   */
+  requiredSkills?: Skill[]
+  certificates?: WorkerCertificate[]
+  skillDate?: string // YYYY-MM-DD, today by default
+}
+
+/** "Thiếu Gas R32" or "Gas R32 hết hạn 30/06/2026" */
+function formatSkillIssue(issue: SkillIssue) {
+  return issue.reason === 'MISSING'
+    ? `Thiếu ${issue.skill.name}`
+    : `${issue.skill.name} hết hạn ${format(parseISO(issue.expiryDate ?? ''), 'dd/MM/yyyy')}`
 }
 
 export const UserSelectBottomSheetModal: FC<
   UserSelectBottomSheetModalProps
-> = ({ selectedUserIds, onChangeSelectedUserIds, onCancel, onSave }) => {
+> = ({
+  selectedUserIds,
+  onChangeSelectedUserIds,
+  onCancel,
+  onSave,
+  suggestions,
+  isLoadingSuggestions,
+  leaves,
+  selectedTeamId,
+  onChangeSelectedTeamId,
+  requiredSkills = [],
+  certificates = [],
+  skillDate = format(new Date(), 'yyyy-MM-dd'),
+}) => {
   const [searchText, setSearchText] = useState('')
   const { data, isLoading, refetch, isRefetching } = useUserList()
+  const { data: teams = [] } = useTeams({ enabled: !!onChangeSelectedTeamId })
+  const selectedTeam = teams.find((team) => team.id === selectedTeamId)
 
   // Use Fuse.js for fuzzy search with accent-insensitive matching
   const users = useUserSearch(data, searchText)
 
+  const leaveByUserId = new Map(
+    (leaves ?? []).map((leave) => [leave.userId, leave]),
+  )
+
+  const toggleUser = (userId: string) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    const isDeselected = selectedUserIds.includes(userId)
+    const newSelectedUserIds = isDeselected
+      ? selectedUserIds.filter((id) => id !== userId)
+      : [...selectedUserIds, userId]
+    onChangeSelectedUserIds(newSelectedUserIds)
+    // Without one of its members, the task is no longer the team's
+    if (isDeselected && selectedTeam?.memberIds.includes(userId)) {
+      onChangeSelectedTeamId?.(null)
+    }
+  }
+
+  // Picking a team swaps the members of the previous one for its own
+  const toggleTeam = (team: Team) => {
+    impactAsync(ImpactFeedbackStyle.Light)
+    const otherUserIds = selectedTeam
+      ? selectedUserIds.filter((id) => !selectedTeam.memberIds.includes(id))
+      : selectedUserIds
+    if (team.id === selectedTeamId) {
+      onChangeSelectedTeamId?.(null)
+      onChangeSelectedUserIds(otherUserIds)
+      return
+    }
+    onChangeSelectedTeamId?.(team.id)
+    onChangeSelectedUserIds([...new Set([...team.memberIds, ...otherUserIds])])
+  }
+  const showTeams = !!onChangeSelectedTeamId && !searchText && teams.length > 0
+
+  // Suggestions get in the way while looking for someone specific
+  const visibleSuggestions = searchText
+    ? []
+    : (suggestions ?? []).slice(0, MAX_VISIBLE_SUGGESTIONS)
+  const showSuggestions =
+    !searchText && (isLoadingSuggestions || visibleSuggestions.length > 0)
+
   return (
     <BottomSheetView className="flex-1 gap-2 px-4">
       <SearchBox
@@ -50,6 +147,30 @@ export const UserSelectBottomSheetModal: FC<
         testID="assignee-search-input"
       />
       {isLoading && <ActivityIndicator className="my-1" />}
+      {showTeams && (
+        <View className="flex-row flex-wrap gap-2" testID="assignee-teams">
+          {teams.map((team) => {
+            const isSelected = team.id === selectedTeamId
+            return (
+              <Button
+                accessibilityHint={`${isSelected ? 'Bỏ chọn' : 'Chọn'} ${team.memberIds.length} thành viên của đội`}
+                accessibilityLabel={`Đội ${team.name}${isSelected ? ', đã chọn' : ''}`}
+                accessibilityState={{ selected: isSelected }}
+                key={team.id}
+                onPress={() => toggleTeam(team)}
+                size="sm"
+                testID={`assignee-team-${team.id}`}
+                variant={isSelected ? 'default' : 'outline'}
+              >
+                <Icon as={UsersIcon} className="size-4" />
+                <Text>
+                  {team.name} ({team.memberIds.length})
+                </Text>
+              </Button>
+            )
+          })}
+        </View>
+      )}
       {/*
         IMPORTANT: Use BottomSheetFlatList from @gorhom/bottom-sheet for scrolling within bottom sheets.
         Regular FlatList from react-native does NOT work properly in bottom sheets.
@@ -60,27 +181,80 @@ export const UserSelectBottomSheetModal: FC<
         contentContainerStyle={{ paddingBottom: 16 }}
         data={users}
         keyExtractor={(item: (typeof users)[number]) => item.id}
+        ListHeaderComponent={
+          showSuggestions ? (
+            <View
+              className="mb-2 gap-1 rounded-lg bg-muted/50 p-2"
+              testID="assignee-suggestions"
+            >
+              <View className="flex-row items-center gap-1">
+                <Icon as={SparklesIcon} className="size-4 text-primary" />
+                <Text className="font-sans-medium text-primary text-sm">
+                  Gợi ý
+                </Text>
+              </View>
+              {isLoadingSuggestions && <ActivityIndicator className="my-1" />}
+              {visibleSuggestions.map((suggestion) => {
+                const isSelected = selectedUserIds.includes(suggestion.userId)
+                const fullName =
+                  `${suggestion.lastName ?? ''} ${suggestion.firstName ?? ''}`.trim()
+
+                return (
+                  <Pressable
+                    accessibilityHint={`${isSelected ? 'Bỏ chọn' : 'Chọn'} nhân viên ${fullName}`}
+                    accessibilityLabel={`Gợi ý ${suggestion.rank}: ${fullName}${isSelected ? ', đã chọn' : ''}`}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: isSelected }}
+                    className="flex-row items-center justify-between gap-2 rounded-lg px-2 py-1 active:bg-muted"
+                    key={suggestion.userId}
+                    onPress={() => toggleUser(suggestion.userId)}
+                    testID={`assignee-suggestion-${suggestion.userId}-item`}
+                  >
+                    <View className="flex-1">
+                      <Text className="font-semibold">
+                        {suggestion.rank}. {fullName}
+                      </Text>
+                      <Text
+                        className="text-muted-foreground text-xs"
+                        numberOfLines={2}
+                      >
+                        {suggestion.reasons.join(' · ')}
+                      </Text>
+                    </View>
+                    <Icon
+                      as={CheckIcon}
+                      className={cn('size-6 text-primary opacity-0', {
+                        'opacity-100': isSelected,
+                      })}
+                    />
+                  </Pressable>
+                )
+              })}
+            </View>
+          ) : null
+        }
         refreshControl={
           <RefreshControl onRefresh={refetch} refreshing={isRefetching} />
         }
         renderItem={({ item }: { item: (typeof users)[number] }) => {
           const isSelected = selectedUserIds.includes(item.id)
           const fullName = `${item.lastName} ${item.firstName}`
+          const leave = leaveByUserId.get(item.id)
+          const skillIssues = getSkillIssues({
+            userId: item.id,
+            requiredSkills,
+            certificates,
+            date: skillDate,
+          })
 
           return (
             <Pressable
               accessibilityHint={`${isSelected ? 'Bỏ chọn' : 'Chọn'} nhân viên ${fullName}`}
-              accessibilityLabel={`${fullName}${isSelected ? ', đã chọn' : ''}`}
+              accessibilityLabel={`${fullName}${leave ? ', đang nghỉ phép' : ''}${skillIssues.length > 0 ? ', chưa đủ chứng chỉ' : ''}${isSelected ? ', đã chọn' : ''}`}
               accessibilityRole="checkbox"
               accessibilityState={{ checked: isSelected }}
               className="flex-row items-center justify-between gap-2 rounded-lg border-muted border-b px-2 active:bg-muted"
-              onPress={() => {
-                impactAsync(ImpactFeedbackStyle.Light)
-                const newSelectedUserIds = selectedUserIds.includes(item.id)
-                  ? selectedUserIds.filter((id) => id !== item.id)
-                  : [...selectedUserIds, item.id]
-                onChangeSelectedUserIds(newSelectedUserIds)
-              }}
+              onPress={() => toggleUser(item.id)}
               testID={`assignee-user-${item.id}-item`}
             >
               <View className="py-2">
@@ -103,6 +277,31 @@ export const UserSelectBottomSheetModal: FC<
                 <Text className="text-muted-foreground text-sm">
                   {formatPhoneNumber(getUserPhoneNumber(item))}
                 </Text>
+                {leave && (
+                  <View
+                    className="flex-row items-center gap-1"
+                    testID={`assignee-user-${item.id}-leave`}
+                  >
+                    <Icon as={TreePalmIcon} className="size-3 text-amber-600" />
+                    <Text className="text-amber-700 text-xs dark:text-amber-400">
+                      {LEAVE_TYPE_LABELS[leave.type]} · {formatLeaveDays(leave)}
+                    </Text>
+                  </View>
+                )}
+                {skillIssues.length > 0 && (
+                  <View
+                    className="flex-row items-center gap-1"
+                    testID={`assignee-user-${item.id}-skills`}
+                  >
+                    <Icon
+                      as={ShieldAlertIcon}
+                      className="size-3 text-destructive"
+                    />
+                    <Text className="flex-shrink text-destructive text-xs">
+                      {skillIssues.map(formatSkillIssue).join(' · ')}
+                    </Text>
+                  </View>
+                )}
               </View>
               <Icon
                 as={CheckIcon}
@@ -4,16 +4,23 @@ import { useQueryClient } from '@tanstack/react-query'
 import { Link, useRouter } from 'expo-router'
 import * as SecureStore from 'expo-secure-store'
 import {
+  CalendarCheckIcon,
+  CalendarXIcon,
   ChartBarIcon,
   ChevronRightIcon,
   CrownIcon,
   HardHatIcon,
   LogOutIcon,
+  MapPinCheckIcon,
+  MapPinOffIcon,
   Repeat2Icon,
+  ShieldCheckIcon,
   ShieldUserIcon,
   SquareAsteriskIcon,
   SunMoonIcon,
   TrashIcon,
+  TreePalmIcon,
+  UsersIcon,
 } from 'lucide-react-native'
 import { type FC, useState } from 'react'
 import { Alert, View } from 'react-native'
@@ -195,6 +202,66 @@ export const UserSettingsScreen: FC<UserSettingsProps> = ({ isAdminView }) => {
               rightIcon={ChevronRightIcon}
             />
           </Link>
+          <Link asChild href="/admin/attendance">
+            <MenuItem
+              label="Bảng điểm danh"
+              leftIcon={CalendarCheckIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/leave">
+            <MenuItem
+              label="Duyệt nghỉ phép"
+              leftIcon={TreePalmIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/holidays">
+            <MenuItem
+              label="Ngày nghỉ lễ"
+              leftIcon={CalendarXIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/teams">
+            <MenuItem
+              label="Đội"
+              leftIcon={UsersIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/skills">
+            <MenuItem
+              label="Kỹ năng & chứng chỉ"
+              leftIcon={ShieldCheckIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/task-events/flags">
+            <MenuItem
+              label="Chấm công cần xem xét"
+              leftIcon={MapPinOffIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+          <Link asChild href="/admin/settings/check-in">
+            <MenuItem
+              label="Cài đặt check-in"
+              leftIcon={MapPinCheckIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
+        </MenuGroup>
+      )}
+      {!isAdminView && (
+        <MenuGroup>
+          <Link asChild href="/worker/leave">
+            <MenuItem
+              label="Nghỉ phép"
+              leftIcon={TreePalmIcon}
+              rightIcon={ChevronRightIcon}
+            />
+          </Link>
         </MenuGroup>
       )}
       {/* Module switcher - show for users with ADMIN role (who can switch to worker view) */}
@@ -4,7 +4,7 @@ import type { InvoiceFile } from '@/components/payment/invoice-photo-capture'
 import { toast } from '@/components/ui/toasts'
 import { queryClient } from '@/lib/api-client'
 import { getApiUrl } from '@/lib/env'
-import { useTaskEvent } from './use-task-event'
+import { appendTaskEventLocation, useTaskEvent } from './use-task-event'
 
 /**
  * Payment collection state for checkout
@@ -19,6 +19,9 @@ export interface PaymentCollectionState {
 /**
  * Extended hook for checkout with payment collection
  * Wraps useTaskEvent with additional payment-specific state and logic
+ *
+ * Multi-visit jobs: with `completeTask` off the check-out only ends the
+ * current visit, the task stays in progress and no payment is collected.
  */
 export function useCheckoutWithPayment(taskId: number) {
   const taskEvent = useTaskEvent(taskId, 'check-out')
@@ -32,6 +35,9 @@ export function useCheckoutWithPayment(taskId: number) {
     invoiceFile: null,
   })
 
+  // false = end the visit without completing the task
+  const [completeTask, setCompleteTask] = useState(true)
+
   // Check if task has expected revenue
   const hasExpectedRevenue = !!taskEvent.task?.expectedRevenue
   const expectedRevenue = taskEvent.task?.expectedRevenue
@@ -78,12 +84,12 @@ export function useCheckoutWithPayment(taskId: number) {
 
   // Enhanced submit that includes payment data
   const handleSubmitWithPayment = useCallback(async () => {
-    if (!taskEvent.location || !taskEvent.task) {
+    if (!taskEvent.location || !taskEvent.task || taskEvent.isBlocked) {
       return
     }
 
     // Show warning if amount differs >10%
-    if (paymentState.paymentCollected && hasAmountMismatch()) {
+    if (completeTask && paymentState.paymentCollected && hasAmountMismatch()) {
       toast.error(
         `Số tiền thu khác với dự kiến.\nDự kiến: ${expectedRevenue?.toLocaleString('vi-VN')} VNĐ\nThực thu: ${paymentState.paymentAmount?.toLocaleString('vi-VN')} VNĐ`,
         {
@@ -95,13 +101,16 @@ export function useCheckoutWithPayment(taskId: number) {
 
     // Prepare FormData for file upload
     const formData = new FormData()
-    formData.append('latitude', taskEvent.location.coords.latitude.toString())
-    formData.append('longitude', taskEvent.location.coords.longitude.toString())
+    appendTaskEventLocation(formData, taskEvent.location)
 
     if (taskEvent.notes.trim()) {
       formData.append('notes', taskEvent.notes.trim())
     }
 
+    if (!completeTask) {
+      formData.append('completeTask', 'false')
+    }
+
     // Append checkout files
     for (const attachment of taskEvent.attachments) {
       const file = {
@@ -112,8 +121,8 @@ export function useCheckoutWithPayment(taskId: number) {
       formData.append('files', file as unknown as Blob)
     }
 
-    // Append payment data if collected
-    if (hasExpectedRevenue && paymentState.paymentCollected) {
+    // Append payment data if collected (only when completing the task)
+    if (completeTask && hasExpectedRevenue && paymentState.paymentCollected) {
       formData.append('paymentCollected', 'true')
       if (paymentState.paymentAmount) {
         formData.append('paymentAmount', paymentState.paymentAmount.toString())
@@ -156,7 +165,16 @@ export function useCheckoutWithPayment(taskId: number) {
 
       const data = await response.json()
 
-      toast.success('Đã hoàn thành công việc')
+      // Team jobs complete when the last assignee on site checks out
+      const isWaitingForTeammates =
+        data.event?.waitingForAssigneeIds?.length > 0
+      toast.success(
+        !completeTask
+          ? 'Đã kết thúc lượt làm việc'
+          : isWaitingForTeammates
+            ? 'Đã xong phần việc của bạn, công việc hoàn thành khi đồng đội check-out'
+            : 'Đã hoàn thành công việc',
+      )
 
       // Show warnings if any
       if (data.warnings && data.warnings.length > 0) {
@@ -190,9 +208,11 @@ export function useCheckoutWithPayment(taskId: number) {
   }, [
     taskEvent.location,
     taskEvent.task,
+    taskEvent.isBlocked,
     taskEvent.notes,
     taskEvent.attachments,
     paymentState,
+    completeTask,
     hasExpectedRevenue,
     hasAmountMismatch,
     expectedRevenue,
@@ -202,6 +222,8 @@ export function useCheckoutWithPayment(taskId: number) {
 
   return {
     ...taskEvent,
+    completeTask,
+    setCompleteTask,
     // Payment-specific state and methods
     hasExpectedRevenue,
     expectedRevenue,
@@ -0,0 +1,127 @@
+import {
+  type LocationPingInput,
+  MAX_LOCATION_PINGS_PER_BATCH,
+} from '@nv-internal/validation'
+import { useQueryClient } from '@tanstack/react-query'
+import * as Location from 'expo-location'
+import { useCallback, useEffect, useRef } from 'react'
+import {
+  LOCATION_TRACKING_QUERY_KEY,
+  sendLocationPings,
+  useLocationTrackingStatus,
+} from '@/api/location/use-location-tracking'
+
+type LocationPing = LocationPingInput['points'][number]
+
+// One position a minute, or sooner when the worker moves
+const WATCH_TIME_INTERVAL_MS = 60 * 1000
+const WATCH_DISTANCE_INTERVAL_METERS = 25
+
+// Upload every few minutes, or as soon as a batch is full enough
+const FLUSH_INTERVAL_MS = 2 * 60 * 1000
+const FLUSH_BATCH_SIZE = 20
+
+// Positions kept while offline, the oldest are dropped beyond this
+const MAX_BUFFERED_PINGS = MAX_LOCATION_PINGS_PER_BATCH * 5
+
+// Picks up a visit opened or closed from another device
+const TRACKING_STATUS_REFRESH_MS = 5 * 60 * 1000
+
+/**
+ * Record the worker's positions while they have an open visit
+ *
+ * Positions are buffered and uploaded in batches to /v1/location/pings, so a
+ * spotty connection only delays them. Tracking starts after check-in and stops
+ * once the API reports no open visit (check-out invalidates the status).
+ *
+ * Only runs while the app is open, with the foreground location permission
+ * granted at check-in. It never asks for permission itself.
+ */
+export function useLocationBreadcrumbs() {
+  const queryClient = useQueryClient()
+  const { data: status } = useLocationTrackingStatus({
+    refetchInterval: TRACKING_STATUS_REFRESH_MS,
+  })
+  const tracking = status?.tracking ?? false
+
+  const bufferRef = useRef<LocationPing[]>([])
+  const isFlushingRef = useRef(false)
+
+  const flush = useCallback(async () => {
+    const batch = bufferRef.current.slice(0, MAX_LOCATION_PINGS_PER_BATCH)
+    if (batch.length === 0 || isFlushingRef.current) {
+      return
+    }
+
+    isFlushingRef.current = true
+    try {
+      const result = await sendLocationPings(batch)
+      bufferRef.current = bufferRef.current.slice(batch.length)
+
+      if (result && !result.tracking) {
+        queryClient.invalidateQueries({
+          queryKey: LOCATION_TRACKING_QUERY_KEY,
+        })
+      }
+    } catch {
+      // Kept in the buffer for the next upload
+    } finally {
+      isFlushingRef.current = false
+    }
+  }, [queryClient])
+
+  useEffect(() => {
+    if (!tracking) {
+      return
+    }
+
+    let cancelled = false
+    let subscription: Location.LocationSubscription | undefined
+
+    const startWatching = async () => {
+      const { status } = await Location.getForegroundPermissionsAsync()
+      if (status !== 'granted' || cancelled) {
+        return
+      }
+
+      subscription = await Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: WATCH_TIME_INTERVAL_MS,
+          distanceInterval: WATCH_DISTANCE_INTERVAL_METERS,
+        },
+        (position) => {
+          bufferRef.current = [
+            ...bufferRef.current,
+            {
+              lat: position.coords.latitude,
+              lng: position.coords.longitude,
+              accuracy: position.coords.accuracy ?? undefined,
+              recordedAt: new Date(position.timestamp).toISOString(),
+            },
+          ].slice(-MAX_BUFFERED_PINGS)
+
+          if (bufferRef.current.length >= FLUSH_BATCH_SIZE) {
+            flush()
+          }
+        },
+      )
+
+      if (cancelled) {
+        subscription.remove()
+      }
+    }
+
+    startWatching().catch(() => {
+      // Location services off: nothing to record
+    })
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      subscription?.remove()
+      clearInterval(interval)
+      flush()
+    }
+  }, [tracking, flush])
+}
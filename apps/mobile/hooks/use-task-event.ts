@@ -9,8 +9,6 @@ import type { TaskStatus } from '@/components/ui/task-status-badge'
 import { toast } from '@/components/ui/toasts'
 import { getApiUrl } from '@/lib/env'
 
-const DISTANCE_THRESHOLD = 100 // meters
-
 /**
  * Attachment types for check-in/check-out
  */
@@ -29,7 +27,10 @@ export interface TaskEventLocation {
     latitude: number
     longitude: number
     accuracy: number | null
+    altitude?: number | null
   }
+  // Android only: the position comes from a mock location app
+  mocked?: boolean
 }
 
 /**
@@ -48,6 +49,10 @@ export interface TaskEventConfig {
   title: string
   buttonLabel: string
   requiredStatus: TaskStatus
+  // Also accept tasks the worker put on hold (resuming re-opens check-in)
+  allowResumeFromHold?: boolean
+  // Also accept IN_PROGRESS tasks (next visit of a multi-visit job)
+  allowNextVisit?: boolean
   successMessage: string
   endpoint: 'check-in' | 'check-out'
 }
@@ -79,6 +84,30 @@ function calculateDistance(
   return R * c // Distance in meters
 }
 
+/**
+ * Append the position and device location metadata to a check-in/out form
+ *
+ * The API uses the accuracy, mock flag and device clock to flag suspicious
+ * events for admin review.
+ */
+export function appendTaskEventLocation(
+  formData: FormData,
+  location: TaskEventLocation,
+) {
+  formData.append('latitude', location.coords.latitude.toString())
+  formData.append('longitude', location.coords.longitude.toString())
+  if (location.coords.accuracy !== null) {
+    formData.append('accuracy', location.coords.accuracy.toString())
+  }
+  if (location.coords.altitude != null) {
+    formData.append('altitude', location.coords.altitude.toString())
+  }
+  if (location.mocked !== undefined) {
+    formData.append('isMocked', location.mocked.toString())
+  }
+  formData.append('deviceTime', new Date().toISOString())
+}
+
 /**
  * Infer MIME type from file extension (fallback)
  */
@@ -165,17 +194,26 @@ export function useTaskEvent(
     )
   }, [location, task])
 
+  // Geofence policy comes from the API (global setting or the task location's)
+  const geofence = task?.geofence
+  const isOutOfRange =
+    !!geofence && distance !== null && distance > geofence.radiusMeters
+  const isNoteRequired = isOutOfRange && geofence?.mode === 'REQUIRE_NOTE'
+  const isBlocked = isOutOfRange && geofence?.mode === 'BLOCK'
+
   // Generate warnings
   const warnings = useMemo(() => {
     const w: string[] = []
-    if (distance && distance > DISTANCE_THRESHOLD) {
-      w.push(`Bạn đang ở cách vị trí công việc ${Math.round(distance)}m`)
+    if (isOutOfRange && distance !== null) {
+      w.push(
+        `Bạn đang ở cách vị trí công việc ${Math.round(distance)}m (phạm vi cho phép ${geofence?.radiusMeters}m)`,
+      )
     }
     if (location?.coords.accuracy && location.coords.accuracy > 50) {
       w.push('Độ chính xác GPS thấp')
     }
     return w
-  }, [distance, location])
+  }, [distance, geofence, isOutOfRange, location])
 
   /**
    * Add attachment from camera
@@ -304,7 +342,7 @@ export function useTaskEvent(
    * Submit check-in/out event
    */
   const handleSubmit = useCallback(async () => {
-    if (!location || !task) {
+    if (!location || !task || isBlocked) {
       return
     }
 
@@ -313,8 +351,7 @@ export function useTaskEvent(
     try {
       // Prepare FormData for file upload
       const formData = new FormData()
-      formData.append('latitude', location.coords.latitude.toString())
-      formData.append('longitude', location.coords.longitude.toString())
+      appendTaskEventLocation(formData, location)
 
       if (notes.trim()) {
         formData.append('notes', notes.trim())
@@ -389,6 +426,7 @@ export function useTaskEvent(
     location,
     attachments,
     task,
+    isBlocked,
     notes,
     taskId,
     eventType,
@@ -401,6 +439,9 @@ export function useTaskEvent(
     isLoadingTask,
     location,
     distance,
+    geofence,
+    isNoteRequired,
+    isBlocked,
     attachments,
     notes,
     isSubmitting,
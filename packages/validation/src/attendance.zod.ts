@@ -0,0 +1,57 @@
+import { zCalendarDate } from './task.zod'
+import { z } from './zod'
+
+/** Longest attendance grid (a month) */
+export const MAX_ATTENDANCE_GRID_DAYS = 31
+
+/**
+ * Workday clock-in / clock-out from the worker's home screen
+ *
+ * Sent as multipart/form-data: the position of the device and a selfie taken
+ * with the front camera. FormData sends everything as strings, so numbers are
+ * coerced.
+ */
+export const zAttendanceClockInput = z.object({
+  latitude: z.coerce
+    .number()
+    .min(-90, 'Vĩ độ không hợp lệ')
+    .max(90, 'Vĩ độ không hợp lệ'),
+  longitude: z.coerce
+    .number()
+    .min(-180, 'Kinh độ không hợp lệ')
+    .max(180, 'Kinh độ không hợp lệ'),
+  selfie: z
+    .instanceof(File, { message: 'Vui lòng chụp ảnh selfie' })
+    .refine((file) => file.type.startsWith('image/'), {
+      message: 'Ảnh selfie phải là hình ảnh',
+    }),
+})
+
+export type AttendanceClockInput = z.infer<typeof zAttendanceClockInput>
+
+/**
+ * Attendance of all workers per day (admin only)
+ *
+ * `from` and `to` are inclusive calendar days (Asia/Ho_Chi_Minh).
+ */
+export const zAttendanceGridQuery = z
+  .object({
+    from: zCalendarDate,
+    to: zCalendarDate,
+  })
+  .refine((data) => data.to >= data.from, {
+    message: 'Ngày kết thúc phải sau ngày bắt đầu',
+    path: ['to'],
+  })
+  .refine(
+    (data) =>
+      (new Date(data.to).getTime() - new Date(data.from).getTime()) /
+        (24 * 60 * 60 * 1000) <
+      MAX_ATTENDANCE_GRID_DAYS,
+    {
+      message: `Khoảng thời gian không được vượt quá ${MAX_ATTENDANCE_GRID_DAYS} ngày`,
+      path: ['to'],
+    },
+  )
+
+export type AttendanceGridQuery = z.infer<typeof zAttendanceGridQuery>
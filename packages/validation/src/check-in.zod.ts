@@ -1,5 +1,33 @@
 import { z } from 'zod'
 
+/**
+ * Device location metadata sent with check-in / check-out
+ *
+ * Tells a precise GPS fix from a coarse network guess or a mocked location.
+ * All optional, older app versions only send latitude / longitude.
+ * Note: FormData sends everything as strings, so numbers and booleans are coerced
+ */
+export const zTaskEventDeviceLocation = {
+  // Radius of uncertainty of the position in meters
+  accuracy: z.coerce
+    .number()
+    .nonnegative('Độ chính xác không hợp lệ')
+    .optional(),
+  // Meters above sea level
+  altitude: z.coerce.number().optional(),
+  // Location provider reported by the device (gps, network, fused...)
+  provider: z.string().trim().max(50).optional(),
+  // The OS reports the position as coming from a mock location app
+  isMocked: z
+    .union([z.boolean(), z.string()])
+    .transform((val) =>
+      typeof val === 'boolean' ? val : val.toLowerCase() === 'true',
+    )
+    .optional(),
+  // Device clock when the event was sent (ISO 8601)
+  deviceTime: z.string().datetime({ offset: true }).optional(),
+}
+
 /**
  * Shared validation schema for both check-in and check-out events
  *
@@ -10,6 +38,7 @@ import { z } from 'zod'
  * Requirements:
  * - Attachments are optional (0-10 files allowed)
  * - GPS coordinates required (latitude, longitude)
+ * - Optional device location metadata (accuracy, mock flag, device time...)
  * - Optional notes (max 500 characters)
  */
 export const zTaskEventInput = z.object({
@@ -23,6 +52,7 @@ export const zTaskEventInput = z.object({
     .number()
     .min(-180, 'Kinh độ không hợp lệ')
     .max(180, 'Kinh độ không hợp lệ'),
+  ...zTaskEventDeviceLocation,
 
   // Multipart/form-data uploads (optional)
   // Note: When uploading a single file, it's received as File (not array)
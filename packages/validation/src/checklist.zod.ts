@@ -0,0 +1,67 @@
+import { TaskWorkType } from './prisma'
+import { z } from './zod'
+
+/**
+ * Validation schemas for per-work-type checklists
+ *
+ * Template items are managed by admins and copied onto each new task of the
+ * same work type. Workers tick the copied items while the task is IN_PROGRESS;
+ * required items must all be checked before check-out.
+ */
+
+export const zChecklistTemplateQuery = z.object({
+  workType: z.enum(TaskWorkType).optional(),
+})
+
+export const zCreateChecklistTemplateItem = z.object({
+  workType: z.enum(TaskWorkType),
+  label: z
+    .string()
+    .trim()
+    .min(2, 'Nội dung quá ngắn')
+    .max(200, 'Nội dung quá dài'),
+  required: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).default(0),
+})
+
+export const zUpdateChecklistTemplateItem = z
+  .object({
+    label: z
+      .string()
+      .trim()
+      .min(2, 'Nội dung quá ngắn')
+      .max(200, 'Nội dung quá dài')
+      .optional(),
+    required: z.boolean().optional(),
+    sortOrder: z.number().int().min(0).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Phải cập nhật ít nhất một trường',
+  })
+
+/**
+ * Route params for a checklist item on a task: /v1/task/:id/checklist/:itemId
+ */
+export const zTaskChecklistItemParam = z.object({
+  id: z
+    .string()
+    .regex(/^\d+$/, 'ID phải là số')
+    .transform((val) => parseInt(val, 10)),
+  itemId: z.string().min(1, 'ID không hợp lệ'),
+})
+
+export const zUpdateTaskChecklistItem = z.object({
+  checked: z.boolean(),
+})
+
+// Type exports
+export type ChecklistTemplateQuery = z.infer<typeof zChecklistTemplateQuery>
+export type CreateChecklistTemplateItemValues = z.infer<
+  typeof zCreateChecklistTemplateItem
+>
+export type UpdateChecklistTemplateItemValues = z.infer<
+  typeof zUpdateChecklistTemplateItem
+>
+export type UpdateTaskChecklistItemValues = z.infer<
+  typeof zUpdateTaskChecklistItem
+>
@@ -0,0 +1,36 @@
+import { zCalendarDate } from './task.zod'
+import { z } from './zod'
+
+/**
+ * A public holiday (admin only)
+ *
+ * Not a working day for SLA deadlines, recurring schedules, attendance and
+ * the expected working days of the reports.
+ */
+export const zHoliday = z.object({
+  date: zCalendarDate,
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Vui lòng nhập tên ngày lễ')
+    .max(100, 'Tên ngày lễ quá dài'),
+})
+
+export type HolidayValues = z.infer<typeof zHoliday>
+
+export const zUpdateHoliday = zHoliday
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Phải cập nhật ít nhất một trường',
+  })
+
+export type UpdateHolidayValues = z.infer<typeof zUpdateHoliday>
+
+/**
+ * Holidays of a year, by date
+ */
+export const zHolidayQuery = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+})
+
+export type HolidayQuery = z.infer<typeof zHolidayQuery>
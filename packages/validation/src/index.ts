@@ -1,10 +1,22 @@
 export * from './activity.zod'
+export * from './attendance.zod'
 export * from './check-in.zod'
+export * from './checklist.zod'
+export * from './holiday.zod'
+export * from './leave.zod'
+export * from './location.zod'
 export * from './params.zod'
 export * from './payment.zod'
 export * from './prisma'
 export * from './report.zod'
+export * from './settings.zod'
+export * from './skill.zod'
 export * from './task.zod'
 export * from './task-comment.zod'
+export * from './task-event-flag.zod'
+export * from './task-hold.zod'
+export * from './task-schedule.zod'
+export * from './task-status.zod'
+export * from './team.zod'
 export * from './user.zod'
 export * from './zod'
@@ -0,0 +1,61 @@
+import { LeaveStatus, LeaveType } from './prisma'
+import { zCalendarDate } from './task.zod'
+import { z } from './zod'
+
+/** Longest leave in one request */
+export const MAX_LEAVE_DAYS = 30
+
+/**
+ * Leave asked by a worker from the settings screen
+ *
+ * `startDate` and `endDate` are inclusive calendar days (Asia/Ho_Chi_Minh).
+ */
+export const zCreateLeaveRequest = z
+  .object({
+    type: z.enum(LeaveType, { message: 'Vui lòng chọn loại nghỉ phép' }),
+    startDate: zCalendarDate,
+    endDate: zCalendarDate,
+    reason: z.string().trim().max(500, 'Lý do quá dài').optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'Ngày kết thúc phải sau ngày bắt đầu',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      (new Date(data.endDate).getTime() - new Date(data.startDate).getTime()) /
+        (24 * 60 * 60 * 1000) <
+      MAX_LEAVE_DAYS,
+    {
+      message: `Mỗi lần nghỉ không được vượt quá ${MAX_LEAVE_DAYS} ngày`,
+      path: ['endDate'],
+    },
+  )
+
+export type CreateLeaveRequest = z.infer<typeof zCreateLeaveRequest>
+
+/**
+ * Leave requests, most recent first
+ *
+ * Workers only see their own. `from` / `to` keep the leaves overlapping
+ * these days.
+ */
+export const zLeaveRequestQuery = z.object({
+  status: z.enum(LeaveStatus).optional(),
+  userId: z.string().optional(),
+  from: zCalendarDate.optional(),
+  to: zCalendarDate.optional(),
+  cursor: z.string().optional(),
+  take: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+export type LeaveRequestQuery = z.infer<typeof zLeaveRequestQuery>
+
+export const zReviewLeaveRequest = z.object({
+  status: z.enum([LeaveStatus.APPROVED, LeaveStatus.REJECTED], {
+    message: 'Vui lòng chọn duyệt hoặc từ chối',
+  }),
+  reviewNote: z.string().trim().max(500, 'Ghi chú quá dài').optional(),
+})
+
+export type ReviewLeaveRequest = z.infer<typeof zReviewLeaveRequest>
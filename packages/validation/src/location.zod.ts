@@ -0,0 +1,57 @@
+import { zCalendarDate } from './task.zod'
+import { z } from './zod'
+
+/** Most positions accepted in one upload (~1.5 hours at one ping a minute) */
+export const MAX_LOCATION_PINGS_PER_BATCH = 100
+
+/**
+ * Batch of positions recorded by a worker's device
+ *
+ * The device buffers positions while the worker has an open visit and sends
+ * them together, so `recordedAt` is the device time of each position.
+ */
+export const zLocationPingInput = z.object({
+  points: z
+    .array(
+      z.object({
+        lat: z
+          .number()
+          .min(-90, 'Vĩ độ không hợp lệ')
+          .max(90, 'Vĩ độ không hợp lệ'),
+        lng: z
+          .number()
+          .min(-180, 'Kinh độ không hợp lệ')
+          .max(180, 'Kinh độ không hợp lệ'),
+        accuracy: z.number().nonnegative().optional(),
+        recordedAt: z.string().datetime(),
+      }),
+    )
+    .min(1, 'Không có vị trí nào')
+    .max(
+      MAX_LOCATION_PINGS_PER_BATCH,
+      `Tối đa ${MAX_LOCATION_PINGS_PER_BATCH} vị trí mỗi lần gửi`,
+    ),
+})
+
+export type LocationPingInput = z.infer<typeof zLocationPingInput>
+
+/**
+ * Trail of a worker on a day (Asia/Ho_Chi_Minh)
+ *
+ * Workers can only read their own trail.
+ */
+export const zLocationTrackQuery = z.object({
+  userId: z.string().trim().min(1),
+  date: zCalendarDate,
+})
+
+export type LocationTrackQuery = z.infer<typeof zLocationTrackQuery>
+
+/**
+ * Travel legs of a worker between jobs on a day (Asia/Ho_Chi_Minh)
+ *
+ * Workers can only read their own travel log.
+ */
+export const zTravelLogQuery = zLocationTrackQuery
+
+export type TravelLogQuery = z.infer<typeof zTravelLogQuery>
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { zTaskEventDeviceLocation } from './check-in.zod'
 
 /**
  * Validation for checkout with optional payment collection
@@ -10,6 +11,9 @@ import { z } from 'zod'
  * - FormData coercion for number fields (latitude, longitude, paymentAmount)
  * - Flexible file handling (single File or File[])
  * - Payment fields only required if paymentCollected is true
+ * - completeTask=false ends the visit without completing the task (multi-visit jobs),
+ *   unless the last one out honours a teammate's completion request; whether the
+ *   payment may be recorded is therefore decided by the API
  * - VND currency validation (no decimals, max 10 billion)
  */
 export const zCheckoutWithPayment = z
@@ -24,10 +28,20 @@ export const zCheckoutWithPayment = z
       .number()
       .min(-180, 'Kinh độ không hợp lệ')
       .max(180, 'Kinh độ không hợp lệ'),
+    ...zTaskEventDeviceLocation,
 
     // Checkout notes (optional)
     notes: z.string().trim().max(1000, 'Ghi chú quá dài').optional(),
 
+    // Whether this check-out completes the task or only ends the visit
+    // Note: FormData sends boolean as string 'true' or 'false'
+    completeTask: z
+      .union([z.boolean(), z.string()])
+      .transform((val) =>
+        typeof val === 'boolean' ? val : val.toLowerCase() !== 'false',
+      )
+      .default(true),
+
     // Checkout photos (optional)
     // Note: When uploading a single file, it's received as File (not array)
     // When uploading multiple files, it's received as File[]
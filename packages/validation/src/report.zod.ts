@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { TaskHoldReason, TaskWorkType } from './prisma'
 
 /**
  * Validation schemas for employee reports
@@ -23,6 +24,19 @@ const VALID_TIMEZONES = [
   'Asia/Kuala_Lumpur', // Malaysia (UTC+8)
 ] as const
 
+/**
+ * Where the days worked of reports come from
+ *
+ * - visits: Days with a task check-in (default when omitted)
+ * - attendance: Days with a workday clock-in, including warehouse or
+ *   training days without tasks
+ */
+const zDaysWorkedSource = z
+  .enum(['visits', 'attendance'], {
+    message: "Nguồn ngày công không hợp lệ. Chỉ hỗ trợ: 'visits', 'attendance'",
+  })
+  .optional()
+
 /**
  * Validates employee report query parameters
  *
@@ -30,6 +44,7 @@ const VALID_TIMEZONES = [
  * - startDate: ISO 8601 date string (YYYY-MM-DD) - inclusive
  * - endDate: ISO 8601 date string (YYYY-MM-DD) - inclusive
  * - timezone: IANA timezone identifier (optional, default: Asia/Ho_Chi_Minh)
+ * - daysWorkedSource: 'visits' or 'attendance' (optional, default: 'visits')
  *
  * Validation rules:
  * - Both dates are required
@@ -77,6 +92,7 @@ export const zEmployeeReportQuery = z
         message: `Múi giờ không hợp lệ. Chỉ hỗ trợ: ${VALID_TIMEZONES.join(', ')}`,
       })
       .default('Asia/Ho_Chi_Minh'),
+    daysWorkedSource: zDaysWorkedSource,
   })
   .refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
     message: 'endDate phải lớn hơn hoặc bằng startDate',
@@ -121,11 +137,26 @@ export const zEmployeeReportResponse = z.object({
     endDate: z.string(),
     timezone: z.string(),
   }),
+  daysWorkedSource: z.enum(['visits', 'attendance']),
   metrics: z.object({
     daysWorked: z.number().int().min(0),
+    // Time between check-in and check-out of closed visits, in hours
+    hoursOnSite: z.number().min(0),
     tasksCompleted: z.number().int().min(0),
     totalRevenue: z.number().min(0),
+    // Time spent with tasks on hold (worker-initiated), in minutes
+    nonProductiveMinutes: z.number().int().min(0),
+    // Travel between jobs (road multiplier applied), in km and minutes
+    travelDistanceKm: z.number().min(0),
+    travelMinutes: z.number().int().min(0),
   }),
+  holdBreakdown: z.array(
+    z.object({
+      reason: z.enum(TaskHoldReason),
+      minutes: z.number().int().min(0),
+      holdCount: z.number().int().min(0),
+    }),
+  ),
   tasks: z.array(
     z.object({
       id: z.number().int(),
@@ -147,6 +178,7 @@ export const zEmployeeReportResponse = z.object({
  * - timezone: IANA timezone identifier (optional, default: Asia/Ho_Chi_Minh)
  * - sort: Sort field - 'revenue', 'tasks', or 'name' (optional, default: 'revenue')
  * - sortOrder: Sort order - 'asc' or 'desc' (optional, default: 'desc')
+ * - daysWorkedSource: 'visits' or 'attendance' (optional, default: 'visits')
  *
  * Validation rules:
  * - Both dates are required
@@ -211,6 +243,61 @@ export const zEmployeesSummaryQuery = z
         message: "Thứ tự sắp xếp không hợp lệ. Chỉ hỗ trợ: 'asc', 'desc'",
       })
       .default('desc'),
+    daysWorkedSource: zDaysWorkedSource,
+  })
+  .refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'endDate phải lớn hơn hoặc bằng startDate',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) => {
+      const start = new Date(data.startDate)
+      const end = new Date(data.endDate)
+      const diffDays = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
+      return diffDays <= 92
+    },
+    {
+      message: 'Khoảng thời gian không được vượt quá 92 ngày (3 tháng)',
+      path: ['endDate'],
+    },
+  )
+
+/**
+ * Validates timesheet query parameters
+ *
+ * Query parameters:
+ * - startDate: ISO 8601 date string (YYYY-MM-DD) - inclusive
+ * - endDate: ISO 8601 date string (YYYY-MM-DD) - inclusive
+ * - timezone: IANA timezone identifier (optional, default: Asia/Ho_Chi_Minh)
+ *
+ * Validation rules:
+ * - endDate must be >= startDate
+ * - Date range must not exceed 92 days (a payroll quarter)
+ *
+ * Example usage:
+ * ```
+ * GET /v1/reports/timesheet/user_123?startDate=2025-01-01&endDate=2025-01-31
+ * ```
+ */
+export const zTimesheetQuery = z
+  .object({
+    startDate: z
+      .string()
+      .regex(
+        /^\d{4}-\d{2}-\d{2}$/,
+        'startDate phải có định dạng YYYY-MM-DD (ví dụ: 2025-01-01)',
+      ),
+    endDate: z
+      .string()
+      .regex(
+        /^\d{4}-\d{2}-\d{2}$/,
+        'endDate phải có định dạng YYYY-MM-DD (ví dụ: 2025-01-31)',
+      ),
+    timezone: z
+      .enum(VALID_TIMEZONES, {
+        message: `Múi giờ không hợp lệ. Chỉ hỗ trợ: ${VALID_TIMEZONES.join(', ')}`,
+      })
+      .default('Asia/Ho_Chi_Minh'),
   })
   .refine((data) => new Date(data.endDate) >= new Date(data.startDate), {
     message: 'endDate phải lớn hơn hoặc bằng startDate',
@@ -229,6 +316,38 @@ export const zEmployeesSummaryQuery = z
     },
   )
 
+/**
+ * Admin correction of a visit's check-out time (forgotten check-out)
+ *
+ * - checkedOutAt: When the worker actually left, after the check-in and not
+ *   in the future
+ * - reason: Kept on the visit and in the task activity for the audit
+ */
+export const zTaskVisitCorrection = z.object({
+  checkedOutAt: z.iso.datetime({ offset: true }),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Vui lòng nhập lý do chỉnh sửa')
+    .max(500, 'Lý do không được vượt quá 500 ký tự'),
+})
+
+export const zTaskVisitParam = z.object({
+  id: z.string().min(1, 'id không được để trống'),
+})
+
+/**
+ * Revenue and completed task count for one work type
+ * (workType null = tasks without a work type)
+ */
+const zWorkTypeBreakdown = z.array(
+  z.object({
+    workType: z.enum(TaskWorkType).nullable(),
+    revenue: z.number().min(0),
+    tasksCompleted: z.number().int().min(0),
+  }),
+)
+
 /**
  * Employee summary response schema
  *
@@ -240,6 +359,7 @@ export const zEmployeesSummaryResponse = z.object({
     endDate: z.string(),
     timezone: z.string(),
   }),
+  daysWorkedSource: z.enum(['visits', 'attendance']),
   employees: z.array(
     z.object({
       id: z.string(),
@@ -251,7 +371,9 @@ export const zEmployeesSummaryResponse = z.object({
         totalRevenue: z.number().min(0),
         tasksCompleted: z.number().int().min(0),
         daysWorked: z.number().int().min(0),
+        hoursOnSite: z.number().min(0),
       }),
+      workTypeBreakdown: zWorkTypeBreakdown,
       hasActivity: z.boolean(),
     }),
   ),
@@ -261,11 +383,15 @@ export const zEmployeesSummaryResponse = z.object({
     totalRevenue: z.number().min(0),
     totalTasks: z.number().int().min(0),
   }),
+  workTypeBreakdown: zWorkTypeBreakdown,
 })
 
 // Type exports for TypeScript
+export type DaysWorkedSource = NonNullable<z.infer<typeof zDaysWorkedSource>>
 export type EmployeeReportQuery = z.infer<typeof zEmployeeReportQuery>
 export type EmployeeReportParam = z.infer<typeof zEmployeeReportParam>
 export type EmployeeReportResponse = z.infer<typeof zEmployeeReportResponse>
 export type EmployeesSummaryQuery = z.infer<typeof zEmployeesSummaryQuery>
 export type EmployeesSummaryResponse = z.infer<typeof zEmployeesSummaryResponse>
+export type TimesheetQuery = z.infer<typeof zTimesheetQuery>
+export type TaskVisitCorrection = z.infer<typeof zTaskVisitCorrection>
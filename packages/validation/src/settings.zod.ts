@@ -0,0 +1,82 @@
+import { GeofenceMode } from './prisma'
+import { z } from './zod'
+
+/** Check-in radius bounds, 300 m+ is meant for large sites (factories) */
+export const MIN_GEOFENCE_RADIUS_METERS = 20
+export const MAX_GEOFENCE_RADIUS_METERS = 5000
+
+export const zGeofenceRadiusMeters = z
+  .number()
+  .int('Bán kính phải là số nguyên')
+  .min(
+    MIN_GEOFENCE_RADIUS_METERS,
+    `Bán kính tối thiểu ${MIN_GEOFENCE_RADIUS_METERS}m`,
+  )
+  .max(
+    MAX_GEOFENCE_RADIUS_METERS,
+    `Bán kính tối đa ${MAX_GEOFENCE_RADIUS_METERS}m`,
+  )
+
+/** Road distance is rarely more than twice the straight line between jobs */
+export const MAX_ROAD_DISTANCE_MULTIPLIER = 3
+
+/** Overtime thresholds of timesheets, in hours */
+export const MAX_DAILY_OVERTIME_HOURS = 24
+export const MAX_WEEKLY_OVERTIME_HOURS = 168
+
+/** Minutes after the start of the workday before a clock-in is late */
+export const MAX_ATTENDANCE_GRACE_MINUTES = 120
+
+/**
+ * Update company-wide settings (admin only)
+ *
+ * Omitted fields keep their current value.
+ */
+export const zUpdateAppSettings = z.object({
+  geofenceRadiusMeters: zGeofenceRadiusMeters.optional(),
+  geofenceMode: z.enum(GeofenceMode).optional(),
+  roadDistanceMultiplier: z
+    .number()
+    .min(1, 'Hệ số tối thiểu là 1')
+    .max(
+      MAX_ROAD_DISTANCE_MULTIPLIER,
+      `Hệ số tối đa là ${MAX_ROAD_DISTANCE_MULTIPLIER}`,
+    )
+    .optional(),
+  dailyOvertimeHours: z
+    .number()
+    .min(1, 'Số giờ tối thiểu là 1')
+    .max(
+      MAX_DAILY_OVERTIME_HOURS,
+      `Số giờ tối đa là ${MAX_DAILY_OVERTIME_HOURS}`,
+    )
+    .optional(),
+  weeklyOvertimeHours: z
+    .number()
+    .min(1, 'Số giờ tối thiểu là 1')
+    .max(
+      MAX_WEEKLY_OVERTIME_HOURS,
+      `Số giờ tối đa là ${MAX_WEEKLY_OVERTIME_HOURS}`,
+    )
+    .optional(),
+  workingWeekdays: z
+    .array(z.number().int().min(1).max(7))
+    .min(1, 'Chọn ít nhất một ngày làm việc')
+    .transform((days) => [...new Set(days)].sort((a, b) => a - b))
+    .optional(),
+  workdayStartTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Giờ vào làm phải có dạng HH:mm')
+    .optional(),
+  attendanceGraceMinutes: z
+    .number()
+    .int('Số phút phải là số nguyên')
+    .min(0, 'Số phút không được âm')
+    .max(
+      MAX_ATTENDANCE_GRACE_MINUTES,
+      `Số phút tối đa là ${MAX_ATTENDANCE_GRACE_MINUTES}`,
+    )
+    .optional(),
+})
+
+export type UpdateAppSettings = z.infer<typeof zUpdateAppSettings>
@@ -0,0 +1,95 @@
+import { TaskWorkType } from './prisma'
+import { zCalendarDate } from './task.zod'
+import { z } from './zod'
+
+/**
+ * Validation schemas for worker skills and certifications
+ *
+ * A skill (e.g. R32 refrigerant) is required by the tasks of its work types
+ * and by the tasks listing it in `requiredSkillIds`. A worker holds it through
+ * a certificate, valid until its expiry date (inclusive) if it has one.
+ */
+
+/** Certificates expiring within this many days are reported by default */
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 30
+
+const zSkillName = z
+  .string()
+  .trim()
+  .min(2, 'Tên kỹ năng quá ngắn')
+  .max(100, 'Tên kỹ năng quá dài')
+
+const zSkillDescription = z.string().trim().max(500, 'Mô tả quá dài')
+
+export const zCreateSkill = z.object({
+  name: zSkillName,
+  description: zSkillDescription.nullable().optional(),
+  workTypes: z.array(z.enum(TaskWorkType)).default([]),
+})
+
+export const zUpdateSkill = z
+  .object({
+    name: zSkillName.optional(),
+    description: zSkillDescription.nullable().optional(),
+    workTypes: z.array(z.enum(TaskWorkType)).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Phải cập nhật ít nhất một trường',
+  })
+
+export const zWorkerCertificateQuery = z.object({
+  userId: z.string().optional(), // Certificates of this worker only
+})
+
+/**
+ * Add or replace a worker's certificate for a skill (admin only)
+ *
+ * Sent as multipart/form-data with the scanned certificate. Without a new
+ * scan, the one already on file is kept.
+ */
+export const zUpsertWorkerCertificate = z.object({
+  userId: z.string().min(1),
+  skillId: z.string().min(1),
+  certificateNumber: z
+    .string()
+    .trim()
+    .max(100, 'Số chứng chỉ quá dài')
+    .optional(),
+  expiryDate: zCalendarDate.optional(), // Never expires when left out
+  certificateFile: z
+    .union([z.instanceof(File), z.array(z.instanceof(File))])
+    .transform((val) => (Array.isArray(val) ? val[0] : val))
+    .pipe(
+      z
+        .instanceof(File)
+        .refine(
+          (file) =>
+            [
+              'image/jpeg',
+              'image/png',
+              'image/heic',
+              'application/pdf',
+            ].includes(file.type.toLowerCase()),
+          'Chỉ chấp nhận ảnh JPEG, PNG, HEIC hoặc tệp PDF',
+        ),
+    )
+    .optional(),
+})
+
+export const zExpiringCertificatesQuery = z.object({
+  days: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(365)
+    .default(CERTIFICATE_EXPIRY_WARNING_DAYS),
+})
+
+// Type exports
+export type CreateSkillValues = z.infer<typeof zCreateSkill>
+export type UpdateSkillValues = z.infer<typeof zUpdateSkill>
+export type WorkerCertificateQuery = z.infer<typeof zWorkerCertificateQuery>
+export type UpsertWorkerCertificate = z.infer<typeof zUpsertWorkerCertificate>
+export type ExpiringCertificatesQuery = z.infer<
+  typeof zExpiringCertificatesQuery
+>
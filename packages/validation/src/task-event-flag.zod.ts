@@ -0,0 +1,22 @@
+import { TaskEventFlagReason } from './prisma'
+import { z } from './zod'
+
+/**
+ * Flagged check-ins / check-outs for admin review
+ *
+ * `status` defaults to the review queue (open flags).
+ */
+export const zTaskEventFlagQuery = z.object({
+  status: z.enum(['open', 'reviewed', 'all']).default('open'),
+  reason: z.enum(TaskEventFlagReason).optional(),
+  cursor: z.string().optional(),
+  take: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+export type TaskEventFlagQuery = z.infer<typeof zTaskEventFlagQuery>
+
+export const zReviewTaskEventFlag = z.object({
+  reviewNote: z.string().trim().max(500, 'Ghi chú quá dài').optional(),
+})
+
+export type ReviewTaskEventFlag = z.infer<typeof zReviewTaskEventFlag>
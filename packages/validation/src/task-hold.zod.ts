@@ -0,0 +1,22 @@
+import { TaskHoldReason } from './prisma'
+import { z } from './zod'
+
+/**
+ * Validation schema for a worker putting their IN_PROGRESS task on hold
+ *
+ * Sent as multipart/form-data so an optional photo can be attached
+ * (e.g. the broken part being waited for).
+ */
+export const zTaskHoldInput = z.object({
+  reason: z.enum(TaskHoldReason, { message: 'Vui lòng chọn lý do tạm dừng' }),
+  notes: z.string().trim().max(500, 'Ghi chú quá dài').optional(),
+
+  // Note: When uploading a single file, it's received as File (not array)
+  files: z
+    .union([z.instanceof(File), z.array(z.instanceof(File))])
+    .transform((val) => (Array.isArray(val) ? val : [val]))
+    .pipe(z.array(z.instanceof(File)).max(5, 'Tối đa 5 ảnh'))
+    .optional(),
+})
+
+export type TaskHoldInput = z.infer<typeof zTaskHoldInput>
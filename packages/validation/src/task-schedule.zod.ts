@@ -0,0 +1,167 @@
+import { z } from './zod'
+
+/**
+ * Validation schemas for recurring maintenance schedules
+ *
+ * A schedule materializes Task rows ahead of time based on an RRULE-style
+ * recurrence (RFC 5545 subset). Supported parts:
+ * - FREQ: DAILY | WEEKLY | MONTHLY | YEARLY (required, must come first)
+ * - INTERVAL, COUNT: positive integers
+ * - UNTIL: YYYYMMDD or YYYYMMDDTHHMMSSZ
+ *
+ * Examples:
+ * - Every 3 months: FREQ=MONTHLY;INTERVAL=3
+ * - Every 6 months, 4 times: FREQ=MONTHLY;INTERVAL=6;COUNT=4
+ */
+
+const RRULE_REGEX =
+  /^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;(INTERVAL=[1-9]\d*|COUNT=[1-9]\d*|UNTIL=\d{8}(T\d{6}Z)?))*$/
+
+export const zRRule = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    RRULE_REGEX,
+    'Quy tắc lặp lại không hợp lệ (ví dụ: FREQ=MONTHLY;INTERVAL=3)',
+  )
+
+const zScheduleGeoLocation = z.object({
+  address: z.string().trim().optional(),
+  name: z.string().trim().optional(),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+})
+
+/**
+ * Create a recurring schedule (admin only)
+ *
+ * Title and description are templates: {{date}}, {{month}} and {{year}}
+ * are replaced with the occurrence date when a task is generated.
+ */
+export const zCreateTaskSchedule = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(2, 'Tiêu đề quá ngắn')
+      .max(100, 'Tiêu đề quá dài'),
+    description: z.string().trim().max(5000).optional(),
+    rrule: zRRule,
+    startsAt: z.iso.datetime(),
+    endsAt: z.iso.datetime().nullable().optional(),
+    customerPhone: z
+      .string()
+      .trim()
+      .optional()
+      .refine(
+        (val) =>
+          !val || val === '' || (val.length === 10 && /^0\d+$/.test(val)),
+        {
+          message:
+            'Số điện thoại phải có 10 chữ số và bắt đầu bằng số 0 hoặc để trống',
+        },
+      ),
+    customerName: z.string().trim().optional(),
+    geoLocation: zScheduleGeoLocation.optional(),
+    assigneeIds: z.array(z.string()).default([]),
+    expectedRevenue: z
+      .number()
+      .int('Số tiền phải là số nguyên')
+      .min(0, 'Số tiền không được âm')
+      .max(10_000_000_000, 'Số tiền không được vượt quá 10 tỷ VNĐ')
+      .nullable()
+      .optional(),
+    leadTimeDays: z
+      .number()
+      .int()
+      .min(0, 'Số ngày tạo trước không được âm')
+      .max(90, 'Chỉ có thể tạo trước tối đa 90 ngày')
+      .default(14),
+    // Move occurrences on a holiday or day off to the next working day
+    skipNonWorkingDays: z.boolean().default(false),
+  })
+  .refine(
+    (data) => !data.endsAt || new Date(data.endsAt) > new Date(data.startsAt),
+    {
+      message: 'Ngày kết thúc phải sau ngày bắt đầu',
+      path: ['endsAt'],
+    },
+  )
+
+/**
+ * Update a recurring schedule (admin only)
+ *
+ * Changes only apply to tasks generated after the update -
+ * tasks that were already generated are left untouched.
+ */
+export const zUpdateTaskSchedule = z
+  .object({
+    title: z.string().trim().min(2).max(100).optional(),
+    description: z.string().trim().max(5000).nullable().optional(),
+    rrule: zRRule.optional(),
+    startsAt: z.iso.datetime().optional(),
+    endsAt: z.iso.datetime().nullable().optional(),
+    geoLocation: zScheduleGeoLocation.optional(),
+    assigneeIds: z.array(z.string()).optional(),
+    expectedRevenue: z
+      .number()
+      .int('Số tiền phải là số nguyên')
+      .min(0, 'Số tiền không được âm')
+      .max(10_000_000_000, 'Số tiền không được vượt quá 10 tỷ VNĐ')
+      .nullable()
+      .optional(),
+    leadTimeDays: z.number().int().min(0).max(90).optional(),
+    skipNonWorkingDays: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Phải cập nhật ít nhất một trường',
+  })
+
+/**
+ * Validates a schedule ID route param (prefixed ID, e.g. sched_abc123...)
+ */
+export const zTaskScheduleIdParam = z.object({
+  id: z.string().regex(/^sched_[a-zA-Z0-9]+$/, 'ID không hợp lệ'),
+})
+
+export const zTaskScheduleListQuery = z.object({
+  cursor: z.string().optional(),
+  take: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number(val) : 20))
+    .pipe(z.number().min(1).max(100)),
+  includePaused: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val !== 'false'),
+})
+
+/**
+ * Preview upcoming occurrences of a saved schedule
+ */
+export const zTaskSchedulePreviewQuery = z.object({
+  count: z
+    .string()
+    .optional()
+    .transform((val) => (val ? Number(val) : 10))
+    .pipe(z.number().int().min(1).max(50)),
+})
+
+/**
+ * Preview occurrences of an unsaved recurrence (e.g. while filling the create form)
+ */
+export const zTaskScheduleRulePreview = z.object({
+  rrule: zRRule,
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime().nullable().optional(),
+  count: z.number().int().min(1).max(50).default(10),
+})
+
+// Type exports
+export type CreateTaskScheduleValues = z.infer<typeof zCreateTaskSchedule>
+export type UpdateTaskScheduleValues = z.infer<typeof zUpdateTaskSchedule>
+export type TaskScheduleListQuery = z.infer<typeof zTaskScheduleListQuery>
+export type TaskSchedulePreviewQuery = z.infer<typeof zTaskSchedulePreviewQuery>
+export type TaskScheduleRulePreview = z.infer<typeof zTaskScheduleRulePreview>
@@ -0,0 +1,225 @@
+import { type TaskHoldReason, TaskStatus } from './prisma'
+import { z } from './zod'
+
+/**
+ * Task status state machine
+ *
+ * The allowed transitions are declared as data so the API
+ * (`PUT /v1/task/:id/status`) and the mobile action buttons read the same
+ * definition. A transition is allowed when the current status is in `from`
+ * and the user matches one of the `actors`:
+ * - admin: any admin user
+ * - assignee: any user assigned to the task (admins included)
+ *
+ * Transitions marked `assigneeHoldOnly` are only available while the task is
+ * on hold because an assignee paused it (`task.holdReason` is set).
+ */
+
+export type TaskStatusActor = 'admin' | 'assignee'
+
+/** Extra fields a transition requires in the status update body */
+export type TaskStatusTransitionField = 'reason'
+
+export type TaskStatusTransition = {
+  from: TaskStatus[]
+  to: TaskStatus
+  actors: TaskStatusActor[]
+  requiredFields?: TaskStatusTransitionField[]
+  /** Transitions done through the check-in / check-out / hold screens */
+  via?: 'check-in' | 'check-out' | 'hold'
+  /** Only when the task was put on hold by an assignee */
+  assigneeHoldOnly?: boolean
+  /** Button label shown on mobile */
+  label: string
+  /** Shown as the main action button on mobile, other transitions go in the menu */
+  primary?: boolean
+  /** Confirmation shown on mobile before updating the status */
+  confirm?: { title: string; message: string }
+}
+
+/** Tasks in these statuses can no longer change (except reopening a completed task) */
+export const TERMINAL_TASK_STATUSES: TaskStatus[] = [
+  TaskStatus.COMPLETED,
+  TaskStatus.CANCELLED,
+]
+
+const NON_TERMINAL_TASK_STATUSES: TaskStatus[] = [
+  TaskStatus.PREPARING,
+  TaskStatus.READY,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.ON_HOLD,
+]
+
+export const TASK_STATUS_TRANSITIONS: TaskStatusTransition[] = [
+  {
+    from: [TaskStatus.PREPARING],
+    to: TaskStatus.READY,
+    actors: ['admin'],
+    label: 'Sẵn sàng',
+    primary: true,
+    confirm: {
+      title: 'Cho phép nhân viên bắt đầu?',
+      message: 'Nhân viên sẽ nhận được công việc và bắt đầu làm việc.',
+    },
+  },
+  {
+    from: [TaskStatus.READY],
+    to: TaskStatus.IN_PROGRESS,
+    actors: ['assignee'],
+    via: 'check-in',
+    label: 'Bắt đầu làm việc',
+    primary: true,
+  },
+  {
+    from: [TaskStatus.IN_PROGRESS],
+    to: TaskStatus.COMPLETED,
+    actors: ['assignee'],
+    via: 'check-out',
+    label: 'Hoàn thành công việc',
+    primary: true,
+  },
+  {
+    // Admins can also put a completed task back on hold to reopen it
+    from: [
+      TaskStatus.PREPARING,
+      TaskStatus.READY,
+      TaskStatus.IN_PROGRESS,
+      TaskStatus.COMPLETED,
+    ],
+    to: TaskStatus.ON_HOLD,
+    actors: ['admin'],
+    label: 'Tạm dừng',
+    confirm: {
+      title: 'Tạm dừng công việc?',
+      message:
+        'Nhân viên sẽ không thể tiếp tục cho đến khi công việc được mở lại.',
+    },
+  },
+  {
+    // Workers pause their own task with a reason code (POST /v1/task/:id/hold)
+    from: [TaskStatus.IN_PROGRESS],
+    to: TaskStatus.ON_HOLD,
+    actors: ['assignee'],
+    via: 'hold',
+    label: 'Tạm dừng',
+  },
+  {
+    // Resuming a task paused by its assignee goes through check-in again
+    from: [TaskStatus.ON_HOLD],
+    to: TaskStatus.IN_PROGRESS,
+    actors: ['assignee'],
+    via: 'check-in',
+    label: 'Tiếp tục làm việc',
+    primary: true,
+    assigneeHoldOnly: true,
+  },
+  {
+    from: [TaskStatus.ON_HOLD],
+    to: TaskStatus.PREPARING,
+    actors: ['admin'],
+    label: 'Chuyển về chuẩn bị',
+  },
+  {
+    from: [TaskStatus.ON_HOLD],
+    to: TaskStatus.READY,
+    actors: ['admin'],
+    label: 'Mở lại công việc',
+    primary: true,
+    confirm: {
+      title: 'Mở lại công việc?',
+      message: 'Nhân viên sẽ có thể tiếp tục làm việc.',
+    },
+  },
+  {
+    from: [TaskStatus.ON_HOLD],
+    to: TaskStatus.IN_PROGRESS,
+    actors: ['admin'],
+    label: 'Tiếp tục làm việc',
+  },
+  {
+    from: [TaskStatus.ON_HOLD],
+    to: TaskStatus.COMPLETED,
+    actors: ['admin'],
+    label: 'Đánh dấu hoàn thành',
+  },
+  {
+    from: NON_TERMINAL_TASK_STATUSES,
+    to: TaskStatus.CANCELLED,
+    actors: ['admin'],
+    requiredFields: ['reason'],
+    label: 'Hủy công việc',
+  },
+]
+
+/**
+ * Transitions available from a status for the given actors
+ *
+ * One transition per target status: an admin who is also assigned changes
+ * the status directly rather than through the check-in / check-out / hold
+ * screens of the assignee transition.
+ *
+ * @param holdReason - `task.holdReason`, set when an assignee paused the task
+ */
+export function getAvailableTaskStatusTransitions({
+  from,
+  actors,
+  holdReason,
+}: {
+  from: TaskStatus
+  actors: TaskStatusActor[]
+  holdReason?: TaskHoldReason | null
+}) {
+  const available = TASK_STATUS_TRANSITIONS.filter(
+    (transition) =>
+      transition.from.includes(from) &&
+      transition.actors.some((actor) => actors.includes(actor)) &&
+      (!transition.assigneeHoldOnly || !!holdReason),
+  )
+
+  return available.filter(
+    (transition) =>
+      !transition.via ||
+      !available.some((other) => other.to === transition.to && !other.via),
+  )
+}
+
+/**
+ * Find the transition from one status to another for the given actors
+ *
+ * @returns The transition, or undefined if the actors may not perform it
+ */
+export function findTaskStatusTransition({
+  from,
+  to,
+  actors,
+  holdReason,
+}: {
+  from: TaskStatus
+  to: TaskStatus
+  actors: TaskStatusActor[]
+  holdReason?: TaskHoldReason | null
+}) {
+  return getAvailableTaskStatusTransitions({ from, actors, holdReason }).find(
+    (transition) => transition.to === to,
+  )
+}
+
+/**
+ * Required fields of a transition that are missing from the request body
+ */
+export function getMissingTransitionFields(
+  transition: TaskStatusTransition,
+  values: Partial<Record<TaskStatusTransitionField, string | undefined>>,
+) {
+  return (transition.requiredFields ?? []).filter(
+    (field) => !values[field]?.trim(),
+  )
+}
+
+export const zUpdateTaskStatus = z.object({
+  status: z.enum(TaskStatus),
+  // Required by some transitions (e.g. cancellation reason)
+  reason: z.string().trim().max(500, 'Lý do quá dài').optional(),
+})
+
+export type UpdateTaskStatusValues = z.infer<typeof zUpdateTaskStatus>
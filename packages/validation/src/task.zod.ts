@@ -1,41 +1,93 @@
-import { TaskStatus } from './prisma'
+import { TaskPriority, TaskStatus, TaskWorkType } from './prisma'
+import { zGeofenceRadiusMeters } from './settings.zod'
 import { z } from './zod'
 
-export const zCreateTask = z.object({
-  title: z
-    .string()
-    .trim()
-    .min(2, 'Tiêu đề quá ngắn')
-    .max(100, 'Tiêu đề quá dài'),
-  description: z.string().trim(),
-  customerPhone: z
-    .string()
-    .trim()
-    .optional()
-    .refine(
-      (val) => !val || val === '' || (val.length === 10 && /^0\d+$/.test(val)),
-      {
-        message:
-          'Số điện thoại phải có 10 chữ số và bắt đầu bằng số 0 hoặc để trống',
-      },
-    ),
-  customerName: z.string().trim().optional(),
-  geoLocation: z
-    .object({
-      address: z.string().trim().optional(),
-      name: z.string().trim().optional(),
-      lat: z.number(),
-      lng: z.number(),
-    })
-    .optional(),
-  expectedRevenue: z
-    .number()
-    .int('Số tiền phải là số nguyên')
-    .min(0, 'Số tiền không được âm')
-    .max(10_000_000_000, 'Số tiền không được vượt quá 10 tỷ VNĐ')
-    .nullable()
-    .optional(),
-})
+/** Longest estimated duration of a single task (one day) */
+export const MAX_TASK_DURATION_MINUTES = 24 * 60
+
+const zEstimatedDurationMinutes = z
+  .number()
+  .int('Thời lượng phải là số phút nguyên')
+  .min(1, 'Thời lượng phải lớn hơn 0')
+  .max(MAX_TASK_DURATION_MINUTES, 'Thời lượng không được vượt quá 24 giờ')
+
+const isScheduleWindowValid = (data: {
+  scheduledAt?: string | null
+  scheduledEndAt?: string | null
+}) =>
+  !data.scheduledAt ||
+  !data.scheduledEndAt ||
+  new Date(data.scheduledEndAt) > new Date(data.scheduledAt)
+
+const scheduleWindowError = {
+  message: 'Giờ kết thúc phải sau giờ bắt đầu',
+  path: ['scheduledEndAt'],
+}
+
+export const zCreateTask = z
+  .object({
+    title: z
+      .string()
+      .trim()
+      .min(2, 'Tiêu đề quá ngắn')
+      .max(100, 'Tiêu đề quá dài'),
+    description: z.string().trim(),
+    customerPhone: z
+      .string()
+      .trim()
+      .optional()
+      .refine(
+        (val) =>
+          !val || val === '' || (val.length === 10 && /^0\d+$/.test(val)),
+        {
+          message:
+            'Số điện thoại phải có 10 chữ số và bắt đầu bằng số 0 hoặc để trống',
+        },
+      ),
+    customerName: z.string().trim().optional(),
+    geoLocation: z
+      .object({
+        address: z.string().trim().optional(),
+        name: z.string().trim().optional(),
+        lat: z.number(),
+        lng: z.number(),
+        geofenceRadiusMeters: zGeofenceRadiusMeters.nullable().optional(),
+      })
+      .optional(),
+    expectedRevenue: z
+      .number()
+      .int('Số tiền phải là số nguyên')
+      .min(0, 'Số tiền không được âm')
+      .max(10_000_000_000, 'Số tiền không được vượt quá 10 tỷ VNĐ')
+      .nullable()
+      .optional(),
+    // Work type also selects the checklist template copied onto the task
+    workType: z.enum(TaskWorkType).optional(),
+    priority: z.enum(TaskPriority).optional(),
+    // SLA deadline - the task is overdue if it is not completed by then
+    slaDueAt: z.string().datetime().optional(),
+    // ... or due by the end of this many working days from today (skips
+    // days off and public holidays)
+    slaWorkingDays: z.number().int().min(1).max(60).optional(),
+    // Scheduled window: starts at scheduledAt, ends at scheduledEndAt or
+    // after the estimated duration
+    scheduledAt: z.string().datetime().optional(),
+    scheduledEndAt: z.string().datetime().optional(),
+    estimatedDurationMinutes: zEstimatedDurationMinutes.optional(),
+    assigneeIds: z.array(z.string()).optional(),
+    // Assign a team: its members are added to assigneeIds
+    teamId: z.string().min(1).optional(),
+    // Skills the assignees need on top of the ones of the work type
+    requiredSkillIds: z.array(z.string().min(1)).max(10).optional(),
+    // Reject with a 409 listing the conflicts instead of warning when an
+    // assignee has an overlapping task or is on leave
+    rejectOnConflict: z.boolean().optional(),
+  })
+  .refine(isScheduleWindowValid, scheduleWindowError)
+  .refine((data) => !(data.slaDueAt && data.slaWorkingDays), {
+    message: 'Chỉ chọn hạn hoàn thành hoặc số ngày làm việc',
+    path: ['slaWorkingDays'],
+  })
 
 export type CreateTaskValues = z.infer<typeof zCreateTask>
 
@@ -47,63 +99,173 @@ export const zTaskListQuery = z.object({
 })
 export type TaskListQuery = z.infer<typeof zTaskListQuery>
 
+/** Largest radius of a "tasks near a point" search */
+export const MAX_TASK_SEARCH_RADIUS_METERS = 50_000
+
 // Enhanced search and filter schema for task lists
-export const zTaskSearchFilterQuery = z.object({
-  // Pagination
-  cursor: z.string().optional(),
-  take: z
-    .string()
-    .optional()
-    .transform((val) => (val ? Number(val) : 20))
-    .pipe(z.number().min(1).max(100)),
-
-  // Search query - searches across multiple fields
-  search: z.string().trim().optional(),
-
-  // Status filter (multi-select)
-  status: z
-    .union([z.enum(TaskStatus), z.array(z.enum(TaskStatus))])
-    .optional()
-    .transform((val) => {
-      if (!val) {
-        return undefined
-      }
-      return Array.isArray(val) ? val : [val]
-    }),
-
-  // Assignment filters
-  assigneeIds: z
-    .union([z.string(), z.array(z.string())])
-    .optional()
-    .transform((val) => {
-      if (!val) {
-        return undefined
-      }
-      return Array.isArray(val) ? val : [val]
-    }),
-  assignedOnly: z.string().optional(), // For backward compatibility
-
-  // Customer filter
-  customerId: z.string().optional(),
-
-  // Date range filters
-  scheduledFrom: z.string().datetime().optional(),
-  scheduledTo: z.string().datetime().optional(),
-  createdFrom: z.string().datetime().optional(),
-  createdTo: z.string().datetime().optional(),
-  completedFrom: z.string().datetime().optional(),
-  completedTo: z.string().datetime().optional(),
-
-  // Sorting
-  sortBy: z
-    .enum(['scheduledAt', 'createdAt', 'updatedAt', 'completedAt', 'id'])
-    .optional()
-    .default('createdAt'),
-  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
-})
+export const zTaskSearchFilterQuery = z
+  .object({
+    // Pagination
+    cursor: z.string().optional(),
+    take: z
+      .string()
+      .optional()
+      .transform((val) => (val ? Number(val) : 20))
+      .pipe(z.number().min(1).max(100)),
+
+    // Search query - searches across multiple fields
+    search: z.string().trim().optional(),
+
+    // Status filter (multi-select)
+    status: z
+      .union([z.enum(TaskStatus), z.array(z.enum(TaskStatus))])
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      })
+      // Outermost so the key is optional in the parsed type too
+      .optional(),
+
+    // Assignment filters
+    assigneeIds: z
+      .union([z.string(), z.array(z.string())])
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      })
+      .optional(),
+    assignedOnly: z.string().optional(), // For backward compatibility
+    teamId: z.string().optional(), // Tasks assigned to this team
+
+    // Work type filter (multi-select)
+    workType: z
+      .union([z.enum(TaskWorkType), z.array(z.enum(TaskWorkType))])
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      })
+      .optional(),
+
+    // Customer filter
+    customerId: z.string().optional(),
+
+    // Date range filters
+    scheduledFrom: z.string().datetime().optional(),
+    scheduledTo: z.string().datetime().optional(),
+    createdFrom: z.string().datetime().optional(),
+    createdTo: z.string().datetime().optional(),
+    completedFrom: z.string().datetime().optional(),
+    completedTo: z.string().datetime().optional(),
+
+    // Distance from a point: every result gets `distanceMeters`, `radiusMeters`
+    // keeps only tasks located within it
+    nearLat: z.coerce.number().min(-90).max(90).optional(),
+    nearLng: z.coerce.number().min(-180).max(180).optional(),
+    radiusMeters: z.coerce
+      .number()
+      .int()
+      .positive()
+      .max(MAX_TASK_SEARCH_RADIUS_METERS)
+      .optional(),
+
+    // Sorting
+    // - priority: URGENT > HIGH > NORMAL > LOW when sortOrder is desc
+    // - overdue: open tasks first, most overdue first (sortOrder is ignored)
+    // - distance: closest to nearLat/nearLng first, only tasks with a location
+    //   (sortOrder is ignored)
+    sortBy: z
+      .enum([
+        'scheduledAt',
+        'createdAt',
+        'updatedAt',
+        'completedAt',
+        'id',
+        'priority',
+        'slaDueAt',
+        'overdue',
+        'distance',
+      ])
+      .optional()
+      .default('createdAt'),
+    sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  })
+  .refine(
+    (data) => (data.nearLat === undefined) === (data.nearLng === undefined),
+    {
+      message: 'Phải có cả vĩ độ và kinh độ',
+      path: ['nearLng'],
+    },
+  )
+  .refine(
+    (data) =>
+      data.nearLat !== undefined ||
+      (data.radiusMeters === undefined && data.sortBy !== 'distance'),
+    {
+      message: 'Cần vị trí để lọc hoặc sắp xếp theo khoảng cách',
+      path: ['nearLat'],
+    },
+  )
 
 export type TaskSearchFilterQuery = z.infer<typeof zTaskSearchFilterQuery>
 
+/** Longest range the calendar endpoint returns at once (a month view with padding) */
+export const MAX_TASK_CALENDAR_DAYS = 62
+
+export const zCalendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Ngày phải có định dạng YYYY-MM-DD')
+
+/**
+ * Scheduled tasks bucketed per day (Asia/Ho_Chi_Minh)
+ *
+ * `from` and `to` are inclusive calendar days.
+ */
+export const zTaskCalendarQuery = z
+  .object({
+    from: zCalendarDate,
+    to: zCalendarDate,
+    assigneeIds: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      }),
+    // Admins only see their own tasks when set (worker module)
+    assignedOnly: z.string().optional(),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: 'Ngày kết thúc phải sau ngày bắt đầu',
+    path: ['to'],
+  })
+  .refine(
+    (data) =>
+      (new Date(data.to).getTime() - new Date(data.from).getTime()) /
+        (24 * 60 * 60 * 1000) <
+      MAX_TASK_CALENDAR_DAYS,
+    {
+      message: `Khoảng thời gian không được vượt quá ${MAX_TASK_CALENDAR_DAYS} ngày`,
+      path: ['to'],
+    },
+  )
+
+export type TaskCalendarQuery = z.infer<typeof zTaskCalendarQuery>
+
+/** Workers' timelines and unassigned tasks of one day (Asia/Ho_Chi_Minh) */
+export const zDispatchBoardQuery = z.object({
+  date: zCalendarDate,
+})
+
+export type DispatchBoardQuery = z.infer<typeof zDispatchBoardQuery>
+
 // Schema for updating a task (partial fields)
 export const zUpdateTask = z
   .object({
@@ -121,11 +283,147 @@ export const zUpdateTask = z
         lng: z.number().min(-180).max(180),
         address: z.string().trim().max(500).optional(),
         name: z.string().trim().max(200).optional(),
+        geofenceRadiusMeters: zGeofenceRadiusMeters.nullable().optional(),
       })
       .optional(),
+    workType: z.enum(TaskWorkType).nullable().optional(),
+    requiredSkillIds: z.array(z.string().min(1)).max(10).optional(),
+    priority: z.enum(TaskPriority).optional(),
+    slaDueAt: z.string().datetime().nullable().optional(),
+    scheduledAt: z.string().datetime().nullable().optional(),
+    scheduledEndAt: z.string().datetime().nullable().optional(),
+    estimatedDurationMinutes: zEstimatedDurationMinutes.nullable().optional(),
   })
   .refine((data) => Object.keys(data).length > 0, {
     message: 'Phải cập nhật ít nhất một trường',
   })
+  .refine(isScheduleWindowValid, scheduleWindowError)
 
 export type UpdateTaskValues = z.infer<typeof zUpdateTask>
+
+export const zUpdateTaskAssignees = z
+  .object({
+    assigneeIds: z.array(z.string()),
+    // Assign a team (its members are added to assigneeIds), null to forget
+    // it, omitted to keep the current one
+    teamId: z.string().min(1).nullable().optional(),
+    // Reject with a 409 listing the conflicts instead of warning when an
+    // assignee has an overlapping task or is on leave
+    rejectOnConflict: z.boolean().optional(),
+    // Reschedule in the same step (dispatch board)
+    scheduledAt: z.string().datetime().optional(),
+    scheduledEndAt: z.string().datetime().nullable().optional(),
+    estimatedDurationMinutes: zEstimatedDurationMinutes.nullable().optional(),
+  })
+  .refine(isScheduleWindowValid, scheduleWindowError)
+
+export type UpdateTaskAssigneesValues = z.infer<typeof zUpdateTaskAssignees>
+
+/**
+ * Check a planned schedule for conflicts before saving
+ * (e.g. while filling the create form)
+ */
+export const zTaskScheduleConflictCheck = z
+  .object({
+    assigneeIds: z.array(z.string()).min(1),
+    scheduledAt: z.string().datetime(),
+    scheduledEndAt: z.string().datetime().optional(),
+    estimatedDurationMinutes: zEstimatedDurationMinutes.optional(),
+    // Ignore the task being edited
+    excludeTaskId: z.number().int().optional(),
+  })
+  .refine(isScheduleWindowValid, scheduleWindowError)
+
+export type TaskScheduleConflictCheckValues = z.infer<
+  typeof zTaskScheduleConflictCheck
+>
+
+/**
+ * Rank assignees for a task that is not saved yet (create form)
+ *
+ * Existing tasks use GET /v1/task/:id/suggested-assignees instead.
+ */
+export const zSuggestedAssigneesInput = z
+  .object({
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    scheduledAt: z.string().datetime().optional(),
+    scheduledEndAt: z.string().datetime().optional(),
+    estimatedDurationMinutes: zEstimatedDurationMinutes.optional(),
+  })
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: 'Phải có cả vĩ độ và kinh độ',
+    path: ['lng'],
+  })
+  .refine(isScheduleWindowValid, scheduleWindowError)
+
+export type SuggestedAssigneesInput = z.infer<typeof zSuggestedAssigneesInput>
+
+/**
+ * Visiting order of the current user's tasks for one day
+ *
+ * `lat`/`lng` is where the worker starts (usually the phone's position).
+ */
+export const zWorkerRouteQuery = z
+  .object({
+    date: zCalendarDate,
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+  })
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: 'Phải có cả vĩ độ và kinh độ',
+    path: ['lng'],
+  })
+
+export type WorkerRouteQuery = z.infer<typeof zWorkerRouteQuery>
+
+/**
+ * Tasks located in the visible area of the admin map
+ *
+ * Takes the filters of the task filter sheet.
+ */
+export const zTaskMapQuery = z
+  .object({
+    minLat: z.coerce.number().min(-90).max(90),
+    maxLat: z.coerce.number().min(-90).max(90),
+    minLng: z.coerce.number().min(-180).max(180),
+    maxLng: z.coerce.number().min(-180).max(180),
+    status: z
+      .union([z.enum(TaskStatus), z.array(z.enum(TaskStatus))])
+      .optional()
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      }),
+    workType: z
+      .union([z.enum(TaskWorkType), z.array(z.enum(TaskWorkType))])
+      .optional()
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      }),
+    assigneeIds: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .transform((val) => {
+        if (!val) {
+          return undefined
+        }
+        return Array.isArray(val) ? val : [val]
+      }),
+    teamId: z.string().optional(),
+    createdFrom: z.string().datetime().optional(),
+    createdTo: z.string().datetime().optional(),
+    completedFrom: z.string().datetime().optional(),
+    completedTo: z.string().datetime().optional(),
+  })
+  .refine((data) => data.minLat <= data.maxLat && data.minLng <= data.maxLng, {
+    message: 'Vùng bản đồ không hợp lệ',
+    path: ['maxLat'],
+  })
+
+export type TaskMapQuery = z.infer<typeof zTaskMapQuery>
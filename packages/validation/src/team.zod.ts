@@ -0,0 +1,53 @@
+import { z } from './zod'
+
+/**
+ * Validation schemas for teams (crews that go out together)
+ *
+ * Assigning a task to a team adds its members to the task's assignees and
+ * remembers the team on the task.
+ */
+
+const zTeamName = z
+  .string()
+  .trim()
+  .min(2, 'Tên đội quá ngắn')
+  .max(100, 'Tên đội quá dài')
+
+const zTeamMemberIds = z
+  .array(z.string().min(1))
+  .min(1, 'Đội phải có ít nhất một thành viên')
+  .max(20, 'Đội có tối đa 20 thành viên')
+
+const isLeaderAMember = (data: {
+  leaderId?: string | null
+  memberIds?: string[]
+}) =>
+  !data.leaderId || !data.memberIds || data.memberIds.includes(data.leaderId)
+
+const leaderNotAMemberError = {
+  message: 'Trưởng nhóm phải là thành viên của đội',
+  path: ['leaderId'],
+}
+
+export const zCreateTeam = z
+  .object({
+    name: zTeamName,
+    leaderId: z.string().min(1).nullable().optional(),
+    memberIds: zTeamMemberIds,
+  })
+  .refine(isLeaderAMember, leaderNotAMemberError)
+
+export const zUpdateTeam = z
+  .object({
+    name: zTeamName.optional(),
+    leaderId: z.string().min(1).nullable().optional(),
+    memberIds: zTeamMemberIds.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Phải cập nhật ít nhất một trường',
+  })
+  .refine(isLeaderAMember, leaderNotAMemberError)
+
+// Type exports
+export type CreateTeamValues = z.infer<typeof zCreateTeam>
+export type UpdateTeamValues = z.infer<typeof zUpdateTeam>